@@ -18,6 +18,29 @@ const EXPECTED_MIGRATIONS = [
   '20260110000002_create_terms_history_table.sql',
   '20260110000003_create_batch_metadata_table.sql',
   '20260110000004_create_rls_policies.sql',
+  '20260110000005_create_news_source_articles_table.sql',
+  '20260110000006_create_news_category_summaries_table.sql',
+  '20260110000007_create_bookmarks_table.sql',
+  '20260110000008_create_review_states_table.sql',
+  '20260110000009_create_term_quizzes_table.sql',
+  '20260110000010_create_search_content_function.sql',
+  '20260110000011_create_term_explanations_table.sql',
+  '20260110000012_create_batch_runs_tables.sql',
+  '20260110000013_create_notification_deliveries_table.sql',
+  '20260110000014_create_batch_locks_table.sql',
+  '20260110000015_create_claude_usage_table.sql',
+  '20260110000016_add_generation_model_columns.sql',
+  '20260110000017_add_prompt_version_columns.sql',
+  '20260110000018_create_claude_response_cache_table.sql',
+  '20260110000019_create_claude_message_batches_table.sql',
+  '20260110000020_add_content_moderation.sql',
+  '20260110000021_create_replace_terms_function.sql',
+  '20260110000022_restrict_child_tables_to_published.sql',
+  '20260110000023_add_messages_batch_lock_job.sql',
+  '20260110000024_create_save_news_function.sql',
+  '20260110000025_protect_moderated_news_children.sql',
+  '20260110000026_create_replace_news_category_summaries_function.sql',
+  '20260110000027_restrict_term_explanations_to_published.sql',
 ];
 
 describe('Supabase Migrations', () => {
@@ -149,6 +172,554 @@ describe('Supabase Migrations', () => {
         expect(content).toContain('USING (true)');
       });
     });
+
+    test('news_source_articles table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000005_create_news_source_articles_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE');
+      expect(content).toContain('news_source_articles');
+
+      // 必須カラム
+      expect(content).toContain('id SERIAL PRIMARY KEY');
+      expect(content).toContain('news_date DATE NOT NULL REFERENCES news (date) ON DELETE CASCADE');
+      expect(content).toContain('title TEXT NOT NULL');
+      expect(content).toContain('outlet TEXT NOT NULL');
+      expect(content).toContain('url TEXT NOT NULL');
+      expect(content).toContain('published_at TIMESTAMPTZ');
+
+      // CHECK制約
+      expect(content).toContain("CHECK (region IN ('world', 'japan'))");
+
+      // インデックス
+      expect(content).toContain('idx_news_source_articles_news_date');
+
+      // RLS
+      expect(content).toContain('ALTER TABLE news_source_articles ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('CREATE POLICY "news_source_articles_select_all"');
+    });
+
+    test('news_category_summaries table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000006_create_news_category_summaries_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE');
+      expect(content).toContain('news_category_summaries');
+
+      // 必須カラム
+      expect(content).toContain('news_date DATE NOT NULL REFERENCES news (date) ON DELETE CASCADE');
+      expect(content).toContain('title TEXT NOT NULL');
+      expect(content).toContain('summary TEXT NOT NULL');
+      expect(content).toContain('article_count INTEGER');
+
+      // 日付+カテゴリの複合主キー
+      expect(content).toContain('PRIMARY KEY (news_date, category)');
+
+      // CHECK制約
+      expect(content).toContain(
+        "CHECK (category IN ('markets', 'macro', 'earnings', 'crypto', 'fx'))"
+      );
+
+      // RLS
+      expect(content).toContain('ALTER TABLE news_category_summaries ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('CREATE POLICY "news_category_summaries_select_all"');
+    });
+
+    test('bookmarks table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000007_create_bookmarks_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE');
+      expect(content).toContain('bookmarks');
+
+      // 必須カラム
+      expect(content).toContain(
+        'user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE'
+      );
+      expect(content).toContain('item_key TEXT NOT NULL');
+      expect(content).toContain('title TEXT NOT NULL');
+
+      // CHECK制約・一意制約
+      expect(content).toContain("CHECK (item_type IN ('term', 'news'))");
+      expect(content).toContain('UNIQUE (user_id, item_type, item_key)');
+
+      // RLS: 本人のレコードのみ操作可能
+      expect(content).toContain('ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('CREATE POLICY "bookmarks_select_own"');
+      expect(content).toContain('CREATE POLICY "bookmarks_insert_own"');
+      expect(content).toContain('CREATE POLICY "bookmarks_delete_own"');
+      expect(content).toContain('auth.uid() = user_id');
+      expect(content).not.toContain('USING (true)');
+    });
+
+    test('review_states table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000008_create_review_states_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE');
+      expect(content).toContain('review_states');
+
+      // 必須カラム
+      expect(content).toContain(
+        'user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE'
+      );
+      expect(content).toContain('term_name TEXT NOT NULL');
+      expect(content).toContain('due_date DATE NOT NULL');
+      expect(content).toContain('updated_at TIMESTAMPTZ NOT NULL');
+      expect(content).toContain('PRIMARY KEY (user_id, term_name)');
+
+      // RLS: 本人のレコードのみ操作可能(upsertのためINSERTとUPDATEを許可)
+      expect(content).toContain('ALTER TABLE review_states ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('CREATE POLICY "review_states_select_own"');
+      expect(content).toContain('CREATE POLICY "review_states_insert_own"');
+      expect(content).toContain('CREATE POLICY "review_states_update_own"');
+      expect(content).toContain('auth.uid() = user_id');
+      expect(content).not.toContain('USING (true)');
+    });
+
+    test('term_quizzes table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000009_create_term_quizzes_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE');
+      expect(content).toContain('term_quizzes');
+
+      // 必須カラム
+      expect(content).toContain('date DATE NOT NULL');
+      expect(content).toContain('term_name TEXT NOT NULL');
+      expect(content).toContain('question TEXT NOT NULL');
+      expect(content).toContain('choices JSONB NOT NULL');
+      expect(content).toContain('explanation TEXT NOT NULL');
+
+      // CHECK制約・一意制約
+      expect(content).toContain('CHECK (correct_index BETWEEN 0 AND 3)');
+      expect(content).toContain('UNIQUE (date, term_name, question_index)');
+
+      // インデックス
+      expect(content).toContain('idx_term_quizzes_date');
+
+      // RLS
+      expect(content).toContain('ALTER TABLE term_quizzes ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('CREATE POLICY "term_quizzes_select_all"');
+    });
+
+    test('search_content function migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000010_create_search_content_function.sql'),
+        'utf-8'
+      );
+
+      // 日本語の部分一致検索のためのトライグラム拡張
+      expect(content).toContain('CREATE EXTENSION IF NOT EXISTS pg_trgm');
+
+      // 用語・ニュースの検索対象カラムのインデックス
+      expect(content).toContain('idx_terms_name_trgm ON terms USING GIN (name gin_trgm_ops)');
+      expect(content).toContain('idx_terms_description_trgm');
+      expect(content).toContain('idx_news_world_summary_trgm');
+      expect(content).toContain('idx_news_japan_summary_trgm');
+
+      // ランキング付きの検索関数
+      expect(content).toContain('CREATE OR REPLACE FUNCTION search_content');
+      expect(content).toContain('ORDER BY rank DESC, item_date DESC');
+
+      // anon keyから呼び出せること
+      expect(content).toContain(
+        'GRANT EXECUTE ON FUNCTION search_content(TEXT, INTEGER) TO anon, authenticated'
+      );
+    });
+
+    test('term_explanations table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000011_create_term_explanations_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE');
+      expect(content).toContain('term_explanations');
+
+      // 必須カラム(用語名ごとに1件)
+      expect(content).toContain('term_name TEXT PRIMARY KEY');
+      expect(content).toContain('description TEXT NOT NULL');
+      expect(content).toContain('model TEXT NOT NULL');
+      expect(content).toContain("CHECK (difficulty IN ('beginner', 'intermediate', 'advanced'))");
+
+      // RLS
+      expect(content).toContain('ALTER TABLE term_explanations ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('CREATE POLICY "term_explanations_select_all"');
+    });
+
+    test('batch_runs tables migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000012_create_batch_runs_tables.sql'),
+        'utf-8'
+      );
+
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS batch_runs');
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS batch_run_steps');
+
+      // 実行ID・種類・結果
+      expect(content).toContain('id UUID PRIMARY KEY');
+      expect(content).toContain("CHECK (job IN ('news', 'terms'))");
+      expect(content).toContain("CHECK (status IN ('success', 'partial', 'failure'))");
+      expect(content).toContain('token_usage JSONB');
+
+      // ステップは実行履歴に紐づき、実行履歴の削除時に合わせて削除
+      expect(content).toContain('REFERENCES batch_runs (id) ON DELETE CASCADE');
+      expect(content).toContain('UNIQUE (run_id, position)');
+
+      // RLS(読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE batch_runs ENABLE ROW LEVEL SECURITY');
+      expect(content).toContain('ALTER TABLE batch_run_steps ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY');
+    });
+
+    test('notification_deliveries table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000013_create_notification_deliveries_table.sql'),
+        'utf-8'
+      );
+
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS notification_deliveries');
+
+      // 重複判定キーで一意
+      expect(content).toContain('dedupe_key TEXT PRIMARY KEY');
+      expect(content).toContain("CHECK (job IN ('news', 'terms'))");
+      expect(content).toContain("CHECK (severity IN ('info', 'warning', 'error'))");
+
+      // RLS(読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY');
+    });
+
+    test('batch_locks table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000014_create_batch_locks_table.sql'),
+        'utf-8'
+      );
+
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS batch_locks');
+
+      // バッチの種類ごとに1レコード
+      expect(content).toContain("job TEXT PRIMARY KEY CHECK (job IN ('news', 'terms'))");
+      expect(content).toContain('expires_at TIMESTAMPTZ NOT NULL');
+
+      // 有効期限切れの場合のみアトミックに取得する関数
+      expect(content).toContain('CREATE OR REPLACE FUNCTION acquire_batch_lock');
+      expect(content).toContain('ON CONFLICT (job) DO UPDATE');
+      expect(content).toContain('WHERE batch_locks.expires_at <= NOW()');
+
+      // RLS(読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE batch_locks ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY');
+    });
+
+    test('claude_usage table migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000015_create_claude_usage_table.sql'),
+        'utf-8'
+      );
+
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS claude_usage');
+
+      // 呼び出しごとのトークン使用量と料金
+      expect(content).toContain("CHECK (job IN ('news', 'terms', 'explain', 'other'))");
+      expect(content).toContain('input_tokens INTEGER NOT NULL CHECK (input_tokens >= 0)');
+      expect(content).toContain('cost_usd NUMERIC(12, 6) NOT NULL');
+      expect(content).toContain('CREATE INDEX IF NOT EXISTS idx_claude_usage_created_at');
+
+      // 期間内の利用量を集計する関数
+      expect(content).toContain('CREATE OR REPLACE FUNCTION summarize_claude_usage');
+      expect(content).toContain('GROUP BY claude_usage.job, claude_usage.operation, claude_usage.model');
+
+      // RLS(読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE claude_usage ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY');
+    });
+
+    test('generation model columns migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000016_add_generation_model_columns.sql'),
+        'utf-8'
+      );
+
+      // 既存レコードのためNULL許可で追加
+      expect(content).toContain('ALTER TABLE news ADD COLUMN IF NOT EXISTS world_news_model TEXT;');
+      expect(content).toContain('ALTER TABLE news ADD COLUMN IF NOT EXISTS japan_news_model TEXT;');
+      expect(content).toContain(
+        'ALTER TABLE news_category_summaries ADD COLUMN IF NOT EXISTS model TEXT;'
+      );
+      expect(content).toContain('ALTER TABLE terms ADD COLUMN IF NOT EXISTS model TEXT;');
+    });
+
+    test('prompt version columns migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000017_add_prompt_version_columns.sql'),
+        'utf-8'
+      );
+
+      // 既存レコードのためNULL許可で追加
+      expect(content).toContain(
+        'ALTER TABLE news ADD COLUMN IF NOT EXISTS world_news_prompt_version TEXT;'
+      );
+      expect(content).toContain(
+        'ALTER TABLE news ADD COLUMN IF NOT EXISTS japan_news_prompt_version TEXT;'
+      );
+      expect(content).toContain(
+        'ALTER TABLE news_category_summaries ADD COLUMN IF NOT EXISTS prompt_version TEXT;'
+      );
+      expect(content).toContain('ALTER TABLE terms ADD COLUMN IF NOT EXISTS prompt_version TEXT;');
+    });
+
+    test('claude_response_cache migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000018_create_claude_response_cache_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS claude_response_cache');
+      expect(content).toContain('cache_key TEXT PRIMARY KEY');
+      expect(content).toContain('response JSONB NOT NULL');
+      expect(content).toContain('expires_at TIMESTAMPTZ NOT NULL');
+
+      // 期限切れレコードの削除用インデックス
+      expect(content).toContain('idx_claude_response_cache_expires_at');
+
+      // RLS(読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE claude_response_cache ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY');
+    });
+
+    test('claude_message_batches migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000019_create_claude_message_batches_table.sql'),
+        'utf-8'
+      );
+
+      // テーブル作成
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS claude_message_batches');
+      expect(content).toContain('id TEXT PRIMARY KEY');
+      expect(content).toContain("job IN ('terms', 'news')");
+      expect(content).toContain("status IN ('in_progress', 'completed')");
+      expect(content).toContain('requests JSONB NOT NULL');
+      expect(content).toContain('results JSONB');
+
+      // 処理中のバッチの取得用の部分インデックス
+      expect(content).toContain('idx_claude_message_batches_in_progress');
+      expect(content).toContain("WHERE status = 'in_progress'");
+
+      // RLS(読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE claude_message_batches ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY');
+    });
+
+    test('content moderation migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000020_add_content_moderation.sql'),
+        'utf-8'
+      );
+
+      // 公開フラグ
+      expect(content).toContain(
+        'ALTER TABLE news ADD COLUMN IF NOT EXISTS published BOOLEAN NOT NULL DEFAULT TRUE'
+      );
+      expect(content).toContain(
+        'ALTER TABLE terms ADD COLUMN IF NOT EXISTS published BOOLEAN NOT NULL DEFAULT TRUE'
+      );
+
+      // 読み取りポリシーを公開中のレコードのみに変更
+      expect(content).toContain('DROP POLICY IF EXISTS "news_select_all" ON news');
+      expect(content).toContain('CREATE POLICY "news_select_published" ON news');
+      expect(content).toContain('DROP POLICY IF EXISTS "terms_select_all" ON terms');
+      expect(content).toContain('CREATE POLICY "terms_select_published" ON terms');
+      expect(content).toContain('USING (published)');
+
+      // 監査ログ
+      expect(content).toContain('CREATE TABLE IF NOT EXISTS content_audit_log');
+      expect(content).toContain("table_name IN ('news', 'terms')");
+      expect(content).toContain("action IN ('edit', 'unpublish', 'republish')");
+      expect(content).toContain('actor TEXT NOT NULL');
+      expect(content).toContain('previous_value JSONB NOT NULL');
+      expect(content).toContain('idx_content_audit_log_record');
+
+      // 追記のみ(更新・削除をトリガーで拒否)
+      expect(content).toContain('BEFORE UPDATE OR DELETE ON content_audit_log');
+      expect(content).toContain('BEFORE TRUNCATE ON content_audit_log');
+
+      // RLS(監査ログの読み取りポリシーなし = service_roleのみ)
+      expect(content).toContain('ALTER TABLE content_audit_log ENABLE ROW LEVEL SECURITY');
+      expect(content).not.toContain('CREATE POLICY "content_audit_log');
+    });
+
+    test('replace_terms_for_date function migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000021_create_replace_terms_function.sql'),
+        'utf-8'
+      );
+
+      // 関数定義
+      expect(content).toContain('CREATE OR REPLACE FUNCTION replace_terms_for_date(');
+      expect(content).toContain('LANGUAGE plpgsql');
+
+      // 用語が揃っていない場合・管理者が変更した用語は置き換えない
+      expect(content).toContain('NOT replace_existing');
+      expect(content).toContain('NOT t.published');
+      expect(content).toContain('FROM content_audit_log a');
+      expect(content).toContain("ERRCODE = '55000'");
+
+      // クイズと用語を置き換え、配信されなくなった用語の履歴を削除
+      expect(content).toContain('DELETE FROM term_quizzes WHERE date = target_date');
+      expect(content).toContain('DELETE FROM terms WHERE date = target_date');
+      expect(content).toContain('jsonb_to_recordset(new_terms)');
+      expect(content).toContain('DELETE FROM terms_history h');
+
+      // バックエンド以外からの呼び出しを禁止
+      expect(content).toContain(
+        'REVOKE EXECUTE ON FUNCTION replace_terms_for_date(DATE, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated'
+      );
+    });
+
+    test('child tables published restriction migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000022_restrict_child_tables_to_published.sql'),
+        'utf-8'
+      );
+
+      // 全レコードを読み取れるポリシーを削除
+      expect(content).toContain(
+        'DROP POLICY IF EXISTS "news_category_summaries_select_all" ON news_category_summaries'
+      );
+      expect(content).toContain(
+        'DROP POLICY IF EXISTS "news_source_articles_select_all" ON news_source_articles'
+      );
+      expect(content).toContain('DROP POLICY IF EXISTS "term_quizzes_select_all" ON term_quizzes');
+
+      // 親のレコードが公開中の場合のみ読み取り可能
+      expect(content).toContain('CREATE POLICY "news_category_summaries_select_published"');
+      expect(content).toContain('WHERE n.date = news_category_summaries.news_date AND n.published');
+      expect(content).toContain('CREATE POLICY "news_source_articles_select_published"');
+      expect(content).toContain('WHERE n.date = news_source_articles.news_date AND n.published');
+      expect(content).toContain('CREATE POLICY "term_quizzes_select_published"');
+      expect(content).toContain(
+        'WHERE t.date = term_quizzes.date AND t.name = term_quizzes.term_name AND t.published'
+      );
+    });
+
+    test('messages batch lock job migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000023_add_messages_batch_lock_job.sql'),
+        'utf-8'
+      );
+
+      // Message Batchesの確認のロックを取得できるようにCHECK制約を置き換え
+      expect(content).toContain('DROP CONSTRAINT IF EXISTS batch_locks_job_check');
+      expect(content).toContain(
+        "ADD CONSTRAINT batch_locks_job_check CHECK (job IN ('news', 'terms', 'messages'))"
+      );
+    });
+
+    test('save_news_for_date function migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000024_create_save_news_function.sql'),
+        'utf-8'
+      );
+
+      // 管理者が変更したニュースの判定(非公開、または監査ログに記録がある)
+      expect(content).toContain('CREATE OR REPLACE FUNCTION is_news_moderated(');
+      expect(content).toContain('NOT n.published');
+      expect(content).toContain('FROM content_audit_log a');
+
+      // 管理者が変更したニュースは上書きしない
+      expect(content).toContain('CREATE OR REPLACE FUNCTION save_news_for_date(');
+      expect(content).toContain('FOR UPDATE');
+      expect(content).toContain('IF is_news_moderated(target_date) THEN');
+      expect(content).toContain("ERRCODE = '55000'");
+      expect(content).toContain('ON CONFLICT (date) DO UPDATE SET');
+
+      // バックエンド以外からの呼び出しを禁止
+      expect(content).toContain(
+        'REVOKE EXECUTE ON FUNCTION save_news_for_date(DATE, JSONB) FROM PUBLIC, anon, authenticated'
+      );
+    });
+
+    test('moderated news children protection migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000025_protect_moderated_news_children.sql'),
+        'utf-8'
+      );
+
+      // 管理者が変更した日付の子テーブルへの書き込みを拒否
+      expect(content).toContain(
+        'CREATE OR REPLACE FUNCTION reject_moderated_news_child_modification()'
+      );
+      expect(content).toContain('IF is_news_moderated(target_date) THEN');
+      expect(content).toContain("ERRCODE = '55000'");
+
+      // newsのレコード削除によるカスケード削除は許可
+      expect(content).toContain('IF NOT EXISTS (SELECT 1 FROM news WHERE date = target_date) THEN');
+
+      // 出典記事・カテゴリ別要約の全ての書き込みが対象
+      expect(content).toContain('BEFORE INSERT OR UPDATE OR DELETE ON news_source_articles');
+      expect(content).toContain('BEFORE INSERT OR UPDATE OR DELETE ON news_category_summaries');
+    });
+
+    test('replace_news_category_summaries function migration contains required elements', () => {
+      const content = fs.readFileSync(
+        path.join(
+          MIGRATIONS_DIR,
+          '20260110000026_create_replace_news_category_summaries_function.sql'
+        ),
+        'utf-8'
+      );
+
+      // 関数定義
+      expect(content).toContain('CREATE OR REPLACE FUNCTION replace_news_category_summaries(');
+      expect(content).toContain('LANGUAGE plpgsql');
+
+      // 渡したカテゴリのみ削除して挿入し直す
+      expect(content).toContain('DELETE FROM news_category_summaries c');
+      expect(content).toContain('AND c.category IN (');
+      expect(content).toContain('INSERT INTO news_category_summaries (');
+      expect(content).toContain('jsonb_to_recordset(new_summaries)');
+
+      // バックエンド以外からの呼び出しを禁止
+      expect(content).toContain(
+        'REVOKE EXECUTE ON FUNCTION replace_news_category_summaries(DATE, JSONB) FROM PUBLIC, anon, authenticated'
+      );
+    });
+
+    test('term explanations RLS migration restricts reads to published terms', () => {
+      const content = fs.readFileSync(
+        path.join(MIGRATIONS_DIR, '20260110000027_restrict_term_explanations_to_published.sql'),
+        'utf-8'
+      );
+
+      // 非公開のtermsレコードを参照するため、定義者の権限で実行する
+      expect(content).toContain('CREATE OR REPLACE FUNCTION is_term_name_unpublished(target_name TEXT)');
+      expect(content).toContain('SECURITY DEFINER');
+      expect(content).toContain('SET search_path = public');
+
+      // 全レコード読み取り可能なポリシーを置き換える
+      expect(content).toContain('DROP POLICY IF EXISTS "term_explanations_select_all" ON term_explanations');
+      expect(content).toContain('CREATE POLICY "term_explanations_select_published" ON term_explanations');
+      expect(content).toContain('USING (NOT is_term_name_unpublished(term_name))');
+    });
   });
 
   describe('Seed File', () => {
@@ -0,0 +1,150 @@
+/**
+ * 監査ログAPIエンドポイント
+ *
+ * 管理者によるニュース・用語の編集・非公開・再公開の記録(変更者・変更前後の値・理由)を
+ * 新しい順に返す。ADMIN_API_KEYSに設定したキーで認証する。
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ *
+ * @see https://vercel.com/docs/functions - Vercel Functions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  validateAdminRequest,
+  listContentAuditLog,
+  ContentAuditLogFilter,
+  MAX_MODERATION_LIST_LIMIT,
+} from '../../src/services/moderation';
+import { ContentAuditLogRow, ContentAuditTable } from '../../src/models/supabase.types';
+
+/**
+ * 指定可能な対象のテーブル
+ */
+const AUDIT_TABLES: readonly ContentAuditTable[] = ['news', 'terms'];
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - 監査ログと件数(成功時)
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ */
+interface AuditLogResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    entries: ContentAuditLogRow[];
+    count: number;
+  };
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * クエリパラメータを絞り込み条件に変換
+ *
+ * @returns 絞り込み条件、または不正なパラメータのエラーメッセージ
+ */
+function parseFilter(
+  query: VercelRequest['query']
+): { filter: ContentAuditLogFilter } | { error: string } {
+  const filter: ContentAuditLogFilter = {};
+
+  const table = query.table;
+  if (table !== undefined) {
+    if (typeof table !== 'string' || !AUDIT_TABLES.includes(table as ContentAuditTable)) {
+      return { error: `tableパラメータには${AUDIT_TABLES.join(' / ')}を指定してください` };
+    }
+    filter.table = table as ContentAuditTable;
+  }
+
+  const recordId = query.recordId;
+  if (recordId !== undefined) {
+    if (typeof recordId !== 'string' || recordId === '') {
+      return { error: 'recordIdパラメータにはニュースの日付または用語のIDを指定してください' };
+    }
+    if (!filter.table) {
+      return { error: 'recordIdパラメータを指定する場合はtableパラメータも指定してください' };
+    }
+    filter.recordId = recordId;
+  }
+
+  const limit = query.limit;
+  if (limit !== undefined) {
+    const parsed = typeof limit === 'string' && /^\d+$/.test(limit) ? Number(limit) : NaN;
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_MODERATION_LIST_LIMIT) {
+      return {
+        error: `limitパラメータには1〜${MAX_MODERATION_LIST_LIMIT}の整数を指定してください`,
+      };
+    }
+    filter.limit = parsed;
+  }
+
+  return { filter };
+}
+
+/**
+ * GET /api/admin/audit-log?table=<news|terms>&recordId=<日付またはID>&limit=<件数>
+ *
+ * 監査ログを新しい順に取得
+ *
+ * Headers:
+ * - Authorization: Bearer <ADMIN_API_KEYSのキー>
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse<AuditLogResponse>) {
+  // GETメソッドのみ許可
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // 管理API認証
+  const authResult = validateAdminRequest(req);
+  if (!authResult.isValid) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      error: authResult.error,
+    });
+  }
+
+  // クエリパラメータの検証
+  const parsed = parseFilter(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      success: false,
+      message: parsed.error,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const entries = await listContentAuditLog(parsed.filter);
+
+    return res.status(200).json({
+      success: true,
+      message: '監査ログを取得しました',
+      data: { entries, count: entries.length },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[AuditLogAPI] Failed to fetch audit log:', error);
+    return res.status(500).json({
+      success: false,
+      message: '監査ログの取得中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
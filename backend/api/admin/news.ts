@@ -0,0 +1,210 @@
+/**
+ * ニュース管理APIエンドポイント
+ *
+ * 管理者がClaudeの生成したニュースを一覧・編集・非公開・再公開する。
+ * 変更は管理者名・変更前の値とともに監査ログに記録する。
+ * ADMIN_API_KEYSに設定したキーで認証する。
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ *
+ * @see https://vercel.com/docs/functions - Vercel Functions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  validateAdminRequest,
+  listNewsForModeration,
+  moderateNews,
+  parseNewsModerationBody,
+  ContentModerationValidationError,
+  ContentNotFoundError,
+  ModerationListFilter,
+  MAX_MODERATION_LIST_LIMIT,
+} from '../../src/services/moderation';
+import { ContentAuditLogRow, NewsRow, isValidDateString } from '../../src/models/supabase.types';
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - ニュースの一覧、または変更後のニュースと監査ログ(成功時)
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ */
+interface AdminNewsResponse {
+  success: boolean;
+  message: string;
+  data?:
+    | {
+        news: NewsRow[];
+        count: number;
+      }
+    | {
+        news: NewsRow;
+        auditEntry: ContentAuditLogRow | null;
+      };
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * クエリパラメータを一覧の絞り込み条件に変換
+ *
+ * @returns 絞り込み条件、または不正なパラメータのエラーメッセージ
+ */
+function parseFilter(
+  query: VercelRequest['query']
+): { filter: ModerationListFilter } | { error: string } {
+  const filter: ModerationListFilter = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (value !== undefined) {
+      if (!isValidDateString(value)) {
+        return { error: `${key}パラメータはYYYY-MM-DD形式で指定してください` };
+      }
+      filter[key] = value;
+    }
+  }
+
+  if (filter.from && filter.to && filter.from > filter.to) {
+    return { error: 'fromパラメータはto以前の日付を指定してください' };
+  }
+
+  const published = query.published;
+  if (published !== undefined) {
+    if (published !== 'true' && published !== 'false') {
+      return { error: 'publishedパラメータにはtrue / falseを指定してください' };
+    }
+    filter.published = published === 'true';
+  }
+
+  const limit = query.limit;
+  if (limit !== undefined) {
+    const parsed = typeof limit === 'string' && /^\d+$/.test(limit) ? Number(limit) : NaN;
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_MODERATION_LIST_LIMIT) {
+      return {
+        error: `limitパラメータには1〜${MAX_MODERATION_LIST_LIMIT}の整数を指定してください`,
+      };
+    }
+    filter.limit = parsed;
+  }
+
+  return { filter };
+}
+
+/**
+ * GET /api/admin/news?from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&published=<true|false>&limit=<件数>
+ * PATCH /api/admin/news?date=<YYYY-MM-DD>
+ *
+ * GET: 非公開のものも含めてニュースを配信日の新しい順に取得
+ * PATCH: ニュースを編集・非公開・再公開
+ *
+ * PATCHのBody(JSON、公開状態の変更と内容の編集は別々に行う):
+ * - world_news_title / world_news_summary / japan_news_title / japan_news_summary: 編集後の内容
+ * - published: false で非公開、true で再公開
+ * - reason: 変更の理由(任意、監査ログに記録)
+ *
+ * Headers:
+ * - Authorization: Bearer <ADMIN_API_KEYSのキー>
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse<AdminNewsResponse>) {
+  // GET・PATCHメソッドのみ許可
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // 管理API認証(キーから管理者名を特定)
+  const authResult = validateAdminRequest(req);
+  if (!authResult.isValid || !authResult.actor) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      error: authResult.error,
+    });
+  }
+
+  if (req.method === 'GET') {
+    const parsed = parseFilter(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        success: false,
+        message: parsed.error,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    try {
+      const news = await listNewsForModeration(parsed.filter);
+
+      return res.status(200).json({
+        success: true,
+        message: 'ニュースを取得しました',
+        data: { news, count: news.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('[AdminNewsAPI] Failed to fetch news:', error);
+      return res.status(500).json({
+        success: false,
+        message: 'ニュースの取得中にエラーが発生しました',
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const date = req.query.date;
+  if (!isValidDateString(date)) {
+    return res.status(400).json({
+      success: false,
+      message: 'dateパラメータはYYYY-MM-DD形式で指定してください',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const { changes, reason } = parseNewsModerationBody(req.body);
+    const result = await moderateNews(date, { actor: authResult.actor, changes, reason });
+
+    return res.status(200).json({
+      success: true,
+      message: result.auditEntry ? 'ニュースを変更しました' : '変更はありませんでした',
+      data: { news: result.row, auditEntry: result.auditEntry },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ContentModerationValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    if (error instanceof ContentNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        message: `${date}のニュースは存在しません`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    console.error('[AdminNewsAPI] Failed to moderate news:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'ニュースの変更中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * 用語管理APIエンドポイント
+ *
+ * 管理者がClaudeの生成した用語を一覧・編集・非公開・再公開する。
+ * 変更は管理者名・変更前の値とともに監査ログに記録する。
+ * ADMIN_API_KEYSに設定したキーで認証する。
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ *
+ * @see https://vercel.com/docs/functions - Vercel Functions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  validateAdminRequest,
+  listTermsForModeration,
+  moderateTerm,
+  parseTermModerationBody,
+  ContentModerationValidationError,
+  ContentNotFoundError,
+  ModerationListFilter,
+  MAX_MODERATION_LIST_LIMIT,
+} from '../../src/services/moderation';
+import { ContentAuditLogRow, TermRow, isValidDateString } from '../../src/models/supabase.types';
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - 用語の一覧、または変更後の用語と監査ログ(成功時)
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ */
+interface AdminTermsResponse {
+  success: boolean;
+  message: string;
+  data?:
+    | {
+        terms: TermRow[];
+        count: number;
+      }
+    | {
+        term: TermRow;
+        auditEntry: ContentAuditLogRow | null;
+      };
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * クエリパラメータを一覧の絞り込み条件に変換
+ *
+ * @returns 絞り込み条件、または不正なパラメータのエラーメッセージ
+ */
+function parseFilter(
+  query: VercelRequest['query']
+): { filter: ModerationListFilter } | { error: string } {
+  const filter: ModerationListFilter = {};
+
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (value !== undefined) {
+      if (!isValidDateString(value)) {
+        return { error: `${key}パラメータはYYYY-MM-DD形式で指定してください` };
+      }
+      filter[key] = value;
+    }
+  }
+
+  if (filter.from && filter.to && filter.from > filter.to) {
+    return { error: 'fromパラメータはto以前の日付を指定してください' };
+  }
+
+  const published = query.published;
+  if (published !== undefined) {
+    if (published !== 'true' && published !== 'false') {
+      return { error: 'publishedパラメータにはtrue / falseを指定してください' };
+    }
+    filter.published = published === 'true';
+  }
+
+  const limit = query.limit;
+  if (limit !== undefined) {
+    const parsed = typeof limit === 'string' && /^\d+$/.test(limit) ? Number(limit) : NaN;
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_MODERATION_LIST_LIMIT) {
+      return {
+        error: `limitパラメータには1〜${MAX_MODERATION_LIST_LIMIT}の整数を指定してください`,
+      };
+    }
+    filter.limit = parsed;
+  }
+
+  return { filter };
+}
+
+/**
+ * GET /api/admin/terms?from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&published=<true|false>&limit=<件数>
+ * PATCH /api/admin/terms?id=<用語のID>
+ *
+ * GET: 非公開のものも含めて用語を配信日の新しい順に取得
+ * PATCH: 用語を編集・非公開・再公開
+ *
+ * PATCHのBody(JSON、公開状態の変更と内容の編集は別々に行う):
+ * - name / description / difficulty: 編集後の内容
+ * - published: false で非公開、true で再公開
+ * - reason: 変更の理由(任意、監査ログに記録)
+ *
+ * Headers:
+ * - Authorization: Bearer <ADMIN_API_KEYSのキー>
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse<AdminTermsResponse>) {
+  // GET・PATCHメソッドのみ許可
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // 管理API認証(キーから管理者名を特定)
+  const authResult = validateAdminRequest(req);
+  if (!authResult.isValid || !authResult.actor) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      error: authResult.error,
+    });
+  }
+
+  if (req.method === 'GET') {
+    const parsed = parseFilter(req.query);
+    if ('error' in parsed) {
+      return res.status(400).json({
+        success: false,
+        message: parsed.error,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    try {
+      const terms = await listTermsForModeration(parsed.filter);
+
+      return res.status(200).json({
+        success: true,
+        message: '用語を取得しました',
+        data: { terms, count: terms.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('[AdminTermsAPI] Failed to fetch terms:', error);
+      return res.status(500).json({
+        success: false,
+        message: '用語の取得中にエラーが発生しました',
+        timestamp: new Date().toISOString(),
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  const id = req.query.id;
+  if (typeof id !== 'string' || !/^[1-9]\d*$/.test(id)) {
+    return res.status(400).json({
+      success: false,
+      message: 'idパラメータには用語のIDを指定してください',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const { changes, reason } = parseTermModerationBody(req.body);
+    const result = await moderateTerm(Number(id), { actor: authResult.actor, changes, reason });
+
+    return res.status(200).json({
+      success: true,
+      message: result.auditEntry ? '用語を変更しました' : '変更はありませんでした',
+      data: { term: result.row, auditEntry: result.auditEntry },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    if (error instanceof ContentModerationValidationError) {
+      return res.status(400).json({
+        success: false,
+        message: error.message,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    if (error instanceof ContentNotFoundError) {
+      return res.status(404).json({
+        success: false,
+        message: `ID ${id}の用語は存在しません`,
+        timestamp: new Date().toISOString(),
+      });
+    }
+
+    console.error('[AdminTermsAPI] Failed to moderate term:', error);
+    return res.status(500).json({
+      success: false,
+      message: '用語の変更中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Message Batches確認APIエンドポイント
+ *
+ * Vercel Cron Jobsから1日1回呼び出され、Message Batchesで送信した処理中のバッチの完了を確認する。
+ * 完了したバッチの結果は用語生成の結果・要約結果に変換してclaude_message_batchesテーブルに保存する。
+ *
+ * Cronスケジュール: 0 23 * * * (毎日23:00 UTC = 8:00 JST)
+ * Vercelの無料プランのCron Jobsは1日1回までのため、毎時の確認は行わない
+ * (Message Batchesは24時間以内に完了するため、送信の翌日までに結果を取得できる)。
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ * - 9.1 (CRON_SECRET環境変数による認証)
+ *
+ * @see https://vercel.com/docs/cron-jobs - Vercel Cron Jobs
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateCronSecret, CronLogger } from '../../src/services/cron';
+import { MessageBatchService, MessageBatchPollReport } from '../../src/services/messageBatches';
+import { SpendLedger } from '../../src/services/spend';
+import { BatchLock, BatchLockConflictError } from '../../src/services/batchLock';
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - 処理中のバッチの確認結果
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ * @property duration - 処理時間(ミリ秒)
+ */
+interface BatchMessagesResponse {
+  success: boolean;
+  message: string;
+  data?: MessageBatchPollReport;
+  timestamp: string;
+  error?: string;
+  duration?: number;
+}
+
+/**
+ * POST /api/batch/messages
+ *
+ * 処理中のバッチの完了を確認し、完了したバッチの結果を変換して保存する。
+ * 確認に失敗したバッチは処理中のまま残し、次回の確認で再試行する。
+ *
+ * 確認が実行中の場合は409 Conflictを返す。
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET>
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse<BatchMessagesResponse>
+) {
+  // Cronロガーを初期化(処理時間計測とログ出力)
+  const logger = new CronLogger('message-batches');
+
+  // POSTメソッドのみ許可(GETはVercel Cron Jobsからの呼び出しでも使用可能)
+  if (req.method !== 'POST' && req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // CRON_SECRET認証(共通モジュールを使用)
+  const authResult = validateCronSecret(req);
+  if (!authResult.isValid) {
+    logger.log('error', `Authentication failed: ${authResult.error}`);
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      error: authResult.error,
+    });
+  }
+
+  // 処理開始
+  logger.start();
+
+  try {
+    // 結果を取得したリクエストの利用料をMessage Batchesの料金で記録する
+    // 手動実行と重なって結果の保存・利用料の記録が二重にならないよう、リースロックを取得する
+    const service = new MessageBatchService({
+      usageLedger: new SpendLedger(),
+      lock: new BatchLock('messages'),
+    });
+    const report = await service.pollInProgress();
+
+    const summary = logger.end();
+
+    // すべてのバッチの確認に失敗した場合のみ失敗とする
+    const failed = report.checked > 0 && report.errors.length === report.checked;
+
+    return res.status(failed ? 500 : 200).json({
+      success: report.errors.length === 0,
+      message: failed
+        ? 'バッチの確認に失敗しました'
+        : `バッチを${report.checked}件確認しました(完了: ${report.completed.length}件、処理中: ${report.inProgress.length}件)`,
+      data: report,
+      timestamp: new Date().toISOString(),
+      duration: summary.durationMs,
+    });
+  } catch (error) {
+    // 確認が実行中(Cronのリトライ・手動実行の重複)
+    if (error instanceof BatchLockConflictError) {
+      const summary = logger.end(error);
+      return res.status(409).json({
+        success: false,
+        message: 'バッチの確認は実行中です',
+        timestamp: new Date().toISOString(),
+        error: error.message,
+        duration: summary.durationMs,
+      });
+    }
+
+    const summary = logger.end(error instanceof Error ? error : new Error('Unknown error'));
+    return res.status(500).json({
+      success: false,
+      message: 'バッチの確認中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+      duration: summary.durationMs,
+    });
+  }
+}
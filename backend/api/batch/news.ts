@@ -9,6 +9,11 @@
  *
  * Cronスケジュール: 0 23 * * * (UTC) = 8:00 JST
  *
+ * date / from / to / mode / dryRun パラメータを指定すると、過去の日付のニュースを再生成する
+ * (バックフィル)。newsテーブルは日付をPKとしてupsertされるため、再生成した日付の行は上書きされる
+ * (管理者が編集・非公開にした日付は上書きせず、その日付のエラーとして記録する)。
+ * ニュースソースから現在取得できる記事のうち、その日付までに公開された記事から要約する。
+ *
  * Requirements:
  * - 1.1 (毎日8:00に実行)
  * - 9.1 (CRON_SECRET環境変数による認証)
@@ -22,10 +27,23 @@ import { NewsApiClient } from '../../src/services/news/fetchers/newsApiClient';
 import { WorldNewsFetcher } from '../../src/services/news/fetchers/worldNewsFetcher';
 import { RssParser } from '../../src/services/news/fetchers/rssParser';
 import { JapanNewsFetcher } from '../../src/services/news/fetchers/japanNewsFetcher';
-import { getClaudeClient } from '../../src/services/claudeClient';
+import { getLlmProvider } from '../../src/services/llm';
 import { NewsSummaryService } from '../../src/services/news/summarization';
 import { NewsBatchService, NewsBatchResult } from '../../src/services/news/batch';
+import {
+  createRssFeedSources,
+  getEnabledRssFeedDefinitions,
+} from '../../src/services/news/sources';
 import { validateCronSecret, CronLogger } from '../../src/services/cron';
+import { BatchRunRecorder } from '../../src/services/batchRuns';
+import { createNotifierFromEnv } from '../../src/services/notifications';
+import { BatchLock, BatchLockConflictError } from '../../src/services/batchLock';
+import {
+  parseBackfillRequest,
+  BackfillRunner,
+  BackfillReport,
+  getBackfillStatus,
+} from '../../src/services/backfill';
 
 /**
  * APIレスポンス型
@@ -33,6 +51,7 @@ import { validateCronSecret, CronLogger } from '../../src/services/cron';
  * @property success - 処理成功フラグ
  * @property message - レスポンスメッセージ
  * @property data - バッチ処理結果(成功時)
+ * @property backfill - バックフィルの計画と日付ごとの結果(バックフィル時)
  * @property timestamp - レスポンス生成時刻
  * @property error - エラーメッセージ(失敗時)
  * @property duration - 処理時間(ミリ秒)
@@ -41,16 +60,79 @@ interface BatchNewsResponse {
   success: boolean;
   message: string;
   data?: NewsBatchResult;
+  backfill?: BackfillReport<NewsBatchResult>;
   timestamp: string;
   error?: string;
   duration?: number;
 }
 
 /**
- * POST /api/batch/news
+ * ニュースバッチサービスを作成
+ *
+ * 実行履歴レコーダーは1回の実行ごとに作成する必要があるため、
+ * バックフィルでは日付ごとに呼び出す。
+ *
+ * @param options.bypassCache - 要約の生成でレスポンスキャッシュを参照しない(明示的な再生成・バックフィル)
+ * @param options.timeoutMs - バッチ処理のタイムアウト(バックフィルでは実行時間の上限までの残り時間)
+ * @returns ニュースバッチサービス
+ */
+function createBatchService(
+  options: { bypassCache?: boolean; timeoutMs?: number } = {}
+): NewsBatchService {
+  // 依存関係を初期化
+  // NewsAPIクライアント
+  const newsApiClient = new NewsApiClient();
+  const worldNewsFetcher = new WorldNewsFetcher(newsApiClient);
+
+  // Google News RSSクライアント
+  const rssParser = new RssParser();
+  const japanNewsFetcher = new JapanNewsFetcher(rssParser);
+
+  // AI要約サービス(LLM_PROVIDER環境変数でLLMプロバイダーを選択)
+  // 長い要約を途中で中断しないよう、ストリーミングで生成する(タイムアウトはプロバイダーのデフォルト)
+  // 再生成ではキャッシュされた要約を返さないよう、キャッシュを参照しない
+  const llmProvider = getLlmProvider();
+  const summaryService = new NewsSummaryService(llmProvider, {
+    stream: {},
+    bypassCache: options.bypassCache,
+  });
+
+  // 追加のRSSフィード(NEWS_RSS_SOURCES環境変数で選択)
+  const additionalSources = createRssFeedSources(
+    rssParser,
+    getEnabledRssFeedDefinitions()
+  );
+
+  // 実行履歴レコーダー(GET /api/batch/runs で参照)
+  const runRecorder = new BatchRunRecorder('news');
+
+  // 部分成功・失敗の通知(NOTIFY_*環境変数で設定したチャネルに送信)
+  const notifier = createNotifierFromEnv();
+
+  // 同じ種類のバッチの重複実行を防ぐリースロック(CRON_TIMEOUT_MSで自動失効)
+  const lock = new BatchLock('news');
+
+  return new NewsBatchService(worldNewsFetcher, japanNewsFetcher, summaryService, {
+    timeoutMs: options.timeoutMs,
+    additionalSources,
+    runRecorder,
+    notifier,
+    lock,
+  });
+}
+
+/**
+ * POST /api/batch/news?date=<YYYY-MM-DD>&from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&mode=<missing|all>&dryRun=<true|false>
  *
  * ニュースバッチ処理を実行
  *
+ * パラメータを指定しない場合は今日の日付のニュースを生成する。
+ * - date: 指定した日付のニュースを再生成
+ * - from / to: 範囲内の日付を再生成(mode=missingの場合は未保存の日付のみ)
+ * - dryRun=true: 再生成する日付の確認のみ行う
+ *
+ * 同じ種類のバッチが実行中の場合は409 Conflictを返す。
+ *
  * Headers:
  * - Authorization: Bearer <CRON_SECRET>
  *
@@ -85,30 +167,20 @@ export default async function handler(
     });
   }
 
+  // バックフィルのパラメータを検証
+  const parsed = parseBackfillRequest(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      success: false,
+      message: parsed.error,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   // 処理開始
   logger.start();
 
   try {
-    // 依存関係を初期化
-    // NewsAPIクライアント
-    const newsApiClient = new NewsApiClient();
-    const worldNewsFetcher = new WorldNewsFetcher(newsApiClient);
-
-    // Google News RSSクライアント
-    const rssParser = new RssParser();
-    const japanNewsFetcher = new JapanNewsFetcher(rssParser);
-
-    // AI要約サービス
-    const claudeClient = getClaudeClient();
-    const summaryService = new NewsSummaryService(claudeClient);
-
-    // バッチサービスを作成
-    const batchService = new NewsBatchService(
-      worldNewsFetcher,
-      japanNewsFetcher,
-      summaryService
-    );
-
     // タイムアウトチェック
     if (logger.checkTimeout()) {
       const summary = logger.end(new Error('Timeout before execution'));
@@ -120,8 +192,28 @@ export default async function handler(
       });
     }
 
+    // 過去の日付の再生成(バックフィル)
+    if (parsed.request) {
+      // 各日付は実行時間の上限までの残り時間をタイムアウトとし、保存前に打ち切られないようにする
+      const report = await new BackfillRunner().run('news', parsed.request, (date, timeoutMs) =>
+        createBatchService({ bypassCache: true, timeoutMs }).execute({ date })
+      );
+      const summary = logger.end();
+      const status = getBackfillStatus(report);
+
+      return res.status(status === 'failure' ? 500 : 200).json({
+        success: status === 'success',
+        message: report.dryRun
+          ? 'ニュースの再生成対象の日付を確認しました'
+          : `ニュースを${report.results.length}日分再生成しました(未処理: ${report.pending.length}日)`,
+        backfill: report,
+        timestamp: new Date().toISOString(),
+        duration: summary.durationMs,
+      });
+    }
+
     // バッチ処理を実行
-    const result = await batchService.execute();
+    const result = await createBatchService().execute();
 
     // 処理完了を記録
     const summary = logger.end();
@@ -153,6 +245,18 @@ export default async function handler(
       });
     }
   } catch (error) {
+    // 同じ種類のバッチが実行中(Cronのリトライ・手動実行の重複)
+    if (error instanceof BatchLockConflictError) {
+      const summary = logger.end(error);
+      return res.status(409).json({
+        success: false,
+        message: 'ニュースバッチ処理は実行中です',
+        timestamp: new Date().toISOString(),
+        error: error.message,
+        duration: summary.durationMs,
+      });
+    }
+
     const summary = logger.end(error instanceof Error ? error : new Error('Unknown error'));
     return res.status(500).json({
       success: false,
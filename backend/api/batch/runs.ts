@@ -0,0 +1,166 @@
+/**
+ * バッチ実行履歴APIエンドポイント
+ *
+ * ニュース・用語バッチの実行履歴(ステップごとの処理時間・エラー、
+ * 部分成功の種類、操作ごとのトークン使用量)を新しい順に返す。
+ * バッチと同じCRON_SECRETで認証する。
+ *
+ * Requirements:
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
+ * - 9.1 (CRON_SECRET環境変数による認証)
+ *
+ * @see https://vercel.com/docs/functions - Vercel Functions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateCronSecret } from '../../src/services/cron';
+import {
+  listBatchRuns,
+  BatchRunFilter,
+  BatchRunWithSteps,
+  MAX_BATCH_RUNS_LIMIT,
+} from '../../src/services/batchRuns';
+import { BatchJob, isValidDateString } from '../../src/models/supabase.types';
+
+/**
+ * 指定可能なバッチの種類
+ */
+const BATCH_JOBS: readonly BatchJob[] = ['news', 'terms'];
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - 実行履歴と件数(成功時)
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ */
+interface BatchRunsResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    runs: BatchRunWithSteps[];
+    count: number;
+  };
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * クエリパラメータを絞り込み条件に変換
+ *
+ * @returns 絞り込み条件、または不正なパラメータのエラーメッセージ
+ */
+function parseFilter(
+  query: VercelRequest['query']
+): { filter: BatchRunFilter } | { error: string } {
+  const filter: BatchRunFilter = {};
+
+  const job = query.job;
+  if (job !== undefined) {
+    if (typeof job !== 'string' || !BATCH_JOBS.includes(job as BatchJob)) {
+      return { error: `jobパラメータには${BATCH_JOBS.join(' / ')}を指定してください` };
+    }
+    filter.job = job as BatchJob;
+  }
+
+  for (const key of ['date', 'from', 'to'] as const) {
+    const value = query[key];
+    if (value !== undefined && !isValidDateString(value)) {
+      return { error: `${key}パラメータはYYYY-MM-DD形式で指定してください` };
+    }
+  }
+
+  if (isValidDateString(query.date)) {
+    filter.from = query.date;
+    filter.to = query.date;
+  } else {
+    if (isValidDateString(query.from)) {
+      filter.from = query.from;
+    }
+    if (isValidDateString(query.to)) {
+      filter.to = query.to;
+    }
+  }
+
+  if (filter.from && filter.to && filter.from > filter.to) {
+    return { error: 'fromパラメータはto以前の日付を指定してください' };
+  }
+
+  const limit = query.limit;
+  if (limit !== undefined) {
+    const parsed = typeof limit === 'string' && /^\d+$/.test(limit) ? Number(limit) : NaN;
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_BATCH_RUNS_LIMIT) {
+      return { error: `limitパラメータには1〜${MAX_BATCH_RUNS_LIMIT}の整数を指定してください` };
+    }
+    filter.limit = parsed;
+  }
+
+  return { filter };
+}
+
+/**
+ * GET /api/batch/runs?job=<news|terms>&date=<YYYY-MM-DD>&from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&limit=<件数>
+ *
+ * バッチ実行履歴を取得(dateを指定した場合はfrom/toより優先)
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET>
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse<BatchRunsResponse>
+) {
+  // GETメソッドのみ許可
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // CRON_SECRET認証(共通モジュールを使用)
+  const authResult = validateCronSecret(req);
+  if (!authResult.isValid) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      error: authResult.error,
+    });
+  }
+
+  // クエリパラメータの検証
+  const parsed = parseFilter(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      success: false,
+      message: parsed.error,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const runs = await listBatchRuns(parsed.filter);
+
+    return res.status(200).json({
+      success: true,
+      message: 'バッチ実行履歴を取得しました',
+      data: { runs, count: runs.length },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[BatchRunsAPI] Failed to fetch batch runs:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'バッチ実行履歴の取得中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
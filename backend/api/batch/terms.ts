@@ -5,10 +5,13 @@
  * Task 13: Vercel Cron Jobs統合
  *
  * Vercel Cron Jobsから毎日8:00 JSTに呼び出され、
- * 3つの投資用語を生成してFirestoreに保存する
+ * 3つの投資用語と用語ごとの4択クイズを生成してSupabaseに保存する
  *
  * Cronスケジュール: 0 23 * * * (UTC) = 8:00 JST
  *
+ * date / from / to / mode / dryRun パラメータを指定すると、過去の日付の用語を再生成する
+ * (バックフィル)。再生成した日付の用語・クイズは追記ではなく置き換えられる。
+ *
  * Requirements:
  * - 1.1 (毎日8:00に実行)
  * - 4.1 (1日3つ投資用語生成)
@@ -19,10 +22,20 @@
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getClaudeClient } from '../../src/services/claudeClient';
+import { getLlmProvider } from '../../src/services/llm';
 import { TermGenerationService } from '../../src/services/terms/termGenerationService';
+import { TermQuizGenerationService } from '../../src/services/terms/termQuizGenerationService';
 import { TermsBatchService, TermsBatchResult } from '../../src/services/terms/batch';
 import { validateCronSecret, CronLogger } from '../../src/services/cron';
+import { BatchRunRecorder } from '../../src/services/batchRuns';
+import { createNotifierFromEnv } from '../../src/services/notifications';
+import { BatchLock, BatchLockConflictError } from '../../src/services/batchLock';
+import {
+  parseBackfillRequest,
+  BackfillRunner,
+  BackfillReport,
+  getBackfillStatus,
+} from '../../src/services/backfill';
 
 /**
  * APIレスポンス型
@@ -30,6 +43,7 @@ import { validateCronSecret, CronLogger } from '../../src/services/cron';
  * @property success - 処理成功フラグ
  * @property message - レスポンスメッセージ
  * @property data - バッチ処理結果(成功時)
+ * @property backfill - バックフィルの計画と日付ごとの結果(バックフィル時)
  * @property timestamp - レスポンス生成時刻
  * @property error - エラーメッセージ(失敗時)
  * @property duration - 処理時間(ミリ秒)
@@ -38,16 +52,58 @@ interface BatchTermsResponse {
   success: boolean;
   message: string;
   data?: TermsBatchResult;
+  backfill?: BackfillReport<TermsBatchResult>;
   timestamp: string;
   error?: string;
   duration?: number;
 }
 
 /**
- * POST /api/batch/terms
+ * 用語バッチサービスを作成
+ *
+ * 実行履歴レコーダーは1回の実行ごとに作成する必要があるため、
+ * バックフィルでは日付ごとに呼び出す。
+ *
+ * @param options.timeoutMs - バッチ処理のタイムアウト(バックフィルでは実行時間の上限までの残り時間)
+ * @returns 用語バッチサービス
+ */
+function createBatchService(options: { timeoutMs?: number } = {}): TermsBatchService {
+  // 依存関係を初期化
+  // LLMプロバイダー(LLM_PROVIDER環境変数で選択、デフォルトはClaude API)
+  const llmProvider = getLlmProvider();
+  const generationService = new TermGenerationService(llmProvider);
+  const quizService = new TermQuizGenerationService(llmProvider);
+
+  // 実行履歴レコーダー(GET /api/batch/runs で参照)
+  const runRecorder = new BatchRunRecorder('terms');
+
+  // 部分成功・失敗の通知(NOTIFY_*環境変数で設定したチャネルに送信)
+  const notifier = createNotifierFromEnv();
+
+  // 同じ種類のバッチの重複実行を防ぐリースロック(CRON_TIMEOUT_MSで自動失効)
+  const lock = new BatchLock('terms');
+
+  return new TermsBatchService(generationService, {
+    timeoutMs: options.timeoutMs,
+    quizService,
+    runRecorder,
+    notifier,
+    lock,
+  });
+}
+
+/**
+ * POST /api/batch/terms?date=<YYYY-MM-DD>&from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&mode=<missing|all>&dryRun=<true|false>
  *
  * 用語バッチ処理を実行
  *
+ * パラメータを指定しない場合は今日の日付の用語を生成する。
+ * - date: 指定した日付の用語を再生成
+ * - from / to: 範囲内の日付を再生成(mode=missingの場合は用語が3つ揃っていない日付のみ)
+ * - dryRun=true: 再生成する日付の確認のみ行う
+ *
+ * 同じ種類のバッチが実行中の場合は409 Conflictを返す。
+ *
  * Headers:
  * - Authorization: Bearer <CRON_SECRET>
  *
@@ -82,18 +138,20 @@ export default async function handler(
     });
   }
 
+  // バックフィルのパラメータを検証
+  const parsed = parseBackfillRequest(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      success: false,
+      message: parsed.error,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
   // 処理開始
   logger.start();
 
   try {
-    // 依存関係を初期化
-    // Claude APIクライアント
-    const claudeClient = getClaudeClient();
-    const generationService = new TermGenerationService(claudeClient);
-
-    // バッチサービスを作成
-    const batchService = new TermsBatchService(generationService);
-
     // タイムアウトチェック
     if (logger.checkTimeout()) {
       const summary = logger.end(new Error('Timeout before execution'));
@@ -105,8 +163,28 @@ export default async function handler(
       });
     }
 
+    // 過去の日付の再生成(バックフィル)
+    if (parsed.request) {
+      // 各日付は実行時間の上限までの残り時間をタイムアウトとし、保存前に打ち切られないようにする
+      const report = await new BackfillRunner().run('terms', parsed.request, (date, timeoutMs) =>
+        createBatchService({ timeoutMs }).execute({ date })
+      );
+      const summary = logger.end();
+      const status = getBackfillStatus(report);
+
+      return res.status(status === 'failure' ? 500 : 200).json({
+        success: status === 'success',
+        message: report.dryRun
+          ? '用語の再生成対象の日付を確認しました'
+          : `用語を${report.results.length}日分再生成しました(未処理: ${report.pending.length}日)`,
+        backfill: report,
+        timestamp: new Date().toISOString(),
+        duration: summary.durationMs,
+      });
+    }
+
     // バッチ処理を実行
-    const result = await batchService.execute();
+    const result = await createBatchService().execute();
 
     // 処理完了を記録
     const summary = logger.end();
@@ -138,6 +216,18 @@ export default async function handler(
       });
     }
   } catch (error) {
+    // 同じ種類のバッチが実行中(Cronのリトライ・手動実行の重複)
+    if (error instanceof BatchLockConflictError) {
+      const summary = logger.end(error);
+      return res.status(409).json({
+        success: false,
+        message: '用語バッチ処理は実行中です',
+        timestamp: new Date().toISOString(),
+        error: error.message,
+        duration: summary.durationMs,
+      });
+    }
+
     const summary = logger.end(error instanceof Error ? error : new Error('Unknown error'));
     return res.status(500).json({
       success: false,
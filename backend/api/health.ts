@@ -3,80 +3,71 @@
  *
  * Requirements: 12.2, 12.3, 9.1, 9.2
  *
- * Firebase接続と環境変数の読み込みを検証するヘルスチェックエンドポイント。
- * Vercelデプロイ後の動作確認に使用します。
+ * 必須の環境変数・Supabaseへの接続・NewsAPI / Claude APIのキー・
+ * ニュースと用語の最終更新日時(Cronのスケジュールとの比較)を確認するヘルスチェックエンドポイント。
+ * Vercelデプロイ後の動作確認と監視に使用します。
+ *
+ * live=trueを指定すると外部APIへの疎通も確認する。NewsAPIの無料枠を消費するため、
+ * バッチと同じCRON_SECRETでの認証が必要。
  */
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { getFirestore } from '../src/config/firebase';
+import { validateCronSecret } from '../src/services/cron';
+import { HealthCheckService, HealthReport } from '../src/services/health';
+
+/**
+ * APIレスポンス型
+ *
+ * ヘルスチェックの結果、またはリクエストが不正な場合のエラー
+ */
+type HealthResponse =
+  | HealthReport
+  | {
+      status: 'error';
+      message: string;
+      timestamp: string;
+      error?: string;
+    };
 
 /**
- * GET /api/health
+ * GET /api/health?live=<true|false>
  *
  * システムのヘルスチェックを実行
  *
+ * 全体の状態がdownの場合は503、ok・degradedの場合は200を返す。
+ *
+ * Headers(live=trueの場合のみ):
+ * - Authorization: Bearer <CRON_SECRET>
+ *
  * @param req - Vercel Request
  * @param res - Vercel Response
  */
-export default async function handler(
-  req: VercelRequest,
-  res: VercelResponse
-) {
-  try {
-    // 環境変数の確認
-    const environment = {
-      hasFirebaseProjectId: !!process.env.FIREBASE_PROJECT_ID,
-      hasFirebasePrivateKey: !!process.env.FIREBASE_PRIVATE_KEY,
-      hasFirebaseClientEmail: !!process.env.FIREBASE_CLIENT_EMAIL,
-      hasNewsApiKey: !!process.env.NEWS_API_KEY,
-      hasClaudeApiKey: !!process.env.CLAUDE_API_KEY,
-      hasCronSecret: !!process.env.CRON_SECRET,
-    };
-
-    // すべての環境変数が設定されているか確認
-    const allEnvVarsPresent = Object.values(environment).every(
-      (value) => value === true
-    );
-
-    if (!allEnvVarsPresent) {
-      return res.status(500).json({
-        status: 'error',
-        message: '環境変数が不足しています',
-        environment,
-        timestamp: new Date().toISOString(),
-      });
-    }
+export default async function handler(req: VercelRequest, res: VercelResponse<HealthResponse>) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      status: 'error',
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
 
-    // Firestore接続テスト
-    let firestoreStatus: 'connected' | 'disconnected' = 'disconnected';
-    try {
-      const db = getFirestore();
-      // 接続テスト用のコレクションに軽量なクエリを実行
-      await db.collection('_health_check').limit(1).get();
-      firestoreStatus = 'connected';
-    } catch (firestoreError) {
-      console.error('Firestore接続エラー:', firestoreError);
-      return res.status(500).json({
+  // 外部APIへの疎通確認は認証済みのリクエストのみ
+  const live = req.query.live === 'true';
+  if (live) {
+    const authResult = validateCronSecret(req);
+    if (!authResult.isValid) {
+      return res.status(401).json({
         status: 'error',
-        message: 'Firestore接続に失敗しました',
-        firestore: 'disconnected',
-        environment,
+        message: 'Unauthorized',
         timestamp: new Date().toISOString(),
-        error:
-          firestoreError instanceof Error
-            ? firestoreError.message
-            : 'Unknown error',
+        error: authResult.error,
       });
     }
+  }
 
-    // 成功レスポンス
-    return res.status(200).json({
-      status: 'ok',
-      message: 'Health check passed',
-      firestore: firestoreStatus,
-      environment,
-      timestamp: new Date().toISOString(),
-    });
+  try {
+    const report = await new HealthCheckService().check({ live });
+    return res.status(report.status === 'down' ? 503 : 200).json(report);
   } catch (error) {
     console.error('ヘルスチェックエラー:', error);
     return res.status(500).json({
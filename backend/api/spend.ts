@@ -0,0 +1,214 @@
+/**
+ * Claude API利用料APIエンドポイント
+ *
+ * 指定期間(JST)のClaude API利用料を処理(job)・操作(operation)・モデルごとに集計して返す。
+ * 予算が設定されている場合は、今日・今月の利用料と予算もあわせて返す。
+ * バッチと同じCRON_SECRETで認証する。
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ * - 9.1 (CRON_SECRET環境変数による認証)
+ *
+ * @see https://vercel.com/docs/functions - Vercel Functions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { validateCronSecret } from '../src/services/cron';
+import {
+  SpendLedger,
+  SpendSummaryEntry,
+  BudgetPeriod,
+  getBudgetWindow,
+} from '../src/services/spend';
+import { getClaudeBudgetEnvConfig } from '../src/config/envConfig';
+import { ClaudeUsageJob, isValidDateString } from '../src/models/supabase.types';
+import { formatDateToJST } from '../src/utils/dateUtils';
+
+/**
+ * 指定可能な処理の種類
+ */
+const USAGE_JOBS: readonly ClaudeUsageJob[] = ['news', 'terms', 'explain', 'other'];
+
+/**
+ * 1日のミリ秒数
+ */
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 予算と利用料
+ *
+ * @property limitUsd - 予算(米ドル、未設定の場合はnull)
+ * @property spentUsd - 期間内の利用料(米ドル)
+ */
+interface BudgetUsage {
+  limitUsd: number | null;
+  spentUsd: number;
+}
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - 集計結果(成功時)
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ */
+interface SpendResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    from: string;
+    to: string;
+    entries: SpendSummaryEntry[];
+    byJob: Partial<Record<ClaudeUsageJob, number>>;
+    byOperation: Record<string, number>;
+    totalCostUsd: number;
+    budget: Record<BudgetPeriod, BudgetUsage>;
+  };
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * 集計条件
+ */
+interface SpendQuery {
+  from: string;
+  to: string;
+  job?: ClaudeUsageJob;
+}
+
+/**
+ * クエリパラメータを集計条件に変換
+ *
+ * from/toを省略した場合は今月の初日〜今日(JST)とする
+ *
+ * @returns 集計条件、または不正なパラメータのエラーメッセージ
+ */
+function parseQuery(query: VercelRequest['query']): { query: SpendQuery } | { error: string } {
+  const job = query.job;
+  if (
+    job !== undefined &&
+    (typeof job !== 'string' || !USAGE_JOBS.includes(job as ClaudeUsageJob))
+  ) {
+    return { error: `jobパラメータには${USAGE_JOBS.join(' / ')}を指定してください` };
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = query[key];
+    if (value !== undefined && !isValidDateString(value)) {
+      return { error: `${key}パラメータはYYYY-MM-DD形式で指定してください` };
+    }
+  }
+
+  const today = formatDateToJST(new Date());
+  const from = isValidDateString(query.from) ? query.from : `${today.slice(0, 8)}01`;
+  const to = isValidDateString(query.to) ? query.to : today;
+
+  if (from > to) {
+    return { error: 'fromパラメータはto以前の日付を指定してください' };
+  }
+
+  return { query: { from, to, job: job as ClaudeUsageJob | undefined } };
+}
+
+/**
+ * 利用料を指定したキーごとに合計
+ */
+function sumBy<K extends string>(
+  entries: SpendSummaryEntry[],
+  key: (entry: SpendSummaryEntry) => K
+): Partial<Record<K, number>> {
+  const totals: Partial<Record<K, number>> = {};
+  for (const entry of entries) {
+    totals[key(entry)] = (totals[key(entry)] ?? 0) + entry.costUsd;
+  }
+  return totals;
+}
+
+/**
+ * GET /api/spend?from=<YYYY-MM-DD>&to=<YYYY-MM-DD>&job=<news|terms|explain|other>
+ *
+ * Claude API利用料を取得(from/toはJSTの日付で、toの日を含む)
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET>
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse<SpendResponse>) {
+  // GETメソッドのみ許可
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // CRON_SECRET認証(共通モジュールを使用)
+  const authResult = validateCronSecret(req);
+  if (!authResult.isValid) {
+    return res.status(401).json({
+      success: false,
+      message: 'Unauthorized',
+      timestamp: new Date().toISOString(),
+      error: authResult.error,
+    });
+  }
+
+  // クエリパラメータの検証
+  const parsed = parseQuery(req.query);
+  if ('error' in parsed) {
+    return res.status(400).json({
+      success: false,
+      message: parsed.error,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const { from, to, job } = parsed.query;
+    const ledger = new SpendLedger();
+    const budgetConfig = getClaudeBudgetEnvConfig();
+    const now = new Date();
+
+    const [summary, dailySpent, monthlySpent] = await Promise.all([
+      ledger.summarize({
+        from: new Date(`${from}T00:00:00+09:00`),
+        to: new Date(new Date(`${to}T00:00:00+09:00`).getTime() + ONE_DAY_MS),
+      }),
+      ledger.getTotalCostUsd(getBudgetWindow('daily', now)),
+      ledger.getTotalCostUsd(getBudgetWindow('monthly', now)),
+    ]);
+    const entries = job ? summary.filter((entry) => entry.job === job) : summary;
+
+    return res.status(200).json({
+      success: true,
+      message: 'Claude API利用料を取得しました',
+      data: {
+        from,
+        to,
+        entries,
+        byJob: sumBy(entries, (entry) => entry.job),
+        byOperation: sumBy(entries, (entry) => entry.operation) as Record<string, number>,
+        totalCostUsd: entries.reduce((sum, entry) => sum + entry.costUsd, 0),
+        budget: {
+          daily: { limitUsd: budgetConfig.dailyLimitUsd ?? null, spentUsd: dailySpent },
+          monthly: { limitUsd: budgetConfig.monthlyLimitUsd ?? null, spentUsd: monthlySpent },
+        },
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[SpendAPI] Failed to fetch Claude spend:', error);
+    return res.status(500).json({
+      success: false,
+      message: 'Claude API利用料の取得中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * 用語解説APIエンドポイント
+ *
+ * モバイルアプリのニュース要約内の用語リンクから呼び出され、
+ * 用語の解説を返す。termsテーブルに解説がない用語は、
+ * 過去に配信した用語に限りClaude APIで解説を生成してキャッシュする。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ *
+ * @see https://vercel.com/docs/functions - Vercel Functions
+ */
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getLlmProvider } from '../../src/services/llm';
+import {
+  TermExplanationService,
+  TermExplanationError,
+  TermExplanationSource,
+} from '../../src/services/terms/termExplanationService';
+import { Term } from '../../src/models/terms.model';
+
+/**
+ * 用語名の最大文字数
+ */
+const MAX_TERM_NAME_LENGTH = 100;
+
+/**
+ * APIレスポンス型
+ *
+ * @property success - 処理成功フラグ
+ * @property message - レスポンスメッセージ
+ * @property data - 用語と解説の取得元(成功時)
+ * @property timestamp - レスポンス生成時刻
+ * @property error - エラーメッセージ(失敗時)
+ */
+interface TermExplainResponse {
+  success: boolean;
+  message: string;
+  data?: {
+    term: Term;
+    source: TermExplanationSource;
+  };
+  timestamp: string;
+  error?: string;
+}
+
+/**
+ * GET /api/terms/explain?name=<用語名>
+ *
+ * 用語の解説を返す(認証不要、生成は配信済みの用語に限定)
+ *
+ * @param req - Vercel Request
+ * @param res - Vercel Response
+ */
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse<TermExplainResponse>
+) {
+  // GETメソッドのみ許可
+  if (req.method !== 'GET') {
+    return res.status(405).json({
+      success: false,
+      message: 'Method not allowed',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // 用語名の検証
+  const termName = typeof req.query.name === 'string' ? req.query.name.trim() : '';
+  if (!termName || termName.length > MAX_TERM_NAME_LENGTH) {
+    return res.status(400).json({
+      success: false,
+      message: `nameパラメータに${MAX_TERM_NAME_LENGTH}文字以内の用語名を指定してください`,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  try {
+    const service = new TermExplanationService(getLlmProvider());
+    const result = await service.explain(termName);
+
+    return res.status(200).json({
+      success: true,
+      message: '用語解説を取得しました',
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    // 配信履歴にない用語・非公開の用語は生成しない
+    if (error instanceof TermExplanationError && error.reason === 'not-delivered') {
+      return res.status(404).json({
+        success: false,
+        message: '用語が見つかりません',
+        timestamp: new Date().toISOString(),
+        error: error.message,
+      });
+    }
+
+    console.error('[TermExplainAPI] Failed to explain term:', error);
+    return res.status(500).json({
+      success: false,
+      message: '用語解説の取得中にエラーが発生しました',
+      timestamp: new Date().toISOString(),
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
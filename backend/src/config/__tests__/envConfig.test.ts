@@ -13,6 +13,12 @@ import {
   getEnvVarStatus,
   getSupabaseEnvConfig,
   isSupabaseConfigured,
+  getNotifierEnvConfig,
+  getClaudeBudgetEnvConfig,
+  getClaudeModelRoutesEnvConfig,
+  getClaudeResponseCacheEnvConfig,
+  getLlmEnvConfig,
+  getPromptVersionWeightsEnvConfig,
   type EnvVarName,
   ENV_VAR_CONFIG,
 } from '../envConfig';
@@ -322,4 +328,268 @@ describe('envConfig', () => {
       expect(isSupabaseConfigured()).toBe(false);
     });
   });
+
+  describe('getNotifierEnvConfig', () => {
+    const clearNotifyEnv = () => {
+      (Object.keys(ENV_VAR_CONFIG) as EnvVarName[])
+        .filter((varName) => varName.startsWith('NOTIFY_'))
+        .forEach((varName) => delete process.env[varName]);
+    };
+
+    it('通知の環境変数が設定されていない場合は空の設定を返す', () => {
+      // Arrange
+      clearNotifyEnv();
+
+      // Act & Assert
+      expect(getNotifierEnvConfig()).toEqual({});
+    });
+
+    it('Webhook・Slackの送信先と最低重要度を取得する', () => {
+      // Arrange
+      clearNotifyEnv();
+      process.env.NOTIFY_WEBHOOK_URL = 'https://example.com/hook';
+      process.env.NOTIFY_WEBHOOK_MIN_SEVERITY = 'info';
+      process.env.NOTIFY_SLACK_WEBHOOK_URL = 'https://hooks.slack.com/services/x';
+      process.env.NOTIFY_SLACK_MIN_SEVERITY = 'unknown';
+
+      // Act
+      const config = getNotifierEnvConfig();
+
+      // Assert
+      expect(config.webhook).toEqual({ url: 'https://example.com/hook', minSeverity: 'info' });
+      // 不正な値はデフォルト(warning)になる
+      expect(config.slack).toEqual({
+        url: 'https://hooks.slack.com/services/x',
+        minSeverity: 'warning',
+      });
+      expect(config.email).toBeUndefined();
+    });
+
+    it('SMTPメールの設定を取得する', () => {
+      // Arrange
+      clearNotifyEnv();
+      process.env.NOTIFY_SMTP_HOST = 'smtp.example.com';
+      process.env.NOTIFY_SMTP_SECURE = 'true';
+      process.env.NOTIFY_SMTP_USER = 'user';
+      process.env.NOTIFY_SMTP_PASSWORD = 'pass';
+      process.env.NOTIFY_EMAIL_FROM = 'batch@example.com';
+      process.env.NOTIFY_EMAIL_TO = 'ops@example.com, dev@example.com';
+
+      // Act
+      const config = getNotifierEnvConfig();
+
+      // Assert
+      expect(config.email).toEqual({
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        user: 'user',
+        password: 'pass',
+        allowInsecureAuth: false,
+        from: 'batch@example.com',
+        to: ['ops@example.com', 'dev@example.com'],
+        minSeverity: 'error',
+      });
+    });
+
+    it('送信先アドレスがない場合はメールを無効にする', () => {
+      // Arrange
+      clearNotifyEnv();
+      process.env.NOTIFY_SMTP_HOST = 'smtp.example.com';
+      process.env.NOTIFY_EMAIL_FROM = 'batch@example.com';
+
+      // Act & Assert
+      expect(getNotifierEnvConfig().email).toBeUndefined();
+    });
+  });
+
+  describe('getClaudeBudgetEnvConfig', () => {
+    const clearBudgetEnv = () => {
+      delete process.env.CLAUDE_DAILY_BUDGET_USD;
+      delete process.env.CLAUDE_MONTHLY_BUDGET_USD;
+      delete process.env.CLAUDE_BUDGET_DOWNGRADE_RATIO;
+    };
+
+    it('予算の環境変数が設定されていない場合は予算なしとする', () => {
+      // Arrange
+      clearBudgetEnv();
+
+      // Act & Assert
+      expect(getClaudeBudgetEnvConfig()).toEqual({
+        dailyLimitUsd: undefined,
+        monthlyLimitUsd: undefined,
+        downgradeRatio: 0.8,
+      });
+    });
+
+    it('日次・月次の予算と切り替えの割合を取得する', () => {
+      // Arrange
+      clearBudgetEnv();
+      process.env.CLAUDE_DAILY_BUDGET_USD = '1.5';
+      process.env.CLAUDE_MONTHLY_BUDGET_USD = '30';
+      process.env.CLAUDE_BUDGET_DOWNGRADE_RATIO = '0.5';
+
+      // Act & Assert
+      expect(getClaudeBudgetEnvConfig()).toEqual({
+        dailyLimitUsd: 1.5,
+        monthlyLimitUsd: 30,
+        downgradeRatio: 0.5,
+      });
+    });
+
+    it('不正な値は無視する', () => {
+      // Arrange
+      clearBudgetEnv();
+      process.env.CLAUDE_DAILY_BUDGET_USD = 'abc';
+      process.env.CLAUDE_MONTHLY_BUDGET_USD = '0';
+      process.env.CLAUDE_BUDGET_DOWNGRADE_RATIO = '1.5';
+
+      // Act & Assert
+      expect(getClaudeBudgetEnvConfig()).toEqual({
+        dailyLimitUsd: undefined,
+        monthlyLimitUsd: undefined,
+        downgradeRatio: 0.8,
+      });
+    });
+  });
+
+  describe('getClaudeModelRoutesEnvConfig', () => {
+    it('CLAUDE_MODEL_ROUTESが設定されていない場合は空のルーティングを返す', () => {
+      // Arrange
+      delete process.env.CLAUDE_MODEL_ROUTES;
+
+      // Act & Assert
+      expect(getClaudeModelRoutesEnvConfig()).toEqual({});
+    });
+
+    it('操作名ごとのモデルの優先順リストを解釈する', () => {
+      // Arrange
+      process.env.CLAUDE_MODEL_ROUTES =
+        ' japanese-news-summary = claude-sonnet-4-5 , claude-haiku-4-5 ;term-generation=claude-sonnet-4-5';
+
+      // Act & Assert
+      expect(getClaudeModelRoutesEnvConfig()).toEqual({
+        'japanese-news-summary': ['claude-sonnet-4-5', 'claude-haiku-4-5'],
+        'term-generation': ['claude-sonnet-4-5'],
+      });
+    });
+
+    it('操作名またはモデルが空の項目は無視する', () => {
+      // Arrange
+      process.env.CLAUDE_MODEL_ROUTES = '=claude-sonnet-4-5;term-generation=;;category-news-summary';
+
+      // Act & Assert
+      expect(getClaudeModelRoutesEnvConfig()).toEqual({});
+    });
+  });
+
+  describe('getClaudeResponseCacheEnvConfig', () => {
+    it('CLAUDE_RESPONSE_CACHE_TTL_HOURSが設定されていない場合は7日を返す', () => {
+      // Arrange
+      delete process.env.CLAUDE_RESPONSE_CACHE_TTL_HOURS;
+
+      // Act & Assert
+      expect(getClaudeResponseCacheEnvConfig()).toEqual({ ttlMs: 168 * 60 * 60 * 1000 });
+    });
+
+    it('有効期限を時間として解釈する', () => {
+      // Arrange
+      process.env.CLAUDE_RESPONSE_CACHE_TTL_HOURS = ' 24 ';
+
+      // Act & Assert
+      expect(getClaudeResponseCacheEnvConfig()).toEqual({ ttlMs: 24 * 60 * 60 * 1000 });
+    });
+
+    it('0の場合はキャッシュを無効にする', () => {
+      // Arrange
+      process.env.CLAUDE_RESPONSE_CACHE_TTL_HOURS = '0';
+
+      // Act & Assert
+      expect(getClaudeResponseCacheEnvConfig()).toEqual({ ttlMs: 0 });
+    });
+
+    it('負の値・数値でない場合はデフォルトを使用する', () => {
+      // Arrange
+      process.env.CLAUDE_RESPONSE_CACHE_TTL_HOURS = '-1';
+
+      // Act & Assert
+      expect(getClaudeResponseCacheEnvConfig()).toEqual({ ttlMs: 168 * 60 * 60 * 1000 });
+
+      process.env.CLAUDE_RESPONSE_CACHE_TTL_HOURS = 'abc';
+      expect(getClaudeResponseCacheEnvConfig()).toEqual({ ttlMs: 168 * 60 * 60 * 1000 });
+    });
+  });
+
+  describe('getLlmEnvConfig', () => {
+    const clearLlmEnv = () => {
+      delete process.env.LLM_PROVIDER;
+      delete process.env.LLM_BASE_URL;
+      delete process.env.LLM_API_KEY;
+      delete process.env.LLM_MODEL;
+      delete process.env.LLM_FIXTURES_PATH;
+    };
+
+    it('LLM_PROVIDERが設定されていない場合はanthropicとする', () => {
+      // Arrange
+      clearLlmEnv();
+
+      // Act & Assert
+      expect(getLlmEnvConfig()).toEqual({
+        provider: 'anthropic',
+        baseUrl: undefined,
+        apiKey: undefined,
+        model: undefined,
+        fixturesPath: undefined,
+      });
+    });
+
+    it('プロバイダーの種類を小文字に揃え、接続先とモデルを取得する', () => {
+      // Arrange
+      clearLlmEnv();
+      process.env.LLM_PROVIDER = ' OpenAI-Compatible ';
+      process.env.LLM_BASE_URL = 'http://localhost:11434/v1';
+      process.env.LLM_API_KEY = 'local-key';
+      process.env.LLM_MODEL = 'llama3.1';
+      process.env.LLM_FIXTURES_PATH = './fixtures.json';
+
+      // Act & Assert
+      expect(getLlmEnvConfig()).toEqual({
+        provider: 'openai-compatible',
+        baseUrl: 'http://localhost:11434/v1',
+        apiKey: 'local-key',
+        model: 'llama3.1',
+        fixturesPath: './fixtures.json',
+      });
+    });
+  });
+
+  describe('getPromptVersionWeightsEnvConfig', () => {
+    it('PROMPT_VERSION_WEIGHTSが設定されていない場合は空の重みを返す', () => {
+      // Arrange
+      delete process.env.PROMPT_VERSION_WEIGHTS;
+
+      // Act & Assert
+      expect(getPromptVersionWeightsEnvConfig()).toEqual({});
+    });
+
+    it('プロンプト名ごとのバージョンの重みを解釈し、省略した重みは1とする', () => {
+      // Arrange
+      process.env.PROMPT_VERSION_WEIGHTS =
+        ' term-generation = v1:80 , v2:20 ;english-news-summary=v2';
+
+      // Act & Assert
+      expect(getPromptVersionWeightsEnvConfig()).toEqual({
+        'term-generation': { v1: 80, v2: 20 },
+        'english-news-summary': { v2: 1 },
+      });
+    });
+
+    it('不正な重みと、名前またはバージョンが空の項目は無視する', () => {
+      // Arrange
+      process.env.PROMPT_VERSION_WEIGHTS = '=v1;term-generation=v1:abc,v2:-1;;english-news-summary';
+
+      // Act & Assert
+      expect(getPromptVersionWeightsEnvConfig()).toEqual({});
+    });
+  });
 });
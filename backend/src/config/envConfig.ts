@@ -27,7 +27,31 @@ export type EnvVarName =
   | 'SUPABASE_SECRET_KEY'
   | 'LOCAL_SUPABASE_URL'
   | 'LOCAL_SUPABASE_PUBLISHABLE_KEY'
-  | 'LOCAL_SUPABASE_SECRET_KEY';
+  | 'LOCAL_SUPABASE_SECRET_KEY'
+  | 'NOTIFY_WEBHOOK_URL'
+  | 'NOTIFY_WEBHOOK_MIN_SEVERITY'
+  | 'NOTIFY_SLACK_WEBHOOK_URL'
+  | 'NOTIFY_SLACK_MIN_SEVERITY'
+  | 'NOTIFY_SMTP_HOST'
+  | 'NOTIFY_SMTP_PORT'
+  | 'NOTIFY_SMTP_SECURE'
+  | 'NOTIFY_SMTP_USER'
+  | 'NOTIFY_SMTP_PASSWORD'
+  | 'NOTIFY_SMTP_ALLOW_INSECURE_AUTH'
+  | 'NOTIFY_EMAIL_FROM'
+  | 'NOTIFY_EMAIL_TO'
+  | 'NOTIFY_EMAIL_MIN_SEVERITY'
+  | 'CLAUDE_DAILY_BUDGET_USD'
+  | 'CLAUDE_MONTHLY_BUDGET_USD'
+  | 'CLAUDE_BUDGET_DOWNGRADE_RATIO'
+  | 'CLAUDE_MODEL_ROUTES'
+  | 'LLM_PROVIDER'
+  | 'LLM_BASE_URL'
+  | 'LLM_API_KEY'
+  | 'LLM_MODEL'
+  | 'LLM_FIXTURES_PATH'
+  | 'PROMPT_VERSION_WEIGHTS'
+  | 'ADMIN_API_KEYS';
 
 /**
  * 環境変数の設定情報
@@ -105,6 +129,142 @@ export const ENV_VAR_CONFIG: Record<EnvVarName, EnvVarInfo> = {
     required: false,
     example: 'sb_secret_xxxxxxxx',
   },
+
+  // バッチ通知用の環境変数(すべて任意、未設定のチャネルは使用しない)
+  NOTIFY_WEBHOOK_URL: {
+    description: 'バッチ通知の送信先Webhook URL(JSONをPOST)',
+    required: false,
+    example: 'https://example.com/hooks/batch',
+  },
+  NOTIFY_WEBHOOK_MIN_SEVERITY: {
+    description: 'Webhookに送信する通知の最低重要度(info / warning / error、デフォルト: warning)',
+    required: false,
+    example: 'warning',
+  },
+  NOTIFY_SLACK_WEBHOOK_URL: {
+    description: 'バッチ通知の送信先Slack Incoming Webhook URL',
+    required: false,
+    example: 'https://hooks.slack.com/services/xxx/yyy/zzz',
+  },
+  NOTIFY_SLACK_MIN_SEVERITY: {
+    description: 'Slackに送信する通知の最低重要度(info / warning / error、デフォルト: warning)',
+    required: false,
+    example: 'warning',
+  },
+  NOTIFY_SMTP_HOST: {
+    description: 'バッチ通知メールの送信に使用するSMTPサーバー',
+    required: false,
+    example: 'smtp.example.com',
+  },
+  NOTIFY_SMTP_PORT: {
+    description: 'SMTPサーバーのポート番号(デフォルト: 587、SMTPS使用時は465)',
+    required: false,
+    example: '587',
+  },
+  NOTIFY_SMTP_SECURE: {
+    description: 'SMTPS(暗号化接続)を使用するかどうか(true / false)',
+    required: false,
+    example: 'false',
+  },
+  NOTIFY_SMTP_USER: {
+    description: 'SMTP認証のユーザー名(認証不要の場合は未設定)',
+    required: false,
+    example: 'notifier@example.com',
+  },
+  NOTIFY_SMTP_PASSWORD: {
+    description: 'SMTP認証のパスワード',
+    required: false,
+    example: 'your-smtp-password',
+  },
+  NOTIFY_SMTP_ALLOW_INSECURE_AUTH: {
+    description:
+      'STARTTLSに対応していないSMTPサーバーで、暗号化せずに認証することを許可するかどうか(true / false、デフォルト: false)',
+    required: false,
+    example: 'false',
+  },
+  NOTIFY_EMAIL_FROM: {
+    description: 'バッチ通知メールの送信元アドレス',
+    required: false,
+    example: 'batch@example.com',
+  },
+  NOTIFY_EMAIL_TO: {
+    description: 'バッチ通知メールの送信先アドレス(カンマ区切りで複数指定可)',
+    required: false,
+    example: 'ops@example.com,dev@example.com',
+  },
+  NOTIFY_EMAIL_MIN_SEVERITY: {
+    description: 'メールで送信する通知の最低重要度(info / warning / error、デフォルト: error)',
+    required: false,
+    example: 'error',
+  },
+
+  // Claude API利用料の予算用の環境変数(すべて任意、未設定の場合は予算を確認しない)
+  CLAUDE_DAILY_BUDGET_USD: {
+    description: 'Claude APIの1日(JST)あたりの予算(米ドル)',
+    required: false,
+    example: '1',
+  },
+  CLAUDE_MONTHLY_BUDGET_USD: {
+    description: 'Claude APIの1ヶ月(JST)あたりの予算(米ドル)',
+    required: false,
+    example: '20',
+  },
+  CLAUDE_BUDGET_DOWNGRADE_RATIO: {
+    description: '安価なモデルに切り替える予算の割合(0〜1、デフォルト: 0.8)',
+    required: false,
+    example: '0.8',
+  },
+
+  // Claude APIのモデルのルーティング用の環境変数(任意、未設定の操作はデフォルトのルーティングを使用)
+  CLAUDE_MODEL_ROUTES: {
+    description:
+      '操作名ごとのモデルの優先順リスト(「操作名=モデル,モデル」を;区切り、先頭から順にフォールバック)',
+    required: false,
+    example: 'japanese-news-summary=claude-sonnet-4-5,claude-haiku-4-5',
+  },
+
+  // LLMプロバイダー用の環境変数(すべて任意、未設定の場合はAnthropic APIを使用)
+  LLM_PROVIDER: {
+    description: '使用するLLMプロバイダー(anthropic / openai-compatible / fake、デフォルト: anthropic)',
+    required: false,
+    example: 'anthropic',
+  },
+  LLM_BASE_URL: {
+    description: 'OpenAI互換APIのベースURL(LLM_PROVIDER=openai-compatibleの場合に必須)',
+    required: false,
+    example: 'http://localhost:11434/v1',
+  },
+  LLM_API_KEY: {
+    description: 'OpenAI互換APIのAPIキー(不要な場合は未設定)',
+    required: false,
+    example: 'sk-local',
+  },
+  LLM_MODEL: {
+    description: 'OpenAI互換APIで使用するモデル(LLM_PROVIDER=openai-compatibleの場合に必須)',
+    required: false,
+    example: 'llama3.1',
+  },
+  LLM_FIXTURES_PATH: {
+    description: 'フェイクプロバイダーで使用するフィクスチャのJSONファイル(LLM_PROVIDER=fakeの場合)',
+    required: false,
+    example: './fixtures/llm.json',
+  },
+
+  // プロンプトのA/Bテスト用の環境変数(任意、未設定の場合は各テンプレートの重みを使用)
+  PROMPT_VERSION_WEIGHTS: {
+    description:
+      'プロンプト名ごとのバージョンの重み(「プロンプト名=バージョン:重み,バージョン:重み」を;区切り、指定しないバージョンは使用しない)',
+    required: false,
+    example: 'term-generation=v1:80,v2:20',
+  },
+
+  // 管理API用の環境変数(任意、未設定の場合は管理APIを使用できない)
+  ADMIN_API_KEYS: {
+    description:
+      '管理APIの認証キー(「管理者名:キー」をカンマ区切り、管理者名は監査ログに記録される)',
+    required: false,
+    example: 'alice:generated-secure-key-64-chars-hex',
+  },
 };
 
 /**
@@ -321,3 +481,289 @@ export function isSupabaseConfigured(): boolean {
     process.env.SUPABASE_URL && process.env.SUPABASE_SECRET_KEY
   );
 }
+
+/**
+ * 通知の重要度
+ */
+export type NotifySeverity = 'info' | 'warning' | 'error';
+
+/**
+ * バッチ通知の環境変数の設定結果
+ *
+ * 未設定のチャネルはundefinedになります。
+ */
+export interface NotifierEnvConfig {
+  /** 汎用Webhook */
+  webhook?: {
+    url: string;
+    minSeverity: NotifySeverity;
+  };
+  /** Slack Incoming Webhook */
+  slack?: {
+    url: string;
+    minSeverity: NotifySeverity;
+  };
+  /** SMTPメール */
+  email?: {
+    host: string;
+    port: number;
+    secure: boolean;
+    user?: string;
+    password?: string;
+    allowInsecureAuth: boolean;
+    from: string;
+    to: string[];
+    minSeverity: NotifySeverity;
+  };
+}
+
+/**
+ * 通知の最低重要度の環境変数を解釈する
+ *
+ * 未設定や不正な値の場合はデフォルト値を返します。
+ */
+function parseNotifySeverity(
+  value: string | undefined,
+  defaultValue: NotifySeverity
+): NotifySeverity {
+  const normalized = value?.trim().toLowerCase();
+  if (normalized === 'info' || normalized === 'warning' || normalized === 'error') {
+    return normalized;
+  }
+  return defaultValue;
+}
+
+/**
+ * バッチ通知の環境変数を取得する
+ *
+ * URL・送信先が設定されているチャネルのみを返します。
+ * メールはNOTIFY_SMTP_HOST・NOTIFY_EMAIL_FROM・NOTIFY_EMAIL_TOがすべて設定されている場合に有効になります。
+ *
+ * @returns バッチ通知の設定
+ */
+export function getNotifierEnvConfig(): NotifierEnvConfig {
+  const config: NotifierEnvConfig = {};
+
+  const webhookUrl = process.env.NOTIFY_WEBHOOK_URL?.trim();
+  if (webhookUrl) {
+    config.webhook = {
+      url: webhookUrl,
+      minSeverity: parseNotifySeverity(process.env.NOTIFY_WEBHOOK_MIN_SEVERITY, 'warning'),
+    };
+  }
+
+  const slackUrl = process.env.NOTIFY_SLACK_WEBHOOK_URL?.trim();
+  if (slackUrl) {
+    config.slack = {
+      url: slackUrl,
+      minSeverity: parseNotifySeverity(process.env.NOTIFY_SLACK_MIN_SEVERITY, 'warning'),
+    };
+  }
+
+  const smtpHost = process.env.NOTIFY_SMTP_HOST?.trim();
+  const emailFrom = process.env.NOTIFY_EMAIL_FROM?.trim();
+  const emailTo = (process.env.NOTIFY_EMAIL_TO ?? '')
+    .split(',')
+    .map((address) => address.trim())
+    .filter((address) => address !== '');
+  if (smtpHost && emailFrom && emailTo.length > 0) {
+    const secure = process.env.NOTIFY_SMTP_SECURE?.trim().toLowerCase() === 'true';
+    const port = Number(process.env.NOTIFY_SMTP_PORT);
+    config.email = {
+      host: smtpHost,
+      port: Number.isInteger(port) && port > 0 ? port : secure ? 465 : 587,
+      secure,
+      user: process.env.NOTIFY_SMTP_USER?.trim() || undefined,
+      password: process.env.NOTIFY_SMTP_PASSWORD || undefined,
+      allowInsecureAuth:
+        process.env.NOTIFY_SMTP_ALLOW_INSECURE_AUTH?.trim().toLowerCase() === 'true',
+      from: emailFrom,
+      to: emailTo,
+      minSeverity: parseNotifySeverity(process.env.NOTIFY_EMAIL_MIN_SEVERITY, 'error'),
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Claude API利用料の予算の環境変数の設定結果
+ */
+export interface ClaudeBudgetEnvConfig {
+  /** 1日(JST)あたりの予算(米ドル、未設定の場合は確認しない) */
+  dailyLimitUsd?: number;
+  /** 1ヶ月(JST)あたりの予算(米ドル、未設定の場合は確認しない) */
+  monthlyLimitUsd?: number;
+  /** 安価なモデルに切り替える予算の割合(0〜1) */
+  downgradeRatio: number;
+}
+
+/**
+ * 安価なモデルに切り替える予算の割合のデフォルト値
+ */
+const DEFAULT_BUDGET_DOWNGRADE_RATIO = 0.8;
+
+/**
+ * 予算の金額の環境変数を解釈する
+ *
+ * 未設定・0以下・数値でない場合はundefinedを返します。
+ */
+function parseBudgetUsd(value: string | undefined): number | undefined {
+  const amount = Number(value?.trim() || NaN);
+  return Number.isFinite(amount) && amount > 0 ? amount : undefined;
+}
+
+/**
+ * Claude API利用料の予算の環境変数を取得する
+ *
+ * @returns 予算の設定
+ */
+export function getClaudeBudgetEnvConfig(): ClaudeBudgetEnvConfig {
+  const ratio = Number(process.env.CLAUDE_BUDGET_DOWNGRADE_RATIO?.trim() || NaN);
+
+  return {
+    dailyLimitUsd: parseBudgetUsd(process.env.CLAUDE_DAILY_BUDGET_USD),
+    monthlyLimitUsd: parseBudgetUsd(process.env.CLAUDE_MONTHLY_BUDGET_USD),
+    downgradeRatio:
+      Number.isFinite(ratio) && ratio > 0 && ratio <= 1 ? ratio : DEFAULT_BUDGET_DOWNGRADE_RATIO,
+  };
+}
+
+/**
+ * Claude APIのモデルのルーティングの環境変数を取得する
+ *
+ * CLAUDE_MODEL_ROUTESを「操作名=モデル,モデル;操作名=モデル」の形式で解釈します。
+ * 操作名またはモデルが空の項目は無視します。
+ *
+ * @returns 操作名ごとのモデルの優先順リスト(未設定の場合は空)
+ *
+ * @example
+ * ```typescript
+ * // CLAUDE_MODEL_ROUTES='japanese-news-summary=claude-sonnet-4-5,claude-haiku-4-5'
+ * getClaudeModelRoutesEnvConfig();
+ * // { 'japanese-news-summary': ['claude-sonnet-4-5', 'claude-haiku-4-5'] }
+ * ```
+ */
+export function getClaudeModelRoutesEnvConfig(): Record<string, string[]> {
+  const routes: Record<string, string[]> = {};
+
+  for (const entry of (process.env.CLAUDE_MODEL_ROUTES ?? '').split(';')) {
+    const [operation, models = ''] = entry.split('=', 2).map((part) => part.trim());
+    const chain = models
+      .split(',')
+      .map((model) => model.trim())
+      .filter((model) => model.length > 0);
+
+    if (operation && chain.length > 0) {
+      routes[operation] = chain;
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Claude APIのレスポンスキャッシュの環境変数の設定結果
+ */
+export interface ClaudeResponseCacheEnvConfig {
+  /** キャッシュの有効期限(ミリ秒、0の場合はキャッシュしない) */
+  ttlMs: number;
+}
+
+/**
+ * レスポンスキャッシュの有効期限のデフォルト値(時間)
+ */
+const DEFAULT_RESPONSE_CACHE_TTL_HOURS = 168;
+
+/**
+ * Claude APIのレスポンスキャッシュの環境変数を取得する
+ *
+ * CLAUDE_RESPONSE_CACHE_TTL_HOURSを有効期限(時間)として解釈します。
+ * 0の場合はキャッシュを無効にし、未設定・負の値・数値でない場合はデフォルト(168時間)を使用します。
+ *
+ * @returns レスポンスキャッシュの設定
+ */
+export function getClaudeResponseCacheEnvConfig(): ClaudeResponseCacheEnvConfig {
+  const hours = Number(process.env.CLAUDE_RESPONSE_CACHE_TTL_HOURS?.trim() || NaN);
+
+  return {
+    ttlMs:
+      (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_RESPONSE_CACHE_TTL_HOURS) *
+      60 *
+      60 *
+      1000,
+  };
+}
+
+/**
+ * LLMプロバイダーの環境変数の設定結果
+ */
+export interface LlmEnvConfig {
+  /** プロバイダー名(小文字、未設定の場合は'anthropic') */
+  provider: string;
+  /** OpenAI互換APIのベースURL */
+  baseUrl?: string;
+  /** OpenAI互換APIのAPIキー */
+  apiKey?: string;
+  /** OpenAI互換APIで使用するモデル */
+  model?: string;
+  /** フェイクプロバイダーのフィクスチャファイルのパス */
+  fixturesPath?: string;
+}
+
+/**
+ * LLMプロバイダーの環境変数を取得する
+ *
+ * プロバイダー名の検証はLLMプロバイダーの作成時に行います。
+ *
+ * @returns LLMプロバイダーの設定
+ */
+export function getLlmEnvConfig(): LlmEnvConfig {
+  return {
+    provider: process.env.LLM_PROVIDER?.trim().toLowerCase() || 'anthropic',
+    baseUrl: process.env.LLM_BASE_URL?.trim() || undefined,
+    apiKey: process.env.LLM_API_KEY?.trim() || undefined,
+    model: process.env.LLM_MODEL?.trim() || undefined,
+    fixturesPath: process.env.LLM_FIXTURES_PATH?.trim() || undefined,
+  };
+}
+
+/**
+ * プロンプトのバージョンの重みの環境変数を取得する
+ *
+ * PROMPT_VERSION_WEIGHTSを「プロンプト名=バージョン:重み,バージョン:重み;プロンプト名=バージョン」の形式で解釈します。
+ * 重みを省略したバージョンは1とします。
+ * プロンプト名・バージョンが空の項目と、重みが0以上の数値でない項目は無視します。
+ *
+ * @returns プロンプト名ごとのバージョンの重み(未設定の場合は空)
+ *
+ * @example
+ * ```typescript
+ * // PROMPT_VERSION_WEIGHTS='term-generation=v1:80,v2:20;english-news-summary=v2'
+ * getPromptVersionWeightsEnvConfig();
+ * // { 'term-generation': { v1: 80, v2: 20 }, 'english-news-summary': { v2: 1 } }
+ * ```
+ */
+export function getPromptVersionWeightsEnvConfig(): Record<string, Record<string, number>> {
+  const weights: Record<string, Record<string, number>> = {};
+
+  for (const entry of (process.env.PROMPT_VERSION_WEIGHTS ?? '').split(';')) {
+    const [name, versions = ''] = entry.split('=', 2).map((part) => part.trim());
+    const versionWeights: Record<string, number> = {};
+
+    for (const item of versions.split(',')) {
+      const [version, weightText] = item.split(':', 2).map((part) => part.trim());
+      const weight = weightText === undefined || weightText === '' ? 1 : Number(weightText);
+
+      if (version && Number.isFinite(weight) && weight >= 0) {
+        versionWeights[version] = weight;
+      }
+    }
+
+    if (name && Object.keys(versionWeights).length > 0) {
+      weights[name] = versionWeights;
+    }
+  }
+
+  return weights;
+}
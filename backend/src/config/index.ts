@@ -21,10 +21,21 @@ export {
   generateEnvVarErrorMessage,
   getSupabaseEnvConfig,
   isSupabaseConfigured,
+  getNotifierEnvConfig,
+  getClaudeBudgetEnvConfig,
+  getClaudeModelRoutesEnvConfig,
+  getClaudeResponseCacheEnvConfig,
+  getLlmEnvConfig,
+  getPromptVersionWeightsEnvConfig,
   ENV_VAR_CONFIG,
   type EnvVarName,
   type EnvVarInfo,
   type EnvVarStatus,
   type EnvVarValidationResult,
   type SupabaseEnvConfig,
+  type NotifierEnvConfig,
+  type NotifySeverity,
+  type ClaudeBudgetEnvConfig,
+  type ClaudeResponseCacheEnvConfig,
+  type LlmEnvConfig,
 } from './envConfig';
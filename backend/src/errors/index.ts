@@ -38,6 +38,8 @@ export {
 export {
   AIServiceError,
   AIServiceTimeoutError,
+  AIServiceStreamTimeoutError,
+  StreamTimeoutReason,
   AIServiceUnavailableError,
   isAIServiceError,
   isTimeoutError,
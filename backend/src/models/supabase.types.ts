@@ -23,6 +23,11 @@ export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
  * @property world_news_summary - 世界ニュースの要約(約2000文字)
  * @property japan_news_title - 日本ニュースのタイトル
  * @property japan_news_summary - 日本ニュースの要約(約2000文字)
+ * @property world_news_model - 世界ニュースの要約に使用したモデル名(既存のレコードはnull)
+ * @property japan_news_model - 日本ニュースの要約に使用したモデル名(既存のレコードはnull)
+ * @property world_news_prompt_version - 世界ニュースの要約に使用したプロンプトのバージョン(既存のレコードはnull)
+ * @property japan_news_prompt_version - 日本ニュースの要約に使用したプロンプトのバージョン(既存のレコードはnull)
+ * @property published - アプリに公開しているか(管理者が非公開にした場合はfalse)
  * @property created_at - 作成日時(ISO 8601形式)
  * @property updated_at - 更新日時(ISO 8601形式)
  */
@@ -32,6 +37,11 @@ export interface NewsRow {
   world_news_summary: string;
   japan_news_title: string;
   japan_news_summary: string;
+  world_news_model?: string | null;
+  japan_news_model?: string | null;
+  world_news_prompt_version?: string | null;
+  japan_news_prompt_version?: string | null;
+  published?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -47,6 +57,109 @@ export interface NewsUpsertPayload {
   world_news_summary: string;
   japan_news_title: string;
   japan_news_summary: string;
+  world_news_model?: string | null;
+  japan_news_model?: string | null;
+  world_news_prompt_version?: string | null;
+  japan_news_prompt_version?: string | null;
+  updated_at: string;
+}
+
+/**
+ * ニュースの地域区分
+ *
+ * 出典記事がどちらの要約に使われたかを表す
+ */
+export type NewsRegion = 'world' | 'japan';
+
+/**
+ * news_source_articles テーブルの行型
+ *
+ * @property id - 自動生成されるID(SERIAL PRIMARY KEY)
+ * @property news_date - 対象のニュース日付(YYYY-MM-DD形式、news.dateを参照)
+ * @property region - 地域区分(world, japan)
+ * @property title - 元記事のタイトル
+ * @property outlet - 配信元メディア名
+ * @property url - 元記事のURL
+ * @property published_at - 元記事の公開日時(ISO 8601形式、null許容)
+ * @property position - 表示順
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface NewsSourceArticleRow {
+  id: number;
+  news_date: string;
+  region: NewsRegion;
+  title: string;
+  outlet: string;
+  url: string;
+  published_at: string | null;
+  position: number;
+  created_at: string;
+}
+
+/**
+ * news_source_articles テーブルへのinsert用ペイロード型
+ *
+ * idとcreated_atは自動設定されるためオプション
+ */
+export interface NewsSourceArticleInsertPayload {
+  news_date: string;
+  region: NewsRegion;
+  title: string;
+  outlet: string;
+  url: string;
+  published_at: string | null;
+  position: number;
+}
+
+/**
+ * ニュースのカテゴリ(テーマ)
+ *
+ * - markets: 市況
+ * - macro: マクロ経済・中央銀行
+ * - earnings: 企業決算
+ * - crypto: 暗号資産
+ * - fx: 為替
+ */
+export type NewsCategory = 'markets' | 'macro' | 'earnings' | 'crypto' | 'fx';
+
+/**
+ * news_category_summaries テーブルの行型
+ *
+ * @property news_date - 対象のニュース日付(YYYY-MM-DD形式、news.dateを参照)
+ * @property category - カテゴリ
+ * @property title - カテゴリ要約のタイトル
+ * @property summary - カテゴリ要約の本文(約400文字)
+ * @property article_count - 要約に使用した記事数
+ * @property model - 要約に使用したモデル名(既存のレコードはnull)
+ * @property prompt_version - 要約に使用したプロンプトのバージョン(既存のレコードはnull)
+ * @property created_at - 作成日時(ISO 8601形式)
+ * @property updated_at - 更新日時(ISO 8601形式)
+ */
+export interface NewsCategorySummaryRow {
+  news_date: string;
+  category: NewsCategory;
+  title: string;
+  summary: string;
+  article_count: number;
+  model?: string | null;
+  prompt_version?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * news_category_summaries テーブルへのinsert用ペイロード型
+ *
+ * created_atは自動設定されるためオプション
+ */
+export interface NewsCategorySummaryInsertPayload {
+  news_date: string;
+  category: NewsCategory;
+  title: string;
+  summary: string;
+  article_count: number;
+  model?: string | null;
+  prompt_version?: string | null;
   updated_at: string;
 }
 
@@ -58,6 +171,9 @@ export interface NewsUpsertPayload {
  * @property name - 用語名
  * @property description - 用語の説明(約500文字)
  * @property difficulty - 難易度(beginner, intermediate, advanced)
+ * @property model - 解説の生成に使用したモデル名(既存のレコードはnull)
+ * @property prompt_version - 解説の生成に使用したプロンプトのバージョン(既存のレコードはnull)
+ * @property published - アプリに公開しているか(管理者が非公開にした場合はfalse)
  * @property created_at - 作成日時(ISO 8601形式)
  */
 export interface TermRow {
@@ -66,6 +182,9 @@ export interface TermRow {
   name: string;
   description: string;
   difficulty: Difficulty;
+  model?: string | null;
+  prompt_version?: string | null;
+  published?: boolean;
   created_at: string;
 }
 
@@ -79,6 +198,8 @@ export interface TermInsertPayload {
   name: string;
   description: string;
   difficulty: Difficulty;
+  model?: string | null;
+  prompt_version?: string | null;
 }
 
 /**
@@ -107,6 +228,469 @@ export interface TermHistoryInsertPayload {
   difficulty: Difficulty;
 }
 
+/**
+ * term_quizzes テーブルの行型
+ *
+ * @property id - 自動生成されるID(SERIAL PRIMARY KEY)
+ * @property date - 配信日(YYYY-MM-DD形式)
+ * @property term_name - 対象の用語名
+ * @property question_index - 用語内の設問番号(0始まり)
+ * @property question - 問題文
+ * @property choices - 選択肢(JSONB配列)
+ * @property correct_index - 正解の選択肢のインデックス(0始まり)
+ * @property explanation - 正解の解説
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface TermQuizRow {
+  id: number;
+  date: string;
+  term_name: string;
+  question_index: number;
+  question: string;
+  choices: string[];
+  correct_index: number;
+  explanation: string;
+  created_at: string;
+}
+
+/**
+ * term_quizzes テーブルへのinsert用ペイロード型
+ *
+ * idとcreated_atは自動設定されるためオプション
+ */
+export interface TermQuizInsertPayload {
+  date: string;
+  term_name: string;
+  question_index: number;
+  question: string;
+  choices: string[];
+  correct_index: number;
+  explanation: string;
+}
+
+/**
+ * term_explanations テーブルの行型
+ *
+ * 用語リンクから開かれたがtermsテーブルに解説がない用語について、
+ * オンデマンドで生成した解説をキャッシュします。
+ *
+ * @property term_name - 用語名(PRIMARY KEY)
+ * @property description - 生成した解説文
+ * @property difficulty - 難易度レベル
+ * @property model - 生成に使用したモデル名
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface TermExplanationRow {
+  term_name: string;
+  description: string;
+  difficulty: Difficulty;
+  model: string;
+  created_at: string;
+}
+
+/**
+ * term_explanations テーブルへのupsert用ペイロード型
+ *
+ * created_atは自動設定されるためオプション
+ */
+export interface TermExplanationUpsertPayload {
+  term_name: string;
+  description: string;
+  difficulty: Difficulty;
+  model: string;
+}
+
+/**
+ * バッチの種類
+ */
+export type BatchJob = 'news' | 'terms';
+
+/**
+ * バッチの実行結果
+ * - success: 全処理が成功
+ * - partial: 一部のみ成功
+ * - failure: 失敗
+ */
+export type BatchRunStatus = 'success' | 'partial' | 'failure';
+
+/**
+ * batch_runs / batch_run_steps テーブルに保存するエラー情報
+ */
+export interface BatchRunErrorRecord {
+  type: string;
+  message: string;
+  timestamp: string;
+  source?: string;
+}
+
+/**
+ * batch_runs テーブルに保存する操作ごとのトークン使用量
+ */
+export interface BatchRunTokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  requestCount: number;
+}
+
+/**
+ * batch_runs テーブルの行型
+ *
+ * @property id - 実行ID(BatchPerformanceMonitorのbatchId)
+ * @property job - バッチの種類
+ * @property date - 処理対象の日付(YYYY-MM-DD形式、JST)
+ * @property status - 実行結果
+ * @property partial_success_type - 部分成功の種類(例: world-news-only)
+ * @property started_at - 開始日時(ISO 8601形式)
+ * @property finished_at - 終了日時(ISO 8601形式)
+ * @property duration_ms - 全体の処理時間(ミリ秒)
+ * @property within_limit - 制限時間内に完了したか
+ * @property errors - 発生したエラー
+ * @property token_usage - 操作ごとのトークン使用量
+ * @property total_input_tokens - 入力トークン数の合計
+ * @property total_output_tokens - 出力トークン数の合計
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface BatchRunRow {
+  id: string;
+  job: BatchJob;
+  date: string;
+  status: BatchRunStatus;
+  partial_success_type: string | null;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  within_limit: boolean;
+  errors: BatchRunErrorRecord[];
+  token_usage: Record<string, BatchRunTokenUsage>;
+  total_input_tokens: number;
+  total_output_tokens: number;
+  created_at: string;
+}
+
+/**
+ * batch_runs テーブルへのinsert用ペイロード型
+ *
+ * created_atは自動設定されるためオプション
+ */
+export type BatchRunInsertPayload = Omit<BatchRunRow, 'created_at'>;
+
+/**
+ * batch_run_steps テーブルの行型
+ *
+ * @property id - 自動採番ID
+ * @property run_id - 実行ID(batch_runs.id)
+ * @property step - ステップ名
+ * @property position - 実行順
+ * @property success - ステップ内でエラーが発生しなかったか
+ * @property started_at - 開始日時(ISO 8601形式)
+ * @property duration_ms - 処理時間(ミリ秒)
+ * @property errors - ステップ内で発生したエラー
+ */
+export interface BatchRunStepRow {
+  id: number;
+  run_id: string;
+  step: string;
+  position: number;
+  success: boolean;
+  started_at: string;
+  duration_ms: number;
+  errors: BatchRunErrorRecord[];
+}
+
+/**
+ * batch_run_steps テーブルへのinsert用ペイロード型
+ *
+ * idは自動採番されるためオプション
+ */
+export type BatchRunStepInsertPayload = Omit<BatchRunStepRow, 'id'>;
+
+/**
+ * notification_deliveries テーブルの行型
+ *
+ * 送信したバッチ通知の記録(重複送信防止用)
+ */
+export interface NotificationDeliveryRow {
+  /** 重複判定キー */
+  dedupe_key: string;
+  /** バッチの種類 */
+  job: BatchJob;
+  /** 処理対象の日付(YYYY-MM-DD形式) */
+  date: string;
+  /** 通知の重要度 */
+  severity: 'info' | 'warning' | 'error';
+  /** 通知タイトル */
+  title: string;
+  /** 送信日時(ISO 8601形式) */
+  sent_at: string;
+}
+
+/**
+ * notification_deliveries テーブルへの挿入用の型
+ *
+ * sent_atはデフォルト値が設定されるためオプション
+ */
+export type NotificationDeliveryInsertPayload = Omit<NotificationDeliveryRow, 'sent_at'>;
+
+/**
+ * リースロックを取得するバッチの種類
+ *
+ * ニュース・用語に加え、Message Batchesの確認(messages)の重複実行も防ぐ
+ */
+export type BatchLockJob = BatchJob | 'messages';
+
+/**
+ * batch_locks テーブルの行型
+ *
+ * 同じ種類のバッチの重複実行を防ぐためのリース
+ */
+export interface BatchLockRow {
+  /** バッチの種類 */
+  job: BatchLockJob;
+  /** ロックを保持している実行の識別子 */
+  holder_id: string;
+  /** 取得日時(ISO 8601形式) */
+  acquired_at: string;
+  /** 有効期限(ISO 8601形式) */
+  expires_at: string;
+}
+
+/**
+ * Claude APIの呼び出し元の処理
+ * - news / terms: ニュース・用語バッチ
+ * - explain: 用語の解説生成(アプリからのリクエスト)
+ * - other: 上記以外
+ */
+export type ClaudeUsageJob = 'news' | 'terms' | 'explain' | 'other';
+
+/**
+ * claude_usage テーブルの行型
+ *
+ * Claude API呼び出しごとのトークン使用量と料金
+ */
+export interface ClaudeUsageRow {
+  id: number;
+  /** 呼び出し元の処理 */
+  job: ClaudeUsageJob;
+  /** 操作名 */
+  operation: string;
+  /** 使用したモデル */
+  model: string;
+  /** 入力トークン数 */
+  input_tokens: number;
+  /** 出力トークン数 */
+  output_tokens: number;
+  /** 料金(米ドル) */
+  cost_usd: number;
+  /** 呼び出し日時(ISO 8601形式) */
+  created_at: string;
+}
+
+/**
+ * claude_usage テーブルへの挿入用の型
+ *
+ * id, created_atは自動生成されるため除外
+ */
+export type ClaudeUsageInsertPayload = Omit<ClaudeUsageRow, 'id' | 'created_at'>;
+
+/**
+ * summarize_claude_usage 関数の戻り値の行型
+ */
+export interface ClaudeUsageSummaryRow {
+  job: ClaudeUsageJob;
+  operation: string;
+  model: string;
+  request_count: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+}
+
+/**
+ * キャッシュしたClaude APIのレスポンス(LlmResponseと同じ形)
+ */
+export interface CachedClaudeResponse {
+  content: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+  model: string;
+  stopReason: string | null;
+  toolInput?: unknown;
+}
+
+/**
+ * claude_response_cache テーブルの行型
+ *
+ * リクエスト内容のハッシュをキーとしたClaude APIのレスポンスのキャッシュ
+ */
+export interface ClaudeResponseCacheRow {
+  /** キャッシュキー(リクエスト内容のSHA-256) */
+  cache_key: string;
+  /** リクエストしたモデル */
+  model: string;
+  /** 操作名 */
+  operation: string;
+  /** レスポンス */
+  response: CachedClaudeResponse;
+  /** 保存日時(ISO 8601形式) */
+  created_at: string;
+  /** 有効期限(ISO 8601形式) */
+  expires_at: string;
+}
+
+/**
+ * claude_response_cache テーブルへの保存用の型
+ *
+ * created_atは自動生成されるため除外
+ */
+export type ClaudeResponseCacheInsertPayload = Omit<ClaudeResponseCacheRow, 'created_at'>;
+
+/**
+ * Message Batchesで送信したバッチの種類
+ * - terms: 用語生成(TermGenerationResultに変換)
+ * - news: ニュース要約(SummaryResultに変換)
+ */
+export type ClaudeMessageBatchJob = 'terms' | 'news';
+
+/**
+ * Message Batchesで送信したバッチの状態
+ * - in_progress: 処理中(Cronで完了を確認する)
+ * - completed: 結果を変換済み
+ */
+export type ClaudeMessageBatchStatus = 'in_progress' | 'completed';
+
+/**
+ * バッチ内のリクエスト(結果の対応付けに使用)
+ */
+export interface ClaudeMessageBatchRequestRecord {
+  /** リクエストのID(バッチ内で一意) */
+  custom_id: string;
+  /** 操作名 */
+  operation: string;
+  /** 使用したプロンプトのバージョン */
+  prompt_version: string;
+}
+
+/**
+ * バッチ内のリクエストの結果の状態
+ * - succeeded: 生成結果に変換できた
+ * - failed: レスポンスを生成結果に変換できなかった
+ * - errored / canceled / expired: APIでエラー・キャンセル・期限切れになった
+ */
+export type ClaudeMessageBatchResultStatus =
+  | 'succeeded'
+  | 'failed'
+  | 'errored'
+  | 'canceled'
+  | 'expired';
+
+/**
+ * バッチ内のリクエストの結果
+ */
+export interface ClaudeMessageBatchResultRecord<T = unknown> {
+  /** リクエストのID */
+  custom_id: string;
+  /** 結果の状態 */
+  status: ClaudeMessageBatchResultStatus;
+  /** 生成結果(succeededの場合のみ、TermGenerationResultまたはSummaryResult) */
+  result?: T;
+  /** エラーメッセージ(succeeded以外の場合) */
+  error?: string;
+}
+
+/**
+ * claude_message_batches テーブルの行型
+ *
+ * Claude APIのMessage Batchesで送信したバッチと、変換した結果
+ */
+export interface ClaudeMessageBatchRow {
+  /** バッチID(Anthropic APIが発行するID) */
+  id: string;
+  /** バッチの種類 */
+  job: ClaudeMessageBatchJob;
+  /** 状態 */
+  status: ClaudeMessageBatchStatus;
+  /** リクエスト */
+  requests: ClaudeMessageBatchRequestRecord[];
+  /** リクエスト数 */
+  request_count: number;
+  /** 結果(完了時に保存) */
+  results: ClaudeMessageBatchResultRecord[] | null;
+  /** 変換に成功した結果の数(完了時に保存) */
+  succeeded_count: number | null;
+  /** 失敗した結果の数(完了時に保存) */
+  failed_count: number | null;
+  /** 送信日時(ISO 8601形式) */
+  submitted_at: string;
+  /** 最後に完了を確認した日時(ISO 8601形式) */
+  checked_at: string | null;
+  /** 結果を変換した日時(ISO 8601形式) */
+  completed_at: string | null;
+}
+
+/**
+ * claude_message_batches テーブルへの挿入用の型
+ */
+export type ClaudeMessageBatchInsertPayload = Pick<
+  ClaudeMessageBatchRow,
+  'id' | 'job' | 'status' | 'requests' | 'request_count' | 'submitted_at'
+>;
+
+/**
+ * claude_message_batches テーブルの更新用の型
+ */
+export type ClaudeMessageBatchUpdatePayload = Partial<
+  Pick<
+    ClaudeMessageBatchRow,
+    'status' | 'results' | 'succeeded_count' | 'failed_count' | 'checked_at' | 'completed_at'
+  >
+>;
+
+/**
+ * 監査ログの対象のテーブル
+ */
+export type ContentAuditTable = 'news' | 'terms';
+
+/**
+ * 監査ログの操作
+ * - edit: 内容の編集
+ * - unpublish: 非公開
+ * - republish: 再公開
+ */
+export type ContentAuditAction = 'edit' | 'unpublish' | 'republish';
+
+/**
+ * content_audit_log テーブルの行型
+ *
+ * 管理者によるニュース・用語の変更の記録(追記のみ)
+ */
+export interface ContentAuditLogRow {
+  /** 自動生成されるID */
+  id: number;
+  /** 対象のテーブル */
+  table_name: ContentAuditTable;
+  /** 対象のレコードのキー(newsは日付、termsはID) */
+  record_id: string;
+  /** 操作 */
+  action: ContentAuditAction;
+  /** 変更した管理者 */
+  actor: string;
+  /** 変更前の値(変更した列のみ) */
+  previous_value: Record<string, unknown>;
+  /** 変更後の値(変更した列のみ) */
+  new_value: Record<string, unknown>;
+  /** 変更の理由 */
+  reason: string | null;
+  /** 変更日時(ISO 8601形式) */
+  created_at: string;
+}
+
+/**
+ * content_audit_log テーブルへの挿入用の型
+ */
+export type ContentAuditLogInsertPayload = Omit<ContentAuditLogRow, 'id' | 'created_at'>;
+
 /**
  * batch_metadata テーブルの行型
  *
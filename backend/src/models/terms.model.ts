@@ -34,6 +34,10 @@ export interface Term {
   description: string;
   /** 難易度 */
   difficulty: TermDifficulty;
+  /** 解説の生成に使用したモデル名(バッチで生成した場合のみ) */
+  model?: string;
+  /** 解説の生成に使用したプロンプトのバージョン(バッチで生成した場合のみ) */
+  promptVersion?: string;
 }
 
 /**
@@ -68,6 +72,32 @@ export interface TermHistoryDocument {
   difficulty: TermDifficulty;
 }
 
+/**
+ * 用語クイズの設問(4択)
+ */
+export interface TermQuizQuestion {
+  /** 問題文 */
+  question: string;
+  /** 選択肢(正解1つと誤答) */
+  choices: string[];
+  /** 正解の選択肢のインデックス(0始まり) */
+  correctIndex: number;
+  /** 正解の解説 */
+  explanation: string;
+}
+
+/**
+ * 用語クイズ
+ *
+ * Supabaseテーブル: term_quizzes(設問ごとに1行)
+ */
+export interface TermQuiz {
+  /** 対象の用語名 */
+  termName: string;
+  /** 設問(2〜3問) */
+  questions: TermQuizQuestion[];
+}
+
 /**
  * 用語ドキュメントを検証する
  *
@@ -163,6 +163,48 @@ describe('Task 27.1: ParallelFetchOptimizer - 並列実行最適化', () => {
       expect(config.task2TimeoutMs).toBe(20000);
     });
   });
+
+  describe('任意個のタスクの並列実行', () => {
+    it('複数のタスクを並列実行し、渡した順序で結果を返すこと', async () => {
+      const optimizer = new ParallelFetchOptimizer();
+
+      const tasks = [30, 10, 20].map(
+        (delay) => () =>
+          new Promise<number>((resolve) => setTimeout(() => resolve(delay), delay))
+      );
+
+      const result = await optimizer.executeAll(tasks);
+
+      expect(result.success).toBe(true);
+      expect(result.partialSuccess).toBe(false);
+      expect(result.results.map((taskResult) => taskResult.result)).toEqual([30, 10, 20]);
+      expect(result.totalDurationMs).toBeLessThan(60);
+    });
+
+    it('一部のタスクが失敗しても他のタスクの結果を返すこと', async () => {
+      const optimizer = new ParallelFetchOptimizer({ taskTimeoutMs: 50 });
+
+      const result = await optimizer.executeAll<string>([
+        () => Promise.resolve('ok'),
+        () => Promise.reject(new Error('Source failed')),
+        () => new Promise<string>((resolve) => setTimeout(() => resolve('late'), 200)),
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.partialSuccess).toBe(true);
+      expect(result.results[0]).toMatchObject({ success: true, result: 'ok' });
+      expect(result.results[1].success).toBe(false);
+      expect(result.results[1].error?.message).toBe('Source failed');
+      expect(result.results[2].timedOut).toBe(true);
+    });
+
+    it('タスクのタイムアウト設定を取得できること', () => {
+      expect(new ParallelFetchOptimizer().getConfig().taskTimeoutMs).toBe(30000);
+      expect(
+        new ParallelFetchOptimizer({ taskTimeoutMs: 10000 }).getConfig().taskTimeoutMs
+      ).toBe(10000);
+    });
+  });
 });
 
 describe('Task 27.2: ClaudeTimeoutOptimizer - タイムアウト最適化', () => {
@@ -17,6 +17,8 @@ export {
   type ParallelFetchConfig,
   type ParallelFetchResult,
   type ParallelFetchTiming,
+  type ParallelTaskResult,
+  type ParallelFetchAllResult,
 } from './parallelFetchOptimizer';
 
 // Task 27.2: Claude APIタイムアウト最適化
@@ -6,6 +6,7 @@
  * 2つの非同期タスク(ニュース取得等)を並列実行し、
  * 処理時間を最小化します。タイムアウト制御付きで
  * 個別タスクの失敗をハンドリングします。
+ * 複数ニュースソースの取得のため、任意個のタスクの並列実行にも対応します。
  *
  * Requirements: 1.8 (5分以内にバッチ完了)
  *
@@ -37,6 +38,12 @@ export interface ParallelFetchConfig {
    * @default 30000
    */
   task2TimeoutMs?: number;
+
+  /**
+   * executeAllで実行する各タスクのタイムアウト時間(ミリ秒)
+   * @default 30000
+   */
+  taskTimeoutMs?: number;
 }
 
 /**
@@ -80,6 +87,40 @@ export interface ParallelFetchResult<T1 = unknown, T2 = unknown> {
   timing: ParallelFetchTiming;
 }
 
+/**
+ * 個別タスクの実行結果(executeAll用)
+ *
+ * @template T - タスクの結果型
+ */
+export interface ParallelTaskResult<T = unknown> {
+  /** タスクが成功したか */
+  success: boolean;
+  /** タスクの結果(成功時) */
+  result?: T;
+  /** タスクのエラー(失敗時) */
+  error?: Error;
+  /** タスクがタイムアウトしたか */
+  timedOut: boolean;
+  /** タスクの処理時間(ミリ秒) */
+  durationMs: number;
+}
+
+/**
+ * 複数タスクの並列実行結果(executeAll用)
+ *
+ * @template T - タスクの結果型
+ */
+export interface ParallelFetchAllResult<T = unknown> {
+  /** 全てのタスクが成功したか */
+  success: boolean;
+  /** 部分的に成功したか(一部のタスクのみ成功) */
+  partialSuccess: boolean;
+  /** 各タスクの結果(渡したタスクと同じ順序) */
+  results: ParallelTaskResult<T>[];
+  /** 全体の処理時間(ミリ秒) */
+  totalDurationMs: number;
+}
+
 /**
  * タイムアウト付きPromise実行結果
  */
@@ -116,6 +157,7 @@ interface TimeoutResult<T> {
 export class ParallelFetchOptimizer {
   private readonly task1TimeoutMs: number;
   private readonly task2TimeoutMs: number;
+  private readonly taskTimeoutMs: number;
 
   /**
    * コンストラクタ
@@ -125,6 +167,7 @@ export class ParallelFetchOptimizer {
   constructor(config: ParallelFetchConfig = {}) {
     this.task1TimeoutMs = config.task1TimeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
     this.task2TimeoutMs = config.task2TimeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+    this.taskTimeoutMs = config.taskTimeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
   }
 
   /**
@@ -136,6 +179,7 @@ export class ParallelFetchOptimizer {
     return {
       task1TimeoutMs: this.task1TimeoutMs,
       task2TimeoutMs: this.task2TimeoutMs,
+      taskTimeoutMs: this.taskTimeoutMs,
     };
   }
 
@@ -188,6 +232,42 @@ export class ParallelFetchOptimizer {
     };
   }
 
+  /**
+   * 任意個のタスクを並列実行
+   *
+   * 全タスクを同時に開始し、それぞれ独立したタイムアウト制御を行います。
+   * 一部のタスクが失敗しても、他のタスクは実行を継続します。
+   *
+   * @template T - タスクの結果型
+   * @param tasks - 実行するタスク関数の配列
+   * @returns 並列実行結果(resultsはtasksと同じ順序)
+   */
+  async executeAll<T>(tasks: ReadonlyArray<() => Promise<T>>): Promise<ParallelFetchAllResult<T>> {
+    const overallStartTime = Date.now();
+
+    const timeoutResults = await Promise.all(
+      tasks.map((task) => this.executeWithTimeout(task, this.taskTimeoutMs))
+    );
+
+    const results: ParallelTaskResult<T>[] = timeoutResults.map((timeoutResult) => ({
+      success: !timeoutResult.timedOut && !timeoutResult.error,
+      result: timeoutResult.result,
+      error: timeoutResult.error,
+      timedOut: timeoutResult.timedOut,
+      durationMs: timeoutResult.durationMs,
+    }));
+
+    const successCount = results.filter((taskResult) => taskResult.success).length;
+    const success = results.length > 0 && successCount === results.length;
+
+    return {
+      success,
+      partialSuccess: successCount > 0 && !success,
+      results,
+      totalDurationMs: Date.now() - overallStartTime,
+    };
+  }
+
   /**
    * タイムアウト付きでタスクを実行
    *
@@ -205,8 +285,9 @@ export class ParallelFetchOptimizer {
     const startTime = Date.now();
 
     // タイムアウトPromiseを作成
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     const timeoutPromise = new Promise<never>((_, reject) => {
-      setTimeout(() => {
+      timeoutId = setTimeout(() => {
         reject(new Error(`Task timed out after ${timeoutMs}ms`));
       }, timeoutMs);
     });
@@ -230,6 +311,9 @@ export class ParallelFetchOptimizer {
         timedOut: isTimeout,
         durationMs,
       };
+    } finally {
+      // タスク完了後にタイマーが残らないよう解除する
+      clearTimeout(timeoutId);
     }
   }
 }
@@ -12,13 +12,24 @@ import {
   ClaudeClient,
   DEFAULT_MODEL,
   CLAUDE_MODELS,
+  DEFAULT_MODEL_ROUTES,
   resetClaudeClient,
+  resolveModelChain,
 } from '../claudeClient';
 import { ApiKeyError } from '../claudeClient';
 import {
   getTokenUsageTracker,
   resetTokenUsageTracker,
 } from '../tokenUsageTracker';
+import Anthropic from '@anthropic-ai/sdk';
+import { BudgetExceededError, BudgetGuard, SpendLedger } from '../spend';
+import {
+  AIServiceError,
+  AIServiceStreamTimeoutError,
+  AIServiceUnavailableError,
+} from '../aiServiceErrorHandler';
+import type { LlmToolDefinition } from '../llm/llmProvider';
+import { InMemoryResponseCacheStore, ResponseCache } from '../responseCache';
 
 // Anthropic SDKをモック
 jest.mock('@anthropic-ai/sdk', () => {
@@ -209,4 +220,476 @@ describe('ClaudeClient', () => {
       });
     });
   });
+
+  describe('利用料の記録と予算チェック', () => {
+    const mockRecord = jest.fn();
+    const mockCheck = jest.fn();
+    const usageLedger = { record: mockRecord } as unknown as SpendLedger;
+    const budgetGuard = { check: mockCheck } as unknown as BudgetGuard;
+
+    /**
+     * 最後に作成されたAnthropicクライアントのmessages.createを取得
+     */
+    const getCreateMock = (): jest.Mock => {
+      const results = (Anthropic as unknown as jest.Mock).mock.results;
+      return results[results.length - 1].value.messages.create;
+    };
+
+    beforeEach(() => {
+      mockRecord.mockResolvedValue(undefined);
+      mockCheck.mockImplementation(async ({ model }: { model: string }) => ({
+        action: 'allow',
+        model,
+      }));
+    });
+
+    it('呼び出しごとの利用量を記録する', async () => {
+      const client = new ClaudeClient('test-api-key', { usageLedger });
+
+      await client.sendMessage('Hello!', { operation: 'term-generation' });
+
+      expect(mockRecord).toHaveBeenCalledWith({
+        operation: 'term-generation',
+        model: 'claude-3-haiku-20240307',
+        inputTokens: 10,
+        outputTokens: 20,
+      });
+    });
+
+    it('利用量の記録に失敗してもレスポンスを返す', async () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+      mockRecord.mockRejectedValue(new Error('insert failed'));
+      const client = new ClaudeClient('test-api-key', { usageLedger });
+
+      const response = await client.sendMessage('Hello!');
+
+      expect(response.content).toBe('Test response');
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('呼び出し前に見積もりトークン数で予算を確認する', async () => {
+      const client = new ClaudeClient('test-api-key', { budgetGuard });
+
+      await client.sendMessage('Hello!', { system: 'system', maxTokens: 500 });
+
+      expect(mockCheck).toHaveBeenCalledWith({
+        model: DEFAULT_MODEL,
+        estimatedInputTokens: 12,
+        maxTokens: 500,
+      });
+    });
+
+    it('予算チェックでモデルが切り替えられた場合は切り替え後のモデルで送信する', async () => {
+      mockCheck.mockResolvedValue({ action: 'downgrade', model: CLAUDE_MODELS.haiku });
+      const client = new ClaudeClient('test-api-key', { budgetGuard });
+
+      await client.sendMessage('Hello!', { model: CLAUDE_MODELS.sonnet });
+
+      expect(getCreateMock()).toHaveBeenCalledWith(
+        expect.objectContaining({ model: CLAUDE_MODELS.haiku })
+      );
+    });
+
+    it('予算を超える場合はAPIを呼び出さずにBudgetExceededErrorをスローする', async () => {
+      mockCheck.mockRejectedValue(new BudgetExceededError('daily', 1, 0.9999));
+      const client = new ClaudeClient('test-api-key', { budgetGuard, usageLedger });
+
+      await expect(client.sendMessage('Hello!')).rejects.toThrow(BudgetExceededError);
+      expect(getCreateMock()).not.toHaveBeenCalled();
+      expect(mockRecord).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('モデルのルーティングとフォールバック', () => {
+    /**
+     * 最後に作成されたAnthropicクライアントのmessages.createを取得
+     */
+    const getCreateMock = (): jest.Mock => {
+      const results = (Anthropic as unknown as jest.Mock).mock.results;
+      return results[results.length - 1].value.messages.create;
+    };
+
+    /**
+     * 指定したモデルのレスポンス
+     */
+    const createResponse = (model: string) => ({
+      content: [{ type: 'text', text: 'Test response' }],
+      model,
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 10, output_tokens: 20 },
+    });
+
+    /**
+     * 過負荷エラー(Anthropic APIの529 overloaded_error)
+     */
+    const overloadedError = Object.assign(new Error('Overloaded'), { status: 529 });
+    const newsSonnetRoutes = {
+      'english-news-summary': [CLAUDE_MODELS.sonnet, CLAUDE_MODELS.haiku],
+      'japanese-news-summary': [CLAUDE_MODELS.sonnet, CLAUDE_MODELS.haiku],
+    };
+
+    beforeEach(() => {
+      jest.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    it('ルーティング表に登録されていない操作はデフォルトモデルのみを使用する', () => {
+      expect(resolveModelChain('term-generation')).toEqual([DEFAULT_MODEL]);
+      expect(resolveModelChain(undefined)).toEqual([DEFAULT_MODEL]);
+    });
+
+    it('ニュース要約もデフォルトではHaikuのみを使用する', () => {
+      expect(DEFAULT_MODEL_ROUTES).toEqual({});
+      expect(resolveModelChain('english-news-summary')).toEqual([CLAUDE_MODELS.haiku]);
+      expect(resolveModelChain('japanese-news-summary')).toEqual([CLAUDE_MODELS.haiku]);
+    });
+
+    it('操作名に対応するルーティング表の先頭のモデルで送信する', async () => {
+      const client = new ClaudeClient('test-api-key', {
+        modelRoutes: { 'term-generation': [CLAUDE_MODELS.sonnet, CLAUDE_MODELS.haiku] },
+      });
+
+      await client.sendMessage('Hello!', { operation: 'term-generation' });
+
+      expect(getCreateMock()).toHaveBeenCalledTimes(1);
+      expect(getCreateMock()).toHaveBeenCalledWith(
+        expect.objectContaining({ model: CLAUDE_MODELS.sonnet })
+      );
+    });
+
+    it('過負荷の場合は次のモデルにフォールバックし、使用したモデルを記録する', async () => {
+      const client = new ClaudeClient('test-api-key', { modelRoutes: newsSonnetRoutes });
+      getCreateMock()
+        .mockRejectedValueOnce(overloadedError)
+        .mockResolvedValueOnce(createResponse('claude-haiku-4-5-20251001'));
+
+      const response = await client.sendMessage('Hello!', {
+        operation: 'japanese-news-summary',
+      });
+
+      expect(getCreateMock()).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({ model: CLAUDE_MODELS.sonnet })
+      );
+      expect(getCreateMock()).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({ model: CLAUDE_MODELS.haiku })
+      );
+      expect(response.model).toBe('claude-haiku-4-5-20251001');
+      expect(getTokenUsageTracker().getRecords()).toEqual([
+        expect.objectContaining({
+          model: 'claude-haiku-4-5-20251001',
+          operation: 'japanese-news-summary',
+        }),
+      ]);
+    });
+
+    it('すべてのモデルが利用できない場合は最後のエラーをAIServiceUnavailableErrorとしてスローする', async () => {
+      const client = new ClaudeClient('test-api-key', { modelRoutes: newsSonnetRoutes });
+      getCreateMock().mockRejectedValue(overloadedError);
+
+      const error = await client
+        .sendMessage('Hello!', { operation: 'english-news-summary' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(AIServiceUnavailableError);
+      expect(error.statusCode).toBe(529);
+      expect(error.operation).toBe('english-news-summary');
+      expect(getCreateMock()).toHaveBeenCalledTimes(2);
+    });
+
+    it('サービス利用不可以外のエラーはフォールバックせずにスローする', async () => {
+      const client = new ClaudeClient('test-api-key', { modelRoutes: newsSonnetRoutes });
+      const badRequest = Object.assign(new Error('Bad request'), { status: 400 });
+      getCreateMock().mockRejectedValueOnce(badRequest);
+
+      const error = await client
+        .sendMessage('Hello!', { operation: 'english-news-summary' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(AIServiceError);
+      expect(error).not.toBeInstanceOf(AIServiceUnavailableError);
+      expect(error.originalError).toBe(badRequest);
+      expect(getCreateMock()).toHaveBeenCalledTimes(1);
+    });
+
+    it('モデルを指定した場合はルーティング表を使用せず、フォールバックしない', async () => {
+      const client = new ClaudeClient('test-api-key', { modelRoutes: newsSonnetRoutes });
+      getCreateMock().mockRejectedValueOnce(overloadedError);
+
+      await expect(
+        client.sendMessage('Hello!', {
+          model: CLAUDE_MODELS.haiku,
+          operation: 'english-news-summary',
+        })
+      ).rejects.toBeInstanceOf(AIServiceUnavailableError);
+      expect(getCreateMock()).toHaveBeenCalledTimes(1);
+    });
+
+    it('環境変数CLAUDE_MODEL_ROUTESで指定した操作のみSonnetを使用する', () => {
+      process.env.CLAUDE_API_KEY = 'test-api-key';
+      process.env.CLAUDE_MODEL_ROUTES = 'english-news-summary=claude-sonnet-4-5,claude-haiku-4-5';
+
+      const client = getClaudeClient();
+
+      expect(client.getModelChain('english-news-summary')).toEqual([
+        CLAUDE_MODELS.sonnet,
+        CLAUDE_MODELS.haiku,
+      ]);
+      expect(client.getModelChain('japanese-news-summary')).toEqual([DEFAULT_MODEL]);
+    });
+  });
+
+  describe('構造化出力(tool use)', () => {
+    /**
+     * 最後に作成されたAnthropicクライアントのmessages.createを取得
+     */
+    const getCreateMock = (): jest.Mock => {
+      const results = (Anthropic as unknown as jest.Mock).mock.results;
+      return results[results.length - 1].value.messages.create;
+    };
+
+    const tool: LlmToolDefinition = {
+      name: 'record_term',
+      description: '用語を記録する',
+      inputSchema: { type: 'object', properties: { name: { type: 'string' } } },
+    };
+
+    it('ツールを指定した場合はツールの呼び出しを強制し、入力をtoolInputとして返す', async () => {
+      const client = new ClaudeClient('test-api-key');
+      getCreateMock().mockResolvedValueOnce({
+        content: [{ type: 'tool_use', id: 'toolu_1', name: 'record_term', input: { name: 'PER' } }],
+        model: DEFAULT_MODEL,
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 10, output_tokens: 20 },
+      });
+
+      const response = await client.sendMessage('Hello!', { tool });
+
+      expect(getCreateMock()).toHaveBeenCalledWith(
+        expect.objectContaining({
+          tools: [
+            { name: 'record_term', description: '用語を記録する', input_schema: tool.inputSchema },
+          ],
+          tool_choice: { type: 'tool', name: 'record_term' },
+        })
+      );
+      expect(response.toolInput).toEqual({ name: 'PER' });
+      expect(response.content).toBe('');
+      expect(response.stopReason).toBe('tool_use');
+    });
+
+    it('ツールを指定しない場合はtoolsを送信せず、toolInputを含めない', async () => {
+      const client = new ClaudeClient('test-api-key');
+
+      const response = await client.sendMessage('Hello!');
+
+      expect(getCreateMock().mock.calls[0][0]).not.toHaveProperty('tools');
+      expect(response).not.toHaveProperty('toolInput');
+    });
+  });
+
+  describe('レスポンスキャッシュ', () => {
+    const mockRecord = jest.fn();
+    const mockCheck = jest.fn();
+    const usageLedger = { record: mockRecord } as unknown as SpendLedger;
+    const budgetGuard = { check: mockCheck } as unknown as BudgetGuard;
+
+    /**
+     * 最後に作成されたAnthropicクライアントのmessages.createを取得
+     */
+    const getCreateMock = (): jest.Mock => {
+      const results = (Anthropic as unknown as jest.Mock).mock.results;
+      return results[results.length - 1].value.messages.create;
+    };
+
+    const createClient = (): ClaudeClient =>
+      new ClaudeClient('test-api-key', {
+        usageLedger,
+        budgetGuard,
+        responseCache: new ResponseCache({ store: new InMemoryResponseCacheStore() }),
+      });
+
+    beforeEach(() => {
+      mockRecord.mockResolvedValue(undefined);
+      mockCheck.mockImplementation(async ({ model }: { model: string }) => ({
+        action: 'allow',
+        model,
+      }));
+    });
+
+    it('同じリクエストはAPIを呼び出さずにキャッシュしたレスポンスを返す', async () => {
+      const client = createClient();
+
+      const first = await client.sendMessage('Hello!', { operation: 'term-generation' });
+      await client.confirmResponse(first);
+      const second = await client.sendMessage('Hello!', { operation: 'term-generation' });
+
+      expect(second).toEqual(first);
+      expect(getCreateMock()).toHaveBeenCalledTimes(1);
+      // キャッシュヒットは課金されないため、利用料の記録・予算チェックは1回のみ
+      expect(mockRecord).toHaveBeenCalledTimes(1);
+      expect(mockCheck).toHaveBeenCalledTimes(1);
+    });
+
+    it('キャッシュヒットを課金対象の呼び出しと区別して記録する', async () => {
+      const client = createClient();
+
+      await client.confirmResponse(
+        await client.sendMessage('Hello!', { operation: 'term-generation' })
+      );
+      await client.sendMessage('Hello!', { operation: 'term-generation' });
+
+      const summary = getTokenUsageTracker().getSummary();
+      expect(summary.requestCount).toBe(2);
+      expect(summary.billedRequestCount).toBe(1);
+      expect(summary.cacheHitCount).toBe(1);
+      expect(summary.totalTokens).toBe(30);
+    });
+
+    it('プロンプト・temperatureが異なる場合はAPIを呼び出す', async () => {
+      const client = createClient();
+
+      await client.confirmResponse(await client.sendMessage('Hello!'));
+      await client.sendMessage('Hello again!');
+      await client.sendMessage('Hello!', { temperature: 0.2 });
+
+      expect(getCreateMock()).toHaveBeenCalledTimes(3);
+    });
+
+    it('bypassCacheを指定した場合はAPIを呼び出し、レスポンスを保存する', async () => {
+      const client = createClient();
+
+      await client.confirmResponse(await client.sendMessage('Hello!'));
+      getCreateMock().mockResolvedValueOnce({
+        content: [{ type: 'text', text: 'Fresh response' }],
+        model: DEFAULT_MODEL,
+        stop_reason: 'end_turn',
+        usage: { input_tokens: 10, output_tokens: 20 },
+      });
+      const bypassed = await client.sendMessage('Hello!', { bypassCache: true });
+      await client.confirmResponse(bypassed);
+      const cached = await client.sendMessage('Hello!');
+
+      expect(getCreateMock()).toHaveBeenCalledTimes(2);
+      expect(bypassed.content).toBe('Fresh response');
+      expect(cached.content).toBe('Fresh response');
+    });
+
+    it('confirmResponseで確定していないレスポンスはキャッシュしない', async () => {
+      const client = createClient();
+
+      await client.sendMessage('Hello!', { operation: 'term-generation' });
+      await client.sendMessage('Hello!', { operation: 'term-generation' });
+
+      expect(getCreateMock()).toHaveBeenCalledTimes(2);
+      expect(getTokenUsageTracker().getSummary().cacheHitCount).toBe(0);
+    });
+
+    it('キャッシュから返したレスポンスを確定しても保存し直さない', async () => {
+      const store = new InMemoryResponseCacheStore();
+      const setSpy = jest.spyOn(store, 'set');
+      const client = new ClaudeClient('test-api-key', {
+        responseCache: new ResponseCache({ store }),
+      });
+
+      await client.confirmResponse(await client.sendMessage('Hello!'));
+      await client.confirmResponse(await client.sendMessage('Hello!'));
+
+      expect(setSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('API呼び出しに失敗したリクエストはキャッシュしない', async () => {
+      const client = createClient();
+      getCreateMock().mockRejectedValueOnce(new Error('Bad request'));
+
+      await expect(client.sendMessage('Hello!', { model: DEFAULT_MODEL })).rejects.toThrow(
+        AIServiceError
+      );
+      const response = await client.sendMessage('Hello!', { model: DEFAULT_MODEL });
+
+      expect(response.content).toBe('Test response');
+      expect(getCreateMock()).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('ストリーミング', () => {
+    /**
+     * 最後に作成されたAnthropicクライアントのmessages.createを取得
+     */
+    const getCreateMock = (): jest.Mock => {
+      const results = (Anthropic as unknown as jest.Mock).mock.results;
+      return results[results.length - 1].value.messages.create;
+    };
+
+    /**
+     * 指定したテキストの差分を返し、stallの場合は最後のイベントを返さないストリーミング
+     */
+    async function* createStream(deltas: string[], stall = false) {
+      yield {
+        type: 'message_start',
+        message: {
+          content: [],
+          model: CLAUDE_MODELS.haiku,
+          stop_reason: null,
+          usage: { input_tokens: 500, output_tokens: 1 },
+        },
+      };
+      yield { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } };
+      for (const text of deltas) {
+        yield { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text } };
+      }
+      if (stall) {
+        await new Promise(() => undefined);
+      }
+      yield { type: 'content_block_stop', index: 0 };
+      yield {
+        type: 'message_delta',
+        delta: { stop_reason: 'end_turn', stop_sequence: null },
+        usage: { output_tokens: 1200 },
+      };
+      yield { type: 'message_stop' };
+    }
+
+    it('streamを指定した場合はストリーミングで送信し、差分を組み立てたレスポンスを返す', async () => {
+      const client = new ClaudeClient('test-api-key');
+      getCreateMock().mockResolvedValueOnce(createStream(['要約', 'の本文。']));
+
+      const response = await client.sendMessage('Hello!', {
+        operation: 'japanese-news-summary',
+        stream: { idleTimeoutMs: 1000 },
+      });
+
+      expect(getCreateMock()).toHaveBeenCalledWith(
+        expect.objectContaining({ model: CLAUDE_MODELS.haiku, stream: true }),
+        { signal: expect.any(AbortSignal) }
+      );
+      expect(response).toEqual({
+        content: '要約の本文。',
+        usage: { inputTokens: 500, outputTokens: 1200 },
+        model: CLAUDE_MODELS.haiku,
+        stopReason: 'end_turn',
+      });
+      expect(getTokenUsageTracker().getRecords()[0]).toMatchObject({
+        operation: 'japanese-news-summary',
+        outputTokens: 1200,
+      });
+    });
+
+    it('無通信タイムアウトの場合は受信済みの出力を含むエラーをスローし、フォールバックしない', async () => {
+      const client = new ClaudeClient('test-api-key');
+      getCreateMock().mockResolvedValueOnce(createStream(['途中まで'], true));
+
+      const error = await client
+        .sendMessage('Hello!', {
+          operation: 'japanese-news-summary',
+          stream: { idleTimeoutMs: 50 },
+        })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(AIServiceStreamTimeoutError);
+      expect(error).toMatchObject({ reason: 'idle', partialContent: '途中まで' });
+      expect(getCreateMock()).toHaveBeenCalledTimes(1);
+      expect(getTokenUsageTracker().getRecords()).toHaveLength(0);
+    });
+  });
 });
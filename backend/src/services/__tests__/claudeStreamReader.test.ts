@@ -0,0 +1,217 @@
+/**
+ * Claude APIのストリーミングの読み取りのテスト
+ *
+ * Requirements:
+ * - 1.8 (5分以内にバッチ完了)
+ * - ストリーミングによる長い要約の生成
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { readMessageStream } from '../claudeStreamReader';
+import { AIServiceStreamTimeoutError, isTimeoutError } from '../aiServiceErrorHandler';
+
+type StreamEvent = Anthropic.Messages.RawMessageStreamEvent;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const messageStart: StreamEvent = {
+  type: 'message_start',
+  message: {
+    id: 'msg_stream_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-5',
+    content: [],
+    stop_reason: null,
+    stop_sequence: null,
+    usage: {
+      input_tokens: 500,
+      output_tokens: 1,
+      cache_creation: null,
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+      server_tool_use: null,
+      service_tier: 'standard',
+    },
+  },
+};
+
+const textBlockStart: StreamEvent = {
+  type: 'content_block_start',
+  index: 0,
+  content_block: { type: 'text', text: '', citations: null },
+};
+
+const textDelta = (text: string): StreamEvent => ({
+  type: 'content_block_delta',
+  index: 0,
+  delta: { type: 'text_delta', text },
+});
+
+const messageEnd = (outputTokens: number): StreamEvent[] => [
+  { type: 'content_block_stop', index: 0 },
+  {
+    type: 'message_delta',
+    delta: { stop_reason: 'end_turn', stop_sequence: null },
+    usage: {
+      input_tokens: null,
+      output_tokens: outputTokens,
+      cache_creation_input_tokens: null,
+      cache_read_input_tokens: null,
+      server_tool_use: null,
+    },
+  },
+  { type: 'message_stop' },
+];
+
+/**
+ * イベントを指定した間隔で返すストリーミングを作成
+ *
+ * stallAfterを指定した場合、その数のイベントを返した後は応答しない
+ */
+function createStream(
+  events: StreamEvent[],
+  options: { intervalMs?: number; stallAfter?: number } = {}
+): AsyncIterable<StreamEvent> {
+  return {
+    async *[Symbol.asyncIterator]() {
+      for (let i = 0; i < events.length; i++) {
+        if (i === options.stallAfter) {
+          await new Promise(() => undefined);
+        }
+        if (options.intervalMs) {
+          await sleep(options.intervalMs);
+        }
+        yield events[i];
+      }
+    },
+  };
+}
+
+describe('readMessageStream', () => {
+  const timeouts = { idleTimeoutMs: 100, totalTimeoutMs: 1000 };
+
+  it('テキストの差分を1つのメッセージに組み立てる', async () => {
+    const message = await readMessageStream(
+      async () =>
+        createStream([
+          messageStart,
+          textBlockStart,
+          textDelta('日経平均'),
+          textDelta('は上昇。'),
+          ...messageEnd(42),
+        ]),
+      timeouts
+    );
+
+    expect(message.content).toEqual([{ type: 'text', text: '日経平均は上昇。', citations: null }]);
+    expect(message.model).toBe('claude-sonnet-4-5');
+    expect(message.stop_reason).toBe('end_turn');
+    expect(message.usage.input_tokens).toBe(500);
+    expect(message.usage.output_tokens).toBe(42);
+  });
+
+  it('ツールの入力のJSONの差分をパースする', async () => {
+    const message = await readMessageStream(
+      async () =>
+        createStream([
+          messageStart,
+          {
+            type: 'content_block_start',
+            index: 0,
+            content_block: { type: 'tool_use', id: 'toolu_1', name: 'record_summary', input: {} },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: '{"summary": "要' },
+          },
+          {
+            type: 'content_block_delta',
+            index: 0,
+            delta: { type: 'input_json_delta', partial_json: '約"}' },
+          },
+          ...messageEnd(10),
+        ]),
+      timeouts
+    );
+
+    expect(message.content).toEqual([
+      { type: 'tool_use', id: 'toolu_1', name: 'record_summary', input: { summary: '要約' } },
+    ]);
+  });
+
+  it('イベントが届いている間は無通信タイムアウトを超える時間がかかっても中断しない', async () => {
+    const deltas = Array.from({ length: 6 }, () => textDelta('あ'));
+
+    const message = await readMessageStream(
+      async () =>
+        createStream([messageStart, textBlockStart, ...deltas, ...messageEnd(6)], {
+          intervalMs: 20,
+        }),
+      timeouts
+    );
+
+    expect(message.content).toEqual([{ type: 'text', text: 'ああああああ', citations: null }]);
+  });
+
+  it('イベントが届かなくなった場合は受信済みの出力を含めて中断する', async () => {
+    let signal: AbortSignal | undefined;
+
+    const promise = readMessageStream(
+      async (abortSignal) => {
+        signal = abortSignal;
+        return createStream(
+          [messageStart, textBlockStart, textDelta('途中まで'), ...messageEnd(4)],
+          { stallAfter: 3 }
+        );
+      },
+      timeouts,
+      'english-news-summary'
+    );
+
+    const error = await promise.catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(AIServiceStreamTimeoutError);
+    expect(error).toMatchObject({
+      reason: 'idle',
+      timeoutMs: 100,
+      partialContent: '途中まで',
+      operation: 'english-news-summary',
+    });
+    expect((error as Error).message).toBe(
+      'Stream timed out: no events for 100ms (4 characters received)'
+    );
+    expect(isTimeoutError(error)).toBe(true);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  it('ストリーミングの開始を待つ間にも無通信タイムアウトを適用する', async () => {
+    const error = await readMessageStream(() => new Promise(() => undefined), timeouts).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toMatchObject({ reason: 'idle', partialContent: '' });
+  });
+
+  it('イベントが届いていても全体の上限を超えた場合は中断する', async () => {
+    const deltas = Array.from({ length: 100 }, () => textDelta('あ'));
+
+    const error = await readMessageStream(
+      async () =>
+        createStream([messageStart, textBlockStart, ...deltas, ...messageEnd(100)], {
+          intervalMs: 10,
+        }),
+      { idleTimeoutMs: 100, totalTimeoutMs: 150 }
+    ).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(AIServiceStreamTimeoutError);
+    expect(error).toMatchObject({ reason: 'total', timeoutMs: 150 });
+    expect((error as AIServiceStreamTimeoutError).partialContent).toMatch(/^あ+$/);
+  });
+
+  it('メッセージを受信せずに終了した場合はエラーをスローする', async () => {
+    await expect(readMessageStream(async () => createStream([]), timeouts)).rejects.toThrow(
+      'Stream ended without a message'
+    );
+  });
+});
@@ -55,7 +55,9 @@ describe('TokenUsageTracker', () => {
         totalInputTokens: 1000,
         totalOutputTokens: 2000,
         totalTokens: 3000,
-        requestCount: 10,
+        requestCount: 12,
+        billedRequestCount: 10,
+        cacheHitCount: 2,
         recordsByModel: {
           'claude-haiku-4-5': {
             inputTokens: 500,
@@ -205,6 +207,30 @@ describe('TokenUsageTracker', () => {
       expect(summary.totalTokens).toBe(0);
       expect(summary.requestCount).toBe(0);
     });
+
+    it('キャッシュヒットは件数のみ集計し、トークン数には含めない', () => {
+      tracker.recordUsage({
+        inputTokens: 100,
+        outputTokens: 200,
+        model: 'claude-haiku-4-5',
+        operation: 'term-generation',
+      });
+      tracker.recordUsage({
+        inputTokens: 100,
+        outputTokens: 200,
+        model: 'claude-haiku-4-5',
+        operation: 'term-generation',
+        cacheHit: true,
+      });
+
+      const summary = tracker.getSummary();
+
+      expect(summary.requestCount).toBe(2);
+      expect(summary.billedRequestCount).toBe(1);
+      expect(summary.cacheHitCount).toBe(1);
+      expect(summary.totalTokens).toBe(300);
+      expect(summary.recordsByModel['claude-haiku-4-5'].count).toBe(1);
+    });
   });
 
   describe('logSummary', () => {
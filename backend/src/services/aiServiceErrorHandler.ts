@@ -56,6 +56,46 @@ export class AIServiceTimeoutError extends AIServiceError {
   }
 }
 
+/**
+ * ストリーミングのタイムアウトの種類
+ *
+ * - idle: 無通信タイムアウト(最後のイベントから一定時間イベントを受信しなかった)
+ * - total: 全体の上限(ストリーミングの開始から一定時間で完了しなかった)
+ */
+export type StreamTimeoutReason = 'idle' | 'total';
+
+/**
+ * AIサービスのストリーミングのタイムアウトエラー
+ *
+ * ストリーミングを中断した場合にスローされるエラー。
+ * 中断するまでに受信した出力(partialContent)を保持します。
+ */
+export class AIServiceStreamTimeoutError extends AIServiceTimeoutError {
+  /**
+   * タイムアウトの種類
+   */
+  public readonly reason: StreamTimeoutReason;
+
+  /**
+   * 中断するまでに受信したテキスト
+   */
+  public readonly partialContent: string;
+
+  constructor(
+    message: string,
+    timeoutMs: number,
+    reason: StreamTimeoutReason,
+    partialContent: string,
+    operation?: string,
+    originalError?: Error
+  ) {
+    super(message, timeoutMs, operation, originalError);
+    this.name = 'AIServiceStreamTimeoutError';
+    this.reason = reason;
+    this.partialContent = partialContent;
+  }
+}
+
 /**
  * AIサービス利用不可エラー
  *
@@ -0,0 +1,81 @@
+/**
+ * バックフィルリクエスト解析のテスト
+ *
+ * Requirements:
+ * - 任意の過去日付のバックフィル・再生成
+ */
+
+import { parseBackfillRequest, enumerateDates, MAX_BACKFILL_RANGE_DAYS } from '../backfillRequest';
+
+const TODAY = '2026-10-19';
+
+describe('parseBackfillRequest', () => {
+  it('パラメータがない場合は通常のバッチ実行とすること', () => {
+    expect(parseBackfillRequest({}, TODAY)).toEqual({ request: null });
+  });
+
+  it('dateを指定した場合はその1日をすべて再生成すること', () => {
+    expect(parseBackfillRequest({ date: '2026-10-01' }, TODAY)).toEqual({
+      request: { from: '2026-10-01', to: '2026-10-01', mode: 'all', dryRun: false },
+    });
+  });
+
+  it('dryRunのみ指定した場合は今日の日付を対象とすること', () => {
+    expect(parseBackfillRequest({ dryRun: 'true' }, TODAY)).toEqual({
+      request: { from: TODAY, to: TODAY, mode: 'all', dryRun: true },
+    });
+  });
+
+  it('範囲指定の場合は未保存の日付のみを対象とし、toのデフォルトは今日とすること', () => {
+    expect(parseBackfillRequest({ from: '2026-10-10' }, TODAY)).toEqual({
+      request: { from: '2026-10-10', to: TODAY, mode: 'missing', dryRun: false },
+    });
+    expect(
+      parseBackfillRequest({ from: '2026-10-01', to: '2026-10-05', mode: 'all' }, TODAY)
+    ).toEqual({
+      request: { from: '2026-10-01', to: '2026-10-05', mode: 'all', dryRun: false },
+    });
+  });
+
+  it.each([
+    [{ date: '2026/10/01' }, 'dateパラメータはYYYY-MM-DD形式で指定してください'],
+    [{ from: '2026-02-30' }, 'fromパラメータはYYYY-MM-DD形式で指定してください'],
+    [{ date: '2026-10-01', dryRun: 'yes' }, 'dryRunパラメータにはtrue / falseを指定してください'],
+    [{ from: '2026-10-01', mode: 'some' }, 'modeパラメータにはmissing / allを指定してください'],
+    [
+      { date: '2026-10-01', from: '2026-10-01' },
+      'dateパラメータとfrom / toパラメータは同時に指定できません',
+    ],
+    [{ to: '2026-10-01' }, 'toパラメータを指定する場合はfromパラメータも指定してください'],
+    [{ date: '2026-10-20' }, '未来の日付は指定できません'],
+    [{ from: '2026-10-05', to: '2026-10-01' }, 'fromパラメータはto以前の日付を指定してください'],
+    [
+      { from: '2026-09-01', to: '2026-10-02' },
+      `日付の範囲は${MAX_BACKFILL_RANGE_DAYS}日以内で指定してください`,
+    ],
+  ])('不正なパラメータ %p はエラーとすること', (query, error) => {
+    expect(parseBackfillRequest(query, TODAY)).toEqual({ error });
+  });
+
+  it('最大日数ちょうどの範囲は指定できること', () => {
+    expect(parseBackfillRequest({ from: '2026-09-01', to: '2026-10-01' }, TODAY)).toHaveProperty(
+      'request.to',
+      '2026-10-01'
+    );
+  });
+});
+
+describe('enumerateDates', () => {
+  it('範囲内の日付を月をまたいで古い順に列挙すること', () => {
+    expect(enumerateDates('2026-09-29', '2026-10-02')).toEqual([
+      '2026-09-29',
+      '2026-09-30',
+      '2026-10-01',
+      '2026-10-02',
+    ]);
+  });
+
+  it('開始日と終了日が同じ場合は1日のみ返すこと', () => {
+    expect(enumerateDates('2026-10-01', '2026-10-01')).toEqual(['2026-10-01']);
+  });
+});
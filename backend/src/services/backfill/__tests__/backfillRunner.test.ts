@@ -0,0 +1,273 @@
+/**
+ * バックフィルの計画・実行のテスト
+ *
+ * Requirements:
+ * - 任意の過去日付のバックフィル・再生成
+ */
+
+import { planBackfill, BackfillPlanError } from '../backfillPlanner';
+import { BackfillRunner, BackfillReport, getBackfillStatus } from '../backfillRunner';
+import { BackfillRequest } from '../backfillRequest';
+
+/**
+ * モックのクエリビルダーの型
+ */
+interface MockQueryBuilder {
+  select: jest.Mock;
+  gte: jest.Mock;
+  lte: jest.Mock;
+}
+
+let queryResult: {
+  data: Record<string, string>[] | null;
+  error: { message: string } | null;
+};
+
+/**
+ * 世界・日本の要約が揃ったnewsテーブルの行
+ */
+const newsRow = (date: string, overrides: Record<string, string> = {}) => ({
+  date,
+  world_news_summary: '世界の要約',
+  japan_news_summary: '日本の要約',
+  ...overrides,
+});
+
+const mockBuilder: MockQueryBuilder = {
+  select: jest.fn(() => mockBuilder),
+  gte: jest.fn(() => mockBuilder),
+  lte: jest.fn(() => Promise.resolve(queryResult)),
+};
+
+const mockSupabaseClient = {
+  from: jest.fn(() => mockBuilder),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+/**
+ * テスト用のリクエストを作成する
+ */
+const createRequest = (overrides: Partial<BackfillRequest> = {}): BackfillRequest => ({
+  from: '2026-10-01',
+  to: '2026-10-04',
+  mode: 'missing',
+  dryRun: false,
+  ...overrides,
+});
+
+/**
+ * テスト用のバッチ結果
+ */
+const succeeded = { success: true, partialSuccess: false };
+const partial = { success: false, partialSuccess: true };
+const failed = { success: false, partialSuccess: false };
+
+describe('planBackfill', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryResult = { data: [], error: null };
+  });
+
+  it('ニュースはnewsテーブルに行がない日付のみを対象とすること', async () => {
+    queryResult = { data: [newsRow('2026-10-02'), newsRow('2026-10-03')], error: null };
+
+    const plan = await planBackfill('news', createRequest());
+
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('news');
+    expect(mockBuilder.select).toHaveBeenCalledWith(
+      'date, world_news_summary, japan_news_summary'
+    );
+    expect(mockBuilder.gte).toHaveBeenCalledWith('date', '2026-10-01');
+    expect(mockBuilder.lte).toHaveBeenCalledWith('date', '2026-10-04');
+    expect(plan.dates).toEqual(['2026-10-01', '2026-10-04']);
+    expect(plan.existingDates).toEqual(['2026-10-02', '2026-10-03']);
+  });
+
+  it('ニュースは世界・日本のいずれかの要約が空の日付を未保存とすること', async () => {
+    queryResult = {
+      data: [
+        newsRow('2026-10-01'),
+        newsRow('2026-10-02', { world_news_summary: '' }),
+        newsRow('2026-10-03', { japan_news_summary: '  ' }),
+      ],
+      error: null,
+    };
+
+    const plan = await planBackfill('news', createRequest({ to: '2026-10-03' }));
+
+    expect(plan.dates).toEqual(['2026-10-02', '2026-10-03']);
+    expect(plan.existingDates).toEqual(['2026-10-01']);
+  });
+
+  it('用語は3つ揃っていない日付を未保存とすること', async () => {
+    queryResult = {
+      data: [...Array(3).fill({ date: '2026-10-01' }), ...Array(2).fill({ date: '2026-10-02' })],
+      error: null,
+    };
+
+    const plan = await planBackfill('terms', createRequest({ to: '2026-10-02' }));
+
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('terms');
+    expect(plan.dates).toEqual(['2026-10-02']);
+    expect(plan.existingDates).toEqual(['2026-10-01']);
+  });
+
+  it('mode=allの場合は保存済みの日付も対象とすること', async () => {
+    queryResult = { data: [newsRow('2026-10-02')], error: null };
+
+    const plan = await planBackfill('news', createRequest({ to: '2026-10-02', mode: 'all' }));
+
+    expect(plan.dates).toEqual(['2026-10-01', '2026-10-02']);
+    expect(plan.existingDates).toEqual(['2026-10-02']);
+  });
+
+  it('取得に失敗した場合はBackfillPlanErrorをスローすること', async () => {
+    queryResult = { data: null, error: { message: 'connection refused' } };
+
+    await expect(planBackfill('news', createRequest())).rejects.toThrow(BackfillPlanError);
+  });
+});
+
+describe('BackfillRunner', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryResult = { data: [], error: null };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('計画した日付を古い順に実行すること', async () => {
+    const executeDate = jest.fn().mockResolvedValue(succeeded);
+
+    const report = await new BackfillRunner().run('news', createRequest(), executeDate);
+
+    expect(executeDate.mock.calls.map(([date]) => date)).toEqual([
+      '2026-10-01',
+      '2026-10-02',
+      '2026-10-03',
+      '2026-10-04',
+    ]);
+    expect(report.results).toHaveLength(4);
+    expect(report.pending).toEqual([]);
+    expect(report.dryRun).toBe(false);
+  });
+
+  it('dryRunの場合はバッチ処理を実行しないこと', async () => {
+    const executeDate = jest.fn();
+
+    const report = await new BackfillRunner().run(
+      'terms',
+      createRequest({ dryRun: true }),
+      executeDate
+    );
+
+    expect(executeDate).not.toHaveBeenCalled();
+    expect(report.dryRun).toBe(true);
+    expect(report.plan.dates).toHaveLength(4);
+    expect(report.results).toEqual([]);
+  });
+
+  it('実行時間の目安を超えた後の日付は未処理として返すこと', async () => {
+    let now = 0;
+    const executeDate = jest.fn(async () => {
+      now += 70000;
+      return succeeded;
+    });
+    const runner = new BackfillRunner({ timeBudgetMs: 120000, now: () => now });
+
+    const report = await runner.run('news', createRequest(), executeDate);
+
+    expect(report.results.map(({ date }) => date)).toEqual(['2026-10-01', '2026-10-02']);
+    expect(report.pending).toEqual(['2026-10-03', '2026-10-04']);
+  });
+
+  it('最初の日付は実行時間の目安に関わらず実行すること', async () => {
+    const executeDate = jest.fn().mockResolvedValue(succeeded);
+    const runner = new BackfillRunner({ timeBudgetMs: 0 });
+
+    const report = await runner.run('news', createRequest(), executeDate);
+
+    expect(executeDate).toHaveBeenCalledTimes(1);
+    expect(report.pending).toHaveLength(3);
+  });
+
+  it('各日付に実行時間の上限までの残り時間をタイムアウトとして渡すこと', async () => {
+    let now = 0;
+    const executeDate = jest.fn(async () => {
+      now += 50000;
+      return succeeded;
+    });
+    const runner = new BackfillRunner({
+      timeBudgetMs: 120000,
+      maxDurationMs: 300000,
+      safetyMarginMs: 20000,
+      now: () => now,
+    });
+
+    await runner.run('news', createRequest(), executeDate);
+
+    expect(executeDate.mock.calls).toEqual([
+      ['2026-10-01', 280000],
+      ['2026-10-02', 230000],
+      ['2026-10-03', 180000],
+    ]);
+  });
+
+  it('実行時間の上限までの残り時間がない場合は未処理として返すこと', async () => {
+    let now = 0;
+    const executeDate = jest.fn(async () => {
+      now += 290000;
+      return succeeded;
+    });
+    const runner = new BackfillRunner({ timeBudgetMs: 300000, now: () => now });
+
+    const report = await runner.run('news', createRequest(), executeDate);
+
+    expect(executeDate).toHaveBeenCalledTimes(1);
+    expect(report.pending).toEqual(['2026-10-02', '2026-10-03', '2026-10-04']);
+  });
+});
+
+describe('getBackfillStatus', () => {
+  /**
+   * テスト用の実行結果を作成する
+   */
+  const createReport = (
+    results: { success: boolean; partialSuccess: boolean }[],
+    pending: string[] = []
+  ): BackfillReport<{ success: boolean; partialSuccess: boolean }> => ({
+    plan: {
+      job: 'news',
+      from: '2026-10-01',
+      to: '2026-10-04',
+      mode: 'missing',
+      dates: [],
+      existingDates: [],
+    },
+    dryRun: false,
+    results: results.map((result, index) => ({ date: `2026-10-0${index + 1}`, result })),
+    pending,
+  });
+
+  it('すべての日付が成功した場合はsuccessを返すこと', () => {
+    expect(getBackfillStatus(createReport([succeeded, succeeded]))).toBe('success');
+    expect(getBackfillStatus(createReport([]))).toBe('success');
+  });
+
+  it('一部の失敗・部分成功・未処理がある場合はpartialを返すこと', () => {
+    expect(getBackfillStatus(createReport([succeeded, failed]))).toBe('partial');
+    expect(getBackfillStatus(createReport([partial]))).toBe('partial');
+    expect(getBackfillStatus(createReport([succeeded], ['2026-10-02']))).toBe('partial');
+  });
+
+  it('実行したすべての日付が失敗した場合はfailureを返すこと', () => {
+    expect(getBackfillStatus(createReport([failed, failed]))).toBe('failure');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * バックフィルの計画
+ *
+ * 指定した日付の範囲について、保存済みのデータを確認し、
+ * 再生成する日付を決定します。
+ *
+ * - news: newsテーブルにその日付の行があり、世界・日本の要約がいずれも空でなければ保存済み
+ * - terms: termsテーブルにその日付の用語が3つ揃っていれば保存済み
+ *
+ * Requirements:
+ * - 任意の過去日付のバックフィル・再生成
+ */
+
+import { getSupabase } from '../../config/supabase';
+import { BatchJob } from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { EXPECTED_TERM_COUNT } from '../terms/batch/termsBatchPartialSuccessHandler';
+import { BackfillRequest, BackfillMode, enumerateDates } from './backfillRequest';
+
+/**
+ * バックフィル計画の作成エラー
+ */
+export class BackfillPlanError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'BackfillPlanError';
+  }
+}
+
+/**
+ * バックフィルの計画
+ */
+export interface BackfillPlan {
+  /** バッチの種類 */
+  job: BatchJob;
+  /** 対象範囲の開始(YYYY-MM-DD形式) */
+  from: string;
+  /** 対象範囲の終了(YYYY-MM-DD形式) */
+  to: string;
+  /** バックフィルのモード */
+  mode: BackfillMode;
+  /** 再生成する日付(古い順) */
+  dates: string[];
+  /** 対象範囲内で保存済みの日付(古い順) */
+  existingDates: string[];
+}
+
+/**
+ * バックフィルの計画を作成
+ *
+ * @param job - バッチの種類
+ * @param request - バックフィルのリクエスト
+ * @returns 再生成する日付を含む計画
+ * @throws {BackfillPlanError} 保存済みの日付の取得に失敗した場合
+ */
+export async function planBackfill(job: BatchJob, request: BackfillRequest): Promise<BackfillPlan> {
+  const existing = await fetchExistingDates(job, request.from, request.to);
+  const dates = enumerateDates(request.from, request.to);
+
+  return {
+    job,
+    from: request.from,
+    to: request.to,
+    mode: request.mode,
+    dates: request.mode === 'all' ? dates : dates.filter((date) => !existing.has(date)),
+    existingDates: dates.filter((date) => existing.has(date)),
+  };
+}
+
+/**
+ * 範囲内で保存済みの日付を取得
+ *
+ * @param job - バッチの種類
+ * @param from - 開始日(YYYY-MM-DD形式)
+ * @param to - 終了日(YYYY-MM-DD形式)
+ * @returns 保存済みの日付
+ */
+async function fetchExistingDates(job: BatchJob, from: string, to: string): Promise<Set<string>> {
+  const columns = job === 'news' ? 'date, world_news_summary, japan_news_summary' : 'date';
+  const { data, error } = await getSupabase()
+    .from(job)
+    .select(columns)
+    .gte('date', from)
+    .lte('date', to);
+
+  if (error) {
+    throw new BackfillPlanError(
+      `Failed to fetch existing ${job} dates: ${error.message}`,
+      new Error(error.message)
+    );
+  }
+
+  const rows = (data ?? []) as unknown as {
+    date: string;
+    world_news_summary?: string;
+    japan_news_summary?: string;
+  }[];
+
+  // ニュースは要約に失敗した地域が空で保存されるため、世界・日本の要約が揃っている日付のみ保存済みとする
+  if (job === 'news') {
+    return new Set(
+      rows
+        .filter((row) => row.world_news_summary?.trim() && row.japan_news_summary?.trim())
+        .map((row) => row.date)
+    );
+  }
+
+  // 用語は1日3つ揃っている日付のみ保存済みとする
+  const counts = new Map<string, number>();
+  for (const row of rows) {
+    counts.set(row.date, (counts.get(row.date) ?? 0) + 1);
+  }
+  return new Set(
+    [...counts].filter(([, count]) => count >= EXPECTED_TERM_COUNT).map(([date]) => date)
+  );
+}
@@ -0,0 +1,144 @@
+/**
+ * バックフィル(過去日付の再生成)リクエストの解析
+ *
+ * バッチAPIのクエリパラメータ(date / from / to / mode / dryRun)を検証し、
+ * 再生成する日付の範囲に変換します。
+ *
+ * Requirements:
+ * - 任意の過去日付のバックフィル・再生成
+ */
+
+import { isValidDateString } from '../../models/supabase.types';
+import { formatDateToJST } from '../../utils/dateUtils';
+
+/**
+ * 範囲指定で再生成できる最大日数
+ */
+export const MAX_BACKFILL_RANGE_DAYS = 31;
+
+/**
+ * 1日のミリ秒数
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * バックフィルのモード
+ *
+ * - missing: 保存済みでない(不完全な)日付のみ再生成
+ * - all: 範囲内のすべての日付を再生成
+ */
+export type BackfillMode = 'missing' | 'all';
+
+/**
+ * 指定可能なバックフィルのモード
+ */
+const BACKFILL_MODES: readonly BackfillMode[] = ['missing', 'all'];
+
+/**
+ * バックフィルのリクエスト
+ */
+export interface BackfillRequest {
+  /** 再生成する日付の開始(YYYY-MM-DD形式、この日を含む) */
+  from: string;
+  /** 再生成する日付の終了(YYYY-MM-DD形式、この日を含む) */
+  to: string;
+  /** バックフィルのモード */
+  mode: BackfillMode;
+  /** trueの場合は再生成する日付の確認のみ行い、生成・保存は行わない */
+  dryRun: boolean;
+}
+
+/**
+ * クエリパラメータの解析結果
+ *
+ * request が null の場合は通常の(今日の日付の)バッチ実行
+ */
+export type BackfillRequestParseResult = { request: BackfillRequest | null } | { error: string };
+
+/**
+ * クエリパラメータをバックフィルのリクエストに変換
+ *
+ * - date: 指定した1日を再生成(modeのデフォルトはall)
+ * - from / to: 範囲内の日付を再生成(modeのデフォルトはmissing、toのデフォルトは今日)
+ * - dryRun=true: 再生成する日付の確認のみ(dateの指定がなければ今日の日付)
+ *
+ * @param query - クエリパラメータ
+ * @param today - 今日の日付(YYYY-MM-DD形式、省略時はJSTの今日)
+ * @returns バックフィルのリクエスト、または不正なパラメータのエラーメッセージ
+ */
+export function parseBackfillRequest(
+  query: Record<string, string | string[] | undefined>,
+  today: string = formatDateToJST()
+): BackfillRequestParseResult {
+  const { date, from, to, mode, dryRun } = query;
+
+  if ([date, from, to, mode, dryRun].every((value) => value === undefined)) {
+    return { request: null };
+  }
+
+  for (const [key, value] of Object.entries({ date, from, to })) {
+    if (value !== undefined && !isValidDateString(value)) {
+      return { error: `${key}パラメータはYYYY-MM-DD形式で指定してください` };
+    }
+  }
+
+  if (dryRun !== undefined && dryRun !== 'true' && dryRun !== 'false') {
+    return { error: 'dryRunパラメータにはtrue / falseを指定してください' };
+  }
+
+  if (mode !== undefined && !BACKFILL_MODES.includes(mode as BackfillMode)) {
+    return { error: `modeパラメータには${BACKFILL_MODES.join(' / ')}を指定してください` };
+  }
+
+  if (date !== undefined && (from !== undefined || to !== undefined)) {
+    return { error: 'dateパラメータとfrom / toパラメータは同時に指定できません' };
+  }
+
+  if (date === undefined && from === undefined && to !== undefined) {
+    return { error: 'toパラメータを指定する場合はfromパラメータも指定してください' };
+  }
+
+  const isRange = from !== undefined;
+  const start = (isRange ? from : (date ?? today)) as string;
+  const end = (isRange ? (to ?? today) : start) as string;
+
+  if (end > today) {
+    return { error: '未来の日付は指定できません' };
+  }
+
+  if (start > end) {
+    return { error: 'fromパラメータはto以前の日付を指定してください' };
+  }
+
+  const days = (Date.parse(`${end}T00:00:00Z`) - Date.parse(`${start}T00:00:00Z`)) / DAY_MS + 1;
+  if (days > MAX_BACKFILL_RANGE_DAYS) {
+    return { error: `日付の範囲は${MAX_BACKFILL_RANGE_DAYS}日以内で指定してください` };
+  }
+
+  return {
+    request: {
+      from: start,
+      to: end,
+      mode: (mode as BackfillMode | undefined) ?? (isRange ? 'missing' : 'all'),
+      dryRun: dryRun === 'true',
+    },
+  };
+}
+
+/**
+ * 範囲内の日付を古い順に列挙
+ *
+ * @param from - 開始日(YYYY-MM-DD形式、この日を含む)
+ * @param to - 終了日(YYYY-MM-DD形式、この日を含む)
+ * @returns YYYY-MM-DD形式の日付配列
+ */
+export function enumerateDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  const end = Date.parse(`${to}T00:00:00Z`);
+
+  for (let time = Date.parse(`${from}T00:00:00Z`); time <= end; time += DAY_MS) {
+    dates.push(new Date(time).toISOString().split('T')[0]);
+  }
+
+  return dates;
+}
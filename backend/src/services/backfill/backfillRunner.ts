@@ -0,0 +1,198 @@
+/**
+ * バックフィルの実行
+ *
+ * 計画した日付ごとにバッチ処理を古い順に実行します。
+ * Vercel Functionsの実行時間制限(5分)を超えないよう、
+ * 実行時間の目安を超えた時点で新しい日付の処理を開始せず、残りを未処理として返します。
+ * 未処理の日付は、同じリクエストを再送すると(mode=missingの場合)続きから再生成されます。
+ * 各日付のバッチ処理には、実行時間の上限までの残り時間をタイムアウトとして渡します。
+ *
+ * Requirements:
+ * - 任意の過去日付のバックフィル・再生成
+ * - 1.8 (5分以内にバッチ完了)
+ */
+
+import { BatchJob } from '../../models/supabase.types';
+import { CRON_TIMEOUT_MS } from '../cron';
+import { BackfillRequest } from './backfillRequest';
+import { BackfillPlan, planBackfill } from './backfillPlanner';
+
+/**
+ * デフォルトの実行時間の目安(ミリ秒)
+ *
+ * 1日分のバッチ処理は数十秒〜2分程度のため、
+ * この時間を過ぎてから新しい日付を開始しないことで5分の制限内に収める
+ */
+export const DEFAULT_BACKFILL_TIME_BUDGET_MS = 120000;
+
+/**
+ * デフォルトの実行時間の上限から差し引く余裕(ミリ秒)
+ *
+ * 最後の日付の処理後に、レスポンスを返すまでの時間を残す
+ */
+export const DEFAULT_BACKFILL_SAFETY_MARGIN_MS = 20000;
+
+/**
+ * バックフィル実行の設定
+ */
+export interface BackfillRunnerConfig {
+  /**
+   * 新しい日付の処理を開始してよい経過時間の上限(ミリ秒)
+   * @default 120000
+   */
+  timeBudgetMs?: number;
+  /**
+   * 実行時間の上限(ミリ秒、Vercel FunctionsのmaxDuration)
+   * @default CRON_TIMEOUT_MS (5分)
+   */
+  maxDurationMs?: number;
+  /**
+   * 各日付のタイムアウトの計算で実行時間の上限から差し引く余裕(ミリ秒)
+   * @default 20000
+   */
+  safetyMarginMs?: number;
+  /**
+   * 現在時刻(ミリ秒)を返す関数(テスト用)
+   * @default Date.now
+   */
+  now?: () => number;
+}
+
+/**
+ * 日付ごとの実行結果
+ */
+export interface BackfillDateResult<TResult> {
+  /** 処理対象の日付(YYYY-MM-DD形式) */
+  date: string;
+  /** バッチ処理の結果 */
+  result: TResult;
+}
+
+/**
+ * バックフィルの実行結果
+ */
+export interface BackfillReport<TResult> {
+  /** バックフィルの計画 */
+  plan: BackfillPlan;
+  /** 計画の確認のみ行った場合true */
+  dryRun: boolean;
+  /** 実行した日付ごとの結果(古い順) */
+  results: BackfillDateResult<TResult>[];
+  /** 実行時間の目安を超えたため未処理の日付(古い順) */
+  pending: string[];
+}
+
+/**
+ * バックフィル全体の結果
+ *
+ * - success: すべての日付が成功した(dryRunを含む)
+ * - partial: 一部の日付が失敗・部分成功した、または未処理の日付が残っている
+ * - failure: 実行したすべての日付が失敗した
+ */
+export type BackfillStatus = 'success' | 'partial' | 'failure';
+
+/**
+ * バックフィル全体の結果を判定
+ *
+ * @param report - バックフィルの実行結果
+ * @returns バックフィル全体の結果
+ */
+export function getBackfillStatus(
+  report: BackfillReport<{ success: boolean; partialSuccess: boolean }>
+): BackfillStatus {
+  const { results, pending } = report;
+
+  if (
+    results.length > 0 &&
+    results.every(({ result }) => !result.success && !result.partialSuccess)
+  ) {
+    return 'failure';
+  }
+  if (pending.length > 0 || results.some(({ result }) => !result.success)) {
+    return 'partial';
+  }
+  return 'success';
+}
+
+/**
+ * バックフィル実行クラス
+ *
+ * @example
+ * ```typescript
+ * const runner = new BackfillRunner();
+ * const report = await runner.run('news', request, (date) =>
+ *   createNewsBatchService().execute({ date })
+ * );
+ * ```
+ */
+export class BackfillRunner {
+  private readonly timeBudgetMs: number;
+  private readonly maxDurationMs: number;
+  private readonly safetyMarginMs: number;
+  private readonly now: () => number;
+
+  /**
+   * BackfillRunnerを作成
+   *
+   * @param config - 設定
+   */
+  constructor(config: BackfillRunnerConfig = {}) {
+    this.timeBudgetMs = config.timeBudgetMs ?? DEFAULT_BACKFILL_TIME_BUDGET_MS;
+    this.maxDurationMs = config.maxDurationMs ?? CRON_TIMEOUT_MS;
+    this.safetyMarginMs = config.safetyMarginMs ?? DEFAULT_BACKFILL_SAFETY_MARGIN_MS;
+    this.now = config.now ?? Date.now;
+  }
+
+  /**
+   * バックフィルを計画して実行
+   *
+   * dryRunの場合は計画のみ返し、バッチ処理は実行しない。
+   * 最初の日付は実行時間の目安に関わらず必ず処理する。
+   * 各日付には実行時間の上限までの残り時間(余裕を差し引いたもの)をタイムアウトとして渡し、
+   * 残り時間がない場合は未処理とする。
+   *
+   * @param job - バッチの種類
+   * @param request - バックフィルのリクエスト
+   * @param executeDate - 1日分のバッチ処理を実行する関数(日付とタイムアウト(ミリ秒)を受け取る)
+   * @returns 計画と日付ごとの実行結果
+   * @throws {BackfillPlanError} 計画の作成に失敗した場合
+   */
+  async run<TResult>(
+    job: BatchJob,
+    request: BackfillRequest,
+    executeDate: (date: string, timeoutMs: number) => Promise<TResult>
+  ): Promise<BackfillReport<TResult>> {
+    const startTime = this.now();
+    const plan = await planBackfill(job, request);
+    const report: BackfillReport<TResult> = {
+      plan,
+      dryRun: request.dryRun,
+      results: [],
+      pending: [],
+    };
+
+    if (request.dryRun) {
+      return report;
+    }
+
+    for (const date of plan.dates) {
+      const elapsed = this.now() - startTime;
+      const timeoutMs = this.maxDurationMs - elapsed - this.safetyMarginMs;
+      if ((report.results.length > 0 && elapsed >= this.timeBudgetMs) || timeoutMs <= 0) {
+        report.pending.push(date);
+        continue;
+      }
+
+      console.log(`[BackfillRunner] Regenerating ${job} for ${date} (timeout ${timeoutMs}ms)`);
+      report.results.push({ date, result: await executeDate(date, timeoutMs) });
+    }
+
+    if (report.pending.length > 0) {
+      console.warn(
+        `[BackfillRunner] Time budget exceeded, ${report.pending.length} ${job} date(s) pending: ${report.pending.join(', ')}`
+      );
+    }
+
+    return report;
+  }
+}
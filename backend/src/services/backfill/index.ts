@@ -0,0 +1,27 @@
+/**
+ * バックフィルモジュール
+ *
+ * 任意の過去日付のニュース・用語を再生成する機能を提供します。
+ */
+
+export {
+  parseBackfillRequest,
+  enumerateDates,
+  MAX_BACKFILL_RANGE_DAYS,
+  type BackfillMode,
+  type BackfillRequest,
+  type BackfillRequestParseResult,
+} from './backfillRequest';
+
+export { planBackfill, BackfillPlanError, type BackfillPlan } from './backfillPlanner';
+
+export {
+  BackfillRunner,
+  getBackfillStatus,
+  DEFAULT_BACKFILL_TIME_BUDGET_MS,
+  DEFAULT_BACKFILL_SAFETY_MARGIN_MS,
+  type BackfillRunnerConfig,
+  type BackfillDateResult,
+  type BackfillReport,
+  type BackfillStatus,
+} from './backfillRunner';
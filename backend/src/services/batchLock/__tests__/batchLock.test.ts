@@ -0,0 +1,125 @@
+/**
+ * バッチのリースロックのテスト
+ *
+ * Requirements:
+ * - 同じ種類のバッチの重複実行の防止
+ */
+
+import { BatchLock, BatchLockConflictError, BatchLockError } from '../batchLock';
+
+const mockRpc = jest.fn();
+const mockSelectMaybeSingle = jest.fn();
+const mockDeleteEq = jest.fn();
+
+/**
+ * モックのクエリビルダーの型
+ */
+interface MockQueryBuilder {
+  select: jest.Mock;
+  delete: jest.Mock;
+  eq: jest.Mock;
+  maybeSingle: jest.Mock;
+}
+
+const mockBuilder: MockQueryBuilder = {
+  select: jest.fn(() => mockBuilder),
+  delete: jest.fn(() => mockBuilder),
+  eq: jest.fn((column: string) => (column === 'holder_id' ? mockDeleteEq() : mockBuilder)),
+  maybeSingle: mockSelectMaybeSingle,
+};
+
+const mockSupabaseClient = {
+  rpc: mockRpc,
+  from: jest.fn(() => mockBuilder),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+describe('BatchLock', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: true, error: null });
+    mockSelectMaybeSingle.mockResolvedValue({ data: null, error: null });
+    mockDeleteEq.mockResolvedValue({ error: null });
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('CRON_TIMEOUT_MSを有効期限としてロックを取得すること', async () => {
+    const lock = new BatchLock('news', { holderId: 'run-1' });
+
+    await lock.acquire();
+
+    expect(mockRpc).toHaveBeenCalledWith('acquire_batch_lock', {
+      lock_job: 'news',
+      lock_holder_id: 'run-1',
+      lease_seconds: 300,
+    });
+    expect(lock.isHeld()).toBe(true);
+  });
+
+  it('有効期限を指定できること', async () => {
+    await new BatchLock('terms', { leaseMs: 90500 }).acquire();
+
+    expect(mockRpc).toHaveBeenCalledWith(
+      'acquire_batch_lock',
+      expect.objectContaining({ lock_job: 'terms', lease_seconds: 91 })
+    );
+  });
+
+  it('実行中のバッチがある場合はBatchLockConflictErrorをスローすること', async () => {
+    mockRpc.mockResolvedValue({ data: false, error: null });
+    mockSelectMaybeSingle.mockResolvedValue({
+      data: { expires_at: '2026-10-19T23:05:00+00:00' },
+      error: null,
+    });
+    const lock = new BatchLock('news');
+
+    const error = await lock.acquire().catch((e) => e);
+
+    expect(error).toBeInstanceOf(BatchLockConflictError);
+    expect(error.job).toBe('news');
+    expect(error.expiresAt).toBe('2026-10-19T23:05:00+00:00');
+    expect(lock.isHeld()).toBe(false);
+  });
+
+  it('ロックの取得処理に失敗した場合はBatchLockErrorをスローすること', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'function does not exist' } });
+
+    await expect(new BatchLock('news').acquire()).rejects.toThrow(BatchLockError);
+  });
+
+  it('自分が保持しているロックのみ解放すること', async () => {
+    const lock = new BatchLock('terms', { holderId: 'run-2' });
+    await lock.acquire();
+
+    await lock.release();
+
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('batch_locks');
+    expect(mockBuilder.delete).toHaveBeenCalled();
+    expect(mockBuilder.eq).toHaveBeenCalledWith('job', 'terms');
+    expect(mockBuilder.eq).toHaveBeenCalledWith('holder_id', 'run-2');
+    expect(lock.isHeld()).toBe(false);
+  });
+
+  it('ロックを保持していない場合は解放しないこと', async () => {
+    await new BatchLock('news').release();
+
+    expect(mockBuilder.delete).not.toHaveBeenCalled();
+  });
+
+  it('解放に失敗してもエラーをスローしないこと', async () => {
+    mockDeleteEq.mockResolvedValue({ error: { message: 'network error' } });
+    const lock = new BatchLock('news');
+    await lock.acquire();
+
+    await expect(lock.release()).resolves.toBeUndefined();
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
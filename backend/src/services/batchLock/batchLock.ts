@@ -0,0 +1,181 @@
+/**
+ * バッチの排他制御(リースロック)
+ *
+ * Vercel Cronのリトライや手動実行が実行中のバッチと重なると、
+ * 用語の重複保存やClaude APIの二重課金が発生するため、
+ * batch_locksテーブルのリース(有効期限付きロック)でバッチの種類ごとに1つの実行のみ許可します。
+ *
+ * - 取得はacquire_batch_lock関数で、レコードがないか有効期限切れの場合のみアトミックに行う
+ * - 有効期限はCronのタイムアウト(CRON_TIMEOUT_MS)と同じで、解放されなかったロックも自動で失効する
+ *
+ * Requirements:
+ * - 同じ種類のバッチの重複実行の防止
+ * - 1.8 (5分以内にバッチ完了)
+ */
+
+import { randomUUID } from 'crypto';
+import { getSupabase } from '../../config/supabase';
+import { BatchLockJob, BatchLockRow } from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { CRON_TIMEOUT_MS } from '../cron';
+
+/**
+ * ロックを保存するテーブル名
+ */
+export const BATCH_LOCKS_TABLE = 'batch_locks';
+
+/**
+ * ロックを取得するRPC関数名
+ */
+const ACQUIRE_BATCH_LOCK_FUNCTION = 'acquire_batch_lock';
+
+/**
+ * ロックの取得・解放エラー
+ */
+export class BatchLockError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.HIGH, true, originalError);
+    this.name = 'BatchLockError';
+  }
+}
+
+/**
+ * 同じ種類のバッチが実行中のためロックを取得できなかったエラー
+ *
+ * APIハンドラーは409 Conflictとして返す
+ */
+export class BatchLockConflictError extends AppError {
+  constructor(
+    public readonly job: BatchLockJob,
+    public readonly expiresAt: string | null
+  ) {
+    super(
+      `${job} batch is already running${expiresAt ? ` (lease expires at ${expiresAt})` : ''}`,
+      ErrorType.DATABASE,
+      ErrorSeverity.LOW,
+      true
+    );
+    this.name = 'BatchLockConflictError';
+  }
+}
+
+/**
+ * ロックの設定
+ */
+export interface BatchLockConfig {
+  /**
+   * リースの有効期限(ミリ秒)
+   * @default CRON_TIMEOUT_MS (5分)
+   */
+  leaseMs?: number;
+  /**
+   * ロックを保持する実行の識別子
+   * @default ランダムなUUID
+   */
+  holderId?: string;
+}
+
+/**
+ * バッチのリースロック
+ *
+ * 1回のバッチ実行ごとにインスタンスを作成する。
+ *
+ * @example
+ * ```typescript
+ * const lock = new BatchLock('news');
+ * await lock.acquire(); // 実行中の場合はBatchLockConflictError
+ * try {
+ *   // バッチ処理
+ * } finally {
+ *   await lock.release();
+ * }
+ * ```
+ */
+export class BatchLock {
+  private readonly job: BatchLockJob;
+  private readonly leaseMs: number;
+  private readonly holderId: string;
+  private held = false;
+
+  /**
+   * BatchLockを作成
+   *
+   * @param job - バッチの種類
+   * @param config - 設定
+   */
+  constructor(job: BatchLockJob, config: BatchLockConfig = {}) {
+    this.job = job;
+    this.leaseMs = config.leaseMs ?? CRON_TIMEOUT_MS;
+    this.holderId = config.holderId ?? randomUUID();
+  }
+
+  /**
+   * ロックを保持しているかどうか
+   */
+  isHeld(): boolean {
+    return this.held;
+  }
+
+  /**
+   * ロックを取得
+   *
+   * @throws {BatchLockConflictError} 同じ種類のバッチが実行中の場合
+   * @throws {BatchLockError} ロックの取得処理に失敗した場合
+   */
+  async acquire(): Promise<void> {
+    const supabase = getSupabase();
+    const { data, error } = await supabase.rpc(ACQUIRE_BATCH_LOCK_FUNCTION, {
+      lock_job: this.job,
+      lock_holder_id: this.holderId,
+      lease_seconds: Math.ceil(this.leaseMs / 1000),
+    });
+
+    if (error) {
+      throw new BatchLockError(
+        `Failed to acquire ${this.job} batch lock: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    if (data !== true) {
+      // エラーメッセージ用に現在のロックの有効期限を取得(失敗しても無視)
+      const { data: current } = await supabase
+        .from(BATCH_LOCKS_TABLE)
+        .select('expires_at')
+        .eq('job', this.job)
+        .maybeSingle();
+      throw new BatchLockConflictError(
+        this.job,
+        (current as Pick<BatchLockRow, 'expires_at'> | null)?.expires_at ?? null
+      );
+    }
+
+    this.held = true;
+    console.log(`[BatchLock] Acquired ${this.job} batch lock (holder: ${this.holderId})`);
+  }
+
+  /**
+   * ロックを解放
+   *
+   * 自分が保持しているロックのみ削除する。
+   * 解放に失敗しても有効期限で自動的に失効するため、エラーはログ出力のみ行う。
+   */
+  async release(): Promise<void> {
+    if (!this.held) {
+      return;
+    }
+    this.held = false;
+
+    const { error } = await getSupabase()
+      .from(BATCH_LOCKS_TABLE)
+      .delete()
+      .eq('job', this.job)
+      .eq('holder_id', this.holderId);
+
+    if (error) {
+      console.warn(
+        `[BatchLock] Failed to release ${this.job} batch lock (expires automatically): ${error.message}`
+      );
+    }
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * バッチ排他制御モジュール
+ *
+ * 同じ種類のバッチの重複実行を防ぐリースロックを提供します。
+ */
+
+export {
+  BatchLock,
+  BatchLockError,
+  BatchLockConflictError,
+  BATCH_LOCKS_TABLE,
+  type BatchLockConfig,
+} from './batchLock';
@@ -0,0 +1,100 @@
+/**
+ * バッチ実行履歴の取得テスト
+ *
+ * Requirements:
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
+ */
+
+import { listBatchRuns, BatchRunQueryError, MAX_BATCH_RUNS_LIMIT } from '../batchRunQueries';
+
+/**
+ * モックのクエリビルダーの型
+ */
+interface MockQueryBuilder {
+  select: jest.Mock;
+  eq: jest.Mock;
+  gte: jest.Mock;
+  lte: jest.Mock;
+  order: jest.Mock;
+  limit: jest.Mock;
+}
+
+let queryResult: { data: unknown[] | null; error: { message: string } | null };
+
+const mockBuilder: MockQueryBuilder = {
+  select: jest.fn(() => mockBuilder),
+  eq: jest.fn(() => mockBuilder),
+  gte: jest.fn(() => mockBuilder),
+  lte: jest.fn(() => mockBuilder),
+  order: jest.fn(() => mockBuilder),
+  limit: jest.fn(() => Promise.resolve(queryResult)),
+};
+
+const mockSupabaseClient = {
+  from: jest.fn(() => mockBuilder),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+describe('listBatchRuns', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    queryResult = { data: [], error: null };
+  });
+
+  it('条件なしの場合は新しい順にデフォルト件数を取得すること', async () => {
+    await listBatchRuns();
+
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('batch_runs');
+    expect(mockBuilder.select).toHaveBeenCalledWith('*, steps:batch_run_steps(*)');
+    expect(mockBuilder.eq).not.toHaveBeenCalled();
+    expect(mockBuilder.gte).not.toHaveBeenCalled();
+    expect(mockBuilder.lte).not.toHaveBeenCalled();
+    expect(mockBuilder.order).toHaveBeenCalledWith('started_at', { ascending: false });
+    expect(mockBuilder.limit).toHaveBeenCalledWith(20);
+  });
+
+  it('バッチの種類と日付範囲で絞り込むこと', async () => {
+    await listBatchRuns({ job: 'terms', from: '2026-01-01', to: '2026-01-10', limit: 5 });
+
+    expect(mockBuilder.eq).toHaveBeenCalledWith('job', 'terms');
+    expect(mockBuilder.gte).toHaveBeenCalledWith('date', '2026-01-01');
+    expect(mockBuilder.lte).toHaveBeenCalledWith('date', '2026-01-10');
+    expect(mockBuilder.limit).toHaveBeenCalledWith(5);
+  });
+
+  it('取得件数を上限に丸めること', async () => {
+    await listBatchRuns({ limit: 1000 });
+
+    expect(mockBuilder.limit).toHaveBeenCalledWith(MAX_BATCH_RUNS_LIMIT);
+  });
+
+  it('ステップ履歴を実行順に並べること', async () => {
+    queryResult = {
+      data: [
+        {
+          id: 'run-1',
+          steps: [
+            { id: 2, step: 'database-save', position: 1 },
+            { id: 1, step: 'news-fetch', position: 0 },
+          ],
+        },
+        { id: 'run-2', steps: null },
+      ],
+      error: null,
+    };
+
+    const runs = await listBatchRuns();
+
+    expect(runs[0].steps.map((step) => step.step)).toEqual(['news-fetch', 'database-save']);
+    expect(runs[1].steps).toEqual([]);
+  });
+
+  it('取得に失敗した場合はBatchRunQueryErrorをスローすること', async () => {
+    queryResult = { data: null, error: { message: 'connection refused' } };
+
+    await expect(listBatchRuns()).rejects.toThrow(BatchRunQueryError);
+  });
+});
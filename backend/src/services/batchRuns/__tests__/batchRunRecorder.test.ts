@@ -0,0 +1,216 @@
+/**
+ * バッチ実行履歴レコーダーテスト
+ *
+ * Requirements:
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
+ */
+
+import { BatchPerformanceMonitor } from '../../../performance';
+import { TokenUsageTracker } from '../../tokenUsageTracker';
+import { BatchRunRecorder, BatchRunErrorInfo } from '../batchRunRecorder';
+
+/**
+ * テーブルごとのinsert結果
+ */
+let insertResults: Record<string, { error: { message: string } | null }>;
+const mockInsert = jest.fn();
+
+const mockSupabaseClient = {
+  from: jest.fn((table: string) => ({
+    insert: (payload: unknown) => {
+      mockInsert(table, payload);
+      return Promise.resolve(insertResults[table] ?? { error: null });
+    },
+  })),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+describe('BatchRunRecorder', () => {
+  let monitor: BatchPerformanceMonitor;
+  let tokenTracker: TokenUsageTracker;
+  let recorder: BatchRunRecorder;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    insertResults = {};
+    monitor = new BatchPerformanceMonitor();
+    tokenTracker = new TokenUsageTracker();
+    recorder = new BatchRunRecorder('news', { monitor, tokenTracker });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const successOutcome = {
+    date: '2026-01-10',
+    success: true,
+    partialSuccess: false,
+    errors: [],
+  };
+
+  it('実行IDとしてBatchPerformanceMonitorのbatchIdを使用すること', async () => {
+    recorder.start();
+    const record = await recorder.finish(successOutcome);
+
+    expect(recorder.getRunId()).toBe(monitor.getBatchId());
+    expect(record?.run.id).toBe(monitor.getBatchId());
+    expect(record?.run.job).toBe('news');
+    expect(record?.run.date).toBe('2026-01-10');
+  });
+
+  it('ステップの処理時間と実行中に追加されたエラーを記録すること', async () => {
+    const errors: BatchRunErrorInfo[] = [
+      { type: 'earlier', message: 'before step', timestamp: new Date() },
+    ];
+
+    recorder.start();
+    const value = await recorder.recordStep('news-fetch', errors, async () => 'fetched');
+    await recorder.recordStep('world-news-summary', errors, async () => {
+      errors.push({ type: 'world-news-summary', message: 'summary failed', timestamp: new Date() });
+      return null;
+    });
+    const record = await recorder.finish({
+      date: '2026-01-10',
+      success: false,
+      partialSuccess: true,
+      partialSuccessType: 'japan_only',
+      errors,
+    });
+
+    expect(value).toBe('fetched');
+    expect(record?.steps).toHaveLength(2);
+    expect(record?.steps[0]).toMatchObject({
+      run_id: monitor.getBatchId(),
+      step: 'news-fetch',
+      position: 0,
+      success: true,
+      errors: [],
+    });
+    expect(record?.steps[0].duration_ms).toBe(monitor.getLogEntry().steps['news-fetch']);
+    expect(record?.steps[1]).toMatchObject({
+      step: 'world-news-summary',
+      position: 1,
+      success: false,
+    });
+    expect(record?.steps[1].errors).toEqual([
+      expect.objectContaining({ type: 'world-news-summary', message: 'summary failed' }),
+    ]);
+    expect(record?.run.status).toBe('partial');
+    expect(record?.run.partial_success_type).toBe('japan_only');
+    expect(record?.run.errors).toHaveLength(2);
+  });
+
+  it('ステップが例外をスローした場合はエラーを記録して再スローすること', async () => {
+    recorder.start();
+    await expect(
+      recorder.recordStep('database-save', [], async () => {
+        throw new Error('insert failed');
+      })
+    ).rejects.toThrow('insert failed');
+
+    const record = await recorder.finish({ ...successOutcome, success: false });
+
+    expect(record?.steps[0]).toMatchObject({ step: 'database-save', success: false });
+    expect(record?.steps[0].errors[0]).toMatchObject({
+      type: 'database-save',
+      message: 'insert failed',
+    });
+    expect(record?.run.status).toBe('failure');
+  });
+
+  it('記録開始以降のトークン使用量を操作ごとに集計すること', async () => {
+    tokenTracker.recordUsage({
+      inputTokens: 999,
+      outputTokens: 999,
+      model: 'claude',
+      operation: 'news-summary',
+    });
+
+    recorder.start();
+    tokenTracker.recordUsage({
+      inputTokens: 100,
+      outputTokens: 50,
+      model: 'claude',
+      operation: 'news-summary',
+    });
+    tokenTracker.recordUsage({
+      inputTokens: 200,
+      outputTokens: 80,
+      model: 'claude',
+      operation: 'news-summary',
+    });
+    tokenTracker.recordUsage({
+      inputTokens: 30,
+      outputTokens: 10,
+      model: 'claude',
+      operation: 'category-summary',
+    });
+    const record = await recorder.finish(successOutcome);
+
+    expect(record?.run.token_usage).toEqual({
+      'news-summary': { inputTokens: 300, outputTokens: 130, requestCount: 2 },
+      'category-summary': { inputTokens: 30, outputTokens: 10, requestCount: 1 },
+    });
+    expect(record?.run.total_input_tokens).toBe(330);
+    expect(record?.run.total_output_tokens).toBe(140);
+  });
+
+  it('レスポンスキャッシュのヒットはトークン使用量に含めないこと', async () => {
+    recorder.start();
+    tokenTracker.recordUsage({
+      inputTokens: 100,
+      outputTokens: 50,
+      model: 'claude',
+      operation: 'term-generation',
+    });
+    tokenTracker.recordUsage({
+      inputTokens: 100,
+      outputTokens: 50,
+      model: 'claude',
+      operation: 'term-generation',
+      cacheHit: true,
+    });
+    const record = await recorder.finish(successOutcome);
+
+    expect(record?.run.token_usage).toEqual({
+      'term-generation': { inputTokens: 100, outputTokens: 50, requestCount: 1 },
+    });
+  });
+
+  it('batch_runs、batch_run_stepsの順に保存すること', async () => {
+    recorder.start();
+    await recorder.recordStep('news-fetch', [], async () => undefined);
+    const record = await recorder.finish(successOutcome);
+
+    expect(record?.saved).toBe(true);
+    expect(record?.run.status).toBe('success');
+    expect(mockInsert).toHaveBeenNthCalledWith(1, 'batch_runs', record?.run);
+    expect(mockInsert).toHaveBeenNthCalledWith(2, 'batch_run_steps', record?.steps);
+  });
+
+  it('保存に失敗しても例外をスローせずsaved: falseを返すこと', async () => {
+    insertResults.batch_runs = { error: { message: 'permission denied' } };
+
+    recorder.start();
+    await recorder.recordStep('news-fetch', [], async () => undefined);
+    const record = await recorder.finish(successOutcome);
+
+    expect(record?.saved).toBe(false);
+    expect(mockInsert).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalled();
+  });
+
+  it('記録を開始せずにfinish()を呼んだ場合はnullを返し保存しないこと', async () => {
+    const record = await recorder.finish(successOutcome);
+
+    expect(record).toBeNull();
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+});
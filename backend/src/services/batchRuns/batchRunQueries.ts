@@ -0,0 +1,101 @@
+/**
+ * バッチ実行履歴の取得
+ *
+ * batch_runs / batch_run_steps テーブルから、バッチの種類・日付で絞り込んだ
+ * 実行履歴をステップ履歴付きで取得します。
+ *
+ * Requirements:
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
+ */
+
+import { getSupabase } from '../../config/supabase';
+import { BatchJob, BatchRunRow, BatchRunStepRow } from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { BATCH_RUNS_TABLE, BATCH_RUN_STEPS_TABLE } from './batchRunRecorder';
+
+/**
+ * デフォルトの取得件数
+ */
+export const DEFAULT_BATCH_RUNS_LIMIT = 20;
+
+/**
+ * 取得件数の上限
+ */
+export const MAX_BATCH_RUNS_LIMIT = 100;
+
+/**
+ * バッチ実行履歴の取得エラー
+ */
+export class BatchRunQueryError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'BatchRunQueryError';
+  }
+}
+
+/**
+ * バッチ実行履歴の絞り込み条件
+ */
+export interface BatchRunFilter {
+  /** バッチの種類 */
+  job?: BatchJob;
+  /** 処理対象の日付の開始(YYYY-MM-DD形式、この日を含む) */
+  from?: string;
+  /** 処理対象の日付の終了(YYYY-MM-DD形式、この日を含む) */
+  to?: string;
+  /**
+   * 取得件数
+   * @default 20
+   */
+  limit?: number;
+}
+
+/**
+ * ステップ履歴付きのバッチ実行履歴
+ */
+export interface BatchRunWithSteps extends BatchRunRow {
+  /** ステップ履歴(実行順) */
+  steps: BatchRunStepRow[];
+}
+
+/**
+ * バッチ実行履歴を新しい順に取得
+ *
+ * @param filter - 絞り込み条件
+ * @returns ステップ履歴付きのバッチ実行履歴
+ * @throws {BatchRunQueryError} Supabaseからの取得に失敗した場合
+ */
+export async function listBatchRuns(filter: BatchRunFilter = {}): Promise<BatchRunWithSteps[]> {
+  const limit = Math.min(
+    Math.max(filter.limit ?? DEFAULT_BATCH_RUNS_LIMIT, 1),
+    MAX_BATCH_RUNS_LIMIT
+  );
+
+  let query = getSupabase()
+    .from(BATCH_RUNS_TABLE)
+    .select(`*, steps:${BATCH_RUN_STEPS_TABLE}(*)`);
+
+  if (filter.job) {
+    query = query.eq('job', filter.job);
+  }
+  if (filter.from) {
+    query = query.gte('date', filter.from);
+  }
+  if (filter.to) {
+    query = query.lte('date', filter.to);
+  }
+
+  const { data, error } = await query.order('started_at', { ascending: false }).limit(limit);
+
+  if (error) {
+    throw new BatchRunQueryError(
+      `Failed to fetch batch runs: ${error.message}`,
+      new Error(error.message)
+    );
+  }
+
+  return ((data ?? []) as BatchRunWithSteps[]).map((run) => ({
+    ...run,
+    steps: [...(run.steps ?? [])].sort((a, b) => a.position - b.position),
+  }));
+}
@@ -0,0 +1,350 @@
+/**
+ * バッチ実行履歴レコーダー
+ *
+ * ニュース・用語バッチの実行1回分の記録(ステップごとの処理時間とエラー、
+ * 部分成功の種類、操作ごとのトークン使用量)を集め、
+ * batch_runs / batch_run_steps テーブルに保存します。
+ *
+ * 処理時間はBatchPerformanceMonitor、トークン使用量はTokenUsageTrackerから取得し、
+ * 実行IDにはBatchPerformanceMonitorのbatchIdを使用します。
+ *
+ * 実行履歴の保存に失敗してもバッチ処理の結果には影響させず、ログ出力のみ行います。
+ *
+ * Requirements:
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
+ * - 11.3 (エラー発生時詳細ログ)
+ */
+
+import { getSupabase } from '../../config/supabase';
+import { BatchPerformanceMonitor } from '../../performance';
+import { TokenUsageTracker, getTokenUsageTracker } from '../tokenUsageTracker';
+import {
+  BatchJob,
+  BatchRunStatus,
+  BatchRunErrorRecord,
+  BatchRunTokenUsage,
+  BatchRunInsertPayload,
+  BatchRunStepInsertPayload,
+} from '../../models/supabase.types';
+
+/**
+ * 実行履歴テーブル名
+ */
+export const BATCH_RUNS_TABLE = 'batch_runs';
+
+/**
+ * ステップ履歴テーブル名
+ */
+export const BATCH_RUN_STEPS_TABLE = 'batch_run_steps';
+
+/**
+ * バッチ処理中のエラー情報
+ *
+ * ニュース・用語バッチのBatchErrorInfoと同じ形
+ */
+export interface BatchRunErrorInfo {
+  /** エラータイプ(どの処理で発生したか) */
+  type: string;
+  /** エラーメッセージ */
+  message: string;
+  /** 発生時刻 */
+  timestamp: Date;
+  /** 失敗したニュースソースのID(ソース取得エラーの場合) */
+  source?: string;
+}
+
+/**
+ * バッチ実行の結果
+ *
+ * finish()に渡す、バッチサービスの実行結果の要約
+ */
+export interface BatchRunOutcome {
+  /** 処理対象の日付(YYYY-MM-DD形式) */
+  date: string;
+  /** 全処理が成功したかどうか */
+  success: boolean;
+  /** 部分的な成功かどうか */
+  partialSuccess: boolean;
+  /** 部分成功の種類(PartialSuccessType / TermsPartialSuccessType) */
+  partialSuccessType?: string;
+  /** 発生したエラー */
+  errors: BatchRunErrorInfo[];
+}
+
+/**
+ * 保存したバッチ実行履歴
+ */
+export interface BatchRunRecord {
+  /** batch_runsに保存した行 */
+  run: BatchRunInsertPayload;
+  /** batch_run_stepsに保存した行 */
+  steps: BatchRunStepInsertPayload[];
+  /** Supabaseへの保存に成功したかどうか */
+  saved: boolean;
+}
+
+/**
+ * バッチ実行履歴レコーダーの設定
+ */
+export interface BatchRunRecorderConfig {
+  /**
+   * 処理時間の計測に使用するモニター
+   * @default new BatchPerformanceMonitor()
+   */
+  monitor?: BatchPerformanceMonitor;
+
+  /**
+   * トークン使用量の取得元
+   * @default getTokenUsageTracker()
+   */
+  tokenTracker?: TokenUsageTracker;
+}
+
+/**
+ * 記録中のステップ
+ */
+interface RecordedStep {
+  step: string;
+  startedAt: Date;
+  durationMs: number;
+  errors: BatchRunErrorInfo[];
+}
+
+/**
+ * エラー情報を保存用の形式に変換する
+ */
+function toErrorRecord(error: BatchRunErrorInfo): BatchRunErrorRecord {
+  return {
+    type: error.type,
+    message: error.message,
+    timestamp: error.timestamp.toISOString(),
+    ...(error.source ? { source: error.source } : {}),
+  };
+}
+
+/**
+ * バッチ実行履歴レコーダー
+ *
+ * バッチ実行1回につき1インスタンスを作成し、バッチサービスの設定(runRecorder)に渡します。
+ *
+ * @example
+ * const recorder = new BatchRunRecorder('news');
+ * const batchService = new NewsBatchService(worldFetcher, japanFetcher, summaryService, {
+ *   runRecorder: recorder,
+ * });
+ * await batchService.execute();
+ * console.log(`Run ID: ${recorder.getRunId()}`);
+ */
+export class BatchRunRecorder {
+  private readonly job: BatchJob;
+  private readonly monitor: BatchPerformanceMonitor;
+  private readonly tokenTracker: TokenUsageTracker;
+  private startedAt: Date | null = null;
+  private tokenRecordOffset = 0;
+  private steps: RecordedStep[] = [];
+
+  /**
+   * コンストラクタ
+   *
+   * @param job - バッチの種類
+   * @param config - レコーダー設定
+   */
+  constructor(job: BatchJob, config: BatchRunRecorderConfig = {}) {
+    this.job = job;
+    this.monitor = config.monitor ?? new BatchPerformanceMonitor();
+    this.tokenTracker = config.tokenTracker ?? getTokenUsageTracker();
+  }
+
+  /**
+   * 実行IDを取得
+   *
+   * @returns 実行ID(BatchPerformanceMonitorのbatchId)
+   */
+  getRunId(): string {
+    return this.monitor.getBatchId();
+  }
+
+  /**
+   * 記録を開始
+   *
+   * 処理時間の計測を開始し、これ以降のトークン使用量を集計対象にします。
+   */
+  start(): void {
+    this.startedAt = new Date();
+    this.tokenRecordOffset = this.tokenTracker.getRecords().length;
+    this.steps = [];
+    this.monitor.startBatch();
+  }
+
+  /**
+   * ステップを実行して記録
+   *
+   * ステップの処理時間と、実行中にerrorsへ追加されたエラーを記録します。
+   * ステップが例外をスローした場合もそのエラーを記録し、例外はそのまま再スローします。
+   *
+   * @param step - ステップ名
+   * @param errors - バッチ処理のエラー情報を格納する配列
+   * @param fn - ステップの処理
+   * @returns ステップの処理結果
+   */
+  async recordStep<T>(
+    step: string,
+    errors: BatchRunErrorInfo[],
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const startedAt = new Date();
+    const errorCount = errors.length;
+    this.monitor.startStep(step);
+
+    const complete = (thrown?: BatchRunErrorInfo) => {
+      this.monitor.endStep(step);
+      this.steps.push({
+        step,
+        startedAt,
+        durationMs: this.monitor.getLogEntry().steps[step] ?? 0,
+        errors: [...errors.slice(errorCount), ...(thrown ? [thrown] : [])],
+      });
+    };
+
+    try {
+      const result = await fn();
+      complete();
+      return result;
+    } catch (error) {
+      complete({
+        type: step,
+        message: error instanceof Error ? error.message : String(error),
+        timestamp: new Date(),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 記録を終了してSupabaseに保存
+   *
+   * 保存に失敗した場合もバッチ処理を止めないよう例外はスローせず、saved: falseを返します。
+   *
+   * @param outcome - バッチ実行の結果
+   * @returns 保存したバッチ実行履歴(記録を開始していない場合はnull)
+   */
+  async finish(outcome: BatchRunOutcome): Promise<BatchRunRecord | null> {
+    if (!this.startedAt) {
+      console.warn('[BatchRunRecorder] finish() called before start()');
+      return null;
+    }
+
+    const metrics = this.monitor.endBatch();
+    const runId = this.getRunId();
+    const tokenUsage = this.summarizeTokenUsage();
+    const usages = Object.values(tokenUsage);
+
+    const run: BatchRunInsertPayload = {
+      id: runId,
+      job: this.job,
+      date: outcome.date,
+      status: this.getStatus(outcome),
+      partial_success_type: outcome.partialSuccessType ?? null,
+      started_at: this.startedAt.toISOString(),
+      finished_at: new Date(this.startedAt.getTime() + metrics.totalDurationMs).toISOString(),
+      duration_ms: metrics.totalDurationMs,
+      within_limit: metrics.isWithinLimit,
+      errors: outcome.errors.map(toErrorRecord),
+      token_usage: tokenUsage,
+      total_input_tokens: usages.reduce((sum, usage) => sum + usage.inputTokens, 0),
+      total_output_tokens: usages.reduce((sum, usage) => sum + usage.outputTokens, 0),
+    };
+
+    const steps: BatchRunStepInsertPayload[] = this.steps.map((step, index) => ({
+      run_id: runId,
+      step: step.step,
+      position: index,
+      success: step.errors.length === 0,
+      started_at: step.startedAt.toISOString(),
+      duration_ms: step.durationMs,
+      errors: step.errors.map(toErrorRecord),
+    }));
+
+    const saved = await this.save(run, steps);
+    return { run, steps, saved };
+  }
+
+  /**
+   * バッチ実行の結果から実行結果の区分を判定
+   */
+  private getStatus(outcome: BatchRunOutcome): BatchRunStatus {
+    if (outcome.success) {
+      return 'success';
+    }
+    return outcome.partialSuccess ? 'partial' : 'failure';
+  }
+
+  /**
+   * 記録開始以降のトークン使用量を操作ごとに集計
+   */
+  private summarizeTokenUsage(): Record<string, BatchRunTokenUsage> {
+    const usage: Record<string, BatchRunTokenUsage> = {};
+
+    for (const record of this.tokenTracker.getRecords().slice(this.tokenRecordOffset)) {
+      // キャッシュヒットは課金されていないため集計しない
+      if (record.cacheHit) {
+        continue;
+      }
+      const current = usage[record.operation] ?? {
+        inputTokens: 0,
+        outputTokens: 0,
+        requestCount: 0,
+      };
+      usage[record.operation] = {
+        inputTokens: current.inputTokens + record.inputTokens,
+        outputTokens: current.outputTokens + record.outputTokens,
+        requestCount: current.requestCount + 1,
+      };
+    }
+
+    return usage;
+  }
+
+  /**
+   * 実行履歴とステップ履歴をSupabaseに保存
+   *
+   * @returns 保存に成功した場合true
+   */
+  private async save(
+    run: BatchRunInsertPayload,
+    steps: BatchRunStepInsertPayload[]
+  ): Promise<boolean> {
+    try {
+      const supabase = getSupabase();
+
+      const { error: runError } = await supabase.from(BATCH_RUNS_TABLE).insert(run);
+      if (runError) {
+        console.error('[BatchRunRecorder]', `Failed to save batch run: ${runError.message}`);
+        return false;
+      }
+
+      if (steps.length > 0) {
+        const { error: stepsError } = await supabase.from(BATCH_RUN_STEPS_TABLE).insert(steps);
+        if (stepsError) {
+          console.error(
+            '[BatchRunRecorder]',
+            `Failed to save batch run steps: ${stepsError.message}`
+          );
+          return false;
+        }
+      }
+
+      console.log(
+        '[BatchRunRecorder]',
+        `Saved ${run.job} batch run ${run.id} (${run.status}, ${steps.length} steps)`
+      );
+      return true;
+    } catch (error) {
+      console.error(
+        '[BatchRunRecorder]',
+        `Failed to save batch run: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+  }
+}
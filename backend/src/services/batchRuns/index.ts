@@ -0,0 +1,24 @@
+/**
+ * バッチ実行履歴モジュール
+ *
+ * ニュース・用語バッチの実行履歴の記録と取得に関する機能を提供します。
+ */
+
+export {
+  BatchRunRecorder,
+  BATCH_RUNS_TABLE,
+  BATCH_RUN_STEPS_TABLE,
+  type BatchRunErrorInfo,
+  type BatchRunOutcome,
+  type BatchRunRecord,
+  type BatchRunRecorderConfig,
+} from './batchRunRecorder';
+
+export {
+  listBatchRuns,
+  BatchRunQueryError,
+  DEFAULT_BATCH_RUNS_LIMIT,
+  MAX_BATCH_RUNS_LIMIT,
+  type BatchRunFilter,
+  type BatchRunWithSteps,
+} from './batchRunQueries';
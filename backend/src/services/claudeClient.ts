@@ -6,11 +6,47 @@
  * Claude API(Anthropic)のクライアントを提供します。
  * Haikuモデルをデフォルトとして設定し、コスト最適化を実現します。
  * トークン使用量の追跡機能も提供します(Requirement 10.3)。
+ *
+ * 利用料の記録・予算チェックが設定されている場合は、呼び出しごとの利用料をclaude_usageテーブルに保存し、
+ * 呼び出し前に日次・月次の予算を確認します(予算に近い場合は安価なモデルに切り替え、超える場合は拒否)。
+ *
+ * モデルを指定しない呼び出しは、操作名ごとのルーティング表(モデルの優先順リスト)に従ってモデルを選択し、
+ * サービス利用不可(5xx・過負荷)の場合は次のモデルにフォールバックします。
+ *
+ * LlmProviderのAnthropic実装として、SDKのエラーはAIServiceErrorに変換してスローします。
+ * 構造化出力のツールが指定された場合はtool_choiceでツールの呼び出しを強制し、入力をtoolInputとして返します。
+ *
+ * レスポンスキャッシュが設定されている場合は、同じリクエスト(モデル・システムプロンプト・プロンプト・
+ * temperatureなど)に対して有効期限内のレスポンスを返し、APIを呼び出しません。
+ * キャッシュヒットは課金されないため、利用料の記録・予算チェックの対象外です。
+ *
+ * streamを指定した呼び出しはストリーミングで出力を逐次受信し、無通信タイムアウトと全体の上限を
+ * 別々に適用します(進行中の長い生成を1回のタイムアウトで中断しないため)。
  */
 
 import Anthropic from '@anthropic-ai/sdk';
 import { getApiKey } from './apiKeyConfig';
 import { getTokenUsageTracker } from './tokenUsageTracker';
+import { BudgetGuard, SpendLedger, UNSPECIFIED_OPERATION } from './spend';
+import { AIServiceErrorHandler, AIServiceUnavailableError } from './aiServiceErrorHandler';
+import { ResponseCache, type ResponseCacheRequest } from './responseCache';
+import {
+  DEFAULT_STREAM_IDLE_TIMEOUT_MS,
+  DEFAULT_STREAM_TOTAL_TIMEOUT_MS,
+  readMessageStream,
+} from './claudeStreamReader';
+import type {
+  LlmProvider,
+  LlmResponse,
+  LlmSendMessageOptions,
+  LlmStreamOptions,
+} from './llm/llmProvider';
+import {
+  getClaudeBudgetEnvConfig,
+  getClaudeModelRoutesEnvConfig,
+  getClaudeResponseCacheEnvConfig,
+  isSupabaseConfigured,
+} from '../config/envConfig';
 // ApiKeyErrorはapiKeyConfigからエクスポートされ、getApiKey()が失敗時にスローする
 export { ApiKeyError } from './apiKeyConfig';
 
@@ -22,6 +58,11 @@ export const CLAUDE_MODELS = {
   sonnet: 'claude-sonnet-4-5',
 } as const;
 
+/**
+ * 利用可能なClaudeモデル名
+ */
+export type ClaudeModel = (typeof CLAUDE_MODELS)[keyof typeof CLAUDE_MODELS];
+
 /**
  * デフォルトモデル(コスト最適化のためHaiku)
  */
@@ -33,33 +74,162 @@ export const DEFAULT_MODEL = CLAUDE_MODELS.haiku;
 export const DEFAULT_MAX_TOKENS = 4096;
 
 /**
- * メッセージ送信オプション
+ * 操作名ごとのモデルの優先順リスト(ルーティング表)
+ *
+ * 先頭のモデルから順に呼び出し、サービス利用不可の場合は次のモデルにフォールバックする。
  */
-export interface SendMessageOptions {
-  model?: string;
-  maxTokens?: number;
-  temperature?: number;
-  system?: string;
+export type ModelRoutingTable = Readonly<Record<string, readonly string[]>>;
+
+/**
+ * デフォルトのルーティング表
+ *
+ * 無料枠・低コストでの運用のため、ニュースの要約を含むすべての操作でDEFAULT_MODEL(Haiku)のみを使用する。
+ * Sonnetなど上位のモデルは、環境変数CLAUDE_MODEL_ROUTESで操作ごとに指定した場合のみ使用する
+ * (例: english-news-summary=claude-sonnet-4-5,claude-haiku-4-5)。
+ */
+export const DEFAULT_MODEL_ROUTES: ModelRoutingTable = {};
+
+/**
+ * 呼び出すモデルの優先順リストを取得
+ *
+ * @param operation - 操作名
+ * @param routes - ルーティング表
+ * @returns モデルの優先順リスト(登録されていない操作は[DEFAULT_MODEL])
+ */
+export function resolveModelChain(
+  operation: string | undefined,
+  routes: ModelRoutingTable = DEFAULT_MODEL_ROUTES
+): readonly string[] {
+  const chain = operation ? routes[operation] : undefined;
+  return chain && chain.length > 0 ? chain : [DEFAULT_MODEL];
+}
+
+/**
+ * 次のモデルにフォールバックするエラーかどうかを判定
+ *
+ * サービス利用不可(AIServiceUnavailableError: 5xx、過負荷の529を含む)の場合のみフォールバックし、
+ * リクエスト不正や認証エラーなどはモデルを変えても解決しないためそのままスローする。
+ *
+ * @param error - 判定するエラー
+ * @returns フォールバックする場合true
+ */
+export function isModelFallbackError(error: unknown): boolean {
+  return error instanceof AIServiceUnavailableError;
+}
+
+/**
+ * 予算チェックで入力トークン数を見積もる際の1トークンあたりの文字数
+ *
+ * 日本語は1文字がおよそ1トークン以上になるため、英語(約4文字/トークン)より多めに見積もる
+ */
+const ESTIMATED_CHARS_PER_TOKEN = 1;
+
+/**
+ * Claude APIクライアントの設定
+ */
+export interface ClaudeClientConfig {
   /**
-   * 操作名(トークン使用量追跡用)
+   * 利用料の記録
    *
-   * 指定するとトークン使用量がTokenUsageTrackerに記録されます。
-   * 例: 'news-summary', 'term-generation'
+   * 指定した場合、呼び出しごとのトークン使用量と料金をclaude_usageテーブルに保存する。
+   */
+  usageLedger?: SpendLedger;
+  /**
+   * 予算チェック
+   *
+   * 指定した場合、呼び出し前に日次・月次の予算を確認する。
+   */
+  budgetGuard?: BudgetGuard;
+  /**
+   * 操作名ごとのモデルの優先順リスト
+   * @default DEFAULT_MODEL_ROUTES
    */
-  operation?: string;
+  modelRoutes?: ModelRoutingTable;
+  /**
+   * レスポンスキャッシュ
+   *
+   * 指定した場合、同じリクエストに対して有効期限内のレスポンスを返し、APIを呼び出さない。
+   * キャッシュに保存するのは、呼び出し元がconfirmResponse()で確定したレスポンスのみ。
+   */
+  responseCache?: ResponseCache;
 }
 
+/**
+ * メッセージ送信オプション
+ *
+ * modelを指定した場合はルーティング表を使用せず、フォールバックも行いません。
+ */
+export type SendMessageOptions = LlmSendMessageOptions;
+
 /**
  * Claude APIレスポンス
  */
-export interface ClaudeResponse {
-  content: string;
-  usage: {
-    inputTokens: number;
-    outputTokens: number;
+export type ClaudeResponse = LlmResponse;
+
+/**
+ * Messages APIのリクエストパラメータを作成
+ *
+ * Message Batchesの各リクエストにも同じパラメータを使用します。
+ *
+ * @param model - 使用するモデル
+ * @param message - 送信するメッセージ
+ * @param options - オプション設定
+ * @returns Messages APIのリクエストパラメータ
+ */
+export function buildMessageParams(
+  model: string,
+  message: string,
+  options: SendMessageOptions = {}
+): Anthropic.MessageCreateParamsNonStreaming {
+  const { maxTokens = DEFAULT_MAX_TOKENS, temperature, system, tool } = options;
+
+  return {
+    model,
+    max_tokens: maxTokens,
+    ...(temperature !== undefined && { temperature }),
+    ...(system && { system }),
+    // 構造化出力: 指定したツールの呼び出しを強制する
+    ...(tool && {
+      tools: [
+        {
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+        },
+      ],
+      tool_choice: { type: 'tool' as const, name: tool.name },
+    }),
+    messages: [
+      {
+        role: 'user',
+        content: message,
+      },
+    ],
+  };
+}
+
+/**
+ * Messages APIのレスポンスをClaudeResponseに変換
+ *
+ * @param response - Messages APIのレスポンス
+ * @returns テキスト・トークン使用量・ツールの入力を抽出したレスポンス
+ */
+export function toClaudeResponse(response: Anthropic.Message): ClaudeResponse {
+  // コンテンツを抽出
+  const textContent = response.content.find((c) => c.type === 'text');
+  const content = textContent && 'text' in textContent ? textContent.text : '';
+  const toolUse = response.content.find((c) => c.type === 'tool_use');
+
+  return {
+    content,
+    usage: {
+      inputTokens: response.usage.input_tokens,
+      outputTokens: response.usage.output_tokens,
+    },
+    model: response.model,
+    stopReason: response.stop_reason,
+    ...(toolUse && 'input' in toolUse && { toolInput: toolUse.input }),
   };
-  model: string;
-  stopReason: string | null;
 }
 
 /**
@@ -68,19 +238,32 @@ export interface ClaudeResponse {
  * シングルトンパターンでインスタンスを管理し、
  * API呼び出しを抽象化します。
  */
-export class ClaudeClient {
+export class ClaudeClient implements LlmProvider {
+  readonly name = 'anthropic';
   private client: Anthropic;
   private initialized: boolean = false;
+  private readonly usageLedger?: SpendLedger;
+  private readonly budgetGuard?: BudgetGuard;
+  private readonly modelRoutes: ModelRoutingTable;
+  private readonly responseCache?: ResponseCache;
+  /** 確定待ちのレスポンスとキャッシュのリクエスト(確定されなかったレスポンスはGCで破棄される) */
+  private readonly pendingCacheRequests = new WeakMap<ClaudeResponse, ResponseCacheRequest>();
+  private readonly errorHandler = new AIServiceErrorHandler({ logErrors: false });
 
   /**
    * コンストラクタ
    *
    * @param apiKey - Anthropic APIキー
+   * @param config - 利用料の記録・予算チェック・モデルのルーティング・レスポンスキャッシュの設定
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, config: ClaudeClientConfig = {}) {
     this.client = new Anthropic({
       apiKey,
     });
+    this.usageLedger = config.usageLedger;
+    this.budgetGuard = config.budgetGuard;
+    this.modelRoutes = config.modelRoutes ?? DEFAULT_MODEL_ROUTES;
+    this.responseCache = config.responseCache;
     this.initialized = true;
   }
 
@@ -102,51 +285,192 @@ export class ClaudeClient {
     return this.initialized;
   }
 
+  /**
+   * 操作名に対応するモデルの優先順リストを取得
+   *
+   * @param operation - 操作名
+   * @returns モデルの優先順リスト
+   */
+  getModelChain(operation?: string): readonly string[] {
+    return resolveModelChain(operation, this.modelRoutes);
+  }
+
   /**
    * メッセージを送信
    *
+   * モデルを指定しない場合はルーティング表の優先順にモデルを選択し、
+   * サービス利用不可の場合は次のモデルにフォールバックする。
+   * 予算チェックが設定されている場合、予算に近いときは安価なモデルに切り替えて送信する。
+   * レスポンスキャッシュが設定されている場合、キャッシュしたレスポンスがあれば
+   * 予算チェック・API呼び出しを行わずに返す(bypassCacheを指定した場合を除く)。
+   * 取得したレスポンスは、confirmResponse()で確定した場合のみキャッシュに保存する。
+   *
    * @param message - 送信するメッセージ
    * @param options - オプション設定
-   * @returns Claude APIのレスポンス
+   * @returns Claude APIのレスポンス(modelは実際に使用したモデル)
+   * @throws {BudgetExceededError} 安価なモデルでも予算を超える場合
+   * @throws {AIServiceError} API呼び出しに失敗した場合
    */
   async sendMessage(
     message: string,
     options: SendMessageOptions = {}
   ): Promise<ClaudeResponse> {
-    const {
-      model = DEFAULT_MODEL,
-      maxTokens = DEFAULT_MAX_TOKENS,
-      temperature,
-      system,
-      operation,
-    } = options;
-
-    const response = await this.client.messages.create({
+    const chain = options.model ? [options.model] : this.getModelChain(options.operation);
+    const attempted = new Set<string>();
+
+    for (let i = 0; i < chain.length; i++) {
+      const cached = await this.getCachedResponse(chain[i], message, options);
+      if (cached) {
+        return cached;
+      }
+
+      const model = await this.selectModel(chain[i], message, options);
+      // 予算チェックで切り替えた結果、試行済みのモデルになった場合はスキップ
+      if (attempted.has(model)) {
+        continue;
+      }
+      attempted.add(model);
+
+      try {
+        return await this.sendMessageWithModel(model, message, options);
+      } catch (error) {
+        const next = chain.slice(i + 1).find((candidate) => !attempted.has(candidate));
+        if (!next || !isModelFallbackError(error)) {
+          throw error;
+        }
+        console.warn(
+          `[ClaudeClient] ${model} is unavailable${
+            options.operation ? ` (${options.operation})` : ''
+          }, falling back to ${next}:`,
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    // 全モデルが試行済みの場合(予算チェックで同じモデルに切り替えられた場合)
+    throw new AIServiceUnavailableError(
+      `All models are unavailable: ${[...attempted].join(', ')}`,
+      503,
+      options.operation
+    );
+  }
+
+  /**
+   * キャッシュのリクエストを作成
+   *
+   * @param model - 使用するモデル
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns キャッシュのリクエスト
+   */
+  private toCacheRequest(
+    model: string,
+    message: string,
+    options: SendMessageOptions
+  ): ResponseCacheRequest {
+    return {
       model,
-      max_tokens: maxTokens,
-      ...(temperature !== undefined && { temperature }),
-      ...(system && { system }),
-      messages: [
-        {
-          role: 'user',
-          content: message,
-        },
-      ],
+      prompt: message,
+      system: options.system,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
+      tool: options.tool,
+      operation: options.operation,
+    };
+  }
+
+  /**
+   * キャッシュしたレスポンスを取得し、キャッシュヒットとして記録
+   *
+   * @param model - 使用するモデル
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns キャッシュしたレスポンス(キャッシュが無効・bypassCache指定・ない場合はnull)
+   */
+  private async getCachedResponse(
+    model: string,
+    message: string,
+    options: SendMessageOptions
+  ): Promise<ClaudeResponse | null> {
+    if (!this.responseCache || options.bypassCache) {
+      return null;
+    }
+
+    const cached = await this.responseCache.get(this.toCacheRequest(model, message, options));
+    if (!cached) {
+      return null;
+    }
+
+    // キャッシュヒットは課金されないため、利用料は記録せずヒットとしてのみ記録
+    if (options.operation) {
+      getTokenUsageTracker().recordUsage({
+        inputTokens: cached.usage.inputTokens,
+        outputTokens: cached.usage.outputTokens,
+        model: cached.model,
+        operation: options.operation,
+        cacheHit: true,
+      });
+    }
+
+    return cached;
+  }
+
+  /**
+   * 予算チェックを行い、呼び出しに使用するモデルを決定
+   *
+   * @param model - ルーティング表で選択したモデル
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns 呼び出しに使用するモデル
+   * @throws {BudgetExceededError} 安価なモデルでも予算を超える場合
+   */
+  private async selectModel(
+    model: string,
+    message: string,
+    options: SendMessageOptions
+  ): Promise<string> {
+    if (!this.budgetGuard) {
+      return model;
+    }
+
+    const decision = await this.budgetGuard.check({
+      model,
+      estimatedInputTokens: Math.ceil(
+        (message.length + (options.system?.length ?? 0)) / ESTIMATED_CHARS_PER_TOKEN
+      ),
+      maxTokens: options.maxTokens ?? DEFAULT_MAX_TOKENS,
     });
+    return decision.model;
+  }
+
+  /**
+   * 指定したモデルでメッセージを送信し、トークン使用量・利用料を記録
+   *
+   * @param model - 使用するモデル
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns Claude APIのレスポンス
+   * @throws {AIServiceError} API呼び出しに失敗した場合
+   */
+  private async sendMessageWithModel(
+    model: string,
+    message: string,
+    options: SendMessageOptions
+  ): Promise<ClaudeResponse> {
+    const { operation } = options;
+    const params = buildMessageParams(model, message, options);
 
-    // コンテンツを抽出
-    const textContent = response.content.find((c) => c.type === 'text');
-    const content = textContent && 'text' in textContent ? textContent.text : '';
+    let response: Anthropic.Message;
+    try {
+      response = options.stream
+        ? await this.streamMessage(params, options.stream, operation)
+        : await this.client.messages.create(params);
+    } catch (error) {
+      // SDKのエラーをAIServiceError(5xx・過負荷はAIServiceUnavailableError)に変換
+      throw this.errorHandler.handleError(error, operation ?? UNSPECIFIED_OPERATION);
+    }
 
-    const claudeResponse: ClaudeResponse = {
-      content,
-      usage: {
-        inputTokens: response.usage.input_tokens,
-        outputTokens: response.usage.output_tokens,
-      },
-      model: response.model,
-      stopReason: response.stop_reason,
-    };
+    const claudeResponse = toClaudeResponse(response);
 
     // operationが指定されている場合、トークン使用量を記録
     if (operation) {
@@ -159,9 +483,73 @@ export class ClaudeClient {
       });
     }
 
+    // 利用料を記録(保存に失敗しても呼び出し結果には影響しない)
+    if (this.usageLedger) {
+      try {
+        await this.usageLedger.record({
+          operation,
+          model: claudeResponse.model,
+          inputTokens: claudeResponse.usage.inputTokens,
+          outputTokens: claudeResponse.usage.outputTokens,
+        });
+      } catch (error) {
+        console.warn(
+          '[ClaudeClient] Failed to record Claude usage:',
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+
+    // 呼び出し元が検証してconfirmResponse()で確定するまでキャッシュに保存しない
+    if (this.responseCache) {
+      this.pendingCacheRequests.set(claudeResponse, this.toCacheRequest(model, message, options));
+    }
+
     return claudeResponse;
   }
 
+  /**
+   * レスポンスが検証に通過したことを確定し、キャッシュに保存
+   *
+   * キャッシュから返したレスポンス・確定済みのレスポンスでは何もしない。
+   * 保存に失敗しても呼び出し結果には影響しない。
+   *
+   * @param response - sendMessage()が返したレスポンス
+   */
+  async confirmResponse(response: ClaudeResponse): Promise<void> {
+    const request = this.pendingCacheRequests.get(response);
+    if (!this.responseCache || !request) {
+      return;
+    }
+
+    this.pendingCacheRequests.delete(response);
+    await this.responseCache.set(request, response);
+  }
+
+  /**
+   * ストリーミングでメッセージを送信し、受信したイベントを1つのメッセージに組み立てる
+   *
+   * @param params - Messages APIのリクエストパラメータ
+   * @param stream - 無通信タイムアウトと全体の上限(省略時はデフォルト)
+   * @param operation - 操作名
+   * @returns 組み立てたメッセージ
+   * @throws {AIServiceStreamTimeoutError} 無通信タイムアウト・全体の上限を超えた場合
+   */
+  private streamMessage(
+    params: Anthropic.MessageCreateParamsNonStreaming,
+    stream: LlmStreamOptions,
+    operation?: string
+  ): Promise<Anthropic.Message> {
+    return readMessageStream(
+      (signal) => this.client.messages.create({ ...params, stream: true }, { signal }),
+      {
+        idleTimeoutMs: stream.idleTimeoutMs ?? DEFAULT_STREAM_IDLE_TIMEOUT_MS,
+        totalTimeoutMs: stream.totalTimeoutMs ?? DEFAULT_STREAM_TOTAL_TIMEOUT_MS,
+      },
+      operation
+    );
+  }
+
   /**
    * 内部のAnthropicクライアントを取得(テスト用)
    *
@@ -183,6 +571,11 @@ let claudeClientInstance: ClaudeClient | undefined;
  * シングルトンパターンでインスタンスを返します。
  * apiKeyConfig.getApiKey()を使用して環境変数から安全にAPIキーを読み込みます。
  *
+ * Supabaseが設定されている場合は利用料を記録し、
+ * CLAUDE_DAILY_BUDGET_USD / CLAUDE_MONTHLY_BUDGET_USDが設定されている場合は予算を確認します。
+ * CLAUDE_MODEL_ROUTESが設定されている場合は、その操作のルーティングをデフォルトより優先します。
+ * Supabaseが設定されている場合は、CLAUDE_RESPONSE_CACHE_TTL_HOURS(0で無効)の期間レスポンスをキャッシュします。
+ *
  * @returns ClaudeClientインスタンス
  * @throws {ApiKeyError} 環境変数が設定されていない場合にエラーをスロー
  *
@@ -197,7 +590,20 @@ export function getClaudeClient(): ClaudeClient {
   // 未設定・空文字・空白のみの場合はApiKeyErrorがスローされる
   const apiKey = getApiKey();
 
-  claudeClientInstance = new ClaudeClient(apiKey);
+  const usageLedger = isSupabaseConfigured() ? new SpendLedger() : undefined;
+  const budgetGuard = usageLedger
+    ? new BudgetGuard({ ...getClaudeBudgetEnvConfig(), ledger: usageLedger })
+    : undefined;
+  const { ttlMs } = getClaudeResponseCacheEnvConfig();
+  const responseCache =
+    isSupabaseConfigured() && ttlMs > 0 ? new ResponseCache({ ttlMs }) : undefined;
+
+  claudeClientInstance = new ClaudeClient(apiKey, {
+    usageLedger,
+    budgetGuard: budgetGuard?.isEnabled() ? budgetGuard : undefined,
+    modelRoutes: { ...DEFAULT_MODEL_ROUTES, ...getClaudeModelRoutesEnvConfig() },
+    responseCache,
+  });
   return claudeClientInstance;
 }
 
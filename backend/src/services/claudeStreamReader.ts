@@ -0,0 +1,219 @@
+/**
+ * Claude APIのストリーミングの読み取り
+ *
+ * Messages APIのストリーミングのイベント(テキスト・ツールの入力の差分)を逐次受信して
+ * 1つのメッセージに組み立てます。2000文字の日本語の要約のように生成に時間がかかる場合でも、
+ * 出力が届いている間は中断しないよう、1回の全体のタイムアウトではなく次の2つを別々に適用します。
+ *
+ * - 無通信タイムアウト: 最後のイベントを受信してから一定時間イベントがない場合に中断
+ * - 全体の上限: ストリーミングの開始から一定時間で完了しない場合に中断
+ *
+ * 中断した場合は、それまでに受信した出力を含むAIServiceStreamTimeoutErrorをスローします。
+ *
+ * Requirements:
+ * - 1.8 (5分以内にバッチ完了)
+ * - ストリーミングによる長い要約の生成
+ *
+ * @see https://docs.anthropic.com/en/docs/build-with-claude/streaming - Streaming Messages
+ */
+
+import type Anthropic from '@anthropic-ai/sdk';
+import { AIServiceStreamTimeoutError, StreamTimeoutReason } from './aiServiceErrorHandler';
+
+/**
+ * デフォルトの無通信タイムアウト(30秒)
+ *
+ * 生成中はイベントが数秒以内の間隔で届くため、30秒届かない場合は停止しているとみなす
+ */
+export const DEFAULT_STREAM_IDLE_TIMEOUT_MS = 30000;
+
+/**
+ * デフォルトの全体の上限(3分)
+ *
+ * バッチ全体の5分制限を考慮し、進行中の生成でもこの時間で中断する
+ */
+export const DEFAULT_STREAM_TOTAL_TIMEOUT_MS = 180000;
+
+/**
+ * ストリーミングのタイムアウト
+ */
+export interface StreamTimeouts {
+  /** 無通信タイムアウト(ミリ秒) */
+  idleTimeoutMs: number;
+  /** 全体の上限(ミリ秒) */
+  totalTimeoutMs: number;
+}
+
+/**
+ * ストリーミングを開始する関数
+ *
+ * @param signal - タイムアウト時にリクエストを中断するシグナル
+ * @returns ストリーミングのイベント
+ */
+export type MessageStreamOpener = (
+  signal: AbortSignal
+) => Promise<AsyncIterable<Anthropic.Messages.RawMessageStreamEvent>>;
+
+/**
+ * タイムアウトを表す値
+ */
+const TIMED_OUT = Symbol('timed-out');
+
+/**
+ * ストリーミングのイベントを1つのメッセージに組み立てる
+ */
+class MessageStreamAccumulator {
+  private message?: Anthropic.Message;
+  /** ツールの入力のJSON(コンテンツのインデックスごと、完了時にパースする) */
+  private readonly toolInputJson = new Map<number, string>();
+
+  /**
+   * イベントを反映
+   *
+   * @param event - ストリーミングのイベント
+   */
+  apply(event: Anthropic.Messages.RawMessageStreamEvent): void {
+    if (event.type === 'message_start') {
+      this.message = { ...event.message, content: [] };
+      return;
+    }
+
+    const message = this.message;
+    if (!message) {
+      return;
+    }
+
+    switch (event.type) {
+      case 'content_block_start':
+        message.content[event.index] = { ...event.content_block };
+        break;
+      case 'content_block_delta': {
+        const block = message.content[event.index];
+        if (event.delta.type === 'text_delta' && block?.type === 'text') {
+          block.text += event.delta.text;
+        } else if (event.delta.type === 'input_json_delta') {
+          this.toolInputJson.set(
+            event.index,
+            (this.toolInputJson.get(event.index) ?? '') + event.delta.partial_json
+          );
+        }
+        break;
+      }
+      case 'content_block_stop': {
+        const block = message.content[event.index];
+        const json = this.toolInputJson.get(event.index);
+        if (block?.type === 'tool_use' && json) {
+          try {
+            block.input = JSON.parse(json);
+          } catch {
+            // 不正なJSONはそのまま(空の入力)とし、構造化出力の検証でテキストにフォールバックする
+          }
+        }
+        break;
+      }
+      case 'message_delta':
+        message.stop_reason = event.delta.stop_reason;
+        message.stop_sequence = event.delta.stop_sequence;
+        message.usage = { ...message.usage, output_tokens: event.usage.output_tokens };
+        break;
+    }
+  }
+
+  /**
+   * 受信済みの出力(テキスト、ツールの呼び出しの場合は入力のJSONの途中まで)
+   */
+  getPartialContent(): string {
+    return (this.message?.content ?? [])
+      .map((block, index) =>
+        block.type === 'text' ? block.text : (this.toolInputJson.get(index) ?? '')
+      )
+      .join('');
+  }
+
+  /**
+   * 組み立てたメッセージを取得
+   *
+   * @throws {Error} message_startを受信していない場合
+   */
+  toMessage(): Anthropic.Message {
+    if (!this.message) {
+      throw new Error('Stream ended without a message');
+    }
+    // 差分を受信しなかったブロックを除く
+    return { ...this.message, content: this.message.content.filter(Boolean) };
+  }
+}
+
+/**
+ * ストリーミングのイベントを受信してメッセージを組み立てる
+ *
+ * ストリーミングの開始(レスポンスヘッダーの受信)にも無通信タイムアウトを適用します。
+ * タイムアウトした場合はsignalでリクエストを中断します。
+ *
+ * @param open - ストリーミングを開始する関数
+ * @param timeouts - 無通信タイムアウトと全体の上限
+ * @param operation - 操作名(エラーの記録用)
+ * @returns 組み立てたメッセージ
+ * @throws {AIServiceStreamTimeoutError} 無通信タイムアウト・全体の上限を超えた場合
+ */
+export async function readMessageStream(
+  open: MessageStreamOpener,
+  timeouts: StreamTimeouts,
+  operation?: string
+): Promise<Anthropic.Message> {
+  const controller = new AbortController();
+  const accumulator = new MessageStreamAccumulator();
+  const startedAt = Date.now();
+
+  const withDeadline = async <T>(promise: Promise<T>): Promise<T> => {
+    const remainingTotalMs = timeouts.totalTimeoutMs - (Date.now() - startedAt);
+    const reason: StreamTimeoutReason =
+      remainingTotalMs <= timeouts.idleTimeoutMs ? 'total' : 'idle';
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<typeof TIMED_OUT>((resolve) => {
+      timer = setTimeout(
+        () => resolve(TIMED_OUT),
+        reason === 'idle' ? timeouts.idleTimeoutMs : Math.max(remainingTotalMs, 0)
+      );
+    });
+
+    try {
+      const result = await Promise.race([promise, timeout]);
+      if (result !== TIMED_OUT) {
+        return result;
+      }
+    } finally {
+      clearTimeout(timer);
+    }
+
+    // 中断したリクエストのエラーは不要のため無視する
+    promise.catch(() => undefined);
+    controller.abort();
+
+    const partialContent = accumulator.getPartialContent();
+    const timeoutMs = reason === 'idle' ? timeouts.idleTimeoutMs : timeouts.totalTimeoutMs;
+    throw new AIServiceStreamTimeoutError(
+      reason === 'idle'
+        ? `Stream timed out: no events for ${timeoutMs}ms (${partialContent.length} characters received)`
+        : `Stream timed out: not completed within ${timeoutMs}ms (${partialContent.length} characters received)`,
+      timeoutMs,
+      reason,
+      partialContent,
+      operation
+    );
+  };
+
+  const stream = await withDeadline(open(controller.signal));
+  const iterator = stream[Symbol.asyncIterator]();
+
+  for (;;) {
+    const next = await withDeadline(iterator.next());
+    if (next.done) {
+      break;
+    }
+    accumulator.apply(next.value);
+  }
+
+  return accumulator.toMessage();
+}
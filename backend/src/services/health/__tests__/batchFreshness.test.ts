@@ -0,0 +1,100 @@
+/**
+ * バッチの更新の鮮度の判定のテスト
+ *
+ * Requirements:
+ * - 1.1 (毎日定時に実行)
+ * - ヘルスチェック(コンポーネントごとの状態)
+ */
+
+import {
+  evaluateBatchFreshness,
+  getLatestScheduledRun,
+  DEFAULT_BATCH_SCHEDULE,
+} from '../batchFreshness';
+
+describe('batchFreshness', () => {
+  describe('getLatestScheduledRun', () => {
+    it('定期実行の時刻を過ぎている場合は当日の実行時刻を返す', () => {
+      const run = getLatestScheduledRun(new Date('2026-01-10T22:00:00Z'), DEFAULT_BATCH_SCHEDULE);
+      expect(run.toISOString()).toBe('2026-01-10T21:30:00.000Z');
+    });
+
+    it('定期実行の時刻より前の場合は前日の実行時刻を返す', () => {
+      const run = getLatestScheduledRun(new Date('2026-01-10T10:00:00Z'), DEFAULT_BATCH_SCHEDULE);
+      expect(run.toISOString()).toBe('2026-01-09T21:30:00.000Z');
+    });
+
+    it('定期実行の時刻ちょうどの場合は当日の実行時刻を返す', () => {
+      const run = getLatestScheduledRun(new Date('2026-01-10T21:30:00Z'), DEFAULT_BATCH_SCHEDULE);
+      expect(run.toISOString()).toBe('2026-01-10T21:30:00.000Z');
+    });
+  });
+
+  describe('evaluateBatchFreshness', () => {
+    it('直近の定期実行以降に更新されている場合はokを返す', () => {
+      const result = evaluateBatchFreshness(
+        '2026-01-10T21:32:00Z',
+        new Date('2026-01-11T05:00:00Z')
+      );
+
+      expect(result.status).toBe('ok');
+      expect(result.details).toEqual({
+        lastUpdated: '2026-01-10T21:32:00.000Z',
+        expectedSince: '2026-01-10T21:30:00.000Z',
+      });
+    });
+
+    it('未更新の場合はdegradedを返す', () => {
+      const result = evaluateBatchFreshness(null, new Date('2026-01-11T05:00:00Z'));
+
+      expect(result.status).toBe('degraded');
+      expect(result.message).toBe('まだ更新されていません');
+    });
+
+    it('猶予時間内は前日の定期実行を基準にする', () => {
+      // 21:30の定期実行から10分後(実行中の可能性がある)
+      const result = evaluateBatchFreshness(
+        '2026-01-09T21:31:00Z',
+        new Date('2026-01-10T21:40:00Z')
+      );
+
+      expect(result.status).toBe('ok');
+      expect(result.details?.expectedSince).toBe('2026-01-09T21:30:00.000Z');
+    });
+
+    it('猶予時間を過ぎても更新されていない場合はdegradedを返す', () => {
+      const result = evaluateBatchFreshness(
+        '2026-01-09T21:31:00Z',
+        new Date('2026-01-10T22:40:00Z')
+      );
+
+      expect(result.status).toBe('degraded');
+      expect(result.message).toBe('定期実行による更新が1回分ありません');
+      expect(result.details?.missedRuns).toBe(1);
+    });
+
+    it('複数回分の更新がない場合は回数を返す', () => {
+      const result = evaluateBatchFreshness(
+        '2026-01-07T21:31:00Z',
+        new Date('2026-01-11T05:00:00Z')
+      );
+
+      expect(result.status).toBe('degraded');
+      expect(result.details?.missedRuns).toBe(3);
+    });
+
+    it('スケジュールと猶予時間を設定できる', () => {
+      const result = evaluateBatchFreshness(
+        '2026-01-10T05:00:00Z',
+        new Date('2026-01-10T06:10:00Z'),
+        {
+          schedule: { hourUtc: 6, minuteUtc: 0 },
+          graceMs: 5 * 60 * 1000,
+        }
+      );
+
+      expect(result.status).toBe('degraded');
+      expect(result.details?.expectedSince).toBe('2026-01-10T06:00:00.000Z');
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * ヘルスチェックサービスのテスト
+ *
+ * Requirements:
+ * - ヘルスチェック(コンポーネントごとの状態)
+ * - 12.2, 12.3 (デプロイ後の動作確認)
+ * - 9.1, 9.2 (環境変数の管理)
+ */
+
+import { HealthCheckService, HealthPing } from '..';
+
+const mockMaybeSingle = jest.fn();
+const mockSupabaseClient = {
+  from: jest.fn(() => ({
+    select: jest.fn(() => ({
+      eq: jest.fn(() => ({ maybeSingle: mockMaybeSingle })),
+    })),
+  })),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+const VALID_ENV = {
+  CLAUDE_API_KEY: 'sk-ant-api03-test_key',
+  NEWS_API_KEY: '0123456789abcdef0123456789abcdef',
+  CRON_SECRET: 'test-cron-secret',
+  SUPABASE_URL: 'https://test.supabase.co',
+  SUPABASE_SECRET_KEY: 'sb_secret_test',
+};
+
+/** 2026-01-11 05:00 UTC(直近の定期実行は2026-01-10 21:30 UTC) */
+const NOW = new Date('2026-01-11T05:00:00Z');
+
+describe('HealthCheckService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env = { ...originalEnv, ...VALID_ENV };
+    mockMaybeSingle.mockResolvedValue({
+      data: {
+        id: 'batch',
+        news_last_updated: '2026-01-10T21:32:00Z',
+        terms_last_updated: '2026-01-10T21:34:00Z',
+      },
+      error: null,
+    });
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  function createService(overrides: { claudePing?: HealthPing; newsApiPing?: HealthPing } = {}) {
+    return new HealthCheckService({
+      timeoutMs: 100,
+      claudePing: overrides.claudePing ?? jest.fn().mockResolvedValue(undefined),
+      newsApiPing: overrides.newsApiPing ?? jest.fn().mockResolvedValue(undefined),
+      now: () => NOW,
+    });
+  }
+
+  it('すべてのコンポーネントが正常な場合はokを返す', async () => {
+    const report = await createService().check();
+
+    expect(report.status).toBe('ok');
+    expect(report.live).toBe(false);
+    expect(report.checkedAt).toBe(NOW.toISOString());
+    expect(Object.values(report.components).map((c) => c.status)).toEqual(Array(6).fill('ok'));
+    expect(mockSupabaseClient.from).toHaveBeenCalledWith('batch_metadata');
+  });
+
+  it('必須の環境変数が不足している場合はdownを返す', async () => {
+    delete process.env.SUPABASE_SECRET_KEY;
+
+    const report = await createService().check();
+
+    expect(report.status).toBe('down');
+    expect(report.components.environment.status).toBe('down');
+    expect(report.components.environment.details).toEqual({
+      missing: ['SUPABASE_SECRET_KEY'],
+    });
+  });
+
+  it('Supabaseへの接続に失敗した場合はdownを返し、鮮度は確認できない', async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null, error: { message: 'connection refused' } });
+
+    const report = await createService().check();
+
+    expect(report.status).toBe('down');
+    expect(report.components.supabase).toMatchObject({
+      status: 'down',
+      message: '接続に失敗しました: connection refused',
+    });
+    expect(report.components.newsFreshness.status).toBe('degraded');
+    expect(report.components.termsFreshness.status).toBe('degraded');
+  });
+
+  it('Supabaseへのクエリがタイムアウトした場合はdownを返す', async () => {
+    mockMaybeSingle.mockReturnValue(new Promise(() => {}));
+
+    const report = await createService().check();
+
+    expect(report.components.supabase).toMatchObject({
+      status: 'down',
+      message: '接続に失敗しました: timed out after 100ms',
+    });
+  });
+
+  it('batch_metadataの行がない場合は鮮度をdegradedにする', async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+    const report = await createService().check();
+
+    expect(report.status).toBe('degraded');
+    expect(report.components.supabase.status).toBe('ok');
+    expect(report.components.newsFreshness.message).toBe('batch_metadataの行がありません');
+  });
+
+  it('ニュースが更新されていない場合は鮮度をdegradedにする', async () => {
+    mockMaybeSingle.mockResolvedValue({
+      data: {
+        id: 'batch',
+        news_last_updated: '2026-01-08T21:32:00Z',
+        terms_last_updated: '2026-01-10T21:34:00Z',
+      },
+      error: null,
+    });
+
+    const report = await createService().check();
+
+    expect(report.status).toBe('degraded');
+    expect(report.components.newsFreshness.details?.missedRuns).toBe(2);
+    expect(report.components.termsFreshness.status).toBe('ok');
+  });
+
+  it('APIキーが未設定の場合はdownを返す', async () => {
+    delete process.env.NEWS_API_KEY;
+
+    const report = await createService().check();
+
+    expect(report.components.newsApi).toMatchObject({
+      status: 'down',
+      message: 'NEWS_API_KEYが設定されていません',
+    });
+  });
+
+  it('APIキーの形式が想定と異なる場合はdegradedを返す', async () => {
+    process.env.CLAUDE_API_KEY = 'invalid-key';
+
+    const report = await createService().check();
+
+    expect(report.status).toBe('degraded');
+    expect(report.components.claude).toMatchObject({
+      status: 'degraded',
+      message: 'CLAUDE_API_KEYの形式が想定と異なります',
+    });
+  });
+
+  describe('ライブチェック', () => {
+    it('ライブチェックでない場合は外部APIに問い合わせない', async () => {
+      const claudePing = jest.fn().mockResolvedValue(undefined);
+      const newsApiPing = jest.fn().mockResolvedValue(undefined);
+
+      await createService({ claudePing, newsApiPing }).check({ live: false });
+
+      expect(claudePing).not.toHaveBeenCalled();
+      expect(newsApiPing).not.toHaveBeenCalled();
+    });
+
+    it('疎通に成功した場合はokを返す', async () => {
+      const claudePing = jest.fn().mockResolvedValue(undefined);
+      const newsApiPing = jest.fn().mockResolvedValue(undefined);
+
+      const report = await createService({ claudePing, newsApiPing }).check({ live: true });
+
+      expect(report.status).toBe('ok');
+      expect(report.live).toBe(true);
+      expect(claudePing).toHaveBeenCalledWith(VALID_ENV.CLAUDE_API_KEY, 100);
+      expect(newsApiPing).toHaveBeenCalledWith(VALID_ENV.NEWS_API_KEY, 100);
+      expect(report.components.claude).toMatchObject({
+        status: 'ok',
+        message: 'APIに接続できました',
+        details: { live: true },
+      });
+    });
+
+    it('疎通に失敗した場合はdownを返す', async () => {
+      const claudePing = jest.fn().mockRejectedValue(new Error('401 invalid x-api-key'));
+
+      const report = await createService({ claudePing }).check({ live: true });
+
+      expect(report.status).toBe('down');
+      expect(report.components.claude).toMatchObject({
+        status: 'down',
+        message: 'APIへの接続に失敗しました: 401 invalid x-api-key',
+      });
+      expect(report.components.newsApi.status).toBe('ok');
+    });
+
+    it('疎通がタイムアウトした場合はdownを返す', async () => {
+      const newsApiPing = jest.fn().mockReturnValue(new Promise(() => {}));
+
+      const report = await createService({ newsApiPing }).check({ live: true });
+
+      expect(report.components.newsApi).toMatchObject({
+        status: 'down',
+        message: 'APIへの接続に失敗しました: timed out after 100ms',
+      });
+    });
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * バッチの更新の鮮度の判定
+ *
+ * batch_metadataの最終更新日時(news_last_updated / terms_last_updated)を
+ * Cronのスケジュール(vercel.jsonのcrons)と比較し、直近の定期実行が完了しているかを判定します。
+ * 定期実行の時刻から猶予時間が経過するまでは実行中とみなし、その前の定期実行を基準にします。
+ *
+ * Requirements:
+ * - 1.1 (毎日定時に実行)
+ * - ヘルスチェック(コンポーネントごとの状態)
+ */
+
+import type { ComponentHealth } from './healthTypes';
+
+/**
+ * 1日のミリ秒
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 毎日の定期実行の時刻(UTC)
+ */
+export interface DailySchedule {
+  /** 時(UTC、0-23) */
+  hourUtc: number;
+  /** 分(0-59) */
+  minuteUtc: number;
+}
+
+/**
+ * ニュース・用語バッチのスケジュール(vercel.jsonの "30 21 * * *" = 6:30 JST)
+ */
+export const DEFAULT_BATCH_SCHEDULE: DailySchedule = { hourUtc: 21, minuteUtc: 30 };
+
+/**
+ * 定期実行の時刻から完了を待つ猶予時間(1時間)
+ *
+ * バッチの実行時間(最大5分)とCronの起動の遅れ・手動での再実行を考慮する
+ */
+export const DEFAULT_BATCH_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * 鮮度の判定の設定
+ */
+export interface BatchFreshnessConfig {
+  /**
+   * 定期実行の時刻
+   * @default DEFAULT_BATCH_SCHEDULE
+   */
+  schedule?: DailySchedule;
+  /**
+   * 定期実行の時刻から完了を待つ猶予時間(ミリ秒)
+   * @default DEFAULT_BATCH_GRACE_MS
+   */
+  graceMs?: number;
+}
+
+/**
+ * 指定した日時以前の直近の定期実行の時刻を取得
+ *
+ * @param now - 基準日時
+ * @param schedule - 定期実行の時刻
+ * @returns 直近の定期実行の時刻
+ */
+export function getLatestScheduledRun(now: Date, schedule: DailySchedule): Date {
+  const run = new Date(
+    Date.UTC(
+      now.getUTCFullYear(),
+      now.getUTCMonth(),
+      now.getUTCDate(),
+      schedule.hourUtc,
+      schedule.minuteUtc
+    )
+  );
+  return run.getTime() > now.getTime() ? new Date(run.getTime() - DAY_MS) : run;
+}
+
+/**
+ * 最終更新日時から更新の鮮度を判定
+ *
+ * - ok: 完了しているべき直近の定期実行以降に更新されている
+ * - degraded: 未更新、または完了しているべき定期実行の後に更新されていない
+ *
+ * @param lastUpdated - 最終更新日時(ISO 8601形式、未更新の場合はnull)
+ * @param now - 現在日時
+ * @param config - スケジュールと猶予時間
+ * @returns 鮮度の状態
+ */
+export function evaluateBatchFreshness(
+  lastUpdated: string | null,
+  now: Date,
+  config: BatchFreshnessConfig = {}
+): ComponentHealth {
+  const schedule = config.schedule ?? DEFAULT_BATCH_SCHEDULE;
+  const graceMs = config.graceMs ?? DEFAULT_BATCH_GRACE_MS;
+
+  // 猶予時間内の定期実行は実行中とみなし、その前の定期実行を基準にする
+  const latestRun = getLatestScheduledRun(now, schedule);
+  const expectedSince =
+    now.getTime() - latestRun.getTime() < graceMs
+      ? new Date(latestRun.getTime() - DAY_MS)
+      : latestRun;
+
+  if (!lastUpdated) {
+    return {
+      status: 'degraded',
+      message: 'まだ更新されていません',
+      details: { lastUpdated: null, expectedSince: expectedSince.toISOString() },
+    };
+  }
+
+  const updatedAt = new Date(lastUpdated);
+  const details = {
+    lastUpdated: updatedAt.toISOString(),
+    expectedSince: expectedSince.toISOString(),
+  };
+
+  if (updatedAt.getTime() >= expectedSince.getTime()) {
+    return { status: 'ok', message: '最新の定期実行で更新されています', details };
+  }
+
+  const missedRuns = Math.floor((expectedSince.getTime() - updatedAt.getTime()) / DAY_MS) + 1;
+  return {
+    status: 'degraded',
+    message: `定期実行による更新が${missedRuns}回分ありません`,
+    details: { ...details, missedRuns },
+  };
+}
@@ -0,0 +1,367 @@
+/**
+ * ヘルスチェックサービス
+ *
+ * デプロイ後の動作確認・監視のため、次のコンポーネントの状態を確認し、
+ * コンポーネントごとの状態と全体の状態(ok / degraded / down)を返します。
+ *
+ * - environment: envConfigで必須とされている環境変数が設定されているか
+ * - supabase: batch_metadataテーブルへの軽量なクエリが成功するか
+ * - newsApi / claude: APIキーが設定され、想定した形式か(ライブチェック時はAPIへの疎通も確認)
+ * - newsFreshness / termsFreshness: batch_metadataの最終更新日時がCronのスケジュールに沿っているか
+ *
+ * 外部APIへの疎通確認(ライブチェック)はNewsAPIの無料枠を消費するため、明示的に指定した場合のみ行います。
+ *
+ * Requirements:
+ * - ヘルスチェック(コンポーネントごとの状態)
+ * - 12.2, 12.3 (デプロイ後の動作確認)
+ * - 9.1, 9.2 (環境変数の管理)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getSupabase } from '../../config/supabase';
+import { generateEnvVarErrorMessage, validateAllEnvVars } from '../../config/envConfig';
+import { BATCH_METADATA_ID, METADATA_TABLE } from '../../models/metadata.model';
+import type { BatchMetadataRow } from '../../models/supabase.types';
+import { NewsApiClient } from '../news/fetchers/newsApiClient';
+import { BatchFreshnessConfig, evaluateBatchFreshness } from './batchFreshness';
+import {
+  ComponentHealth,
+  HealthComponentName,
+  HealthReport,
+  aggregateHealthStatus,
+} from './healthTypes';
+
+/**
+ * デフォルトの確認ごとのタイムアウト(5秒)
+ */
+const DEFAULT_TIMEOUT_MS = 5000;
+
+/**
+ * Claude APIキーの形式(sk-ant-で始まる)
+ */
+const CLAUDE_API_KEY_PATTERN = /^sk-ant-[A-Za-z0-9_-]+$/;
+
+/**
+ * NewsAPIキーの形式(32桁の16進数)
+ */
+const NEWS_API_KEY_PATTERN = /^[0-9a-f]{32}$/i;
+
+/**
+ * APIへの疎通を確認する関数
+ *
+ * @param apiKey - APIキー
+ * @param timeoutMs - タイムアウト(ミリ秒)
+ * @throws 疎通に失敗した場合
+ */
+export type HealthPing = (apiKey: string, timeoutMs: number) => Promise<void>;
+
+/**
+ * Claude APIへの疎通を確認(モデル一覧を1件取得、トークンを消費しない)
+ */
+export const pingClaude: HealthPing = async (apiKey, timeoutMs) => {
+  await new Anthropic({ apiKey, timeout: timeoutMs, maxRetries: 0 }).models.list({ limit: 1 });
+};
+
+/**
+ * NewsAPIへの疎通を確認(ニュースソースの一覧を取得、無料枠を1リクエスト消費する)
+ */
+export const pingNewsApi: HealthPing = async (apiKey, timeoutMs) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const baseUrl = new NewsApiClient({ apiKey }).getBaseUrl();
+    const response = await fetch(`${baseUrl}/top-headlines/sources?language=en`, {
+      headers: { 'X-Api-Key': apiKey },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`NewsAPI responded with status ${response.status}`);
+    }
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * ヘルスチェックサービスの設定
+ */
+export interface HealthCheckServiceConfig {
+  /**
+   * 確認ごとのタイムアウト(ミリ秒)
+   * @default 5000
+   */
+  timeoutMs?: number;
+  /**
+   * Claude APIへの疎通を確認する関数(ライブチェック時のみ使用)
+   * @default pingClaude
+   */
+  claudePing?: HealthPing;
+  /**
+   * NewsAPIへの疎通を確認する関数(ライブチェック時のみ使用)
+   * @default pingNewsApi
+   */
+  newsApiPing?: HealthPing;
+  /**
+   * バッチの更新の鮮度の判定の設定
+   * @default DEFAULT_BATCH_SCHEDULE・DEFAULT_BATCH_GRACE_MS
+   */
+  freshness?: BatchFreshnessConfig;
+  /**
+   * 現在日時を返す関数(テスト用)
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * ヘルスチェックのオプション
+ */
+export interface HealthCheckOptions {
+  /**
+   * 外部API(Claude API・NewsAPI)への疎通を確認する
+   * @default false
+   */
+  live?: boolean;
+}
+
+/**
+ * ヘルスチェックサービス
+ *
+ * @example
+ * ```typescript
+ * const report = await new HealthCheckService().check({ live: false });
+ * // report.status === 'ok' | 'degraded' | 'down'
+ * // report.components.supabase.status
+ * ```
+ */
+export class HealthCheckService {
+  private readonly timeoutMs: number;
+  private readonly claudePing: HealthPing;
+  private readonly newsApiPing: HealthPing;
+  private readonly freshness: BatchFreshnessConfig;
+  private readonly now: () => Date;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - サービス設定
+   */
+  constructor(config: HealthCheckServiceConfig = {}) {
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.claudePing = config.claudePing ?? pingClaude;
+    this.newsApiPing = config.newsApiPing ?? pingNewsApi;
+    this.freshness = config.freshness ?? {};
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * すべてのコンポーネントの状態を確認
+   *
+   * 各コンポーネントは並行して確認し、確認中のエラーはそのコンポーネントの状態として返します。
+   *
+   * @param options - ヘルスチェックのオプション
+   * @returns ヘルスチェックの結果
+   */
+  async check(options: HealthCheckOptions = {}): Promise<HealthReport> {
+    const live = options.live ?? false;
+    const startedAt = Date.now();
+
+    const [supabase, newsApi, claude] = await Promise.all([
+      this.checkSupabase(),
+      this.checkApiKey(
+        'NEWS_API_KEY',
+        process.env.NEWS_API_KEY,
+        NEWS_API_KEY_PATTERN,
+        live ? this.newsApiPing : undefined
+      ),
+      this.checkApiKey(
+        'CLAUDE_API_KEY',
+        process.env.CLAUDE_API_KEY,
+        CLAUDE_API_KEY_PATTERN,
+        live ? this.claudePing : undefined
+      ),
+    ]);
+
+    const components: Record<HealthComponentName, ComponentHealth> = {
+      environment: this.checkEnvironment(),
+      supabase: supabase.health,
+      newsApi,
+      claude,
+      newsFreshness: this.checkFreshness(supabase.metadata, 'news_last_updated'),
+      termsFreshness: this.checkFreshness(supabase.metadata, 'terms_last_updated'),
+    };
+
+    return {
+      status: aggregateHealthStatus(Object.values(components).map((c) => c.status)),
+      components,
+      live,
+      checkedAt: this.now().toISOString(),
+      durationMs: Date.now() - startedAt,
+    };
+  }
+
+  /**
+   * 必須の環境変数を確認
+   *
+   * @returns 環境変数の状態
+   */
+  private checkEnvironment(): ComponentHealth {
+    const result = validateAllEnvVars();
+
+    if (!result.isValid) {
+      return {
+        status: 'down',
+        message: generateEnvVarErrorMessage(result.missingVars),
+        details: { missing: result.missingVars },
+      };
+    }
+
+    return {
+      status: 'ok',
+      message: '必須の環境変数が設定されています',
+      details: { configured: result.configuredVars },
+    };
+  }
+
+  /**
+   * Supabaseへの接続を確認し、バッチのメタデータを取得
+   *
+   * @returns 接続の状態と取得したメタデータ(取得できなかった場合はundefined、行がない場合はnull)
+   */
+  private async checkSupabase(): Promise<{
+    health: ComponentHealth;
+    metadata?: BatchMetadataRow | null;
+  }> {
+    const startedAt = Date.now();
+
+    try {
+      const { data, error } = await this.withTimeout(
+        Promise.resolve(
+          getSupabase()
+            .from(METADATA_TABLE)
+            .select('id, news_last_updated, terms_last_updated')
+            .eq('id', BATCH_METADATA_ID)
+            .maybeSingle()
+        )
+      );
+
+      if (error) {
+        throw new Error(error.message);
+      }
+
+      return {
+        health: { status: 'ok', message: '接続できました', latencyMs: Date.now() - startedAt },
+        metadata: (data as BatchMetadataRow | null) ?? null,
+      };
+    } catch (error) {
+      return {
+        health: {
+          status: 'down',
+          message: `接続に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+          latencyMs: Date.now() - startedAt,
+        },
+      };
+    }
+  }
+
+  /**
+   * APIキーの設定・形式を確認し、指定した場合はAPIへの疎通を確認
+   *
+   * @param envName - 環境変数名
+   * @param apiKey - APIキー
+   * @param pattern - 想定したAPIキーの形式
+   * @param ping - 疎通を確認する関数(ライブチェックでない場合はundefined)
+   * @returns APIの状態
+   */
+  private async checkApiKey(
+    envName: string,
+    apiKey: string | undefined,
+    pattern: RegExp,
+    ping?: HealthPing
+  ): Promise<ComponentHealth> {
+    const key = apiKey?.trim();
+    if (!key) {
+      return { status: 'down', message: `${envName}が設定されていません` };
+    }
+
+    const formatValid = pattern.test(key);
+    const keyHealth: ComponentHealth = formatValid
+      ? { status: 'ok', message: 'APIキーが設定されています' }
+      : { status: 'degraded', message: `${envName}の形式が想定と異なります` };
+
+    if (!ping) {
+      return { ...keyHealth, details: { live: false } };
+    }
+
+    const startedAt = Date.now();
+    try {
+      await this.withTimeout(ping(key, this.timeoutMs));
+      return {
+        ...keyHealth,
+        message: formatValid ? 'APIに接続できました' : keyHealth.message,
+        latencyMs: Date.now() - startedAt,
+        details: { live: true },
+      };
+    } catch (error) {
+      return {
+        status: 'down',
+        message: `APIへの接続に失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+        latencyMs: Date.now() - startedAt,
+        details: { live: true },
+      };
+    }
+  }
+
+  /**
+   * バッチの更新の鮮度を確認
+   *
+   * @param metadata - バッチのメタデータ(取得できなかった場合はundefined、行がない場合はnull)
+   * @param column - 最終更新日時の列
+   * @returns 鮮度の状態
+   */
+  private checkFreshness(
+    metadata: BatchMetadataRow | null | undefined,
+    column: 'news_last_updated' | 'terms_last_updated'
+  ): ComponentHealth {
+    if (metadata === undefined) {
+      return {
+        status: 'degraded',
+        message: 'Supabaseに接続できないため確認できません',
+      };
+    }
+
+    if (metadata === null) {
+      return {
+        status: 'degraded',
+        message: `${METADATA_TABLE}の行がありません`,
+      };
+    }
+
+    return evaluateBatchFreshness(metadata[column], this.now(), this.freshness);
+  }
+
+  /**
+   * タイムアウト付きで確認を実行
+   *
+   * @param promise - 確認の処理
+   * @returns 確認の結果
+   * @throws {Error} タイムアウトした場合
+   */
+  private async withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timeoutId: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timeoutId = setTimeout(
+        () => reject(new Error(`timed out after ${this.timeoutMs}ms`)),
+        this.timeoutMs
+      );
+    });
+
+    try {
+      return await Promise.race([promise, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
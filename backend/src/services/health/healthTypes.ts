@@ -0,0 +1,86 @@
+/**
+ * ヘルスチェックの型定義
+ *
+ * Requirements:
+ * - ヘルスチェック(コンポーネントごとの状態)
+ * - 12.2, 12.3 (デプロイ後の動作確認)
+ */
+
+/**
+ * ヘルスチェックの状態
+ *
+ * - ok: 正常
+ * - degraded: 動作しているが一部に問題がある(古いデータの配信、キーの形式の不一致など)
+ * - down: 動作していない(必須の環境変数の不足、データベースに接続できないなど)
+ */
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+/**
+ * 状態の順序(大きいほど深刻)
+ */
+const STATUS_RANK: Record<HealthStatus, number> = {
+  ok: 0,
+  degraded: 1,
+  down: 2,
+};
+
+/**
+ * 全体の状態を集計
+ *
+ * @param statuses - コンポーネントごとの状態
+ * @returns 最も深刻な状態(コンポーネントがない場合はok)
+ */
+export function aggregateHealthStatus(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>(
+    (worst, status) => (STATUS_RANK[status] > STATUS_RANK[worst] ? status : worst),
+    'ok'
+  );
+}
+
+/**
+ * コンポーネントの状態
+ */
+export interface ComponentHealth {
+  /** 状態 */
+  status: HealthStatus;
+  /** 状態の説明 */
+  message: string;
+  /** 確認にかかった時間(ミリ秒、外部への問い合わせを行った場合のみ) */
+  latencyMs?: number;
+  /** 詳細情報(秘密情報は含めない) */
+  details?: Record<string, unknown>;
+}
+
+/**
+ * ヘルスチェックの対象のコンポーネント
+ *
+ * - environment: 必須の環境変数
+ * - supabase: データベースへの接続
+ * - newsApi: NewsAPIのAPIキー(ライブチェック時は疎通)
+ * - claude: Claude APIのAPIキー(ライブチェック時は疎通)
+ * - newsFreshness: ニュースの最終更新日時
+ * - termsFreshness: 用語の最終更新日時
+ */
+export type HealthComponentName =
+  | 'environment'
+  | 'supabase'
+  | 'newsApi'
+  | 'claude'
+  | 'newsFreshness'
+  | 'termsFreshness';
+
+/**
+ * ヘルスチェックの結果
+ */
+export interface HealthReport {
+  /** 全体の状態(コンポーネントの最も深刻な状態) */
+  status: HealthStatus;
+  /** コンポーネントごとの状態 */
+  components: Record<HealthComponentName, ComponentHealth>;
+  /** 外部APIへの疎通確認を行ったかどうか */
+  live: boolean;
+  /** 確認日時(ISO 8601形式) */
+  checkedAt: string;
+  /** 確認にかかった時間(ミリ秒) */
+  durationMs: number;
+}
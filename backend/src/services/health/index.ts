@@ -0,0 +1,32 @@
+/**
+ * ヘルスチェックモジュール
+ *
+ * 環境変数・Supabase・外部APIのキー・バッチの更新の鮮度を確認し、
+ * コンポーネントごとの状態と全体の状態(ok / degraded / down)を返す機能を提供します。
+ */
+
+export {
+  HealthCheckService,
+  pingClaude,
+  pingNewsApi,
+  type HealthCheckServiceConfig,
+  type HealthCheckOptions,
+  type HealthPing,
+} from './healthCheckService';
+
+export {
+  evaluateBatchFreshness,
+  getLatestScheduledRun,
+  DEFAULT_BATCH_SCHEDULE,
+  DEFAULT_BATCH_GRACE_MS,
+  type BatchFreshnessConfig,
+  type DailySchedule,
+} from './batchFreshness';
+
+export {
+  aggregateHealthStatus,
+  type HealthStatus,
+  type HealthComponentName,
+  type ComponentHealth,
+  type HealthReport,
+} from './healthTypes';
@@ -0,0 +1,212 @@
+/**
+ * フェイクLLMプロバイダーのテスト
+ *
+ * Requirements: LLMプロバイダーの抽象化(オフライン実行)
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  FakeLlmProvider,
+  FAKE_LLM_MODEL,
+  LlmFixtureError,
+  loadLlmFixtures,
+} from '../fakeLlmProvider';
+import { DEFAULT_LLM_FIXTURES } from '../defaultLlmFixtures';
+import { AIServiceError } from '../../aiServiceErrorHandler';
+import { getTokenUsageTracker, resetTokenUsageTracker } from '../../tokenUsageTracker';
+import { parseTermResponse, validateTermDescription } from '../../terms/termResponseParser';
+import { parseTermQuizResponse } from '../../terms/termQuizResponseParser';
+import {
+  parseSummaryResponse,
+  validateSummaryLength,
+} from '../../news/summarization/summaryResponseParser';
+import {
+  SUMMARY_CONFIG,
+  CATEGORY_SUMMARY_CONFIG,
+} from '../../news/summarization/newsSummaryPrompt';
+import { validateTerm } from '../../../models/terms.model';
+
+describe('FakeLlmProvider', () => {
+  beforeEach(() => {
+    resetTokenUsageTracker();
+  });
+
+  describe('sendMessage', () => {
+    it('操作名とプロンプトに一致する最初のフィクスチャを返す', async () => {
+      // Arrange
+      const provider = new FakeLlmProvider({
+        fixtures: [
+          { operation: 'term-generation', match: '上級', content: 'advanced' },
+          { operation: 'term-generation', content: 'default' },
+          { operation: 'term-generation', content: 'unused' },
+        ],
+      });
+
+      // Act
+      const advanced = await provider.sendMessage('上級の用語', { operation: 'term-generation' });
+      const fallback = await provider.sendMessage('初級の用語', { operation: 'term-generation' });
+
+      // Assert
+      expect(advanced.content).toBe('advanced');
+      expect(fallback.content).toBe('default');
+      expect(provider.getCalls().map((call) => call.fixture.content)).toEqual([
+        'advanced',
+        'default',
+      ]);
+    });
+
+    it('一致するフィクスチャがない場合はAIServiceErrorをスローする', async () => {
+      // Arrange
+      const provider = new FakeLlmProvider({ fixtures: [] });
+
+      // Act & Assert
+      await expect(
+        provider.sendMessage('prompt', { operation: 'term-generation' })
+      ).rejects.toBeInstanceOf(AIServiceError);
+    });
+
+    it('文字数から決定的なトークン数を算出し、使用量を記録する', async () => {
+      // Arrange
+      const provider = new FakeLlmProvider({
+        fixtures: [{ operation: 'term-generation', content: 'abcde' }],
+      });
+
+      // Act
+      const response = await provider.sendMessage('1234', {
+        operation: 'term-generation',
+        system: 'sys',
+      });
+
+      // Assert
+      expect(response).toEqual({
+        content: 'abcde',
+        usage: { inputTokens: 7, outputTokens: 5 },
+        model: FAKE_LLM_MODEL,
+        stopReason: 'end_turn',
+      });
+      expect(getTokenUsageTracker().getRecords()).toEqual([
+        expect.objectContaining({ operation: 'term-generation', inputTokens: 7, outputTokens: 5 }),
+      ]);
+    });
+
+    it('モデルが指定された場合はそのモデル名を返す', async () => {
+      // Arrange
+      const provider = new FakeLlmProvider({
+        fixtures: [{ operation: 'term-generation', content: 'x' }],
+      });
+
+      // Act
+      const response = await provider.sendMessage('prompt', {
+        operation: 'term-generation',
+        model: 'custom-model',
+      });
+
+      // Assert
+      expect(response.model).toBe('custom-model');
+    });
+  });
+
+  describe('DEFAULT_LLM_FIXTURES', () => {
+    const provider = new FakeLlmProvider();
+
+    it.each(['【初級レベル】', '【中級レベル】', '【上級レベル】'])(
+      '%sの用語生成レスポンスがパーサーと文字数の検証を通過する',
+      async (level) => {
+        // Act
+        const response = await provider.sendMessage(`${level}の用語を生成`, {
+          operation: 'term-generation',
+        });
+        const result = parseTermResponse(response);
+
+        // Assert
+        expect(result.success).toBe(true);
+        expect(validateTermDescription(result.term!.description).isValid).toBe(true);
+        expect(() => validateTerm(result.term!)).not.toThrow();
+      }
+    );
+
+    it.each(['english-news-summary', 'japanese-news-summary'])(
+      '%sのレスポンスが要約の文字数の検証を通過する',
+      async (operation) => {
+        // Act
+        const response = await provider.sendMessage('prompt', { operation });
+        const result = parseSummaryResponse(response);
+
+        // Assert
+        expect(validateSummaryLength(result.summary, SUMMARY_CONFIG).isValid).toBe(true);
+      }
+    );
+
+    it('カテゴリ別要約のレスポンスが文字数の検証を通過する', async () => {
+      // Act
+      const response = await provider.sendMessage('prompt', {
+        operation: 'category-news-summary',
+      });
+      const result = parseSummaryResponse(response);
+
+      // Assert
+      expect(validateSummaryLength(result.summary, CATEGORY_SUMMARY_CONFIG).isValid).toBe(true);
+    });
+
+    it('用語クイズのレスポンスがパーサーを通過する', async () => {
+      // Act
+      const response = await provider.sendMessage('prompt', {
+        operation: 'term-quiz-generation',
+      });
+      const result = parseTermQuizResponse(response);
+
+      // Assert
+      expect(result.success).toBe(true);
+      expect(result.questions!.length).toBeGreaterThanOrEqual(2);
+    });
+  });
+});
+
+describe('loadLlmFixtures', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('JSONファイルからフィクスチャを読み込む', () => {
+    // Arrange
+    const path = join(dir, 'fixtures.json');
+    const fixtures = [
+      { operation: 'term-generation', match: 'PER', content: '{"name":"PER"}' },
+      { operation: 'english-news-summary', content: 'summary' },
+    ];
+    writeFileSync(path, JSON.stringify(fixtures));
+
+    // Act & Assert
+    expect(loadLlmFixtures(path)).toEqual(fixtures);
+  });
+
+  it('ファイルが存在しない場合はLlmFixtureErrorをスローする', () => {
+    expect(() => loadLlmFixtures(join(dir, 'missing.json'))).toThrow(LlmFixtureError);
+  });
+
+  it('形式が不正な場合はLlmFixtureErrorをスローする', () => {
+    // Arrange
+    const path = join(dir, 'invalid.json');
+    writeFileSync(path, JSON.stringify([{ operation: 'term-generation' }]));
+
+    // Act & Assert
+    expect(() => loadLlmFixtures(path)).toThrow(LlmFixtureError);
+  });
+
+  it('デフォルトフィクスチャと同じ形式で書き出したファイルを読み込める', () => {
+    // Arrange
+    const path = join(dir, 'defaults.json');
+    writeFileSync(path, JSON.stringify(DEFAULT_LLM_FIXTURES));
+
+    // Act & Assert
+    expect(loadLlmFixtures(path)).toEqual(DEFAULT_LLM_FIXTURES);
+  });
+});
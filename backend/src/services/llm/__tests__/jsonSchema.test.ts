@@ -0,0 +1,105 @@
+/**
+ * JSONスキーマの検証のテスト
+ *
+ * Requirements: 構造化出力(ツールの入力のスキーマ検証)
+ */
+
+import { JsonSchema, formatJsonSchemaIssues, validateJsonSchema } from '../jsonSchema';
+
+describe('validateJsonSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, maxLength: 10 },
+      difficulty: { type: 'string', enum: ['beginner', 'advanced'] },
+      score: { type: 'integer', minimum: 0, maximum: 100 },
+      questions: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: { options: { type: 'array', items: { type: 'string' } } },
+          required: ['options'],
+        },
+      },
+    },
+    required: ['name', 'difficulty'],
+    additionalProperties: false,
+  };
+
+  it('スキーマに従う値は検証エラーなしとする', () => {
+    const value = {
+      name: 'PER',
+      difficulty: 'beginner',
+      score: 80,
+      questions: [{ options: ['a', 'b'] }],
+    };
+
+    expect(validateJsonSchema(value, schema)).toEqual([]);
+  });
+
+  it('ルートの型が異なる場合はそれ以上検証しない', () => {
+    expect(validateJsonSchema('PER', schema)).toEqual([
+      { path: '$', message: 'must be object (got string)' },
+    ]);
+    expect(validateJsonSchema([], schema)).toEqual([
+      { path: '$', message: 'must be object (got array)' },
+    ]);
+  });
+
+  it('必須プロパティの不足と想定外のプロパティを位置付きで返す', () => {
+    expect(validateJsonSchema({ difficulty: 'beginner', extra: 1 }, schema)).toEqual([
+      { path: '$.name', message: 'required property is missing' },
+      { path: '$.extra', message: 'unexpected property' },
+    ]);
+  });
+
+  it('列挙値・文字数・数値の範囲を検証する', () => {
+    const issues = validateJsonSchema({ name: '', difficulty: 'expert', score: 100.5 }, schema);
+
+    expect(issues).toEqual([
+      { path: '$.name', message: 'must have at least 1 characters (got 0)' },
+      { path: '$.difficulty', message: 'must be one of "beginner", "advanced"' },
+      { path: '$.score', message: 'must be integer (got number)' },
+    ]);
+  });
+
+  it('配列の要素をインデックス付きの位置で検証する', () => {
+    const issues = validateJsonSchema(
+      {
+        name: 'PER',
+        difficulty: 'beginner',
+        questions: [{ options: ['a'] }, { options: [1] }, {}],
+      },
+      schema
+    );
+
+    expect(issues).toEqual([
+      { path: '$.questions[1].options[0]', message: 'must be string (got number)' },
+      { path: '$.questions[2].options', message: 'required property is missing' },
+    ]);
+  });
+
+  it('識別子でないプロパティ名は角括弧で表す', () => {
+    expect(
+      validateJsonSchema(
+        { 'a-b': 1 },
+        { type: 'object', required: ['x y'], additionalProperties: false }
+      )
+    ).toEqual([
+      { path: '$["x y"]', message: 'required property is missing' },
+      { path: '$["a-b"]', message: 'unexpected property' },
+    ]);
+  });
+});
+
+describe('formatJsonSchemaIssues', () => {
+  it('検証エラーを位置付きの1行にまとめる', () => {
+    expect(
+      formatJsonSchemaIssues([
+        { path: '$.name', message: 'required property is missing' },
+        { path: '$.difficulty', message: 'must be string (got null)' },
+      ])
+    ).toBe('$.name: required property is missing; $.difficulty: must be string (got null)');
+  });
+});
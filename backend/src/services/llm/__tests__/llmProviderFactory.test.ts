@@ -0,0 +1,116 @@
+/**
+ * LLMプロバイダー作成のテスト
+ *
+ * Requirements: LLMプロバイダーの抽象化
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  createLlmProviderFromEnv,
+  getLlmProvider,
+  resetLlmProvider,
+  LlmProviderConfigError,
+} from '../llmProviderFactory';
+import { OpenAiCompatibleProvider } from '../openAiCompatibleProvider';
+import { FakeLlmProvider } from '../fakeLlmProvider';
+import { ClaudeClient, resetClaudeClient } from '../../claudeClient';
+
+describe('createLlmProviderFromEnv', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.LLM_PROVIDER;
+    delete process.env.LLM_BASE_URL;
+    delete process.env.LLM_API_KEY;
+    delete process.env.LLM_MODEL;
+    delete process.env.LLM_FIXTURES_PATH;
+    delete process.env.SUPABASE_URL;
+    delete process.env.SUPABASE_SECRET_KEY;
+    resetClaudeClient();
+    resetLlmProvider();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('LLM_PROVIDERが未設定の場合はClaudeClientを返す', () => {
+    // Arrange
+    process.env.CLAUDE_API_KEY = 'sk-ant-test';
+
+    // Act & Assert
+    expect(createLlmProviderFromEnv()).toBeInstanceOf(ClaudeClient);
+  });
+
+  it('openai-compatibleの場合はOpenAiCompatibleProviderを返す', () => {
+    // Arrange
+    process.env.LLM_PROVIDER = 'OpenAI-Compatible';
+    process.env.LLM_BASE_URL = 'http://localhost:11434/v1';
+    process.env.LLM_MODEL = 'llama3.1';
+
+    // Act
+    const provider = createLlmProviderFromEnv();
+
+    // Assert
+    expect(provider).toBeInstanceOf(OpenAiCompatibleProvider);
+    expect(provider.getDefaultModel()).toBe('llama3.1');
+  });
+
+  it('openai-compatibleでLLM_BASE_URLまたはLLM_MODELが未設定の場合はエラーをスローする', () => {
+    // Arrange
+    process.env.LLM_PROVIDER = 'openai-compatible';
+    process.env.LLM_BASE_URL = 'http://localhost:11434/v1';
+
+    // Act & Assert
+    expect(() => createLlmProviderFromEnv()).toThrow(LlmProviderConfigError);
+  });
+
+  it('fakeの場合はフィクスチャファイルをデフォルトより優先する', async () => {
+    // Arrange
+    const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+    const path = join(dir, 'fixtures.json');
+    writeFileSync(
+      path,
+      JSON.stringify([{ operation: 'english-news-summary', content: 'from file' }])
+    );
+    process.env.LLM_PROVIDER = 'fake';
+    process.env.LLM_FIXTURES_PATH = path;
+
+    try {
+      // Act
+      const provider = createLlmProviderFromEnv();
+      const fromFile = await provider.sendMessage('prompt', {
+        operation: 'english-news-summary',
+      });
+      const fromDefaults = await provider.sendMessage('prompt', {
+        operation: 'term-quiz-generation',
+      });
+
+      // Assert
+      expect(provider).toBeInstanceOf(FakeLlmProvider);
+      expect(fromFile.content).toBe('from file');
+      expect(fromDefaults.content).toContain('questions');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('不明なLLM_PROVIDERの場合はエラーをスローする', () => {
+    // Arrange
+    process.env.LLM_PROVIDER = 'unknown';
+
+    // Act & Assert
+    expect(() => createLlmProviderFromEnv()).toThrow(LlmProviderConfigError);
+  });
+
+  it('getLlmProviderは同じインスタンスを返す', () => {
+    // Arrange
+    process.env.LLM_PROVIDER = 'fake';
+
+    // Act & Assert
+    expect(getLlmProvider()).toBe(getLlmProvider());
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * フェイクLLMプロバイダーによるオフライン実行のテスト
+ *
+ * ニュース・用語バッチを、ネットワークに接続せずにフェイクLLMプロバイダーで
+ * 最後まで実行できることを確認します(ニュースの取得元はモック)。
+ *
+ * Requirements: LLMプロバイダーの抽象化(オフライン実行)
+ */
+
+import { FakeLlmProvider, FAKE_LLM_MODEL } from '../fakeLlmProvider';
+import { NewsBatchService } from '../../news/batch/newsBatchService';
+import { NewsSummaryService } from '../../news/summarization';
+import { WorldNewsFetcher } from '../../news/fetchers/worldNewsFetcher';
+import { JapanNewsFetcher } from '../../news/fetchers/japanNewsFetcher';
+import { TermsBatchService } from '../../terms/batch/termsBatchService';
+import { TermGenerationService } from '../../terms/termGenerationService';
+import { TermQuizGenerationService } from '../../terms/termQuizGenerationService';
+
+describe('フェイクLLMプロバイダーによるオフライン実行', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('ニュースバッチが要約まで完了する', async () => {
+    // Arrange
+    const provider = new FakeLlmProvider();
+    const worldNewsFetcher = {
+      fetchTopHeadlines: jest.fn().mockResolvedValue({
+        status: 'ok',
+        totalResults: 1,
+        articles: [
+          {
+            source: { id: 'reuters', name: 'Reuters' },
+            author: null,
+            title: 'Stocks rise as yields ease',
+            description: 'Global equities gained.',
+            url: 'https://example.com/world',
+            urlToImage: null,
+            publishedAt: '2026-01-02T00:00:00Z',
+            content: null,
+          },
+        ],
+      }),
+    } as unknown as WorldNewsFetcher;
+    const japanNewsFetcher = {
+      fetchJapanNews: jest.fn().mockResolvedValue({
+        title: 'Google News',
+        link: 'https://news.google.com',
+        items: [
+          {
+            title: '日経平均が続伸',
+            link: 'https://example.com/japan',
+            publishedAt: '2026-01-02T00:00:00Z',
+            source: '日経新聞',
+          },
+        ],
+      }),
+    } as unknown as JapanNewsFetcher;
+    const service = new NewsBatchService(
+      worldNewsFetcher,
+      japanNewsFetcher,
+      new NewsSummaryService(provider),
+      { saveToDatabase: false }
+    );
+
+    // Act
+    const result = await service.execute();
+
+    // Assert
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.worldNews?.model).toBe(FAKE_LLM_MODEL);
+    expect(result.japanNews?.model).toBe(FAKE_LLM_MODEL);
+  });
+
+  it('用語バッチが3つの用語とクイズの生成まで完了する', async () => {
+    // Arrange
+    const provider = new FakeLlmProvider();
+    const service = new TermsBatchService(new TermGenerationService(provider), {
+      saveToDatabase: false,
+      quizService: new TermQuizGenerationService(provider),
+    });
+
+    // Act
+    const result = await service.execute();
+
+    // Assert
+    expect(result.errors).toEqual([]);
+    expect(result.success).toBe(true);
+    expect(result.terms?.map((term) => term.difficulty)).toEqual([
+      'beginner',
+      'intermediate',
+      'advanced',
+    ]);
+    expect(result.quizzes).toHaveLength(3);
+  });
+});
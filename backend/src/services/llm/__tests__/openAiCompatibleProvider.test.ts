@@ -0,0 +1,165 @@
+/**
+ * OpenAI互換APIプロバイダーのテスト
+ *
+ * Requirements: LLMプロバイダーの抽象化, 10.3
+ */
+
+import { OpenAiCompatibleProvider } from '../openAiCompatibleProvider';
+import {
+  AIServiceError,
+  AIServiceTimeoutError,
+  AIServiceUnavailableError,
+} from '../../aiServiceErrorHandler';
+import { getTokenUsageTracker, resetTokenUsageTracker } from '../../tokenUsageTracker';
+
+// global fetchをモック
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('OpenAiCompatibleProvider', () => {
+  const completion = {
+    model: 'llama3.1:8b',
+    choices: [{ message: { content: 'こんにちは' }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 12, completion_tokens: 34 },
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetTokenUsageTracker();
+  });
+
+  it('Chat Completions APIを呼び出してレスポンスを変換する', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => completion });
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3.1',
+    });
+
+    // Act
+    const response = await provider.sendMessage('質問', {
+      system: 'あなたは投資の先生です',
+      maxTokens: 500,
+      temperature: 0.2,
+    });
+
+    // Assert
+    expect(response).toEqual({
+      content: 'こんにちは',
+      usage: { inputTokens: 12, outputTokens: 34 },
+      model: 'llama3.1:8b',
+      stopReason: 'stop',
+    });
+    const [url, init] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama3.1',
+      max_tokens: 500,
+      temperature: 0.2,
+      messages: [
+        { role: 'system', content: 'あなたは投資の先生です' },
+        { role: 'user', content: '質問' },
+      ],
+    });
+  });
+
+  it('APIキーが設定されている場合はAuthorizationヘッダーを送信する', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => completion });
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'https://llm.example.com/v1',
+      model: 'model',
+      apiKey: 'secret',
+    });
+
+    // Act
+    await provider.sendMessage('質問');
+
+    // Assert
+    expect(mockFetch.mock.calls[0][1].headers).toHaveProperty('Authorization', 'Bearer secret');
+  });
+
+  it('operationが指定されている場合はトークン使用量を記録する', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => completion });
+    const provider = new OpenAiCompatibleProvider({ baseUrl: 'http://localhost', model: 'm' });
+
+    // Act
+    await provider.sendMessage('質問', { operation: 'term-generation' });
+
+    // Assert
+    expect(getTokenUsageTracker().getRecords()).toEqual([
+      expect.objectContaining({
+        operation: 'term-generation',
+        model: 'llama3.1:8b',
+        inputTokens: 12,
+        outputTokens: 34,
+      }),
+    ]);
+  });
+
+  it('5xxの場合はAIServiceUnavailableErrorをスローする', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503 });
+    const provider = new OpenAiCompatibleProvider({ baseUrl: 'http://localhost', model: 'm' });
+
+    // Act & Assert
+    await expect(
+      provider.sendMessage('質問', { operation: 'term-generation' })
+    ).rejects.toMatchObject({
+      constructor: AIServiceUnavailableError,
+      statusCode: 503,
+      operation: 'term-generation',
+    });
+  });
+
+  it('4xxの場合はAIServiceErrorをスローする', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 400 });
+    const provider = new OpenAiCompatibleProvider({ baseUrl: 'http://localhost', model: 'm' });
+
+    // Act
+    const error = await provider.sendMessage('質問').catch((e: unknown) => e);
+
+    // Assert
+    expect(error).toBeInstanceOf(AIServiceError);
+    expect(error).not.toBeInstanceOf(AIServiceUnavailableError);
+  });
+
+  it('タイムアウトした場合はAIServiceTimeoutErrorをスローする', async () => {
+    // Arrange
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        })
+    );
+    const provider = new OpenAiCompatibleProvider({
+      baseUrl: 'http://localhost',
+      model: 'm',
+      timeoutMs: 10,
+    });
+
+    // Act & Assert
+    await expect(provider.sendMessage('質問')).rejects.toBeInstanceOf(AIServiceTimeoutError);
+  });
+
+  it('接続に失敗した場合はAIServiceErrorをスローする', async () => {
+    // Arrange
+    mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+    const provider = new OpenAiCompatibleProvider({ baseUrl: 'http://localhost', model: 'm' });
+
+    // Act & Assert
+    await expect(provider.sendMessage('質問')).rejects.toThrow('ECONNREFUSED');
+  });
+
+  it('choicesがない場合はAIServiceErrorをスローする', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+    const provider = new OpenAiCompatibleProvider({ baseUrl: 'http://localhost', model: 'm' });
+
+    // Act & Assert
+    await expect(provider.sendMessage('質問')).rejects.toBeInstanceOf(AIServiceError);
+  });
+});
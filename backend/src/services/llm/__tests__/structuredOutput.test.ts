@@ -0,0 +1,134 @@
+/**
+ * 構造化出力の解析のテスト
+ *
+ * Requirements: 構造化出力(ツールの入力のスキーマ検証、テキストのパーサーへのフォールバック)
+ */
+
+import { parseStructuredOutput, StructuredOutputOptions } from '../structuredOutput';
+import {
+  StructuredOutputMetrics,
+  getStructuredOutputMetrics,
+  resetStructuredOutputMetrics,
+} from '../structuredOutputMetrics';
+import type { LlmResponse, LlmToolDefinition } from '../llmProvider';
+
+describe('parseStructuredOutput', () => {
+  const tool: LlmToolDefinition = {
+    name: 'record_value',
+    description: '値を記録する',
+    inputSchema: {
+      type: 'object',
+      properties: { value: { type: 'string' } },
+      required: ['value'],
+    },
+  };
+
+  const createResponse = (overrides: Partial<LlmResponse> = {}): LlmResponse => ({
+    content: '',
+    usage: { inputTokens: 1, outputTokens: 1 },
+    model: 'test-model',
+    stopReason: 'tool_use',
+    ...overrides,
+  });
+
+  let metrics: StructuredOutputMetrics;
+  let options: StructuredOutputOptions<string>;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    metrics = new StructuredOutputMetrics();
+    options = {
+      operation: 'test-operation',
+      tool,
+      fromToolInput: (input) => `tool:${input.value as string}`,
+      parseText: (response) =>
+        response.content
+          ? { success: true, value: `text:${response.content}` }
+          : { success: false, error: 'レスポンスが空です。' },
+      metrics,
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('スキーマに従うツールの入力を使用する', () => {
+    const result = parseStructuredOutput(
+      createResponse({ content: 'ignored', toolInput: { value: 'a' } }),
+      options
+    );
+
+    expect(result).toEqual({ success: true, value: 'tool:a', path: 'tool' });
+    expect(metrics.getSummary()).toEqual({
+      'test-operation': { tool: 1, text: 0, failed: 0 },
+    });
+  });
+
+  it('ツールの入力がない場合はテキストのパーサーで解析する', () => {
+    const result = parseStructuredOutput(createResponse({ content: 'b' }), options);
+
+    expect(result).toEqual({ success: true, value: 'text:b', path: 'text' });
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(metrics.getSummary()['test-operation']).toEqual({ tool: 0, text: 1, failed: 0 });
+  });
+
+  it('ツールの入力がスキーマに従わない場合は検証エラーの位置をログに出力してテキストで解析する', () => {
+    const result = parseStructuredOutput(
+      createResponse({ content: 'c', toolInput: { value: 1 } }),
+      options
+    );
+
+    expect(result).toEqual({ success: true, value: 'text:c', path: 'text' });
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('$.value: must be string (got number)')
+    );
+  });
+
+  it('どちらの経路でも解析できない場合は両方のエラーを返す', () => {
+    const result = parseStructuredOutput(createResponse({ toolInput: {} }), options);
+
+    expect(result).toEqual({
+      success: false,
+      error:
+        'record_valueの入力がスキーマに従っていません: $.value: required property is missing / レスポンスが空です。',
+    });
+    expect(metrics.getSummary()['test-operation']).toEqual({ tool: 0, text: 0, failed: 1 });
+  });
+
+  it('集計を指定しない場合は共有の集計に記録する', () => {
+    resetStructuredOutputMetrics();
+    parseStructuredOutput(createResponse({ toolInput: { value: 'a' } }), {
+      ...options,
+      metrics: undefined,
+    });
+
+    expect(getStructuredOutputMetrics().getSummary()['test-operation'].tool).toBe(1);
+    resetStructuredOutputMetrics();
+  });
+});
+
+describe('StructuredOutputMetrics', () => {
+  it('操作ごとに解析経路の件数を集計し、ログに出力する', () => {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const metrics = new StructuredOutputMetrics();
+
+    metrics.record('term-generation', 'tool');
+    metrics.record('term-generation', 'tool');
+    metrics.record('term-generation', 'text');
+    metrics.record('english-news-summary', 'failed');
+    metrics.logSummary();
+
+    expect(metrics.getSummary()).toEqual({
+      'term-generation': { tool: 2, text: 1, failed: 0 },
+      'english-news-summary': { tool: 0, text: 0, failed: 1 },
+    });
+    expect(logSpy).toHaveBeenCalledWith(
+      '[StructuredOutputMetrics] term-generation: tool=2, text=1, failed=0'
+    );
+
+    metrics.reset();
+    expect(metrics.getSummary()).toEqual({});
+    logSpy.mockRestore();
+  });
+});
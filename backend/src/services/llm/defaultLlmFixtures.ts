@@ -0,0 +1,152 @@
+/**
+ * フェイクLLMプロバイダーのデフォルトフィクスチャ
+ *
+ * ニュース要約・用語生成・用語クイズ・用語解説の各操作について、
+ * レスポンスパーサーと文字数の検証を通過するレスポンスを定義します。
+ * オフラインでニュース・用語バッチを最後まで実行できることを目的としたサンプルで、内容は架空です。
+ *
+ * Requirements:
+ * - LLMプロバイダーの抽象化(オフライン実行)
+ */
+
+import type { LlmFixture } from './fakeLlmProvider';
+
+/**
+ * 指定した文字数以上になるまで段落を繰り返して要約文を作成
+ *
+ * @param paragraphs - 段落の配列
+ * @param minCharacters - 最小文字数(空白・改行を除く)
+ * @returns 要約文
+ */
+function buildSummary(paragraphs: readonly string[], minCharacters: number): string {
+  const result: string[] = [];
+  let characterCount = 0;
+
+  for (let i = 0; characterCount < minCharacters; i++) {
+    const paragraph = paragraphs[i % paragraphs.length];
+    result.push(paragraph);
+    characterCount += paragraph.replace(/\s/g, '').length;
+  }
+
+  return result.join('\n\n');
+}
+
+/**
+ * ニュース要約のサンプル段落
+ */
+const NEWS_SUMMARY_PARAGRAPHS = [
+  '【オフラインサンプル】本日の市場では、主要国の株式相場がまちまちの動きとなりました。米国では長期金利の落ち着きを背景にハイテク株が買われた一方、景気の先行きへの警戒感から景気敏感株には売りが出ました。投資家は来週に予定されている中央銀行の会合を前に、様子見の姿勢を強めています。',
+  '為替市場では、日米の金利差に対する見方が変化したことで円相場が小幅に上昇しました。輸出企業の業績には円高が逆風となる一方、輸入物価の下落を通じて家計の負担が和らぐ可能性もあります。為替の変動は企業業績と家計の両方に影響するため、日々の値動きだけでなく中長期の傾向を確認することが大切です。',
+  '企業決算では、データセンター向けの需要が好調な半導体関連企業が市場予想を上回る業績を発表しました。一方で、原材料価格の上昇が続く食品メーカーでは利益率の低下が目立ちました。同じ業界でも企業ごとに事業環境が異なるため、決算の数字だけでなく、今後の見通しに関する経営陣の説明にも注目が集まっています。',
+  '初心者の方へのポイント:ニュースで報じられる値動きは、さまざまな要因が重なった結果です。一つのニュースだけで投資判断をするのではなく、複数の情報源を確認し、自分の投資目的や期間に照らして冷静に考えることが重要です。分散投資や積立投資を活用すると、短期的な値動きの影響を抑えやすくなります。',
+];
+
+/**
+ * カテゴリ別要約のサンプル段落
+ */
+const CATEGORY_SUMMARY_PARAGRAPHS = [
+  '【オフラインサンプル】このテーマでは、関連するニュースが複数報じられました。市場参加者は今後の金利や景気の動向を見極めようとしており、相場は方向感に乏しい展開となっています。短期的な値動きに一喜一憂せず、背景にある要因を理解することが大切です。',
+  '専門家の間では、今後数か月は経済指標の結果によって相場が大きく動く可能性があるとの見方が出ています。発表の予定を確認し、どのような結果が市場に影響するのかを事前に整理しておくと、ニュースの意味を理解しやすくなります。',
+];
+
+/**
+ * 用語生成のサンプル(難易度ごと)
+ */
+const TERM_SAMPLES = [
+  {
+    match: '【初級レベル】',
+    name: '分散投資',
+    difficulty: 'beginner',
+    description:
+      '分散投資とは、投資するお金を複数の資産や銘柄、地域、時期に分けて投資する方法です。「卵を一つのカゴに盛るな」という格言がよく知られており、一つのカゴを落としても他のカゴの卵は割れずに済むように、一部の投資先で損失が出ても全体への影響を小さく抑えることを目的としています。例えば、国内株式だけでなく海外株式や債券、不動産投資信託などを組み合わせると、値動きの異なる資産が互いの変動を打ち消し合い、資産全体の値動きが穏やかになりやすくなります。また、購入のタイミングを分ける時間の分散も有効で、毎月一定額を積み立てる方法は高値づかみのリスクを減らせます。ただし、分散投資は損失をゼロにするものではなく、市場全体が下落する局面では資産全体が値下がりすることもあります。自分の目標やリスクの許容度に合わせて、どの程度分散するかを考えることが大切です。投資信託を活用すると、少ない金額でも幅広い銘柄に分散投資できます。',
+  },
+  {
+    match: '【中級レベル】',
+    name: '移動平均線',
+    difficulty: 'intermediate',
+    description:
+      '移動平均線とは、一定期間の株価の終値の平均値を毎日計算し、それを線でつないだグラフのことです。例えば25日移動平均線は、直近25営業日の終値の平均を結んだもので、日々の細かな値動きをならして相場の大まかな方向性を把握するために使われます。株価が移動平均線より上にあれば上昇傾向、下にあれば下落傾向と判断するのが基本的な見方です。また、短期の移動平均線が長期の移動平均線を下から上に抜けることをゴールデンクロス、上から下に抜けることをデッドクロスと呼び、売買のタイミングを考える目安として広く知られています。ただし、移動平均線は過去の株価から計算されるため、実際の値動きより遅れて反応するという弱点があります。相場が横ばいの時期には売買のサインが頻繁に出て判断を誤りやすいため、出来高や企業業績など他の情報と組み合わせて使うことが重要です。チャートを見る習慣をつける第一歩として、まず覚えておきたい指標の一つです。',
+  },
+  {
+    match: '【上級レベル】',
+    name: 'デュレーション',
+    difficulty: 'advanced',
+    description:
+      'デュレーションとは、債券に投資した資金を利息と元本の受け取りによって回収するまでの平均的な期間を表す指標で、金利が変動したときに債券価格がどの程度変化するかを測る目安として使われます。債券価格は金利が上がると下がり、金利が下がると上がるという逆の関係にあり、デュレーションが長い債券ほど金利の変化に対して価格が大きく動きます。例えばデュレーションが5年の債券は、金利が1%上昇すると価格がおよそ5%下落すると見積もることができます。満期までの期間が長い債券や、利率の低い債券ほどデュレーションは長くなる傾向があります。債券ファンドの運用報告書にも記載されることが多く、金利上昇が予想される局面ではデュレーションを短くして価格下落のリスクを抑え、金利低下が予想される局面では長くして値上がり益を狙うといった運用判断に活用されます。ただし、金利の変化が大きい場合には見積もりとの誤差が大きくなるため、コンベクシティという指標とあわせて確認することもあります。',
+  },
+] as const;
+
+/**
+ * 用語クイズのサンプル
+ */
+const TERM_QUIZ_SAMPLE = {
+  questions: [
+    {
+      question: '【オフラインサンプル】この用語の説明として最も適切なものはどれですか?',
+      choices: [
+        '解説で説明されている内容',
+        '解説とは反対の意味を持つ内容',
+        '投資とは関係のない内容',
+        '解説の一部だけを誇張した内容',
+      ],
+      correctIndex: 0,
+      explanation:
+        '解説で説明されている内容が正解です。用語の意味を正しく理解するには、定義だけでなく、なぜその考え方が投資で重要なのかもあわせて確認しましょう。',
+    },
+    {
+      question:
+        '【オフラインサンプル】この用語を投資判断に活用するときの注意点として適切なものはどれですか?',
+      choices: [
+        '一つの指標だけで必ず判断する',
+        '他の情報と組み合わせて判断する',
+        'ニュースの見出しだけで判断する',
+        '過去の値動きは一切参考にしない',
+      ],
+      correctIndex: 1,
+      explanation:
+        'どの用語や指標にも限界があるため、他の情報と組み合わせて判断することが大切です。一つの情報だけに頼ると、判断を誤るリスクが高まります。',
+    },
+  ],
+};
+
+/**
+ * 用語解説のサンプル
+ *
+ * 用語名はTermExplanationServiceが依頼した用語名で上書きされる
+ */
+const TERM_EXPLANATION_SAMPLE = {
+  name: 'オフラインサンプル',
+  difficulty: 'intermediate',
+  description: TERM_SAMPLES[0].description,
+};
+
+/**
+ * デフォルトフィクスチャ
+ */
+export const DEFAULT_LLM_FIXTURES: readonly LlmFixture[] = [
+  {
+    operation: 'english-news-summary',
+    content: buildSummary(NEWS_SUMMARY_PARAGRAPHS, 1900),
+  },
+  {
+    operation: 'japanese-news-summary',
+    content: buildSummary([...NEWS_SUMMARY_PARAGRAPHS].reverse(), 1900),
+  },
+  {
+    operation: 'category-news-summary',
+    content: buildSummary(CATEGORY_SUMMARY_PARAGRAPHS, 350),
+  },
+  ...TERM_SAMPLES.map(({ match, name, difficulty, description }) => ({
+    operation: 'term-generation',
+    match,
+    content: JSON.stringify({ name, description, difficulty }),
+  })),
+  {
+    operation: 'term-quiz-generation',
+    content: JSON.stringify(TERM_QUIZ_SAMPLE),
+  },
+  {
+    operation: 'term-explanation-generation',
+    content: JSON.stringify(TERM_EXPLANATION_SAMPLE),
+  },
+];
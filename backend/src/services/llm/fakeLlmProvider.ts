@@ -0,0 +1,210 @@
+/**
+ * フィクスチャを返すフェイクLLMプロバイダー
+ *
+ * 操作名とプロンプトに一致するフィクスチャのレスポンスを返すLlmProviderです。
+ * ネットワークに接続せず、同じ入力に常に同じレスポンスを返すため、
+ * ローカル環境でのニュース・用語バッチの動作確認やテストに使用します。
+ *
+ * フィクスチャは先頭から順に照合し、最初に一致したものを使用します。
+ * トークン数は文字数から決定的に算出します(入力: プロンプトの文字数、出力: レスポンスの文字数)。
+ * 構造化出力のツール(tool)には対応せず、フィクスチャの本文のみを返します。
+ *
+ * Requirements:
+ * - LLMプロバイダーの抽象化(オフライン実行)
+ */
+
+import { readFileSync } from 'fs';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { AIServiceError } from '../aiServiceErrorHandler';
+import { getTokenUsageTracker } from '../tokenUsageTracker';
+import { UNSPECIFIED_OPERATION } from '../spend';
+import type { LlmProvider, LlmResponse, LlmSendMessageOptions } from './llmProvider';
+import { DEFAULT_LLM_FIXTURES } from './defaultLlmFixtures';
+
+/**
+ * フェイクLLMプロバイダーのデフォルトモデル名
+ */
+export const FAKE_LLM_MODEL = 'fake-llm';
+
+/**
+ * フィクスチャ(操作名・プロンプトに対応するレスポンス)
+ */
+export interface LlmFixture {
+  /** 対象の操作名 */
+  operation: string;
+  /**
+   * プロンプトに含まれる場合のみ一致させる文字列
+   *
+   * 省略した場合は操作名のみで一致させる
+   */
+  match?: string;
+  /** 返すレスポンス本文 */
+  content: string;
+}
+
+/**
+ * フェイクLLMプロバイダーへの呼び出し記録
+ */
+export interface FakeLlmCall {
+  /** 送信されたメッセージ */
+  message: string;
+  /** 送信オプション */
+  options: LlmSendMessageOptions;
+  /** 使用したフィクスチャ */
+  fixture: LlmFixture;
+}
+
+/**
+ * フィクスチャファイルの読み込みエラー
+ */
+export class LlmFixtureError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.VALIDATION, ErrorSeverity.HIGH, false, originalError);
+    this.name = 'LlmFixtureError';
+  }
+}
+
+/**
+ * フェイクLLMプロバイダーの設定
+ */
+export interface FakeLlmProviderConfig {
+  /**
+   * フィクスチャ(先頭から順に照合)
+   * @default DEFAULT_LLM_FIXTURES
+   */
+  fixtures?: readonly LlmFixture[];
+  /**
+   * レスポンスのモデル名
+   * @default 'fake-llm'
+   */
+  model?: string;
+}
+
+/**
+ * JSONファイルからフィクスチャを読み込む
+ *
+ * ファイルはLlmFixtureの配列とする。
+ *
+ * @param path - フィクスチャファイルのパス
+ * @returns フィクスチャの配列
+ * @throws {LlmFixtureError} ファイルが読み込めない場合・形式が不正な場合
+ */
+export function loadLlmFixtures(path: string): LlmFixture[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new LlmFixtureError(
+      `Failed to read LLM fixtures from ${path}`,
+      error instanceof Error ? error : undefined
+    );
+  }
+
+  const isFixture = (value: unknown): value is LlmFixture => {
+    const fixture = value as Partial<LlmFixture> | null;
+    return (
+      typeof fixture?.operation === 'string' &&
+      typeof fixture.content === 'string' &&
+      (fixture.match === undefined || typeof fixture.match === 'string')
+    );
+  };
+
+  if (!Array.isArray(data) || !data.every(isFixture)) {
+    throw new LlmFixtureError(
+      `LLM fixtures in ${path} must be an array of { operation, match?, content }`
+    );
+  }
+
+  return data;
+}
+
+/**
+ * フェイクLLMプロバイダー
+ *
+ * @example
+ * ```typescript
+ * const provider = new FakeLlmProvider({
+ *   fixtures: [{ operation: 'term-generation', content: '{"name":"PER", ...}' }],
+ * });
+ * const service = new TermGenerationService(provider);
+ * ```
+ */
+export class FakeLlmProvider implements LlmProvider {
+  readonly name = 'fake';
+  private readonly fixtures: readonly LlmFixture[];
+  private readonly model: string;
+  private readonly calls: FakeLlmCall[] = [];
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - 設定
+   */
+  constructor(config: FakeLlmProviderConfig = {}) {
+    this.fixtures = config.fixtures ?? DEFAULT_LLM_FIXTURES;
+    this.model = config.model ?? FAKE_LLM_MODEL;
+  }
+
+  /**
+   * デフォルトモデルを取得
+   *
+   * @returns デフォルトモデル名
+   */
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  /**
+   * これまでの呼び出しを取得(テスト用)
+   *
+   * @returns 呼び出し記録の配列(古い順)
+   */
+  getCalls(): readonly FakeLlmCall[] {
+    return this.calls;
+  }
+
+  /**
+   * 一致するフィクスチャのレスポンスを返す
+   *
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns フィクスチャのレスポンス
+   * @throws {AIServiceError} 一致するフィクスチャがない場合
+   */
+  async sendMessage(message: string, options: LlmSendMessageOptions = {}): Promise<LlmResponse> {
+    const operation = options.operation ?? UNSPECIFIED_OPERATION;
+    const fixture = this.fixtures.find(
+      (candidate) =>
+        candidate.operation === operation &&
+        (candidate.match === undefined || message.includes(candidate.match))
+    );
+
+    if (!fixture) {
+      throw new AIServiceError(`No LLM fixture matches operation "${operation}"`, operation);
+    }
+
+    this.calls.push({ message, options, fixture });
+
+    const response: LlmResponse = {
+      content: fixture.content,
+      usage: {
+        inputTokens: message.length + (options.system?.length ?? 0),
+        outputTokens: fixture.content.length,
+      },
+      model: options.model ?? this.model,
+      stopReason: 'end_turn',
+    };
+
+    // operationが指定されている場合、トークン使用量を記録
+    if (options.operation) {
+      getTokenUsageTracker().recordUsage({
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        model: response.model,
+        operation: options.operation,
+      });
+    }
+
+    return response;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * LLMプロバイダーモジュール
+ *
+ * ニュース要約・用語生成などのサービスが依存するLlmProviderインターフェースと、
+ * OpenAI互換API・フェイク(オフライン)の実装、環境変数からの作成機能、
+ * 構造化出力(ツールの入力)のスキーマ検証と解析経路の集計を提供します。
+ * Anthropic APIの実装はClaudeClient(../claudeClient)です。
+ */
+
+export type {
+  LlmProvider,
+  LlmResponse,
+  LlmSendMessageOptions,
+  LlmStreamOptions,
+  PreparedLlmRequest,
+  LlmToolDefinition,
+} from './llmProvider';
+
+export {
+  validateJsonSchema,
+  formatJsonSchemaIssues,
+  type JsonSchema,
+  type JsonSchemaType,
+  type JsonSchemaIssue,
+} from './jsonSchema';
+
+export {
+  parseStructuredOutput,
+  type StructuredOutputOptions,
+  type StructuredOutputResult,
+  type TextParseResult,
+} from './structuredOutput';
+
+export {
+  StructuredOutputMetrics,
+  getStructuredOutputMetrics,
+  resetStructuredOutputMetrics,
+  type StructuredOutputPath,
+  type StructuredOutputCounts,
+} from './structuredOutputMetrics';
+
+export {
+  OpenAiCompatibleProvider,
+  type OpenAiCompatibleProviderConfig,
+} from './openAiCompatibleProvider';
+
+export {
+  FakeLlmProvider,
+  LlmFixtureError,
+  FAKE_LLM_MODEL,
+  loadLlmFixtures,
+  type LlmFixture,
+  type FakeLlmCall,
+  type FakeLlmProviderConfig,
+} from './fakeLlmProvider';
+
+export { DEFAULT_LLM_FIXTURES } from './defaultLlmFixtures';
+
+export {
+  createLlmProviderFromEnv,
+  getLlmProvider,
+  resetLlmProvider,
+  LlmProviderConfigError,
+  LLM_PROVIDER_TYPES,
+  type LlmProviderType,
+} from './llmProviderFactory';
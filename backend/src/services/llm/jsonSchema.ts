@@ -0,0 +1,207 @@
+/**
+ * JSONスキーマの検証
+ *
+ * LLMの構造化出力(ツールの入力)を検証するための、JSON Schemaのサブセットの検証機能です。
+ * ツール定義に使用するキーワード(type・properties・required・additionalProperties・
+ * items・enum・minLength・maxLength・minimum・maximum・minItems・maxItems)に対応します。
+ *
+ * 検証エラーには、問題のある値の位置をJSONPath形式(例: $.questions[0].options)で含めます。
+ *
+ * Requirements:
+ * - 構造化出力(ツールの入力のスキーマ検証)
+ *
+ * @see https://json-schema.org/draft/2020-12 - JSON Schema
+ */
+
+/**
+ * JSONスキーマの型
+ */
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * JSONスキーマ(対応するキーワードのみ)
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType;
+  /** 説明(検証には使用せず、モデルへの指示として使用される) */
+  description?: string;
+  properties?: Readonly<Record<string, JsonSchema>>;
+  required?: readonly string[];
+  /** falseの場合はpropertiesにないプロパティを許容しない */
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: readonly unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * JSONスキーマの検証エラー
+ */
+export interface JsonSchemaIssue {
+  /** 問題のある値の位置(JSONPath形式、例: $.difficulty) */
+  path: string;
+  /** エラーメッセージ */
+  message: string;
+}
+
+/**
+ * 値のJSONスキーマ上の型を取得
+ *
+ * @param value - 値
+ * @returns 型名
+ */
+function typeOf(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * 値が型に一致するかどうか
+ *
+ * @param value - 値
+ * @param type - JSONスキーマの型
+ * @returns 一致する場合true
+ */
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * プロパティ名をパスに追加
+ *
+ * @param path - 親のパス
+ * @param key - プロパティ名
+ * @returns プロパティのパス
+ */
+function appendProperty(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * 値をJSONスキーマで検証
+ *
+ * 型が一致しない場合は、その値の他のキーワード(properties・minLengthなど)は検証しません。
+ *
+ * @param value - 検証する値
+ * @param schema - JSONスキーマ
+ * @param path - 値の位置(再帰呼び出し用)
+ * @returns 検証エラー(問題がない場合は空配列)
+ *
+ * @example
+ * ```typescript
+ * validateJsonSchema({ name: 'PER', difficulty: 'expert' }, TERM_OUTPUT_TOOL.inputSchema);
+ * // [
+ * //   { path: '$.description', message: 'required property is missing' },
+ * //   { path: '$.difficulty', message: 'must be one of "beginner", "intermediate", "advanced"' },
+ * // ]
+ * ```
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = '$'
+): JsonSchemaIssue[] {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [{ path, message: `must be ${schema.type} (got ${typeOf(value)})` }];
+  }
+
+  const issues: JsonSchemaIssue[] = [];
+  const issue = (message: string): void => {
+    issues.push({ path, message });
+  };
+
+  if (schema.enum && !schema.enum.some((candidate) => candidate === value)) {
+    issue(`must be one of ${schema.enum.map((candidate) => JSON.stringify(candidate)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issue(`must have at least ${schema.minLength} characters (got ${value.length})`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issue(`must have at most ${schema.maxLength} characters (got ${value.length})`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issue(`must be >= ${schema.minimum} (got ${value})`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issue(`must be <= ${schema.maximum} (got ${value})`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issue(`must have at least ${schema.minItems} items (got ${value.length})`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issue(`must have at most ${schema.maxItems} items (got ${value.length})`);
+    }
+    if (schema.items) {
+      const itemSchema = schema.items;
+      value.forEach((item, index) => {
+        issues.push(...validateJsonSchema(item, itemSchema, `${path}[${index}]`));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const properties = schema.properties ?? {};
+
+    for (const key of schema.required ?? []) {
+      if (!Object.prototype.hasOwnProperty.call(record, key)) {
+        issues.push({ path: appendProperty(path, key), message: 'required property is missing' });
+      }
+    }
+
+    for (const [key, propertyValue] of Object.entries(record)) {
+      const propertySchema = properties[key];
+      if (propertySchema) {
+        issues.push(
+          ...validateJsonSchema(propertyValue, propertySchema, appendProperty(path, key))
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: appendProperty(path, key), message: 'unexpected property' });
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * 検証エラーを1行の文字列に変換(ログ・エラーメッセージ用)
+ *
+ * @param issues - 検証エラー
+ * @returns 例: "$.difficulty: must be one of ...; $.name: required property is missing"
+ */
+export function formatJsonSchemaIssues(issues: readonly JsonSchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+}
@@ -0,0 +1,169 @@
+/**
+ * LLMプロバイダーのインターフェース
+ *
+ * ニュース要約・用語生成などのサービスは具体的なクライアント(ClaudeClient)ではなく
+ * このインターフェースに依存し、Anthropic API・OpenAI互換API(ローカルモデル)・
+ * オフライン用のフェイクを切り替えられるようにします。
+ *
+ * プロバイダーの実装は次の規約に従います。
+ * - operationを指定した呼び出しのトークン使用量をTokenUsageTrackerに記録する
+ * - API呼び出しのエラーはAIServiceError(またはそのサブクラス)に変換してスローする
+ * - toolを指定した呼び出しでは、対応している場合はツールの呼び出しを強制し、入力をtoolInputとして返す
+ *   (対応していない場合はtoolを無視してテキストのみを返す)
+ *
+ * Requirements:
+ * - LLMプロバイダーの抽象化
+ * - 10.3 (トークン使用量の監視)
+ */
+
+import type { JsonSchema } from './jsonSchema';
+
+/**
+ * 構造化出力に使用するツールの定義
+ *
+ * 生成結果をこのツールの入力(inputSchemaに従うJSON)として出力させます。
+ */
+export interface LlmToolDefinition {
+  /** ツール名(例: record_term) */
+  name: string;
+  /** ツールの説明(モデルへの指示として使用される) */
+  description: string;
+  /** ツールの入力のJSONスキーマ(ルートはobject) */
+  inputSchema: JsonSchema & { type: 'object' };
+}
+
+/**
+ * ストリーミングのタイムアウト設定
+ *
+ * 1回のタイムアウトではなく、無通信タイムアウトと全体の上限を別々に適用します。
+ * 省略した項目はプロバイダーのデフォルトを使用します。
+ */
+export interface LlmStreamOptions {
+  /** 無通信タイムアウト(最後のイベントを受信してからの時間、ミリ秒) */
+  idleTimeoutMs?: number;
+  /** 全体の上限(ストリーミングの開始からの時間、ミリ秒) */
+  totalTimeoutMs?: number;
+}
+
+/**
+ * メッセージ送信オプション
+ */
+export interface LlmSendMessageOptions {
+  /**
+   * 使用するモデル
+   *
+   * 省略時はプロバイダーのデフォルト(ClaudeClientの場合はルーティング表)に従う。
+   */
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  system?: string;
+  /**
+   * 操作名(トークン使用量追跡用)
+   *
+   * 指定するとトークン使用量がTokenUsageTrackerに記録されます。
+   * 例: 'news-summary', 'term-generation'
+   */
+  operation?: string;
+  /**
+   * 構造化出力に使用するツール
+   *
+   * 指定するとツールの呼び出しを強制し、ツールの入力をLlmResponse.toolInputとして返します。
+   */
+  tool?: LlmToolDefinition;
+  /**
+   * レスポンスキャッシュを参照しない
+   *
+   * trueの場合はキャッシュしたレスポンスがあってもAPIを呼び出します
+   * (取得したレスポンスはconfirmResponse()で確定した場合にキャッシュに保存されます)。
+   * キャッシュに対応していないプロバイダーでは無視されます。
+   * @default false
+   */
+  bypassCache?: boolean;
+  /**
+   * ストリーミングで生成する
+   *
+   * 指定すると出力を逐次受信し、進行中の長い生成を全体のタイムアウトで中断しないようにします。
+   * タイムアウトした場合は受信済みの出力を含むAIServiceStreamTimeoutErrorをスローします。
+   * ストリーミングに対応していないプロバイダーでは無視されます。
+   */
+  stream?: LlmStreamOptions;
+}
+
+/**
+ * 送信前のリクエスト
+ *
+ * サービスが作成したプロンプトと送信オプションです。
+ * 同期呼び出し(sendMessage)以外の経路(Message Batchesなど)で送信する場合に使用します。
+ */
+export interface PreparedLlmRequest {
+  /** 送信するメッセージ */
+  prompt: string;
+  /** 送信オプション(操作名は必須) */
+  options: LlmSendMessageOptions & { operation: string };
+  /** 使用したプロンプトのバージョン(生成結果に記録する) */
+  promptVersion: string;
+}
+
+/**
+ * LLMのレスポンス
+ */
+export interface LlmResponse {
+  content: string;
+  usage: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+  /** 実際に使用したモデル */
+  model: string;
+  stopReason: string | null;
+  /**
+   * ツールの入力(toolを指定し、モデルがツールを呼び出した場合のみ)
+   *
+   * スキーマに従っている保証はないため、使用前に検証する。
+   */
+  toolInput?: unknown;
+}
+
+/**
+ * LLMプロバイダー
+ *
+ * @example
+ * ```typescript
+ * const provider: LlmProvider = getLlmProvider();
+ * const response = await provider.sendMessage(prompt, { operation: 'term-generation' });
+ * console.log(response.content, response.usage);
+ * ```
+ */
+export interface LlmProvider {
+  /** プロバイダー名(ログ出力用) */
+  readonly name: string;
+
+  /**
+   * メッセージを送信
+   *
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns LLMのレスポンス
+   * @throws {AIServiceError} API呼び出しに失敗した場合
+   */
+  sendMessage(message: string, options?: LlmSendMessageOptions): Promise<LlmResponse>;
+
+  /**
+   * レスポンスが検証(パース・品質チェック)に通過したことを確定
+   *
+   * レスポンスキャッシュに対応するプロバイダーは、確定したレスポンスのみをキャッシュに保存する
+   * (検証に通過しなかったレスポンスがキャッシュから返され続けないようにする)。
+   * キャッシュから返したレスポンスや、キャッシュに対応していないプロバイダーでは何もしない。
+   *
+   * @param response - sendMessage()が返したレスポンス
+   */
+  confirmResponse?(response: LlmResponse): Promise<void>;
+
+  /**
+   * デフォルトモデルを取得
+   *
+   * @returns デフォルトモデル名
+   */
+  getDefaultModel(): string;
+}
@@ -0,0 +1,107 @@
+/**
+ * LLMプロバイダーの作成
+ *
+ * 環境変数LLM_PROVIDERに応じてLlmProviderを作成します。
+ * - anthropic(デフォルト): ClaudeClient(Anthropic API)
+ * - openai-compatible: OpenAiCompatibleProvider(LLM_BASE_URL・LLM_MODELが必須)
+ * - fake: FakeLlmProvider(LLM_FIXTURES_PATHのフィクスチャをデフォルトより優先)
+ *
+ * Requirements:
+ * - LLMプロバイダーの抽象化
+ */
+
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { getLlmEnvConfig } from '../../config/envConfig';
+import { getClaudeClient } from '../claudeClient';
+import type { LlmProvider } from './llmProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { FakeLlmProvider, loadLlmFixtures } from './fakeLlmProvider';
+import { DEFAULT_LLM_FIXTURES } from './defaultLlmFixtures';
+
+/**
+ * 利用可能なLLMプロバイダーの種類
+ */
+export const LLM_PROVIDER_TYPES = ['anthropic', 'openai-compatible', 'fake'] as const;
+
+/**
+ * LLMプロバイダーの種類
+ */
+export type LlmProviderType = (typeof LLM_PROVIDER_TYPES)[number];
+
+/**
+ * LLMプロバイダーの設定エラー
+ */
+export class LlmProviderConfigError extends AppError {
+  constructor(message: string) {
+    super(message, ErrorType.VALIDATION, ErrorSeverity.CRITICAL, false);
+    this.name = 'LlmProviderConfigError';
+  }
+}
+
+/**
+ * 環境変数からLLMプロバイダーを作成
+ *
+ * @returns LLMプロバイダー
+ * @throws {LlmProviderConfigError} LLM_PROVIDERが不正な場合・必須の環境変数が未設定の場合
+ * @throws {ApiKeyError} anthropicでCLAUDE_API_KEYが未設定の場合
+ * @throws {LlmFixtureError} フィクスチャファイルが読み込めない場合
+ */
+export function createLlmProviderFromEnv(): LlmProvider {
+  const config = getLlmEnvConfig();
+
+  switch (config.provider as LlmProviderType) {
+    case 'anthropic':
+      return getClaudeClient();
+
+    case 'openai-compatible':
+      if (!config.baseUrl || !config.model) {
+        throw new LlmProviderConfigError(
+          'LLM_BASE_URL and LLM_MODEL are required when LLM_PROVIDER=openai-compatible'
+        );
+      }
+      return new OpenAiCompatibleProvider({
+        baseUrl: config.baseUrl,
+        model: config.model,
+        apiKey: config.apiKey,
+      });
+
+    case 'fake':
+      return new FakeLlmProvider({
+        fixtures: config.fixturesPath
+          ? [...loadLlmFixtures(config.fixturesPath), ...DEFAULT_LLM_FIXTURES]
+          : DEFAULT_LLM_FIXTURES,
+      });
+
+    default:
+      throw new LlmProviderConfigError(
+        `Unknown LLM_PROVIDER "${config.provider}" (expected ${LLM_PROVIDER_TYPES.join(' / ')})`
+      );
+  }
+}
+
+/**
+ * シングルトンインスタンス
+ */
+let llmProviderInstance: LlmProvider | undefined;
+
+/**
+ * LLMプロバイダーを取得
+ *
+ * シングルトンパターンでインスタンスを返します。
+ *
+ * @returns LLMプロバイダー
+ * @throws {LlmProviderConfigError} LLM_PROVIDERが不正な場合・必須の環境変数が未設定の場合
+ */
+export function getLlmProvider(): LlmProvider {
+  if (!llmProviderInstance) {
+    llmProviderInstance = createLlmProviderFromEnv();
+  }
+  return llmProviderInstance;
+}
+
+/**
+ * シングルトンインスタンスをリセット(テスト用)
+ */
+export function resetLlmProvider(): void {
+  llmProviderInstance = undefined;
+}
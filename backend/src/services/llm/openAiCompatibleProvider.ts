@@ -0,0 +1,225 @@
+/**
+ * OpenAI互換APIプロバイダー
+ *
+ * OpenAI互換のChat Completions API(POST {baseUrl}/chat/completions)を呼び出すLlmProviderです。
+ * Ollama・LM Studio・vLLMなどでローカルに起動したモデルを、Anthropic APIの代わりに使用できます。
+ *
+ * HTTPエラー・タイムアウト・接続失敗はAIServiceErrorに変換してスローします。
+ * - 5xx: AIServiceUnavailableError
+ * - タイムアウト: AIServiceTimeoutError
+ * - その他: AIServiceError
+ *
+ * 構造化出力のツール(tool)には対応せず、テキストのみを返します(呼び出し元はテキストのパーサーで解析します)。
+ *
+ * Requirements:
+ * - LLMプロバイダーの抽象化
+ * - 10.3 (トークン使用量の監視)
+ *
+ * @see https://platform.openai.com/docs/api-reference/chat/create - Chat Completions API
+ */
+
+import {
+  AIServiceError,
+  AIServiceTimeoutError,
+  AIServiceUnavailableError,
+} from '../aiServiceErrorHandler';
+import { getTokenUsageTracker } from '../tokenUsageTracker';
+import { UNSPECIFIED_OPERATION } from '../spend';
+import type { LlmProvider, LlmResponse, LlmSendMessageOptions } from './llmProvider';
+
+/**
+ * デフォルトのタイムアウト時間(ミリ秒)
+ *
+ * ローカルモデルは生成に時間がかかるため、Anthropic APIより長めに設定する
+ */
+const DEFAULT_TIMEOUT_MS = 120000;
+
+/**
+ * デフォルトの最大トークン数
+ */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/**
+ * OpenAI互換APIプロバイダーの設定
+ */
+export interface OpenAiCompatibleProviderConfig {
+  /** APIのベースURL(例: http://localhost:11434/v1) */
+  baseUrl: string;
+  /** デフォルトモデル(例: llama3.1) */
+  model: string;
+  /** APIキー(ローカルモデルでは不要な場合が多い) */
+  apiKey?: string;
+  /**
+   * タイムアウト時間(ミリ秒)
+   * @default 120000
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Chat Completions APIのレスポンス(使用するフィールドのみ)
+ */
+interface ChatCompletionResponse {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null };
+    finish_reason?: string | null;
+  }>;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  };
+}
+
+/**
+ * OpenAI互換APIプロバイダー
+ *
+ * @example
+ * ```typescript
+ * const provider = new OpenAiCompatibleProvider({
+ *   baseUrl: 'http://localhost:11434/v1',
+ *   model: 'llama3.1',
+ * });
+ * const summaryService = new NewsSummaryService(provider);
+ * ```
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  readonly name = 'openai-compatible';
+  private readonly endpoint: string;
+  private readonly model: string;
+  private readonly apiKey?: string;
+  private readonly timeoutMs: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - 設定
+   */
+  constructor(config: OpenAiCompatibleProviderConfig) {
+    this.endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.model = config.model;
+    this.apiKey = config.apiKey;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * デフォルトモデルを取得
+   *
+   * @returns デフォルトモデル名
+   */
+  getDefaultModel(): string {
+    return this.model;
+  }
+
+  /**
+   * メッセージを送信
+   *
+   * @param message - 送信するメッセージ
+   * @param options - オプション設定
+   * @returns LLMのレスポンス
+   * @throws {AIServiceError} API呼び出しに失敗した場合
+   */
+  async sendMessage(message: string, options: LlmSendMessageOptions = {}): Promise<LlmResponse> {
+    const { model = this.model, maxTokens = DEFAULT_MAX_TOKENS, temperature, system } = options;
+    const operation = options.operation ?? UNSPECIFIED_OPERATION;
+
+    const body = await this.post(
+      {
+        model,
+        max_tokens: maxTokens,
+        ...(temperature !== undefined && { temperature }),
+        messages: [
+          ...(system ? [{ role: 'system', content: system }] : []),
+          { role: 'user', content: message },
+        ],
+      },
+      operation
+    );
+
+    const choice = body.choices?.[0];
+    if (!choice) {
+      throw new AIServiceError(`${this.endpoint} returned no choices`, operation);
+    }
+
+    const response: LlmResponse = {
+      content: choice.message?.content ?? '',
+      usage: {
+        inputTokens: body.usage?.prompt_tokens ?? 0,
+        outputTokens: body.usage?.completion_tokens ?? 0,
+      },
+      model: body.model ?? model,
+      stopReason: choice.finish_reason ?? null,
+    };
+
+    // operationが指定されている場合、トークン使用量を記録
+    if (options.operation) {
+      getTokenUsageTracker().recordUsage({
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        model: response.model,
+        operation: options.operation,
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Chat Completions APIにリクエストを送信
+   *
+   * @param payload - リクエストボディ
+   * @param operation - 操作名(エラー用)
+   * @returns パース済みのレスポンス
+   * @throws {AIServiceError} HTTPエラー・タイムアウト・接続失敗・パース失敗時
+   */
+  private async post(
+    payload: Record<string, unknown>,
+    operation: string
+  ): Promise<ChatCompletionResponse> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        const message = `${this.endpoint} responded with status ${response.status}`;
+        throw response.status >= 500
+          ? new AIServiceUnavailableError(message, response.status, operation)
+          : new AIServiceError(message, operation);
+      }
+
+      return (await response.json()) as ChatCompletionResponse;
+    } catch (error) {
+      if (error instanceof AIServiceError) {
+        throw error;
+      }
+
+      const originalError = error instanceof Error ? error : undefined;
+      if (controller.signal.aborted) {
+        throw new AIServiceTimeoutError(
+          `${this.endpoint} timed out after ${this.timeoutMs}ms`,
+          this.timeoutMs,
+          operation,
+          originalError
+        );
+      }
+
+      throw new AIServiceError(
+        `${this.endpoint} request failed: ${originalError?.message ?? String(error)}`,
+        operation,
+        originalError
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
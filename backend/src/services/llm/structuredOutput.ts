@@ -0,0 +1,103 @@
+/**
+ * 構造化出力の解析
+ *
+ * ツールの入力(tool use)として得た構造化出力をJSONスキーマで検証して使用し、
+ * ツールの入力が得られない・スキーマに従っていない場合は、従来のテキストのパーサーで解析します。
+ * どちらの経路で解析したかはStructuredOutputMetricsに記録します。
+ *
+ * Requirements:
+ * - 構造化出力(ツールの入力のスキーマ検証、テキストのパーサーへのフォールバック)
+ */
+
+import type { LlmResponse, LlmToolDefinition } from './llmProvider';
+import { formatJsonSchemaIssues, validateJsonSchema } from './jsonSchema';
+import { StructuredOutputMetrics, getStructuredOutputMetrics } from './structuredOutputMetrics';
+
+/**
+ * 解析結果
+ */
+export type StructuredOutputResult<T> =
+  | { success: true; value: T; path: 'tool' | 'text' }
+  | { success: false; error: string };
+
+/**
+ * テキストのパーサーの解析結果
+ */
+export type TextParseResult<T> = { success: true; value: T } | { success: false; error: string };
+
+/**
+ * 構造化出力の解析オプション
+ */
+export interface StructuredOutputOptions<T> {
+  /** 操作名(集計・ログ用) */
+  operation: string;
+  /** 送信時に指定したツール */
+  tool: LlmToolDefinition;
+  /**
+   * スキーマ検証済みのツールの入力を変換
+   *
+   * inputはtool.inputSchemaに従っていることが保証される。
+   */
+  fromToolInput: (input: Record<string, unknown>) => T;
+  /** テキストのパーサー(フォールバック) */
+  parseText: (response: LlmResponse) => TextParseResult<T>;
+  /**
+   * 解析経路の集計
+   * @default getStructuredOutputMetrics()
+   */
+  metrics?: StructuredOutputMetrics;
+}
+
+/**
+ * 構造化出力を解析
+ *
+ * @param response - LLMのレスポンス
+ * @param options - 解析オプション
+ * @returns 解析結果(失敗時はスキーマ検証エラーとテキストのパーサーのエラーを含む)
+ *
+ * @example
+ * ```typescript
+ * const response = await provider.sendMessage(prompt, { operation, tool: TERM_OUTPUT_TOOL });
+ * const result = parseStructuredOutput(response, {
+ *   operation,
+ *   tool: TERM_OUTPUT_TOOL,
+ *   fromToolInput: (input) => input as unknown as Term,
+ *   parseText: parseTermText,
+ * });
+ * ```
+ */
+export function parseStructuredOutput<T>(
+  response: LlmResponse,
+  options: StructuredOutputOptions<T>
+): StructuredOutputResult<T> {
+  const { operation, tool } = options;
+  const metrics = options.metrics ?? getStructuredOutputMetrics();
+
+  let toolError: string | undefined;
+  if (response.toolInput !== undefined) {
+    const issues = validateJsonSchema(response.toolInput, tool.inputSchema);
+    if (issues.length === 0) {
+      metrics.record(operation, 'tool');
+      return {
+        success: true,
+        value: options.fromToolInput(response.toolInput as Record<string, unknown>),
+        path: 'tool',
+      };
+    }
+
+    toolError = `${tool.name}の入力がスキーマに従っていません: ${formatJsonSchemaIssues(issues)}`;
+    console.warn(`[StructuredOutput] ${operation}: ${toolError}. Falling back to text parser`);
+  }
+
+  const textResult = options.parseText(response);
+  if (textResult.success) {
+    metrics.record(operation, 'text');
+    return { success: true, value: textResult.value, path: 'text' };
+  }
+
+  metrics.record(operation, 'failed');
+  return {
+    success: false,
+    error: toolError ? `${toolError} / ${textResult.error}` : textResult.error,
+  };
+}
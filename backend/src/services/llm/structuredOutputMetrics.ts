@@ -0,0 +1,99 @@
+/**
+ * 構造化出力の解析経路の集計
+ *
+ * 用語生成・ニュース要約のレスポンスを、どの経路で解析できたかを操作ごとに集計します。
+ * - tool: ツールの入力(スキーマ検証済み)から解析できた
+ * - text: ツールの入力が得られない・スキーマに従っていないため、テキストのパーサーで解析した
+ * - failed: どちらの経路でも解析できなかった
+ *
+ * textの割合が高い場合は、プロバイダーがツールに対応していないか、
+ * ツールの定義(スキーマ)とモデルの出力が合っていないことを示します。
+ *
+ * Requirements:
+ * - 構造化出力(解析経路の計測)
+ */
+
+/**
+ * 解析経路
+ */
+export type StructuredOutputPath = 'tool' | 'text' | 'failed';
+
+/**
+ * 解析経路ごとの件数
+ */
+export type StructuredOutputCounts = Record<StructuredOutputPath, number>;
+
+/**
+ * 構造化出力の解析経路の集計
+ *
+ * シングルトンパターンで実装されており、
+ * getStructuredOutputMetrics()で取得できます。
+ */
+export class StructuredOutputMetrics {
+  private counts = new Map<string, StructuredOutputCounts>();
+
+  /**
+   * 解析経路を記録
+   *
+   * @param operation - 操作名
+   * @param path - 解析経路
+   */
+  record(operation: string, path: StructuredOutputPath): void {
+    const counts = this.counts.get(operation) ?? { tool: 0, text: 0, failed: 0 };
+    counts[path] += 1;
+    this.counts.set(operation, counts);
+  }
+
+  /**
+   * 操作ごとの件数を取得
+   *
+   * @returns 操作名ごとの解析経路の件数
+   */
+  getSummary(): Record<string, StructuredOutputCounts> {
+    return Object.fromEntries(
+      [...this.counts].map(([operation, counts]) => [operation, { ...counts }])
+    );
+  }
+
+  /**
+   * 操作ごとの件数をログに出力
+   */
+  logSummary(): void {
+    for (const [operation, counts] of this.counts) {
+      console.log(
+        `[StructuredOutputMetrics] ${operation}: tool=${counts.tool}, text=${counts.text}, failed=${counts.failed}`
+      );
+    }
+  }
+
+  /**
+   * すべての記録をクリア
+   */
+  reset(): void {
+    this.counts = new Map();
+  }
+}
+
+/**
+ * シングルトンインスタンス
+ */
+let structuredOutputMetricsInstance: StructuredOutputMetrics | undefined;
+
+/**
+ * 構造化出力の解析経路の集計インスタンスを取得
+ *
+ * @returns StructuredOutputMetricsインスタンス
+ */
+export function getStructuredOutputMetrics(): StructuredOutputMetrics {
+  if (!structuredOutputMetricsInstance) {
+    structuredOutputMetricsInstance = new StructuredOutputMetrics();
+  }
+  return structuredOutputMetricsInstance;
+}
+
+/**
+ * シングルトンインスタンスをリセット(テスト用)
+ */
+export function resetStructuredOutputMetrics(): void {
+  structuredOutputMetricsInstance = undefined;
+}
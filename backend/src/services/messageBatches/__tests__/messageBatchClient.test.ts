@@ -0,0 +1,127 @@
+/**
+ * MessageBatchClient テスト
+ *
+ * ローカルのスタンドインサーバーを使用して、実際のSDKのリクエスト・レスポンスの処理を通して確認します。
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ */
+
+import { MessageBatchClient } from '../messageBatchClient';
+import { LocalMessageBatchOutcome, LocalMessageBatchServer } from '../localMessageBatchServer';
+import { AIServiceError } from '../../aiServiceErrorHandler';
+import { TERM_OUTPUT_TOOL } from '../../terms/termResponseParser';
+
+describe('MessageBatchClient', () => {
+  let server: LocalMessageBatchServer;
+  let client: MessageBatchClient;
+
+  const outcomes: Record<string, LocalMessageBatchOutcome> = {
+    'request-0': {
+      type: 'succeeded',
+      toolInput: { name: 'PER', description: '株価収益率', difficulty: 'beginner' },
+      usage: { inputTokens: 120, outputTokens: 80 },
+    },
+    'request-1': { type: 'errored', message: 'prompt is too long' },
+    'request-2': { type: 'expired' },
+  };
+
+  const startServer = async (pollsUntilEnded = 0): Promise<void> => {
+    server = new LocalMessageBatchServer({
+      responder: (request) => outcomes[request.customId],
+      pollsUntilEnded,
+    });
+    const baseURL = await server.start();
+    client = new MessageBatchClient('test-api-key', {
+      baseURL,
+      modelRoutes: { 'term-generation': ['claude-haiku-4-5', 'claude-sonnet-4-5'] },
+    });
+  };
+
+  const requests = Object.keys(outcomes).map((customId) => ({
+    customId,
+    prompt: `prompt for ${customId}`,
+    options: { operation: 'term-generation', tool: TERM_OUTPUT_TOOL },
+  }));
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('submit', () => {
+    it('ルーティング表の先頭のモデルとツールの指定を含めて送信すること', async () => {
+      await startServer();
+
+      const state = await client.submit(requests);
+
+      expect(state.id).toBe('msgbatch_local_1');
+      expect(state.processingStatus).toBe('in_progress');
+      expect(state.requestCounts.processing).toBe(3);
+
+      const [first] = server.getRequests(state.id);
+      expect(first.customId).toBe('request-0');
+      expect(first.params.model).toBe('claude-haiku-4-5');
+      expect(first.params.messages).toEqual([{ role: 'user', content: 'prompt for request-0' }]);
+      expect(first.params.tool_choice).toEqual({ type: 'tool', name: TERM_OUTPUT_TOOL.name });
+    });
+
+    it('オプションでモデルを指定した場合はそのモデルを使用すること', async () => {
+      await startServer();
+
+      const state = await client.submit([
+        { customId: 'request-0', prompt: 'p', options: { model: 'claude-sonnet-4-5' } },
+      ]);
+
+      expect(server.getRequests(state.id)[0].params.model).toBe('claude-sonnet-4-5');
+    });
+  });
+
+  describe('retrieve', () => {
+    it('処理が完了するまではin_progressを返すこと', async () => {
+      await startServer(1);
+      const { id } = await client.submit(requests);
+
+      const first = await client.retrieve(id);
+      const second = await client.retrieve(id);
+
+      expect(first.processingStatus).toBe('in_progress');
+      expect(second.processingStatus).toBe('ended');
+      expect(second.requestCounts).toMatchObject({ succeeded: 1, errored: 1, expired: 1 });
+    });
+
+    it('存在しないバッチの場合はAIServiceErrorをスローすること', async () => {
+      await startServer();
+
+      await expect(client.retrieve('msgbatch_unknown')).rejects.toBeInstanceOf(AIServiceError);
+    });
+  });
+
+  describe('getResults', () => {
+    it('結果をClaudeResponse・エラーに変換すること', async () => {
+      await startServer();
+      const { id } = await client.submit(requests);
+      await client.retrieve(id);
+
+      const results = await client.getResults(id);
+
+      expect(results).toEqual([
+        {
+          customId: 'request-0',
+          type: 'succeeded',
+          response: expect.objectContaining({
+            toolInput: { name: 'PER', description: '株価収益率', difficulty: 'beginner' },
+            model: 'claude-haiku-4-5',
+            stopReason: 'tool_use',
+            usage: { inputTokens: 120, outputTokens: 80 },
+          }),
+        },
+        {
+          customId: 'request-1',
+          type: 'errored',
+          error: 'invalid_request_error: prompt is too long',
+        },
+        { customId: 'request-2', type: 'expired' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,309 @@
+/**
+ * MessageBatchService テスト
+ *
+ * ローカルのスタンドインサーバーとメモリ上のストアを使用して、バッチの送信から
+ * 完了の確認・結果の変換までを確認します。
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ * - 10.3 (トークン使用量の監視)
+ */
+
+import { MessageBatchService, MessageBatchError } from '../messageBatchService';
+import { MessageBatchClient } from '../messageBatchClient';
+import { InMemoryMessageBatchStore, MessageBatchStoreError } from '../messageBatchStore';
+import { LocalMessageBatchResponder, LocalMessageBatchServer } from '../localMessageBatchServer';
+import { FakeLlmProvider } from '../../llm';
+import { TokenUsageTracker } from '../../tokenUsageTracker';
+import type { SpendLedger } from '../../spend';
+import { BatchLock, BatchLockConflictError } from '../../batchLock';
+import { TermGenerationService } from '../../terms/termGenerationService';
+import { NewsSummaryService } from '../../news/summarization/newsSummaryService';
+import { NewsArticle } from '../../news/summarization/newsSummaryPrompt';
+
+describe('MessageBatchService', () => {
+  const validTerm = {
+    name: 'PER',
+    description: 'あ'.repeat(500),
+    difficulty: 'beginner',
+  };
+
+  const articles: NewsArticle[] = [
+    {
+      title: '日経平均株価が上昇',
+      description: '日経平均株価は前日比上昇。',
+      content: '投資家の間で楽観論が広がっている。',
+      source: '日本経済新聞',
+      publishedAt: '2026-01-02T10:00:00Z',
+    },
+  ];
+
+  let server: LocalMessageBatchServer;
+  let store: InMemoryMessageBatchStore;
+  let tokenTracker: TokenUsageTracker;
+  let usageLedger: { record: jest.Mock };
+  let service: MessageBatchService;
+
+  const createService = async (
+    responder: LocalMessageBatchResponder,
+    pollsUntilEnded = 0,
+    lock?: BatchLock
+  ): Promise<void> => {
+    server = new LocalMessageBatchServer({ responder, pollsUntilEnded });
+    const baseURL = await server.start();
+    const provider = new FakeLlmProvider();
+
+    service = new MessageBatchService({
+      client: new MessageBatchClient('test-api-key', { baseURL }),
+      store,
+      termGenerationService: new TermGenerationService(provider),
+      newsSummaryService: new NewsSummaryService(provider),
+      tokenTracker,
+      usageLedger: usageLedger as unknown as SpendLedger,
+      lock,
+      now: () => new Date('2026-01-10T03:00:00.000Z'),
+    });
+  };
+
+  beforeEach(() => {
+    store = new InMemoryMessageBatchStore();
+    tokenTracker = new TokenUsageTracker();
+    usageLedger = { record: jest.fn().mockResolvedValue({}) };
+    jest.spyOn(console, 'log').mockImplementation();
+    jest.spyOn(console, 'warn').mockImplementation();
+    jest.spyOn(console, 'error').mockImplementation();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('submit', () => {
+    it('用語生成のリクエストを送信し、バッチIDとリクエストの情報を保存すること', async () => {
+      await createService(() => ({ type: 'succeeded', toolInput: validTerm }));
+
+      const batch = await service.submitTermGeneration([
+        { difficulty: 'beginner' },
+        { difficulty: 'advanced', excludeTerms: ['PER'] },
+      ]);
+
+      expect(batch).toEqual({
+        id: 'msgbatch_local_1',
+        job: 'terms',
+        status: 'in_progress',
+        requests: [
+          { custom_id: 'request-0', operation: 'term-generation', prompt_version: 'v1' },
+          { custom_id: 'request-1', operation: 'term-generation', prompt_version: 'v1' },
+        ],
+        request_count: 2,
+        submitted_at: '2026-01-10T03:00:00.000Z',
+      });
+      expect(await service.getBatch(batch.id)).toMatchObject({ status: 'in_progress' });
+      expect(server.getRequests(batch.id).map((request) => request.customId)).toEqual([
+        'request-0',
+        'request-1',
+      ]);
+    });
+
+    it('リクエストが空の場合はMessageBatchErrorをスローすること', async () => {
+      await createService(() => ({ type: 'succeeded', text: 'OK' }));
+
+      await expect(service.submit('news', [])).rejects.toBeInstanceOf(MessageBatchError);
+    });
+
+    it('送信したバッチの保存に失敗した場合はエラーをスローし、バッチIDをログに残すこと', async () => {
+      await createService(() => ({ type: 'succeeded', text: 'OK' }));
+      jest
+        .spyOn(store, 'insert')
+        .mockRejectedValue(new MessageBatchStoreError('Failed to save message batch: down'));
+
+      await expect(service.submitTermGeneration([{}])).rejects.toBeInstanceOf(
+        MessageBatchStoreError
+      );
+      expect(console.error).toHaveBeenCalledWith(
+        '[MessageBatchService] Submitted terms batch msgbatch_local_1 could not be saved:',
+        'Failed to save message batch: down'
+      );
+    });
+  });
+
+  describe('pollInProgress', () => {
+    it('処理中のバッチは確認日時のみ更新すること', async () => {
+      await createService(() => ({ type: 'succeeded', toolInput: validTerm }), 1);
+      const batch = await service.submitTermGeneration([{}]);
+
+      const report = await service.pollInProgress();
+
+      expect(report).toEqual({ checked: 1, inProgress: [batch.id], completed: [], errors: [] });
+      expect(await service.getBatch(batch.id)).toMatchObject({
+        status: 'in_progress',
+        checked_at: '2026-01-10T03:00:00.000Z',
+        results: null,
+      });
+    });
+
+    it('完了したバッチの結果を用語生成の結果に変換して保存すること', async () => {
+      await createService((request) =>
+        request.customId === 'request-0'
+          ? {
+              type: 'succeeded',
+              toolInput: validTerm,
+              usage: { inputTokens: 300, outputTokens: 400 },
+            }
+          : request.customId === 'request-1'
+            ? { type: 'succeeded', text: 'invalid' }
+            : { type: 'errored', message: 'overloaded' }
+      );
+      const batch = await service.submitTermGeneration([{}, {}, {}]);
+
+      const report = await service.pollInProgress();
+
+      expect(report.completed).toEqual([{ id: batch.id, job: 'terms', succeeded: 1, failed: 2 }]);
+      const saved = await service.getBatch(batch.id);
+      expect(saved).toMatchObject({
+        status: 'completed',
+        succeeded_count: 1,
+        failed_count: 2,
+        completed_at: '2026-01-10T03:00:00.000Z',
+      });
+      expect(saved?.results).toEqual([
+        {
+          custom_id: 'request-0',
+          status: 'succeeded',
+          result: expect.objectContaining({
+            term: expect.objectContaining({ name: 'PER', difficulty: 'beginner' }),
+            promptVersion: 'v1',
+            inputTokens: 300,
+            outputTokens: 400,
+          }),
+        },
+        {
+          custom_id: 'request-1',
+          status: 'failed',
+          error: expect.stringContaining('レスポンスのパースに失敗しました'),
+        },
+        {
+          custom_id: 'request-2',
+          status: 'errored',
+          error: 'invalid_request_error: overloaded',
+        },
+      ]);
+      expect(await store.listInProgress()).toEqual([]);
+    });
+
+    it('ニュース要約のバッチの結果を要約結果に変換すること', async () => {
+      await createService(() => ({
+        type: 'succeeded',
+        toolInput: { summary: 'い'.repeat(399) + '。' },
+      }));
+      const newsSummaryService = new NewsSummaryService(new FakeLlmProvider());
+      const batch = await service.submit('news', [
+        newsSummaryService.prepareCategoryNewsSummaryRequest('為替', articles),
+      ]);
+
+      await service.pollInProgress();
+
+      const saved = await service.getBatch(batch.id);
+      expect(saved?.results).toEqual([
+        {
+          custom_id: 'request-0',
+          status: 'succeeded',
+          result: expect.objectContaining({ characterCount: 400, isValid: true }),
+        },
+      ]);
+    });
+
+    it('結果を取得したリクエストのトークン使用量と利用料をバッチの料金で記録すること', async () => {
+      await createService(() => ({
+        type: 'succeeded',
+        toolInput: validTerm,
+        usage: { inputTokens: 300, outputTokens: 400 },
+      }));
+      await service.submitTermGeneration([{}]);
+
+      await service.pollInProgress();
+
+      expect(tokenTracker.getSummary().totalInputTokens).toBe(300);
+      expect(usageLedger.record).toHaveBeenCalledWith({
+        operation: 'term-generation',
+        model: 'claude-haiku-4-5',
+        inputTokens: 300,
+        outputTokens: 400,
+        batch: true,
+      });
+    });
+
+    it('利用料の記録に失敗しても結果を変換すること', async () => {
+      await createService(() => ({ type: 'succeeded', toolInput: validTerm }));
+      usageLedger.record.mockRejectedValue(new Error('ledger down'));
+      const batch = await service.submitTermGeneration([{}]);
+
+      const report = await service.pollInProgress();
+
+      expect(report.completed).toEqual([{ id: batch.id, job: 'terms', succeeded: 1, failed: 0 }]);
+      expect(console.warn).toHaveBeenCalledWith(
+        '[MessageBatchService] Failed to record Claude usage:',
+        'ledger down'
+      );
+    });
+
+    it('確認に失敗したバッチは処理中のまま残し、他のバッチの確認を続けること', async () => {
+      await createService(() => ({ type: 'succeeded', toolInput: validTerm }));
+      await store.insert({
+        id: 'msgbatch_unknown',
+        job: 'terms',
+        status: 'in_progress',
+        requests: [{ custom_id: 'request-0', operation: 'term-generation', prompt_version: 'v1' }],
+        request_count: 1,
+        submitted_at: '2026-01-09T00:00:00.000Z',
+      });
+      const batch = await service.submitTermGeneration([{}]);
+
+      const report = await service.pollInProgress();
+
+      expect(report.checked).toBe(2);
+      expect(report.errors).toEqual([{ id: 'msgbatch_unknown', error: expect.any(String) }]);
+      expect(report.completed).toEqual([{ id: batch.id, job: 'terms', succeeded: 1, failed: 0 }]);
+      expect(await store.listInProgress()).toEqual([
+        expect.objectContaining({ id: 'msgbatch_unknown' }),
+      ]);
+    });
+
+    it('リースロックを指定した場合は取得してから確認し、確認後に解放すること', async () => {
+      const lock = {
+        acquire: jest.fn().mockResolvedValue(undefined),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      await createService(
+        () => ({ type: 'succeeded', toolInput: validTerm }),
+        0,
+        lock as unknown as BatchLock
+      );
+      await service.submitTermGeneration([{}]);
+
+      const report = await service.pollInProgress();
+
+      expect(report.completed).toHaveLength(1);
+      expect(lock.acquire).toHaveBeenCalledTimes(1);
+      expect(lock.release).toHaveBeenCalledTimes(1);
+    });
+
+    it('確認中の実行がある場合はBatchLockConflictErrorをスローし、バッチを確認しないこと', async () => {
+      const lock = {
+        acquire: jest.fn().mockRejectedValue(new BatchLockConflictError('messages', null)),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      await createService(
+        () => ({ type: 'succeeded', toolInput: validTerm }),
+        0,
+        lock as unknown as BatchLock
+      );
+      await service.submitTermGeneration([{}]);
+
+      await expect(service.pollInProgress()).rejects.toBeInstanceOf(BatchLockConflictError);
+      expect(await store.listInProgress()).toHaveLength(1);
+      expect(lock.release).not.toHaveBeenCalled();
+    });
+  });
+});
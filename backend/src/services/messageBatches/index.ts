@@ -0,0 +1,40 @@
+/**
+ * Message Batchesモジュール
+ *
+ * すぐに結果が必要ない生成処理(バックフィル・週次のまとめ・用語の事前生成など)を
+ * Claude APIのMessage Batchesでまとめて送信し、Cronから完了を確認して結果を変換する機能を提供します。
+ */
+
+export {
+  MessageBatchClient,
+  getMessageBatchClient,
+  resetMessageBatchClient,
+  type MessageBatchClientConfig,
+  type MessageBatchRequest,
+  type MessageBatchState,
+  type MessageBatchResultEntry,
+} from './messageBatchClient';
+
+export {
+  InMemoryMessageBatchStore,
+  SupabaseMessageBatchStore,
+  MessageBatchStoreError,
+  CLAUDE_MESSAGE_BATCHES_TABLE,
+  type MessageBatchStore,
+} from './messageBatchStore';
+
+export {
+  MessageBatchService,
+  MessageBatchError,
+  type MessageBatchServiceConfig,
+  type MessageBatchPollReport,
+  type MessageBatchCompletion,
+} from './messageBatchService';
+
+export {
+  LocalMessageBatchServer,
+  type LocalMessageBatchServerConfig,
+  type LocalMessageBatchRequest,
+  type LocalMessageBatchOutcome,
+  type LocalMessageBatchResponder,
+} from './localMessageBatchServer';
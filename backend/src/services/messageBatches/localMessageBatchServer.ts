@@ -0,0 +1,355 @@
+/**
+ * Message Batches APIのローカルのスタンドインサーバー
+ *
+ * Anthropic APIのMessage Batchesのエンドポイント(作成・取得・結果のJSONL)を
+ * ローカルのHTTPサーバーで再現します。MessageBatchClientのbaseURLに指定すると、
+ * 実際のSDKのリクエスト・レスポンスの処理を通して、ネットワーク・APIキーなしで
+ * バッチの送信から結果の変換までを確認できます(テスト・ローカル実行用)。
+ *
+ * - POST /v1/messages/batches: バッチを作成(リクエストを記録)
+ * - GET /v1/messages/batches/:id: 処理状況を返す(pollsUntilEnded回まではin_progress)
+ * - GET /v1/messages/batches/:id/results: responderの結果をJSONLで返す
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ */
+
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import type Anthropic from '@anthropic-ai/sdk';
+
+/**
+ * スタンドインサーバーが受け付けたリクエスト
+ */
+export interface LocalMessageBatchRequest {
+  /** リクエストのID */
+  customId: string;
+  /** Messages APIのリクエストパラメータ */
+  params: Anthropic.Messages.MessageCreateParamsNonStreaming;
+}
+
+/**
+ * リクエストの処理結果
+ */
+export type LocalMessageBatchOutcome =
+  | {
+      type: 'succeeded';
+      /** テキストの本文 */
+      text?: string;
+      /** ツールの入力(tool_choiceで指定したツールの呼び出しとして返す) */
+      toolInput?: unknown;
+      /** 終了理由 @default toolInputがある場合は'tool_use'、ない場合は'end_turn' */
+      stopReason?: Anthropic.Messages.StopReason;
+      /** トークン使用量 @default { inputTokens: 10, outputTokens: 20 } */
+      usage?: { inputTokens: number; outputTokens: number };
+    }
+  | { type: 'errored'; message: string }
+  | { type: 'canceled' | 'expired' };
+
+/**
+ * リクエストの処理結果を返す関数
+ */
+export type LocalMessageBatchResponder = (
+  request: LocalMessageBatchRequest
+) => LocalMessageBatchOutcome;
+
+/**
+ * スタンドインサーバーの設定
+ */
+export interface LocalMessageBatchServerConfig {
+  /**
+   * リクエストの処理結果を返す関数
+   * @default 'OK'のテキストを返す
+   */
+  responder?: LocalMessageBatchResponder;
+  /**
+   * 処理状況の取得でin_progressを返す回数(この回数の後はendedを返す)
+   * @default 0
+   */
+  pollsUntilEnded?: number;
+}
+
+/**
+ * 作成されたバッチ
+ */
+interface LocalBatch {
+  id: string;
+  requests: LocalMessageBatchRequest[];
+  remainingPolls: number;
+  createdAt: string;
+}
+
+/**
+ * デフォルトの処理結果
+ */
+const defaultResponder: LocalMessageBatchResponder = () => ({ type: 'succeeded', text: 'OK' });
+
+/**
+ * Message Batches APIのローカルのスタンドインサーバー
+ *
+ * @example
+ * ```typescript
+ * const server = new LocalMessageBatchServer({
+ *   responder: () => ({ type: 'succeeded', toolInput: term }),
+ * });
+ * const baseURL = await server.start();
+ * const client = new MessageBatchClient('test-api-key', { baseURL });
+ * // ...
+ * await server.stop();
+ * ```
+ */
+export class LocalMessageBatchServer {
+  private readonly responder: LocalMessageBatchResponder;
+  private readonly pollsUntilEnded: number;
+  private readonly batches = new Map<string, LocalBatch>();
+  private server?: http.Server;
+  private baseUrl?: string;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - サーバーの設定
+   */
+  constructor(config: LocalMessageBatchServerConfig = {}) {
+    this.responder = config.responder ?? defaultResponder;
+    this.pollsUntilEnded = config.pollsUntilEnded ?? 0;
+  }
+
+  /**
+   * サーバーを起動
+   *
+   * @returns APIのベースURL(例: http://127.0.0.1:54321)
+   */
+  async start(): Promise<string> {
+    const server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => this.handle(req, res, body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  /**
+   * サーバーを停止
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  }
+
+  /**
+   * 作成されたバッチのリクエストを取得
+   *
+   * @param batchId - バッチID
+   * @returns リクエスト(バッチがない場合は空配列)
+   */
+  getRequests(batchId: string): LocalMessageBatchRequest[] {
+    return this.batches.get(batchId)?.requests ?? [];
+  }
+
+  /**
+   * リクエストを処理
+   */
+  private handle(req: http.IncomingMessage, res: http.ServerResponse, body: string): void {
+    const path = (req.url ?? '').split('?')[0];
+    const match = path.match(/^\/v1\/messages\/batches(?:\/([^/]+))?(\/results)?$/);
+
+    if (!match) {
+      return sendError(res, 404, 'not_found_error', `Unknown path: ${path}`);
+    }
+
+    const [, batchId, results] = match;
+
+    if (req.method === 'POST' && !batchId) {
+      return this.createBatch(res, body);
+    }
+
+    const batch = batchId ? this.batches.get(batchId) : undefined;
+    if (req.method !== 'GET' || !batch) {
+      return sendError(res, 404, 'not_found_error', `Batch not found: ${batchId ?? ''}`);
+    }
+
+    if (results) {
+      return this.sendResults(res, batch);
+    }
+
+    const ended = batch.remainingPolls === 0;
+    if (!ended) {
+      batch.remainingPolls -= 1;
+    }
+    sendJson(res, 200, this.toMessageBatch(batch, ended));
+  }
+
+  /**
+   * バッチを作成
+   */
+  private createBatch(res: http.ServerResponse, body: string): void {
+    let params: Anthropic.Messages.BatchCreateParams;
+    try {
+      params = JSON.parse(body);
+    } catch {
+      return sendError(res, 400, 'invalid_request_error', 'Invalid JSON body');
+    }
+
+    if (!Array.isArray(params.requests) || params.requests.length === 0) {
+      return sendError(res, 400, 'invalid_request_error', 'requests must not be empty');
+    }
+
+    const batch: LocalBatch = {
+      id: `msgbatch_local_${this.batches.size + 1}`,
+      requests: params.requests.map((request) => ({
+        customId: request.custom_id,
+        params: request.params,
+      })),
+      remainingPolls: this.pollsUntilEnded,
+      createdAt: new Date().toISOString(),
+    };
+    this.batches.set(batch.id, batch);
+
+    sendJson(res, 200, this.toMessageBatch(batch, false));
+  }
+
+  /**
+   * バッチの結果をJSONLで返す
+   */
+  private sendResults(res: http.ServerResponse, batch: LocalBatch): void {
+    if (batch.remainingPolls > 0) {
+      return sendError(res, 404, 'not_found_error', `Batch ${batch.id} has not ended`);
+    }
+
+    const lines = batch.requests.map((request) =>
+      JSON.stringify({
+        custom_id: request.customId,
+        result: toBatchResult(request, this.responder),
+      })
+    );
+
+    res.statusCode = 200;
+    res.setHeader('content-type', 'application/binary');
+    res.end(lines.join('\n') + '\n');
+  }
+
+  /**
+   * バッチをMessage Batches APIのレスポンスに変換
+   *
+   * @param batch - バッチ
+   * @param ended - 処理が完了しているかどうか
+   */
+  private toMessageBatch(batch: LocalBatch, ended: boolean): Anthropic.Messages.MessageBatch {
+    const counts = { processing: 0, succeeded: 0, errored: 0, canceled: 0, expired: 0 };
+
+    for (const request of batch.requests) {
+      if (ended) {
+        counts[this.responder(request).type] += 1;
+      } else {
+        counts.processing += 1;
+      }
+    }
+
+    return {
+      id: batch.id,
+      type: 'message_batch',
+      processing_status: ended ? 'ended' : 'in_progress',
+      request_counts: counts,
+      created_at: batch.createdAt,
+      ended_at: ended ? new Date().toISOString() : null,
+      expires_at: new Date(Date.parse(batch.createdAt) + 24 * 60 * 60 * 1000).toISOString(),
+      archived_at: null,
+      cancel_initiated_at: null,
+      results_url: ended ? `${this.baseUrl}/v1/messages/batches/${batch.id}/results` : null,
+    };
+  }
+}
+
+/**
+ * リクエストの処理結果をMessage Batches APIの結果に変換
+ */
+function toBatchResult(
+  request: LocalMessageBatchRequest,
+  responder: LocalMessageBatchResponder
+): Anthropic.Messages.MessageBatchResult {
+  const outcome = responder(request);
+
+  switch (outcome.type) {
+    case 'errored':
+      return {
+        type: 'errored',
+        error: {
+          type: 'error',
+          error: { type: 'invalid_request_error', message: outcome.message },
+          request_id: null,
+        },
+      };
+    case 'canceled':
+    case 'expired':
+      return { type: outcome.type };
+  }
+
+  const toolChoice = request.params.tool_choice;
+  const toolName = toolChoice && 'name' in toolChoice ? toolChoice.name : 'tool';
+  const content: Anthropic.Messages.ContentBlock[] = [];
+  if (outcome.text !== undefined) {
+    content.push({ type: 'text', text: outcome.text, citations: null });
+  }
+  if (outcome.toolInput !== undefined) {
+    content.push({
+      type: 'tool_use',
+      id: `toolu_local_${request.customId}`,
+      name: toolName,
+      input: outcome.toolInput,
+    });
+  }
+
+  return {
+    type: 'succeeded',
+    message: {
+      id: `msg_local_${request.customId}`,
+      type: 'message',
+      role: 'assistant',
+      model: request.params.model,
+      content,
+      stop_reason:
+        outcome.stopReason ?? (outcome.toolInput !== undefined ? 'tool_use' : 'end_turn'),
+      stop_sequence: null,
+      usage: {
+        input_tokens: outcome.usage?.inputTokens ?? 10,
+        output_tokens: outcome.usage?.outputTokens ?? 20,
+        cache_creation: null,
+        cache_creation_input_tokens: null,
+        cache_read_input_tokens: null,
+        server_tool_use: null,
+        service_tier: 'batch',
+      },
+    },
+  };
+}
+
+/**
+ * JSONのレスポンスを返す
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('content-type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Anthropic APIと同じ形式のエラーレスポンスを返す
+ */
+function sendError(
+  res: http.ServerResponse,
+  status: number,
+  type: 'invalid_request_error' | 'not_found_error',
+  message: string
+): void {
+  sendJson(res, status, { type: 'error', error: { type, message } });
+}
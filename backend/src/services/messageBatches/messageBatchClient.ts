@@ -0,0 +1,251 @@
+/**
+ * Claude API Message Batchesクライアント
+ *
+ * 複数のリクエストをまとめて送信し、非同期に(最大24時間で)処理するMessage Batches APIのクライアントです。
+ * バックフィル・週次のまとめ・用語の事前生成など、すぐに結果が必要ない生成処理に使用します
+ * (料金は同期呼び出しの50%)。
+ *
+ * 各リクエストのパラメータとレスポンスの変換は、ClaudeClientと同じ関数(buildMessageParams・
+ * toClaudeResponse)を使用します。モデルを指定しないリクエストは、ルーティング表の先頭のモデルを使用します
+ * (非同期処理のためフォールバックは行いません)。
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ *
+ * @see https://docs.anthropic.com/en/docs/build-with-claude/batch-processing - Message Batches
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { getApiKey } from '../apiKeyConfig';
+import { AIServiceErrorHandler } from '../aiServiceErrorHandler';
+import {
+  ClaudeResponse,
+  DEFAULT_MODEL_ROUTES,
+  ModelRoutingTable,
+  SendMessageOptions,
+  buildMessageParams,
+  resolveModelChain,
+  toClaudeResponse,
+} from '../claudeClient';
+import { getClaudeModelRoutesEnvConfig } from '../../config/envConfig';
+
+/**
+ * エラーの操作名
+ */
+const MESSAGE_BATCH_OPERATION = 'message-batch';
+
+/**
+ * バッチで送信するリクエスト
+ */
+export interface MessageBatchRequest {
+  /** リクエストのID(バッチ内で一意、英数字・_・-の64文字以内) */
+  customId: string;
+  /** 送信するメッセージ */
+  prompt: string;
+  /** 送信オプション */
+  options: SendMessageOptions;
+}
+
+/**
+ * バッチの処理状況
+ */
+export interface MessageBatchState {
+  /** バッチID */
+  id: string;
+  /** 処理状況(endedの場合は結果を取得できる) */
+  processingStatus: 'in_progress' | 'canceling' | 'ended';
+  /** 結果の状態ごとのリクエスト数 */
+  requestCounts: Anthropic.Messages.MessageBatchRequestCounts;
+}
+
+/**
+ * バッチ内のリクエストの結果
+ */
+export type MessageBatchResultEntry =
+  | { customId: string; type: 'succeeded'; response: ClaudeResponse }
+  | { customId: string; type: 'errored'; error: string }
+  | { customId: string; type: 'canceled' | 'expired' };
+
+/**
+ * Message Batchesクライアントの設定
+ */
+export interface MessageBatchClientConfig {
+  /**
+   * APIのベースURL(ローカルのスタンドインサーバーを使用する場合に指定)
+   * @default Anthropic SDKのデフォルト
+   */
+  baseURL?: string;
+  /**
+   * 操作名ごとのモデルの優先順リスト(先頭のモデルを使用)
+   * @default DEFAULT_MODEL_ROUTES
+   */
+  modelRoutes?: ModelRoutingTable;
+}
+
+/**
+ * Message Batchesクライアント
+ *
+ * @example
+ * ```typescript
+ * const client = getMessageBatchClient();
+ * const batch = await client.submit([
+ *   { customId: 'request-0', prompt, options: { operation: 'term-generation' } },
+ * ]);
+ *
+ * // 後でCronから完了を確認する
+ * const state = await client.retrieve(batch.id);
+ * if (state.processingStatus === 'ended') {
+ *   const results = await client.getResults(batch.id);
+ * }
+ * ```
+ */
+export class MessageBatchClient {
+  private readonly client: Anthropic;
+  private readonly modelRoutes: ModelRoutingTable;
+  private readonly errorHandler = new AIServiceErrorHandler({ logErrors: false });
+
+  /**
+   * コンストラクタ
+   *
+   * @param apiKey - Anthropic APIキー
+   * @param config - ベースURL・モデルのルーティングの設定
+   */
+  constructor(apiKey: string, config: MessageBatchClientConfig = {}) {
+    this.client = new Anthropic({
+      apiKey,
+      ...(config.baseURL && { baseURL: config.baseURL }),
+    });
+    this.modelRoutes = config.modelRoutes ?? DEFAULT_MODEL_ROUTES;
+  }
+
+  /**
+   * リクエストをまとめて送信
+   *
+   * @param requests - 送信するリクエスト
+   * @returns 送信したバッチの処理状況
+   * @throws {AIServiceError} 送信に失敗した場合
+   */
+  async submit(requests: MessageBatchRequest[]): Promise<MessageBatchState> {
+    try {
+      const batch = await this.client.messages.batches.create({
+        requests: requests.map((request) => ({
+          custom_id: request.customId,
+          params: buildMessageParams(
+            request.options.model ??
+              resolveModelChain(request.options.operation, this.modelRoutes)[0],
+            request.prompt,
+            request.options
+          ),
+        })),
+      });
+      return toMessageBatchState(batch);
+    } catch (error) {
+      throw this.errorHandler.handleError(error, MESSAGE_BATCH_OPERATION);
+    }
+  }
+
+  /**
+   * バッチの処理状況を取得
+   *
+   * @param batchId - バッチID
+   * @returns バッチの処理状況
+   * @throws {AIServiceError} 取得に失敗した場合
+   */
+  async retrieve(batchId: string): Promise<MessageBatchState> {
+    try {
+      return toMessageBatchState(await this.client.messages.batches.retrieve(batchId));
+    } catch (error) {
+      throw this.errorHandler.handleError(error, MESSAGE_BATCH_OPERATION);
+    }
+  }
+
+  /**
+   * 処理が完了したバッチの結果を取得
+   *
+   * 結果の順序は送信順と一致しないため、customIdで対応付けます。
+   *
+   * @param batchId - バッチID
+   * @returns リクエストごとの結果
+   * @throws {AIServiceError} 取得に失敗した場合(処理中のバッチを含む)
+   */
+  async getResults(batchId: string): Promise<MessageBatchResultEntry[]> {
+    try {
+      const entries: MessageBatchResultEntry[] = [];
+      for await (const entry of await this.client.messages.batches.results(batchId)) {
+        entries.push(toResultEntry(entry));
+      }
+      return entries;
+    } catch (error) {
+      throw this.errorHandler.handleError(error, MESSAGE_BATCH_OPERATION);
+    }
+  }
+}
+
+/**
+ * SDKのバッチを処理状況に変換
+ *
+ * @param batch - SDKのバッチ
+ * @returns バッチの処理状況
+ */
+function toMessageBatchState(batch: Anthropic.Messages.MessageBatch): MessageBatchState {
+  return {
+    id: batch.id,
+    processingStatus: batch.processing_status,
+    requestCounts: batch.request_counts,
+  };
+}
+
+/**
+ * SDKの結果をリクエストごとの結果に変換
+ *
+ * @param entry - SDKの結果
+ * @returns リクエストごとの結果
+ */
+function toResultEntry(
+  entry: Anthropic.Messages.MessageBatchIndividualResponse
+): MessageBatchResultEntry {
+  const { custom_id: customId, result } = entry;
+
+  switch (result.type) {
+    case 'succeeded':
+      return { customId, type: 'succeeded', response: toClaudeResponse(result.message) };
+    case 'errored':
+      return {
+        customId,
+        type: 'errored',
+        error: `${result.error.error.type}: ${result.error.error.message}`,
+      };
+    default:
+      return { customId, type: result.type };
+  }
+}
+
+/**
+ * シングルトンインスタンス
+ */
+let messageBatchClientInstance: MessageBatchClient | undefined;
+
+/**
+ * Message Batchesクライアントを取得
+ *
+ * シングルトンパターンでインスタンスを返します。
+ * CLAUDE_MODEL_ROUTESが設定されている場合は、その操作のルーティングをデフォルトより優先します。
+ *
+ * @returns MessageBatchClientインスタンス
+ * @throws {ApiKeyError} 環境変数が設定されていない場合にエラーをスロー
+ */
+export function getMessageBatchClient(): MessageBatchClient {
+  if (!messageBatchClientInstance) {
+    messageBatchClientInstance = new MessageBatchClient(getApiKey(), {
+      modelRoutes: { ...DEFAULT_MODEL_ROUTES, ...getClaudeModelRoutesEnvConfig() },
+    });
+  }
+  return messageBatchClientInstance;
+}
+
+/**
+ * シングルトンインスタンスをリセット(テスト用)
+ */
+export function resetMessageBatchClient(): void {
+  messageBatchClientInstance = undefined;
+}
@@ -0,0 +1,432 @@
+/**
+ * Message Batchesによる非同期の生成処理
+ *
+ * バックフィル・週次のまとめ・用語の事前生成など、すぐに結果が必要ない生成処理を
+ * Message Batchesでまとめて送信し、バッチIDをclaude_message_batchesテーブルに保存します。
+ * Cronエンドポイント(/api/batch/messages)から処理中のバッチの完了を確認し、
+ * 完了したバッチの結果を同期呼び出しと同じパーサーで用語生成の結果(TermGenerationResult)・
+ * 要約結果(SummaryResult)に変換して保存します。
+ *
+ * 同期呼び出しと異なり、パースに失敗したリクエストのリトライや要約の品質ゲートによる再生成は行いません
+ * (失敗した結果はstatus: 'failed'として保存し、必要に応じて再送信します)。
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ * - 10.3 (トークン使用量の監視)
+ */
+
+import type {
+  ClaudeMessageBatchInsertPayload,
+  ClaudeMessageBatchJob,
+  ClaudeMessageBatchRequestRecord,
+  ClaudeMessageBatchResultRecord,
+  ClaudeMessageBatchRow,
+} from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import type { PreparedLlmRequest } from '../llm/llmProvider';
+import { getLlmProvider } from '../llm';
+import { TokenUsageTracker, getTokenUsageTracker } from '../tokenUsageTracker';
+import type { SpendLedger } from '../spend';
+import type { ClaudeResponse } from '../claudeClient';
+import { GenerateTermOptions, TermGenerationService } from '../terms/termGenerationService';
+import { NewsSummaryService } from '../news/summarization/newsSummaryService';
+import {
+  MessageBatchClient,
+  MessageBatchResultEntry,
+  getMessageBatchClient,
+} from './messageBatchClient';
+import { MessageBatchStore, SupabaseMessageBatchStore } from './messageBatchStore';
+import type { BatchLock } from '../batchLock';
+
+/**
+ * バッチの送信エラー
+ */
+export class MessageBatchError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.VALIDATION, ErrorSeverity.LOW, false, originalError);
+    this.name = 'MessageBatchError';
+  }
+}
+
+/**
+ * 結果を変換したバッチ
+ */
+export interface MessageBatchCompletion {
+  /** バッチID */
+  id: string;
+  /** バッチの種類 */
+  job: ClaudeMessageBatchJob;
+  /** 変換に成功した結果の数 */
+  succeeded: number;
+  /** 失敗した結果の数 */
+  failed: number;
+}
+
+/**
+ * 処理中のバッチの確認結果
+ */
+export interface MessageBatchPollReport {
+  /** 確認したバッチの数 */
+  checked: number;
+  /** 処理中のバッチID */
+  inProgress: string[];
+  /** 結果を変換したバッチ */
+  completed: MessageBatchCompletion[];
+  /** 確認・変換に失敗したバッチ(次回の確認で再試行する) */
+  errors: { id: string; error: string }[];
+}
+
+/**
+ * Message Batchesサービスの設定
+ */
+export interface MessageBatchServiceConfig {
+  /**
+   * Message Batchesクライアント
+   * @default getMessageBatchClient()
+   */
+  client?: MessageBatchClient;
+  /**
+   * バッチのストア
+   * @default new SupabaseMessageBatchStore()
+   */
+  store?: MessageBatchStore;
+  /**
+   * 用語生成のリクエストの作成・結果の変換に使用するサービス
+   * @default new TermGenerationService(getLlmProvider())
+   */
+  termGenerationService?: TermGenerationService;
+  /**
+   * ニュース要約の結果の変換に使用するサービス
+   * @default new NewsSummaryService(getLlmProvider())
+   */
+  newsSummaryService?: NewsSummaryService;
+  /**
+   * トークン使用量の記録
+   * @default getTokenUsageTracker()
+   */
+  tokenTracker?: TokenUsageTracker;
+  /**
+   * 利用料の記録
+   *
+   * 指定した場合、結果を取得したリクエストの利用料をMessage Batchesの料金でclaude_usageテーブルに保存する。
+   */
+  usageLedger?: SpendLedger;
+  /**
+   * 処理中のバッチの確認のリースロック
+   *
+   * 指定した場合、確認中は他の確認を実行できないようにする(同じバッチの結果の二重保存・利用料の二重記録を防ぐ)。
+   * 確認中の実行がある場合、pollInProgress()はBatchLockConflictErrorをスローする。
+   */
+  lock?: BatchLock;
+  /**
+   * 現在日時を返す関数(テスト用)
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * Message Batchesサービス
+ *
+ * @example
+ * ```typescript
+ * const service = new MessageBatchService({ usageLedger: new SpendLedger() });
+ *
+ * // 用語を30件事前生成する
+ * const batch = await service.submitTermGeneration(
+ *   Array.from({ length: 30 }, () => ({ excludeTerms }))
+ * );
+ *
+ * // Cronエンドポイントから完了を確認し、結果を変換する
+ * const report = await service.pollInProgress();
+ * const completed = await service.getBatch(batch.id);
+ * ```
+ */
+export class MessageBatchService {
+  private readonly client: MessageBatchClient;
+  private readonly store: MessageBatchStore;
+  private readonly termGenerationService: TermGenerationService;
+  private readonly newsSummaryService: NewsSummaryService;
+  private readonly tokenTracker: TokenUsageTracker;
+  private readonly usageLedger?: SpendLedger;
+  private readonly lock?: BatchLock;
+  private readonly now: () => Date;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - サービス設定
+   */
+  constructor(config: MessageBatchServiceConfig = {}) {
+    this.client = config.client ?? getMessageBatchClient();
+    this.store = config.store ?? new SupabaseMessageBatchStore();
+    this.termGenerationService =
+      config.termGenerationService ?? new TermGenerationService(getLlmProvider());
+    this.newsSummaryService = config.newsSummaryService ?? new NewsSummaryService(getLlmProvider());
+    this.tokenTracker = config.tokenTracker ?? getTokenUsageTracker();
+    this.usageLedger = config.usageLedger;
+    this.lock = config.lock;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * リクエストをまとめて送信し、バッチを保存
+   *
+   * リクエストにはcustom_idとして送信順の番号(request-0, request-1, ...)を付けます。
+   *
+   * @param job - バッチの種類(結果の変換方法)
+   * @param requests - 各サービスのprepare*Request()で作成したリクエスト
+   * @returns 保存したバッチ
+   * @throws {MessageBatchError} リクエストが空の場合
+   * @throws {AIServiceError} 送信に失敗した場合
+   * @throws {MessageBatchStoreError} 送信したバッチの保存に失敗した場合
+   */
+  async submit(
+    job: ClaudeMessageBatchJob,
+    requests: PreparedLlmRequest[]
+  ): Promise<ClaudeMessageBatchInsertPayload> {
+    if (requests.length === 0) {
+      throw new MessageBatchError('送信するリクエストがありません');
+    }
+
+    const records: ClaudeMessageBatchRequestRecord[] = requests.map((request, index) => ({
+      custom_id: `request-${index}`,
+      operation: request.options.operation,
+      prompt_version: request.promptVersion,
+    }));
+
+    const state = await this.client.submit(
+      requests.map((request, index) => ({
+        customId: records[index].custom_id,
+        prompt: request.prompt,
+        options: request.options,
+      }))
+    );
+
+    const batch: ClaudeMessageBatchInsertPayload = {
+      id: state.id,
+      job,
+      status: 'in_progress',
+      requests: records,
+      request_count: records.length,
+      submitted_at: this.now().toISOString(),
+    };
+
+    try {
+      await this.store.insert(batch);
+    } catch (error) {
+      // 送信済みのバッチは保存できないと結果を取得できないため、IDをログに残す
+      console.error(
+        `[MessageBatchService] Submitted ${job} batch ${state.id} could not be saved:`,
+        error instanceof Error ? error.message : error
+      );
+      throw error;
+    }
+
+    console.log(
+      `[MessageBatchService] Submitted ${job} batch ${state.id} (${records.length} requests)`
+    );
+    return batch;
+  }
+
+  /**
+   * 用語生成のリクエストをまとめて送信
+   *
+   * @param items - 用語ごとの生成オプション
+   * @returns 保存したバッチ
+   * @throws {MessageBatchError} リクエストが空の場合
+   * @throws {AIServiceError} 送信に失敗した場合
+   * @throws {MessageBatchStoreError} 送信したバッチの保存に失敗した場合
+   */
+  async submitTermGeneration(
+    items: GenerateTermOptions[]
+  ): Promise<ClaudeMessageBatchInsertPayload> {
+    return this.submit(
+      'terms',
+      items.map((options) => this.termGenerationService.prepareRequest(options))
+    );
+  }
+
+  /**
+   * 保存したバッチを取得
+   *
+   * 完了したバッチのresultsには、custom_idごとにTermGenerationResult(terms)
+   * またはSummaryResult(news)が含まれます。
+   *
+   * @param id - バッチID
+   * @returns バッチ(ない場合はnull)
+   * @throws {MessageBatchStoreError} 取得に失敗した場合
+   */
+  async getBatch(id: string): Promise<ClaudeMessageBatchRow | null> {
+    return this.store.get(id);
+  }
+
+  /**
+   * 処理中のバッチの完了を確認し、完了したバッチの結果を変換して保存
+   *
+   * バッチごとのエラーは他のバッチの確認に影響させず、次回の確認で再試行します。
+   *
+   * @returns 確認結果
+   * @throws {MessageBatchStoreError} 処理中のバッチの取得に失敗した場合
+   * @throws {BatchLockConflictError} リースロックが指定され、確認中の実行がある場合
+   * @throws {BatchLockError} リースロックの取得処理に失敗した場合
+   */
+  async pollInProgress(): Promise<MessageBatchPollReport> {
+    await this.lock?.acquire();
+    try {
+      return await this.checkInProgress();
+    } finally {
+      await this.lock?.release();
+    }
+  }
+
+  /**
+   * 処理中のバッチを順に確認
+   */
+  private async checkInProgress(): Promise<MessageBatchPollReport> {
+    const batches = await this.store.listInProgress();
+    const report: MessageBatchPollReport = {
+      checked: batches.length,
+      inProgress: [],
+      completed: [],
+      errors: [],
+    };
+
+    for (const batch of batches) {
+      try {
+        const completion = await this.checkBatch(batch);
+        if (completion) {
+          report.completed.push(completion);
+        } else {
+          report.inProgress.push(batch.id);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[MessageBatchService] Failed to check batch ${batch.id}:`, message);
+        report.errors.push({ id: batch.id, error: message });
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * バッチの完了を確認し、完了している場合は結果を変換して保存
+   *
+   * @param batch - 処理中のバッチ
+   * @returns 結果を変換した場合はその件数(処理中の場合はnull)
+   */
+  private async checkBatch(batch: ClaudeMessageBatchRow): Promise<MessageBatchCompletion | null> {
+    const checkedAt = this.now().toISOString();
+    const state = await this.client.retrieve(batch.id);
+
+    if (state.processingStatus !== 'ended') {
+      await this.store.update(batch.id, { checked_at: checkedAt });
+      return null;
+    }
+
+    const entries = new Map(
+      (await this.client.getResults(batch.id)).map((entry) => [entry.customId, entry])
+    );
+
+    const results: ClaudeMessageBatchResultRecord[] = [];
+    for (const request of batch.requests) {
+      results.push(await this.mapResult(batch.job, request, entries.get(request.custom_id)));
+    }
+
+    const succeeded = results.filter((result) => result.status === 'succeeded').length;
+    const failed = results.length - succeeded;
+
+    await this.store.update(batch.id, {
+      status: 'completed',
+      results,
+      succeeded_count: succeeded,
+      failed_count: failed,
+      checked_at: checkedAt,
+      completed_at: this.now().toISOString(),
+    });
+
+    console.log(
+      `[MessageBatchService] Completed ${batch.job} batch ${batch.id}: succeeded=${succeeded}, failed=${failed}`
+    );
+    return { id: batch.id, job: batch.job, succeeded, failed };
+  }
+
+  /**
+   * リクエストの結果を生成結果に変換
+   *
+   * @param job - バッチの種類
+   * @param request - リクエスト
+   * @param entry - APIの結果(結果が返されなかった場合はundefined)
+   * @returns 変換した結果
+   */
+  private async mapResult(
+    job: ClaudeMessageBatchJob,
+    request: ClaudeMessageBatchRequestRecord,
+    entry: MessageBatchResultEntry | undefined
+  ): Promise<ClaudeMessageBatchResultRecord> {
+    const { custom_id, operation, prompt_version } = request;
+
+    if (!entry) {
+      return { custom_id, status: 'errored', error: '結果が返されませんでした' };
+    }
+
+    switch (entry.type) {
+      case 'errored':
+        return { custom_id, status: 'errored', error: entry.error };
+      case 'canceled':
+        return { custom_id, status: 'canceled', error: 'リクエストがキャンセルされました' };
+      case 'expired':
+        return { custom_id, status: 'expired', error: 'リクエストが期限切れになりました' };
+    }
+
+    await this.recordUsage(operation, entry.response);
+
+    try {
+      const result =
+        job === 'terms'
+          ? this.termGenerationService.toGenerationResult(entry.response, prompt_version, operation)
+          : this.newsSummaryService.toSummaryResult(entry.response, operation, prompt_version);
+      return { custom_id, status: 'succeeded', result };
+    } catch (error) {
+      return {
+        custom_id,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 結果を取得したリクエストのトークン使用量・利用料を記録
+   *
+   * @param operation - 操作名
+   * @param response - レスポンス
+   */
+  private async recordUsage(operation: string, response: ClaudeResponse): Promise<void> {
+    this.tokenTracker.recordUsage({
+      inputTokens: response.usage.inputTokens,
+      outputTokens: response.usage.outputTokens,
+      model: response.model,
+      operation,
+    });
+
+    // 利用料を記録(保存に失敗しても結果の変換には影響しない)
+    if (this.usageLedger) {
+      try {
+        await this.usageLedger.record({
+          operation,
+          model: response.model,
+          inputTokens: response.usage.inputTokens,
+          outputTokens: response.usage.outputTokens,
+          batch: true,
+        });
+      } catch (error) {
+        console.warn(
+          '[MessageBatchService] Failed to record Claude usage:',
+          error instanceof Error ? error.message : error
+        );
+      }
+    }
+  }
+}
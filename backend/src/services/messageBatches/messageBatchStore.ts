@@ -0,0 +1,170 @@
+/**
+ * Message Batchesで送信したバッチの保存
+ *
+ * 送信したバッチIDと、結果の対応付けに必要なリクエストの情報(custom_id・操作名・
+ * プロンプトのバージョン)を保存し、Cronエンドポイントから処理中のバッチを取得できるようにします。
+ *
+ * Requirements:
+ * - Message Batchesによる非同期の生成処理
+ */
+
+import { getSupabase } from '../../config/supabase';
+import type {
+  ClaudeMessageBatchInsertPayload,
+  ClaudeMessageBatchRow,
+  ClaudeMessageBatchUpdatePayload,
+} from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+
+/**
+ * バッチを保存するテーブル名
+ */
+export const CLAUDE_MESSAGE_BATCHES_TABLE = 'claude_message_batches';
+
+/**
+ * バッチの保存・取得エラー
+ */
+export class MessageBatchStoreError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'MessageBatchStoreError';
+  }
+}
+
+/**
+ * バッチのストア
+ */
+export interface MessageBatchStore {
+  /**
+   * 送信したバッチを保存する
+   *
+   * @param batch - 保存するバッチ
+   * @throws {MessageBatchStoreError} 保存に失敗した場合
+   */
+  insert(batch: ClaudeMessageBatchInsertPayload): Promise<void>;
+
+  /**
+   * バッチを取得する
+   *
+   * @param id - バッチID
+   * @returns バッチ(ない場合はnull)
+   * @throws {MessageBatchStoreError} 取得に失敗した場合
+   */
+  get(id: string): Promise<ClaudeMessageBatchRow | null>;
+
+  /**
+   * 処理中のバッチを送信日時の古い順に取得する
+   *
+   * @returns 処理中のバッチ
+   * @throws {MessageBatchStoreError} 取得に失敗した場合
+   */
+  listInProgress(): Promise<ClaudeMessageBatchRow[]>;
+
+  /**
+   * バッチを更新する
+   *
+   * @param id - バッチID
+   * @param update - 更新する列
+   * @throws {MessageBatchStoreError} 更新に失敗した場合
+   */
+  update(id: string, update: ClaudeMessageBatchUpdatePayload): Promise<void>;
+}
+
+/**
+ * メモリ上のバッチのストア(テスト・ローカル実行用)
+ */
+export class InMemoryMessageBatchStore implements MessageBatchStore {
+  private readonly batches = new Map<string, ClaudeMessageBatchRow>();
+
+  async insert(batch: ClaudeMessageBatchInsertPayload): Promise<void> {
+    this.batches.set(batch.id, {
+      ...batch,
+      results: null,
+      succeeded_count: null,
+      failed_count: null,
+      checked_at: null,
+      completed_at: null,
+    });
+  }
+
+  async get(id: string): Promise<ClaudeMessageBatchRow | null> {
+    return this.batches.get(id) ?? null;
+  }
+
+  async listInProgress(): Promise<ClaudeMessageBatchRow[]> {
+    return [...this.batches.values()]
+      .filter((batch) => batch.status === 'in_progress')
+      .sort((a, b) => a.submitted_at.localeCompare(b.submitted_at));
+  }
+
+  async update(id: string, update: ClaudeMessageBatchUpdatePayload): Promise<void> {
+    const batch = this.batches.get(id);
+    if (batch) {
+      this.batches.set(id, { ...batch, ...update });
+    }
+  }
+}
+
+/**
+ * Supabaseのバッチのストア
+ */
+export class SupabaseMessageBatchStore implements MessageBatchStore {
+  async insert(batch: ClaudeMessageBatchInsertPayload): Promise<void> {
+    const { error } = await getSupabase().from(CLAUDE_MESSAGE_BATCHES_TABLE).insert(batch);
+
+    if (error) {
+      throw new MessageBatchStoreError(
+        `Failed to save message batch: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+  }
+
+  async get(id: string): Promise<ClaudeMessageBatchRow | null> {
+    const { data, error } = await getSupabase()
+      .from(CLAUDE_MESSAGE_BATCHES_TABLE)
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new MessageBatchStoreError(
+        `Failed to get message batch: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    return (data as ClaudeMessageBatchRow | null) ?? null;
+  }
+
+  async listInProgress(): Promise<ClaudeMessageBatchRow[]> {
+    const { data, error } = await getSupabase()
+      .from(CLAUDE_MESSAGE_BATCHES_TABLE)
+      .select('*')
+      .eq('status', 'in_progress')
+      .order('submitted_at', { ascending: true });
+
+    if (error) {
+      throw new MessageBatchStoreError(
+        `Failed to list message batches: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    return (data ?? []) as ClaudeMessageBatchRow[];
+  }
+
+  async update(id: string, update: ClaudeMessageBatchUpdatePayload): Promise<void> {
+    const { error } = await getSupabase()
+      .from(CLAUDE_MESSAGE_BATCHES_TABLE)
+      .update(update)
+      .eq('id', id);
+
+    if (error) {
+      throw new MessageBatchStoreError(
+        `Failed to update message batch: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * 管理API認証のテスト
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ * - 9.1 (環境変数による認証)
+ */
+
+import { VercelRequest } from '@vercel/node';
+import { parseAdminApiKeys, validateAdminRequest } from '../adminAuth';
+
+describe('adminAuth', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, ADMIN_API_KEYS: 'alice:alice-key, bob:bob-key' };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * モックリクエストを作成するヘルパー関数
+   */
+  function createMockRequest(authHeader?: string): VercelRequest {
+    return {
+      headers: authHeader ? { authorization: authHeader } : {},
+    } as VercelRequest;
+  }
+
+  describe('parseAdminApiKeys', () => {
+    it('管理者名とキーの組を解析すること', () => {
+      expect(parseAdminApiKeys('alice:key1, bob:key2')).toEqual([
+        { actor: 'alice', key: 'key1' },
+        { actor: 'bob', key: 'key2' },
+      ]);
+    });
+
+    it('キーに含まれるコロンを保持すること', () => {
+      expect(parseAdminApiKeys('alice:a:b')).toEqual([{ actor: 'alice', key: 'a:b' }]);
+    });
+
+    it('管理者名またはキーが空のエントリを無視すること', () => {
+      expect(parseAdminApiKeys('nokey, :key, alice:, bob:key2')).toEqual([
+        { actor: 'bob', key: 'key2' },
+      ]);
+    });
+
+    it('未設定の場合は空配列を返すこと', () => {
+      expect(parseAdminApiKeys(undefined)).toEqual([]);
+      expect(parseAdminApiKeys('')).toEqual([]);
+    });
+  });
+
+  describe('validateAdminRequest', () => {
+    it('一致したキーの管理者名を返すこと', () => {
+      expect(validateAdminRequest(createMockRequest('Bearer bob-key'))).toEqual({
+        isValid: true,
+        actor: 'bob',
+      });
+    });
+
+    it('ADMIN_API_KEYSが未設定の場合はMISSING_CONFIGを返すこと', () => {
+      delete process.env.ADMIN_API_KEYS;
+
+      const result = validateAdminRequest(createMockRequest('Bearer alice-key'));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('MISSING_CONFIG');
+    });
+
+    it('Authorizationヘッダーがない場合はMISSING_HEADERを返すこと', () => {
+      const result = validateAdminRequest(createMockRequest());
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('MISSING_HEADER');
+    });
+
+    it('Bearer形式でない場合はINVALID_FORMATを返すこと', () => {
+      const result = validateAdminRequest(createMockRequest('alice-key'));
+
+      expect(result.isValid).toBe(false);
+      expect(result.errorCode).toBe('INVALID_FORMAT');
+    });
+
+    it('一致するキーがない場合はINVALID_KEYを返すこと', () => {
+      const result = validateAdminRequest(createMockRequest('Bearer wrong-key'));
+
+      expect(result.isValid).toBe(false);
+      expect(result.actor).toBeUndefined();
+      expect(result.errorCode).toBe('INVALID_KEY');
+    });
+  });
+});
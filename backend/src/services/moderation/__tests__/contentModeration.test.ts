@@ -0,0 +1,309 @@
+/**
+ * 生成したコンテンツの管理のテスト
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ */
+
+import {
+  listContentAuditLog,
+  listNewsForModeration,
+  listTermsForModeration,
+  moderateNews,
+  moderateTerm,
+  parseNewsModerationBody,
+  parseTermModerationBody,
+  ContentModerationError,
+  ContentModerationValidationError,
+  ContentNotFoundError,
+  MAX_MODERATION_LIST_LIMIT,
+} from '../contentModeration';
+
+type QueryResult = { data: unknown; error: { message: string } | null };
+
+/**
+ * モックのクエリビルダーの型
+ *
+ * チェーンのどこでawaitしても、テーブルごとに用意した結果を順に返す
+ */
+interface MockQueryBuilder {
+  table: string;
+  select: jest.Mock;
+  eq: jest.Mock;
+  gte: jest.Mock;
+  lte: jest.Mock;
+  order: jest.Mock;
+  limit: jest.Mock;
+  maybeSingle: jest.Mock;
+  single: jest.Mock;
+  update: jest.Mock;
+  insert: jest.Mock;
+  then: (resolve: (value: QueryResult) => unknown, reject: (reason: unknown) => unknown) => unknown;
+}
+
+let tableResults: Record<string, QueryResult[]>;
+let builders: MockQueryBuilder[];
+
+const createQueryBuilder = (table: string): MockQueryBuilder => {
+  const builder: MockQueryBuilder = {
+    table,
+    select: jest.fn(() => builder),
+    eq: jest.fn(() => builder),
+    gte: jest.fn(() => builder),
+    lte: jest.fn(() => builder),
+    order: jest.fn(() => builder),
+    limit: jest.fn(() => builder),
+    maybeSingle: jest.fn(() => builder),
+    single: jest.fn(() => builder),
+    update: jest.fn(() => builder),
+    insert: jest.fn(() => builder),
+    then: (resolve, reject) =>
+      Promise.resolve(tableResults[table]?.shift() ?? { data: null, error: null }).then(
+        resolve,
+        reject
+      ),
+  };
+  builders.push(builder);
+  return builder;
+};
+
+const mockSupabaseClient = {
+  from: jest.fn((table: string) => createQueryBuilder(table)),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+/**
+ * テーブルのクエリビルダーを取得(n番目の呼び出し)
+ */
+const builderFor = (table: string, index = 0): MockQueryBuilder =>
+  builders.filter((b) => b.table === table)[index];
+
+const NEWS_ROW = {
+  date: '2026-01-11',
+  world_news_title: '世界ニュース',
+  world_news_summary: '誤りのある要約',
+  japan_news_title: '日本ニュース',
+  japan_news_summary: '日本の要約',
+  published: true,
+  created_at: '2026-01-10T21:30:00Z',
+  updated_at: '2026-01-10T21:32:00Z',
+};
+
+const TERM_ROW = {
+  id: 42,
+  date: '2026-01-11',
+  name: 'PER',
+  description: '誤りのある説明',
+  difficulty: 'beginner',
+  published: true,
+  created_at: '2026-01-10T21:34:00Z',
+};
+
+describe('contentModeration', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tableResults = {};
+    builders = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('parseNewsModerationBody / parseTermModerationBody', () => {
+    it('編集する値の前後の空白を除去し、理由を取り出すこと', () => {
+      expect(
+        parseNewsModerationBody({ world_news_summary: '  訂正した要約 ', reason: ' 数値の誤り ' })
+      ).toEqual({ changes: { world_news_summary: '訂正した要約' }, reason: '数値の誤り' });
+    });
+
+    it('公開状態の変更を受け付けること', () => {
+      expect(parseTermModerationBody({ published: false })).toEqual({
+        changes: { published: false },
+        reason: undefined,
+      });
+    });
+
+    it.each([
+      ['オブジェクトでない', 'text'],
+      ['変更できない項目', { date: '2026-01-12' }],
+      ['空の値', { name: '  ' }],
+      ['不正な難易度', { difficulty: 'expert' }],
+      ['真偽値でないpublished', { published: 'false' }],
+      ['変更する項目がない', { reason: '理由のみ' }],
+      ['公開状態と内容の同時変更', { published: true, name: 'PBR' }],
+    ])('%sの場合はContentModerationValidationErrorをスローすること', (_, body) => {
+      expect(() => parseTermModerationBody(body)).toThrow(ContentModerationValidationError);
+    });
+  });
+
+  describe('listNewsForModeration / listTermsForModeration', () => {
+    it('非公開のものも含めて配信日の新しい順に取得すること', async () => {
+      tableResults.news = [{ data: [NEWS_ROW], error: null }];
+
+      const news = await listNewsForModeration();
+
+      expect(news).toEqual([NEWS_ROW]);
+      const builder = builderFor('news');
+      expect(builder.eq).not.toHaveBeenCalled();
+      expect(builder.order).toHaveBeenCalledWith('date', { ascending: false });
+      expect(builder.limit).toHaveBeenCalledWith(50);
+    });
+
+    it('日付範囲・公開状態で絞り込み、用語は同じ日の配信順に並べること', async () => {
+      tableResults.terms = [{ data: [TERM_ROW], error: null }];
+
+      await listTermsForModeration({
+        from: '2026-01-01',
+        to: '2026-01-11',
+        published: false,
+        limit: 1000,
+      });
+
+      const builder = builderFor('terms');
+      expect(builder.gte).toHaveBeenCalledWith('date', '2026-01-01');
+      expect(builder.lte).toHaveBeenCalledWith('date', '2026-01-11');
+      expect(builder.eq).toHaveBeenCalledWith('published', false);
+      expect(builder.order).toHaveBeenCalledWith('id', { ascending: true });
+      expect(builder.limit).toHaveBeenCalledWith(MAX_MODERATION_LIST_LIMIT);
+    });
+
+    it('取得に失敗した場合はContentModerationErrorをスローすること', async () => {
+      tableResults.news = [{ data: null, error: { message: 'connection refused' } }];
+
+      await expect(listNewsForModeration()).rejects.toThrow(ContentModerationError);
+    });
+  });
+
+  describe('moderateNews / moderateTerm', () => {
+    it('内容を編集し、変更した列の前後の値を監査ログに記録すること', async () => {
+      const updated = { ...NEWS_ROW, world_news_summary: '訂正した要約' };
+      tableResults.news = [
+        { data: NEWS_ROW, error: null },
+        { data: updated, error: null },
+      ];
+      tableResults.content_audit_log = [{ data: { id: 1 }, error: null }];
+
+      const result = await moderateNews('2026-01-11', {
+        actor: 'alice',
+        changes: { world_news_summary: '訂正した要約', world_news_title: '世界ニュース' },
+        reason: '数値の誤り',
+      });
+
+      expect(result.row).toEqual(updated);
+      expect(result.auditEntry).toEqual({ id: 1 });
+
+      const updateBuilder = builderFor('news', 1);
+      expect(updateBuilder.update).toHaveBeenCalledWith({
+        world_news_summary: '訂正した要約',
+        updated_at: expect.any(String),
+      });
+      expect(updateBuilder.eq).toHaveBeenCalledWith('date', '2026-01-11');
+
+      expect(builderFor('content_audit_log').insert).toHaveBeenCalledWith({
+        table_name: 'news',
+        record_id: '2026-01-11',
+        action: 'edit',
+        actor: 'alice',
+        previous_value: { world_news_summary: '誤りのある要約' },
+        new_value: { world_news_summary: '訂正した要約' },
+        reason: '数値の誤り',
+      });
+    });
+
+    it.each([
+      [false, 'unpublish'],
+      [true, 'republish'],
+    ])('published=%sの場合は%sとして記録すること', async (published, action) => {
+      tableResults.terms = [
+        { data: { ...TERM_ROW, published: !published }, error: null },
+        { data: { ...TERM_ROW, published }, error: null },
+      ];
+      tableResults.content_audit_log = [{ data: { id: 2 }, error: null }];
+
+      await moderateTerm(42, { actor: 'bob', changes: { published } });
+
+      expect(builderFor('terms', 1).update).toHaveBeenCalledWith({ published });
+      expect(builderFor('content_audit_log').insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          table_name: 'terms',
+          record_id: '42',
+          action,
+          actor: 'bob',
+          previous_value: { published: !published },
+          new_value: { published },
+          reason: null,
+        })
+      );
+    });
+
+    it('変更がない場合は更新も監査ログの記録も行わないこと', async () => {
+      tableResults.terms = [{ data: TERM_ROW, error: null }];
+
+      const result = await moderateTerm(42, { actor: 'bob', changes: { published: true } });
+
+      expect(result).toEqual({ row: TERM_ROW, auditEntry: null });
+      expect(builders).toHaveLength(1);
+    });
+
+    it('レコードが存在しない場合はContentNotFoundErrorをスローすること', async () => {
+      tableResults.terms = [{ data: null, error: null }];
+
+      await expect(
+        moderateTerm(999, { actor: 'bob', changes: { published: false } })
+      ).rejects.toThrow(ContentNotFoundError);
+    });
+
+    it('更新に失敗した場合はContentModerationErrorをスローし、監査ログを記録しないこと', async () => {
+      tableResults.terms = [
+        { data: TERM_ROW, error: null },
+        { data: null, error: { message: 'update failed' } },
+      ];
+
+      await expect(
+        moderateTerm(42, { actor: 'bob', changes: { description: '訂正した説明' } })
+      ).rejects.toThrow(ContentModerationError);
+      expect(builderFor('content_audit_log')).toBeUndefined();
+    });
+
+    it('監査ログの記録に失敗した場合は変更を元に戻してエラーをスローすること', async () => {
+      tableResults.news = [
+        { data: NEWS_ROW, error: null },
+        { data: { ...NEWS_ROW, published: false }, error: null },
+        { data: null, error: null },
+      ];
+      tableResults.content_audit_log = [{ data: null, error: { message: 'insert failed' } }];
+
+      await expect(
+        moderateNews('2026-01-11', { actor: 'alice', changes: { published: false } })
+      ).rejects.toThrow('Failed to record audit log for news 2026-01-11: insert failed');
+
+      const revertBuilder = builderFor('news', 2);
+      expect(revertBuilder.update).toHaveBeenCalledWith({
+        published: true,
+        updated_at: NEWS_ROW.updated_at,
+      });
+      expect(revertBuilder.eq).toHaveBeenCalledWith('date', '2026-01-11');
+    });
+  });
+
+  describe('listContentAuditLog', () => {
+    it('テーブル・レコードで絞り込んで新しい順に取得すること', async () => {
+      tableResults.content_audit_log = [{ data: [{ id: 3 }], error: null }];
+
+      const entries = await listContentAuditLog({ table: 'terms', recordId: '42', limit: 10 });
+
+      expect(entries).toEqual([{ id: 3 }]);
+      const builder = builderFor('content_audit_log');
+      expect(builder.eq).toHaveBeenCalledWith('table_name', 'terms');
+      expect(builder.eq).toHaveBeenCalledWith('record_id', '42');
+      expect(builder.order).toHaveBeenCalledWith('created_at', { ascending: false });
+      expect(builder.limit).toHaveBeenCalledWith(10);
+    });
+  });
+});
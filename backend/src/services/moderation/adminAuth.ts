@@ -0,0 +1,145 @@
+/**
+ * 管理API認証
+ *
+ * 生成したニュース・用語を編集・非公開にする管理APIのリクエストを認証する。
+ * ADMIN_API_KEYS環境変数に「管理者名:キー」をカンマ区切りで設定し、
+ * 一致したキーの管理者名を監査ログの変更者として使用する。
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ * - 9.1 (環境変数による認証)
+ */
+
+import { VercelRequest } from '@vercel/node';
+import { timingSafeEqual } from 'crypto';
+
+/**
+ * 管理API認証エラーコードの型定義
+ */
+export type AdminAuthErrorCode =
+  | 'MISSING_CONFIG' // ADMIN_API_KEYS環境変数が未設定
+  | 'MISSING_HEADER' // Authorizationヘッダーがない
+  | 'INVALID_FORMAT' // Bearerプレフィックスがない
+  | 'INVALID_KEY'; // 一致するキーがない
+
+/**
+ * 管理API認証結果の型定義
+ *
+ * @property isValid - 認証が成功した場合true
+ * @property actor - 管理者名(認証成功時)
+ * @property error - エラーメッセージ(認証失敗時)
+ * @property errorCode - エラーコード(認証失敗時)
+ */
+export interface AdminAuthResult {
+  isValid: boolean;
+  actor?: string;
+  error?: string;
+  errorCode?: AdminAuthErrorCode;
+}
+
+/**
+ * 管理者ごとのAPIキー
+ */
+export interface AdminApiKey {
+  /** 管理者名(監査ログに記録される) */
+  actor: string;
+  /** APIキー */
+  key: string;
+}
+
+/**
+ * ADMIN_API_KEYS環境変数の値を解析する
+ *
+ * 「管理者名:キー」をカンマ区切りで指定する。管理者名またはキーが空のエントリは無視する。
+ *
+ * @param value - ADMIN_API_KEYS環境変数の値
+ * @returns 管理者ごとのAPIキー
+ *
+ * @example
+ * ```typescript
+ * parseAdminApiKeys('alice:key1, bob:key2');
+ * // => [{ actor: 'alice', key: 'key1' }, { actor: 'bob', key: 'key2' }]
+ * ```
+ */
+export function parseAdminApiKeys(value: string | undefined): AdminApiKey[] {
+  if (!value) {
+    return [];
+  }
+
+  return value
+    .split(',')
+    .map((entry) => {
+      const separator = entry.indexOf(':');
+      if (separator === -1) {
+        return null;
+      }
+      return {
+        actor: entry.slice(0, separator).trim(),
+        key: entry.slice(separator + 1).trim(),
+      };
+    })
+    .filter((entry): entry is AdminApiKey => entry !== null && !!entry.actor && !!entry.key);
+}
+
+/**
+ * 管理APIのリクエストを認証する
+ *
+ * Authorization: Bearer <キー> ヘッダーのキーを、ADMIN_API_KEYSに設定したキーと比較する。
+ *
+ * @param req - VercelRequest
+ * @returns AdminAuthResult - 認証結果(成功時は管理者名を含む)
+ */
+export function validateAdminRequest(req: VercelRequest): AdminAuthResult {
+  const adminKeys = parseAdminApiKeys(process.env.ADMIN_API_KEYS);
+
+  if (adminKeys.length === 0) {
+    console.error('[admin-auth] ADMIN_API_KEYS is not configured');
+    return {
+      isValid: false,
+      error: 'ADMIN_API_KEYS is not configured',
+      errorCode: 'MISSING_CONFIG',
+    };
+  }
+
+  const authHeader = req.headers.authorization;
+
+  if (!authHeader) {
+    console.error('[admin-auth] Missing Authorization header');
+    return {
+      isValid: false,
+      error: 'Missing Authorization header',
+      errorCode: 'MISSING_HEADER',
+    };
+  }
+
+  if (!authHeader.startsWith('Bearer ')) {
+    console.error('[admin-auth] Invalid Authorization header format');
+    return {
+      isValid: false,
+      error: 'Invalid Authorization header format',
+      errorCode: 'INVALID_FORMAT',
+    };
+  }
+
+  const tokenBuffer = Buffer.from(authHeader.substring(7));
+
+  // タイミング攻撃を防ぐため、すべてのキーを固定時間で比較する
+  let actor: string | undefined;
+  for (const { actor: candidate, key } of adminKeys) {
+    const keyBuffer = Buffer.from(key);
+    if (tokenBuffer.length === keyBuffer.length && timingSafeEqual(tokenBuffer, keyBuffer)) {
+      actor = actor ?? candidate;
+    }
+  }
+
+  if (!actor) {
+    console.error('[admin-auth] Invalid admin API key');
+    return {
+      isValid: false,
+      error: 'Invalid admin API key',
+      errorCode: 'INVALID_KEY',
+    };
+  }
+
+  return { isValid: true, actor };
+}
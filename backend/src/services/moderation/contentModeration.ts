@@ -0,0 +1,536 @@
+/**
+ * 生成したコンテンツの管理
+ *
+ * 管理者がClaudeの生成したニュース・用語を一覧・編集・非公開・再公開するための機能。
+ * 変更は1回ごとにcontent_audit_log(追記のみ)へ変更者・変更前後の値とともに記録する。
+ * 非公開にしたレコードはRLSの読み取りポリシーによりアプリから見えなくなる。
+ *
+ * Requirements:
+ * - 生成したコンテンツの管理(編集・非公開・再公開・監査ログ)
+ */
+
+import { getSupabase } from '../../config/supabase';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import {
+  ContentAuditAction,
+  ContentAuditLogInsertPayload,
+  ContentAuditLogRow,
+  ContentAuditTable,
+  NewsRow,
+  TermRow,
+  VALID_DIFFICULTIES,
+  isValidDifficulty,
+} from '../../models/supabase.types';
+
+/**
+ * 監査ログのテーブル名
+ */
+export const CONTENT_AUDIT_LOG_TABLE = 'content_audit_log';
+
+/**
+ * デフォルトの取得件数
+ */
+export const DEFAULT_MODERATION_LIST_LIMIT = 50;
+
+/**
+ * 取得件数の上限
+ */
+export const MAX_MODERATION_LIST_LIMIT = 200;
+
+/**
+ * 編集できるニュースの列
+ */
+export const NEWS_EDITABLE_FIELDS = [
+  'world_news_title',
+  'world_news_summary',
+  'japan_news_title',
+  'japan_news_summary',
+] as const;
+
+/**
+ * 編集できる用語の列
+ */
+export const TERM_EDITABLE_FIELDS = ['name', 'description', 'difficulty'] as const;
+
+/**
+ * ニュースの変更内容(内容の編集、または公開状態の変更)
+ */
+export type NewsContentChanges = Partial<Pick<NewsRow, (typeof NEWS_EDITABLE_FIELDS)[number]>> & {
+  published?: boolean;
+};
+
+/**
+ * 用語の変更内容(内容の編集、または公開状態の変更)
+ */
+export type TermContentChanges = Partial<Pick<TermRow, (typeof TERM_EDITABLE_FIELDS)[number]>> & {
+  published?: boolean;
+};
+
+/**
+ * コンテンツの管理のデータベースエラー
+ */
+export class ContentModerationError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'ContentModerationError';
+  }
+}
+
+/**
+ * 変更内容が不正な場合のエラー
+ */
+export class ContentModerationValidationError extends AppError {
+  constructor(message: string) {
+    super(message, ErrorType.VALIDATION, ErrorSeverity.LOW, false);
+    this.name = 'ContentModerationValidationError';
+  }
+}
+
+/**
+ * 対象のレコードが存在しない場合のエラー
+ */
+export class ContentNotFoundError extends AppError {
+  constructor(
+    public readonly table: ContentAuditTable,
+    public readonly recordId: string
+  ) {
+    super(`${table} ${recordId} was not found`, ErrorType.VALIDATION, ErrorSeverity.LOW, false);
+    this.name = 'ContentNotFoundError';
+  }
+}
+
+/**
+ * 一覧の絞り込み条件
+ */
+export interface ModerationListFilter {
+  /** 配信日の開始(YYYY-MM-DD形式、この日を含む) */
+  from?: string;
+  /** 配信日の終了(YYYY-MM-DD形式、この日を含む) */
+  to?: string;
+  /** 公開状態(未指定の場合は両方) */
+  published?: boolean;
+  /**
+   * 取得件数
+   * @default 50
+   */
+  limit?: number;
+}
+
+/**
+ * 監査ログの絞り込み条件
+ */
+export interface ContentAuditLogFilter {
+  /** 対象のテーブル */
+  table?: ContentAuditTable;
+  /** 対象のレコードのキー(newsは日付、termsはID) */
+  recordId?: string;
+  /**
+   * 取得件数
+   * @default 50
+   */
+  limit?: number;
+}
+
+/**
+ * 変更のリクエスト
+ */
+export interface ModerationRequest<C> {
+  /** 変更者(管理者名) */
+  actor: string;
+  /** 変更内容 */
+  changes: C;
+  /** 変更の理由 */
+  reason?: string;
+}
+
+/**
+ * 変更の結果
+ */
+export interface ModerationResult<R> {
+  /** 変更後のレコード */
+  row: R;
+  /** 記録した監査ログ(変更がなかった場合はnull) */
+  auditEntry: ContentAuditLogRow | null;
+}
+
+/**
+ * リクエストボディから解析した変更内容と理由
+ */
+export interface ParsedModerationBody<C> {
+  /** 変更内容 */
+  changes: C;
+  /** 変更の理由 */
+  reason?: string;
+}
+
+/**
+ * 管理対象のテーブルの定義
+ */
+interface ModeratedTable {
+  /** テーブル名 */
+  table: ContentAuditTable;
+  /** 主キーの列 */
+  keyColumn: 'date' | 'id';
+  /** 編集できる列 */
+  editableFields: readonly string[];
+  /** updated_at列があるか */
+  hasUpdatedAt: boolean;
+}
+
+const NEWS_TABLE: ModeratedTable = {
+  table: 'news',
+  keyColumn: 'date',
+  editableFields: NEWS_EDITABLE_FIELDS,
+  hasUpdatedAt: true,
+};
+
+const TERMS_TABLE: ModeratedTable = {
+  table: 'terms',
+  keyColumn: 'id',
+  editableFields: TERM_EDITABLE_FIELDS,
+  hasUpdatedAt: false,
+};
+
+type ContentRow = Record<string, unknown>;
+
+/**
+ * 取得件数を1〜上限に丸める
+ */
+function clampLimit(limit: number | undefined): number {
+  return Math.min(Math.max(limit ?? DEFAULT_MODERATION_LIST_LIMIT, 1), MAX_MODERATION_LIST_LIMIT);
+}
+
+/**
+ * リクエストボディを変更内容と理由に変換する
+ *
+ * - 編集できる列・published・reason以外の項目は受け付けない
+ * - 編集する値は空でない文字列(前後の空白は除去する)、difficultyは有効な難易度
+ * - 監査ログの操作を1つに定めるため、公開状態の変更と内容の編集は同時に行わない
+ *
+ * @throws {ContentModerationValidationError} ボディが不正な場合
+ */
+function parseModerationBody(
+  definition: ModeratedTable,
+  body: unknown
+): ParsedModerationBody<Record<string, string | boolean>> {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ContentModerationValidationError(
+      'リクエストボディはJSONオブジェクトで指定してください'
+    );
+  }
+
+  const allowedFields = [...definition.editableFields, 'published', 'reason'];
+  const entries = Object.entries(body as Record<string, unknown>);
+  const unknownFields = entries.map(([field]) => field).filter((f) => !allowedFields.includes(f));
+  if (unknownFields.length > 0) {
+    throw new ContentModerationValidationError(
+      `変更できない項目です: ${unknownFields.join(', ')}(変更できる項目: ${allowedFields.join(', ')})`
+    );
+  }
+
+  const changes: Record<string, string | boolean> = {};
+  let reason: string | undefined;
+
+  for (const [field, value] of entries) {
+    if (value === undefined) {
+      continue;
+    }
+
+    if (field === 'reason') {
+      if (typeof value !== 'string') {
+        throw new ContentModerationValidationError('reasonは文字列で指定してください');
+      }
+      reason = value.trim() || undefined;
+    } else if (field === 'published') {
+      if (typeof value !== 'boolean') {
+        throw new ContentModerationValidationError('publishedはtrueまたはfalseで指定してください');
+      }
+      changes.published = value;
+    } else {
+      if (typeof value !== 'string' || value.trim() === '') {
+        throw new ContentModerationValidationError(`${field}は空でない文字列で指定してください`);
+      }
+      if (field === 'difficulty' && !isValidDifficulty(value.trim())) {
+        throw new ContentModerationValidationError(
+          `difficultyには${VALID_DIFFICULTIES.join(' / ')}を指定してください`
+        );
+      }
+      changes[field] = value.trim();
+    }
+  }
+
+  const fields = Object.keys(changes);
+  if (fields.length === 0) {
+    throw new ContentModerationValidationError('変更する項目を指定してください');
+  }
+  if (fields.includes('published') && fields.length > 1) {
+    throw new ContentModerationValidationError('公開状態の変更と内容の編集は別々に行ってください');
+  }
+
+  return { changes, reason };
+}
+
+/**
+ * 変更した列から監査ログの操作を決定する
+ */
+function resolveAction(newValue: ContentRow): ContentAuditAction {
+  if ('published' in newValue) {
+    return newValue.published ? 'republish' : 'unpublish';
+  }
+  return 'edit';
+}
+
+/**
+ * 管理対象のテーブルのレコードを配信日の新しい順に取得する
+ */
+async function listContent(
+  definition: ModeratedTable,
+  filter: ModerationListFilter
+): Promise<ContentRow[]> {
+  let query = getSupabase().from(definition.table).select('*');
+
+  if (filter.from) {
+    query = query.gte('date', filter.from);
+  }
+  if (filter.to) {
+    query = query.lte('date', filter.to);
+  }
+  if (filter.published !== undefined) {
+    query = query.eq('published', filter.published);
+  }
+
+  query = query.order('date', { ascending: false });
+  if (definition.keyColumn === 'id') {
+    // 同じ配信日の用語は配信順
+    query = query.order('id', { ascending: true });
+  }
+
+  const { data, error } = await query.limit(clampLimit(filter.limit));
+
+  if (error) {
+    throw new ContentModerationError(
+      `Failed to fetch ${definition.table}: ${error.message}`,
+      new Error(error.message)
+    );
+  }
+
+  return (data ?? []) as ContentRow[];
+}
+
+/**
+ * レコードを変更し、監査ログを記録する
+ *
+ * 変更のない列は無視し、変更する列がない場合は何もしない。
+ * 監査ログの記録に失敗した場合は、記録のない変更を残さないようにレコードを元に戻す。
+ */
+async function moderateContent(
+  definition: ModeratedTable,
+  key: string | number,
+  request: ModerationRequest<Record<string, unknown>>
+): Promise<ModerationResult<ContentRow>> {
+  const supabase = getSupabase();
+  const recordId = String(key);
+
+  const { data: current, error: fetchError } = await supabase
+    .from(definition.table)
+    .select('*')
+    .eq(definition.keyColumn, key)
+    .maybeSingle();
+
+  if (fetchError) {
+    throw new ContentModerationError(
+      `Failed to fetch ${definition.table} ${recordId}: ${fetchError.message}`,
+      new Error(fetchError.message)
+    );
+  }
+  if (!current) {
+    throw new ContentNotFoundError(definition.table, recordId);
+  }
+
+  const currentRow = current as ContentRow;
+  const previousValue: ContentRow = {};
+  const newValue: ContentRow = {};
+  for (const [field, value] of Object.entries(request.changes)) {
+    if (value !== undefined && currentRow[field] !== value) {
+      previousValue[field] = currentRow[field] ?? null;
+      newValue[field] = value;
+    }
+  }
+
+  if (Object.keys(newValue).length === 0) {
+    return { row: currentRow, auditEntry: null };
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from(definition.table)
+    .update(
+      definition.hasUpdatedAt ? { ...newValue, updated_at: new Date().toISOString() } : newValue
+    )
+    .eq(definition.keyColumn, key)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new ContentModerationError(
+      `Failed to update ${definition.table} ${recordId}: ${updateError.message}`,
+      new Error(updateError.message)
+    );
+  }
+
+  const action = resolveAction(newValue);
+  const entry: ContentAuditLogInsertPayload = {
+    table_name: definition.table,
+    record_id: recordId,
+    action,
+    actor: request.actor,
+    previous_value: previousValue,
+    new_value: newValue,
+    reason: request.reason ?? null,
+  };
+
+  const { data: auditEntry, error: auditError } = await supabase
+    .from(CONTENT_AUDIT_LOG_TABLE)
+    .insert(entry)
+    .select()
+    .single();
+
+  if (auditError) {
+    const { error: revertError } = await supabase
+      .from(definition.table)
+      .update(
+        definition.hasUpdatedAt
+          ? { ...previousValue, updated_at: currentRow.updated_at }
+          : previousValue
+      )
+      .eq(definition.keyColumn, key);
+
+    if (revertError) {
+      console.error(
+        `[ContentModeration] Failed to revert ${definition.table} ${recordId} after audit log failure:`,
+        revertError.message
+      );
+    }
+
+    throw new ContentModerationError(
+      `Failed to record audit log for ${definition.table} ${recordId}: ${auditError.message}`,
+      new Error(auditError.message)
+    );
+  }
+
+  console.log(
+    `[ContentModeration] ${request.actor} ${action} ${definition.table} ${recordId} (${Object.keys(newValue).join(', ')})`
+  );
+
+  return { row: updated as ContentRow, auditEntry: auditEntry as ContentAuditLogRow };
+}
+
+/**
+ * ニュースの変更のリクエストボディを解析する
+ *
+ * @param body - リクエストボディ
+ * @returns 変更内容と理由
+ * @throws {ContentModerationValidationError} ボディが不正な場合
+ */
+export function parseNewsModerationBody(body: unknown): ParsedModerationBody<NewsContentChanges> {
+  return parseModerationBody(NEWS_TABLE, body) as ParsedModerationBody<NewsContentChanges>;
+}
+
+/**
+ * 用語の変更のリクエストボディを解析する
+ *
+ * @param body - リクエストボディ
+ * @returns 変更内容と理由
+ * @throws {ContentModerationValidationError} ボディが不正な場合
+ */
+export function parseTermModerationBody(body: unknown): ParsedModerationBody<TermContentChanges> {
+  return parseModerationBody(TERMS_TABLE, body) as ParsedModerationBody<TermContentChanges>;
+}
+
+/**
+ * ニュースを非公開のものも含めて配信日の新しい順に取得する
+ *
+ * @param filter - 絞り込み条件
+ * @returns ニュース
+ * @throws {ContentModerationError} Supabaseからの取得に失敗した場合
+ */
+export async function listNewsForModeration(filter: ModerationListFilter = {}): Promise<NewsRow[]> {
+  return (await listContent(NEWS_TABLE, filter)) as unknown as NewsRow[];
+}
+
+/**
+ * 用語を非公開のものも含めて配信日の新しい順に取得する
+ *
+ * @param filter - 絞り込み条件
+ * @returns 用語
+ * @throws {ContentModerationError} Supabaseからの取得に失敗した場合
+ */
+export async function listTermsForModeration(
+  filter: ModerationListFilter = {}
+): Promise<TermRow[]> {
+  return (await listContent(TERMS_TABLE, filter)) as unknown as TermRow[];
+}
+
+/**
+ * ニュースを編集・非公開・再公開する
+ *
+ * @param date - ニュースの日付(YYYY-MM-DD形式)
+ * @param request - 変更者・変更内容・理由
+ * @returns 変更後のニュースと記録した監査ログ
+ * @throws {ContentNotFoundError} ニュースが存在しない場合
+ * @throws {ContentModerationError} Supabaseへの保存に失敗した場合
+ */
+export async function moderateNews(
+  date: string,
+  request: ModerationRequest<NewsContentChanges>
+): Promise<ModerationResult<NewsRow>> {
+  return (await moderateContent(NEWS_TABLE, date, request)) as unknown as ModerationResult<NewsRow>;
+}
+
+/**
+ * 用語を編集・非公開・再公開する
+ *
+ * @param id - 用語のID
+ * @param request - 変更者・変更内容・理由
+ * @returns 変更後の用語と記録した監査ログ
+ * @throws {ContentNotFoundError} 用語が存在しない場合
+ * @throws {ContentModerationError} Supabaseへの保存に失敗した場合
+ */
+export async function moderateTerm(
+  id: number,
+  request: ModerationRequest<TermContentChanges>
+): Promise<ModerationResult<TermRow>> {
+  return (await moderateContent(TERMS_TABLE, id, request)) as unknown as ModerationResult<TermRow>;
+}
+
+/**
+ * 監査ログを新しい順に取得する
+ *
+ * @param filter - 絞り込み条件
+ * @returns 監査ログ
+ * @throws {ContentModerationError} Supabaseからの取得に失敗した場合
+ */
+export async function listContentAuditLog(
+  filter: ContentAuditLogFilter = {}
+): Promise<ContentAuditLogRow[]> {
+  let query = getSupabase().from(CONTENT_AUDIT_LOG_TABLE).select('*');
+
+  if (filter.table) {
+    query = query.eq('table_name', filter.table);
+  }
+  if (filter.recordId) {
+    query = query.eq('record_id', filter.recordId);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .limit(clampLimit(filter.limit));
+
+  if (error) {
+    throw new ContentModerationError(
+      `Failed to fetch audit log: ${error.message}`,
+      new Error(error.message)
+    );
+  }
+
+  return (data ?? []) as ContentAuditLogRow[];
+}
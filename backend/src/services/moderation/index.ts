@@ -0,0 +1,38 @@
+/**
+ * コンテンツ管理モジュール
+ *
+ * 管理APIの認証と、生成したニュース・用語の一覧・編集・非公開・再公開・監査ログに関する機能を提供します。
+ */
+
+export {
+  validateAdminRequest,
+  parseAdminApiKeys,
+  type AdminApiKey,
+  type AdminAuthErrorCode,
+  type AdminAuthResult,
+} from './adminAuth';
+
+export {
+  listNewsForModeration,
+  listTermsForModeration,
+  moderateNews,
+  moderateTerm,
+  listContentAuditLog,
+  parseNewsModerationBody,
+  parseTermModerationBody,
+  ContentModerationError,
+  ContentModerationValidationError,
+  ContentNotFoundError,
+  CONTENT_AUDIT_LOG_TABLE,
+  DEFAULT_MODERATION_LIST_LIMIT,
+  MAX_MODERATION_LIST_LIMIT,
+  NEWS_EDITABLE_FIELDS,
+  TERM_EDITABLE_FIELDS,
+  type ContentAuditLogFilter,
+  type ModerationListFilter,
+  type ModerationRequest,
+  type ModerationResult,
+  type NewsContentChanges,
+  type ParsedModerationBody,
+  type TermContentChanges,
+} from './contentModeration';
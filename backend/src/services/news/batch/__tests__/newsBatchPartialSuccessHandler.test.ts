@@ -103,6 +103,25 @@ describe('PartialSuccessHandler', () => {
     ],
   });
 
+  // 要約に成功したが保存に失敗
+  const createSaveFailureResult = (): NewsBatchResult => ({
+    success: false,
+    partialSuccess: false,
+    databaseSaved: false,
+    metadataUpdated: false,
+    processingTimeMs: 1000,
+    date: '2026-01-02',
+    worldNews: createWorldNews(),
+    japanNews: createJapanNews(),
+    errors: [
+      {
+        type: 'database-save',
+        message: 'Supabase news save failed: connection refused',
+        timestamp: new Date(),
+      },
+    ],
+  });
+
   let handler: PartialSuccessHandler;
 
   beforeEach(() => {
@@ -143,6 +162,23 @@ describe('PartialSuccessHandler', () => {
       expect(result.isPartialSuccess).toBe(true);
       expect(result.type).toBe(PartialSuccessType.JAPAN_NEWS_ONLY);
     });
+
+    it('要約後のデータベース保存の失敗を検出する', () => {
+      const result = handler.analyze(createSaveFailureResult());
+
+      expect(result.isPartialSuccess).toBe(false);
+      expect(result.type).toBe(PartialSuccessType.SAVE_FAILURE);
+      expect(result.failureReasons[0]).toContain('Supabase news save failed');
+    });
+
+    it('データベースに保存しない設定の場合は保存失敗としない', () => {
+      const result = handler.analyze({
+        ...createFullSuccessResult(),
+        databaseSaved: false,
+      });
+
+      expect(result.type).toBe(PartialSuccessType.FULL_SUCCESS);
+    });
   });
 
   describe('部分成功の詳細情報', () => {
@@ -221,6 +257,37 @@ describe('PartialSuccessHandler', () => {
       expect(notification.severity).toBe('info');
     });
 
+    it('保存失敗時はエラーの通知情報を生成する', () => {
+      const analysisResult = handler.analyze(createSaveFailureResult());
+      const notification = handler.createNotification(
+        analysisResult,
+        '2026-01-02'
+      );
+
+      expect(notification.title).toContain('失敗');
+      expect(notification.severity).toBe('error');
+    });
+
+    it('完全成功でもエラーがある場合は警告の通知情報を生成する', () => {
+      const analysisResult = handler.analyze({
+        ...createFullSuccessResult(),
+        errors: [
+          {
+            type: 'categories-save',
+            message: 'カテゴリ別要約の保存でエラー',
+            timestamp: new Date(),
+          },
+        ],
+      });
+      const notification = handler.createNotification(
+        analysisResult,
+        '2026-01-02'
+      );
+
+      expect(notification.severity).toBe('warning');
+      expect(notification.details.failureReasons).toContain('カテゴリ別要約の保存でエラー');
+    });
+
     it('通知にエラー詳細を含む', () => {
       const analysisResult = handler.analyze(createWorldNewsOnlyResult());
       const notification = handler.createNotification(
@@ -260,6 +327,7 @@ describe('PartialSuccessHandler', () => {
       expect(PartialSuccessType.FULL_SUCCESS).toBeDefined();
       expect(PartialSuccessType.WORLD_NEWS_ONLY).toBeDefined();
       expect(PartialSuccessType.JAPAN_NEWS_ONLY).toBeDefined();
+      expect(PartialSuccessType.SAVE_FAILURE).toBeDefined();
       expect(PartialSuccessType.FULL_FAILURE).toBeDefined();
     });
   });
@@ -277,6 +345,12 @@ describe('PartialSuccessHandler', () => {
       expect(result.shouldRetry).toBe(true);
     });
 
+    it('保存失敗ではリトライを推奨する', () => {
+      const result = handler.analyze(createSaveFailureResult());
+
+      expect(result.shouldRetry).toBe(true);
+    });
+
     it('完全成功ではリトライ不要', () => {
       const result = handler.analyze(createFullSuccessResult());
 
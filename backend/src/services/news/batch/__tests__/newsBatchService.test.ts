@@ -16,6 +16,9 @@
  * - 1.8 (5分以内に完了)
  */
 
+import { BatchRunRecorder } from '../../../batchRuns';
+import { Notifier } from '../../../notifications';
+import { BatchLock, BatchLockConflictError } from '../../../batchLock';
 import {
   NewsBatchService,
   NewsBatchServiceConfig,
@@ -26,6 +29,7 @@ import { JapanNewsFetcher } from '../../fetchers/japanNewsFetcher';
 import { NewsSummaryService, SummaryResult } from '../../summarization';
 import { NewsApiArticle } from '../../fetchers/newsApiTypes';
 import { GoogleNewsRssItem } from '../../fetchers/rssTypes';
+import type { NewsSource, FetchedNewsArticle } from '../../sources';
 
 // モック設定
 jest.mock('../../fetchers/worldNewsFetcher');
@@ -39,9 +43,16 @@ const mockSupabaseUpdate = jest.fn();
 const mockSupabaseEq = jest.fn();
 const mockSupabaseSelect = jest.fn();
 const mockSupabaseSingle = jest.fn();
+const mockSupabaseDelete = jest.fn();
+const mockSupabaseDeleteEq = jest.fn();
+const mockSupabaseDeleteIn = jest.fn();
+const mockSupabaseInsert = jest.fn();
+const mockSupabaseMaybeSingle = jest.fn();
+const mockSupabaseRpc = jest.fn();
 
 const mockSupabaseClient = {
   from: mockSupabaseFrom,
+  rpc: mockSupabaseRpc,
 };
 
 // チェーンメソッドの設定
@@ -49,6 +60,8 @@ mockSupabaseFrom.mockImplementation(() => ({
   upsert: mockSupabaseUpsert,
   update: mockSupabaseUpdate,
   select: mockSupabaseSelect,
+  delete: mockSupabaseDelete,
+  insert: mockSupabaseInsert,
 }));
 
 mockSupabaseUpsert.mockImplementation(() => ({
@@ -65,10 +78,17 @@ mockSupabaseEq.mockImplementation(() => ({
 
 mockSupabaseSelect.mockImplementation(() => ({
   single: mockSupabaseSingle,
+  eq: () => ({ maybeSingle: mockSupabaseMaybeSingle }),
 }));
 
 // デフォルトで成功を返す
 mockSupabaseSingle.mockResolvedValue({ data: { id: 1 }, error: null });
+mockSupabaseRpc.mockResolvedValue({ data: null, error: null });
+
+/**
+ * save_news_for_date関数に渡したニュースのペイロードを取得する
+ */
+const findNewsPayload = () => mockSupabaseRpc.mock.calls[0][1].new_news;
 
 jest.mock('../../../../config/supabase', () => ({
   getSupabase: () => mockSupabaseClient,
@@ -129,6 +149,7 @@ describe('NewsBatchService', () => {
     characterCount: summary.length,
     isValid: summary.length >= 1800 && summary.length <= 2200,
     model: 'claude-haiku-4-5',
+    promptVersion: 'v1',
     inputTokens: 500,
     outputTokens: 200,
   });
@@ -141,7 +162,19 @@ describe('NewsBatchService', () => {
       upsert: mockSupabaseUpsert,
       update: mockSupabaseUpdate,
       select: mockSupabaseSelect,
+      delete: mockSupabaseDelete,
+      insert: mockSupabaseInsert,
     }));
+    mockSupabaseDelete.mockImplementation(() => ({
+      eq: mockSupabaseDeleteEq,
+    }));
+    // 出典記事は地域でも絞り込んで削除するため、eqの戻り値はawaitとinの両方に対応する
+    mockSupabaseDeleteEq.mockImplementation(() =>
+      Object.assign(Promise.resolve({ error: null }), { in: mockSupabaseDeleteIn })
+    );
+    mockSupabaseDeleteIn.mockResolvedValue({ error: null });
+    mockSupabaseInsert.mockResolvedValue({ error: null });
+    mockSupabaseMaybeSingle.mockResolvedValue({ data: null, error: null });
     mockSupabaseUpsert.mockImplementation(() => ({
       select: mockSupabaseSelect,
     }));
@@ -153,8 +186,10 @@ describe('NewsBatchService', () => {
     }));
     mockSupabaseSelect.mockImplementation(() => ({
       single: mockSupabaseSingle,
+      eq: () => ({ maybeSingle: mockSupabaseMaybeSingle }),
     }));
     mockSupabaseSingle.mockResolvedValue({ data: { id: 1 }, error: null });
+    mockSupabaseRpc.mockResolvedValue({ data: null, error: null });
 
     // WorldNewsFetcherのモック
     mockWorldNewsFetcher = {
@@ -194,6 +229,9 @@ describe('NewsBatchService', () => {
       summarizeJapaneseNews: jest
         .fn()
         .mockResolvedValue(createMockSummaryResult(validSummary)),
+      summarizeCategoryNews: jest
+        .fn()
+        .mockResolvedValue(createMockSummaryResult('い'.repeat(400))),
       getConfig: jest.fn().mockReturnValue({ maxRetries: 3, logErrors: true }),
     } as unknown as jest.Mocked<NewsSummaryService>;
 
@@ -210,6 +248,7 @@ describe('NewsBatchService', () => {
       const config = service.getConfig();
 
       expect(config.timeoutMs).toBe(300000); // 5分
+      expect(config.saveReserveMs).toBe(30000);
       expect(config.saveToDatabase).toBe(true);
     });
 
@@ -335,21 +374,17 @@ describe('NewsBatchService', () => {
     it('要約結果をSupabaseに保存する', async () => {
       await service.execute();
 
-      expect(mockSupabaseFrom).toHaveBeenCalledWith('news');
-      expect(mockSupabaseUpsert).toHaveBeenCalled();
+      expect(mockSupabaseRpc).toHaveBeenCalledWith('save_news_for_date', expect.anything());
     });
 
-    it('日付をPKとしてupsertを実行する', async () => {
-      const today = new Date().toISOString().split('T')[0];
-
-      await service.execute();
+    it('日付を指定してsave_news_for_date関数で保存する', async () => {
+      const result = await service.execute();
 
-      expect(mockSupabaseUpsert).toHaveBeenCalledWith(
+      expect(mockSupabaseRpc).toHaveBeenCalledWith(
+        'save_news_for_date',
         expect.objectContaining({
-          date: today,
-        }),
-        expect.objectContaining({
-          onConflict: 'date',
+          target_date: result.date,
+          new_news: expect.objectContaining({ date: result.date }),
         })
       );
     });
@@ -357,7 +392,7 @@ describe('NewsBatchService', () => {
     it('保存するペイロードが正しい構造を持つ', async () => {
       await service.execute();
 
-      const upsertCall = mockSupabaseUpsert.mock.calls[0][0];
+      const upsertCall = findNewsPayload();
       expect(upsertCall).toHaveProperty('date');
       expect(upsertCall).toHaveProperty('world_news_title');
       expect(upsertCall).toHaveProperty('world_news_summary');
@@ -366,8 +401,87 @@ describe('NewsBatchService', () => {
       expect(upsertCall).toHaveProperty('updated_at');
     });
 
+    it('要約に使用したモデルを保存する', async () => {
+      mockSummaryService.summarizeEnglishNews.mockResolvedValue({
+        ...createMockSummaryResult(validSummary),
+        model: 'claude-sonnet-4-5-20250929',
+      });
+
+      await service.execute();
+
+      expect(findNewsPayload()).toEqual(
+        expect.objectContaining({
+          world_news_model: 'claude-sonnet-4-5-20250929',
+          japan_news_model: 'claude-haiku-4-5',
+        })
+      );
+    });
+
+    it('要約に使用したプロンプトのバージョンを保存する', async () => {
+      mockSummaryService.summarizeJapaneseNews.mockResolvedValue({
+        ...createMockSummaryResult(validSummary),
+        promptVersion: 'v2',
+      });
+
+      await service.execute();
+
+      expect(findNewsPayload()).toEqual(
+        expect.objectContaining({
+          world_news_prompt_version: 'v1',
+          japan_news_prompt_version: 'v2',
+        })
+      );
+    });
+
+    it('要約に失敗した地域は既存の要約を維持する', async () => {
+      mockSummaryService.summarizeEnglishNews.mockRejectedValueOnce(new Error('API Error'));
+      mockSupabaseMaybeSingle.mockResolvedValueOnce({
+        data: {
+          world_news_title: '既存の世界ニュース',
+          world_news_summary: '既存の要約',
+          world_news_model: 'claude-haiku-4-5',
+          world_news_prompt_version: 'v1',
+        },
+        error: null,
+      });
+
+      await service.execute({ date: '2026-01-02' });
+
+      expect(findNewsPayload()).toEqual(
+        expect.objectContaining({
+          date: '2026-01-02',
+          world_news_title: '既存の世界ニュース',
+          world_news_summary: '既存の要約',
+          world_news_model: 'claude-haiku-4-5',
+          world_news_prompt_version: 'v1',
+          japan_news_title: '日本の投資・金融ニュース',
+          japan_news_summary: validSummary,
+        })
+      );
+    });
+
+    it('要約に失敗した地域の既存レコードがない場合は空文字で保存する', async () => {
+      mockSummaryService.summarizeEnglishNews.mockRejectedValueOnce(new Error('API Error'));
+
+      await service.execute({ date: '2026-01-02' });
+
+      expect(findNewsPayload()).toEqual(
+        expect.objectContaining({
+          world_news_title: '',
+          world_news_summary: '',
+          world_news_model: null,
+        })
+      );
+    });
+
+    it('両地域の要約に成功した場合は既存レコードを取得しない', async () => {
+      await service.execute();
+
+      expect(mockSupabaseMaybeSingle).not.toHaveBeenCalled();
+    });
+
     it('保存失敗時にエラーログを記録する', async () => {
-      mockSupabaseSingle.mockResolvedValueOnce({
+      mockSupabaseRpc.mockResolvedValueOnce({
         data: null,
         error: { message: 'Supabase Error', code: '23505' },
       });
@@ -382,6 +496,32 @@ describe('NewsBatchService', () => {
       );
     });
 
+    it('管理者が編集・非公開にした日付は上書きせず、出典記事・カテゴリ別要約も保存しない', async () => {
+      mockSupabaseRpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          message: 'news for 2026-01-02 has been moderated and cannot be overwritten',
+          code: '55000',
+        },
+      });
+
+      const result = await service.execute({ date: '2026-01-02' });
+
+      expect(result.databaseSaved).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'database-save',
+          message:
+            'Supabase news save failed: news for 2026-01-02 has been moderated and cannot be overwritten',
+        })
+      );
+      expect(mockSupabaseFrom).not.toHaveBeenCalledWith('news_source_articles');
+      expect(mockSupabaseRpc).not.toHaveBeenCalledWith(
+        'replace_news_category_summaries',
+        expect.anything()
+      );
+    });
+
     it('saveToDatabase=falseの場合は保存しない', async () => {
       const noSaveService = new NewsBatchService(
         mockWorldNewsFetcher,
@@ -392,7 +532,107 @@ describe('NewsBatchService', () => {
 
       await noSaveService.execute();
 
-      expect(mockSupabaseFrom).not.toHaveBeenCalledWith('news');
+      expect(mockSupabaseRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('出典記事の保存', () => {
+    it('要約に使用した記事を出典として地域別・表示順付きで保存する', async () => {
+      const result = await service.execute();
+
+      expect(mockSupabaseFrom).toHaveBeenCalledWith('news_source_articles');
+      const insertPayloads = mockSupabaseInsert.mock.calls[0][0];
+      expect(insertPayloads).toHaveLength(4);
+      expect(insertPayloads[0]).toEqual({
+        news_date: result.date,
+        region: 'world',
+        title: 'Stock Market Hits Record High',
+        outlet: 'Reuters',
+        url: 'https://example.com/article1',
+        published_at: '2026-01-02T10:00:00.000Z',
+        position: 0,
+      });
+      expect(insertPayloads[3]).toEqual(
+        expect.objectContaining({
+          region: 'japan',
+          outlet: '朝日新聞',
+          url: 'https://example.com/japan-news2',
+          position: 1,
+        })
+      );
+    });
+
+    it('再実行時に古い出典が残らないよう、対象日付の出典を削除してから保存する', async () => {
+      const result = await service.execute();
+
+      expect(mockSupabaseDeleteEq).toHaveBeenCalledWith('news_date', result.date);
+      expect(mockSupabaseDeleteIn).toHaveBeenCalledWith('region', ['world', 'japan']);
+      expect(mockSupabaseDelete.mock.invocationCallOrder[0]).toBeLessThan(
+        mockSupabaseInsert.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('要約に失敗した地域の出典は削除せずに維持する', async () => {
+      mockSummaryService.summarizeJapaneseNews.mockRejectedValueOnce(new Error('API Error'));
+
+      await service.execute({ date: '2026-01-02' });
+
+      expect(mockSupabaseDeleteIn).toHaveBeenCalledWith('region', ['world']);
+      const insertPayloads = mockSupabaseInsert.mock.calls[0][0];
+      expect(insertPayloads.map((payload: { region: string }) => payload.region)).toEqual([
+        'world',
+        'world',
+      ]);
+    });
+
+    it('要約結果に出典記事を含める', async () => {
+      const result = await service.execute();
+
+      expect(result.worldNews?.sources).toHaveLength(2);
+      expect(result.japanNews?.sources?.[0]).toEqual({
+        title: '日経平均株価が上昇',
+        outlet: '日本経済新聞',
+        url: 'https://example.com/japan-news1',
+        publishedAt: '2026-01-02T10:00:00.000Z',
+      });
+    });
+
+    it('URLのない記事は出典から除外する', async () => {
+      mockWorldNewsFetcher.fetchTopHeadlines.mockResolvedValueOnce({
+        status: 'ok',
+        totalResults: 2,
+        articles: [sampleWorldArticles[0], { ...sampleWorldArticles[1], url: '' }],
+      });
+
+      const result = await service.execute();
+
+      expect(result.worldNews?.sources).toHaveLength(1);
+    });
+
+    it('出典の保存失敗時はエラーを記録するが、ニュースの保存結果は維持する', async () => {
+      mockSupabaseInsert.mockResolvedValueOnce({
+        error: { message: 'insert failed' },
+      });
+
+      const result = await service.execute();
+
+      expect(result.databaseSaved).toBe(true);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'sources-save',
+        })
+      );
+    });
+
+    it('ニュースの保存に失敗した場合は出典を保存しない', async () => {
+      mockSupabaseRpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Supabase Error', code: '23505' },
+      });
+
+      await service.execute();
+
+      expect(mockSupabaseFrom).not.toHaveBeenCalledWith('news_source_articles');
     });
   });
 
@@ -416,20 +656,22 @@ describe('NewsBatchService', () => {
       );
     });
 
+    it('過去の日付を処理した場合はメタデータを更新しない', async () => {
+      const result = await service.execute({ date: '2026-01-02' });
+
+      expect(result.databaseSaved).toBe(true);
+      expect(result.metadataUpdated).toBe(false);
+      expect(mockSupabaseFrom).not.toHaveBeenCalledWith('batch_metadata');
+      expect(result.errors).not.toContainEqual(
+        expect.objectContaining({ type: 'metadata-update' })
+      );
+    });
+
     it('メタデータ更新失敗時はエラーログを記録するが処理は継続する', async () => {
-      // news upsertは成功、metadata updateは失敗
-      let callCount = 0;
-      mockSupabaseSingle.mockImplementation(() => {
-        callCount++;
-        if (callCount === 1) {
-          // news upsert成功
-          return Promise.resolve({ data: { date: '2026-01-02' }, error: null });
-        }
-        // metadata update失敗
-        return Promise.resolve({
-          data: null,
-          error: { message: 'Metadata Error', code: '42P01' },
-        });
+      // newsの保存(rpc)は成功、metadata updateは失敗
+      mockSupabaseSingle.mockResolvedValue({
+        data: null,
+        error: { message: 'Metadata Error', code: '42P01' },
       });
 
       const result = await service.execute();
@@ -443,6 +685,311 @@ describe('NewsBatchService', () => {
     });
   });
 
+  describe('複数ニュースソース', () => {
+    /**
+     * テスト用の追加ニュースソースを作成する
+     */
+    const createSource = (
+      id: string,
+      region: NewsSource['region'],
+      articles: Partial<FetchedNewsArticle>[]
+    ): NewsSource => ({
+      id,
+      name: id,
+      region,
+      fetchArticles: jest.fn().mockResolvedValue(
+        articles.map((article) => ({
+          title: 'title',
+          description: '',
+          content: '',
+          outlet: id,
+          url: 'https://example.com',
+          publishedAt: null,
+          sourceId: id,
+          ...article,
+        }))
+      ),
+    });
+
+    it('組み込みソースと追加ソースをレジストリに登録する', () => {
+      const multiSourceService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { additionalSources: [createSource('kabutan', 'japan', [])] }
+      );
+
+      expect(
+        multiSourceService
+          .getSourceRegistry()
+          .getSources('japan')
+          .map((source) => source.id)
+      ).toEqual(['google-news', 'kabutan']);
+    });
+
+    it('追加ソースの記事を地域ごとにマージして要約に渡す', async () => {
+      const kabutan = createSource('kabutan', 'japan', [
+        { title: '半導体株が急騰', url: 'https://kabutan.jp/news/1' },
+      ]);
+      const multiSourceService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { additionalSources: [kabutan] }
+      );
+
+      const result = await multiSourceService.execute();
+
+      expect(kabutan.fetchArticles).toHaveBeenCalledTimes(1);
+      const japanArticles = mockSummaryService.summarizeJapaneseNews.mock.calls[0][0];
+      expect(japanArticles.map((article) => article.title)).toEqual([
+        '日経平均株価が上昇',
+        '円安が進行',
+        '半導体株が急騰',
+      ]);
+      expect(mockSummaryService.summarizeEnglishNews.mock.calls[0][0]).toHaveLength(2);
+      expect(result.japanNews?.sources).toHaveLength(3);
+    });
+
+    it('複数ソースで重複する記事を除外する', async () => {
+      const nikkei = createSource('nikkei', 'japan', [
+        { title: '日経平均株価が上昇', url: 'https://www.nikkei.com/article/1' },
+        { title: '円安が進行', url: 'https://example.com/japan-news2' },
+      ]);
+      const multiSourceService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { additionalSources: [nikkei] }
+      );
+
+      await multiSourceService.execute();
+
+      expect(mockSummaryService.summarizeJapaneseNews.mock.calls[0][0]).toHaveLength(2);
+    });
+
+    it('同じ話題の記事を1件にまとめ、報道媒体数を付けて要約に渡す', async () => {
+      const nikkei = createSource('nikkei', 'japan', [
+        {
+          title: '日経平均株価が上昇、半導体株がけん引',
+          outlet: '日本経済新聞電子版',
+          url: 'https://www.nikkei.com/article/1',
+        },
+      ]);
+      const multiSourceService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { additionalSources: [nikkei], clustering: { titleThreshold: 0.4 } }
+      );
+
+      const result = await multiSourceService.execute();
+
+      const japanArticles = mockSummaryService.summarizeJapaneseNews.mock.calls[0][0];
+      expect(japanArticles).toHaveLength(2);
+      expect(japanArticles[0]).toEqual(
+        expect.objectContaining({ title: '日経平均株価が上昇', coverageCount: 2 })
+      );
+      // 出典には同じ話題を報じた全媒体の記事を含める
+      expect(result.japanNews?.sources?.map((source) => source.url)).toEqual([
+        'https://example.com/japan-news1',
+        'https://www.nikkei.com/article/1',
+        'https://example.com/japan-news2',
+      ]);
+    });
+
+    it('報道媒体数の多い話題を優先して最大記事数まで残す', async () => {
+      const reuters = createSource('reuters', 'world', [
+        { title: 'Federal Reserve Announces New Policy', url: 'https://reuters.com/fed' },
+      ]);
+      const limitedService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { additionalSources: [reuters], maxArticlesPerRegion: 1 }
+      );
+
+      await limitedService.execute();
+
+      const worldArticles = mockSummaryService.summarizeEnglishNews.mock.calls[0][0];
+      expect(worldArticles).toHaveLength(1);
+      expect(worldArticles[0].title).toBe('Federal Reserve Announces New Policy');
+    });
+
+    it('失敗したソースをエラーに記録し、他のソースで処理を継続する', async () => {
+      const failing: NewsSource = {
+        id: 'reuters',
+        name: 'Reuters',
+        region: 'world',
+        fetchArticles: jest.fn().mockRejectedValue(new Error('Feed unavailable')),
+      };
+      const multiSourceService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { additionalSources: [failing] }
+      );
+
+      const result = await multiSourceService.execute();
+
+      expect(result.worldNews).toBeDefined();
+      expect(result.japanNews).toBeDefined();
+      expect(result.success).toBe(false);
+      expect(result.partialSuccess).toBe(true);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'world-news-fetch',
+          source: 'reuters',
+          message: '[Reuters] Feed unavailable',
+        })
+      );
+    });
+
+    it('地域ごとの最大記事数で記事を制限する', async () => {
+      const limitedService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { maxArticlesPerRegion: 1 }
+      );
+
+      await limitedService.execute();
+
+      expect(mockSummaryService.summarizeEnglishNews.mock.calls[0][0]).toHaveLength(1);
+      expect(mockSummaryService.summarizeJapaneseNews.mock.calls[0][0]).toHaveLength(1);
+    });
+
+    it('同じIDのソースを追加するとエラーになる', () => {
+      expect(
+        () =>
+          new NewsBatchService(mockWorldNewsFetcher, mockJapanNewsFetcher, mockSummaryService, {
+            additionalSources: [createSource('newsapi', 'world', [])],
+          })
+      ).toThrow('News source already registered: newsapi');
+    });
+  });
+
+  describe('カテゴリ別要約', () => {
+    it('世界・日本の記事をカテゴリに分類し、最小記事数以上のカテゴリを要約する', async () => {
+      const result = await service.execute();
+
+      // 市況: Stock Market Hits Record High / 日経平均株価が上昇
+      expect(mockSummaryService.summarizeCategoryNews).toHaveBeenCalledTimes(1);
+      const [label, articles] = mockSummaryService.summarizeCategoryNews.mock.calls[0];
+      expect(label).toBe('市況');
+      expect(articles.map((article) => article.title)).toEqual([
+        'Stock Market Hits Record High',
+        '日経平均株価が上昇',
+      ]);
+      expect(result.categories).toEqual([
+        expect.objectContaining({
+          category: 'markets',
+          title: '市況',
+          summary: 'い'.repeat(400),
+          characterCount: 400,
+          articleCount: 2,
+        }),
+      ]);
+    });
+
+    it('最小記事数を変更できる', async () => {
+      const singleArticleService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { minArticlesPerCategory: 1 }
+      );
+
+      const result = await singleArticleService.execute();
+
+      expect(result.categories?.map((category) => category.category)).toEqual([
+        'markets',
+        'macro',
+        'fx',
+      ]);
+    });
+
+    it('カテゴリ別要約を保存する', async () => {
+      const result = await service.execute();
+
+      expect(mockSupabaseRpc).toHaveBeenCalledWith('replace_news_category_summaries', {
+        target_date: result.date,
+        new_summaries: [
+          expect.objectContaining({
+            news_date: result.date,
+            category: 'markets',
+            title: '市況',
+            summary: 'い'.repeat(400),
+            article_count: 2,
+          }),
+        ],
+      });
+    });
+
+    it('カテゴリ要約の失敗はエラーに記録し、全体の要約は維持する', async () => {
+      mockSummaryService.summarizeCategoryNews.mockRejectedValue(new Error('Claude error'));
+
+      const result = await service.execute();
+
+      expect(result.worldNews).toBeDefined();
+      expect(result.japanNews).toBeDefined();
+      expect(result.categories).toEqual([]);
+      expect(result.databaseSaved).toBe(true);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'category-summary',
+          message: '[markets] Claude error',
+        })
+      );
+    });
+
+    it('要約に失敗したカテゴリは既存のカテゴリ別要約を削除しない', async () => {
+      mockSummaryService.summarizeCategoryNews.mockRejectedValue(new Error('Claude error'));
+
+      await service.execute({ date: '2026-01-02' });
+
+      expect(mockSupabaseRpc).not.toHaveBeenCalledWith(
+        'replace_news_category_summaries',
+        expect.anything()
+      );
+      expect(mockSupabaseFrom).not.toHaveBeenCalledWith('news_category_summaries');
+    });
+
+    it('カテゴリ別要約の保存失敗時はエラーを記録する', async () => {
+      mockSupabaseRpc
+        .mockResolvedValueOnce({ data: null, error: null })
+        .mockResolvedValueOnce({ data: null, error: { message: 'replace failed' } });
+
+      const result = await service.execute();
+
+      expect(result.databaseSaved).toBe(true);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'categories-save',
+          message: 'Supabase category summaries replace failed: replace failed',
+        })
+      );
+    });
+
+    it('無効化した場合はカテゴリ別要約を生成しない', async () => {
+      const disabledService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { enableCategorySummaries: false }
+      );
+
+      const result = await disabledService.execute();
+
+      expect(mockSummaryService.summarizeCategoryNews).not.toHaveBeenCalled();
+      expect(result.categories).toBeUndefined();
+      expect(mockSupabaseRpc).not.toHaveBeenCalledWith(
+        'replace_news_category_summaries',
+        expect.anything()
+      );
+    });
+  });
+
   describe('8.6 ニュースバッチタイムアウト制御', () => {
     it('5分以内にバッチ処理が完了する', async () => {
       const startTime = Date.now();
@@ -453,6 +1000,27 @@ describe('NewsBatchService', () => {
       expect(elapsed).toBeLessThan(300000); // 5分 = 300,000ms
     });
 
+    it('世界・日本・カテゴリ別の要約に保存の時間を残した共通の期限を渡す', async () => {
+      const customService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { timeoutMs: 180000, saveReserveMs: 20000 }
+      );
+      const startTime = Date.now();
+
+      await customService.execute();
+
+      const [, worldOptions] = mockSummaryService.summarizeEnglishNews.mock.calls[0];
+      const [, japanOptions] = mockSummaryService.summarizeJapaneseNews.mock.calls[0];
+      expect(worldOptions?.deadline).toBeGreaterThanOrEqual(startTime + 160000);
+      expect(worldOptions?.deadline).toBeLessThanOrEqual(Date.now() + 160000);
+      expect(japanOptions).toEqual(worldOptions);
+      mockSummaryService.summarizeCategoryNews.mock.calls.forEach(([, , options]) =>
+        expect(options).toEqual(worldOptions)
+      );
+    });
+
     it('タイムアウト時にエラーを返す', async () => {
       // タイムアウトをシミュレート
       const shortTimeoutService = new NewsBatchService(
@@ -500,6 +1068,100 @@ describe('NewsBatchService', () => {
     });
   });
 
+  describe('実行履歴の記録', () => {
+    it('runRecorderを渡した場合、各ステップと実行結果を記録する', async () => {
+      const mockRecorder = {
+        start: jest.fn(),
+        recordStep: jest.fn((_step: string, _errors: unknown[], fn: () => Promise<unknown>) => fn()),
+        finish: jest.fn().mockResolvedValue(null),
+      };
+      const recordedService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { runRecorder: mockRecorder as unknown as BatchRunRecorder }
+      );
+
+      const result = await recordedService.execute();
+
+      expect(mockRecorder.start).toHaveBeenCalledTimes(1);
+      const steps = mockRecorder.recordStep.mock.calls.map(([step]) => step);
+      expect(steps).toEqual(
+        expect.arrayContaining(['news-fetch', 'world-news-summary', 'database-save', 'metadata-update'])
+      );
+      expect(mockRecorder.finish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          date: result.date,
+          success: result.success,
+          partialSuccess: result.partialSuccess,
+          partialSuccessType: expect.any(String),
+        })
+      );
+    });
+  });
+
+  describe('部分成功・失敗の通知', () => {
+    it('notifierを渡した場合、部分成功ハンドラーの通知を送信する', async () => {
+      mockJapanNewsFetcher.fetchJapanNews.mockRejectedValue(new Error('RSS Error'));
+      const mockNotifier = { notify: jest.fn().mockResolvedValue({ status: 'sent' }) };
+      const notifiedService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { notifier: mockNotifier as unknown as Notifier }
+      );
+
+      const result = await notifiedService.execute();
+
+      expect(mockNotifier.notify).toHaveBeenCalledTimes(1);
+      const [notification, context] = mockNotifier.notify.mock.calls[0];
+      expect(result.partialSuccess).toBe(true);
+      expect(notification.severity).toBe('warning');
+      expect(context).toEqual({ job: 'news', date: result.date, runId: undefined });
+    });
+  });
+
+  describe('重複実行の防止', () => {
+    it('lockを渡した場合、ロックを取得してから実行し、完了後に解放する', async () => {
+      const mockLock = {
+        acquire: jest.fn().mockResolvedValue(undefined),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      const lockedService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { lock: mockLock as unknown as BatchLock }
+      );
+
+      const result = await lockedService.execute();
+
+      expect(result.success).toBe(true);
+      expect(mockLock.acquire).toHaveBeenCalledTimes(1);
+      expect(mockLock.release).toHaveBeenCalledTimes(1);
+      expect(mockLock.release.mock.invocationCallOrder[0]).toBeGreaterThan(
+        mockSupabaseRpc.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('実行中のバッチがある場合はニュースを取得せずにBatchLockConflictErrorをスローする', async () => {
+      const mockLock = {
+        acquire: jest.fn().mockRejectedValue(new BatchLockConflictError('news', null)),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      const lockedService = new NewsBatchService(
+        mockWorldNewsFetcher,
+        mockJapanNewsFetcher,
+        mockSummaryService,
+        { lock: mockLock as unknown as BatchLock }
+      );
+
+      await expect(lockedService.execute()).rejects.toThrow(BatchLockConflictError);
+      expect(mockWorldNewsFetcher.fetchTopHeadlines).not.toHaveBeenCalled();
+      expect(mockSummaryService.summarizeEnglishNews).not.toHaveBeenCalled();
+    });
+  });
+
   describe('NewsBatchResult型', () => {
     it('成功時の結果構造を持つ', async () => {
       const result = await service.execute();
@@ -547,5 +1209,47 @@ describe('NewsBatchService', () => {
 
       expect(result.date).toBe(today);
     });
+
+    it('過去の日付を指定した場合はその日付でupsertする', async () => {
+      const result = await service.execute({ date: '2026-01-02' });
+
+      expect(result.date).toBe('2026-01-02');
+      expect(mockSupabaseRpc).toHaveBeenCalledWith(
+        'save_news_for_date',
+        expect.objectContaining({
+          target_date: '2026-01-02',
+          new_news: expect.objectContaining({ date: '2026-01-02' }),
+        })
+      );
+      expect(mockSupabaseDeleteEq).toHaveBeenCalledWith('news_date', '2026-01-02');
+    });
+
+    it('指定した日付より後に公開された記事は要約に使用しない', async () => {
+      mockJapanNewsFetcher.fetchJapanNews.mockResolvedValueOnce({
+        title: 'Google News - Business',
+        link: 'https://news.google.com',
+        description: 'Business news',
+        lastBuildDate: '2026-01-03T00:00:00Z',
+        items: [
+          ...sampleJapanItems,
+          {
+            title: '翌日のニュース',
+            link: 'https://example.com/japan-news3',
+            // JSTでは2026-01-03 00:00
+            publishedAt: '2026-01-02T15:00:00Z',
+            description: '翌日に公開された記事です。',
+            source: '毎日新聞',
+          },
+        ],
+      });
+
+      await service.execute({ date: '2026-01-02' });
+
+      const japanArticles = mockSummaryService.summarizeJapaneseNews.mock.calls[0][0];
+      expect(japanArticles.map((article) => article.title)).toEqual([
+        '日経平均株価が上昇',
+        '円安が進行',
+      ]);
+    });
   });
 });
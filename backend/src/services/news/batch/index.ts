@@ -11,9 +11,12 @@ export {
   NewsBatchService,
   NewsBatchError,
   type NewsBatchServiceConfig,
+  type NewsBatchExecuteOptions,
   type NewsBatchResult,
   type BatchErrorInfo,
   type NewsSummaryData,
+  type NewsSourceArticle,
+  type NewsCategorySummaryData,
 } from './newsBatchService';
 
 // Task 9.1: ニュースバッチリトライロジック
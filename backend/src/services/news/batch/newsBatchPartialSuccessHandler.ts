@@ -3,8 +3,8 @@
  *
  * Task 9.3: ニュース部分成功検出・ハンドリング
  *
- * 世界ニュースまたは日本ニュースの一方のみ成功した場合の
- * 検出と適切なハンドリングを行う
+ * 世界ニュースまたは日本ニュースの一方のみ成功した場合や、
+ * 要約後のデータベース保存に失敗した場合の検出と適切なハンドリングを行う
  *
  * Requirements:
  * - 8.2 (98%以上バッチ成功率)
@@ -17,7 +17,7 @@ import { NewsBatchResult } from './newsBatchService';
 /**
  * 部分成功のタイプを定義するEnum
  *
- * バッチ処理の結果を4つのカテゴリに分類
+ * バッチ処理の結果を5つのカテゴリに分類
  */
 export enum PartialSuccessType {
   /** 完全成功(両方のニュースが取得・要約成功) */
@@ -26,10 +26,17 @@ export enum PartialSuccessType {
   WORLD_NEWS_ONLY = 'world-news-only',
   /** 日本ニュースのみ成功 */
   JAPAN_NEWS_ONLY = 'japan-news-only',
+  /** 保存失敗(ニュースの要約には成功したが、データベースへの保存に失敗) */
+  SAVE_FAILURE = 'save-failure',
   /** 完全失敗(両方のニュースが失敗) */
   FULL_FAILURE = 'full-failure',
 }
 
+/**
+ * データベース保存の失敗を表すエラータイプ
+ */
+const SAVE_ERROR_TYPE = 'database-save';
+
 /**
  * ニュースの種類
  */
@@ -126,10 +133,18 @@ export class PartialSuccessHandler {
     }
 
     // 成功タイプを判定
+    // 要約に成功していても保存に失敗した場合は配信されないため、保存失敗として扱う
+    // (saveToDatabase: falseで保存しなかった場合はエラーがないため、保存失敗としない)
+    const hasSaveError = (batchResult.errors || []).some(
+      (error) => error.type === SAVE_ERROR_TYPE
+    );
     let type: PartialSuccessType;
     let isPartialSuccess: boolean;
 
-    if (hasWorldNews && hasJapanNews) {
+    if ((hasWorldNews || hasJapanNews) && !batchResult.databaseSaved && hasSaveError) {
+      type = PartialSuccessType.SAVE_FAILURE;
+      isPartialSuccess = false;
+    } else if (hasWorldNews && hasJapanNews) {
       type = PartialSuccessType.FULL_SUCCESS;
       isPartialSuccess = false;
     } else if (hasWorldNews && !hasJapanNews) {
@@ -151,8 +166,9 @@ export class PartialSuccessHandler {
     // 保存判断: 少なくとも1つのニュースがあれば保存
     const shouldSave = hasWorldNews || hasJapanNews;
 
-    // リトライ判断: 完全失敗の場合のみリトライ
-    const shouldRetry = type === PartialSuccessType.FULL_FAILURE;
+    // リトライ判断: 完全失敗・保存失敗の場合のみリトライ
+    const shouldRetry =
+      type === PartialSuccessType.FULL_FAILURE || type === PartialSuccessType.SAVE_FAILURE;
 
     return {
       isPartialSuccess,
@@ -184,9 +200,16 @@ export class PartialSuccessHandler {
 
     switch (type) {
       case PartialSuccessType.FULL_SUCCESS:
-        title = `ニュースバッチ処理成功 (${date})`;
-        message = '世界ニュースと日本ニュースの両方が正常に処理されました。';
-        severity = 'info';
+        // 出典記事・カテゴリ別要約の保存などでエラーが発生した場合は警告とする
+        if (failureReasons.length > 0) {
+          title = `ニュースバッチ処理成功（エラーあり） (${date})`;
+          message = '世界ニュースと日本ニュースの両方が保存されましたが、一部の処理でエラーが発生しました。';
+          severity = 'warning';
+        } else {
+          title = `ニュースバッチ処理成功 (${date})`;
+          message = '世界ニュースと日本ニュースの両方が正常に処理されました。';
+          severity = 'info';
+        }
         break;
 
       case PartialSuccessType.WORLD_NEWS_ONLY:
@@ -201,6 +224,12 @@ export class PartialSuccessHandler {
         severity = 'warning';
         break;
 
+      case PartialSuccessType.SAVE_FAILURE:
+        title = `ニュースバッチ処理失敗 (${date})`;
+        message = 'ニュースの要約には成功しましたが、データベースへの保存に失敗しました。';
+        severity = 'error';
+        break;
+
       case PartialSuccessType.FULL_FAILURE:
         title = `ニュースバッチ処理失敗 (${date})`;
         message = '世界ニュースと日本ニュースの両方の処理に失敗しました。';
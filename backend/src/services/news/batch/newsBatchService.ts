@@ -15,21 +15,47 @@
  * - 1.5 (英語記事を日本語に翻訳+要約)
  * - 1.6 (Supabaseに保存)
  * - 1.8 (5分以内に完了)
+ * - 要約に使用した元記事(出典)の保存
+ * - 複数ニュースソースの地域別設定・並列取得
+ * - 複数ソースの記事の重複検出・話題ごとのクラスタリング
+ * - テーマ別(市況・マクロ/中央銀行・企業決算・暗号資産・為替)のニュース要約
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
  *
  * @see https://vercel.com/docs/functions/serverless-functions - Vercel Serverless Functions
  */
 
 import { getSupabase } from '../../../config/supabase';
-import { NewsUpsertPayload } from '../../../models/supabase.types';
 import {
-  WorldNewsFetcher,
-  JapanNewsFetcher,
-  NewsApiArticle,
-  GoogleNewsRssItem,
-} from '../fetchers';
+  NewsRow,
+  NewsUpsertPayload,
+  NewsRegion,
+  NewsSourceArticleInsertPayload,
+  NewsCategory,
+  NewsCategorySummaryInsertPayload,
+} from '../../../models/supabase.types';
+import { WorldNewsFetcher, JapanNewsFetcher } from '../fetchers';
 import { NewsSummaryService, NewsArticle } from '../summarization';
+import {
+  NewsSource,
+  NewsSourceRegistry,
+  NewsApiNewsSource,
+  GoogleNewsRssNewsSource,
+  FetchedNewsArticle,
+  NewsStoryCluster,
+  ArticleClusteringOptions,
+  DEFAULT_ARTICLE_CLUSTERING_OPTIONS,
+  clusterArticles,
+  canonicalizeArticleUrl,
+} from '../sources';
+import { NEWS_CATEGORIES, NEWS_CATEGORY_LABELS, groupByCategory } from '../categorization';
+import { ParallelFetchOptimizer } from '../../../performance';
 import { AppError, ErrorType, ErrorSeverity } from '../../../errors/types';
 import { formatDateToJST } from '../../../utils/dateUtils';
+import { BatchRunRecorder } from '../../batchRuns';
+import { Notifier } from '../../notifications';
+import { BatchLock } from '../../batchLock';
+import { PartialSuccessHandler } from './newsBatchPartialSuccessHandler';
+import { getStructuredOutputMetrics } from '../../llm/structuredOutputMetrics';
 
 /**
  * デフォルトのタイムアウト時間(5分)
@@ -38,6 +64,42 @@ import { formatDateToJST } from '../../../utils/dateUtils';
  */
 const DEFAULT_TIMEOUT_MS = 300000;
 
+/**
+ * デフォルトの保存のために残しておく時間(30秒)
+ *
+ * 要約はタイムアウト時間からこの時間を差し引いた期限までに終える
+ */
+const DEFAULT_SAVE_RESERVE_MS = 30000;
+
+/**
+ * デフォルトのニュースソースごとのタイムアウト時間(30秒)
+ */
+const DEFAULT_SOURCE_TIMEOUT_MS = 30000;
+
+/**
+ * デフォルトの地域ごとの最大記事数
+ *
+ * ソースを増やしても要約プロンプトが肥大化しないよう、マージ後の記事数を制限する
+ */
+const DEFAULT_MAX_ARTICLES_PER_REGION = 20;
+
+/**
+ * デフォルトのカテゴリ要約に必要な最小記事数
+ *
+ * 1件だけの記事を要約しても記事の言い換えにしかならないため、2件以上で要約する
+ */
+const DEFAULT_MIN_ARTICLES_PER_CATEGORY = 2;
+
+/**
+ * 同じ日付のニュースを保存するRPC関数名
+ */
+const SAVE_NEWS_FUNCTION = 'save_news_for_date';
+
+/**
+ * 同じ日付のカテゴリ別要約を置き換えるRPC関数名
+ */
+const REPLACE_CATEGORY_SUMMARIES_FUNCTION = 'replace_news_category_summaries';
+
 /**
  * ニュースバッチエラー
  *
@@ -66,12 +128,30 @@ export interface BatchErrorInfo {
   message: string;
   /** 発生時刻 */
   timestamp: Date;
+  /** 失敗したニュースソースのID(ソース取得エラーの場合) */
+  source?: string;
+}
+
+/**
+ * 要約に使用した元記事(出典)
+ *
+ * 読者が要約の内容を元記事で確認できるよう、要約と合わせて保存する
+ */
+export interface NewsSourceArticle {
+  /** 元記事のタイトル */
+  title: string;
+  /** 配信元メディア名 */
+  outlet: string;
+  /** 元記事のURL */
+  url: string;
+  /** 元記事の公開日時(ISO 8601形式、不明な場合はnull) */
+  publishedAt: string | null;
 }
 
 /**
  * ニュース要約結果(バッチ用)
  *
- * Firestoreに保存するためのデータ構造
+ * Supabaseに保存するためのデータ構造
  */
 export interface NewsSummaryData {
   /** ニュースタイトル(自動生成) */
@@ -82,6 +162,36 @@ export interface NewsSummaryData {
   characterCount: number;
   /** 更新日時 */
   updatedAt: Date;
+  /** 要約に使用した元記事(出典) */
+  sources?: NewsSourceArticle[];
+  /** 要約に使用したモデル名 */
+  model?: string;
+  /** 要約に使用したプロンプトのバージョン */
+  promptVersion?: string;
+}
+
+/**
+ * カテゴリ別要約結果(バッチ用)
+ *
+ * news_category_summariesテーブルに保存するためのデータ構造
+ */
+export interface NewsCategorySummaryData {
+  /** カテゴリ */
+  category: NewsCategory;
+  /** カテゴリ要約のタイトル(カテゴリの表示名) */
+  title: string;
+  /** 要約本文 */
+  summary: string;
+  /** 文字数 */
+  characterCount: number;
+  /** 要約に使用した記事数 */
+  articleCount: number;
+  /** 更新日時 */
+  updatedAt: Date;
+  /** 要約に使用したモデル名 */
+  model?: string;
+  /** 要約に使用したプロンプトのバージョン */
+  promptVersion?: string;
 }
 
 /**
@@ -96,9 +206,11 @@ export interface NewsBatchResult {
   worldNews?: NewsSummaryData;
   /** 日本ニュースの要約データ */
   japanNews?: NewsSummaryData;
+  /** カテゴリ別要約データ(表示順) */
+  categories?: NewsCategorySummaryData[];
   /** データベースへの保存が成功したかどうか */
   databaseSaved: boolean;
-  /** メタデータの更新が成功したかどうか */
+  /** メタデータの更新が成功したかどうか(過去の日付の処理では更新しないためfalse) */
   metadataUpdated: boolean;
   /** 処理時間 (ミリ秒) */
   processingTimeMs: number;
@@ -118,11 +230,92 @@ export interface NewsBatchServiceConfig {
    */
   timeoutMs?: number;
 
+  /**
+   * 保存・メタデータ更新のために残しておく時間 (ミリ秒)
+   *
+   * 世界・日本・カテゴリ別の要約は、開始からtimeoutMs - saveReserveMsの期限を共有し、
+   * 期限を過ぎるとリトライ・再生成を打ち切る(Vercel FunctionsのmaxDuration内に保存まで終える)。
+   * @default 30000
+   */
+  saveReserveMs?: number;
+
   /**
    * データベースへ保存するかどうか
    * @default true
    */
   saveToDatabase?: boolean;
+
+  /**
+   * 組み込みソース(NewsAPI / Google News RSS)に加えて取得するニュースソース
+   * @default []
+   */
+  additionalSources?: NewsSource[];
+
+  /**
+   * ニュースソースごとのタイムアウト時間 (ミリ秒)
+   * @default 30000
+   */
+  sourceTimeoutMs?: number;
+
+  /**
+   * 重複除外後に要約へ渡す地域ごとの最大記事数(話題数)
+   * @default 20
+   */
+  maxArticlesPerRegion?: number;
+
+  /**
+   * 重複記事のクラスタリング設定
+   * @default DEFAULT_ARTICLE_CLUSTERING_OPTIONS
+   */
+  clustering?: Partial<ArticleClusteringOptions>;
+
+  /**
+   * カテゴリ別要約を生成するかどうか
+   * @default true
+   */
+  enableCategorySummaries?: boolean;
+
+  /**
+   * カテゴリ別要約を生成するのに必要な最小記事数(話題数)
+   * @default 2
+   */
+  minArticlesPerCategory?: number;
+
+  /**
+   * 実行履歴レコーダー
+   *
+   * 指定した場合、ステップごとの処理時間・エラーとトークン使用量を
+   * batch_runs / batch_run_stepsテーブルに記録する。
+   */
+  runRecorder?: BatchRunRecorder;
+
+  /**
+   * バッチ通知
+   *
+   * 指定した場合、部分成功ハンドラーが生成した通知を重要度に応じて各チャネルに送信する。
+   */
+  notifier?: Notifier;
+
+  /**
+   * バッチのリースロック
+   *
+   * 指定した場合、実行中は同じ種類のバッチを実行できないようにする。
+   * 実行中のバッチがある場合、execute()はBatchLockConflictErrorをスローする。
+   */
+  lock?: BatchLock;
+}
+
+/**
+ * ニュースバッチの実行オプション
+ */
+export interface NewsBatchExecuteOptions {
+  /**
+   * 処理対象の日付(YYYY-MM-DD形式、JST)
+   *
+   * 過去の日付を指定すると、その日付のニュースを再生成する
+   * @default 今日の日付
+   */
+  date?: string;
 }
 
 /**
@@ -130,12 +323,17 @@ export interface NewsBatchServiceConfig {
  *
  * 世界・日本のニュースを取得し、AI要約を行い、Firestoreに保存するバッチ処理を実行する
  *
+ * WorldNewsFetcher・JapanNewsFetcherは組み込みソースとしてレジストリに登録され、
+ * config.additionalSourcesで指定したソースと合わせて並列に取得される。
+ *
  * @example
  * // 依存関係を注入してサービスを作成
  * const worldFetcher = new WorldNewsFetcher(newsApiClient);
  * const japanFetcher = new JapanNewsFetcher(rssParser);
  * const summaryService = new NewsSummaryService(claudeClient);
- * const batchService = new NewsBatchService(worldFetcher, japanFetcher, summaryService);
+ * const batchService = new NewsBatchService(worldFetcher, japanFetcher, summaryService, {
+ *   additionalSources: createRssFeedSources(rssParser, DEFAULT_RSS_FEED_DEFINITIONS),
+ * });
  *
  * // バッチ処理を実行
  * const result = await batchService.execute();
@@ -144,11 +342,20 @@ export interface NewsBatchServiceConfig {
  * }
  */
 export class NewsBatchService {
-  private readonly worldNewsFetcher: WorldNewsFetcher;
-  private readonly japanNewsFetcher: JapanNewsFetcher;
+  private readonly sourceRegistry: NewsSourceRegistry;
+  private readonly fetchOptimizer: ParallelFetchOptimizer;
   private readonly summaryService: NewsSummaryService;
   private readonly timeoutMs: number;
+  private readonly saveReserveMs: number;
   private readonly saveToDatabase: boolean;
+  private readonly sourceTimeoutMs: number;
+  private readonly maxArticlesPerRegion: number;
+  private readonly clustering: ArticleClusteringOptions;
+  private readonly enableCategorySummaries: boolean;
+  private readonly minArticlesPerCategory: number;
+  private readonly runRecorder?: BatchRunRecorder;
+  private readonly notifier?: Notifier;
+  private readonly lock?: BatchLock;
 
   /**
    * コンストラクタ
@@ -157,6 +364,7 @@ export class NewsBatchService {
    * @param japanNewsFetcher - 日本ニュース取得サービス
    * @param summaryService - ニュース要約サービス
    * @param config - サービス設定
+   * @throws {NewsSourceRegistryError} ソースIDが重複している場合
    */
   constructor(
     worldNewsFetcher: WorldNewsFetcher,
@@ -164,11 +372,25 @@ export class NewsBatchService {
     summaryService: NewsSummaryService,
     config: NewsBatchServiceConfig = {}
   ) {
-    this.worldNewsFetcher = worldNewsFetcher;
-    this.japanNewsFetcher = japanNewsFetcher;
+    this.sourceRegistry = new NewsSourceRegistry([
+      new NewsApiNewsSource(worldNewsFetcher),
+      new GoogleNewsRssNewsSource(japanNewsFetcher),
+      ...(config.additionalSources ?? []),
+    ]);
     this.summaryService = summaryService;
     this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.saveReserveMs = config.saveReserveMs ?? DEFAULT_SAVE_RESERVE_MS;
     this.saveToDatabase = config.saveToDatabase ?? true;
+    this.sourceTimeoutMs = config.sourceTimeoutMs ?? DEFAULT_SOURCE_TIMEOUT_MS;
+    this.maxArticlesPerRegion = config.maxArticlesPerRegion ?? DEFAULT_MAX_ARTICLES_PER_REGION;
+    this.clustering = { ...DEFAULT_ARTICLE_CLUSTERING_OPTIONS, ...config.clustering };
+    this.enableCategorySummaries = config.enableCategorySummaries ?? true;
+    this.minArticlesPerCategory =
+      config.minArticlesPerCategory ?? DEFAULT_MIN_ARTICLES_PER_CATEGORY;
+    this.fetchOptimizer = new ParallelFetchOptimizer({ taskTimeoutMs: this.sourceTimeoutMs });
+    this.runRecorder = config.runRecorder;
+    this.notifier = config.notifier;
+    this.lock = config.lock;
   }
 
   /**
@@ -176,28 +398,73 @@ export class NewsBatchService {
    *
    * @returns 設定オブジェクト
    */
-  getConfig(): Required<NewsBatchServiceConfig> {
+  getConfig(): Required<
+    Omit<NewsBatchServiceConfig, 'additionalSources' | 'runRecorder' | 'notifier' | 'lock'>
+  > {
     return {
       timeoutMs: this.timeoutMs,
+      saveReserveMs: this.saveReserveMs,
       saveToDatabase: this.saveToDatabase,
+      sourceTimeoutMs: this.sourceTimeoutMs,
+      maxArticlesPerRegion: this.maxArticlesPerRegion,
+      clustering: { ...this.clustering },
+      enableCategorySummaries: this.enableCategorySummaries,
+      minArticlesPerCategory: this.minArticlesPerCategory,
     };
   }
 
+  /**
+   * 登録済みのニュースソースを取得
+   *
+   * @returns ニュースソースレジストリ
+   */
+  getSourceRegistry(): NewsSourceRegistry {
+    return this.sourceRegistry;
+  }
+
   /**
    * バッチ処理を実行
    *
    * 以下の処理を順次実行する:
    * 1. 世界・日本ニュースを並列取得
-   * 2. AI要約処理
-   * 3. Firestoreへ保存
+   * 2. AI要約処理(世界・日本・カテゴリ別)
+   * 3. Supabaseへ保存
    * 4. メタデータ更新
    *
+   * 実行履歴レコーダーが指定されている場合は、実行履歴を記録してから結果を返す。
+   *
+   * options.dateで過去の日付を指定した場合は、その日付のニュースとして再生成する
+   * (newsテーブルは日付をPKとしてupsertされ、出典記事・カテゴリ別要約はその日付の分が置き換えられる。
+   * 要約に失敗した地域・カテゴリは既存の要約・出典記事を維持する。管理者が編集・非公開にした日付は上書きせず、
+   * database-saveのエラーとして記録する)。
+   * 取得したニュースのうち、指定した日付より後に公開された記事は使用しない。
+   *
+   * @param options - 実行オプション
    * @returns バッチ処理の結果
+   * @throws {BatchLockConflictError} リースロックが指定され、同じ種類のバッチが実行中の場合
+   * @throws {BatchLockError} リースロックの取得処理に失敗した場合
    */
-  async execute(): Promise<NewsBatchResult> {
+  async execute(options: NewsBatchExecuteOptions = {}): Promise<NewsBatchResult> {
+    const date = options.date ?? this.getTodayString();
+
+    await this.lock?.acquire();
+    try {
+      return await this.executeForDate(date);
+    } finally {
+      await this.lock?.release();
+    }
+  }
+
+  /**
+   * 指定した日付のバッチ処理を実行
+   *
+   * @param date - 処理対象の日付(YYYY-MM-DD)
+   * @returns バッチ処理の結果
+   */
+  private async executeForDate(date: string): Promise<NewsBatchResult> {
     const startTime = Date.now();
-    const today = this.getTodayString();
     const errors: BatchErrorInfo[] = [];
+    this.runRecorder?.start();
 
     // 結果オブジェクトを初期化
     const result: NewsBatchResult = {
@@ -206,17 +473,19 @@ export class NewsBatchService {
       databaseSaved: false,
       metadataUpdated: false,
       processingTimeMs: 0,
-      date: today,
+      date,
       errors: [],
     };
 
     try {
-      // タイムアウト制御付きで実行
-      const processResult = await this.executeWithTimeout(today, errors);
+      // タイムアウト制御付きで実行(要約は保存の時間を残した期限までに終える)
+      const summaryDeadline = startTime + this.timeoutMs - this.saveReserveMs;
+      const processResult = await this.executeWithTimeout(date, summaryDeadline, errors);
 
       // 結果を統合
       result.worldNews = processResult.worldNews;
       result.japanNews = processResult.japanNews;
+      result.categories = processResult.categories;
 
       // 成功判定
       const hasWorldNews = !!result.worldNews;
@@ -226,28 +495,25 @@ export class NewsBatchService {
 
       // データベースへの保存
       if (this.saveToDatabase && (hasWorldNews || hasJapanNews)) {
-        try {
-          await this.saveNews(today, result.worldNews, result.japanNews);
-          result.databaseSaved = true;
-        } catch (error) {
-          errors.push({
-            type: 'database-save',
-            message:
-              error instanceof Error ? error.message : 'データベース保存でエラー',
-            timestamp: new Date(),
-          });
-        }
+        await this.trackStep('database-save', errors, () =>
+          this.saveAll(date, result, errors)
+        );
 
-        // メタデータ更新
-        try {
-          await this.updateMetadata();
-          result.metadataUpdated = true;
-        } catch (error) {
-          errors.push({
-            type: 'metadata-update',
-            message:
-              error instanceof Error ? error.message : 'メタデータ更新でエラー',
-            timestamp: new Date(),
+        // メタデータ更新(アプリの鮮度チェックに使われるため、今日(JST)の日付の処理のみ。
+        // バックフィルで過去の日付を処理しても、今日のバッチが成功したことにはしない)
+        if (date === this.getTodayString()) {
+          await this.trackStep('metadata-update', errors, async () => {
+            try {
+              await this.updateMetadata();
+              result.metadataUpdated = true;
+            } catch (error) {
+              errors.push({
+                type: 'metadata-update',
+                message:
+                  error instanceof Error ? error.message : 'メタデータ更新でエラー',
+                timestamp: new Date(),
+              });
+            }
           });
         }
       }
@@ -276,23 +542,115 @@ export class NewsBatchService {
     console.log(
       `[NewsBatchService] Batch completed in ${result.processingTimeMs}ms. Success: ${result.success}, PartialSuccess: ${result.partialSuccess}`
     );
+    // 構造化出力の解析経路(ツールの入力/テキストのパーサー)の件数
+    getStructuredOutputMetrics().logSummary();
+
+    const partialSuccessHandler = new PartialSuccessHandler();
+    const analysis = partialSuccessHandler.analyze(result);
+
+    // 実行履歴を記録(保存に失敗してもバッチ結果には影響しない)
+    await this.runRecorder?.finish({
+      date,
+      success: result.success,
+      partialSuccess: result.partialSuccess,
+      partialSuccessType: analysis.type,
+      errors,
+    });
+
+    // 部分成功・失敗を通知(送信に失敗してもバッチ結果には影響しない)
+    await this.notifier?.notify(partialSuccessHandler.createNotification(analysis, date), {
+      job: 'news',
+      date,
+      runId: this.runRecorder?.getRunId(),
+    });
 
     return result;
   }
 
+  /**
+   * ニュース・出典記事・カテゴリ別要約をSupabaseに保存
+   *
+   * 出典記事とカテゴリ別要約はnewsレコードを参照するため、ニュースの保存成功時のみ保存する。
+   * (管理者が編集・非公開にした日付の出典記事・カテゴリ別要約は、データベースのトリガーでも書き込みを拒否される)
+   *
+   * @param date - 処理対象の日付(YYYY-MM-DD)
+   * @param result - バッチ処理の結果(保存結果を書き込む)
+   * @param errors - エラー情報を格納する配列
+   */
+  private async saveAll(
+    date: string,
+    result: NewsBatchResult,
+    errors: BatchErrorInfo[]
+  ): Promise<void> {
+    try {
+      await this.saveNews(date, result.worldNews, result.japanNews);
+      result.databaseSaved = true;
+    } catch (error) {
+      errors.push({
+        type: 'database-save',
+        message:
+          error instanceof Error ? error.message : 'データベース保存でエラー',
+        timestamp: new Date(),
+      });
+    }
+
+    // 出典記事の保存(newsレコードを参照するため、保存成功時のみ)
+    if (result.databaseSaved) {
+      try {
+        await this.saveSourceArticles(date, result.worldNews, result.japanNews);
+      } catch (error) {
+        errors.push({
+          type: 'sources-save',
+          message:
+            error instanceof Error ? error.message : '出典記事の保存でエラー',
+          timestamp: new Date(),
+        });
+      }
+    }
+
+    // カテゴリ別要約の保存(newsレコードを参照するため、保存成功時のみ)
+    if (result.databaseSaved && result.categories) {
+      try {
+        await this.saveCategorySummaries(date, result.categories);
+      } catch (error) {
+        errors.push({
+          type: 'categories-save',
+          message:
+            error instanceof Error ? error.message : 'カテゴリ別要約の保存でエラー',
+          timestamp: new Date(),
+        });
+      }
+    }
+  }
+
+  /**
+   * ステップを実行し、実行履歴レコーダーが指定されていれば記録する
+   *
+   * @param step - ステップ名
+   * @param errors - エラー情報を格納する配列
+   * @param fn - ステップの処理
+   * @returns ステップの処理結果
+   */
+  private trackStep<T>(step: string, errors: BatchErrorInfo[], fn: () => Promise<T>): Promise<T> {
+    return this.runRecorder ? this.runRecorder.recordStep(step, errors, fn) : fn();
+  }
+
   /**
    * タイムアウト制御付きでメイン処理を実行
    *
-   * @param today - 今日の日付(YYYY-MM-DD)
+   * @param date - 処理対象の日付(YYYY-MM-DD)
+   * @param summaryDeadline - 要約全体の期限(エポックミリ秒)
    * @param errors - エラー情報を格納する配列
    * @returns 処理結果
    */
   private async executeWithTimeout(
-    today: string,
+    date: string,
+    summaryDeadline: number,
     errors: BatchErrorInfo[]
   ): Promise<{
     worldNews?: NewsSummaryData;
     japanNews?: NewsSummaryData;
+    categories?: NewsCategorySummaryData[];
   }> {
     return new Promise((resolve, reject) => {
       // タイムアウトタイマー
@@ -301,7 +659,7 @@ export class NewsBatchService {
       }, this.timeoutMs);
 
       // メイン処理
-      this.executeMainProcess(today, errors)
+      this.executeMainProcess(date, summaryDeadline, errors)
         .then((result) => {
           clearTimeout(timeoutId);
           resolve(result);
@@ -316,97 +674,147 @@ export class NewsBatchService {
   /**
    * メイン処理を実行
    *
-   * @param today - 今日の日付(YYYY-MM-DD)
+   * @param date - 処理対象の日付(YYYY-MM-DD)
+   * @param summaryDeadline - 要約全体の期限(エポックミリ秒)
    * @param errors - エラー情報を格納する配列
    * @returns 処理結果
    */
   private async executeMainProcess(
-    today: string,
+    date: string,
+    summaryDeadline: number,
     errors: BatchErrorInfo[]
   ): Promise<{
     worldNews?: NewsSummaryData;
     japanNews?: NewsSummaryData;
+    categories?: NewsCategorySummaryData[];
   }> {
     // 1. ニュースを並列取得
-    const [worldArticles, japanItems] = await this.fetchNewsInParallel(errors);
+    const { world: worldArticles, japan: japanArticles } = await this.trackStep(
+      'news-fetch',
+      errors,
+      () => this.fetchNewsInParallel(date, errors)
+    );
 
-    // 2. AI要約処理
+    // 2. 重複記事を話題ごとにまとめる
+    const worldStories = this.deduplicateArticles('world', worldArticles);
+    const japanStories = this.deduplicateArticles('japan', japanArticles);
+
+    // 3. AI要約処理
     let worldNews: NewsSummaryData | undefined;
     let japanNews: NewsSummaryData | undefined;
 
-    if (worldArticles.length > 0) {
-      try {
-        worldNews = await this.summarizeWorldNews(worldArticles);
-      } catch (error) {
-        errors.push({
-          type: 'world-news-summary',
-          message: error instanceof Error ? error.message : '世界ニュース要約でエラー',
-          timestamp: new Date(),
-        });
-      }
+    if (worldStories.length > 0) {
+      await this.trackStep('world-news-summary', errors, async () => {
+        try {
+          worldNews = await this.summarizeWorldNews(worldStories, summaryDeadline);
+        } catch (error) {
+          errors.push({
+            type: 'world-news-summary',
+            message: error instanceof Error ? error.message : '世界ニュース要約でエラー',
+            timestamp: new Date(),
+          });
+        }
+      });
     }
 
-    if (japanItems.length > 0) {
-      try {
-        japanNews = await this.summarizeJapanNews(japanItems);
-      } catch (error) {
-        errors.push({
-          type: 'japan-news-summary',
-          message: error instanceof Error ? error.message : '日本ニュース要約で',
-          timestamp: new Date(),
-        });
-      }
+    if (japanStories.length > 0) {
+      await this.trackStep('japan-news-summary', errors, async () => {
+        try {
+          japanNews = await this.summarizeJapanNews(japanStories, summaryDeadline);
+        } catch (error) {
+          errors.push({
+            type: 'japan-news-summary',
+            message: error instanceof Error ? error.message : '日本ニュース要約で',
+            timestamp: new Date(),
+          });
+        }
+      });
     }
 
-    return { worldNews, japanNews };
+    // 4. カテゴリ別要約処理
+    const categories = this.enableCategorySummaries
+      ? await this.trackStep('category-summary', errors, () =>
+          this.summarizeCategories([...worldStories, ...japanStories], summaryDeadline, errors)
+        )
+      : undefined;
+
+    return { worldNews, japanNews, categories };
   }
 
   /**
-   * 世界・日本ニュースを並列取得
+   * 登録済みの全ニュースソースから並列取得
    *
    * Requirements 1.2: businessカテゴリで世界ニュースを取得
    * Requirements 1.3: Google News RSSから日本ニュースを取得
    *
+   * 各ソースは独立したタイムアウトで取得し、失敗したソースはエラーとして記録して
+   * 残りのソースの記事で処理を継続する。
+   * 処理対象の日付より後に公開された記事(過去の日付を再生成する場合)は除外する。
+   *
+   * @param date - 処理対象の日付(YYYY-MM-DD)
    * @param errors - エラー情報を格納する配列
-   * @returns [世界ニュース記事配列, 日本ニュース記事配列]
+   * @returns 地域ごとの記事配列
    */
   private async fetchNewsInParallel(
+    date: string,
     errors: BatchErrorInfo[]
-  ): Promise<[NewsApiArticle[], GoogleNewsRssItem[]]> {
-    // 並列実行
-    const [worldResult, japanResult] = await Promise.allSettled([
-      this.worldNewsFetcher.fetchTopHeadlines({
-        category: 'business',
-        pageSize: 10,
-      }),
-      this.japanNewsFetcher.fetchJapanNews(),
-    ]);
+  ): Promise<Record<NewsRegion, FetchedNewsArticle[]>> {
+    const sources = this.sourceRegistry.getSources();
+    const fetchResult = await this.fetchOptimizer.executeAll(
+      sources.map((source) => () => source.fetchArticles())
+    );
 
-    // 結果を処理
-    let worldArticles: NewsApiArticle[] = [];
-    let japanItems: GoogleNewsRssItem[] = [];
+    const articlesByRegion: Record<NewsRegion, FetchedNewsArticle[]> = {
+      world: [],
+      japan: [],
+    };
 
-    if (worldResult.status === 'fulfilled') {
-      worldArticles = worldResult.value.articles;
-    } else {
-      errors.push({
-        type: 'world-news-fetch',
-        message: worldResult.reason?.message || '世界ニュース取得でエラー',
-        timestamp: new Date(),
-      });
-    }
+    fetchResult.results.forEach((taskResult, index) => {
+      const source = sources[index];
+
+      if (taskResult.success && taskResult.result) {
+        articlesByRegion[source.region].push(
+          ...taskResult.result.filter((article) => isPublishedBy(article, date))
+        );
+        return;
+      }
 
-    if (japanResult.status === 'fulfilled') {
-      japanItems = japanResult.value.items;
-    } else {
       errors.push({
-        type: 'japan-news-fetch',
-        message: japanResult.reason?.message || '日本ニュース取得でエラー',
+        type: `${source.region}-news-fetch`,
+        message: `[${source.name}] ${
+          taskResult.error?.message || 'ニュース取得でエラー'
+        }`,
         timestamp: new Date(),
+        source: source.id,
       });
-    }
+    });
 
-    return [worldArticles, japanItems];
+    return articlesByRegion;
+  }
+
+  /**
+   * 重複記事を話題ごとにまとめ、要約に渡す話題を選ぶ
+   *
+   * 複数の媒体が報じた話題ほど重要度が高いとみなして優先し、
+   * 同数の場合はソースの登録順を維持する。
+   *
+   * @param region - 地域区分(ログ出力用)
+   * @param articles - 取得した記事(ソースの登録順)
+   * @returns 要約に渡す話題(最大maxArticlesPerRegion件)
+   */
+  private deduplicateArticles(
+    region: NewsRegion,
+    articles: FetchedNewsArticle[]
+  ): NewsStoryCluster[] {
+    const stories = clusterArticles(articles, this.clustering)
+      .sort((a, b) => b.outletCount - a.outletCount)
+      .slice(0, this.maxArticlesPerRegion);
+
+    console.log(
+      `[NewsBatchService] ${region}: ${articles.length} articles clustered into ${stories.length} stories`
+    );
+
+    return stories;
   }
 
   /**
@@ -415,27 +823,27 @@ export class NewsBatchService {
    * Requirements 1.4: 複数記事を2000文字に要約
    * Requirements 1.5: 英語記事を日本語に翻訳+要約
    *
-   * @param articles - NewsAPI記事配列
+   * @param stories - 世界ニュースの話題配列
+   * @param deadline - 要約の期限(エポックミリ秒)
    * @returns 要約データ
    */
-  private async summarizeWorldNews(articles: NewsApiArticle[]): Promise<NewsSummaryData> {
-    // NewsApiArticleをNewsArticleに変換
-    const newsArticles: NewsArticle[] = articles.map((article) => ({
-      title: article.title,
-      description: article.description || '',
-      content: article.content || '',
-      source: article.source.name,
-      publishedAt: article.publishedAt,
-    }));
-
+  private async summarizeWorldNews(
+    stories: NewsStoryCluster[],
+    deadline: number
+  ): Promise<NewsSummaryData> {
     // AI要約を実行
-    const summaryResult = await this.summaryService.summarizeEnglishNews(newsArticles);
+    const summaryResult = await this.summaryService.summarizeEnglishNews(toNewsArticles(stories), {
+      deadline,
+    });
 
     return {
       title: '世界の投資・金融ニュース',
       summary: summaryResult.summary,
       characterCount: summaryResult.characterCount,
       updatedAt: new Date(),
+      sources: toSourceArticles(stories),
+      model: summaryResult.model,
+      promptVersion: summaryResult.promptVersion,
     };
   }
 
@@ -444,36 +852,104 @@ export class NewsBatchService {
    *
    * Requirements 1.4: 複数記事を2000文字に要約
    *
-   * @param items - Google News RSS記事配列
+   * @param stories - 日本ニュースの話題配列
+   * @param deadline - 要約の期限(エポックミリ秒)
    * @returns 要約データ
    */
-  private async summarizeJapanNews(items: GoogleNewsRssItem[]): Promise<NewsSummaryData> {
-    // GoogleNewsRssItemをNewsArticleに変換
-    const newsArticles: NewsArticle[] = items.map((item) => ({
-      title: item.title,
-      description: item.description || '',
-      content: '', // RSSには本文がない
-      source: item.source || 'Google News',
-      publishedAt: item.publishedAt,
-    }));
-
+  private async summarizeJapanNews(
+    stories: NewsStoryCluster[],
+    deadline: number
+  ): Promise<NewsSummaryData> {
     // AI要約を実行
-    const summaryResult = await this.summaryService.summarizeJapaneseNews(newsArticles);
+    const summaryResult = await this.summaryService.summarizeJapaneseNews(toNewsArticles(stories), {
+      deadline,
+    });
 
     return {
       title: '日本の投資・金融ニュース',
       summary: summaryResult.summary,
       characterCount: summaryResult.characterCount,
       updatedAt: new Date(),
+      sources: toSourceArticles(stories),
+      model: summaryResult.model,
+      promptVersion: summaryResult.promptVersion,
     };
   }
 
+  /**
+   * カテゴリ別にニュースを要約
+   *
+   * 世界・日本の話題をまとめてカテゴリに分類し、最小記事数以上のカテゴリを並列に要約する。
+   * 失敗したカテゴリはエラーとして記録し、他のカテゴリの要約は継続する。
+   *
+   * @param stories - 世界・日本の話題配列
+   * @param deadline - 要約の期限(エポックミリ秒)
+   * @param errors - エラー情報を格納する配列
+   * @returns カテゴリ別要約データ(NEWS_CATEGORIESの順)
+   */
+  private async summarizeCategories(
+    stories: NewsStoryCluster[],
+    deadline: number,
+    errors: BatchErrorInfo[]
+  ): Promise<NewsCategorySummaryData[]> {
+    const groups = groupByCategory(stories, (story) => story.representative);
+    const targetCategories = NEWS_CATEGORIES.filter(
+      (category) => groups[category].length >= this.minArticlesPerCategory
+    );
+
+    const results = await Promise.allSettled(
+      targetCategories.map((category) =>
+        this.summaryService.summarizeCategoryNews(
+          NEWS_CATEGORY_LABELS[category],
+          toNewsArticles(groups[category]),
+          { deadline }
+        )
+      )
+    );
+
+    const categories: NewsCategorySummaryData[] = [];
+    results.forEach((settled, index) => {
+      const category = targetCategories[index];
+
+      if (settled.status === 'fulfilled') {
+        categories.push({
+          category,
+          title: NEWS_CATEGORY_LABELS[category],
+          summary: settled.value.summary,
+          characterCount: settled.value.characterCount,
+          articleCount: groups[category].length,
+          updatedAt: new Date(),
+          model: settled.value.model,
+          promptVersion: settled.value.promptVersion,
+        });
+        return;
+      }
+
+      errors.push({
+        type: 'category-summary',
+        message: `[${category}] ${
+          settled.reason instanceof Error
+            ? settled.reason.message
+            : 'カテゴリ別要約でエラー'
+        }`,
+        timestamp: new Date(),
+      });
+    });
+
+    return categories;
+  }
+
   /**
    * ニュースをSupabaseに保存
    *
    * Requirements 1.6: 処理完了後データベースに保存
    * Task 5.1: Supabase upsertに変更
    *
+   * 要約に失敗した地域は、再生成時に既存の内容を空で上書きしないよう既存の値を維持する
+   * (既存のレコードがない場合は空文字で保存し、バックフィルの欠損日として補完する)。
+   * 保存はsave_news_for_date関数で行い、管理者が編集・非公開にしたニュースは上書きしない
+   * (エラーになるため、出典記事・カテゴリ別要約も保存しない)。
+   *
    * @param date - 日付 (YYYY-MM-DD形式、PRIMARY KEY)
    * @param worldNews - 世界ニュースデータ
    * @param japanNews - 日本ニュースデータ
@@ -485,30 +961,170 @@ export class NewsBatchService {
   ): Promise<void> {
     const supabase = getSupabase();
 
+    const existing = worldNews && japanNews ? null : await this.fetchExistingNews(date);
+
     // NewsUpsertPayloadを作成
     const payload: NewsUpsertPayload = {
       date,
-      world_news_title: worldNews?.title ?? '',
-      world_news_summary: worldNews?.summary ?? '',
-      japan_news_title: japanNews?.title ?? '',
-      japan_news_summary: japanNews?.summary ?? '',
+      world_news_title: worldNews ? worldNews.title : (existing?.world_news_title ?? ''),
+      world_news_summary: worldNews ? worldNews.summary : (existing?.world_news_summary ?? ''),
+      japan_news_title: japanNews ? japanNews.title : (existing?.japan_news_title ?? ''),
+      japan_news_summary: japanNews ? japanNews.summary : (existing?.japan_news_summary ?? ''),
+      world_news_model: worldNews
+        ? (worldNews.model ?? null)
+        : (existing?.world_news_model ?? null),
+      japan_news_model: japanNews
+        ? (japanNews.model ?? null)
+        : (existing?.japan_news_model ?? null),
+      world_news_prompt_version: worldNews
+        ? (worldNews.promptVersion ?? null)
+        : (existing?.world_news_prompt_version ?? null),
+      japan_news_prompt_version: japanNews
+        ? (japanNews.promptVersion ?? null)
+        : (existing?.japan_news_prompt_version ?? null),
       updated_at: new Date().toISOString(),
     };
 
     // Supabaseにupsert (日付をPKとして冪等性を確保)
-    const { error } = await supabase
-      .from('news')
-      .upsert(payload, { onConflict: 'date' })
-      .select()
-      .single();
+    const { error } = await supabase.rpc(SAVE_NEWS_FUNCTION, {
+      target_date: date,
+      new_news: payload,
+    });
 
     if (error) {
-      throw new Error(`Supabase upsert failed: ${error.message}`);
+      throw new Error(`Supabase news save failed: ${error.message}`);
     }
 
     console.log(`[NewsBatchService] News saved to Supabase: ${date}`);
   }
 
+  /**
+   * 対象日付の既存のニュースを取得
+   *
+   * @param date - 日付 (YYYY-MM-DD形式)
+   * @returns 既存のニュース(存在しない場合はnull)
+   */
+  private async fetchExistingNews(date: string): Promise<Partial<NewsRow> | null> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('news')
+      .select(
+        'world_news_title, world_news_summary, world_news_model, world_news_prompt_version, ' +
+          'japan_news_title, japan_news_summary, japan_news_model, japan_news_prompt_version'
+      )
+      .eq('date', date)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Supabase news fetch failed: ${error.message}`);
+    }
+
+    return (data as Partial<NewsRow> | null) ?? null;
+  }
+
+  /**
+   * 出典記事をSupabaseに保存
+   *
+   * 同日にバッチを再実行した場合に古い出典が残らないよう、
+   * 要約に成功した地域の出典を削除してから挿入し直す。
+   * 要約に失敗した地域の出典は既存の要約に対応するため維持する。
+   *
+   * @param date - 日付 (YYYY-MM-DD形式)
+   * @param worldNews - 世界ニュースデータ
+   * @param japanNews - 日本ニュースデータ
+   */
+  private async saveSourceArticles(
+    date: string,
+    worldNews?: NewsSummaryData,
+    japanNews?: NewsSummaryData
+  ): Promise<void> {
+    const supabase = getSupabase();
+
+    const regions: NewsRegion[] = [
+      ...(worldNews ? (['world'] as const) : []),
+      ...(japanNews ? (['japan'] as const) : []),
+    ];
+
+    if (regions.length === 0) {
+      return;
+    }
+
+    const { error: deleteError } = await supabase
+      .from('news_source_articles')
+      .delete()
+      .eq('news_date', date)
+      .in('region', regions);
+
+    if (deleteError) {
+      throw new Error(`Supabase source articles delete failed: ${deleteError.message}`);
+    }
+
+    const payloads: NewsSourceArticleInsertPayload[] = [
+      ...toSourceArticlePayloads(date, 'world', worldNews?.sources),
+      ...toSourceArticlePayloads(date, 'japan', japanNews?.sources),
+    ];
+
+    if (payloads.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase.from('news_source_articles').insert(payloads);
+
+    if (error) {
+      throw new Error(`Supabase source articles insert failed: ${error.message}`);
+    }
+
+    console.log(
+      `[NewsBatchService] ${payloads.length} source articles saved to Supabase: ${date}`
+    );
+  }
+
+  /**
+   * カテゴリ別要約をSupabaseに保存
+   *
+   * 同日にバッチを再実行した場合に古い要約が残らないよう、要約に成功したカテゴリのみを
+   * replace_news_category_summaries関数で1トランザクションで置き換える。
+   * 要約に失敗したカテゴリは既存の要約を維持する(全カテゴリが失敗した場合は何もしない)。
+   *
+   * @param date - 日付 (YYYY-MM-DD形式)
+   * @param categories - カテゴリ別要約データ
+   */
+  private async saveCategorySummaries(
+    date: string,
+    categories: NewsCategorySummaryData[]
+  ): Promise<void> {
+    if (categories.length === 0) {
+      return;
+    }
+
+    const supabase = getSupabase();
+
+    const payloads: NewsCategorySummaryInsertPayload[] = categories.map((category) => ({
+      news_date: date,
+      category: category.category,
+      title: category.title,
+      summary: category.summary,
+      article_count: category.articleCount,
+      model: category.model ?? null,
+      prompt_version: category.promptVersion ?? null,
+      updated_at: category.updatedAt.toISOString(),
+    }));
+
+    const { error } = await supabase.rpc(REPLACE_CATEGORY_SUMMARIES_FUNCTION, {
+      target_date: date,
+      new_summaries: payloads,
+    });
+
+    if (error) {
+      throw new Error(`Supabase category summaries replace failed: ${error.message}`);
+    }
+
+    console.log(
+      `[NewsBatchService] ${payloads.length} category summaries saved to Supabase: ${date}`
+    );
+  }
+
   /**
    * メタデータを更新
    *
@@ -542,3 +1158,94 @@ export class NewsBatchService {
     return formatDateToJST();
   }
 }
+
+/**
+ * 記事が指定した日付(JST)の終わりまでに公開されたかどうか
+ *
+ * 公開日時が不明な記事は対象に含める
+ *
+ * @param article - 取得した記事
+ * @param date - 処理対象の日付(YYYY-MM-DD)
+ * @returns 指定した日付までに公開された場合true
+ */
+function isPublishedBy(article: FetchedNewsArticle, date: string): boolean {
+  if (!article.publishedAt) {
+    return true;
+  }
+  const endOfDay = new Date(`${date}T23:59:59.999+09:00`).getTime();
+  return new Date(article.publishedAt).getTime() <= endOfDay;
+}
+
+/**
+ * 話題の代表記事を要約サービスの入力形式に変換する
+ *
+ * @param stories - 話題配列
+ * @returns 要約用の記事配列(報道媒体数付き)
+ */
+function toNewsArticles(stories: NewsStoryCluster[]): NewsArticle[] {
+  return stories.map(({ representative, outletCount }) => ({
+    title: representative.title,
+    description: representative.description,
+    content: representative.content,
+    source: representative.outlet,
+    publishedAt: representative.publishedAt ?? '',
+    coverageCount: outletCount,
+  }));
+}
+
+/**
+ * 話題に含まれる記事を出典記事に変換する
+ *
+ * 同じ話題を報じた全媒体の記事を出典とする。
+ * URLがない記事は読者が確認できないため除外し、同じURLの記事は1件にまとめる。
+ *
+ * @param stories - 話題配列
+ * @returns 出典記事配列
+ */
+function toSourceArticles(stories: NewsStoryCluster[]): NewsSourceArticle[] {
+  const seenUrls = new Set<string>();
+
+  return stories
+    .flatMap((story) => story.articles)
+    .filter((article) => {
+      if (!article.url) {
+        return false;
+      }
+      const urlKey = canonicalizeArticleUrl(article.url);
+      if (seenUrls.has(urlKey)) {
+        return false;
+      }
+      seenUrls.add(urlKey);
+      return true;
+    })
+    .map((article) => ({
+      title: article.title,
+      outlet: article.outlet,
+      url: article.url,
+      publishedAt: article.publishedAt,
+    }));
+}
+
+/**
+ * 出典記事をinsert用ペイロードに変換する
+ *
+ * @param date - 日付 (YYYY-MM-DD形式)
+ * @param region - 地域区分
+ * @param sources - 出典記事
+ * @returns insert用ペイロード配列
+ */
+function toSourceArticlePayloads(
+  date: string,
+  region: NewsRegion,
+  sources: NewsSourceArticle[] = []
+): NewsSourceArticleInsertPayload[] {
+  return sources.map((source, index) => ({
+    news_date: date,
+    region,
+    title: source.title,
+    outlet: source.outlet,
+    url: source.url,
+    published_at: source.publishedAt,
+    position: index,
+  }));
+}
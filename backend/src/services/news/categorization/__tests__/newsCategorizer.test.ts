@@ -0,0 +1,69 @@
+/**
+ * ニュースカテゴリ分類テスト
+ *
+ * Requirements: テーマ別(市況・マクロ/中央銀行・企業決算・暗号資産・為替)のニュース要約
+ */
+
+import { categorizeArticle, groupByCategory, NEWS_CATEGORIES } from '../newsCategorizer';
+
+describe('newsCategorizer', () => {
+  describe('categorizeArticle', () => {
+    it.each([
+      ['Stocks rally as Nasdaq hits record', 'markets'],
+      ['日経平均、3万9000円台を回復', 'markets'],
+      ['Fed signals rate cut later this year', 'macro'],
+      ['日銀が政策金利を据え置き', 'macro'],
+      ['Apple quarterly results beat estimates', 'earnings'],
+      ['トヨタ、純利益が過去最高に 通期業績を上方修正', 'earnings'],
+      ['Bitcoin tops $100,000', 'crypto'],
+      ['暗号資産の規制強化へ', 'crypto'],
+      ['Dollar climbs against yen', 'fx'],
+      ['円安が進行、1ドル155円台', 'fx'],
+    ])('「%s」を%sに分類する', (title, expected) => {
+      expect(categorizeArticle({ title })).toBe(expected);
+    });
+
+    it('英数字のキーワードは単語単位で照合する', () => {
+      // 'fed'は'federation'に、'euro'は'europe'に一致しない
+      expect(categorizeArticle({ title: 'Football federation visits Europe' })).toBeNull();
+    });
+
+    it('概要のキーワードも判定に使う', () => {
+      expect(
+        categorizeArticle({ title: '今日の注目ニュース', description: 'ビットコインが急騰した' })
+      ).toBe('crypto');
+    });
+
+    it('タイトルのキーワードを概要より重視する', () => {
+      expect(
+        categorizeArticle({
+          title: '円高が進行',
+          description: '株価への影響が懸念される',
+        })
+      ).toBe('fx');
+    });
+
+    it('どのカテゴリにも該当しない場合はnullを返す', () => {
+      expect(categorizeArticle({ title: '新しいスマートフォンが発売' })).toBeNull();
+    });
+  });
+
+  describe('groupByCategory', () => {
+    it('要素をカテゴリ別に振り分け、該当しない要素を除外する', () => {
+      const groups = groupByCategory(
+        [
+          { id: 1, article: { title: '日銀が利上げ' } },
+          { id: 2, article: { title: '円安が進行' } },
+          { id: 3, article: { title: '新製品を発表' } },
+          { id: 4, article: { title: 'FRBが利下げ' } },
+        ],
+        (item) => item.article
+      );
+
+      expect(Object.keys(groups)).toEqual([...NEWS_CATEGORIES]);
+      expect(groups.macro.map((item) => item.id)).toEqual([1, 4]);
+      expect(groups.fx.map((item) => item.id)).toEqual([2]);
+      expect(groups.markets).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * ニュースカテゴリ分類モジュール
+ *
+ * 取得した記事をテーマ別カテゴリ(市況・マクロ/中央銀行・企業決算・暗号資産・為替)に
+ * 分類する機能を提供します。
+ */
+
+export {
+  NEWS_CATEGORIES,
+  NEWS_CATEGORY_LABELS,
+  NEWS_CATEGORY_KEYWORDS,
+  categorizeArticle,
+  groupByCategory,
+} from './newsCategorizer';
+
+export type { CategorizableArticle } from './newsCategorizer';
@@ -0,0 +1,161 @@
+/**
+ * ニュースカテゴリ分類
+ *
+ * 取得した記事をタイトル・概要のキーワードでテーマ別カテゴリに分類します。
+ * 分類はバッチ処理ごとに大量の記事に対して行うため、AIを使わずキーワード照合で行います。
+ *
+ * Requirements: テーマ別(市況・マクロ/中央銀行・企業決算・暗号資産・為替)のニュース要約
+ */
+
+import type { NewsCategory } from '../../../models/supabase.types';
+
+/**
+ * カテゴリの一覧(表示順・同点時の優先順)
+ */
+export const NEWS_CATEGORIES: readonly NewsCategory[] = [
+  'markets',
+  'macro',
+  'earnings',
+  'crypto',
+  'fx',
+];
+
+/**
+ * カテゴリの表示名
+ */
+export const NEWS_CATEGORY_LABELS: Record<NewsCategory, string> = {
+  markets: '市況',
+  macro: 'マクロ経済・中央銀行',
+  earnings: '企業決算',
+  crypto: '暗号資産',
+  fx: '為替',
+};
+
+/**
+ * カテゴリごとの判定キーワード(英語・日本語)
+ *
+ * 英数字のキーワードは単語単位、日本語のキーワードは部分一致で照合する
+ */
+export const NEWS_CATEGORY_KEYWORDS: Record<NewsCategory, readonly string[]> = {
+  markets: [
+    'stock market', 'stocks', 'shares', 'equities', 'dow', 's&p 500', 'nasdaq', 'nikkei',
+    'topix', 'bond yield', 'treasury yields', 'rally', 'sell-off',
+    '株価', '株式市場', '日経平均', '東証', '相場', '株高', '株安', '債券', '利回り',
+  ],
+  macro: [
+    'federal reserve', 'fed', 'fomc', 'central bank', 'interest rate', 'rate cut', 'rate hike',
+    'inflation', 'cpi', 'gdp', 'unemployment', 'jobs report', 'ecb', 'boj', 'bank of japan',
+    '日銀', '日本銀行', 'frb', '中央銀行', '金融政策', '政策金利', '利上げ', '利下げ',
+    'インフレ', '物価', '消費者物価', '景気', '雇用統計', '国内総生産',
+  ],
+  earnings: [
+    'earnings', 'quarterly results', 'revenue', 'profit', 'guidance', 'eps', 'net income',
+    '決算', '業績', '純利益', '営業利益', '売上高', '増益', '減益', '上方修正', '下方修正',
+  ],
+  crypto: [
+    'bitcoin', 'ethereum', 'crypto', 'cryptocurrency', 'stablecoin', 'blockchain',
+    'ビットコイン', 'イーサリアム', '暗号資産', '仮想通貨', 'ステーブルコイン', 'ブロックチェーン',
+  ],
+  fx: [
+    'dollar', 'yen', 'euro', 'currency', 'forex', 'exchange rate', 'fx',
+    '為替', '円安', '円高', 'ドル円', 'ユーロ', '外国為替', '通貨',
+  ],
+};
+
+/**
+ * タイトルに含まれるキーワードの重み(概要は1)
+ */
+const TITLE_KEYWORD_WEIGHT = 2;
+
+/**
+ * 分類対象の記事
+ */
+export interface CategorizableArticle {
+  /** 記事タイトル */
+  title: string;
+  /** 記事の簡易説明 */
+  description?: string;
+}
+
+/**
+ * 照合用にテキストを正規化する
+ */
+function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * テキストにキーワードが含まれるかどうか
+ */
+function containsKeyword(text: string, keyword: string): boolean {
+  if (/^[\x20-\x7e]+$/.test(keyword)) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(text);
+  }
+  return text.includes(keyword);
+}
+
+/**
+ * 記事をカテゴリに分類する
+ *
+ * キーワードの一致数(タイトルは重み付け)が最も多いカテゴリを返す。
+ * 同点の場合はNEWS_CATEGORIESの順序で先のカテゴリを優先する。
+ *
+ * @param article - 分類対象の記事
+ * @returns カテゴリ(どのカテゴリにも該当しない場合はnull)
+ */
+export function categorizeArticle(article: CategorizableArticle): NewsCategory | null {
+  const title = normalizeText(article.title);
+  const description = normalizeText(article.description ?? '');
+
+  let bestCategory: NewsCategory | null = null;
+  let bestScore = 0;
+
+  for (const category of NEWS_CATEGORIES) {
+    const score = NEWS_CATEGORY_KEYWORDS[category].reduce(
+      (total, keyword) =>
+        total +
+        (containsKeyword(title, keyword) ? TITLE_KEYWORD_WEIGHT : 0) +
+        (containsKeyword(description, keyword) ? 1 : 0),
+      0
+    );
+
+    if (score > bestScore) {
+      bestCategory = category;
+      bestScore = score;
+    }
+  }
+
+  return bestCategory;
+}
+
+/**
+ * 記事をカテゴリ別に振り分ける
+ *
+ * どのカテゴリにも該当しない記事は含まれない
+ *
+ * @param items - 分類対象の要素
+ * @param getArticle - 要素から分類対象の記事を取り出す関数
+ * @returns カテゴリごとの要素配列(入力順)
+ */
+export function groupByCategory<T>(
+  items: T[],
+  getArticle: (item: T) => CategorizableArticle
+): Record<NewsCategory, T[]> {
+  const groups: Record<NewsCategory, T[]> = {
+    markets: [],
+    macro: [],
+    earnings: [],
+    crypto: [],
+    fx: [],
+  };
+
+  items.forEach((item) => {
+    const category = categorizeArticle(getArticle(item));
+    if (category) {
+      groups[category].push(item);
+    }
+  });
+
+  return groups;
+}
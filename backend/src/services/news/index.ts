@@ -5,6 +5,8 @@
  *
  * ## 構成
  * - fetchers: 外部ソースからのニュース取得(NewsAPI, Google News RSS)
+ * - sources: ニュースソースの登録・地域別管理(追加RSSフィード, JSON API)
+ * - categorization: 記事のテーマ別カテゴリ分類
  * - summarization: AI によるニュース要約処理
  */
 
@@ -45,25 +47,76 @@ export type {
   RssParserConfig,
 } from './fetchers';
 
+// Sources - ニュースソース
+export {
+  NewsSourceRegistry,
+  NewsSourceRegistryError,
+  NewsApiNewsSource,
+  GoogleNewsRssNewsSource,
+  RssFeedSource,
+  createRssFeedSources,
+  JsonApiSource,
+  JsonApiSourceError,
+  mergeArticles,
+  clusterArticles,
+  canonicalizeArticleUrl,
+  DEFAULT_ARTICLE_CLUSTERING_OPTIONS,
+  DEFAULT_RSS_FEED_DEFINITIONS,
+  getEnabledRssFeedDefinitions,
+} from './sources';
+
+export type {
+  NewsSource,
+  FetchedNewsArticle,
+  RssFeedSourceDefinition,
+  JsonApiSourceDefinition,
+  JsonApiArticle,
+  ArticleClusteringOptions,
+  NewsStoryCluster,
+} from './sources';
+
 // Summarization - ニュース要約
 export {
   NewsArticle,
   SUMMARY_CONFIG,
+  CATEGORY_SUMMARY_CONFIG,
   buildEnglishNewsSummaryPrompt,
   buildJapaneseNewsSummaryPrompt,
+  buildCategoryNewsSummaryPrompt,
+  SUMMARY_OUTPUT_TOOL,
   parseSummaryResponse,
+  parseStructuredSummaryResponse,
   validateSummaryLength,
   NewsSummaryService,
   NewsSummaryError,
+  SummaryQualityError,
+  validateSummaryQuality,
+  DEFAULT_SUMMARY_QUALITY_CHECKS,
 } from './summarization';
 
 export type {
   SummaryParseResult,
   SummaryValidationResult,
   NewsSummaryServiceConfig,
+  NewsSummaryOptions,
   SummaryResult,
+  SummaryLengthRange,
+  SummaryQualityIssue,
+  SummaryQualityCheck,
+  SummaryQualityResult,
 } from './summarization';
 
+// Categorization - カテゴリ分類
+export {
+  NEWS_CATEGORIES,
+  NEWS_CATEGORY_LABELS,
+  NEWS_CATEGORY_KEYWORDS,
+  categorizeArticle,
+  groupByCategory,
+} from './categorization';
+
+export type { CategorizableArticle } from './categorization';
+
 // Batch - ニュースバッチ処理
 export { NewsBatchService, NewsBatchError } from './batch';
 
@@ -72,4 +125,6 @@ export type {
   NewsBatchResult,
   BatchErrorInfo,
   NewsSummaryData,
+  NewsSourceArticle,
+  NewsCategorySummaryData,
 } from './batch';
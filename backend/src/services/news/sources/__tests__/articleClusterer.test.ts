@@ -0,0 +1,150 @@
+/**
+ * 記事クラスタリング処理テスト
+ *
+ * Requirements: 複数ソースの記事の重複検出・話題ごとのクラスタリング
+ */
+
+import {
+  canonicalizeArticleUrl,
+  clusterArticles,
+  createShingles,
+  jaccardSimilarity,
+} from '../articleClusterer';
+import type { FetchedNewsArticle } from '../newsSourceTypes';
+
+/**
+ * テスト用の記事を作成する
+ */
+const createArticle = (overrides: Partial<FetchedNewsArticle>): FetchedNewsArticle => ({
+  title: 'title',
+  description: '',
+  content: '',
+  outlet: 'outlet',
+  url: '',
+  publishedAt: null,
+  sourceId: 'source',
+  ...overrides,
+});
+
+/**
+ * Google News RSS形式の記事IDを作成する
+ */
+const createGoogleNewsArticleId = (url: string): string =>
+  Buffer.concat([
+    Buffer.from([0x08, 0x13, 0x22, url.length]),
+    Buffer.from(url, 'latin1'),
+    Buffer.from([0xd2, 0x01, 0x00]),
+  ]).toString('base64url');
+
+describe('articleClusterer', () => {
+  describe('canonicalizeArticleUrl', () => {
+    it('Google Newsの記事リンクを元記事URLに展開する', () => {
+      const articleId = createGoogleNewsArticleId('https://www.nikkei.com/article/DGXZQO1/');
+
+      expect(
+        canonicalizeArticleUrl(`https://news.google.com/rss/articles/${articleId}?oc=5`)
+      ).toBe('https://www.nikkei.com/article/DGXZQO1');
+    });
+
+    it('google.com/urlのリダイレクトを元記事URLに展開する', () => {
+      expect(
+        canonicalizeArticleUrl(
+          'https://www.google.com/url?q=https%3A%2F%2Fexample.com%2Fnews%3Futm_source%3Dgoogle'
+        )
+      ).toBe('https://example.com/news');
+    });
+
+    it('元記事URLを取り出せない場合はリンクのまま正規化する', () => {
+      expect(canonicalizeArticleUrl('https://news.google.com/rss/articles/AUxyz?oc=5')).toBe(
+        'https://news.google.com/rss/articles/AUxyz?oc=5'
+      );
+    });
+  });
+
+  describe('createShingles / jaccardSimilarity', () => {
+    it('表記ゆれのある同じタイトルは類似度が高い', () => {
+      const a = createShingles('日銀が政策金利を据え置き', 3);
+      const b = createShingles('日銀、政策金利を据え置き', 3);
+
+      expect(jaccardSimilarity(a, b)).toBeGreaterThanOrEqual(0.5);
+    });
+
+    it('異なる話題のタイトルは類似度が低い', () => {
+      const a = createShingles('日経平均が上昇', 3);
+      const b = createShingles('円相場が反落', 3);
+
+      expect(jaccardSimilarity(a, b)).toBeLessThan(0.5);
+    });
+
+    it('空の集合の類似度は0になる', () => {
+      expect(jaccardSimilarity(new Set(), createShingles('abc', 3))).toBe(0);
+    });
+  });
+
+  describe('clusterArticles', () => {
+    it('同じ話題の記事を1つのクラスタにまとめ、報道媒体数を数える', () => {
+      const clusters = clusterArticles([
+        createArticle({ title: 'Fed holds interest rates steady', outlet: 'Reuters' }),
+        createArticle({ title: 'Oil prices fall on weak demand', outlet: 'Reuters' }),
+        createArticle({ title: 'Fed holds interest rates steady again', outlet: 'Bloomberg' }),
+        createArticle({ title: 'Fed holds interest rates steady', outlet: 'CNBC' }),
+      ]);
+
+      expect(clusters).toHaveLength(2);
+      expect(clusters[0].articles).toHaveLength(3);
+      expect(clusters[0].outletCount).toBe(3);
+      expect(clusters[1].outletCount).toBe(1);
+    });
+
+    it('同じ媒体の重複記事は報道媒体数に含めない', () => {
+      const clusters = clusterArticles([
+        createArticle({ title: '円安が進行', outlet: '日本経済新聞' }),
+        createArticle({ title: '円安が進行', outlet: '日本経済新聞' }),
+      ]);
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].outletCount).toBe(1);
+    });
+
+    it('展開後のURLが同じ記事はタイトルが異なっても同じ話題とする', () => {
+      const url = 'https://www.nikkei.com/article/DGXZQO1';
+      const clusters = clusterArticles([
+        createArticle({ title: '見出しA', url }),
+        createArticle({
+          title: '全く別の見出し',
+          url: `https://news.google.com/rss/articles/${createGoogleNewsArticleId(url)}`,
+        }),
+      ]);
+
+      expect(clusters).toHaveLength(1);
+    });
+
+    it('概要まで含めた類似度で同じ話題を判定する', () => {
+      const description = '米連邦準備制度理事会は政策金利を据え置くと発表した。市場は利下げ時期を注視している。';
+      const clusters = clusterArticles([
+        createArticle({ title: 'FRB、金利据え置き', description }),
+        createArticle({ title: '米金融政策、現状維持を決定', description }),
+      ]);
+
+      expect(clusters).toHaveLength(1);
+    });
+
+    it('情報量が最も多い記事を代表記事に選ぶ', () => {
+      const clusters = clusterArticles([
+        createArticle({ title: '円安が進行', outlet: 'A' }),
+        createArticle({ title: '円安が進行', outlet: 'B', description: '為替市場で円安が進んだ' }),
+      ]);
+
+      expect(clusters[0].representative.outlet).toBe('B');
+    });
+
+    it('閾値を変更できる', () => {
+      const articles = [
+        createArticle({ title: 'Fed holds interest rates steady' }),
+        createArticle({ title: 'Fed holds interest rates steady again' }),
+      ];
+
+      expect(clusterArticles(articles, { titleThreshold: 1, textThreshold: 1 })).toHaveLength(2);
+    });
+  });
+});
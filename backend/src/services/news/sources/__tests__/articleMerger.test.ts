@@ -0,0 +1,105 @@
+/**
+ * 記事マージ処理テスト
+ *
+ * Requirements: 複数ニュースソースの記事マージ・重複除外
+ */
+
+import {
+  mergeArticles,
+  normalizeArticleTitle,
+  normalizeArticleUrl,
+  toISOStringOrNull,
+} from '../articleMerger';
+import type { FetchedNewsArticle } from '../newsSourceTypes';
+
+/**
+ * テスト用の記事を作成する
+ */
+const createArticle = (overrides: Partial<FetchedNewsArticle>): FetchedNewsArticle => ({
+  title: 'title',
+  description: '',
+  content: '',
+  outlet: 'outlet',
+  url: 'https://example.com/article',
+  publishedAt: null,
+  sourceId: 'source',
+  ...overrides,
+});
+
+describe('articleMerger', () => {
+  describe('normalizeArticleUrl', () => {
+    it('フラグメント・末尾スラッシュ・トラッキング用パラメータを無視する', () => {
+      expect(
+        normalizeArticleUrl('https://Example.com/news/1/?utm_source=rss&id=5#top')
+      ).toBe(normalizeArticleUrl('https://example.com/news/1?id=5'));
+    });
+
+    it('URLとして解釈できない場合はトリムした文字列を返す', () => {
+      expect(normalizeArticleUrl(' not a url ')).toBe('not a url');
+    });
+  });
+
+  describe('normalizeArticleTitle', () => {
+    it('全角・半角、大文字小文字、空白・記号の違いを無視する', () => {
+      expect(normalizeArticleTitle('日経平均、ＡＩ関連株が上昇！')).toBe(
+        normalizeArticleTitle('日経平均 AI関連株が上昇')
+      );
+    });
+  });
+
+  describe('toISOStringOrNull', () => {
+    it('日時文字列をISO 8601形式に変換する', () => {
+      expect(toISOStringOrNull('Fri, 02 Jan 2026 09:00:00 GMT')).toBe(
+        '2026-01-02T09:00:00.000Z'
+      );
+    });
+
+    it('空・解釈できない値はnullを返す', () => {
+      expect(toISOStringOrNull(null)).toBeNull();
+      expect(toISOStringOrNull('')).toBeNull();
+      expect(toISOStringOrNull('invalid')).toBeNull();
+    });
+  });
+
+  describe('mergeArticles', () => {
+    it('URLが同じ記事は先に渡されたものを残す', () => {
+      const merged = mergeArticles([
+        createArticle({ title: 'A', url: 'https://example.com/a', sourceId: 'first' }),
+        createArticle({ title: 'A (copy)', url: 'https://example.com/a/', sourceId: 'second' }),
+      ]);
+
+      expect(merged).toHaveLength(1);
+      expect(merged[0].sourceId).toBe('first');
+    });
+
+    it('タイトルが同じ記事は別URLでも除外する', () => {
+      const merged = mergeArticles([
+        createArticle({ title: '日銀が政策金利を据え置き', url: 'https://a.example.com/1' }),
+        createArticle({ title: '日銀が政策金利を据え置き。', url: 'https://b.example.com/2' }),
+        createArticle({ title: '円相場が反発', url: 'https://b.example.com/3' }),
+      ]);
+
+      expect(merged.map((article) => article.title)).toEqual([
+        '日銀が政策金利を据え置き',
+        '円相場が反発',
+      ]);
+    });
+
+    it('URLもタイトルもない記事を除外する', () => {
+      const merged = mergeArticles([createArticle({ title: '', url: '' })]);
+
+      expect(merged).toEqual([]);
+    });
+
+    it('最大記事数を超える記事を切り捨てる', () => {
+      const merged = mergeArticles(
+        [1, 2, 3].map((index) =>
+          createArticle({ title: `記事${index}`, url: `https://example.com/${index}` })
+        ),
+        2
+      );
+
+      expect(merged.map((article) => article.title)).toEqual(['記事1', '記事2']);
+    });
+  });
+});
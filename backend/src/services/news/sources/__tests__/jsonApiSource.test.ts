@@ -0,0 +1,84 @@
+/**
+ * JSON APIニュースソーステスト
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import { JsonApiSource, JsonApiSourceError, JsonApiSourceDefinition } from '../jsonApiSource';
+
+// global fetchをモック
+const mockFetch = jest.fn();
+global.fetch = mockFetch;
+
+describe('JsonApiSource', () => {
+  const definition: JsonApiSourceDefinition = {
+    id: 'example-api',
+    name: 'Example News',
+    region: 'world',
+    url: 'https://api.example.com/news',
+    headers: { 'X-Api-Key': 'test-key' },
+    mapResponse: (body) =>
+      (body as { items: { headline: string; link: string; date?: string }[] }).items.map(
+        (item) => ({ title: item.headline, url: item.link, publishedAt: item.date })
+      ),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('レスポンスを変換関数で記事に変換する', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      json: async () => ({
+        items: [
+          { headline: 'Stocks rally', link: 'https://example.com/1', date: '2026-01-02T00:00:00Z' },
+        ],
+      }),
+    });
+
+    const articles = await new JsonApiSource(definition).fetchArticles();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.example.com/news',
+      expect.objectContaining({ method: 'GET', headers: { 'X-Api-Key': 'test-key' } })
+    );
+    expect(articles).toEqual([
+      {
+        title: 'Stocks rally',
+        description: '',
+        content: '',
+        outlet: 'Example News',
+        url: 'https://example.com/1',
+        publishedAt: '2026-01-02T00:00:00.000Z',
+        sourceId: 'example-api',
+      },
+    ]);
+  });
+
+  it('HTTPエラー時はステータスコード付きのエラーをスローする', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 503, json: async () => ({}) });
+
+    const error = await new JsonApiSource(definition).fetchArticles().catch((e) => e);
+
+    expect(error).toBeInstanceOf(JsonApiSourceError);
+    expect(error.statusCode).toBe(503);
+  });
+
+  it('ネットワークエラーをJsonApiSourceErrorに変換する', async () => {
+    mockFetch.mockRejectedValueOnce(new Error('ECONNRESET'));
+
+    await expect(new JsonApiSource(definition).fetchArticles()).rejects.toThrow(
+      JsonApiSourceError
+    );
+  });
+
+  it('レスポンスの変換に失敗した場合はエラーをスローする', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({}) });
+
+    await expect(new JsonApiSource(definition).fetchArticles()).rejects.toThrow(
+      'response could not be mapped'
+    );
+  });
+});
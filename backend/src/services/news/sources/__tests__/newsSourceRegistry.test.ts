@@ -0,0 +1,67 @@
+/**
+ * ニュースソースレジストリテスト
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import { NewsSourceRegistry, NewsSourceRegistryError } from '../newsSourceRegistry';
+import type { NewsSource } from '../newsSourceTypes';
+
+/**
+ * テスト用のニュースソースを作成する
+ */
+const createSource = (id: string, region: NewsSource['region']): NewsSource => ({
+  id,
+  name: id,
+  region,
+  fetchArticles: jest.fn().mockResolvedValue([]),
+});
+
+describe('NewsSourceRegistry', () => {
+  it('初期登録したソースを登録順に取得できる', () => {
+    const registry = new NewsSourceRegistry([
+      createSource('newsapi', 'world'),
+      createSource('google-news', 'japan'),
+      createSource('kabutan', 'japan'),
+    ]);
+
+    expect(registry.getSources().map((source) => source.id)).toEqual([
+      'newsapi',
+      'google-news',
+      'kabutan',
+    ]);
+  });
+
+  it('地域を指定してソースを取得できる', () => {
+    const registry = new NewsSourceRegistry([
+      createSource('newsapi', 'world'),
+      createSource('google-news', 'japan'),
+      createSource('reuters', 'world'),
+    ]);
+
+    expect(registry.getSources('world').map((source) => source.id)).toEqual([
+      'newsapi',
+      'reuters',
+    ]);
+    expect(registry.getSources('japan').map((source) => source.id)).toEqual(['google-news']);
+  });
+
+  it('ソースを追加登録・登録解除できる', () => {
+    const registry = new NewsSourceRegistry();
+
+    registry.register(createSource('nikkei', 'japan'));
+    expect(registry.has('nikkei')).toBe(true);
+
+    expect(registry.unregister('nikkei')).toBe(true);
+    expect(registry.has('nikkei')).toBe(false);
+    expect(registry.unregister('nikkei')).toBe(false);
+  });
+
+  it('同じIDのソースを重複登録するとエラーになる', () => {
+    const registry = new NewsSourceRegistry([createSource('nikkei', 'japan')]);
+
+    expect(() => registry.register(createSource('nikkei', 'world'))).toThrow(
+      NewsSourceRegistryError
+    );
+  });
+});
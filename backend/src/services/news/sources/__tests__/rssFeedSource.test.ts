@@ -0,0 +1,129 @@
+/**
+ * RSSフィードニュースソーステスト
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import { RssFeedSource, createRssFeedSources } from '../rssFeedSource';
+import { getEnabledRssFeedDefinitions, DEFAULT_RSS_FEED_DEFINITIONS } from '../defaultNewsSources';
+import { RssParser } from '../../fetchers/rssParser';
+import type { GoogleNewsRssFeed } from '../../fetchers/rssTypes';
+
+// RssParserをモック化
+jest.mock('../../fetchers/rssParser');
+
+describe('RssFeedSource', () => {
+  let mockParser: jest.Mocked<RssParser>;
+
+  const sampleFeed: GoogleNewsRssFeed = {
+    title: 'Kabutan',
+    description: null,
+    link: 'https://kabutan.jp',
+    lastBuildDate: null,
+    items: [
+      {
+        title: '日経平均は続伸',
+        link: 'https://kabutan.jp/news/1',
+        description: '東京株式市場で日経平均は続伸',
+        publishedAt: '2026-01-02T06:00:00.000Z',
+        source: null,
+      },
+      {
+        title: '円相場が反発',
+        link: 'https://kabutan.jp/news/2',
+        description: null,
+        publishedAt: 'invalid',
+        source: '株探ニュース',
+      },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockParser = new RssParser() as jest.Mocked<RssParser>;
+    mockParser.parseURL.mockResolvedValue(sampleFeed);
+  });
+
+  it('フィードの記事を共通形式に変換して取得する', async () => {
+    const source = new RssFeedSource(mockParser, {
+      id: 'kabutan',
+      name: '株探',
+      region: 'japan',
+      feedUrl: 'https://example.com/rss',
+    });
+
+    const articles = await source.fetchArticles();
+
+    expect(mockParser.parseURL).toHaveBeenCalledWith('https://example.com/rss');
+    expect(articles).toEqual([
+      {
+        title: '日経平均は続伸',
+        description: '東京株式市場で日経平均は続伸',
+        content: '',
+        outlet: '株探',
+        url: 'https://kabutan.jp/news/1',
+        publishedAt: '2026-01-02T06:00:00.000Z',
+        sourceId: 'kabutan',
+      },
+      {
+        title: '円相場が反発',
+        description: '',
+        content: '',
+        outlet: '株探ニュース',
+        url: 'https://kabutan.jp/news/2',
+        publishedAt: null,
+        sourceId: 'kabutan',
+      },
+    ]);
+  });
+
+  it('maxItemsで記事数を制限する', async () => {
+    const source = new RssFeedSource(mockParser, {
+      id: 'kabutan',
+      name: '株探',
+      region: 'japan',
+      feedUrl: 'https://example.com/rss',
+      maxItems: 1,
+    });
+
+    const articles = await source.fetchArticles();
+
+    expect(articles).toHaveLength(1);
+  });
+
+  it('フィード取得の失敗をそのままスローする', async () => {
+    mockParser.parseURL.mockRejectedValue(new Error('Network error'));
+    const source = new RssFeedSource(mockParser, {
+      id: 'kabutan',
+      name: '株探',
+      region: 'japan',
+      feedUrl: 'https://example.com/rss',
+    });
+
+    await expect(source.fetchArticles()).rejects.toThrow('Network error');
+  });
+
+  it('定義の配列からソースを一括作成できる', () => {
+    const sources = createRssFeedSources(mockParser, DEFAULT_RSS_FEED_DEFINITIONS);
+
+    expect(sources.map((source) => source.id)).toEqual(
+      DEFAULT_RSS_FEED_DEFINITIONS.map((definition) => definition.id)
+    );
+  });
+});
+
+describe('getEnabledRssFeedDefinitions', () => {
+  it('未設定の場合は全てのデフォルト定義を返す', () => {
+    expect(getEnabledRssFeedDefinitions('')).toEqual(DEFAULT_RSS_FEED_DEFINITIONS);
+  });
+
+  it('指定したIDの定義のみを返す', () => {
+    expect(
+      getEnabledRssFeedDefinitions('nikkei, kabutan').map((definition) => definition.id)
+    ).toEqual(['nikkei', 'kabutan']);
+  });
+
+  it("'none'の場合は空配列を返す", () => {
+    expect(getEnabledRssFeedDefinitions('none')).toEqual([]);
+  });
+});
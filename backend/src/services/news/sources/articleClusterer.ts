@@ -0,0 +1,283 @@
+/**
+ * 記事クラスタリング処理
+ *
+ * 複数ソースが同じ出来事を報じた記事(ほぼ同一の記事)を1つの話題にまとめ、
+ * 要約プロンプトへ渡す記事を話題ごとの代表記事に絞り込みます。
+ *
+ * - URL正規化: Google Newsのリダイレクトリンクを元記事URLに展開して比較
+ * - 類似度判定: タイトル・概要の文字n-gram(シングル)のJaccard係数
+ * - クラスタリング: 類似する記事同士を連結して1つの話題とする
+ *
+ * Requirements: 複数ソースの記事の重複検出・話題ごとのクラスタリング
+ */
+
+import type { FetchedNewsArticle } from './newsSourceTypes';
+import { normalizeArticleTitle, normalizeArticleUrl } from './articleMerger';
+
+/**
+ * Google Newsのホスト名
+ */
+const GOOGLE_NEWS_HOST = 'news.google.com';
+
+/**
+ * リダイレクトURLで元記事URLを保持するクエリパラメータ
+ */
+const REDIRECT_URL_PARAMS = ['url', 'q'];
+
+/**
+ * クラスタリング設定
+ */
+export interface ArticleClusteringOptions {
+  /**
+   * シングル(文字n-gram)の文字数
+   * @default 3
+   */
+  shingleSize: number;
+  /**
+   * タイトル同士の類似度がこの値以上なら同じ話題とみなす
+   * @default 0.5
+   */
+  titleThreshold: number;
+  /**
+   * タイトル+概要の類似度がこの値以上なら同じ話題とみなす
+   * @default 0.6
+   */
+  textThreshold: number;
+}
+
+/**
+ * デフォルトのクラスタリング設定
+ */
+export const DEFAULT_ARTICLE_CLUSTERING_OPTIONS: ArticleClusteringOptions = {
+  shingleSize: 3,
+  titleThreshold: 0.5,
+  textThreshold: 0.6,
+};
+
+/**
+ * 話題(同じ出来事を報じた記事のまとまり)
+ */
+export interface NewsStoryCluster {
+  /** 要約に渡す代表記事 */
+  representative: FetchedNewsArticle;
+  /** 話題に含まれる全記事(入力順) */
+  articles: FetchedNewsArticle[];
+  /** 話題を報じた媒体数(配信元メディア名の重複を除いた数) */
+  outletCount: number;
+}
+
+/**
+ * 比較用に前処理した記事
+ */
+interface ArticleFingerprint {
+  urlKey: string;
+  titleShingles: Set<string>;
+  textShingles: Set<string>;
+}
+
+/**
+ * 記事URLを正規化し、Google Newsのリダイレクトリンクを元記事URLに展開する
+ *
+ * Google News RSSの記事リンクは news.google.com/rss/articles/<ID> 形式で、
+ * IDは元記事URLを含むデータをbase64url化したもの。
+ * 元記事URLを取り出せない形式の場合はリダイレクトリンクのまま正規化する。
+ *
+ * @param url - 記事URL
+ * @returns 正規化した記事URL
+ */
+export function canonicalizeArticleUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return normalizeArticleUrl(url);
+  }
+
+  // google.com/url?q=... などのリダイレクト
+  if (parsed.hostname.endsWith('google.com')) {
+    for (const param of REDIRECT_URL_PARAMS) {
+      const target = parsed.searchParams.get(param);
+      if (target && /^https?:\/\//.test(target)) {
+        return normalizeArticleUrl(target);
+      }
+    }
+  }
+
+  if (parsed.hostname === GOOGLE_NEWS_HOST) {
+    const articleId = parsed.pathname.split('/').pop() ?? '';
+    const decoded = decodeGoogleNewsArticleId(articleId);
+    if (decoded) {
+      return normalizeArticleUrl(decoded);
+    }
+  }
+
+  return normalizeArticleUrl(url);
+}
+
+/**
+ * Google Newsの記事IDから元記事URLを取り出す
+ *
+ * @param articleId - base64url形式の記事ID
+ * @returns 元記事URL(取り出せない場合はnull)
+ */
+function decodeGoogleNewsArticleId(articleId: string): string | null {
+  if (!articleId) {
+    return null;
+  }
+
+  const bytes = Buffer.from(articleId, 'base64url');
+  const start = bytes.indexOf('http');
+  if (start <= 0) {
+    return null;
+  }
+
+  // URLの直前の1バイトがURLの長さ(127バイト以下の場合)
+  const length = bytes[start - 1];
+  const end = length < 0x80 ? start + length : bytes.length;
+  const candidate = bytes.subarray(start, end).toString('latin1');
+  const match = candidate.match(/^https?:\/\/[\x21-\x7e]+/);
+
+  return match ? match[0] : null;
+}
+
+/**
+ * テキストを文字n-gram(シングル)の集合に変換する
+ *
+ * 空白区切りのない日本語にも使えるよう、単語ではなく文字単位で分割する
+ *
+ * @param text - 対象テキスト
+ * @param size - n-gramの文字数
+ * @returns シングルの集合
+ */
+export function createShingles(text: string, size: number): Set<string> {
+  const normalized = normalizeArticleTitle(text);
+  const shingles = new Set<string>();
+
+  if (normalized.length === 0) {
+    return shingles;
+  }
+  if (normalized.length <= size) {
+    shingles.add(normalized);
+    return shingles;
+  }
+
+  const chars = Array.from(normalized);
+  for (let i = 0; i <= chars.length - size; i++) {
+    shingles.add(chars.slice(i, i + size).join(''));
+  }
+  return shingles;
+}
+
+/**
+ * 2つの集合のJaccard係数を計算する
+ *
+ * @param a - 集合A
+ * @param b - 集合B
+ * @returns 0〜1の類似度(両方空の場合は0)
+ */
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let intersection = 0;
+  a.forEach((value) => {
+    if (b.has(value)) {
+      intersection++;
+    }
+  });
+
+  return intersection / (a.size + b.size - intersection);
+}
+
+/**
+ * 記事を話題ごとにクラスタリングする
+ *
+ * 同じURLの記事、またはタイトル・概要が閾値以上に類似する記事を
+ * 同じ話題とみなし、連結された記事群を1つの話題にまとめる。
+ * 代表記事には情報量(概要+本文の長さ)が最も多い記事を選び、
+ * 同じ場合は先に渡された記事(ソースの登録順が早い記事)を優先する。
+ *
+ * @param articles - クラスタリング対象の記事(優先順)
+ * @param options - クラスタリング設定
+ * @returns 話題の配列(最初の記事の入力順)
+ */
+export function clusterArticles(
+  articles: FetchedNewsArticle[],
+  options: Partial<ArticleClusteringOptions> = {}
+): NewsStoryCluster[] {
+  const config = { ...DEFAULT_ARTICLE_CLUSTERING_OPTIONS, ...options };
+  const fingerprints: ArticleFingerprint[] = articles.map((article) => ({
+    urlKey: article.url ? canonicalizeArticleUrl(article.url) : '',
+    titleShingles: createShingles(article.title, config.shingleSize),
+    textShingles: createShingles(
+      `${article.title} ${article.description}`,
+      config.shingleSize
+    ),
+  }));
+
+  // Union-Findで類似する記事を連結する
+  const parents = articles.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parents[index] !== index) {
+      parents[index] = parents[parents[index]];
+      index = parents[index];
+    }
+    return index;
+  };
+
+  for (let i = 0; i < fingerprints.length; i++) {
+    for (let j = i + 1; j < fingerprints.length; j++) {
+      if (isSameStory(fingerprints[i], fingerprints[j], config)) {
+        const rootI = find(i);
+        const rootJ = find(j);
+        if (rootI !== rootJ) {
+          parents[Math.max(rootI, rootJ)] = Math.min(rootI, rootJ);
+        }
+      }
+    }
+  }
+
+  const groups = new Map<number, FetchedNewsArticle[]>();
+  articles.forEach((article, index) => {
+    const root = find(index);
+    const group = groups.get(root) ?? [];
+    group.push(article);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values()).map((group) => ({
+    representative: selectRepresentative(group),
+    articles: group,
+    outletCount: new Set(group.map((article) => article.outlet)).size,
+  }));
+}
+
+/**
+ * 2つの記事が同じ話題かどうかを判定する
+ */
+function isSameStory(
+  a: ArticleFingerprint,
+  b: ArticleFingerprint,
+  options: ArticleClusteringOptions
+): boolean {
+  if (a.urlKey && a.urlKey === b.urlKey) {
+    return true;
+  }
+  return (
+    jaccardSimilarity(a.titleShingles, b.titleShingles) >= options.titleThreshold ||
+    jaccardSimilarity(a.textShingles, b.textShingles) >= options.textThreshold
+  );
+}
+
+/**
+ * 話題の代表記事を選ぶ
+ */
+function selectRepresentative(articles: FetchedNewsArticle[]): FetchedNewsArticle {
+  return articles.reduce((best, article) =>
+    article.description.length + article.content.length >
+    best.description.length + best.content.length
+      ? article
+      : best
+  );
+}
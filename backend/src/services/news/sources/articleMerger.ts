@@ -0,0 +1,112 @@
+/**
+ * 記事マージ処理
+ *
+ * 複数ソースから取得した記事を1つの配列にまとめ、
+ * 同じ記事(URLまたはタイトルが一致するもの)を除外します。
+ *
+ * Requirements: 複数ニュースソースの記事マージ・重複除外
+ */
+
+import type { FetchedNewsArticle } from './newsSourceTypes';
+
+/**
+ * URL正規化時に除去するトラッキング用クエリパラメータの接頭辞
+ */
+const TRACKING_PARAM_PREFIXES = ['utm_', 'fbclid', 'gclid'];
+
+/**
+ * 日時文字列をISO 8601形式に正規化する
+ *
+ * @param value - 日時文字列
+ * @returns ISO 8601形式の文字列(解釈できない場合はnull)
+ */
+export function toISOStringOrNull(value: string | null | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * 重複判定用にURLを正規化する
+ *
+ * ホスト名の大文字小文字・末尾スラッシュ・フラグメント・
+ * トラッキング用パラメータの違いを無視する
+ *
+ * @param url - 記事URL
+ * @returns 正規化したURL(解釈できない場合はトリムした元の文字列)
+ */
+export function normalizeArticleUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    Array.from(parsed.searchParams.keys())
+      .filter((key) => TRACKING_PARAM_PREFIXES.some((prefix) => key.startsWith(prefix)))
+      .forEach((key) => parsed.searchParams.delete(key));
+    const pathname = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${pathname}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * 重複判定用にタイトルを正規化する
+ *
+ * 全角・半角、大文字小文字、空白・記号の違いを無視する
+ *
+ * @param title - 記事タイトル
+ * @returns 正規化したタイトル
+ */
+export function normalizeArticleTitle(title: string): string {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, '');
+}
+
+/**
+ * 複数ソースの記事をマージし、重複を除外する
+ *
+ * 先に渡された記事を優先して残す(ソースの登録順が優先順位になる)。
+ * URLもタイトルもない記事は要約・出典に使えないため除外する。
+ *
+ * @param articles - マージ対象の記事(優先順)
+ * @param maxArticles - 最大記事数(省略時は無制限)
+ * @returns 重複を除いた記事配列
+ */
+export function mergeArticles(
+  articles: FetchedNewsArticle[],
+  maxArticles?: number
+): FetchedNewsArticle[] {
+  const seenUrls = new Set<string>();
+  const seenTitles = new Set<string>();
+  const merged: FetchedNewsArticle[] = [];
+
+  for (const article of articles) {
+    const urlKey = article.url ? normalizeArticleUrl(article.url) : '';
+    const titleKey = normalizeArticleTitle(article.title);
+
+    if (!urlKey && !titleKey) {
+      continue;
+    }
+    if ((urlKey && seenUrls.has(urlKey)) || (titleKey && seenTitles.has(titleKey))) {
+      continue;
+    }
+
+    if (urlKey) {
+      seenUrls.add(urlKey);
+    }
+    if (titleKey) {
+      seenTitles.add(titleKey);
+    }
+    merged.push(article);
+
+    if (maxArticles !== undefined && merged.length >= maxArticles) {
+      break;
+    }
+  }
+
+  return merged;
+}
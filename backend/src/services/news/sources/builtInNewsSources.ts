@@ -0,0 +1,92 @@
+/**
+ * 組み込みニュースソース
+ *
+ * 既存のWorldNewsFetcher(NewsAPI)とJapanNewsFetcher(Google News RSS)を
+ * NewsSourceインターフェースに適合させます。
+ *
+ * Requirements:
+ * - 1.2 (businessカテゴリで世界ニュース取得)
+ * - 1.3 (Google News RSSから日本ニュース取得)
+ */
+
+import type { WorldNewsFetcher, JapanNewsFetcher } from '../fetchers';
+import type { FetchedNewsArticle, NewsSource } from './newsSourceTypes';
+import { toISOStringOrNull } from './articleMerger';
+
+/**
+ * NewsAPIから取得する記事数
+ */
+const NEWS_API_PAGE_SIZE = 10;
+
+/**
+ * NewsAPIソース
+ *
+ * businessカテゴリのトップヘッドラインを世界ニュースとして取得する
+ */
+export class NewsApiNewsSource implements NewsSource {
+  readonly id = 'newsapi';
+  readonly name = 'NewsAPI';
+  readonly region = 'world' as const;
+  private readonly fetcher: WorldNewsFetcher;
+
+  /**
+   * コンストラクタ
+   *
+   * @param fetcher - 世界ニュース取得サービス
+   */
+  constructor(fetcher: WorldNewsFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  async fetchArticles(): Promise<FetchedNewsArticle[]> {
+    const response = await this.fetcher.fetchTopHeadlines({
+      category: 'business',
+      pageSize: NEWS_API_PAGE_SIZE,
+    });
+
+    return response.articles.map((article) => ({
+      title: article.title,
+      description: article.description || '',
+      content: article.content || '',
+      outlet: article.source.name,
+      url: article.url,
+      publishedAt: toISOStringOrNull(article.publishedAt),
+      sourceId: this.id,
+    }));
+  }
+}
+
+/**
+ * Google News RSSソース
+ *
+ * 日本のビジネスニュースを取得する
+ */
+export class GoogleNewsRssNewsSource implements NewsSource {
+  readonly id = 'google-news';
+  readonly name = 'Google News';
+  readonly region = 'japan' as const;
+  private readonly fetcher: JapanNewsFetcher;
+
+  /**
+   * コンストラクタ
+   *
+   * @param fetcher - 日本ニュース取得サービス
+   */
+  constructor(fetcher: JapanNewsFetcher) {
+    this.fetcher = fetcher;
+  }
+
+  async fetchArticles(): Promise<FetchedNewsArticle[]> {
+    const feed = await this.fetcher.fetchJapanNews();
+
+    return feed.items.map((item) => ({
+      title: item.title,
+      description: item.description || '',
+      content: '', // RSSには本文がない
+      outlet: item.source || this.name,
+      url: item.link,
+      publishedAt: toISOStringOrNull(item.publishedAt),
+      sourceId: this.id,
+    }));
+  }
+}
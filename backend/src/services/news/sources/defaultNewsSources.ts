@@ -0,0 +1,79 @@
+/**
+ * デフォルトのニュースソース定義
+ *
+ * NewsAPI・Google News RSS(組み込みソース)に加えて取得する
+ * RSSフィードを地域別に定義します。
+ * 各メディアは公式RSSを提供していない・提供を終了している場合があるため、
+ * Google News RSSのサイト指定検索で配信記事を取得します。
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import type { RssFeedSourceDefinition } from './rssFeedSource';
+
+/**
+ * Google News RSSのサイト指定検索URLを作成する
+ *
+ * @param query - 検索クエリ(site:指定を含む)
+ * @param locale - 言語・地域('ja'は日本語/日本、'en'は英語/米国)
+ * @returns RSSフィードURL
+ */
+function buildGoogleNewsSearchUrl(query: string, locale: 'ja' | 'en'): string {
+  const params =
+    locale === 'ja' ? 'hl=ja&gl=JP&ceid=JP:ja' : 'hl=en-US&gl=US&ceid=US:en';
+  return `https://news.google.com/rss/search?q=${encodeURIComponent(query)}&${params}`;
+}
+
+/**
+ * デフォルトの追加RSSフィード定義
+ */
+export const DEFAULT_RSS_FEED_DEFINITIONS: RssFeedSourceDefinition[] = [
+  {
+    id: 'reuters',
+    name: 'Reuters',
+    region: 'world',
+    feedUrl: buildGoogleNewsSearchUrl('site:reuters.com business markets', 'en'),
+  },
+  {
+    id: 'nikkei',
+    name: '日本経済新聞',
+    region: 'japan',
+    feedUrl: buildGoogleNewsSearchUrl('site:nikkei.com 経済', 'ja'),
+  },
+  {
+    id: 'bloomberg-jp',
+    name: 'Bloomberg',
+    region: 'japan',
+    feedUrl: buildGoogleNewsSearchUrl('site:bloomberg.co.jp', 'ja'),
+  },
+  {
+    id: 'kabutan',
+    name: '株探',
+    region: 'japan',
+    feedUrl: buildGoogleNewsSearchUrl('site:kabutan.jp', 'ja'),
+  },
+];
+
+/**
+ * 有効な追加RSSフィード定義を取得する
+ *
+ * NEWS_RSS_SOURCES環境変数でソースIDをカンマ区切りで指定できる。
+ * - 未設定: 全てのデフォルト定義を使用
+ * - 'none': 追加フィードを使用しない
+ *
+ * @param enabledIds - 有効にするソースID(カンマ区切り)
+ * @returns 有効なフィード定義
+ */
+export function getEnabledRssFeedDefinitions(
+  enabledIds: string | undefined = process.env.NEWS_RSS_SOURCES
+): RssFeedSourceDefinition[] {
+  if (enabledIds === undefined || enabledIds.trim() === '') {
+    return DEFAULT_RSS_FEED_DEFINITIONS;
+  }
+  if (enabledIds.trim() === 'none') {
+    return [];
+  }
+
+  const ids = new Set(enabledIds.split(',').map((id) => id.trim()));
+  return DEFAULT_RSS_FEED_DEFINITIONS.filter((definition) => ids.has(definition.id));
+}
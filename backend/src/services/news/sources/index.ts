@@ -0,0 +1,38 @@
+/**
+ * ニュースソースモジュール
+ *
+ * ニュースバッチ処理で取得するソースを地域別に登録・管理する機能を提供します。
+ *
+ * - NewsSourceRegistry: ソースの登録・地域別取得
+ * - 組み込みソース: NewsAPI, Google News RSS
+ * - 追加ソース: 任意のRSSフィード, JSON API
+ * - 記事マージ: 複数ソースの記事の重複除外
+ * - 記事クラスタリング: ほぼ同一の記事を話題ごとにまとめる
+ */
+
+export { NewsSourceRegistry, NewsSourceRegistryError } from './newsSourceRegistry';
+export { NewsApiNewsSource, GoogleNewsRssNewsSource } from './builtInNewsSources';
+export { RssFeedSource, createRssFeedSources } from './rssFeedSource';
+export { JsonApiSource, JsonApiSourceError } from './jsonApiSource';
+export {
+  mergeArticles,
+  normalizeArticleUrl,
+  normalizeArticleTitle,
+  toISOStringOrNull,
+} from './articleMerger';
+export {
+  clusterArticles,
+  canonicalizeArticleUrl,
+  createShingles,
+  jaccardSimilarity,
+  DEFAULT_ARTICLE_CLUSTERING_OPTIONS,
+} from './articleClusterer';
+export {
+  DEFAULT_RSS_FEED_DEFINITIONS,
+  getEnabledRssFeedDefinitions,
+} from './defaultNewsSources';
+
+export type { NewsSource, FetchedNewsArticle } from './newsSourceTypes';
+export type { RssFeedSourceDefinition } from './rssFeedSource';
+export type { JsonApiSourceDefinition, JsonApiArticle } from './jsonApiSource';
+export type { ArticleClusteringOptions, NewsStoryCluster } from './articleClusterer';
@@ -0,0 +1,179 @@
+/**
+ * JSON APIニュースソース
+ *
+ * JSONでニュース一覧を返すAPIをニュースソースとして扱います。
+ * レスポンス形式はAPIごとに異なるため、変換関数を定義で指定します。
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import type { NewsRegion } from '../../../models/supabase.types';
+import type { FetchedNewsArticle, NewsSource } from './newsSourceTypes';
+import { toISOStringOrNull } from './articleMerger';
+
+/**
+ * デフォルトのタイムアウト時間(ミリ秒)
+ */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * デフォルトの最大取得記事数
+ */
+const DEFAULT_MAX_ITEMS = 10;
+
+/**
+ * JSON APIのレスポンスから抽出する記事
+ *
+ * 配信元が省略された場合はソースの表示名を使用する
+ */
+export interface JsonApiArticle {
+  title: string;
+  url: string;
+  description?: string | null;
+  content?: string | null;
+  outlet?: string | null;
+  publishedAt?: string | null;
+}
+
+/**
+ * JSON APIソースの定義
+ */
+export interface JsonApiSourceDefinition {
+  /** ソースID(レジストリ内で一意) */
+  id: string;
+  /** 表示名 */
+  name: string;
+  /** 地域区分 */
+  region: NewsRegion;
+  /** APIのURL */
+  url: string;
+  /** リクエストヘッダー(APIキーなど) */
+  headers?: Record<string, string>;
+  /**
+   * タイムアウト時間(ミリ秒)
+   * @default 30000
+   */
+  timeoutMs?: number;
+  /**
+   * 最大取得記事数
+   * @default 10
+   */
+  maxItems?: number;
+  /**
+   * レスポンスJSONを記事配列に変換する関数
+   *
+   * @param body - パース済みのレスポンスJSON
+   * @returns 記事配列
+   */
+  mapResponse: (body: unknown) => JsonApiArticle[];
+}
+
+/**
+ * JSON APIソースエラー
+ *
+ * HTTPエラー・タイムアウト・レスポンス変換失敗時にスローされる
+ */
+export class JsonApiSourceError extends Error {
+  /**
+   * HTTPステータスコード(HTTPエラー以外の場合はundefined)
+   */
+  public readonly statusCode?: number;
+
+  constructor(message: string, statusCode?: number) {
+    super(message);
+    this.name = 'JsonApiSourceError';
+    this.statusCode = statusCode;
+    Object.setPrototypeOf(this, JsonApiSourceError.prototype);
+  }
+}
+
+/**
+ * JSON APIソースクラス
+ *
+ * @example
+ * const source = new JsonApiSource({
+ *   id: 'example-api',
+ *   name: 'Example News',
+ *   region: 'world',
+ *   url: 'https://api.example.com/news',
+ *   mapResponse: (body) => (body as { items: JsonApiArticle[] }).items,
+ * });
+ */
+export class JsonApiSource implements NewsSource {
+  readonly id: string;
+  readonly name: string;
+  readonly region: NewsRegion;
+  private readonly definition: JsonApiSourceDefinition;
+
+  /**
+   * コンストラクタ
+   *
+   * @param definition - APIの定義
+   */
+  constructor(definition: JsonApiSourceDefinition) {
+    this.id = definition.id;
+    this.name = definition.name;
+    this.region = definition.region;
+    this.definition = definition;
+  }
+
+  /**
+   * @throws {JsonApiSourceError} HTTPエラー・タイムアウト・変換失敗時
+   */
+  async fetchArticles(): Promise<FetchedNewsArticle[]> {
+    const timeoutMs = this.definition.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+    let body: unknown;
+    try {
+      const response = await fetch(this.definition.url, {
+        method: 'GET',
+        headers: this.definition.headers,
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new JsonApiSourceError(
+          `${this.name} responded with status ${response.status}`,
+          response.status
+        );
+      }
+
+      body = await response.json();
+    } catch (error) {
+      if (error instanceof JsonApiSourceError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new JsonApiSourceError(`${this.name} request timed out after ${timeoutMs}ms`);
+      }
+      throw new JsonApiSourceError(
+        error instanceof Error ? error.message : `${this.name} request failed`
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    let articles: JsonApiArticle[];
+    try {
+      articles = this.definition.mapResponse(body);
+    } catch (error) {
+      throw new JsonApiSourceError(
+        `${this.name} response could not be mapped: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+
+    return articles.slice(0, this.definition.maxItems ?? DEFAULT_MAX_ITEMS).map((article) => ({
+      title: article.title,
+      description: article.description || '',
+      content: article.content || '',
+      outlet: article.outlet || this.name,
+      url: article.url,
+      publishedAt: toISOStringOrNull(article.publishedAt),
+      sourceId: this.id,
+    }));
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * ニュースソースレジストリ
+ *
+ * バッチ処理で取得するニュースソースを地域別に管理します。
+ * 登録順が記事のマージ順(重複時に優先される順序)になります。
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import type { NewsRegion } from '../../../models/supabase.types';
+import type { NewsSource } from './newsSourceTypes';
+
+/**
+ * ニュースソース登録エラー
+ *
+ * 同じIDのソースを重複して登録しようとした場合にスローされる
+ */
+export class NewsSourceRegistryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NewsSourceRegistryError';
+    Object.setPrototypeOf(this, NewsSourceRegistryError.prototype);
+  }
+}
+
+/**
+ * ニュースソースレジストリクラス
+ *
+ * @example
+ * const registry = new NewsSourceRegistry([newsApiSource, googleNewsSource]);
+ * registry.register(kabutanSource);
+ * const japanSources = registry.getSources('japan');
+ */
+export class NewsSourceRegistry {
+  private readonly sources = new Map<string, NewsSource>();
+
+  /**
+   * コンストラクタ
+   *
+   * @param sources - 初期登録するニュースソース
+   * @throws {NewsSourceRegistryError} ソースIDが重複している場合
+   */
+  constructor(sources: NewsSource[] = []) {
+    sources.forEach((source) => this.register(source));
+  }
+
+  /**
+   * ニュースソースを登録する
+   *
+   * @param source - 登録するニュースソース
+   * @throws {NewsSourceRegistryError} 同じIDのソースが登録済みの場合
+   */
+  register(source: NewsSource): void {
+    if (this.sources.has(source.id)) {
+      throw new NewsSourceRegistryError(`News source already registered: ${source.id}`);
+    }
+    this.sources.set(source.id, source);
+  }
+
+  /**
+   * ニュースソースの登録を解除する
+   *
+   * @param id - ソースID
+   * @returns 登録解除したかどうか(未登録の場合はfalse)
+   */
+  unregister(id: string): boolean {
+    return this.sources.delete(id);
+  }
+
+  /**
+   * ニュースソースが登録済みかどうか
+   *
+   * @param id - ソースID
+   * @returns 登録済みの場合true
+   */
+  has(id: string): boolean {
+    return this.sources.has(id);
+  }
+
+  /**
+   * 登録済みのニュースソースを取得する
+   *
+   * @param region - 地域区分(省略時は全地域)
+   * @returns 登録順のニュースソース配列
+   */
+  getSources(region?: NewsRegion): NewsSource[] {
+    const sources = Array.from(this.sources.values());
+    return region ? sources.filter((source) => source.region === region) : sources;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * ニュースソース型定義
+ *
+ * NewsAPI・Google News RSS以外のRSSフィードやJSON APIを
+ * 同じインターフェースで扱うための型を定義します。
+ *
+ * Requirements:
+ * - 1.2 (世界ニュース取得)
+ * - 1.3 (日本ニュース取得)
+ * - 複数ニュースソースの地域別設定・並列取得
+ */
+
+import type { NewsRegion } from '../../../models/supabase.types';
+
+/**
+ * ニュースソースから取得した記事
+ *
+ * 取得元の形式(NewsAPI / RSS / JSON API)によらず共通の形に正規化したもの
+ */
+export interface FetchedNewsArticle {
+  /** 記事タイトル */
+  title: string;
+  /** 記事の簡易説明(ない場合は空文字) */
+  description: string;
+  /** 記事本文(ない場合は空文字) */
+  content: string;
+  /** 配信元メディア名 */
+  outlet: string;
+  /** 記事のURL */
+  url: string;
+  /** 公開日時(ISO 8601形式、不明な場合はnull) */
+  publishedAt: string | null;
+  /** 取得したニュースソースのID */
+  sourceId: string;
+}
+
+/**
+ * ニュースソース
+ *
+ * 地域ごとに複数登録でき、バッチ処理で並列に取得される
+ *
+ * @example
+ * const source: NewsSource = {
+ *   id: 'kabutan',
+ *   name: '株探',
+ *   region: 'japan',
+ *   fetchArticles: async () => [...],
+ * };
+ */
+export interface NewsSource {
+  /** ソースID(レジストリ内で一意) */
+  readonly id: string;
+  /** 表示名(エラー報告・出典のフォールバックに使用) */
+  readonly name: string;
+  /** 取得した記事をどちらの要約に使うか */
+  readonly region: NewsRegion;
+  /**
+   * 記事を取得する
+   *
+   * @returns 取得した記事(失敗時は例外をスロー)
+   */
+  fetchArticles(): Promise<FetchedNewsArticle[]>;
+}
@@ -0,0 +1,101 @@
+/**
+ * RSSフィードニュースソース
+ *
+ * 任意のRSSフィード(日経・ロイター・Bloomberg・株探など)を
+ * ニュースソースとして扱います。
+ *
+ * Requirements: 複数ニュースソースの地域別設定・並列取得
+ */
+
+import type { NewsRegion } from '../../../models/supabase.types';
+import type { RssParser } from '../fetchers';
+import type { FetchedNewsArticle, NewsSource } from './newsSourceTypes';
+import { toISOStringOrNull } from './articleMerger';
+
+/**
+ * デフォルトの最大取得記事数
+ */
+const DEFAULT_MAX_ITEMS = 10;
+
+/**
+ * RSSフィードソースの定義
+ */
+export interface RssFeedSourceDefinition {
+  /** ソースID(レジストリ内で一意) */
+  id: string;
+  /** 表示名(記事に配信元がない場合の出典名にも使用) */
+  name: string;
+  /** 地域区分 */
+  region: NewsRegion;
+  /** RSSフィードのURL */
+  feedUrl: string;
+  /**
+   * 最大取得記事数
+   * @default 10
+   */
+  maxItems?: number;
+}
+
+/**
+ * RSSフィードソースクラス
+ *
+ * @example
+ * const source = new RssFeedSource(new RssParser(), {
+ *   id: 'kabutan',
+ *   name: '株探',
+ *   region: 'japan',
+ *   feedUrl: 'https://example.com/rss',
+ * });
+ * const articles = await source.fetchArticles();
+ */
+export class RssFeedSource implements NewsSource {
+  readonly id: string;
+  readonly name: string;
+  readonly region: NewsRegion;
+  private readonly parser: RssParser;
+  private readonly feedUrl: string;
+  private readonly maxItems: number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param parser - RSSパーサーインスタンス
+   * @param definition - フィード定義
+   */
+  constructor(parser: RssParser, definition: RssFeedSourceDefinition) {
+    this.parser = parser;
+    this.id = definition.id;
+    this.name = definition.name;
+    this.region = definition.region;
+    this.feedUrl = definition.feedUrl;
+    this.maxItems = definition.maxItems ?? DEFAULT_MAX_ITEMS;
+  }
+
+  async fetchArticles(): Promise<FetchedNewsArticle[]> {
+    const feed = await this.parser.parseURL(this.feedUrl);
+
+    return feed.items.slice(0, this.maxItems).map((item) => ({
+      title: item.title,
+      description: item.description || '',
+      content: '', // RSSには本文がない
+      outlet: item.source || this.name,
+      url: item.link,
+      publishedAt: toISOStringOrNull(item.publishedAt),
+      sourceId: this.id,
+    }));
+  }
+}
+
+/**
+ * フィード定義からRSSフィードソースを一括作成する
+ *
+ * @param parser - RSSパーサーインスタンス(全ソースで共有)
+ * @param definitions - フィード定義の配列
+ * @returns RSSフィードソースの配列
+ */
+export function createRssFeedSources(
+  parser: RssParser,
+  definitions: RssFeedSourceDefinition[]
+): RssFeedSource[] {
+  return definitions.map((definition) => new RssFeedSource(parser, definition));
+}
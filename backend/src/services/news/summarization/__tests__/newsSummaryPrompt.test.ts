@@ -9,7 +9,9 @@ import {
   NewsArticle,
   buildEnglishNewsSummaryPrompt,
   buildJapaneseNewsSummaryPrompt,
+  buildCategoryNewsSummaryPrompt,
   SUMMARY_CONFIG,
+  CATEGORY_SUMMARY_CONFIG,
 } from '../newsSummaryPrompt';
 
 describe('ニュース要約プロンプト', () => {
@@ -129,6 +131,17 @@ describe('ニュース要約プロンプト', () => {
       expect(prompt).toContain('Minimal Article');
     });
 
+    it('複数媒体が報じた記事には報道数が含まれる', () => {
+      const prompt = buildEnglishNewsSummaryPrompt([
+        { ...sampleArticles[0], coverageCount: 3 },
+        { ...sampleArticles[1], coverageCount: 1 },
+      ]);
+
+      expect(prompt).toContain('報道数: 3社が報道');
+      expect(prompt).not.toContain('報道数: 1社が報道');
+      expect(prompt).toContain('報道数が多い記事ほど');
+    });
+
     it('投資・金融関連の要点抽出指示が含まれる', () => {
       const prompt = buildEnglishNewsSummaryPrompt(sampleArticles);
 
@@ -204,4 +217,36 @@ describe('ニュース要約プロンプト', () => {
       expect(prompt).toMatch(/投資|金融|経済|市場/);
     });
   });
+
+  describe('buildCategoryNewsSummaryPrompt', () => {
+    const articles: NewsArticle[] = [
+      {
+        title: 'Dollar strengthens against yen',
+        source: 'Reuters',
+        publishedAt: '2026-01-02T10:00:00Z',
+        coverageCount: 2,
+      },
+      {
+        title: '円安が進行',
+        source: '日本経済新聞',
+        publishedAt: '2026-01-02T09:00:00Z',
+      },
+    ];
+
+    it('カテゴリ名と記事が含まれる', () => {
+      const prompt = buildCategoryNewsSummaryPrompt('為替', articles);
+
+      expect(prompt).toContain('「為替」に関するニュース記事');
+      expect(prompt).toContain('Dollar strengthens against yen');
+      expect(prompt).toContain('円安が進行');
+      expect(prompt).toContain('報道数: 2社が報道');
+    });
+
+    it('カテゴリ別要約の文字数と翻訳の指示が含まれる', () => {
+      const prompt = buildCategoryNewsSummaryPrompt('為替', articles);
+
+      expect(prompt).toContain(`約${CATEGORY_SUMMARY_CONFIG.targetCharacters}文字`);
+      expect(prompt).toContain('英語の記事は日本語に翻訳');
+    });
+  });
 });
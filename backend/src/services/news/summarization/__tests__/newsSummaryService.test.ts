@@ -9,9 +9,13 @@ import {
   NewsSummaryService,
   NewsSummaryServiceConfig,
   NewsSummaryError,
+  SummaryQualityError,
 } from '../newsSummaryService';
 import { NewsArticle } from '../newsSummaryPrompt';
+import { SUMMARY_OUTPUT_TOOL } from '../summaryResponseParser';
 import { ClaudeClient, ClaudeResponse } from '../../../claudeClient';
+import { AIServiceStreamTimeoutError } from '../../../aiServiceErrorHandler';
+import { PromptRegistry } from '../../../prompts';
 
 // ClaudeClientのモック
 jest.mock('../../../claudeClient', () => ({
@@ -47,8 +51,8 @@ describe('ニュース要約サービス', () => {
     },
   ];
 
-  // 有効な要約(2000文字)
-  const validSummary = 'あ'.repeat(2000);
+  // 有効な要約(2000文字、文末まで書き切ったもの)
+  const validSummary = 'あ'.repeat(1999) + '。';
 
   const createMockResponse = (content: string): ClaudeResponse => ({
     content,
@@ -65,6 +69,7 @@ describe('ニュース要約サービス', () => {
 
     mockClient = {
       sendMessage: jest.fn().mockResolvedValue(createMockResponse(validSummary)),
+      confirmResponse: jest.fn().mockResolvedValue(undefined),
       getDefaultModel: jest.fn().mockReturnValue('claude-haiku-4-5'),
       isInitialized: jest.fn().mockReturnValue(true),
       getInternalClient: jest.fn(),
@@ -80,6 +85,8 @@ describe('ニュース要約サービス', () => {
 
       expect(config.maxRetries).toBe(3);
       expect(config.logErrors).toBe(true);
+      expect(config.maxRegenerations).toBe(2);
+      expect(config.bypassCache).toBe(false);
     });
 
     it('カスタム設定でサービスを初期化できる', () => {
@@ -105,6 +112,22 @@ describe('ニュース要約サービス', () => {
       expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
     });
 
+    it('構造化出力のツールを指定し、ツールの入力の要約文を使用する', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce({
+        ...createMockResponse(''),
+        stopReason: 'tool_use',
+        toolInput: { summary: validSummary },
+      });
+
+      const result = await service.summarizeEnglishNews(sampleEnglishArticles);
+
+      expect(result.summary).toBe(validSummary);
+      expect(mockClient.sendMessage).toHaveBeenCalledWith(expect.any(String), {
+        operation: 'english-news-summary',
+        tool: SUMMARY_OUTPUT_TOOL,
+      });
+    });
+
     it('送信されたプロンプトに翻訳指示が含まれる', async () => {
       await service.summarizeEnglishNews(sampleEnglishArticles);
 
@@ -138,6 +161,24 @@ describe('ニュース要約サービス', () => {
     });
   });
 
+  describe('summarizeCategoryNews', () => {
+    it('カテゴリ別の短い要約を生成し、短い要約の文字数範囲で検証する', async () => {
+      mockClient.sendMessage.mockResolvedValueOnce(createMockResponse('い'.repeat(399) + '。'));
+
+      const result = await service.summarizeCategoryNews('市況', [
+        ...sampleEnglishArticles,
+        ...sampleJapaneseArticles,
+      ]);
+
+      expect(result.characterCount).toBe(400);
+      expect(result.isValid).toBe(true);
+      expect(mockClient.sendMessage).toHaveBeenCalledWith(
+        expect.stringContaining('「市況」に関するニュース記事'),
+        { operation: 'category-news-summary', tool: SUMMARY_OUTPUT_TOOL }
+      );
+    });
+  });
+
   describe('リトライ処理', () => {
     it('失敗時にリトライする', async () => {
       mockClient.sendMessage
@@ -174,7 +215,7 @@ describe('ニュース要約サービス', () => {
 
   describe('文字数検証とリトライ', () => {
     it('文字数が短すぎる場合は警告付きで返す(リトライしない)', async () => {
-      const shortSummary = 'あ'.repeat(1500);
+      const shortSummary = 'あ'.repeat(1499) + '。';
       mockClient.sendMessage.mockResolvedValue(createMockResponse(shortSummary));
 
       const result = await service.summarizeEnglishNews(sampleEnglishArticles);
@@ -187,7 +228,7 @@ describe('ニュース要約サービス', () => {
     });
 
     it('文字数が長すぎる場合は警告付きで返す(リトライしない)', async () => {
-      const longSummary = 'あ'.repeat(2500);
+      const longSummary = 'あ'.repeat(2499) + '。';
       mockClient.sendMessage.mockResolvedValue(createMockResponse(longSummary));
 
       const result = await service.summarizeEnglishNews(sampleEnglishArticles);
@@ -198,6 +239,157 @@ describe('ニュース要約サービス', () => {
     });
   });
 
+  describe('品質ゲートと再生成', () => {
+    it('品質の問題がある場合は問題点をプロンプトに追記して再生成する', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce(createMockResponse('あ'.repeat(1990) + 'この株は買うべき'))
+        .mockResolvedValueOnce(createMockResponse(validSummary));
+
+      const result = await service.summarizeEnglishNews(sampleEnglishArticles);
+
+      expect(result.summary).toBe(validSummary);
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+      const retryPrompt = mockClient.sendMessage.mock.calls[1][0];
+      expect(retryPrompt).toContain(mockClient.sendMessage.mock.calls[0][0]);
+      expect(retryPrompt).toContain('## 前回の要約の問題点');
+      expect(retryPrompt).toContain('「買うべき」');
+      expect(retryPrompt).toContain('途中で途切れています');
+    });
+
+    it('品質ゲートを通過したレスポンスのみキャッシュへの保存を確定し、再生成ではキャッシュを参照しない', async () => {
+      const rejected = createMockResponse('あ'.repeat(1990) + 'この株は買うべき');
+      const accepted = createMockResponse(validSummary);
+      mockClient.sendMessage.mockResolvedValueOnce(rejected).mockResolvedValueOnce(accepted);
+
+      await service.summarizeEnglishNews(sampleEnglishArticles);
+
+      expect(mockClient.sendMessage.mock.calls[0][1]).not.toHaveProperty('bypassCache');
+      expect(mockClient.sendMessage.mock.calls[1][1]).toMatchObject({ bypassCache: true });
+      expect(mockClient.confirmResponse).toHaveBeenCalledTimes(1);
+      expect(mockClient.confirmResponse).toHaveBeenCalledWith(accepted);
+    });
+
+    it('bypassCacheを指定した場合は初回の生成からキャッシュを参照しない', async () => {
+      const customService = new NewsSummaryService(mockClient, { bypassCache: true });
+
+      await customService.summarizeJapaneseNews(sampleJapaneseArticles);
+
+      expect(mockClient.sendMessage.mock.calls[0][1]).toMatchObject({ bypassCache: true });
+    });
+
+    it('生成が途中で打ち切られた場合は再生成する', async () => {
+      mockClient.sendMessage
+        .mockResolvedValueOnce({ ...createMockResponse(validSummary), stopReason: 'max_tokens' })
+        .mockResolvedValueOnce(createMockResponse(validSummary));
+
+      await service.summarizeJapaneseNews(sampleJapaneseArticles);
+
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('最大再生成回数まで品質ゲートを通過しない場合はSummaryQualityErrorをスローする', async () => {
+      const customService = new NewsSummaryService(mockClient, {
+        maxRegenerations: 1,
+        logErrors: false,
+      });
+      mockClient.sendMessage.mockResolvedValue(
+        createMockResponse('あ'.repeat(1990) + '前年比35.2%増。')
+      );
+
+      const error = await customService
+        .summarizeEnglishNews(sampleEnglishArticles)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SummaryQualityError);
+      expect(error).toBeInstanceOf(NewsSummaryError);
+      expect((error as SummaryQualityError).attempts).toBe(2);
+      expect((error as SummaryQualityError).issues).toEqual([
+        expect.objectContaining({ type: 'unsupported-number' }),
+      ]);
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+      expect(mockClient.confirmResponse).not.toHaveBeenCalled();
+    });
+
+    it('検証項目を指定できる', async () => {
+      const customService = new NewsSummaryService(mockClient, { qualityChecks: [] });
+      mockClient.sendMessage.mockResolvedValue(createMockResponse('あ'.repeat(2000)));
+
+      const result = await customService.summarizeEnglishNews(sampleEnglishArticles);
+
+      expect(result.summary).toBe('あ'.repeat(2000));
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('要約全体の期限', () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('期限を過ぎた場合はリトライせずにNewsSummaryErrorをスローする', async () => {
+      const customService = new NewsSummaryService(mockClient, { logErrors: false });
+      const deadline = Date.now() + 1000;
+      mockClient.sendMessage.mockImplementation(async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(deadline);
+        throw new Error('Stream timed out');
+      });
+
+      const error = await customService
+        .summarizeEnglishNews(sampleEnglishArticles, { deadline })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NewsSummaryError);
+      expect((error as NewsSummaryError).attempts).toBe(1);
+      expect((error as NewsSummaryError).message).toContain('Stream timed out');
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('期限を過ぎた場合は品質ゲートによる再生成をせずにSummaryQualityErrorをスローする', async () => {
+      const customService = new NewsSummaryService(mockClient, { logErrors: false });
+      const deadline = Date.now() + 1000;
+      mockClient.sendMessage.mockImplementation(async () => {
+        jest.spyOn(Date, 'now').mockReturnValue(deadline);
+        return createMockResponse('あ'.repeat(1990) + 'この株は買うべき');
+      });
+
+      const error = await customService
+        .summarizeJapaneseNews(sampleJapaneseArticles, { deadline })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SummaryQualityError);
+      expect((error as SummaryQualityError).attempts).toBe(1);
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
+    });
+
+    it('ストリーミングの全体タイムアウトを期限までの残り時間に短縮する', async () => {
+      const customService = new NewsSummaryService(mockClient, { stream: {} });
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+      await customService.summarizeCategoryNews('為替', sampleJapaneseArticles, {
+        deadline: 1_000_000 + 60000,
+      });
+
+      expect(mockClient.sendMessage.mock.calls[0][1]).toMatchObject({
+        stream: { totalTimeoutMs: 60000 },
+      });
+    });
+
+    it('残り時間が十分な場合はストリーミングの全体タイムアウトを変更しない', async () => {
+      const customService = new NewsSummaryService(mockClient, {
+        stream: { totalTimeoutMs: 120000 },
+      });
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+
+      await customService.summarizeEnglishNews(sampleEnglishArticles, {
+        deadline: 1_000_000 + 250000,
+      });
+
+      expect(mockClient.sendMessage.mock.calls[0][1]).toMatchObject({
+        stream: { totalTimeoutMs: 120000 },
+      });
+    });
+  });
+
   describe('NewsSummaryError', () => {
     it('エラー情報を保持する', async () => {
       const error = new Error('Test error');
@@ -227,6 +419,106 @@ describe('ニュース要約サービス', () => {
     });
   });
 
+  describe('プロンプトのバージョン', () => {
+    it('デフォルトではv1のプロンプトを使用し、結果にバージョンを含める', async () => {
+      const result = await service.summarizeEnglishNews(sampleEnglishArticles);
+
+      expect(result.promptVersion).toBe('v1');
+    });
+
+    it('選択したバージョンのテンプレートでプロンプトを作成し、実行中は同じバージョンを使用する', async () => {
+      const random = jest.fn().mockReturnValueOnce(0.9).mockReturnValue(0);
+      const promptRegistry = new PromptRegistry(
+        [
+          { name: 'japanese-news-summary', version: 'v1', template: 'v1: {{articles}}' },
+          { name: 'japanese-news-summary', version: 'v2', template: 'v2: {{articles}}' },
+        ],
+        { random }
+      );
+      const abService = new NewsSummaryService(mockClient, { promptRegistry });
+
+      const first = await abService.summarizeJapaneseNews(sampleJapaneseArticles);
+      const second = await abService.summarizeJapaneseNews(sampleJapaneseArticles);
+
+      expect(first.promptVersion).toBe('v2');
+      expect(second.promptVersion).toBe('v2');
+      expect(random).toHaveBeenCalledTimes(1);
+      expect(mockClient.sendMessage.mock.calls[0][0]).toMatch(/^v2: 【記事 1】/);
+    });
+  });
+
+  describe('ストリーミング', () => {
+    it('streamを指定した場合はストリーミングのタイムアウトを付けて送信する', async () => {
+      const streamingService = new NewsSummaryService(mockClient, {
+        stream: { idleTimeoutMs: 20000 },
+      });
+
+      await streamingService.summarizeJapaneseNews(sampleJapaneseArticles);
+
+      expect(mockClient.sendMessage).toHaveBeenCalledWith(expect.any(String), {
+        operation: 'japanese-news-summary',
+        tool: SUMMARY_OUTPUT_TOOL,
+        stream: { idleTimeoutMs: 20000 },
+      });
+    });
+
+    it('ストリーミングがタイムアウトした場合はリトライする', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      mockClient.sendMessage
+        .mockRejectedValueOnce(
+          new AIServiceStreamTimeoutError(
+            'Stream timed out: no events for 20000ms (800 characters received)',
+            20000,
+            'idle',
+            'あ'.repeat(800)
+          )
+        )
+        .mockResolvedValueOnce(createMockResponse(validSummary));
+      const streamingService = new NewsSummaryService(mockClient, { stream: {} });
+
+      const result = await streamingService.summarizeEnglishNews(sampleEnglishArticles);
+
+      expect(result.summary).toBe(validSummary);
+      expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+      expect(errorSpy).toHaveBeenCalledWith(
+        '[NewsSummaryService] english-news-summary failed (attempt 1/4):',
+        'Stream timed out: no events for 20000ms (800 characters received)'
+      );
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('prepare*Request / toSummaryResult', () => {
+    it('構造化出力のツールを指定したリクエストを作成する', () => {
+      const english = service.prepareEnglishNewsSummaryRequest(sampleEnglishArticles);
+      const category = service.prepareCategoryNewsSummaryRequest('為替', sampleJapaneseArticles);
+
+      expect(english.options).toEqual({
+        operation: 'english-news-summary',
+        tool: SUMMARY_OUTPUT_TOOL,
+      });
+      expect(english.promptVersion).toBe('v1');
+      expect(category.options.operation).toBe('category-news-summary');
+      expect(category.prompt).toContain('為替');
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('操作名に応じた文字数でレスポンスを検証する', () => {
+      const response = {
+        ...createMockResponse(''),
+        toolInput: { summary: 'い'.repeat(399) + '。' },
+      };
+
+      const category = service.toSummaryResult(response, 'category-news-summary', 'v1');
+      const japanese = service.toSummaryResult(response, 'japanese-news-summary', 'v2');
+
+      expect(category.summary).toBe('い'.repeat(399) + '。');
+      expect(category.isValid).toBe(true);
+      expect(japanese.isValid).toBe(false);
+      expect(japanese.promptVersion).toBe('v2');
+    });
+  });
+
   describe('SummaryResult型', () => {
     it('結果の基本構造を持つ', async () => {
       const result = await service.summarizeEnglishNews(sampleEnglishArticles);
@@ -0,0 +1,173 @@
+/**
+ * ニュース要約の品質ゲートのテスト
+ *
+ * Requirements: 要約の品質ゲート(生成後の検証と再生成)
+ */
+
+import {
+  buildSummaryQualityFeedback,
+  checkEnglishLeakage,
+  checkInvestmentAdvice,
+  checkNumbersInSources,
+  checkProperNounsInSources,
+  checkTruncatedEnding,
+  validateSummaryQuality,
+} from '../summaryQualityGate';
+import { NewsArticle } from '../newsSummaryPrompt';
+
+describe('summaryQualityGate', () => {
+  const articles: NewsArticle[] = [
+    {
+      title: 'Nvidia shares jump 3.5% after earnings beat',
+      description: 'Revenue rose to $12,000 million, and the S&P 500 gained.',
+      source: 'Reuters',
+      publishedAt: '2026-01-15T10:00:00Z',
+    },
+    {
+      title: '日経平均が1万2000円台を回復',
+      description: 'トヨタ自動車の株価が上昇した。',
+      source: '日本経済新聞',
+      publishedAt: '2026-01-15T09:00:00Z',
+    },
+  ];
+
+  const check = (summary: string, stopReason?: string) => ({ summary, articles, stopReason });
+
+  describe('checkNumbersInSources', () => {
+    it('元記事にある数値は単位の表記が異なっても許容する', () => {
+      // 3.5%、$12,000 million = 120億、12000 = 1万2000、15日(公開日)
+      const summary =
+        'Nvidia株は3.5%上昇し、売上高は120億ドル。日経平均は12,000円台で、15日の取引を終えました。';
+
+      expect(checkNumbersInSources(check(summary))).toEqual([]);
+    });
+
+    it('1桁の整数は対象外とする', () => {
+      expect(checkNumbersInSources(check('3つのポイントを解説します。'))).toEqual([]);
+    });
+
+    it('元記事にない数値を検出する', () => {
+      const issues = checkNumbersInSources(check('売上高は前年比42.7%増加しました。'));
+
+      expect(issues).toEqual([
+        { type: 'unsupported-number', message: expect.stringContaining('「42.7」') },
+      ]);
+    });
+  });
+
+  describe('checkProperNounsInSources', () => {
+    it('元記事にある英字の固有名詞と一般的な略語は許容する', () => {
+      const summary = 'NVIDIAとS&P 500の上昇を受け、GDPやETFへの関心も高まりました。';
+
+      expect(checkProperNounsInSources(check(summary))).toEqual([]);
+    });
+
+    it('元記事にない英字の固有名詞を検出する', () => {
+      const issues = checkProperNounsInSources(check('Teslaの株価も上昇しました。'));
+
+      expect(issues).toEqual([
+        { type: 'unsupported-proper-noun', message: expect.stringContaining('「Tesla」') },
+      ]);
+    });
+  });
+
+  describe('checkInvestmentAdvice', () => {
+    it.each(['この銘柄は買うべきです。', '株価は必ず上がるでしょう。', '今が買い時です。'])(
+      '投資助言に当たる表現を検出する: %s',
+      (summary) => {
+        expect(checkInvestmentAdvice(check(summary))).toEqual([
+          expect.objectContaining({ type: 'investment-advice' }),
+        ]);
+      }
+    );
+
+    it('事実の記述は検出しない', () => {
+      expect(
+        checkInvestmentAdvice(check('投資家の買いが優勢となり、株価は上昇しました。'))
+      ).toEqual([]);
+    });
+  });
+
+  describe('checkTruncatedEnding', () => {
+    it('文末まで書き切っている場合は問題なしとする', () => {
+      expect(checkTruncatedEnding(check('市場は落ち着いた動きでした。\n'))).toEqual([]);
+      expect(checkTruncatedEnding(check('**今日のまとめ:市場は堅調。**'))).toEqual([]);
+    });
+
+    it('文の途中で終わっている場合を検出する', () => {
+      expect(checkTruncatedEnding(check('市場は落ち着いた動きで'))).toEqual([
+        expect.objectContaining({ type: 'truncated' }),
+      ]);
+    });
+
+    it('生成が最大トークン数で打ち切られた場合を検出する', () => {
+      expect(checkTruncatedEnding(check('市場は落ち着いた動きでした。', 'max_tokens'))).toEqual([
+        expect.objectContaining({ type: 'truncated' }),
+      ]);
+    });
+  });
+
+  describe('checkEnglishLeakage', () => {
+    it('英文が残っている場合を検出する', () => {
+      const summary = '株価が上昇しました。Shares rose sharply after the company beat estimates.';
+
+      expect(checkEnglishLeakage(check(summary))).toEqual([
+        expect.objectContaining({ type: 'english-leakage' }),
+      ]);
+    });
+
+    it('英字の比率が高い場合を検出する', () => {
+      expect(checkEnglishLeakage(check('NVDA AAPL MSFT TSLAが上昇。'))).toEqual([
+        expect.objectContaining({ type: 'english-leakage' }),
+      ]);
+    });
+
+    it('固有名詞程度の英字は許容する', () => {
+      expect(
+        checkEnglishLeakage(
+          check('Nvidiaの株価が、市場予想を上回る決算発表を受けて大きく上昇しました。')
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('validateSummaryQuality', () => {
+    it('すべての検証項目の問題をまとめて返す', () => {
+      const result = validateSummaryQuality(check('売上高は42.7%増。この株は買うべき'));
+
+      expect(result.passed).toBe(false);
+      expect(result.issues.map((issue) => issue.type)).toEqual([
+        'unsupported-number',
+        'investment-advice',
+        'truncated',
+      ]);
+    });
+
+    it('問題がない場合は通過とする', () => {
+      expect(
+        validateSummaryQuality(
+          check('Nvidiaの株価は、市場予想を上回る決算を受けて3.5%上昇しました。')
+        )
+      ).toEqual({
+        passed: true,
+        issues: [],
+      });
+    });
+
+    it('検証項目を指定できる', () => {
+      expect(validateSummaryQuality(check('途中で'), [checkInvestmentAdvice]).passed).toBe(true);
+    });
+  });
+
+  describe('buildSummaryQualityFeedback', () => {
+    it('問題点を箇条書きにしたプロンプトの追記を作成する', () => {
+      const feedback = buildSummaryQualityFeedback([
+        { type: 'truncated', message: '途中で途切れています。' },
+        { type: 'investment-advice', message: '投資助言があります。' },
+      ]);
+
+      expect(feedback).toContain('## 前回の要約の問題点');
+      expect(feedback).toContain('- 途中で途切れています。\n- 投資助言があります。');
+    });
+  });
+});
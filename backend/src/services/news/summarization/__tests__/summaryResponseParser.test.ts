@@ -8,9 +8,14 @@
 import {
   SummaryParseResult,
   parseSummaryResponse,
+  parseStructuredSummaryResponse,
   validateSummaryLength,
   SummaryValidationResult,
 } from '../summaryResponseParser';
+import {
+  getStructuredOutputMetrics,
+  resetStructuredOutputMetrics,
+} from '../../../llm/structuredOutputMetrics';
 import { ClaudeResponse } from '../../../claudeClient';
 import { SUMMARY_CONFIG } from '../newsSummaryPrompt';
 
@@ -99,6 +104,62 @@ describe('要約レスポンスパーサー', () => {
     });
   });
 
+  describe('parseStructuredSummaryResponse', () => {
+    const createMockResponse = (content: string, toolInput?: unknown): ClaudeResponse => ({
+      content,
+      usage: { inputTokens: 500, outputTokens: 200 },
+      model: 'claude-sonnet-4-5',
+      stopReason: toolInput === undefined ? 'end_turn' : 'tool_use',
+      ...(toolInput !== undefined && { toolInput }),
+    });
+
+    beforeEach(() => {
+      resetStructuredOutputMetrics();
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('ツールの入力から要約文を抽出する', () => {
+      const result = parseStructuredSummaryResponse(
+        createMockResponse('', { summary: '  ツールの要約です。 ' }),
+        'english-news-summary'
+      );
+
+      expect(result).toEqual({
+        summary: 'ツールの要約です。',
+        characterCount: 9,
+        model: 'claude-sonnet-4-5',
+        inputTokens: 500,
+        outputTokens: 200,
+      });
+      expect(getStructuredOutputMetrics().getSummary()['english-news-summary'].tool).toBe(1);
+    });
+
+    it('ツールの入力がスキーマに従わない場合はテキストを要約文とする', () => {
+      const result = parseStructuredSummaryResponse(
+        createMockResponse('テキストの要約です。', { text: '...' }),
+        'english-news-summary'
+      );
+
+      expect(result.summary).toBe('テキストの要約です。');
+      expect(getStructuredOutputMetrics().getSummary()['english-news-summary'].text).toBe(1);
+    });
+
+    it('どちらからも要約文が得られない場合は空の要約文を返す', () => {
+      const result = parseStructuredSummaryResponse(
+        createMockResponse('', { summary: '' }),
+        'english-news-summary'
+      );
+
+      expect(result.summary).toBe('');
+      expect(result.characterCount).toBe(0);
+      expect(getStructuredOutputMetrics().getSummary()['english-news-summary'].failed).toBe(1);
+    });
+  });
+
   describe('validateSummaryLength', () => {
     it('目標範囲内の要約は有効と判定する', () => {
       // 2000文字の要約
@@ -146,6 +207,13 @@ describe('要約レスポンスパーサー', () => {
       expect(result.warning).toMatch(/文字/);
     });
 
+    it('許容範囲を指定して短い要約を検証できる', () => {
+      const range = { targetCharacters: 400, minCharacters: 300, maxCharacters: 600 };
+
+      expect(validateSummaryLength('あ'.repeat(400), range).isValid).toBe(true);
+      expect(validateSummaryLength('あ'.repeat(200), range).warning).toContain('300〜600文字');
+    });
+
     it('空の要約は無効と判定する', () => {
       const result = validateSummaryLength('');
 
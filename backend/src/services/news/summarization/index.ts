@@ -8,15 +8,24 @@
 export {
   NewsArticle,
   SUMMARY_CONFIG,
+  CATEGORY_SUMMARY_CONFIG,
+  SummaryLengthRange,
   buildEnglishNewsSummaryPrompt,
   buildJapaneseNewsSummaryPrompt,
+  buildCategoryNewsSummaryPrompt,
+  ENGLISH_NEWS_SUMMARY_PROMPT_V1,
+  JAPANESE_NEWS_SUMMARY_PROMPT_V1,
+  CATEGORY_NEWS_SUMMARY_PROMPT_V1,
+  NEWS_SUMMARY_PROMPT_TEMPLATES,
 } from './newsSummaryPrompt';
 
 // レスポンスパーサー
 export {
   SummaryParseResult,
   SummaryValidationResult,
+  SUMMARY_OUTPUT_TOOL,
   parseSummaryResponse,
+  parseStructuredSummaryResponse,
   validateSummaryLength,
 } from './summaryResponseParser';
 
@@ -24,6 +33,27 @@ export {
 export {
   NewsSummaryService,
   NewsSummaryServiceConfig,
+  NewsSummaryOptions,
   NewsSummaryError,
+  SummaryQualityError,
   SummaryResult,
 } from './newsSummaryService';
+
+// 品質ゲート
+export {
+  SummaryQualityIssueType,
+  SummaryQualityIssue,
+  SummaryQualityInput,
+  SummaryQualityCheck,
+  SummaryQualityResult,
+  COMMON_FINANCE_TERMS,
+  INVESTMENT_ADVICE_PATTERNS,
+  DEFAULT_SUMMARY_QUALITY_CHECKS,
+  checkNumbersInSources,
+  checkProperNounsInSources,
+  checkInvestmentAdvice,
+  checkTruncatedEnding,
+  checkEnglishLeakage,
+  validateSummaryQuality,
+  buildSummaryQualityFeedback,
+} from './summaryQualityGate';
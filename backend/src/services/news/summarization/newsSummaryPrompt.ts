@@ -5,9 +5,14 @@
  * 複数のニュース記事を統合し、約2000文字の要約を生成するための
  * プロンプトを構築します。
  *
+ * プロンプト本文はバージョン付きのテンプレート(プロンプトレジストリに登録)として定義し、
+ * 記事や文字数を変数として埋め込みます。
+ *
  * Requirements: 1.4 (複数記事を2000文字に要約), 1.5 (英語記事を日本語に翻訳+要約)
  */
 
+import { PromptTemplate, renderPromptTemplate } from '../../prompts/promptRegistry';
+
 /**
  * ニュース記事の基本構造
  *
@@ -24,6 +29,20 @@ export interface NewsArticle {
   source: string;
   /** 公開日時(ISO 8601形式) */
   publishedAt: string;
+  /** 同じ話題を報じた媒体数(重複記事をまとめた場合、オプション) */
+  coverageCount?: number;
+}
+
+/**
+ * 要約文の文字数の範囲
+ */
+export interface SummaryLengthRange {
+  /** 目標文字数 */
+  readonly targetCharacters: number;
+  /** 最小許容文字数 */
+  readonly minCharacters: number;
+  /** 最大許容文字数 */
+  readonly maxCharacters: number;
 }
 
 /**
@@ -40,6 +59,20 @@ export const SUMMARY_CONFIG = {
   maxCharacters: 2200,
 } as const;
 
+/**
+ * カテゴリ別要約設定
+ *
+ * テーマ別セクションで表示する短い要約の文字数設定値を保持します。
+ */
+export const CATEGORY_SUMMARY_CONFIG = {
+  /** 目標文字数 */
+  targetCharacters: 400,
+  /** 最小許容文字数 */
+  minCharacters: 300,
+  /** 最大許容文字数 */
+  maxCharacters: 600,
+} as const;
+
 /**
  * 記事をフォーマットしてプロンプト用のテキストに変換
  *
@@ -60,6 +93,10 @@ function formatArticles(articles: NewsArticle[]): string {
         `日時: ${article.publishedAt}`,
       ];
 
+      if (article.coverageCount && article.coverageCount > 1) {
+        parts.push(`報道数: ${article.coverageCount}社が報道`);
+      }
+
       if (article.description) {
         parts.push(`概要: ${article.description}`);
       }
@@ -74,26 +111,37 @@ function formatArticles(articles: NewsArticle[]): string {
 }
 
 /**
- * 英語ニュース翻訳・要約プロンプトを生成
+ * 文字数の範囲をテンプレートの変数に変換
  *
- * 複数の英語ニュース記事を統合し、日本語で要約するプロンプトを構築します。
- * 約2000文字の出力を指示します。
- *
- * @param articles - 要約対象の英語ニュース記事配列
- * @returns Claude APIに送信するプロンプト文字列
+ * @param lengthRange - 文字数の範囲
+ * @returns targetCharacters・minCharacters・maxCharactersの変数
  */
-export function buildEnglishNewsSummaryPrompt(articles: NewsArticle[]): string {
-  const formattedArticles = formatArticles(articles);
+function toLengthVariables(lengthRange: SummaryLengthRange): Record<string, number> {
+  return {
+    targetCharacters: lengthRange.targetCharacters,
+    minCharacters: lengthRange.minCharacters,
+    maxCharacters: lengthRange.maxCharacters,
+  };
+}
 
-  return `あなたは投資・金融ニュースの専門家です。以下の英語ニュース記事を日本語に翻訳し、投資家にとって重要なポイントを抽出して要約してください。
+/**
+ * 英語ニュース翻訳・要約プロンプト(v1)
+ *
+ * 変数: articles, targetCharacters, minCharacters, maxCharacters
+ */
+export const ENGLISH_NEWS_SUMMARY_PROMPT_V1: PromptTemplate = {
+  name: 'english-news-summary',
+  version: 'v1',
+  template: `あなたは投資・金融ニュースの専門家です。以下の英語ニュース記事を日本語に翻訳し、投資家にとって重要なポイントを抽出して要約してください。
 
 ## 指示
 1. 以下のすべての英語記事を読み、内容を日本語に翻訳してください
 2. 投資・金融・経済・市場に関する重要なポイントを抽出してください
 3. 複数の記事を統合し、一つの読みやすい要約にまとめてください
-4. 要約は約${SUMMARY_CONFIG.targetCharacters}文字(${SUMMARY_CONFIG.minCharacters}〜${SUMMARY_CONFIG.maxCharacters}文字)で作成してください
+4. 要約は約{{targetCharacters}}文字({{minCharacters}}〜{{maxCharacters}}文字)で作成してください
 5. 読者は投資初学者なので、専門用語は簡潔な説明を加えてください
 6. 各記事のソース(出典)を適切に言及してください
+7. 報道数が多い記事ほど注目度の高い話題として優先して取り上げてください
 
 ## 出力形式
 - 見出しや箇条書きを適宜使用して読みやすくしてください
@@ -101,32 +149,29 @@ export function buildEnglishNewsSummaryPrompt(articles: NewsArticle[]): string {
 - 最後に今日の市場の全体的な動向をまとめてください
 
 ## ニュース記事
-${formattedArticles}
+{{articles}}
 
-日本語で要約を作成してください。`;
-}
+日本語で要約を作成してください。`,
+};
 
 /**
- * 日本語ニュース要約プロンプトを生成
+ * 日本語ニュース要約プロンプト(v1)
  *
- * 複数の日本語ニュース記事を統合し、要約するプロンプトを構築します。
- * 約2000文字の出力を指示します。
- *
- * @param articles - 要約対象の日本語ニュース記事配列
- * @returns Claude APIに送信するプロンプト文字列
+ * 変数: articles, targetCharacters, minCharacters, maxCharacters
  */
-export function buildJapaneseNewsSummaryPrompt(articles: NewsArticle[]): string {
-  const formattedArticles = formatArticles(articles);
-
-  return `あなたは投資・金融ニュースの専門家です。以下の日本のニュース記事を読み、投資家にとって重要なポイントを抽出して要約してください。
+export const JAPANESE_NEWS_SUMMARY_PROMPT_V1: PromptTemplate = {
+  name: 'japanese-news-summary',
+  version: 'v1',
+  template: `あなたは投資・金融ニュースの専門家です。以下の日本のニュース記事を読み、投資家にとって重要なポイントを抽出して要約してください。
 
 ## 指示
 1. 以下のすべての記事を読み、内容を理解してください
 2. 投資・金融・経済・市場に関する重要なポイントを抽出してください
 3. 複数の記事を統合し、一つの読みやすい要約にまとめてください
-4. 要約は約${SUMMARY_CONFIG.targetCharacters}文字(${SUMMARY_CONFIG.minCharacters}〜${SUMMARY_CONFIG.maxCharacters}文字)で作成してください
+4. 要約は約{{targetCharacters}}文字({{minCharacters}}〜{{maxCharacters}}文字)で作成してください
 5. 読者は投資初学者なので、専門用語は簡潔な説明を加えてください
 6. 各記事のソース(出典)を適切に言及してください
+7. 報道数が多い記事ほど注目度の高い話題として優先して取り上げてください
 
 ## 出力形式
 - 見出しや箇条書きを適宜使用して読みやすくしてください
@@ -134,7 +179,108 @@ export function buildJapaneseNewsSummaryPrompt(articles: NewsArticle[]): string
 - 最後に今日の市場の全体的な動向をまとめてください
 
 ## ニュース記事
-${formattedArticles}
+{{articles}}
+
+要約を作成してください。`,
+};
 
-要約を作成してください。`;
+/**
+ * カテゴリ別ニュース要約プロンプト(v1)
+ *
+ * 変数: categoryLabel, articles, targetCharacters, minCharacters, maxCharacters
+ */
+export const CATEGORY_NEWS_SUMMARY_PROMPT_V1: PromptTemplate = {
+  name: 'category-news-summary',
+  version: 'v1',
+  template: `あなたは投資・金融ニュースの専門家です。以下は「{{categoryLabel}}」に関するニュース記事です。このテーマについて投資家が押さえるべきポイントを要約してください。
+
+## 指示
+1. 以下のすべての記事を読み、「{{categoryLabel}}」に関する内容を中心に要点を抽出してください
+2. 英語の記事は日本語に翻訳して内容を理解してください
+3. 要約は約{{targetCharacters}}文字({{minCharacters}}〜{{maxCharacters}}文字)で作成してください
+4. 読者は投資初学者なので、専門用語は簡潔な説明を加えてください
+5. 報道数が多い記事ほど注目度の高い話題として優先して取り上げてください
+
+## 出力形式
+- 見出しは付けず、2〜3段落の文章で書いてください
+- 重要な数値やデータがあれば含めてください
+
+## ニュース記事
+{{articles}}
+
+日本語で要約を作成してください。`,
+};
+
+/**
+ * ニュース要約のプロンプトテンプレート(全バージョン)
+ *
+ * 新しいバージョンを追加する場合は、ここに追加してweightで配分を指定します。
+ */
+export const NEWS_SUMMARY_PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+  ENGLISH_NEWS_SUMMARY_PROMPT_V1,
+  JAPANESE_NEWS_SUMMARY_PROMPT_V1,
+  CATEGORY_NEWS_SUMMARY_PROMPT_V1,
+];
+
+/**
+ * 英語ニュース翻訳・要約プロンプトを生成
+ *
+ * 複数の英語ニュース記事を統合し、日本語で要約するプロンプトを構築します。
+ * 約2000文字の出力を指示します。
+ *
+ * @param articles - 要約対象の英語ニュース記事配列
+ * @param template - プロンプトテンプレート(省略時はv1)
+ * @returns Claude APIに送信するプロンプト文字列
+ */
+export function buildEnglishNewsSummaryPrompt(
+  articles: NewsArticle[],
+  template: PromptTemplate = ENGLISH_NEWS_SUMMARY_PROMPT_V1
+): string {
+  return renderPromptTemplate(template, {
+    ...toLengthVariables(SUMMARY_CONFIG),
+    articles: formatArticles(articles),
+  });
+}
+
+/**
+ * 日本語ニュース要約プロンプトを生成
+ *
+ * 複数の日本語ニュース記事を統合し、要約するプロンプトを構築します。
+ * 約2000文字の出力を指示します。
+ *
+ * @param articles - 要約対象の日本語ニュース記事配列
+ * @param template - プロンプトテンプレート(省略時はv1)
+ * @returns Claude APIに送信するプロンプト文字列
+ */
+export function buildJapaneseNewsSummaryPrompt(
+  articles: NewsArticle[],
+  template: PromptTemplate = JAPANESE_NEWS_SUMMARY_PROMPT_V1
+): string {
+  return renderPromptTemplate(template, {
+    ...toLengthVariables(SUMMARY_CONFIG),
+    articles: formatArticles(articles),
+  });
+}
+
+/**
+ * カテゴリ別ニュース要約プロンプトを生成
+ *
+ * 1つのテーマ(市況・為替など)に分類された記事を、約400文字の短い要約にまとめる
+ * プロンプトを構築します。英語・日本語の記事が混在するため、日本語での出力を指示します。
+ *
+ * @param categoryLabel - カテゴリの表示名(例: 為替)
+ * @param articles - 要約対象の記事配列
+ * @param template - プロンプトテンプレート(省略時はv1)
+ * @returns Claude APIに送信するプロンプト文字列
+ */
+export function buildCategoryNewsSummaryPrompt(
+  categoryLabel: string,
+  articles: NewsArticle[],
+  template: PromptTemplate = CATEGORY_NEWS_SUMMARY_PROMPT_V1
+): string {
+  return renderPromptTemplate(template, {
+    ...toLengthVariables(CATEGORY_SUMMARY_CONFIG),
+    categoryLabel,
+    articles: formatArticles(articles),
+  });
 }
@@ -5,22 +5,46 @@
  * ニュース記事の要約を行い、失敗時のリトライ処理と
  * エラーログ記録を提供します。
  *
+ * 要約文は構造化出力(SUMMARY_OUTPUT_TOOLの入力)として生成し、得られない場合はテキストを使用します。
+ * 生成した要約は品質ゲート(summaryQualityGate)で検証し、問題がある場合は
+ * 問題点をプロンプトに追記して上限回数まで再生成します。
+ *
  * Requirements: 1.7 (バッチ失敗時エラーログ+リトライ)
  *
  * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
  */
 
-import { ClaudeClient, ClaudeResponse } from '../../claudeClient';
+import { ClaudeResponse } from '../../claudeClient';
+import { DEFAULT_STREAM_TOTAL_TIMEOUT_MS } from '../../claudeStreamReader';
+import type {
+  LlmProvider,
+  LlmResponse,
+  LlmStreamOptions,
+  PreparedLlmRequest,
+} from '../../llm/llmProvider';
 import {
   NewsArticle,
+  SUMMARY_CONFIG,
+  CATEGORY_SUMMARY_CONFIG,
+  SummaryLengthRange,
   buildEnglishNewsSummaryPrompt,
   buildJapaneseNewsSummaryPrompt,
+  buildCategoryNewsSummaryPrompt,
 } from './newsSummaryPrompt';
 import {
-  parseSummaryResponse,
+  SUMMARY_OUTPUT_TOOL,
+  parseStructuredSummaryResponse,
   validateSummaryLength,
 } from './summaryResponseParser';
+import {
+  DEFAULT_SUMMARY_QUALITY_CHECKS,
+  SummaryQualityCheck,
+  SummaryQualityIssue,
+  buildSummaryQualityFeedback,
+  validateSummaryQuality,
+} from './summaryQualityGate';
 import { AppError, ErrorType, ErrorSeverity } from '../../../errors/types';
+import { PromptRegistry, PromptSelection, getPromptRegistry } from '../../prompts';
 
 /**
  * ニュース要約エラー
@@ -52,6 +76,24 @@ export class NewsSummaryError extends AppError {
   }
 }
 
+/**
+ * 要約の品質エラー
+ *
+ * 上限回数まで再生成しても要約が品質ゲートを通過しなかった場合に発生します。
+ */
+export class SummaryQualityError extends NewsSummaryError {
+  /**
+   * 最後に生成した要約の品質の問題
+   */
+  public readonly issues: SummaryQualityIssue[];
+
+  constructor(message: string, operation: string, attempts: number, issues: SummaryQualityIssue[]) {
+    super(message, operation, attempts);
+    this.name = 'SummaryQualityError';
+    this.issues = issues;
+  }
+}
+
 /**
  * 要約結果
  *
@@ -68,12 +110,28 @@ export interface SummaryResult {
   warning?: string;
   /** 使用されたモデル名 */
   model: string;
+  /** 使用したプロンプトのバージョン */
+  promptVersion: string;
   /** 入力トークン数 */
   inputTokens: number;
   /** 出力トークン数 */
   outputTokens: number;
 }
 
+/**
+ * 要約の実行オプション
+ */
+export interface NewsSummaryOptions {
+  /**
+   * 要約全体の期限(エポックミリ秒)
+   *
+   * リトライ・品質ゲートによる再生成を含めた要約全体の上限。
+   * 期限を過ぎた場合は次の試行を開始せず、ストリーミングの全体タイムアウトも残り時間までに短縮する。
+   * 未指定の場合は期限なし(最大リトライ回数・最大再生成回数まで試行する)。
+   */
+  deadline?: number;
+}
+
 /**
  * ニュース要約サービスの設定
  */
@@ -89,6 +147,44 @@ export interface NewsSummaryServiceConfig {
    * @default true
    */
   logErrors?: boolean;
+
+  /**
+   * 品質ゲートを通過しなかった場合の最大再生成回数
+   * @default 2
+   */
+  maxRegenerations?: number;
+
+  /**
+   * 品質ゲートの検証項目
+   * @default DEFAULT_SUMMARY_QUALITY_CHECKS
+   */
+  qualityChecks?: readonly SummaryQualityCheck[];
+
+  /**
+   * プロンプトレジストリ
+   *
+   * サービスのインスタンスごとに(バッチの1回の実行ごとに)各プロンプトのバージョンを1つ選択する。
+   * @default getPromptRegistry()
+   */
+  promptRegistry?: PromptRegistry;
+
+  /**
+   * ストリーミングで要約を生成する場合のタイムアウト
+   *
+   * 指定した場合、要約をストリーミングで生成し、無通信タイムアウトと全体の上限を別々に適用する
+   * (省略した項目はプロバイダーのデフォルト)。タイムアウトした場合は他のエラーと同様にリトライする。
+   * 未指定の場合はストリーミングを使用しない。
+   */
+  stream?: LlmStreamOptions;
+
+  /**
+   * レスポンスキャッシュを参照しない
+   *
+   * 過去の日付の再生成・バックフィルなど、明示的に生成し直す場合に指定する。
+   * 未指定の場合も、品質ゲートによる再生成ではキャッシュを参照しない。
+   * @default false
+   */
+  bypassCache?: boolean;
 }
 
 /**
@@ -98,20 +194,30 @@ export interface NewsSummaryServiceConfig {
  * 失敗時のリトライ処理とエラーログ記録を提供します。
  */
 export class NewsSummaryService {
-  private readonly client: ClaudeClient;
+  private readonly client: LlmProvider;
   private readonly maxRetries: number;
   private readonly logErrors: boolean;
+  private readonly maxRegenerations: number;
+  private readonly qualityChecks: readonly SummaryQualityCheck[];
+  private readonly prompts: PromptSelection;
+  private readonly stream?: LlmStreamOptions;
+  private readonly bypassCache: boolean;
 
   /**
    * コンストラクタ
    *
-   * @param client - Claude APIクライアント
+   * @param client - LLMプロバイダー(Claude APIクライアントなど)
    * @param config - サービス設定
    */
-  constructor(client: ClaudeClient, config: NewsSummaryServiceConfig = {}) {
+  constructor(client: LlmProvider, config: NewsSummaryServiceConfig = {}) {
     this.client = client;
     this.maxRetries = config.maxRetries ?? 3;
     this.logErrors = config.logErrors ?? true;
+    this.maxRegenerations = config.maxRegenerations ?? 2;
+    this.qualityChecks = config.qualityChecks ?? DEFAULT_SUMMARY_QUALITY_CHECKS;
+    this.prompts = (config.promptRegistry ?? getPromptRegistry()).createSelection();
+    this.stream = config.stream;
+    this.bypassCache = config.bypassCache ?? false;
   }
 
   /**
@@ -119,10 +225,14 @@ export class NewsSummaryService {
    *
    * @returns 設定オブジェクト
    */
-  getConfig(): Required<NewsSummaryServiceConfig> {
+  getConfig(): Required<
+    Omit<NewsSummaryServiceConfig, 'promptRegistry' | 'qualityChecks' | 'stream'>
+  > {
     return {
       maxRetries: this.maxRetries,
       logErrors: this.logErrors,
+      maxRegenerations: this.maxRegenerations,
+      bypassCache: this.bypassCache,
     };
   }
 
@@ -133,12 +243,23 @@ export class NewsSummaryService {
    * 失敗時は最大リトライ回数までリトライします。
    *
    * @param articles - 要約対象の英語ニュース記事配列
+   * @param options - 実行オプション
    * @returns 要約結果
-   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合
+   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合、または期限を過ぎた場合
    */
-  async summarizeEnglishNews(articles: NewsArticle[]): Promise<SummaryResult> {
-    const prompt = buildEnglishNewsSummaryPrompt(articles);
-    return this.executeWithRetry(prompt, 'english-news-summary');
+  async summarizeEnglishNews(
+    articles: NewsArticle[],
+    options: NewsSummaryOptions = {}
+  ): Promise<SummaryResult> {
+    const request = this.prepareEnglishNewsSummaryRequest(articles);
+    return this.summarizeWithQualityGate(
+      request.prompt,
+      request.options.operation,
+      request.promptVersion,
+      articles,
+      SUMMARY_CONFIG,
+      options.deadline
+    );
   }
 
   /**
@@ -148,38 +269,244 @@ export class NewsSummaryService {
    * 失敗時は最大リトライ回数までリトライします。
    *
    * @param articles - 要約対象の日本語ニュース記事配列
+   * @param options - 実行オプション
+   * @returns 要約結果
+   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合、または期限を過ぎた場合
+   */
+  async summarizeJapaneseNews(
+    articles: NewsArticle[],
+    options: NewsSummaryOptions = {}
+  ): Promise<SummaryResult> {
+    const request = this.prepareJapaneseNewsSummaryRequest(articles);
+    return this.summarizeWithQualityGate(
+      request.prompt,
+      request.options.operation,
+      request.promptVersion,
+      articles,
+      SUMMARY_CONFIG,
+      options.deadline
+    );
+  }
+
+  /**
+   * カテゴリ別にニュースを要約する
+   *
+   * 1つのテーマに分類された記事(英語・日本語混在)を約400文字に要約します。
+   * 失敗時は最大リトライ回数までリトライします。
+   *
+   * @param categoryLabel - カテゴリの表示名(例: 為替)
+   * @param articles - 要約対象のニュース記事配列
+   * @param options - 実行オプション
+   * @returns 要約結果
+   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合、または期限を過ぎた場合
+   */
+  async summarizeCategoryNews(
+    categoryLabel: string,
+    articles: NewsArticle[],
+    options: NewsSummaryOptions = {}
+  ): Promise<SummaryResult> {
+    const request = this.prepareCategoryNewsSummaryRequest(categoryLabel, articles);
+    return this.summarizeWithQualityGate(
+      request.prompt,
+      request.options.operation,
+      request.promptVersion,
+      articles,
+      CATEGORY_SUMMARY_CONFIG,
+      options.deadline
+    );
+  }
+
+  /**
+   * 英語ニュースの要約のリクエストを作成する
+   *
+   * Message Batchesなど、summarizeEnglishNews()以外の経路で送信する場合に使用します。
+   * レスポンスはtoSummaryResult()で要約結果に変換します。
+   *
+   * @param articles - 要約対象の英語ニュース記事配列
+   * @returns 送信前のリクエスト
+   */
+  prepareEnglishNewsSummaryRequest(articles: NewsArticle[]): PreparedLlmRequest {
+    const template = this.prompts.get('english-news-summary');
+    return {
+      prompt: buildEnglishNewsSummaryPrompt(articles, template),
+      options: { operation: 'english-news-summary', tool: SUMMARY_OUTPUT_TOOL },
+      promptVersion: template.version,
+    };
+  }
+
+  /**
+   * 日本語ニュースの要約のリクエストを作成する
+   *
+   * @param articles - 要約対象の日本語ニュース記事配列
+   * @returns 送信前のリクエスト
+   * @see prepareEnglishNewsSummaryRequest
+   */
+  prepareJapaneseNewsSummaryRequest(articles: NewsArticle[]): PreparedLlmRequest {
+    const template = this.prompts.get('japanese-news-summary');
+    return {
+      prompt: buildJapaneseNewsSummaryPrompt(articles, template),
+      options: { operation: 'japanese-news-summary', tool: SUMMARY_OUTPUT_TOOL },
+      promptVersion: template.version,
+    };
+  }
+
+  /**
+   * カテゴリ別のニュースの要約のリクエストを作成する
+   *
+   * @param categoryLabel - カテゴリの表示名(例: 為替)
+   * @param articles - 要約対象のニュース記事配列
+   * @returns 送信前のリクエスト
+   * @see prepareEnglishNewsSummaryRequest
+   */
+  prepareCategoryNewsSummaryRequest(
+    categoryLabel: string,
+    articles: NewsArticle[]
+  ): PreparedLlmRequest {
+    const template = this.prompts.get('category-news-summary');
+    return {
+      prompt: buildCategoryNewsSummaryPrompt(categoryLabel, articles, template),
+      options: { operation: 'category-news-summary', tool: SUMMARY_OUTPUT_TOOL },
+      promptVersion: template.version,
+    };
+  }
+
+  /**
+   * レスポンスを要約結果に変換する
+   *
+   * prepare*Request()で作成したリクエストのレスポンスを、要約時と同じパーサーで変換します。
+   * 品質ゲートによる再生成は行わないため、必要に応じて呼び出し元でvalidateSummaryQuality()を使用します。
+   *
+   * @param response - LLMのレスポンス
+   * @param operation - リクエストの操作名(category-news-summaryの場合はカテゴリ別の文字数で検証)
+   * @param promptVersion - リクエストのプロンプトのバージョン
    * @returns 要約結果
-   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合
    */
-  async summarizeJapaneseNews(articles: NewsArticle[]): Promise<SummaryResult> {
-    const prompt = buildJapaneseNewsSummaryPrompt(articles);
-    return this.executeWithRetry(prompt, 'japanese-news-summary');
+  toSummaryResult(response: LlmResponse, operation: string, promptVersion: string): SummaryResult {
+    const lengthRange =
+      operation === 'category-news-summary' ? CATEGORY_SUMMARY_CONFIG : SUMMARY_CONFIG;
+    return this.processResponse(response, operation, promptVersion, lengthRange);
   }
 
   /**
-   * リトライ付きで要約を実行
+   * 品質ゲートを通過するまで要約を生成
+   *
+   * 品質の問題が見つかった場合は、問題点をプロンプトに追記して最大再生成回数まで再生成する。
+   * 文字数が範囲外の場合は警告付きで返す(再生成しない)。
+   * 品質ゲートを通過したレスポンスのみキャッシュに保存し、再生成ではキャッシュを参照しない。
    *
    * @param prompt - 送信するプロンプト
    * @param operation - 操作名
+   * @param promptVersion - プロンプトのバージョン
+   * @param articles - 要約の元記事(品質ゲートで使用)
+   * @param lengthRange - 許容文字数の範囲
+   * @param deadline - 要約全体の期限(エポックミリ秒、未指定の場合は期限なし)
    * @returns 要約結果
-   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合
+   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合、または期限を過ぎた場合
+   * @throws {SummaryQualityError} 最大再生成回数(または期限)まで品質ゲートを通過しなかった場合
    */
-  private async executeWithRetry(
+  private async summarizeWithQualityGate(
     prompt: string,
-    operation: string
+    operation: string,
+    promptVersion: string,
+    articles: NewsArticle[],
+    lengthRange: SummaryLengthRange = SUMMARY_CONFIG,
+    deadline?: number
   ): Promise<SummaryResult> {
+    const generations = this.maxRegenerations + 1;
+    let issues: SummaryQualityIssue[] = [];
+    let generated = 0;
+
+    for (let i = 0; i < generations; i++) {
+      // 期限を過ぎた場合は再生成しない
+      if (i > 0 && deadline !== undefined && Date.now() >= deadline) {
+        if (this.logErrors) {
+          console.warn(
+            `[NewsSummaryService] ${operation} deadline exceeded, skipping regeneration`
+          );
+        }
+        break;
+      }
+
+      const requestPrompt = i === 0 ? prompt : prompt + buildSummaryQualityFeedback(issues);
+      const response = await this.executeWithRetry(
+        requestPrompt,
+        operation,
+        this.bypassCache || i > 0,
+        deadline
+      );
+      generated = i + 1;
+      const result = this.processResponse(response, operation, promptVersion, lengthRange);
+
+      const quality = validateSummaryQuality(
+        { summary: result.summary, articles, stopReason: response.stopReason },
+        this.qualityChecks
+      );
+      if (quality.passed) {
+        await this.client.confirmResponse?.(response);
+        return result;
+      }
+
+      issues = quality.issues;
+      if (this.logErrors) {
+        console.warn(
+          `[NewsSummaryService] ${operation} failed quality gate (generation ${i + 1}/${generations}):`,
+          issues.map((issue) => issue.type).join(', ')
+        );
+      }
+    }
+
+    throw new SummaryQualityError(
+      `ニュース要約が品質チェックを通過しませんでした(${generated}回生成): ${issues
+        .map((issue) => issue.message)
+        .join(' ')}`,
+      operation,
+      generated,
+      issues
+    );
+  }
+
+  /**
+   * リトライ付きでメッセージを送信
+   *
+   * @param prompt - 送信するプロンプト
+   * @param operation - 操作名
+   * @param bypassCache - レスポンスキャッシュを参照しない場合true
+   * @param deadline - 要約全体の期限(エポックミリ秒、未指定の場合は期限なし)
+   * @returns LLMのレスポンス
+   * @throws {NewsSummaryError} 最大リトライ回数を超えた場合、または期限を過ぎた場合
+   */
+  private async executeWithRetry(
+    prompt: string,
+    operation: string,
+    bypassCache: boolean,
+    deadline?: number
+  ): Promise<ClaudeResponse> {
     let lastError: Error | undefined;
     let attempts = 0;
 
     for (let i = 0; i <= this.maxRetries; i++) {
+      // 期限を過ぎた場合は次の試行を開始しない
+      const remainingMs = deadline === undefined ? undefined : deadline - Date.now();
+      if (remainingMs !== undefined && remainingMs <= 0) {
+        throw new NewsSummaryError(
+          `ニュース要約の期限を過ぎました(${attempts}回試行)${
+            lastError ? `: ${lastError.message}` : ''
+          }`,
+          operation,
+          attempts,
+          lastError
+        );
+      }
+
       attempts = i + 1;
 
       try {
-        const response = await this.client.sendMessage(prompt, {
+        return await this.client.sendMessage(prompt, {
           operation,
+          tool: SUMMARY_OUTPUT_TOOL,
+          ...(bypassCache && { bypassCache: true }),
+          ...(this.stream && { stream: this.getStreamOptions(this.stream, remainingMs) }),
         });
-
-        return this.processResponse(response);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
@@ -206,15 +533,43 @@ export class NewsSummaryService {
     );
   }
 
+  /**
+   * 期限までの残り時間に合わせたストリーミングの設定を返す
+   *
+   * @param stream - ストリーミングの設定
+   * @param remainingMs - 期限までの残り時間(ミリ秒、期限なしの場合はundefined)
+   * @returns 全体タイムアウトを残り時間以内にしたストリーミングの設定
+   */
+  private getStreamOptions(stream: LlmStreamOptions, remainingMs?: number): LlmStreamOptions {
+    if (remainingMs === undefined) {
+      return stream;
+    }
+    return {
+      ...stream,
+      totalTimeoutMs: Math.min(
+        stream.totalTimeoutMs ?? DEFAULT_STREAM_TOTAL_TIMEOUT_MS,
+        remainingMs
+      ),
+    };
+  }
+
   /**
    * レスポンスを処理して結果を生成
    *
    * @param response - Claude APIレスポンス
+   * @param operation - 操作名
+   * @param promptVersion - プロンプトのバージョン
+   * @param lengthRange - 許容文字数の範囲
    * @returns 要約結果
    */
-  private processResponse(response: ClaudeResponse): SummaryResult {
-    const parseResult = parseSummaryResponse(response);
-    const validation = validateSummaryLength(parseResult.summary);
+  private processResponse(
+    response: ClaudeResponse,
+    operation: string,
+    promptVersion: string,
+    lengthRange: SummaryLengthRange
+  ): SummaryResult {
+    const parseResult = parseStructuredSummaryResponse(response, operation);
+    const validation = validateSummaryLength(parseResult.summary, lengthRange);
 
     return {
       summary: parseResult.summary,
@@ -222,6 +577,7 @@ export class NewsSummaryService {
       isValid: validation.isValid,
       warning: validation.warning,
       model: parseResult.model,
+      promptVersion,
       inputTokens: parseResult.inputTokens,
       outputTokens: parseResult.outputTokens,
     };
@@ -0,0 +1,372 @@
+/**
+ * ニュース要約の品質ゲート
+ *
+ * 生成した要約が元記事に基づいているか、投資助言に当たる表現や途中で途切れた文が
+ * 含まれていないかを検証します。文字数の検証(validateSummaryLength)とは別に、
+ * 要約ごとに検証項目(SummaryQualityCheck)を順に実行し、問題点を収集します。
+ *
+ * 検証項目:
+ * - 要約中の数値が元記事に含まれていること
+ * - 要約中の英字の固有名詞(企業名・略語など)が元記事に含まれていること
+ * - 投資助言に当たる表現(「買うべき」「必ず上がる」など)が含まれていないこと
+ * - 文の途中で途切れていないこと
+ * - 英文がそのまま残っていないこと
+ *
+ * 問題点はbuildSummaryQualityFeedbackでプロンプトに追記し、要約の再生成に使用します。
+ *
+ * Requirements:
+ * - 要約の品質ゲート(生成後の検証と再生成)
+ */
+
+import type { NewsArticle } from './newsSummaryPrompt';
+
+/**
+ * 品質の問題の種類
+ */
+export type SummaryQualityIssueType =
+  | 'unsupported-number'
+  | 'unsupported-proper-noun'
+  | 'investment-advice'
+  | 'truncated'
+  | 'english-leakage';
+
+/**
+ * 品質の問題
+ */
+export interface SummaryQualityIssue {
+  /** 問題の種類 */
+  type: SummaryQualityIssueType;
+  /** 問題の説明(再生成時にプロンプトへ追記する) */
+  message: string;
+}
+
+/**
+ * 品質の検証対象
+ */
+export interface SummaryQualityInput {
+  /** 要約文 */
+  summary: string;
+  /** 要約の元記事 */
+  articles: NewsArticle[];
+  /** 生成の終了理由(max_tokensの場合は途中で途切れている) */
+  stopReason?: string | null;
+}
+
+/**
+ * 品質の検証項目
+ *
+ * 問題がない場合は空配列を返す。
+ */
+export type SummaryQualityCheck = (input: SummaryQualityInput) => SummaryQualityIssue[];
+
+/**
+ * 品質の検証結果
+ */
+export interface SummaryQualityResult {
+  /** すべての検証項目を通過したかどうか */
+  passed: boolean;
+  /** 検出した問題 */
+  issues: SummaryQualityIssue[];
+}
+
+/**
+ * 元記事にない場合も許容する英字の略語・用語
+ *
+ * 要約で解説として補われることが多い、一般的な経済・金融の略語です。
+ */
+export const COMMON_FINANCE_TERMS: readonly string[] = [
+  'AI',
+  'CPI',
+  'ECB',
+  'EPS',
+  'ESG',
+  'ETF',
+  'EU',
+  'FOMC',
+  'FRB',
+  'GDP',
+  'IMF',
+  'IPO',
+  'M&A',
+  'NISA',
+  'OPEC',
+  'PBR',
+  'PER',
+  'PMI',
+  'ROE',
+  'TOPIX',
+  'USD',
+  'JPY',
+];
+
+/**
+ * 投資助言に当たる表現
+ *
+ * 特定の売買の推奨や、値上がり・利益の断定を検出します。
+ */
+export const INVESTMENT_ADVICE_PATTERNS: readonly RegExp[] = [
+  /(?:買う|売る|購入す|売却す|保有す)べき/,
+  /(?:今が|今こそ)(?:買い|売り)(?:時|どき)/,
+  /(?:必ず|絶対に?|確実に|間違いなく)(?:上が|下が|値上が|値下が|上昇|下落|儲か|もうか|利益が出)/,
+  /(?:損をしない|損はしない|元本保証)/,
+  /(?:買い|購入|売り)を(?:推奨|おすすめ|お勧め|勧め)/,
+];
+
+/**
+ * 文末として許容する文字
+ */
+const SENTENCE_ENDINGS = /[。．.！!？?」』）)]$/;
+
+/**
+ * 英文とみなす連続した英単語の数
+ */
+const ENGLISH_SENTENCE_MIN_WORDS = 6;
+
+/**
+ * 英文とみなす連続した英単語
+ */
+const ENGLISH_SENTENCE_PATTERN = new RegExp(
+  `[A-Za-z][A-Za-z'’-]*(?:[ ,]+[A-Za-z][A-Za-z'’-]*){${ENGLISH_SENTENCE_MIN_WORDS - 1},}`,
+  'g'
+);
+
+/**
+ * 英字の比率の上限(空白を除く全文字数に対する割合)
+ */
+const MAX_LATIN_RATIO = 0.2;
+
+/**
+ * 数値(「1万2000」「1.5兆」などの単位付きの表記を含む)
+ */
+const NUMBER_PATTERN = /\d[\d,]*(?:\.\d+)?(?:[兆億万]\d[\d,]*(?:\.\d+)?)*[兆億万]?/g;
+
+/**
+ * 数値の単位
+ */
+const NUMBER_UNITS: Record<string, number> = { 兆: 1e12, 億: 1e8, 万: 1e4 };
+
+/**
+ * 英字の固有名詞(大文字で始まる単語・略語)
+ */
+const PROPER_NOUN_PATTERN = /[A-Z][A-Za-z0-9&.'’-]*[A-Za-z0-9]/g;
+
+/**
+ * 数値を有効数字の並びに変換
+ *
+ * 単位(兆・億・万、million・billionなど)の違いを吸収して比較するため、
+ * 小数点と前後の0を除いた数字の並びにします(例: 1万2000 → "12"、1.2 → "12")。
+ *
+ * @param text - 数値の表記
+ * @returns 有効数字の並び(0の場合は空文字)
+ */
+function toSignificantDigits(text: string): string {
+  let value = 0;
+  let current = '';
+
+  for (const char of text.replace(/,/g, '')) {
+    const unit = NUMBER_UNITS[char];
+    if (unit) {
+      value += Number(current || '1') * unit;
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  value += Number(current || '0');
+
+  // 浮動小数点の誤差を丸める
+  const normalized = String(Math.round(value * 1e6) / 1e6);
+  return normalized.replace('.', '').replace(/^0+/, '').replace(/0+$/, '');
+}
+
+/**
+ * 元記事のテキストを結合
+ *
+ * @param articles - 元記事
+ * @returns 結合したテキスト
+ */
+function joinArticleText(articles: NewsArticle[]): string {
+  return articles
+    .map((article) =>
+      [article.title, article.description, article.content, article.source, article.publishedAt]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n');
+}
+
+/**
+ * 要約中の数値が元記事に含まれているか検証
+ *
+ * 1桁の整数は「3つのポイント」などの数え方として使われるため対象外とします。
+ *
+ * @param input - 検証対象
+ * @returns 検出した問題
+ */
+export const checkNumbersInSources: SummaryQualityCheck = ({ summary, articles }) => {
+  const sourceDigits = new Set(
+    (joinArticleText(articles).match(NUMBER_PATTERN) ?? []).map(toSignificantDigits)
+  );
+
+  const unsupported = new Set<string>();
+  for (const number of summary.match(NUMBER_PATTERN) ?? []) {
+    const digits = toSignificantDigits(number);
+    if (/^\d$/.test(number) || digits === '' || sourceDigits.has(digits)) {
+      continue;
+    }
+    unsupported.add(number);
+  }
+
+  return [...unsupported].map((number) => ({
+    type: 'unsupported-number' as const,
+    message: `元記事にない数値「${number}」が含まれています。`,
+  }));
+};
+
+/**
+ * 要約中の英字の固有名詞が元記事に含まれているか検証
+ *
+ * 日本語の固有名詞は表記の揺れ(カタカナ表記など)が大きいため、
+ * 英字で書かれた企業名・略語などを対象とします。
+ *
+ * @param input - 検証対象
+ * @returns 検出した問題
+ */
+export const checkProperNounsInSources: SummaryQualityCheck = ({ summary, articles }) => {
+  const sourceText = joinArticleText(articles).toLowerCase();
+
+  const unsupported = new Set<string>();
+  for (const noun of summary.match(PROPER_NOUN_PATTERN) ?? []) {
+    if (COMMON_FINANCE_TERMS.includes(noun) || sourceText.includes(noun.toLowerCase())) {
+      continue;
+    }
+    unsupported.add(noun);
+  }
+
+  return [...unsupported].map((noun) => ({
+    type: 'unsupported-proper-noun' as const,
+    message: `元記事にない固有名詞「${noun}」が含まれています。`,
+  }));
+};
+
+/**
+ * 投資助言に当たる表現が含まれていないか検証
+ *
+ * @param input - 検証対象
+ * @returns 検出した問題
+ */
+export const checkInvestmentAdvice: SummaryQualityCheck = ({ summary }) =>
+  INVESTMENT_ADVICE_PATTERNS.flatMap((pattern) => {
+    const match = summary.match(pattern);
+    return match
+      ? [
+          {
+            type: 'investment-advice' as const,
+            message: `投資助言に当たる表現「${match[0]}」が含まれています。売買の推奨や値動きの断定はしないでください。`,
+          },
+        ]
+      : [];
+  });
+
+/**
+ * 文の途中で途切れていないか検証
+ *
+ * @param input - 検証対象
+ * @returns 検出した問題
+ */
+export const checkTruncatedEnding: SummaryQualityCheck = ({ summary, stopReason }) => {
+  // Markdownの強調記号は文末の判定から除く
+  const trimmed = summary.trim().replace(/[*_\s]+$/, '');
+
+  if (stopReason !== 'max_tokens' && SENTENCE_ENDINGS.test(trimmed)) {
+    return [];
+  }
+
+  return [
+    {
+      type: 'truncated',
+      message: '要約が文の途中で途切れています。最後の文まで書き切ってください。',
+    },
+  ];
+};
+
+/**
+ * 英文がそのまま残っていないか検証
+ *
+ * 連続した英単語(英文)または英字の比率が高い場合に問題とします。
+ *
+ * @param input - 検証対象
+ * @returns 検出した問題
+ */
+export const checkEnglishLeakage: SummaryQualityCheck = ({ summary }) => {
+  const sentence = summary.match(ENGLISH_SENTENCE_PATTERN)?.[0];
+  if (sentence) {
+    return [
+      {
+        type: 'english-leakage',
+        message: `英文「${sentence}」が翻訳されずに残っています。日本語に翻訳してください。`,
+      },
+    ];
+  }
+
+  const characters = summary.replace(/\s/g, '');
+  const latinCount = (characters.match(/[A-Za-z]/g) ?? []).length;
+  if (characters.length > 0 && latinCount / characters.length > MAX_LATIN_RATIO) {
+    return [
+      {
+        type: 'english-leakage',
+        message: '英語の記述が多く含まれています。日本語で要約してください。',
+      },
+    ];
+  }
+
+  return [];
+};
+
+/**
+ * デフォルトの検証項目
+ */
+export const DEFAULT_SUMMARY_QUALITY_CHECKS: readonly SummaryQualityCheck[] = [
+  checkNumbersInSources,
+  checkProperNounsInSources,
+  checkInvestmentAdvice,
+  checkTruncatedEnding,
+  checkEnglishLeakage,
+];
+
+/**
+ * 要約の品質を検証
+ *
+ * @param input - 検証対象
+ * @param checks - 検証項目
+ * @returns 検証結果
+ *
+ * @example
+ * ```typescript
+ * const quality = validateSummaryQuality({ summary, articles });
+ * if (!quality.passed) {
+ *   console.log(quality.issues.map((issue) => issue.message));
+ * }
+ * ```
+ */
+export function validateSummaryQuality(
+  input: SummaryQualityInput,
+  checks: readonly SummaryQualityCheck[] = DEFAULT_SUMMARY_QUALITY_CHECKS
+): SummaryQualityResult {
+  const issues = checks.flatMap((check) => check(input));
+  return { passed: issues.length === 0, issues };
+}
+
+/**
+ * 品質の問題を再生成用のプロンプトの追記に変換
+ *
+ * @param issues - 品質の問題
+ * @returns プロンプトに追記するテキスト
+ */
+export function buildSummaryQualityFeedback(issues: SummaryQualityIssue[]): string {
+  return `
+
+## 前回の要約の問題点
+前回作成した要約には以下の問題がありました。これらを修正して要約を作成し直してください。
+${issues.map((issue) => `- ${issue.message}`).join('\n')}`;
+}
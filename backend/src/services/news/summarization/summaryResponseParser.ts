@@ -3,12 +3,39 @@
  * Task 4.3, 4.4: 要約レスポンスパース機能、要約文字数検証機能
  *
  * Claude APIからのレスポンスを解析し、要約文を抽出・検証します。
+ * 構造化出力(ツールSUMMARY_OUTPUT_TOOLの入力)を優先し、得られない場合はテキストを要約文とします。
  *
- * Requirements: 1.4 (複数記事を約2000文字に要約)
+ * Requirements:
+ * - 1.4 (複数記事を約2000文字に要約)
+ * - 構造化出力(ツールの入力のスキーマ検証、テキストのパーサーへのフォールバック)
  */
 
 import { ClaudeResponse } from '../../claudeClient';
-import { SUMMARY_CONFIG } from './newsSummaryPrompt';
+import { SUMMARY_CONFIG, SummaryLengthRange } from './newsSummaryPrompt';
+import type { LlmToolDefinition } from '../../llm/llmProvider';
+import { parseStructuredOutput } from '../../llm/structuredOutput';
+
+/**
+ * 要約の構造化出力に使用するツール
+ *
+ * 要約時にこのツールの呼び出しを強制し、要約文をスキーマに従うJSONとして出力させます。
+ */
+export const SUMMARY_OUTPUT_TOOL: LlmToolDefinition = {
+  name: 'record_summary',
+  description: '作成したニュースの要約文を記録します。',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      summary: {
+        type: 'string',
+        minLength: 1,
+        description: '日本語の要約文(Markdown形式、指定された文字数)',
+      },
+    },
+    required: ['summary'],
+    additionalProperties: false,
+  },
+};
 
 /**
  * 要約パース結果
@@ -78,16 +105,52 @@ export function parseSummaryResponse(response: ClaudeResponse): SummaryParseResu
   };
 }
 
+/**
+ * 構造化出力を優先して要約情報を抽出
+ *
+ * ツールの入力がスキーマに従っている場合はその要約文を使用し、
+ * 得られない・スキーマに従っていない場合はparseSummaryResponseでテキストを解析します。
+ * どちらの経路で解析したかはStructuredOutputMetricsに記録します
+ * (どちらからも要約文が得られない場合は空の要約文を返し、文字数の検証で検出します)。
+ *
+ * @param response - SUMMARY_OUTPUT_TOOLを指定して送信したレスポンス
+ * @param operation - 操作名(集計用)
+ * @returns パース結果
+ */
+export function parseStructuredSummaryResponse(
+  response: ClaudeResponse,
+  operation: string
+): SummaryParseResult {
+  const result = parseStructuredOutput<SummaryParseResult>(response, {
+    operation,
+    tool: SUMMARY_OUTPUT_TOOL,
+    fromToolInput: (input) =>
+      parseSummaryResponse({ ...response, content: input.summary as string }),
+    parseText: (textResponse) => {
+      const textResult = parseSummaryResponse(textResponse);
+      return textResult.characterCount > 0
+        ? { success: true, value: textResult }
+        : { success: false, error: 'レスポンスが空です。' };
+    },
+  });
+
+  return result.success ? result.value : parseSummaryResponse({ ...response, content: '' });
+}
+
 /**
  * 要約文の文字数を検証
  *
- * 要約文が許容範囲(1800〜2200文字)内かどうかをチェックします。
+ * 要約文が許容範囲(デフォルトは1800〜2200文字)内かどうかをチェックします。
  * 範囲外の場合は警告メッセージを含む結果を返します。
  *
  * @param summary - 検証する要約文
+ * @param range - 許容文字数の範囲(カテゴリ別要約など短い要約の検証に使用)
  * @returns 検証結果
  */
-export function validateSummaryLength(summary: string): SummaryValidationResult {
+export function validateSummaryLength(
+  summary: string,
+  range: SummaryLengthRange = SUMMARY_CONFIG
+): SummaryValidationResult {
   const characterCount = countCharacters(summary);
 
   // 空の要約は無効
@@ -100,20 +163,20 @@ export function validateSummaryLength(summary: string): SummaryValidationResult
   }
 
   // 最小文字数未満
-  if (characterCount < SUMMARY_CONFIG.minCharacters) {
+  if (characterCount < range.minCharacters) {
     return {
       isValid: false,
       characterCount,
-      warning: `要約文が短すぎます(${characterCount}文字)。目標は${SUMMARY_CONFIG.minCharacters}〜${SUMMARY_CONFIG.maxCharacters}文字です。`,
+      warning: `要約文が短すぎます(${characterCount}文字)。目標は${range.minCharacters}〜${range.maxCharacters}文字です。`,
     };
   }
 
   // 最大文字数超過
-  if (characterCount > SUMMARY_CONFIG.maxCharacters) {
+  if (characterCount > range.maxCharacters) {
     return {
       isValid: false,
       characterCount,
-      warning: `要約文が長すぎます(${characterCount}文字)。目標は${SUMMARY_CONFIG.minCharacters}〜${SUMMARY_CONFIG.maxCharacters}文字です。`,
+      warning: `要約文が長すぎます(${characterCount}文字)。目標は${range.minCharacters}〜${range.maxCharacters}文字です。`,
     };
   }
 
@@ -0,0 +1,289 @@
+/**
+ * バッチ通知の送信テスト
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ */
+
+import { Notifier, createNotifierFromEnv, createDedupeKey } from '../notifier';
+import {
+  BatchNotification,
+  NotificationChannel,
+  NotificationSeverity,
+} from '../notificationTypes';
+import {
+  InMemoryNotificationDedupStore,
+  SupabaseNotificationDedupStore,
+} from '../notificationDedupStore';
+import { PartialSuccessHandler } from '../../news/batch/newsBatchPartialSuccessHandler';
+import { NewsBatchResult } from '../../news/batch/newsBatchService';
+
+/**
+ * upsert().select() の結果
+ */
+let upsertResult: { data: unknown[] | null; error: { message: string } | null };
+const mockUpsert = jest.fn();
+const mockDeleteEq = jest.fn();
+
+const mockSupabaseClient = {
+  from: jest.fn(() => ({
+    upsert: (...args: unknown[]) => {
+      mockUpsert(...args);
+      return { select: () => Promise.resolve(upsertResult) };
+    },
+    delete: () => ({
+      eq: (...args: unknown[]) => {
+        mockDeleteEq(...args);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  })),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+/**
+ * テスト用のチャネルを作成
+ */
+function createChannel(
+  id: string,
+  minSeverity: NotificationSeverity,
+  send: jest.Mock = jest.fn().mockResolvedValue(undefined)
+): NotificationChannel & { send: jest.Mock } {
+  return { id, minSeverity, send };
+}
+
+/**
+ * テスト用の通知を作成
+ */
+function createNotification(severity: NotificationSeverity): BatchNotification {
+  return {
+    title: 'ニュースバッチ処理部分成功 (2026-01-10)',
+    message: '世界ニュースのみ正常に処理されました。',
+    severity,
+    timestamp: new Date('2026-01-10T08:00:00.000Z'),
+    details: { failureReasons: [] },
+  };
+}
+
+const context = { job: 'news' as const, date: '2026-01-10' };
+
+describe('Notifier', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    upsertResult = { data: [{ dedupe_key: 'key' }], error: null };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('重要度による振り分け', () => {
+    it('通知の重要度が最低重要度以上のチャネルにのみ送信する', async () => {
+      const infoChannel = createChannel('info-channel', 'info');
+      const warningChannel = createChannel('warning-channel', 'warning');
+      const errorChannel = createChannel('error-channel', 'error');
+      const notifier = new Notifier({ channels: [infoChannel, warningChannel, errorChannel] });
+
+      const result = await notifier.notify(createNotification('warning'), context);
+
+      expect(result).toEqual({
+        status: 'sent',
+        sentChannels: ['info-channel', 'warning-channel'],
+        failedChannels: [],
+      });
+      expect(infoChannel.send).toHaveBeenCalledWith(createNotification('warning'), context);
+      expect(errorChannel.send).not.toHaveBeenCalled();
+    });
+
+    it('対象のチャネルがない場合は送信記録を残さずskippedを返す', async () => {
+      const dedupStore = new InMemoryNotificationDedupStore();
+      const claimSpy = jest.spyOn(dedupStore, 'claim');
+      const notifier = new Notifier({
+        channels: [createChannel('slack', 'warning')],
+        dedupStore,
+      });
+
+      const result = await notifier.notify(createNotification('info'), context);
+
+      expect(result.status).toBe('skipped');
+      expect(claimSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('重複送信の防止', () => {
+    it('同じ日付・同じ内容の通知は1回だけ送信する', async () => {
+      const channel = createChannel('slack', 'warning');
+      const notifier = new Notifier({ channels: [channel] });
+
+      const first = await notifier.notify(createNotification('warning'), context);
+      const retried = await notifier.notify(createNotification('warning'), context);
+
+      expect(first.status).toBe('sent');
+      expect(retried.status).toBe('duplicate');
+      expect(channel.send).toHaveBeenCalledTimes(1);
+    });
+
+    it('内容や日付が異なる通知は別の通知として送信する', async () => {
+      const channel = createChannel('slack', 'warning');
+      const notifier = new Notifier({ channels: [channel] });
+
+      await notifier.notify(createNotification('warning'), context);
+      await notifier.notify(createNotification('error'), context);
+      await notifier.notify(createNotification('warning'), { ...context, date: '2026-01-11' });
+
+      expect(channel.send).toHaveBeenCalledTimes(3);
+    });
+
+    it('重複判定キーはバッチの種類・日付・重要度を含む', () => {
+      const key = createDedupeKey(createNotification('warning'), context);
+
+      expect(key).toMatch(/^news:2026-01-10:warning:[0-9a-f]{16}$/);
+      expect(createDedupeKey(createNotification('warning'), { ...context, runId: 'other' })).toBe(
+        key
+      );
+    });
+  });
+
+  describe('送信失敗', () => {
+    it('一部のチャネルで失敗した場合はpartialを返す', async () => {
+      const failing = createChannel(
+        'webhook',
+        'warning',
+        jest.fn().mockRejectedValue(new Error('status 500'))
+      );
+      const notifier = new Notifier({ channels: [failing, createChannel('slack', 'warning')] });
+
+      const result = await notifier.notify(createNotification('error'), context);
+
+      expect(result).toEqual({
+        status: 'partial',
+        sentChannels: ['slack'],
+        failedChannels: [{ channelId: 'webhook', error: 'status 500' }],
+      });
+    });
+
+    it('全チャネルで失敗した場合は送信記録を解放し、次回の実行で再送する', async () => {
+      const send = jest
+        .fn()
+        .mockRejectedValueOnce(new Error('connection refused'))
+        .mockResolvedValueOnce(undefined);
+      const channel = createChannel('slack', 'warning', send);
+      const notifier = new Notifier({ channels: [channel] });
+
+      const first = await notifier.notify(createNotification('error'), context);
+      const retried = await notifier.notify(createNotification('error'), context);
+
+      expect(first.status).toBe('failed');
+      expect(retried.status).toBe('sent');
+      expect(send).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('部分成功ハンドラーとの連携', () => {
+    it('PartialSuccessHandlerの通知をそのまま送信できる', async () => {
+      const channel = createChannel('slack', 'warning');
+      const notifier = new Notifier({ channels: [channel] });
+      const handler = new PartialSuccessHandler();
+      const batchResult = {
+        success: false,
+        partialSuccess: true,
+        worldNews: { title: 'world' },
+        errors: [{ type: 'japan-news-fetch', message: 'RSS error', timestamp: new Date() }],
+      } as unknown as NewsBatchResult;
+
+      const result = await notifier.notify(
+        handler.createNotification(handler.analyze(batchResult), '2026-01-10'),
+        context
+      );
+
+      expect(result.status).toBe('sent');
+      expect(channel.send.mock.calls[0][0]).toMatchObject({
+        severity: 'warning',
+        details: { failedNews: ['japan'], failureReasons: ['RSS error'] },
+      });
+    });
+  });
+
+  describe('SupabaseNotificationDedupStore', () => {
+    const entry = {
+      dedupe_key: 'news:2026-01-10:warning:abc',
+      job: 'news' as const,
+      date: '2026-01-10',
+      severity: 'warning' as const,
+      title: 'title',
+    };
+
+    it('送信記録を挿入できた場合は送信権を確保する', async () => {
+      const store = new SupabaseNotificationDedupStore();
+
+      await expect(store.claim(entry)).resolves.toBe(true);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('notification_deliveries');
+      expect(mockUpsert).toHaveBeenCalledWith(entry, {
+        onConflict: 'dedupe_key',
+        ignoreDuplicates: true,
+      });
+    });
+
+    it('送信記録が既にある場合は送信権を確保しない', async () => {
+      upsertResult = { data: [], error: null };
+      const store = new SupabaseNotificationDedupStore();
+
+      await expect(store.claim(entry)).resolves.toBe(false);
+    });
+
+    it('Supabaseのエラー時は通知の取りこぼしを避けるため送信を許可する', async () => {
+      upsertResult = { data: null, error: { message: 'connection refused' } };
+      const store = new SupabaseNotificationDedupStore();
+
+      await expect(store.claim(entry)).resolves.toBe(true);
+    });
+
+    it('送信権を解放すると送信記録を削除する', async () => {
+      const store = new SupabaseNotificationDedupStore();
+
+      await store.release(entry.dedupe_key);
+
+      expect(mockDeleteEq).toHaveBeenCalledWith('dedupe_key', entry.dedupe_key);
+    });
+  });
+
+  describe('createNotifierFromEnv', () => {
+    const originalEnv = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...originalEnv };
+    });
+
+    it('環境変数が設定されているチャネルのみを登録する', () => {
+      Object.keys(process.env)
+        .filter((name) => name.startsWith('NOTIFY_'))
+        .forEach((name) => delete process.env[name]);
+      process.env.NOTIFY_SLACK_WEBHOOK_URL = 'https://hooks.slack.com/services/x';
+      process.env.NOTIFY_SMTP_HOST = 'smtp.example.com';
+      process.env.NOTIFY_EMAIL_FROM = 'batch@example.com';
+      process.env.NOTIFY_EMAIL_TO = 'ops@example.com';
+
+      const notifier = createNotifierFromEnv({ dedupStore: new InMemoryNotificationDedupStore() });
+
+      expect(notifier.getChannelIds()).toEqual(['slack', 'email']);
+    });
+
+    it('通知の環境変数が未設定の場合は何も送信しない', async () => {
+      Object.keys(process.env)
+        .filter((name) => name.startsWith('NOTIFY_'))
+        .forEach((name) => delete process.env[name]);
+
+      const notifier = createNotifierFromEnv();
+      const result = await notifier.notify(createNotification('error'), context);
+
+      expect(notifier.getChannelIds()).toEqual([]);
+      expect(result.status).toBe('skipped');
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * SMTPクライアント・メール通知チャネルテスト
+ *
+ * ローカルのSMTPサーバー(スタンドイン)を送信先として、実際にSMTPで送信して検証します。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ */
+
+import * as net from 'net';
+import { AddressInfo } from 'net';
+import { sendMail, buildMailData, SmtpError, SmtpConnectionConfig } from '../smtpClient';
+import { EmailChannel } from '../emailChannel';
+import { BatchNotification, NotificationDeliveryError } from '../notificationTypes';
+
+/**
+ * スタンドインが受信したメール
+ */
+interface ReceivedMail {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * メールのデータ部から本文(Base64)をデコードする
+ */
+function decodeBody(data: string): string {
+  const [, body] = data.split('\r\n\r\n');
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('smtpClient', () => {
+  let server: net.Server;
+  let port: number;
+  let received: ReceivedMail[];
+  let rejectedRecipients: string[];
+  let silent: boolean;
+  let stallStartTls: boolean;
+
+  beforeAll(async () => {
+    server = net.createServer((socket) => {
+      if (silent) {
+        return;
+      }
+      const mail: ReceivedMail = { commands: [], data: '' };
+      let buffer = '';
+      let dataMode = false;
+      let tlsRequested = false;
+      socket.write('220 localhost ESMTP stand-in\r\n');
+
+      socket.on('data', (chunk) => {
+        // STARTTLSの応答後はTLSのハンドシェイクに応答しない
+        if (tlsRequested) {
+          return;
+        }
+        buffer += chunk.toString('utf8');
+        let index: number;
+        while ((index = buffer.indexOf('\r\n')) !== -1) {
+          const line = buffer.slice(0, index);
+          buffer = buffer.slice(index + 2);
+
+          if (dataMode) {
+            if (line === '.') {
+              dataMode = false;
+              received.push(mail);
+              socket.write('250 2.0.0 queued\r\n');
+            } else {
+              mail.data += `${line}\r\n`;
+            }
+            continue;
+          }
+
+          mail.commands.push(line);
+          const verb = line.split(/[ :]/)[0].toUpperCase();
+          if (verb === 'EHLO') {
+            socket.write(
+              stallStartTls
+                ? '250-localhost\r\n250-STARTTLS\r\n250 8BITMIME\r\n'
+                : '250-localhost\r\n250-AUTH PLAIN\r\n250 8BITMIME\r\n'
+            );
+          } else if (verb === 'STARTTLS') {
+            tlsRequested = true;
+            socket.write('220 2.0.0 ready to start TLS\r\n');
+          } else if (verb === 'AUTH') {
+            socket.write('235 2.7.0 authenticated\r\n');
+          } else if (verb === 'MAIL') {
+            socket.write('250 2.1.0 ok\r\n');
+          } else if (verb === 'RCPT') {
+            const address = line.match(/<([^>]+)>/)?.[1] ?? '';
+            socket.write(
+              rejectedRecipients.includes(address) ? '550 5.1.1 no such user\r\n' : '250 2.1.5 ok\r\n'
+            );
+          } else if (verb === 'DATA') {
+            dataMode = true;
+            socket.write('354 end data with <CR><LF>.<CR><LF>\r\n');
+          } else if (verb === 'QUIT') {
+            socket.end('221 2.0.0 bye\r\n');
+          } else {
+            socket.write('502 5.5.2 command not recognized\r\n');
+          }
+        }
+      });
+      socket.on('error', () => undefined);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    rejectedRecipients = [];
+    silent = false;
+    stallStartTls = false;
+  });
+
+  const smtp = (): SmtpConnectionConfig => ({ host: '127.0.0.1', port, timeoutMs: 2000 });
+
+  describe('sendMail', () => {
+    it('認証してメールを送信する', async () => {
+      // テスト用のサーバーはSTARTTLSに対応していないため、暗号化せずに認証する
+      await sendMail(
+        { ...smtp(), user: 'notifier', password: 'pass', allowInsecureAuth: true },
+        {
+          from: 'Batch <batch@example.com>',
+          to: ['ops@example.com', 'dev@example.com'],
+          subject: 'ニュースバッチ処理失敗',
+          text: '1行目\n2行目',
+        }
+      );
+
+      expect(received).toHaveLength(1);
+      const [mail] = received;
+      expect(mail.commands).toEqual([
+        'EHLO localhost',
+        `AUTH PLAIN ${Buffer.from('\u0000notifier\u0000pass').toString('base64')}`,
+        'MAIL FROM:<batch@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'RCPT TO:<dev@example.com>',
+        'DATA',
+      ]);
+      expect(mail.data).toContain('From: Batch <batch@example.com>\r\n');
+      expect(mail.data).toContain('To: ops@example.com, dev@example.com\r\n');
+      expect(mail.data).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from('ニュースバッチ処理失敗').toString('base64')}?=\r\n`
+      );
+      expect(mail.data).toContain('Content-Type: text/plain; charset=UTF-8\r\n');
+      expect(decodeBody(mail.data)).toBe('1行目\r\n2行目');
+    });
+
+    it('STARTTLSに対応していないサーバーには認証情報を送信せずにSmtpErrorをスローする', async () => {
+      const error = await sendMail(
+        { ...smtp(), user: 'notifier', password: 'pass' },
+        { from: 'batch@example.com', to: ['ops@example.com'], subject: 'subject', text: 'body' }
+      ).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(SmtpError);
+      expect((error as SmtpError).message).toContain('STARTTLS');
+      expect(received).toHaveLength(0);
+    });
+
+    it('ユーザー名を指定しない場合は認証しない', async () => {
+      await sendMail(smtp(), {
+        from: 'batch@example.com',
+        to: ['ops@example.com'],
+        subject: 'ASCII subject',
+        text: 'body',
+      });
+
+      expect(received[0].commands.some((command) => command.startsWith('AUTH'))).toBe(false);
+      expect(received[0].data).toContain('Subject: ASCII subject\r\n');
+    });
+
+    it('送信先が拒否された場合は応答コード付きのSmtpErrorをスローする', async () => {
+      rejectedRecipients = ['unknown@example.com'];
+
+      const promise = sendMail(smtp(), {
+        from: 'batch@example.com',
+        to: ['unknown@example.com'],
+        subject: 'subject',
+        text: 'body',
+      });
+
+      await expect(promise).rejects.toThrow(SmtpError);
+      await expect(promise).rejects.toMatchObject({ replyCode: 550 });
+      expect(received).toHaveLength(0);
+    });
+
+    it('サーバーが応答しない場合はタイムアウトする', async () => {
+      silent = true;
+
+      await expect(
+        sendMail(
+          { ...smtp(), timeoutMs: 100 },
+          { from: 'batch@example.com', to: ['ops@example.com'], subject: 's', text: 'b' }
+        )
+      ).rejects.toThrow('did not respond within 100ms');
+    });
+
+    it('STARTTLSのハンドシェイクが停止した場合はタイムアウトする', async () => {
+      stallStartTls = true;
+
+      await expect(
+        sendMail(
+          { ...smtp(), timeoutMs: 100 },
+          { from: 'batch@example.com', to: ['ops@example.com'], subject: 's', text: 'b' }
+        )
+      ).rejects.toThrow('STARTTLS negotiation timed out after 100ms');
+    });
+
+    it('接続できない場合はSmtpErrorをスローする', async () => {
+      await expect(
+        sendMail(
+          { host: '127.0.0.1', port: 1, timeoutMs: 1000 },
+          { from: 'batch@example.com', to: ['ops@example.com'], subject: 's', text: 'b' }
+        )
+      ).rejects.toThrow(SmtpError);
+    });
+  });
+
+  describe('buildMailData', () => {
+    it('本文を76文字ごとに折り返し、終端の"."を付ける', () => {
+      const data = buildMailData({
+        from: 'batch@example.com',
+        to: ['ops@example.com'],
+        subject: 'subject',
+        text: 'あ'.repeat(100),
+      });
+
+      const body = data.split('\r\n\r\n')[1];
+      // [76文字 x 5行, 残り, '.', '']
+      const lines = body.split('\r\n');
+      expect(lines.slice(0, 5).every((line) => line.length === 76)).toBe(true);
+      expect(lines[5].length).toBeLessThan(76);
+      expect(data.endsWith('\r\n.\r\n')).toBe(true);
+    });
+  });
+
+  describe('EmailChannel', () => {
+    const notification: BatchNotification = {
+      title: '用語バッチ処理失敗 (2026-01-10)',
+      message: 'すべての用語の生成に失敗しました。',
+      severity: 'error',
+      timestamp: new Date('2026-01-10T08:00:00.000Z'),
+      details: {
+        generatedCount: 0,
+        missingDifficulties: ['beginner', 'intermediate', 'advanced'],
+        failureReasons: [],
+      },
+    };
+
+    it('通知をメールで送信する', async () => {
+      const channel = new EmailChannel({
+        smtp: smtp(),
+        from: 'batch@example.com',
+        to: ['ops@example.com'],
+      });
+
+      await channel.send(notification, { job: 'terms', date: '2026-01-10', runId: 'run-1' });
+
+      expect(channel.minSeverity).toBe('error');
+      expect(received).toHaveLength(1);
+      expect(received[0].data).toContain(
+        `Subject: =?UTF-8?B?${Buffer.from(`[ERROR] ${notification.title}`).toString('base64')}?=`
+      );
+      const body = decodeBody(received[0].data);
+      expect(body).toContain(notification.message);
+      expect(body).toContain('バッチ: terms');
+      expect(body).toContain('実行ID: run-1');
+      expect(body).toContain('missingDifficulties: beginner, intermediate, advanced');
+      expect(body).toContain('failureReasons: -');
+    });
+
+    it('送信に失敗した場合はNotificationDeliveryErrorをスローする', async () => {
+      rejectedRecipients = ['ops@example.com'];
+      const channel = new EmailChannel({
+        smtp: smtp(),
+        from: 'batch@example.com',
+        to: ['ops@example.com'],
+      });
+
+      await expect(
+        channel.send(notification, { job: 'terms', date: '2026-01-10' })
+      ).rejects.toThrow(NotificationDeliveryError);
+    });
+  });
+});
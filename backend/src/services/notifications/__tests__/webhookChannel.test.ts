@@ -0,0 +1,145 @@
+/**
+ * Webhook通知チャネルテスト
+ *
+ * ローカルのHTTPサーバーを送信先として、実際にHTTPリクエストを送信して検証します。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookChannel, SlackWebhookChannel } from '../webhookChannel';
+import { BatchNotification, NotificationDeliveryError } from '../notificationTypes';
+
+/**
+ * 受信したリクエスト
+ */
+interface ReceivedRequest {
+  method?: string;
+  headers: http.IncomingHttpHeaders;
+  body: unknown;
+}
+
+describe('WebhookChannel', () => {
+  let server: http.Server;
+  let url: string;
+  let received: ReceivedRequest[];
+  let responseStatus: number;
+  let responseDelayMs: number;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, headers: req.headers, body: JSON.parse(body) });
+        setTimeout(() => {
+          res.statusCode = responseStatus;
+          res.end('ok');
+        }, responseDelayMs);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+    responseDelayMs = 0;
+  });
+
+  const notification: BatchNotification = {
+    title: 'ニュースバッチ処理部分成功 (2026-01-10)',
+    message: '世界ニュースのみ正常に処理されました。日本ニュースの取得に失敗しました。',
+    severity: 'warning',
+    timestamp: new Date('2026-01-10T08:00:00.000Z'),
+    details: {
+      successfulNews: ['world'],
+      failedNews: ['japan'],
+      failureReasons: ['RSS feed unavailable'],
+    },
+  };
+  const context = { job: 'news' as const, date: '2026-01-10', runId: 'run-1' };
+
+  it('通知内容とバッチ実行の情報をJSONでPOSTする', async () => {
+    const channel = new WebhookChannel({ url, headers: { 'X-Token': 'secret' } });
+
+    await channel.send(notification, context);
+
+    expect(received).toHaveLength(1);
+    expect(received[0].method).toBe('POST');
+    expect(received[0].headers['content-type']).toBe('application/json');
+    expect(received[0].headers['x-token']).toBe('secret');
+    expect(received[0].body).toEqual({
+      job: 'news',
+      date: '2026-01-10',
+      runId: 'run-1',
+      title: notification.title,
+      message: notification.message,
+      severity: 'warning',
+      timestamp: '2026-01-10T08:00:00.000Z',
+      details: notification.details,
+    });
+  });
+
+  it('デフォルトの最低重要度はwarning', () => {
+    const channel = new WebhookChannel({ url });
+
+    expect(channel.id).toBe('webhook');
+    expect(channel.minSeverity).toBe('warning');
+  });
+
+  it('エラーステータスの場合はNotificationDeliveryErrorをスローする', async () => {
+    responseStatus = 500;
+    const channel = new WebhookChannel({ url });
+
+    await expect(channel.send(notification, context)).rejects.toThrow(NotificationDeliveryError);
+    await expect(channel.send(notification, context)).rejects.toThrow('status 500');
+  });
+
+  it('タイムアウトした場合はNotificationDeliveryErrorをスローする', async () => {
+    responseDelayMs = 200;
+    const channel = new WebhookChannel({ url, timeoutMs: 50 });
+
+    await expect(channel.send(notification, context)).rejects.toThrow('timed out after 50ms');
+  });
+
+  it('接続できない場合はNotificationDeliveryErrorをスローする', async () => {
+    const channel = new WebhookChannel({ url: 'http://127.0.0.1:1/hook' });
+
+    await expect(channel.send(notification, context)).rejects.toThrow(NotificationDeliveryError);
+  });
+
+  describe('SlackWebhookChannel', () => {
+    it('Slack Incoming Webhook形式のメッセージを送信する', async () => {
+      const channel = new SlackWebhookChannel({ url });
+
+      await channel.send({ ...notification, severity: 'error' }, context);
+
+      expect(channel.id).toBe('slack');
+      expect(received[0].body).toEqual({
+        text: `[ERROR] ${notification.title}`,
+        attachments: [
+          {
+            color: 'danger',
+            text: notification.message,
+            fields: [
+              { title: 'Job', value: 'news', short: true },
+              { title: 'Date', value: '2026-01-10', short: true },
+              { title: 'Run ID', value: 'run-1', short: false },
+              { title: 'Failure reasons', value: 'RSS feed unavailable', short: false },
+            ],
+            ts: Math.floor(notification.timestamp.getTime() / 1000),
+          },
+        ],
+      });
+    });
+  });
+});
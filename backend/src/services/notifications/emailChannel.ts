@@ -0,0 +1,118 @@
+/**
+ * メール通知チャネル
+ *
+ * バッチ通知をSMTPでプレーンテキストのメールとして送信します。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ */
+
+import {
+  BatchNotification,
+  NotificationChannel,
+  NotificationContext,
+  NotificationDeliveryError,
+  NotificationSeverity,
+} from './notificationTypes';
+import { MailMessage, SmtpConnectionConfig, sendMail } from './smtpClient';
+
+/**
+ * メールチャネルの設定
+ */
+export interface EmailChannelConfig {
+  /** SMTPサーバーへの接続設定 */
+  smtp: SmtpConnectionConfig;
+  /** 送信元アドレス */
+  from: string;
+  /** 送信先アドレス */
+  to: string[];
+  /**
+   * 送信する通知の最低重要度
+   * @default 'error'
+   */
+  minSeverity?: NotificationSeverity;
+  /**
+   * メール送信関数(テスト用に差し替え可能)
+   * @default sendMail
+   */
+  sendMail?: (smtp: SmtpConnectionConfig, message: MailMessage) => Promise<void>;
+}
+
+/**
+ * 詳細情報の値を本文用の文字列に変換
+ */
+function formatDetailValue(value: unknown): string {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '-';
+  }
+  return String(value);
+}
+
+/**
+ * メール通知チャネル
+ *
+ * @example
+ * const channel = new EmailChannel({
+ *   smtp: { host: 'smtp.example.com', port: 587 },
+ *   from: 'batch@example.com',
+ *   to: ['ops@example.com'],
+ * });
+ */
+export class EmailChannel implements NotificationChannel {
+  readonly id = 'email';
+  readonly minSeverity: NotificationSeverity;
+  private readonly config: EmailChannelConfig;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - メールチャネルの設定
+   */
+  constructor(config: EmailChannelConfig) {
+    this.config = config;
+    this.minSeverity = config.minSeverity ?? 'error';
+  }
+
+  /**
+   * @throws {NotificationDeliveryError} SMTPでの送信に失敗した場合
+   */
+  async send(notification: BatchNotification, context: NotificationContext): Promise<void> {
+    const send = this.config.sendMail ?? sendMail;
+
+    try {
+      await send(this.config.smtp, {
+        from: this.config.from,
+        to: this.config.to,
+        subject: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+        text: this.buildBody(notification, context),
+      });
+    } catch (error) {
+      throw new NotificationDeliveryError(
+        `${this.id} delivery failed: ${error instanceof Error ? error.message : String(error)}`,
+        this.id,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * メール本文を生成
+   */
+  private buildBody(notification: BatchNotification, context: NotificationContext): string {
+    const lines = [
+      notification.message,
+      '',
+      `バッチ: ${context.job}`,
+      `日付: ${context.date}`,
+      ...(context.runId ? [`実行ID: ${context.runId}`] : []),
+      `重要度: ${notification.severity}`,
+      `発生時刻: ${notification.timestamp.toISOString()}`,
+      '',
+      '詳細:',
+      ...Object.entries(notification.details).map(
+        ([key, value]) => `  ${key}: ${formatDetailValue(value)}`
+      ),
+    ];
+    return lines.join('\n');
+  }
+}
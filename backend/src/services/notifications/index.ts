@@ -0,0 +1,42 @@
+/**
+ * バッチ通知モジュール
+ *
+ * 部分成功・失敗したバッチ実行の通知を、Webhook・Slack・メールに送信する機能を提供します。
+ */
+
+export {
+  Notifier,
+  createNotifierFromEnv,
+  createDedupeKey,
+  type NotifierConfig,
+  type NotifyResult,
+  type NotifyStatus,
+} from './notifier';
+
+export {
+  NotificationDeliveryError,
+  meetsMinSeverity,
+  type BatchNotification,
+  type NotificationChannel,
+  type NotificationContext,
+  type NotificationSeverity,
+} from './notificationTypes';
+
+export { WebhookChannel, SlackWebhookChannel, type WebhookChannelConfig } from './webhookChannel';
+
+export { EmailChannel, type EmailChannelConfig } from './emailChannel';
+
+export {
+  sendMail,
+  buildMailData,
+  SmtpError,
+  type SmtpConnectionConfig,
+  type MailMessage,
+} from './smtpClient';
+
+export {
+  InMemoryNotificationDedupStore,
+  SupabaseNotificationDedupStore,
+  NOTIFICATION_DELIVERIES_TABLE,
+  type NotificationDedupStore,
+} from './notificationDedupStore';
@@ -0,0 +1,118 @@
+/**
+ * 通知の重複送信防止
+ *
+ * バッチがリトライ・再実行された場合に、同じ日付・同じ内容の通知を
+ * 繰り返し送信しないよう、送信済みの通知を記録します。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ */
+
+import { getSupabase } from '../../config/supabase';
+import type { NotificationDeliveryInsertPayload } from '../../models/supabase.types';
+
+/**
+ * 送信記録テーブル名
+ */
+export const NOTIFICATION_DELIVERIES_TABLE = 'notification_deliveries';
+
+/**
+ * 送信記録のストア
+ */
+export interface NotificationDedupStore {
+  /**
+   * 通知の送信権を確保する
+   *
+   * @param entry - 送信記録
+   * @returns 未送信で送信権を確保できた場合true、送信済みの場合false
+   */
+  claim(entry: NotificationDeliveryInsertPayload): Promise<boolean>;
+
+  /**
+   * 送信権を解放する(全チャネルへの送信に失敗した場合に再送を可能にする)
+   *
+   * @param dedupeKey - 重複判定キー
+   */
+  release(dedupeKey: string): Promise<void>;
+}
+
+/**
+ * メモリ上の送信記録ストア
+ *
+ * 同じプロセス内でのリトライのみ重複を防止します(テスト・ローカル実行用)。
+ */
+export class InMemoryNotificationDedupStore implements NotificationDedupStore {
+  private readonly keys = new Set<string>();
+
+  async claim(entry: NotificationDeliveryInsertPayload): Promise<boolean> {
+    if (this.keys.has(entry.dedupe_key)) {
+      return false;
+    }
+    this.keys.add(entry.dedupe_key);
+    return true;
+  }
+
+  async release(dedupeKey: string): Promise<void> {
+    this.keys.delete(dedupeKey);
+  }
+}
+
+/**
+ * Supabaseの送信記録ストア
+ *
+ * notification_deliveriesテーブルの主キーで重複を判定するため、
+ * Cronによる再実行など別プロセスでの実行でも重複を防止します。
+ * Supabaseにアクセスできない場合は、通知の取りこぼしを避けるため送信を許可します。
+ */
+export class SupabaseNotificationDedupStore implements NotificationDedupStore {
+  async claim(entry: NotificationDeliveryInsertPayload): Promise<boolean> {
+    try {
+      const { data, error } = await getSupabase()
+        .from(NOTIFICATION_DELIVERIES_TABLE)
+        .upsert(entry, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+        .select('dedupe_key');
+
+      if (error) {
+        console.error(
+          '[SupabaseNotificationDedupStore]',
+          `Failed to record notification delivery: ${error.message}`
+        );
+        return true;
+      }
+
+      // 既に送信記録がある場合は挿入されず、dataが空になる
+      return (data ?? []).length > 0;
+    } catch (error) {
+      console.error(
+        '[SupabaseNotificationDedupStore]',
+        `Failed to record notification delivery: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return true;
+    }
+  }
+
+  async release(dedupeKey: string): Promise<void> {
+    try {
+      const { error } = await getSupabase()
+        .from(NOTIFICATION_DELIVERIES_TABLE)
+        .delete()
+        .eq('dedupe_key', dedupeKey);
+
+      if (error) {
+        console.error(
+          '[SupabaseNotificationDedupStore]',
+          `Failed to release notification delivery: ${error.message}`
+        );
+      }
+    } catch (error) {
+      console.error(
+        '[SupabaseNotificationDedupStore]',
+        `Failed to release notification delivery: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * バッチ通知の型定義
+ *
+ * ニュース・用語バッチの部分成功ハンドラーが生成する通知
+ * (PartialSuccessNotification / TermsPartialSuccessNotification)を
+ * チャネル(Webhook・Slack・メール)に送信するための型を定義します。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ * - 8.2 (98%以上バッチ成功率)
+ */
+
+import type { BatchJob } from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+
+/**
+ * 通知の重要度
+ */
+export type NotificationSeverity = 'info' | 'warning' | 'error';
+
+/**
+ * 重要度の順序(大きいほど重要)
+ */
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+};
+
+/**
+ * 通知の重要度が最低重要度以上かどうか
+ *
+ * @param severity - 通知の重要度
+ * @param minSeverity - チャネルの最低重要度
+ * @returns 送信対象の場合true
+ */
+export function meetsMinSeverity(
+  severity: NotificationSeverity,
+  minSeverity: NotificationSeverity
+): boolean {
+  return SEVERITY_RANK[severity] >= SEVERITY_RANK[minSeverity];
+}
+
+/**
+ * バッチ通知
+ *
+ * PartialSuccessNotification / TermsPartialSuccessNotificationと同じ形
+ */
+export interface BatchNotification {
+  /** 通知タイトル */
+  title: string;
+  /** 通知メッセージ */
+  message: string;
+  /** 重要度 */
+  severity: NotificationSeverity;
+  /** タイムスタンプ */
+  timestamp: Date;
+  /** 詳細情報(バッチの種類ごとに異なる) */
+  details: Record<string, unknown>;
+}
+
+/**
+ * 通知の対象となったバッチ実行
+ */
+export interface NotificationContext {
+  /** バッチの種類 */
+  job: BatchJob;
+  /** 処理対象の日付(YYYY-MM-DD形式) */
+  date: string;
+  /** 実行ID(batch_runs.id、記録している場合) */
+  runId?: string;
+}
+
+/**
+ * 通知チャネル
+ *
+ * 最低重要度以上の通知のみが送信される
+ *
+ * @example
+ * const channel: NotificationChannel = {
+ *   id: 'webhook',
+ *   minSeverity: 'warning',
+ *   send: async (notification, context) => { ... },
+ * };
+ */
+export interface NotificationChannel {
+  /** チャネルID(ログ・送信結果に使用) */
+  readonly id: string;
+  /** 送信する通知の最低重要度 */
+  readonly minSeverity: NotificationSeverity;
+  /**
+   * 通知を送信する
+   *
+   * @throws {NotificationDeliveryError} 送信に失敗した場合
+   */
+  send(notification: BatchNotification, context: NotificationContext): Promise<void>;
+}
+
+/**
+ * 通知の送信エラー
+ */
+export class NotificationDeliveryError extends AppError {
+  /** 送信に失敗したチャネルID */
+  public readonly channelId: string;
+
+  constructor(message: string, channelId: string, originalError?: Error) {
+    super(message, ErrorType.NETWORK, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'NotificationDeliveryError';
+    this.channelId = channelId;
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * バッチ通知の送信
+ *
+ * 部分成功ハンドラーが生成した通知を、重要度に応じてチャネル(Webhook・Slack・メール)に
+ * 振り分けて送信します。同じ日付・同じ内容の通知は重複送信しません。
+ *
+ * 通知の送信に失敗してもバッチ処理の結果には影響させず、ログ出力のみ行います。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ * - 8.2 (98%以上バッチ成功率)
+ */
+
+import { createHash } from 'crypto';
+import { getNotifierEnvConfig } from '../../config/envConfig';
+import {
+  BatchNotification,
+  NotificationChannel,
+  NotificationContext,
+  meetsMinSeverity,
+} from './notificationTypes';
+import {
+  NotificationDedupStore,
+  InMemoryNotificationDedupStore,
+  SupabaseNotificationDedupStore,
+} from './notificationDedupStore';
+import { WebhookChannel, SlackWebhookChannel } from './webhookChannel';
+import { EmailChannel } from './emailChannel';
+
+/**
+ * 通知の送信結果の区分
+ *
+ * - sent: 対象の全チャネルに送信した
+ * - partial: 一部のチャネルへの送信に失敗した
+ * - failed: 全チャネルへの送信に失敗した
+ * - skipped: 重要度を満たすチャネルがない
+ * - duplicate: 送信済みの通知のため送信しなかった
+ */
+export type NotifyStatus = 'sent' | 'partial' | 'failed' | 'skipped' | 'duplicate';
+
+/**
+ * 通知の送信結果
+ */
+export interface NotifyResult {
+  /** 送信結果の区分 */
+  status: NotifyStatus;
+  /** 送信に成功したチャネルID */
+  sentChannels: string[];
+  /** 送信に失敗したチャネルとエラーメッセージ */
+  failedChannels: { channelId: string; error: string }[];
+}
+
+/**
+ * Notifierの設定
+ */
+export interface NotifierConfig {
+  /** 通知チャネル */
+  channels: NotificationChannel[];
+  /**
+   * 送信記録のストア
+   * @default new InMemoryNotificationDedupStore()
+   */
+  dedupStore?: NotificationDedupStore;
+}
+
+/**
+ * 通知の重複判定キーを生成
+ *
+ * バッチの種類・日付・重要度と通知内容から生成するため、
+ * 再実行で結果が変わった場合(例: 2用語→1用語)は別の通知として送信される
+ *
+ * @param notification - バッチ通知
+ * @param context - 通知の対象となったバッチ実行
+ * @returns 重複判定キー
+ */
+export function createDedupeKey(
+  notification: BatchNotification,
+  context: NotificationContext
+): string {
+  const contentHash = createHash('sha256')
+    .update(`${notification.title}\n${notification.message}`)
+    .digest('hex')
+    .slice(0, 16);
+  return `${context.job}:${context.date}:${notification.severity}:${contentHash}`;
+}
+
+/**
+ * バッチ通知の送信
+ *
+ * @example
+ * const notifier = new Notifier({
+ *   channels: [new SlackWebhookChannel({ url, minSeverity: 'warning' })],
+ * });
+ * const handler = new PartialSuccessHandler();
+ * await notifier.notify(handler.createNotification(handler.analyze(result), result.date), {
+ *   job: 'news',
+ *   date: result.date,
+ * });
+ */
+export class Notifier {
+  private readonly channels: NotificationChannel[];
+  private readonly dedupStore: NotificationDedupStore;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - Notifierの設定
+   */
+  constructor(config: NotifierConfig) {
+    this.channels = config.channels;
+    this.dedupStore = config.dedupStore ?? new InMemoryNotificationDedupStore();
+  }
+
+  /**
+   * 登録されているチャネルIDを取得
+   */
+  getChannelIds(): string[] {
+    return this.channels.map((channel) => channel.id);
+  }
+
+  /**
+   * 通知を送信
+   *
+   * 通知の重要度がチャネルの最低重要度以上のチャネルにのみ送信します。
+   * 例外はスローせず、送信結果を返します。
+   *
+   * @param notification - バッチ通知
+   * @param context - 通知の対象となったバッチ実行
+   * @returns 送信結果
+   */
+  async notify(
+    notification: BatchNotification,
+    context: NotificationContext
+  ): Promise<NotifyResult> {
+    const targets = this.channels.filter((channel) =>
+      meetsMinSeverity(notification.severity, channel.minSeverity)
+    );
+
+    if (targets.length === 0) {
+      return { status: 'skipped', sentChannels: [], failedChannels: [] };
+    }
+
+    const dedupeKey = createDedupeKey(notification, context);
+    const claimed = await this.dedupStore.claim({
+      dedupe_key: dedupeKey,
+      job: context.job,
+      date: context.date,
+      severity: notification.severity,
+      title: notification.title,
+    });
+
+    if (!claimed) {
+      console.log('[Notifier]', `Skipped duplicate notification: ${notification.title}`);
+      return { status: 'duplicate', sentChannels: [], failedChannels: [] };
+    }
+
+    const results = await Promise.allSettled(
+      targets.map((channel) => channel.send(notification, context))
+    );
+
+    const sentChannels: string[] = [];
+    const failedChannels: NotifyResult['failedChannels'] = [];
+    results.forEach((result, index) => {
+      const channelId = targets[index].id;
+      if (result.status === 'fulfilled') {
+        sentChannels.push(channelId);
+      } else {
+        const error =
+          result.reason instanceof Error ? result.reason.message : String(result.reason);
+        failedChannels.push({ channelId, error });
+        console.error('[Notifier]', `Failed to send notification via ${channelId}: ${error}`);
+      }
+    });
+
+    // 全チャネルで失敗した場合は、次回の実行で再送できるよう送信記録を解放する
+    if (sentChannels.length === 0) {
+      await this.dedupStore.release(dedupeKey);
+      return { status: 'failed', sentChannels, failedChannels };
+    }
+
+    console.log(
+      '[Notifier]',
+      `Sent ${notification.severity} notification via ${sentChannels.join(', ')}: ${notification.title}`
+    );
+    return {
+      status: failedChannels.length > 0 ? 'partial' : 'sent',
+      sentChannels,
+      failedChannels,
+    };
+  }
+}
+
+/**
+ * 環境変数の設定からNotifierを作成
+ *
+ * 設定されているチャネルのみを登録します(未設定の場合は何も送信しないNotifierになります)。
+ *
+ * @param config - 送信記録のストア(デフォルトはSupabase)
+ * @returns Notifier
+ */
+export function createNotifierFromEnv(config: Pick<NotifierConfig, 'dedupStore'> = {}): Notifier {
+  const env = getNotifierEnvConfig();
+  const channels: NotificationChannel[] = [];
+
+  if (env.webhook) {
+    channels.push(new WebhookChannel(env.webhook));
+  }
+  if (env.slack) {
+    channels.push(new SlackWebhookChannel(env.slack));
+  }
+  if (env.email) {
+    const { host, port, secure, user, password, allowInsecureAuth, from, to, minSeverity } =
+      env.email;
+    channels.push(
+      new EmailChannel({
+        smtp: { host, port, secure, user, password, allowInsecureAuth },
+        from,
+        to,
+        minSeverity,
+      })
+    );
+  }
+
+  return new Notifier({
+    channels,
+    dedupStore: config.dedupStore ?? new SupabaseNotificationDedupStore(),
+  });
+}
@@ -0,0 +1,374 @@
+/**
+ * 最小限のSMTPクライアント
+ *
+ * バッチ通知メールの送信用に、プレーンテキストのメール1通を送信する機能のみを提供します。
+ * SMTPS(暗号化接続)、STARTTLS、AUTH PLAIN認証に対応しています。
+ * 認証する場合は、暗号化されていない接続で認証情報を送信しないようSTARTTLSを必須とします。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc5321 - RFC 5321 (SMTP)
+ * @see https://datatracker.ietf.org/doc/html/rfc4954 - RFC 4954 (SMTP AUTH)
+ */
+
+import * as net from 'net';
+import * as tls from 'tls';
+import { randomUUID } from 'crypto';
+
+/**
+ * 接続・応答待ちのデフォルトタイムアウト(ミリ秒)
+ */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * SMTPサーバーへの接続設定
+ */
+export interface SmtpConnectionConfig {
+  /** SMTPサーバーのホスト名 */
+  host: string;
+  /** SMTPサーバーのポート番号 */
+  port: number;
+  /**
+   * 接続時からTLSを使用するか(SMTPS、通常は465番ポート)
+   * @default false
+   */
+  secure?: boolean;
+  /** 認証ユーザー名(未指定の場合は認証しない) */
+  user?: string;
+  /** 認証パスワード */
+  password?: string;
+  /**
+   * サーバーがSTARTTLSに対応していない場合に、暗号化せずに認証することを許可するか
+   * (認証情報が平文で送信されるため、ローカルの検証用サーバー以外では使用しない)
+   * @default false
+   */
+  allowInsecureAuth?: boolean;
+  /**
+   * 接続・応答待ちのタイムアウト(ミリ秒)
+   * @default 10000
+   */
+  timeoutMs?: number;
+  /**
+   * EHLOで名乗るクライアント名
+   * @default 'localhost'
+   */
+  clientName?: string;
+}
+
+/**
+ * 送信するメール
+ */
+export interface MailMessage {
+  /** 送信元アドレス */
+  from: string;
+  /** 送信先アドレス */
+  to: string[];
+  /** 件名 */
+  subject: string;
+  /** 本文(プレーンテキスト) */
+  text: string;
+}
+
+/**
+ * SMTPサーバーの応答
+ */
+interface SmtpReply {
+  /** 応答コード */
+  code: number;
+  /** 応答メッセージ(複数行の場合は改行区切り) */
+  message: string;
+}
+
+/**
+ * SMTPの送信エラー
+ */
+export class SmtpError extends Error {
+  /**
+   * SMTPサーバーの応答コード(接続エラー等の場合はundefined)
+   */
+  public readonly replyCode?: number;
+
+  constructor(message: string, replyCode?: number) {
+    super(message);
+    this.name = 'SmtpError';
+    this.replyCode = replyCode;
+    Object.setPrototypeOf(this, SmtpError.prototype);
+  }
+}
+
+/**
+ * SMTPセッション
+ *
+ * ソケットから受信した行を応答単位にまとめ、コマンドの送信と応答の待ち受けを行う
+ */
+class SmtpSession {
+  private buffer = '';
+  private lines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null =
+    null;
+  private failure: Error | null = null;
+
+  constructor(
+    readonly socket: net.Socket,
+    timeoutMs: number
+  ) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(timeoutMs, () =>
+      socket.destroy(new SmtpError(`SMTP server did not respond within ${timeoutMs}ms`))
+    );
+    socket.on('data', (chunk: string) => this.receive(chunk));
+    socket.on('error', (error) => this.fail(error));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed unexpectedly')));
+  }
+
+  /**
+   * 次の応答を待つ
+   *
+   * @param expectedCodes - 成功とみなす応答コード
+   * @throws {SmtpError} 想定外の応答コード・接続エラー時
+   */
+  async expect(...expectedCodes: number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    if (!expectedCodes.includes(reply.code)) {
+      throw new SmtpError(`Unexpected SMTP reply: ${reply.code} ${reply.message}`, reply.code);
+    }
+    return reply;
+  }
+
+  /**
+   * コマンドを送信して応答を待つ
+   */
+  async command(line: string, ...expectedCodes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(...expectedCodes);
+  }
+
+  /**
+   * このセッションのイベント処理を解除(STARTTLSでソケットを引き継ぐ場合)
+   */
+  detach(): net.Socket {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+    this.socket.setTimeout(0);
+    return this.socket;
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private receive(chunk: string): void {
+    this.buffer += chunk;
+    const parts = this.buffer.split(/\r?\n/);
+    this.buffer = parts.pop() ?? '';
+
+    for (const line of parts) {
+      this.lines.push(line);
+      // "250-..."は継続行、"250 ..."が最終行
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({
+          code: Number(line.slice(0, 3)),
+          message: this.lines.map((l) => l.slice(4)).join('\n'),
+        });
+        this.lines = [];
+      }
+    }
+
+    if (this.waiter && this.replies.length > 0) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(this.replies.shift() as SmtpReply);
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) {
+      return;
+    }
+    this.failure = error;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(error);
+    }
+  }
+}
+
+/**
+ * SMTPサーバーに接続する
+ */
+function connect(config: SmtpConnectionConfig, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port });
+    const connectEvent = config.secure ? 'secureConnect' : 'connect';
+
+    const timeoutId = setTimeout(() => {
+      socket.destroy();
+      reject(new SmtpError(`SMTP connection timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    socket.once(connectEvent, () => {
+      clearTimeout(timeoutId);
+      socket.removeAllListeners('error');
+      resolve(socket);
+    });
+    socket.once('error', (error) => {
+      clearTimeout(timeoutId);
+      reject(new SmtpError(`SMTP connection failed: ${error.message}`));
+    });
+  });
+}
+
+/**
+ * 既存の接続をTLSに切り替える(STARTTLS)
+ */
+function upgradeToTls(
+  socket: net.Socket,
+  host: string,
+  timeoutMs: number
+): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secureSocket = tls.connect({ socket, servername: host });
+
+    // detach()でソケットのタイムアウトは解除されているため、ハンドシェイクの停止に備える
+    const timeoutId = setTimeout(() => {
+      secureSocket.destroy();
+      reject(new SmtpError(`STARTTLS negotiation timed out after ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    secureSocket.once('secureConnect', () => {
+      clearTimeout(timeoutId);
+      secureSocket.removeAllListeners('error');
+      resolve(secureSocket);
+    });
+    secureSocket.once('error', (error) => {
+      clearTimeout(timeoutId);
+      reject(new SmtpError(`STARTTLS negotiation failed: ${error.message}`));
+    });
+  });
+}
+
+/**
+ * "名前 <address>"形式からアドレス部分を取り出す
+ */
+function extractAddress(value: string): string {
+  const match = value.match(/<([^>]+)>/);
+  return (match ? match[1] : value).trim();
+}
+
+/**
+ * ヘッダー値をRFC 2047形式でエンコード(ASCII以外を含む場合のみ)
+ */
+function encodeHeader(value: string): string {
+  // eslint-disable-next-line no-control-regex
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * 送信するメールのデータ部を生成
+ *
+ * 本文はBase64でエンコードするため、行頭のドットのエスケープは不要
+ *
+ * @param message - 送信するメール
+ * @param clientName - Message-IDのドメイン部に使用する名前
+ * @returns DATAコマンドで送信する内容(終端の"."を含む)
+ */
+export function buildMailData(message: MailMessage, clientName: string = 'localhost'): string {
+  const body = Buffer.from(message.text.replace(/\r?\n/g, '\r\n'), 'utf8')
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${clientName}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+  ];
+
+  return `${headers.join('\r\n')}\r\n\r\n${body.replace(/\r\n$/, '')}\r\n.\r\n`;
+}
+
+/**
+ * メールを1通送信する
+ *
+ * @param config - SMTPサーバーへの接続設定
+ * @param message - 送信するメール
+ * @throws {SmtpError} 接続・認証・送信に失敗した場合、
+ *   または認証が必要でサーバーがSTARTTLSに対応していない場合(allowInsecureAuth未指定時)
+ *
+ * @example
+ * await sendMail(
+ *   { host: 'smtp.example.com', port: 587, user: 'user', password: 'pass' },
+ *   { from: 'batch@example.com', to: ['ops@example.com'], subject: '件名', text: '本文' }
+ * );
+ */
+export async function sendMail(config: SmtpConnectionConfig, message: MailMessage): Promise<void> {
+  if (message.to.length === 0) {
+    throw new SmtpError('No recipients specified');
+  }
+
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const clientName = config.clientName ?? 'localhost';
+  let session = new SmtpSession(await connect(config, timeoutMs), timeoutMs);
+
+  try {
+    await session.expect(220);
+    const ehlo = await session.command(`EHLO ${clientName}`, 250);
+
+    // 暗号化されていない接続で、サーバーがSTARTTLSに対応していれば切り替える
+    if (!config.secure && /^STARTTLS$/im.test(ehlo.message)) {
+      await session.command('STARTTLS', 220);
+      const secureSocket = await upgradeToTls(session.detach(), config.host, timeoutMs);
+      session = new SmtpSession(secureSocket, timeoutMs);
+      await session.command(`EHLO ${clientName}`, 250);
+    } else if (!config.secure && config.user && !config.allowInsecureAuth) {
+      // 認証情報を平文で送信しないよう、STARTTLSに対応していないサーバーには認証しない
+      throw new SmtpError(
+        'SMTP server does not support STARTTLS; refusing to send credentials over an unencrypted connection'
+      );
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(
+        `\u0000${config.user}\u0000${config.password ?? ''}`
+      ).toString('base64');
+      await session.command(`AUTH PLAIN ${credentials}`, 235);
+    }
+
+    await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, 250);
+    for (const recipient of message.to) {
+      await session.command(`RCPT TO:<${extractAddress(recipient)}>`, 250, 251);
+    }
+    await session.command('DATA', 354);
+    session.socket.write(buildMailData(message, clientName));
+    await session.expect(250);
+
+    // QUITの応答は送信結果に影響しないため待たない
+    session.socket.setTimeout(0);
+    session.socket.end('QUIT\r\n');
+  } catch (error) {
+    session.socket.destroy();
+    throw error;
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Webhook通知チャネル
+ *
+ * バッチ通知をJSONで任意のURLにPOSTする汎用チャネルと、
+ * Slack互換のIncoming Webhookに送信するチャネルを提供します。
+ *
+ * Requirements:
+ * - 部分成功・失敗したバッチ実行の通知
+ *
+ * @see https://api.slack.com/messaging/webhooks - Slack Incoming Webhooks
+ */
+
+import {
+  BatchNotification,
+  NotificationChannel,
+  NotificationContext,
+  NotificationDeliveryError,
+  NotificationSeverity,
+} from './notificationTypes';
+
+/**
+ * リクエストのデフォルトタイムアウト(ミリ秒)
+ */
+const DEFAULT_TIMEOUT_MS = 10000;
+
+/**
+ * Webhookチャネルの設定
+ */
+export interface WebhookChannelConfig {
+  /** 送信先URL */
+  url: string;
+  /**
+   * 送信する通知の最低重要度
+   * @default 'warning'
+   */
+  minSeverity?: NotificationSeverity;
+  /**
+   * リクエストのタイムアウト(ミリ秒)
+   * @default 10000
+   */
+  timeoutMs?: number;
+  /** 追加のリクエストヘッダー */
+  headers?: Record<string, string>;
+}
+
+/**
+ * 汎用Webhook通知チャネル
+ *
+ * 通知内容とバッチの種類・日付をJSONでPOSTします。
+ *
+ * @example
+ * const channel = new WebhookChannel({ url: 'https://example.com/hooks/batch' });
+ * await channel.send(notification, { job: 'news', date: '2026-01-10' });
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly id: string = 'webhook';
+  readonly minSeverity: NotificationSeverity;
+  private readonly url: string;
+  private readonly timeoutMs: number;
+  private readonly headers: Record<string, string>;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - Webhookチャネルの設定
+   */
+  constructor(config: WebhookChannelConfig) {
+    this.url = config.url;
+    this.minSeverity = config.minSeverity ?? 'warning';
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.headers = config.headers ?? {};
+  }
+
+  /**
+   * @throws {NotificationDeliveryError} HTTPエラー・タイムアウト時
+   */
+  async send(notification: BatchNotification, context: NotificationContext): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify(this.buildPayload(notification, context)),
+        signal: controller.signal,
+      });
+
+      if (!response.ok) {
+        throw new NotificationDeliveryError(
+          `${this.id} responded with status ${response.status}`,
+          this.id
+        );
+      }
+    } catch (error) {
+      if (error instanceof NotificationDeliveryError) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new NotificationDeliveryError(
+          `${this.id} request timed out after ${this.timeoutMs}ms`,
+          this.id
+        );
+      }
+      throw new NotificationDeliveryError(
+        error instanceof Error ? error.message : `${this.id} request failed`,
+        this.id,
+        error instanceof Error ? error : undefined
+      );
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * 送信するJSONを生成
+   *
+   * @param notification - バッチ通知
+   * @param context - 通知の対象となったバッチ実行
+   * @returns リクエストボディ
+   */
+  protected buildPayload(
+    notification: BatchNotification,
+    context: NotificationContext
+  ): Record<string, unknown> {
+    return {
+      job: context.job,
+      date: context.date,
+      runId: context.runId ?? null,
+      title: notification.title,
+      message: notification.message,
+      severity: notification.severity,
+      timestamp: notification.timestamp.toISOString(),
+      details: notification.details,
+    };
+  }
+}
+
+/**
+ * 重要度ごとのSlack添付の色
+ */
+const SLACK_COLORS: Record<NotificationSeverity, string> = {
+  info: 'good',
+  warning: 'warning',
+  error: 'danger',
+};
+
+/**
+ * Slack互換のIncoming Webhook通知チャネル
+ *
+ * textとattachmentsを含むメッセージを送信します(Mattermost等の互換サービスでも使用可能)。
+ *
+ * @example
+ * const channel = new SlackWebhookChannel({ url: process.env.NOTIFY_SLACK_WEBHOOK_URL! });
+ */
+export class SlackWebhookChannel extends WebhookChannel {
+  readonly id: string = 'slack';
+
+  protected buildPayload(
+    notification: BatchNotification,
+    context: NotificationContext
+  ): Record<string, unknown> {
+    const failureReasons = notification.details.failureReasons;
+    const fields = [
+      { title: 'Job', value: context.job, short: true },
+      { title: 'Date', value: context.date, short: true },
+      ...(context.runId ? [{ title: 'Run ID', value: context.runId, short: false }] : []),
+      ...(Array.isArray(failureReasons) && failureReasons.length > 0
+        ? [{ title: 'Failure reasons', value: failureReasons.join('\n'), short: false }]
+        : []),
+    ];
+
+    return {
+      text: `[${notification.severity.toUpperCase()}] ${notification.title}`,
+      attachments: [
+        {
+          color: SLACK_COLORS[notification.severity],
+          text: notification.message,
+          fields,
+          ts: Math.floor(notification.timestamp.getTime() / 1000),
+        },
+      ],
+    };
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * プロンプトレジストリのテスト
+ *
+ * Requirements: プロンプトのバージョン管理・A/Bテスト
+ */
+
+import {
+  PromptRegistry,
+  PromptTemplate,
+  PromptTemplateError,
+  renderPromptTemplate,
+} from '../promptRegistry';
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  getPromptRegistry,
+  resetPromptRegistry,
+} from '../defaultPromptRegistry';
+
+describe('renderPromptTemplate', () => {
+  const template: PromptTemplate = {
+    name: 'greeting',
+    version: 'v1',
+    template: '{{name}}さん、{{ count }}件のニュースがあります。{{name}}さん向け',
+  };
+
+  it('変数を埋め込む', () => {
+    expect(renderPromptTemplate(template, { name: '山田', count: 3 })).toBe(
+      '山田さん、3件のニュースがあります。山田さん向け'
+    );
+  });
+
+  it('埋め込んだ値に含まれる{{}}は置き換えない', () => {
+    expect(renderPromptTemplate(template, { name: '{{count}}', count: 1 })).toBe(
+      '{{count}}さん、1件のニュースがあります。{{count}}さん向け'
+    );
+  });
+
+  it('変数が不足している場合はPromptTemplateErrorをスローする', () => {
+    expect(() => renderPromptTemplate(template, { name: '山田' })).toThrow(PromptTemplateError);
+  });
+});
+
+describe('PromptRegistry', () => {
+  const v1: PromptTemplate = { name: 'term-generation', version: 'v1', template: 'one' };
+  const v2: PromptTemplate = { name: 'term-generation', version: 'v2', template: 'two', weight: 3 };
+
+  describe('登録と取得', () => {
+    it('名前とバージョンでテンプレートを取得する', () => {
+      const registry = new PromptRegistry([v1, v2]);
+
+      expect(registry.get('term-generation', 'v2')).toBe(v2);
+      expect(registry.getVersions('term-generation')).toEqual([v1, v2]);
+    });
+
+    it('未登録のテンプレートはPromptTemplateErrorをスローする', () => {
+      const registry = new PromptRegistry([v1]);
+
+      expect(() => registry.get('term-generation', 'v9')).toThrow(PromptTemplateError);
+      expect(() => registry.select('unknown')).toThrow(PromptTemplateError);
+    });
+
+    it('同じ名前・バージョンの重複登録はPromptTemplateErrorをスローする', () => {
+      const registry = new PromptRegistry([v1]);
+
+      expect(() => registry.register({ ...v1, template: 'other' })).toThrow(PromptTemplateError);
+    });
+  });
+
+  describe('select', () => {
+    it('テンプレートの重みに応じてバージョンを選択する', () => {
+      // v1: 重み1(0〜0.25)、v2: 重み3(0.25〜1)
+      const random = jest.fn();
+      const registry = new PromptRegistry([v1, v2], { random });
+
+      random.mockReturnValueOnce(0.2);
+      expect(registry.select('term-generation')).toBe(v1);
+
+      random.mockReturnValueOnce(0.3);
+      expect(registry.select('term-generation')).toBe(v2);
+    });
+
+    it('重みが0のバージョンは選択しない', () => {
+      const registry = new PromptRegistry([v1, { ...v2, weight: 0 }], { random: () => 0.99 });
+
+      expect(registry.select('term-generation')).toBe(v1);
+    });
+
+    it('重みの設定がある場合は設定に含まれないバージョンを選択しない', () => {
+      const registry = new PromptRegistry([v1, v2], {
+        weights: { 'term-generation': { v1: 1 } },
+        random: () => 0.99,
+      });
+
+      expect(registry.select('term-generation')).toBe(v1);
+    });
+
+    it('選択できるバージョンがない場合はPromptTemplateErrorをスローする', () => {
+      const registry = new PromptRegistry([v1, v2], {
+        weights: { 'term-generation': { v3: 1 } },
+      });
+
+      expect(() => registry.select('term-generation')).toThrow(PromptTemplateError);
+    });
+  });
+
+  describe('createSelection', () => {
+    it('最初に選択したバージョンを使い続ける', () => {
+      const random = jest.fn().mockReturnValueOnce(0.9).mockReturnValue(0);
+      const registry = new PromptRegistry([v1, v2], { random });
+      const selection = registry.createSelection();
+
+      expect(selection.get('term-generation')).toBe(v2);
+      expect(selection.get('term-generation')).toBe(v2);
+      expect(selection.getSelectedVersions()).toEqual({ 'term-generation': 'v2' });
+      expect(random).toHaveBeenCalledTimes(1);
+    });
+
+    it('選択結果ごとに独立してバージョンを選択する', () => {
+      const random = jest.fn().mockReturnValueOnce(0.9).mockReturnValueOnce(0);
+      const registry = new PromptRegistry([v1, v2], { random });
+
+      expect(registry.createSelection().get('term-generation')).toBe(v2);
+      expect(registry.createSelection().get('term-generation')).toBe(v1);
+    });
+  });
+});
+
+describe('getPromptRegistry', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    resetPromptRegistry();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    resetPromptRegistry();
+  });
+
+  it('ニュース要約・用語生成のテンプレートを登録する', () => {
+    const registry = getPromptRegistry();
+
+    expect(DEFAULT_PROMPT_TEMPLATES.map(({ name }) => name)).toEqual(
+      expect.arrayContaining([
+        'english-news-summary',
+        'japanese-news-summary',
+        'category-news-summary',
+        'term-generation',
+      ])
+    );
+    expect(registry.select('term-generation').version).toBe('v1');
+    expect(getPromptRegistry()).toBe(registry);
+  });
+
+  it('PROMPT_VERSION_WEIGHTSの重みを使用する', () => {
+    process.env.PROMPT_VERSION_WEIGHTS = 'term-generation=v9';
+
+    expect(() => getPromptRegistry().select('term-generation')).toThrow(PromptTemplateError);
+  });
+});
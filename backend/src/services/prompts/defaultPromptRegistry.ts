@@ -0,0 +1,50 @@
+/**
+ * デフォルトのプロンプトレジストリ
+ *
+ * ニュース要約・用語生成のプロンプトテンプレートを登録したレジストリを提供します。
+ * 環境変数PROMPT_VERSION_WEIGHTSが設定されている場合は、その重みでバージョンを選択します。
+ *
+ * Requirements:
+ * - プロンプトのバージョン管理・A/Bテスト
+ */
+
+import { getPromptVersionWeightsEnvConfig } from '../../config/envConfig';
+import { NEWS_SUMMARY_PROMPT_TEMPLATES } from '../news/summarization/newsSummaryPrompt';
+import { TERM_GENERATION_PROMPT_TEMPLATES } from '../terms/termGenerationPrompt';
+import { PromptRegistry, PromptTemplate } from './promptRegistry';
+
+/**
+ * デフォルトで登録するプロンプトテンプレート
+ */
+export const DEFAULT_PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+  ...NEWS_SUMMARY_PROMPT_TEMPLATES,
+  ...TERM_GENERATION_PROMPT_TEMPLATES,
+];
+
+/**
+ * シングルトンインスタンス
+ */
+let promptRegistryInstance: PromptRegistry | undefined;
+
+/**
+ * デフォルトのプロンプトレジストリを取得
+ *
+ * シングルトンパターンでインスタンスを返します。
+ *
+ * @returns プロンプトレジストリ
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!promptRegistryInstance) {
+    promptRegistryInstance = new PromptRegistry(DEFAULT_PROMPT_TEMPLATES, {
+      weights: getPromptVersionWeightsEnvConfig(),
+    });
+  }
+  return promptRegistryInstance;
+}
+
+/**
+ * シングルトンインスタンスをリセット(テスト用)
+ */
+export function resetPromptRegistry(): void {
+  promptRegistryInstance = undefined;
+}
@@ -0,0 +1,23 @@
+/**
+ * プロンプトモジュール
+ *
+ * 名前・バージョン付きのプロンプトテンプレートの管理、変数の埋め込み、
+ * 重みに応じたバージョンの選択(A/Bテスト)を提供します。
+ */
+
+export {
+  PromptRegistry,
+  PromptSelection,
+  PromptTemplateError,
+  renderPromptTemplate,
+  type PromptTemplate,
+  type PromptVariables,
+  type PromptVersionWeights,
+  type PromptRegistryConfig,
+} from './promptRegistry';
+
+export {
+  DEFAULT_PROMPT_TEMPLATES,
+  getPromptRegistry,
+  resetPromptRegistry,
+} from './defaultPromptRegistry';
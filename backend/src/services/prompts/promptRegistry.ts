@@ -0,0 +1,274 @@
+/**
+ * プロンプトレジストリ
+ *
+ * 名前とバージョンを持つプロンプトテンプレートを管理し、
+ * 変数の埋め込みと、重みに応じたバージョンの選択(A/Bテスト)を提供します。
+ *
+ * テンプレート内の {{変数名}} を、描画時に指定した変数の値で置き換えます。
+ * 生成したコンテンツには選択したバージョンを記録し、どのプロンプトで生成したかを追跡できるようにします。
+ *
+ * Requirements:
+ * - プロンプトのバージョン管理・A/Bテスト
+ */
+
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+
+/**
+ * プロンプトテンプレート
+ */
+export interface PromptTemplate {
+  /** プロンプト名(操作名と同じ、例: term-generation) */
+  readonly name: string;
+  /** バージョン(例: v1) */
+  readonly version: string;
+  /** テンプレート本文({{変数名}}を埋め込み位置とする) */
+  readonly template: string;
+  /**
+   * バージョン選択の重み(0の場合は選択しない)
+   * @default 1
+   */
+  readonly weight?: number;
+}
+
+/**
+ * テンプレートに埋め込む変数
+ */
+export type PromptVariables = Readonly<Record<string, string | number>>;
+
+/**
+ * プロンプト名ごとのバージョンの重み
+ */
+export type PromptVersionWeights = Readonly<Record<string, Readonly<Record<string, number>>>>;
+
+/**
+ * プロンプトテンプレートのエラー
+ *
+ * 未登録のテンプレートの参照、重複登録、変数の不足などで発生します。
+ */
+export class PromptTemplateError extends AppError {
+  /** プロンプト名 */
+  public readonly promptName: string;
+
+  constructor(message: string, promptName: string) {
+    super(message, ErrorType.VALIDATION, ErrorSeverity.HIGH, false);
+    this.name = 'PromptTemplateError';
+    this.promptName = promptName;
+  }
+}
+
+/**
+ * テンプレート内の変数の埋め込み位置
+ */
+const VARIABLE_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * テンプレートに変数を埋め込む
+ *
+ * @param template - プロンプトテンプレート
+ * @param variables - 埋め込む変数
+ * @returns 変数を埋め込んだプロンプト
+ * @throws {PromptTemplateError} テンプレートで使用している変数が指定されていない場合
+ *
+ * @example
+ * ```typescript
+ * renderPromptTemplate(
+ *   { name: 'greeting', version: 'v1', template: '{{name}}さん、こんにちは' },
+ *   { name: '山田' }
+ * );
+ * // '山田さん、こんにちは'
+ * ```
+ */
+export function renderPromptTemplate(template: PromptTemplate, variables: PromptVariables): string {
+  return template.template.replace(VARIABLE_PATTERN, (_match, key: string) => {
+    if (!Object.prototype.hasOwnProperty.call(variables, key)) {
+      throw new PromptTemplateError(
+        `Variable "${key}" is not provided for prompt ${template.name}@${template.version}`,
+        template.name
+      );
+    }
+    return String(variables[key]);
+  });
+}
+
+/**
+ * プロンプトレジストリの設定
+ */
+export interface PromptRegistryConfig {
+  /**
+   * プロンプト名ごとのバージョンの重み
+   *
+   * 指定したプロンプトはこの重みでバージョンを選択し、指定しないバージョンは選択しない。
+   * 指定しないプロンプトは各テンプレートのweightを使用する。
+   */
+  weights?: PromptVersionWeights;
+
+  /**
+   * 0以上1未満の乱数を返す関数(テスト用)
+   * @default Math.random
+   */
+  random?: () => number;
+}
+
+/**
+ * プロンプトの選択結果(1回の実行で使用するバージョンを固定)
+ *
+ * 最初に参照したときにレジストリの重みでバージョンを選択し、
+ * 以降は同じバージョンを返します。バッチの1回の実行で同じバージョンを使い続けるために使用します。
+ */
+export class PromptSelection {
+  private readonly registry: PromptRegistry;
+  private readonly selected = new Map<string, PromptTemplate>();
+
+  /**
+   * コンストラクタ
+   *
+   * @param registry - プロンプトレジストリ
+   */
+  constructor(registry: PromptRegistry) {
+    this.registry = registry;
+  }
+
+  /**
+   * プロンプトテンプレートを取得
+   *
+   * @param name - プロンプト名
+   * @returns 選択したバージョンのテンプレート
+   * @throws {PromptTemplateError} 選択できるバージョンがない場合
+   */
+  get(name: string): PromptTemplate {
+    let template = this.selected.get(name);
+    if (!template) {
+      template = this.registry.select(name);
+      this.selected.set(name, template);
+    }
+    return template;
+  }
+
+  /**
+   * これまでに選択したバージョンを取得
+   *
+   * @returns プロンプト名ごとのバージョン
+   */
+  getSelectedVersions(): Record<string, string> {
+    return Object.fromEntries(
+      [...this.selected].map(([name, template]) => [name, template.version])
+    );
+  }
+}
+
+/**
+ * プロンプトレジストリ
+ *
+ * @example
+ * ```typescript
+ * const registry = new PromptRegistry([
+ *   { name: 'term-generation', version: 'v1', template: '...', weight: 80 },
+ *   { name: 'term-generation', version: 'v2', template: '...', weight: 20 },
+ * ]);
+ *
+ * // 重みに応じてv1(80%)またはv2(20%)を選択
+ * const template = registry.select('term-generation');
+ * const prompt = renderPromptTemplate(template, { difficulty: 'beginner' });
+ * ```
+ */
+export class PromptRegistry {
+  private readonly templates = new Map<string, PromptTemplate[]>();
+  private readonly weights: PromptVersionWeights;
+  private readonly random: () => number;
+
+  /**
+   * コンストラクタ
+   *
+   * @param templates - 登録するテンプレート
+   * @param config - 設定
+   * @throws {PromptTemplateError} 同じ名前・バージョンのテンプレートが重複している場合
+   */
+  constructor(templates: readonly PromptTemplate[] = [], config: PromptRegistryConfig = {}) {
+    this.weights = config.weights ?? {};
+    this.random = config.random ?? Math.random;
+    templates.forEach((template) => this.register(template));
+  }
+
+  /**
+   * テンプレートを登録
+   *
+   * @param template - 登録するテンプレート
+   * @throws {PromptTemplateError} 同じ名前・バージョンのテンプレートが登録済みの場合
+   */
+  register(template: PromptTemplate): void {
+    const versions = this.templates.get(template.name) ?? [];
+    if (versions.some((registered) => registered.version === template.version)) {
+      throw new PromptTemplateError(
+        `Prompt ${template.name}@${template.version} is already registered`,
+        template.name
+      );
+    }
+    this.templates.set(template.name, [...versions, template]);
+  }
+
+  /**
+   * 登録済みのバージョンを取得
+   *
+   * @param name - プロンプト名
+   * @returns 登録順のテンプレート(未登録の場合は空)
+   */
+  getVersions(name: string): readonly PromptTemplate[] {
+    return this.templates.get(name) ?? [];
+  }
+
+  /**
+   * 指定したバージョンのテンプレートを取得
+   *
+   * @param name - プロンプト名
+   * @param version - バージョン
+   * @returns テンプレート
+   * @throws {PromptTemplateError} 登録されていない場合
+   */
+  get(name: string, version: string): PromptTemplate {
+    const template = this.getVersions(name).find((candidate) => candidate.version === version);
+    if (!template) {
+      throw new PromptTemplateError(`Prompt ${name}@${version} is not registered`, name);
+    }
+    return template;
+  }
+
+  /**
+   * 重みに応じてバージョンを選択
+   *
+   * @param name - プロンプト名
+   * @returns 選択したテンプレート
+   * @throws {PromptTemplateError} 未登録の場合・重みが正のバージョンがない場合
+   */
+  select(name: string): PromptTemplate {
+    const overrides = this.weights[name];
+    const candidates = this.getVersions(name)
+      .map((template) => ({
+        template,
+        weight: overrides ? (overrides[template.version] ?? 0) : (template.weight ?? 1),
+      }))
+      .filter(({ weight }) => weight > 0);
+
+    if (candidates.length === 0) {
+      throw new PromptTemplateError(`No selectable version of prompt ${name}`, name);
+    }
+
+    const totalWeight = candidates.reduce((sum, { weight }) => sum + weight, 0);
+    let threshold = this.random() * totalWeight;
+    for (const { template, weight } of candidates) {
+      threshold -= weight;
+      if (threshold < 0) {
+        return template;
+      }
+    }
+    return candidates[candidates.length - 1].template;
+  }
+
+  /**
+   * 1回の実行で使用するプロンプトの選択結果を作成
+   *
+   * @returns プロンプトの選択結果
+   */
+  createSelection(): PromptSelection {
+    return new PromptSelection(this);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Claude APIのレスポンスキャッシュのテスト
+ *
+ * Requirements:
+ * - Claude APIのレスポンスキャッシュ(リトライ・再実行での二重課金の防止)
+ */
+
+import {
+  InMemoryResponseCacheStore,
+  ResponseCache,
+  ResponseCacheError,
+  SupabaseResponseCacheStore,
+  computeResponseCacheKey,
+  type ResponseCacheStore,
+} from '../responseCache';
+import type { LlmResponse } from '../../llm/llmProvider';
+
+const mockMaybeSingle = jest.fn();
+const mockUpsert = jest.fn();
+const mockLte = jest.fn();
+const selectChain: Record<string, jest.Mock> = {
+  maybeSingle: mockMaybeSingle,
+};
+selectChain.select = jest.fn(() => selectChain);
+selectChain.eq = jest.fn(() => selectChain);
+selectChain.gt = jest.fn(() => selectChain);
+
+const mockSupabaseClient = {
+  from: jest.fn(() => ({
+    ...selectChain,
+    upsert: mockUpsert,
+    delete: jest.fn(() => ({ lte: mockLte })),
+  })),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+describe('ResponseCache', () => {
+  const now = new Date('2026-10-19T00:00:00.000Z');
+  const request = {
+    model: 'claude-haiku-4-5',
+    prompt: '用語を生成してください',
+    system: 'あなたは投資の講師です',
+    temperature: 0.5,
+    maxTokens: 4096,
+    operation: 'term-generation',
+  };
+  const response: LlmResponse = {
+    content: '{"name":"PER"}',
+    usage: { inputTokens: 100, outputTokens: 50 },
+    model: 'claude-haiku-4-5-20251001',
+    stopReason: 'end_turn',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+    mockUpsert.mockResolvedValue({ error: null });
+    mockLte.mockResolvedValue({ error: null });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('computeResponseCacheKey', () => {
+    it('同じリクエストには同じキーを返すこと', () => {
+      expect(computeResponseCacheKey(request)).toBe(computeResponseCacheKey({ ...request }));
+      expect(computeResponseCacheKey(request)).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('モデル・システムプロンプト・プロンプト・temperatureが異なる場合は異なるキーを返すこと', () => {
+      const key = computeResponseCacheKey(request);
+
+      expect(computeResponseCacheKey({ ...request, model: 'claude-sonnet-4-5' })).not.toBe(key);
+      expect(computeResponseCacheKey({ ...request, system: undefined })).not.toBe(key);
+      expect(computeResponseCacheKey({ ...request, prompt: '別のプロンプト' })).not.toBe(key);
+      expect(computeResponseCacheKey({ ...request, temperature: 0.7 })).not.toBe(key);
+    });
+
+    it('操作名はキーに含めないこと', () => {
+      expect(
+        computeResponseCacheKey({ ...request, operation: 'term-explanation-generation' })
+      ).toBe(computeResponseCacheKey(request));
+    });
+  });
+
+  describe('InMemoryResponseCacheStore', () => {
+    it('有効期限内のレスポンスを返し、期限切れの場合はnullを返すこと', async () => {
+      let current = now;
+      const cache = new ResponseCache({
+        store: new InMemoryResponseCacheStore(),
+        ttlMs: 60_000,
+        now: () => current,
+      });
+
+      await cache.set(request, response);
+      expect(await cache.get(request)).toEqual(response);
+      expect(await cache.get({ ...request, prompt: '別のプロンプト' })).toBeNull();
+
+      current = new Date(now.getTime() + 60_000);
+      expect(await cache.get(request)).toBeNull();
+    });
+  });
+
+  describe('get', () => {
+    it('Supabaseから有効期限内のレスポンスを取得すること', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: { response }, error: null });
+      const cache = new ResponseCache({ now: () => now });
+
+      expect(await cache.get(request)).toEqual(response);
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('claude_response_cache');
+      expect(selectChain.eq).toHaveBeenCalledWith('cache_key', computeResponseCacheKey(request));
+      expect(selectChain.gt).toHaveBeenCalledWith('expires_at', now.toISOString());
+    });
+
+    it('取得に失敗した場合はnullを返すこと', async () => {
+      mockMaybeSingle.mockResolvedValue({ data: null, error: { message: 'timeout' } });
+
+      expect(await new ResponseCache().get(request)).toBeNull();
+      expect(console.warn).toHaveBeenCalledWith(
+        '[ResponseCache] Failed to read cached response:',
+        'Failed to read Claude response cache: timeout'
+      );
+    });
+  });
+
+  describe('set', () => {
+    it('有効期限を付けてSupabaseに保存し、期限切れのレコードを削除すること', async () => {
+      const cache = new ResponseCache({ ttlMs: 60_000, now: () => now });
+
+      await cache.set(request, { ...response, toolInput: { name: 'PER' } });
+
+      expect(mockUpsert).toHaveBeenCalledWith(
+        {
+          cache_key: computeResponseCacheKey(request),
+          model: 'claude-haiku-4-5',
+          operation: 'term-generation',
+          response: { ...response, toolInput: { name: 'PER' } },
+          expires_at: '2026-10-19T00:01:00.000Z',
+        },
+        { onConflict: 'cache_key' }
+      );
+      expect(mockLte).toHaveBeenCalledWith('expires_at', now.toISOString());
+    });
+
+    it('最大トークン数で打ち切られたレスポンスは保存しないこと', async () => {
+      await new ResponseCache().set(request, { ...response, stopReason: 'max_tokens' });
+
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+
+    it('保存に失敗してもエラーをスローしないこと', async () => {
+      const store: ResponseCacheStore = {
+        get: jest.fn(),
+        set: jest.fn().mockRejectedValue(new ResponseCacheError('write failed')),
+      };
+
+      await expect(new ResponseCache({ store }).set(request, response)).resolves.toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith(
+        '[ResponseCache] Failed to store response:',
+        'write failed'
+      );
+    });
+
+    it('期限切れのレコードの削除に失敗しても保存は成功とすること', async () => {
+      mockLte.mockResolvedValue({ error: { message: 'permission denied' } });
+
+      await expect(
+        new SupabaseResponseCacheStore().set(
+          {
+            cache_key: 'key',
+            model: 'claude-haiku-4-5',
+            operation: 'term-generation',
+            response,
+            expires_at: now.toISOString(),
+          },
+          now
+        )
+      ).resolves.toBeUndefined();
+      expect(console.warn).toHaveBeenCalledWith(
+        '[SupabaseResponseCacheStore] Failed to purge expired cache entries:',
+        'permission denied'
+      );
+    });
+  });
+});
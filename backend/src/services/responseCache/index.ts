@@ -0,0 +1,18 @@
+/**
+ * Claude APIのレスポンスキャッシュモジュール
+ *
+ * リクエスト内容のハッシュをキーとしたレスポンスのキャッシュを提供します。
+ */
+
+export {
+  ResponseCache,
+  ResponseCacheError,
+  InMemoryResponseCacheStore,
+  SupabaseResponseCacheStore,
+  CLAUDE_RESPONSE_CACHE_TABLE,
+  DEFAULT_RESPONSE_CACHE_TTL_MS,
+  computeResponseCacheKey,
+  type ResponseCacheConfig,
+  type ResponseCacheRequest,
+  type ResponseCacheStore,
+} from './responseCache';
@@ -0,0 +1,306 @@
+/**
+ * Claude APIのレスポンスキャッシュ
+ *
+ * リクエスト内容(モデル・システムプロンプト・プロンプト・temperatureなど)のハッシュをキーとして
+ * レスポンスを保存し、同じリクエストに対しては有効期限内であればAPIを呼び出さずに返します。
+ * バッチのリトライ(NewsBatchRetryHandler・TermsBatchRetryHandler)や
+ * 同じ日付の再実行で、同じプロンプトの料金を二重に支払わないために使用します。
+ *
+ * キャッシュの読み書きに失敗してもAPI呼び出しには影響させず、ログ出力のみ行います。
+ *
+ * Requirements:
+ * - Claude APIのレスポンスキャッシュ(リトライ・再実行での二重課金の防止)
+ * - 10.3 (トークン使用量の監視)
+ */
+
+import { createHash } from 'crypto';
+import { getSupabase } from '../../config/supabase';
+import type {
+  CachedClaudeResponse,
+  ClaudeResponseCacheInsertPayload,
+} from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import type { LlmResponse, LlmToolDefinition } from '../llm/llmProvider';
+import { UNSPECIFIED_OPERATION } from '../spend';
+
+/**
+ * キャッシュを保存するテーブル名
+ */
+export const CLAUDE_RESPONSE_CACHE_TABLE = 'claude_response_cache';
+
+/**
+ * キャッシュの有効期限のデフォルト値(7日)
+ */
+export const DEFAULT_RESPONSE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * キャッシュの読み書きエラー
+ */
+export class ResponseCacheError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'ResponseCacheError';
+  }
+}
+
+/**
+ * キャッシュの対象のリクエスト
+ */
+export interface ResponseCacheRequest {
+  /** リクエストするモデル */
+  model: string;
+  /** プロンプト */
+  prompt: string;
+  /** システムプロンプト */
+  system?: string;
+  /** temperature */
+  temperature?: number;
+  /** 最大トークン数 */
+  maxTokens?: number;
+  /** 構造化出力に使用するツール */
+  tool?: LlmToolDefinition;
+  /** 操作名(キーには含めない) */
+  operation?: string;
+}
+
+/**
+ * リクエストのキャッシュキーを計算
+ *
+ * モデル・システムプロンプト・プロンプト・temperatureに加え、
+ * レスポンスの内容を変える最大トークン数とツールの定義もキーに含めます。
+ * 操作名は含めません(同じリクエストであれば操作名が異なってもレスポンスを共有する)。
+ *
+ * @param request - リクエスト
+ * @returns SHA-256の16進数文字列
+ */
+export function computeResponseCacheKey(request: ResponseCacheRequest): string {
+  const material = JSON.stringify([
+    request.model,
+    request.system ?? null,
+    request.prompt,
+    request.temperature ?? null,
+    request.maxTokens ?? null,
+    request.tool ?? null,
+  ]);
+  return createHash('sha256').update(material).digest('hex');
+}
+
+/**
+ * キャッシュのストア
+ */
+export interface ResponseCacheStore {
+  /**
+   * 有効期限内のレスポンスを取得する
+   *
+   * @param cacheKey - キャッシュキー
+   * @param now - 現在日時
+   * @returns レスポンス(ない・期限切れの場合はnull)
+   * @throws {ResponseCacheError} 取得に失敗した場合
+   */
+  get(cacheKey: string, now: Date): Promise<CachedClaudeResponse | null>;
+
+  /**
+   * レスポンスを保存する(同じキーは上書き)
+   *
+   * @param entry - 保存するレコード
+   * @param now - 現在日時(期限切れレコードの削除に使用)
+   * @throws {ResponseCacheError} 保存に失敗した場合
+   */
+  set(entry: ClaudeResponseCacheInsertPayload, now: Date): Promise<void>;
+}
+
+/**
+ * メモリ上のキャッシュのストア
+ *
+ * 同じプロセス内でのみレスポンスを共有します(テスト・ローカル実行用)。
+ */
+export class InMemoryResponseCacheStore implements ResponseCacheStore {
+  private readonly entries = new Map<string, ClaudeResponseCacheInsertPayload>();
+
+  async get(cacheKey: string, now: Date): Promise<CachedClaudeResponse | null> {
+    const entry = this.entries.get(cacheKey);
+    return entry && new Date(entry.expires_at) > now ? entry.response : null;
+  }
+
+  async set(entry: ClaudeResponseCacheInsertPayload, now: Date): Promise<void> {
+    this.entries.set(entry.cache_key, entry);
+    for (const [key, candidate] of this.entries) {
+      if (new Date(candidate.expires_at) <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+/**
+ * Supabaseのキャッシュのストア
+ *
+ * claude_response_cacheテーブルに保存するため、Cronによる再実行など
+ * 別プロセスでの実行ともレスポンスを共有します。
+ */
+export class SupabaseResponseCacheStore implements ResponseCacheStore {
+  async get(cacheKey: string, now: Date): Promise<CachedClaudeResponse | null> {
+    const { data, error } = await getSupabase()
+      .from(CLAUDE_RESPONSE_CACHE_TABLE)
+      .select('response')
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', now.toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw new ResponseCacheError(
+        `Failed to read Claude response cache: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    return (data as { response: CachedClaudeResponse } | null)?.response ?? null;
+  }
+
+  async set(entry: ClaudeResponseCacheInsertPayload, now: Date): Promise<void> {
+    const supabase = getSupabase();
+    const { error } = await supabase
+      .from(CLAUDE_RESPONSE_CACHE_TABLE)
+      .upsert(entry, { onConflict: 'cache_key' });
+
+    if (error) {
+      throw new ResponseCacheError(
+        `Failed to write Claude response cache: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    // 期限切れのレコードを削除(失敗しても保存は成功として扱う)
+    const { error: purgeError } = await supabase
+      .from(CLAUDE_RESPONSE_CACHE_TABLE)
+      .delete()
+      .lte('expires_at', now.toISOString());
+
+    if (purgeError) {
+      console.warn(
+        '[SupabaseResponseCacheStore] Failed to purge expired cache entries:',
+        purgeError.message
+      );
+    }
+  }
+}
+
+/**
+ * レスポンスキャッシュの設定
+ */
+export interface ResponseCacheConfig {
+  /**
+   * キャッシュのストア
+   * @default new SupabaseResponseCacheStore()
+   */
+  store?: ResponseCacheStore;
+  /**
+   * 有効期限(ミリ秒)
+   * @default DEFAULT_RESPONSE_CACHE_TTL_MS (7日)
+   */
+  ttlMs?: number;
+  /**
+   * 現在日時を返す関数(テスト用)
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * Claude APIのレスポンスキャッシュ
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({ ttlMs: 24 * 60 * 60 * 1000 });
+ * const request = { model, prompt, operation: 'term-generation' };
+ *
+ * const cached = await cache.get(request);
+ * if (!cached) {
+ *   const response = await callApi();
+ *   await cache.set(request, response);
+ * }
+ * ```
+ */
+export class ResponseCache {
+  private readonly store: ResponseCacheStore;
+  private readonly ttlMs: number;
+  private readonly now: () => Date;
+
+  /**
+   * コンストラクタ
+   *
+   * @param config - 設定
+   */
+  constructor(config: ResponseCacheConfig = {}) {
+    this.store = config.store ?? new SupabaseResponseCacheStore();
+    this.ttlMs = config.ttlMs ?? DEFAULT_RESPONSE_CACHE_TTL_MS;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * 有効期限を取得
+   *
+   * @returns 有効期限(ミリ秒)
+   */
+  getTtlMs(): number {
+    return this.ttlMs;
+  }
+
+  /**
+   * キャッシュしたレスポンスを取得
+   *
+   * @param request - リクエスト
+   * @returns レスポンス(ない・期限切れ・取得に失敗した場合はnull)
+   */
+  async get(request: ResponseCacheRequest): Promise<LlmResponse | null> {
+    try {
+      return await this.store.get(computeResponseCacheKey(request), this.now());
+    } catch (error) {
+      console.warn(
+        '[ResponseCache] Failed to read cached response:',
+        error instanceof Error ? error.message : error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * レスポンスを保存
+   *
+   * 最大トークン数で打ち切られたレスポンスは不完全なため保存しません。
+   * 保存に失敗してもエラーはスローせず、ログ出力のみ行います。
+   *
+   * @param request - リクエスト
+   * @param response - APIのレスポンス
+   */
+  async set(request: ResponseCacheRequest, response: LlmResponse): Promise<void> {
+    if (response.stopReason === 'max_tokens') {
+      return;
+    }
+
+    const now = this.now();
+    try {
+      await this.store.set(
+        {
+          cache_key: computeResponseCacheKey(request),
+          model: request.model,
+          operation: request.operation ?? UNSPECIFIED_OPERATION,
+          response: {
+            content: response.content,
+            usage: response.usage,
+            model: response.model,
+            stopReason: response.stopReason,
+            ...(response.toolInput !== undefined && { toolInput: response.toolInput }),
+          },
+          expires_at: new Date(now.getTime() + this.ttlMs).toISOString(),
+        },
+        now
+      );
+    } catch (error) {
+      console.warn(
+        '[ResponseCache] Failed to store response:',
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+}
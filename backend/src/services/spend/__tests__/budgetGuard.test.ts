@@ -0,0 +1,141 @@
+/**
+ * Claude API利用料の予算チェックのテスト
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ */
+
+import { BudgetExceededError, BudgetGuard, getBudgetWindow } from '../budgetGuard';
+import { SpendLedger, SpendWindow } from '../spendLedger';
+
+describe('BudgetGuard', () => {
+  // 2026-10-20 08:30 JST
+  const now = new Date('2026-10-19T23:30:00.000Z');
+  const mockGetTotalCostUsd = jest.fn();
+  const ledger = { getTotalCostUsd: mockGetTotalCostUsd } as unknown as SpendLedger;
+
+  /**
+   * Sonnetで入力1000・出力最大1000トークンの呼び出し
+   * (見積もり: Sonnet $0.018 / Haiku $0.006)
+   */
+  const sonnetRequest = {
+    model: 'claude-sonnet-4-5',
+    estimatedInputTokens: 1000,
+    maxTokens: 1000,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetTotalCostUsd.mockResolvedValue(0);
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('getBudgetWindow', () => {
+    it('今日(JST)の期間を返すこと', () => {
+      expect(getBudgetWindow('daily', now)).toEqual({
+        from: new Date('2026-10-19T15:00:00.000Z'),
+        to: new Date('2026-10-20T15:00:00.000Z'),
+      });
+    });
+
+    it('今月(JST)の期間を返すこと', () => {
+      expect(getBudgetWindow('monthly', new Date('2026-12-31T15:30:00.000Z'))).toEqual({
+        from: new Date('2026-12-31T15:00:00.000Z'),
+        to: new Date('2027-01-31T15:00:00.000Z'),
+      });
+    });
+  });
+
+  it('予算が設定されていない場合は利用料を取得せずに許可すること', async () => {
+    const guard = new BudgetGuard({ ledger, now: () => now });
+
+    await expect(guard.check(sonnetRequest)).resolves.toEqual({
+      action: 'allow',
+      model: 'claude-sonnet-4-5',
+    });
+    expect(guard.isEnabled()).toBe(false);
+    expect(mockGetTotalCostUsd).not.toHaveBeenCalled();
+  });
+
+  it('予算内の場合は指定したモデルで許可すること', async () => {
+    mockGetTotalCostUsd.mockResolvedValue(0.5);
+    const guard = new BudgetGuard({ dailyLimitUsd: 1, ledger, now: () => now });
+
+    await expect(guard.check(sonnetRequest)).resolves.toEqual({
+      action: 'allow',
+      model: 'claude-sonnet-4-5',
+    });
+    expect(mockGetTotalCostUsd).toHaveBeenCalledWith(getBudgetWindow('daily', now));
+  });
+
+  it('利用料が予算の一定割合を超えた場合は安価なモデルに切り替えること', async () => {
+    mockGetTotalCostUsd.mockResolvedValue(0.85);
+    const guard = new BudgetGuard({ dailyLimitUsd: 1, ledger, now: () => now });
+
+    const decision = await guard.check(sonnetRequest);
+
+    expect(decision.action).toBe('downgrade');
+    expect(decision.model).toBe('claude-haiku-4-5');
+  });
+
+  it('安価なモデルで呼び出している場合は予算の一定割合を超えても許可すること', async () => {
+    mockGetTotalCostUsd.mockResolvedValue(0.85);
+    const guard = new BudgetGuard({ dailyLimitUsd: 1, ledger, now: () => now });
+
+    await expect(guard.check({ ...sonnetRequest, model: 'claude-haiku-4-5' })).resolves.toEqual({
+      action: 'allow',
+      model: 'claude-haiku-4-5',
+    });
+  });
+
+  it('指定したモデルでは予算を超え、安価なモデルで収まる場合は切り替えること', async () => {
+    mockGetTotalCostUsd.mockResolvedValue(0.99);
+    const guard = new BudgetGuard({
+      dailyLimitUsd: 1,
+      downgradeRatio: 1,
+      ledger,
+      now: () => now,
+    });
+
+    const decision = await guard.check(sonnetRequest);
+
+    expect(decision).toEqual(
+      expect.objectContaining({ action: 'downgrade', model: 'claude-haiku-4-5' })
+    );
+  });
+
+  it('安価なモデルでも予算を超える場合はBudgetExceededErrorをスローすること', async () => {
+    mockGetTotalCostUsd.mockImplementation(async (window: SpendWindow) =>
+      // 月次の期間のみ予算超過
+      window.from.getTime() === getBudgetWindow('monthly', now).from.getTime() ? 19.999 : 0
+    );
+    const guard = new BudgetGuard({
+      dailyLimitUsd: 1,
+      monthlyLimitUsd: 20,
+      ledger,
+      now: () => now,
+    });
+
+    const error = await guard.check(sonnetRequest).catch((e) => e);
+
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error.period).toBe('monthly');
+    expect(error.limitUsd).toBe(20);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('利用料の取得に失敗した場合は指定したモデルで許可すること', async () => {
+    mockGetTotalCostUsd.mockRejectedValue(new Error('network error'));
+    const guard = new BudgetGuard({ dailyLimitUsd: 1, ledger, now: () => now });
+
+    await expect(guard.check(sonnetRequest)).resolves.toEqual({
+      action: 'allow',
+      model: 'claude-sonnet-4-5',
+    });
+    expect(console.warn).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Claudeモデルの料金表のテスト
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ */
+
+import {
+  CHEAPEST_CLAUDE_MODEL,
+  CLAUDE_MODEL_PRICES,
+  calculateCostUsd,
+  getModelPrice,
+} from '../modelPricing';
+import { CLAUDE_MODELS } from '../../claudeClient';
+
+describe('modelPricing', () => {
+  it('CLAUDE_MODELSのすべてのモデルの料金が定義されていること', () => {
+    for (const model of Object.values(CLAUDE_MODELS)) {
+      expect(CLAUDE_MODEL_PRICES[model]).toBeDefined();
+    }
+  });
+
+  it('最も安いモデルがHaikuであること', () => {
+    expect(CHEAPEST_CLAUDE_MODEL).toBe(CLAUDE_MODELS.haiku);
+  });
+
+  it('スナップショット名からエイリアスの料金を取得すること', () => {
+    expect(getModelPrice('claude-sonnet-4-5-20250929')).toEqual(
+      CLAUDE_MODEL_PRICES[CLAUDE_MODELS.sonnet]
+    );
+  });
+
+  it('料金表にないモデルは最も高いモデルの料金とすること', () => {
+    expect(getModelPrice('claude-unknown')).toEqual(CLAUDE_MODEL_PRICES[CLAUDE_MODELS.sonnet]);
+  });
+
+  it('トークン使用量から料金を計算すること', () => {
+    // Haiku: 入力$1 / 出力$5 (100万トークンあたり)
+    expect(calculateCostUsd(CLAUDE_MODELS.haiku, 1000000, 200000)).toBeCloseTo(2);
+  });
+});
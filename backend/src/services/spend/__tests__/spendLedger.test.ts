@@ -0,0 +1,167 @@
+/**
+ * Claude API利用料の記録と集計のテスト
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ */
+
+import { SpendLedger, SpendLedgerError, resolveUsageJob } from '../spendLedger';
+
+const mockInsert = jest.fn();
+const mockRpc = jest.fn();
+
+const mockSupabaseClient = {
+  rpc: mockRpc,
+  from: jest.fn(() => ({ insert: mockInsert })),
+};
+
+jest.mock('../../../config/supabase', () => ({
+  getSupabase: () => mockSupabaseClient,
+}));
+
+describe('SpendLedger', () => {
+  const window = {
+    from: new Date('2026-10-18T15:00:00.000Z'),
+    to: new Date('2026-10-19T15:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInsert.mockResolvedValue({ error: null });
+    mockRpc.mockResolvedValue({ data: [], error: null });
+  });
+
+  describe('resolveUsageJob', () => {
+    it('操作名から呼び出し元の処理を判定すること', () => {
+      expect(resolveUsageJob('japanese-news-summary')).toBe('news');
+      expect(resolveUsageJob('term-quiz-generation')).toBe('terms');
+      expect(resolveUsageJob('term-explanation-generation')).toBe('explain');
+      expect(resolveUsageJob('unknown-operation')).toBe('other');
+    });
+  });
+
+  describe('record', () => {
+    it('利用量と料金をclaude_usageテーブルに保存すること', async () => {
+      await new SpendLedger().record({
+        operation: 'term-generation',
+        model: 'claude-haiku-4-5-20251001',
+        inputTokens: 1000,
+        outputTokens: 2000,
+      });
+
+      expect(mockSupabaseClient.from).toHaveBeenCalledWith('claude_usage');
+      expect(mockInsert).toHaveBeenCalledWith({
+        job: 'terms',
+        operation: 'term-generation',
+        model: 'claude-haiku-4-5-20251001',
+        input_tokens: 1000,
+        output_tokens: 2000,
+        cost_usd: 0.011,
+      });
+    });
+
+    it('Message Batchesのリクエストは割引後の料金で保存すること', async () => {
+      const row = await new SpendLedger().record({
+        operation: 'term-generation',
+        model: 'claude-haiku-4-5-20251001',
+        inputTokens: 1000,
+        outputTokens: 2000,
+        batch: true,
+      });
+
+      expect(row.cost_usd).toBe(0.0055);
+    });
+
+    it('操作名を省略した場合はunspecifiedとして保存すること', async () => {
+      const row = await new SpendLedger().record({
+        model: 'claude-haiku-4-5',
+        inputTokens: 1,
+        outputTokens: 1,
+      });
+
+      expect(row.operation).toBe('unspecified');
+      expect(row.job).toBe('other');
+    });
+
+    it('保存に失敗した場合はSpendLedgerErrorをスローすること', async () => {
+      mockInsert.mockResolvedValue({ error: { message: 'insert failed' } });
+
+      await expect(
+        new SpendLedger().record({ model: 'claude-haiku-4-5', inputTokens: 1, outputTokens: 1 })
+      ).rejects.toThrow(SpendLedgerError);
+    });
+  });
+
+  describe('summarize', () => {
+    it('期間を指定して集計し、数値に変換すること', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            job: 'news',
+            operation: 'japanese-news-summary',
+            model: 'claude-haiku-4-5',
+            request_count: '3',
+            input_tokens: '3000',
+            output_tokens: '1500',
+            cost_usd: '0.010500',
+          },
+        ],
+        error: null,
+      });
+
+      const entries = await new SpendLedger().summarize(window);
+
+      expect(mockRpc).toHaveBeenCalledWith('summarize_claude_usage', {
+        window_start: '2026-10-18T15:00:00.000Z',
+        window_end: '2026-10-19T15:00:00.000Z',
+      });
+      expect(entries).toEqual([
+        {
+          job: 'news',
+          operation: 'japanese-news-summary',
+          model: 'claude-haiku-4-5',
+          requestCount: 3,
+          inputTokens: 3000,
+          outputTokens: 1500,
+          costUsd: 0.0105,
+        },
+      ]);
+    });
+
+    it('集計に失敗した場合はSpendLedgerErrorをスローすること', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: { message: 'function does not exist' } });
+
+      await expect(new SpendLedger().summarize(window)).rejects.toThrow(SpendLedgerError);
+    });
+  });
+
+  describe('getTotalCostUsd', () => {
+    it('期間内の料金の合計を返すこと', async () => {
+      mockRpc.mockResolvedValue({
+        data: [
+          {
+            job: 'news',
+            operation: 'a',
+            model: 'm',
+            request_count: 1,
+            input_tokens: 1,
+            output_tokens: 1,
+            cost_usd: 0.25,
+          },
+          {
+            job: 'terms',
+            operation: 'b',
+            model: 'm',
+            request_count: 1,
+            input_tokens: 1,
+            output_tokens: 1,
+            cost_usd: 0.5,
+          },
+        ],
+        error: null,
+      });
+
+      await expect(new SpendLedger().getTotalCostUsd(window)).resolves.toBeCloseTo(0.75);
+    });
+  });
+});
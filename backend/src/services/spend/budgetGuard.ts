@@ -0,0 +1,268 @@
+/**
+ * Claude API利用料の予算チェック
+ *
+ * Claude APIの呼び出し前に、今日(JST)・今月(JST)の利用料と呼び出しの見積もり料金から
+ * 予算内に収まるかを判定します。
+ *
+ * - 予算を超える場合: 安価なモデルで収まればモデルを切り替え、収まらなければ呼び出しを拒否
+ * - 予算の一定割合(downgradeRatio)を超えている場合: 安価なモデルに切り替え
+ *
+ * 見積もりでは出力トークン数をmaxTokens(上限)として計算するため、実際の料金以上になります。
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ */
+
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { formatDateToJST } from '../../utils/dateUtils';
+import { SpendLedger, SpendWindow } from './spendLedger';
+import { CHEAPEST_CLAUDE_MODEL, calculateCostUsd, getModelPrice } from './modelPricing';
+
+/**
+ * 安価なモデルに切り替える予算の割合のデフォルト値
+ */
+export const DEFAULT_DOWNGRADE_RATIO = 0.8;
+
+/**
+ * 予算の期間
+ */
+export type BudgetPeriod = 'daily' | 'monthly';
+
+/**
+ * 予算の期間の表示名
+ */
+const BUDGET_PERIOD_LABELS: Record<BudgetPeriod, string> = {
+  daily: '今日',
+  monthly: '今月',
+};
+
+/**
+ * 予算超過のため呼び出しを拒否したエラー
+ *
+ * 予算は時間が経過するまで回復しないため、リトライ不可とする
+ */
+export class BudgetExceededError extends AppError {
+  constructor(
+    public readonly period: BudgetPeriod,
+    public readonly limitUsd: number,
+    public readonly spentUsd: number
+  ) {
+    super(
+      `Claude API ${period} budget exceeded: spent $${spentUsd.toFixed(4)} of $${limitUsd}`,
+      ErrorType.API,
+      ErrorSeverity.HIGH,
+      false
+    );
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * 予算チェックの設定
+ */
+export interface BudgetGuardConfig {
+  /** 1日(JST)あたりの予算(米ドル、未指定の場合は確認しない) */
+  dailyLimitUsd?: number;
+  /** 1ヶ月(JST)あたりの予算(米ドル、未指定の場合は確認しない) */
+  monthlyLimitUsd?: number;
+  /**
+   * 安価なモデルに切り替える予算の割合(0〜1)
+   * @default 0.8
+   */
+  downgradeRatio?: number;
+  /**
+   * 切り替え先のモデル
+   * @default 料金表で最も安いモデル
+   */
+  fallbackModel?: string;
+  /**
+   * 利用料の記録・集計
+   * @default new SpendLedger()
+   */
+  ledger?: SpendLedger;
+  /**
+   * 現在日時を返す関数(テスト用)
+   * @default () => new Date()
+   */
+  now?: () => Date;
+}
+
+/**
+ * 予算チェックの対象となる呼び出し
+ */
+export interface BudgetCheckRequest {
+  /** 使用するモデル */
+  model: string;
+  /** 入力トークン数の見積もり */
+  estimatedInputTokens: number;
+  /** 最大出力トークン数 */
+  maxTokens: number;
+}
+
+/**
+ * 予算チェックの結果
+ *
+ * - allow: 指定したモデルで呼び出す
+ * - downgrade: modelに切り替えて呼び出す
+ */
+export interface BudgetDecision {
+  action: 'allow' | 'downgrade';
+  /** 呼び出しに使用するモデル */
+  model: string;
+  /** モデルを切り替えた理由 */
+  reason?: string;
+}
+
+/**
+ * 期間ごとの利用状況
+ */
+interface BudgetStatus {
+  period: BudgetPeriod;
+  limitUsd: number;
+  spentUsd: number;
+}
+
+/**
+ * 予算の期間(JST)を取得
+ *
+ * @param period - 予算の期間
+ * @param now - 基準日時
+ * @returns 今日または今月の開始・終了日時
+ */
+export function getBudgetWindow(period: BudgetPeriod, now: Date = new Date()): SpendWindow {
+  const [year, month] = formatDateToJST(now).split('-').map(Number);
+
+  if (period === 'daily') {
+    const from = new Date(`${formatDateToJST(now)}T00:00:00+09:00`);
+    return { from, to: new Date(from.getTime() + 24 * 60 * 60 * 1000) };
+  }
+
+  // Date.UTCの月は0始まりのため、monthはそのまま翌月を表す
+  const jstOffsetMs = 9 * 60 * 60 * 1000;
+  return {
+    from: new Date(Date.UTC(year, month - 1, 1) - jstOffsetMs),
+    to: new Date(Date.UTC(year, month, 1) - jstOffsetMs),
+  };
+}
+
+/**
+ * Claude API利用料の予算チェッククラス
+ *
+ * @example
+ * ```typescript
+ * const guard = new BudgetGuard({ dailyLimitUsd: 1, monthlyLimitUsd: 20 });
+ * const decision = await guard.check({ model, estimatedInputTokens: 1000, maxTokens: 4096 });
+ * // 予算を超える場合はBudgetExceededError
+ * ```
+ */
+export class BudgetGuard {
+  private readonly limits: Partial<Record<BudgetPeriod, number>>;
+  private readonly downgradeRatio: number;
+  private readonly fallbackModel: string;
+  private readonly ledger: SpendLedger;
+  private readonly now: () => Date;
+
+  /**
+   * BudgetGuardを作成
+   *
+   * @param config - 設定
+   */
+  constructor(config: BudgetGuardConfig = {}) {
+    this.limits = { daily: config.dailyLimitUsd, monthly: config.monthlyLimitUsd };
+    this.downgradeRatio = config.downgradeRatio ?? DEFAULT_DOWNGRADE_RATIO;
+    this.fallbackModel = config.fallbackModel ?? CHEAPEST_CLAUDE_MODEL;
+    this.ledger = config.ledger ?? new SpendLedger();
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * 予算が設定されているかどうか
+   *
+   * @returns 日次・月次のいずれかの予算が設定されている場合true
+   */
+  isEnabled(): boolean {
+    return this.limits.daily !== undefined || this.limits.monthly !== undefined;
+  }
+
+  /**
+   * 呼び出しが予算内に収まるかを判定
+   *
+   * 利用料の集計に失敗した場合は、呼び出しを止めないよう指定したモデルで許可する。
+   *
+   * @param request - 予算チェックの対象となる呼び出し
+   * @returns 呼び出しに使用するモデル
+   * @throws {BudgetExceededError} 安価なモデルでも予算を超える場合
+   */
+  async check(request: BudgetCheckRequest): Promise<BudgetDecision> {
+    if (!this.isEnabled()) {
+      return { action: 'allow', model: request.model };
+    }
+
+    let statuses: BudgetStatus[];
+    try {
+      statuses = await this.getStatuses();
+    } catch (error) {
+      console.warn(
+        '[BudgetGuard] Failed to fetch Claude spend, skipping budget check:',
+        error instanceof Error ? error.message : error
+      );
+      return { action: 'allow', model: request.model };
+    }
+
+    const canDowngrade =
+      getModelPrice(this.fallbackModel).outputPerMillionTokens <
+      getModelPrice(request.model).outputPerMillionTokens;
+    const exceeded = (model: string) => {
+      const estimate = calculateCostUsd(model, request.estimatedInputTokens, request.maxTokens);
+      return statuses.find((status) => status.spentUsd + estimate > status.limitUsd);
+    };
+
+    const exceededWithModel = exceeded(request.model);
+    if (!exceededWithModel) {
+      const nearLimit = statuses.find(
+        (status) => status.spentUsd >= status.limitUsd * this.downgradeRatio
+      );
+      if (nearLimit && canDowngrade) {
+        return this.downgrade(nearLimit, `の${Math.round(this.downgradeRatio * 100)}%を超えた`);
+      }
+      return { action: 'allow', model: request.model };
+    }
+
+    if (canDowngrade && !exceeded(this.fallbackModel)) {
+      return this.downgrade(exceededWithModel, 'を超える');
+    }
+
+    throw new BudgetExceededError(
+      exceededWithModel.period,
+      exceededWithModel.limitUsd,
+      exceededWithModel.spentUsd
+    );
+  }
+
+  /**
+   * 設定されている期間ごとの利用状況を取得
+   */
+  private async getStatuses(): Promise<BudgetStatus[]> {
+    const now = this.now();
+    const periods = (Object.keys(this.limits) as BudgetPeriod[]).filter(
+      (period) => this.limits[period] !== undefined
+    );
+
+    return Promise.all(
+      periods.map(async (period) => ({
+        period,
+        limitUsd: this.limits[period] as number,
+        spentUsd: await this.ledger.getTotalCostUsd(getBudgetWindow(period, now)),
+      }))
+    );
+  }
+
+  /**
+   * 安価なモデルへの切り替えを返す
+   */
+  private downgrade(status: BudgetStatus, condition: string): BudgetDecision {
+    const reason = `${BUDGET_PERIOD_LABELS[status.period]}の利用料($${status.spentUsd.toFixed(4)})が予算($${status.limitUsd})${condition}ため${this.fallbackModel}に切り替えます`;
+    console.warn(`[BudgetGuard] ${reason}`);
+    return { action: 'downgrade', model: this.fallbackModel, reason };
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Claude API利用料モジュール
+ *
+ * Claude API呼び出しごとの利用料の記録・集計と、予算チェックの機能を提供します。
+ */
+
+export {
+  CLAUDE_MODEL_PRICES,
+  CHEAPEST_CLAUDE_MODEL,
+  getModelPrice,
+  calculateCostUsd,
+  MESSAGE_BATCH_PRICE_RATIO,
+  type ModelPrice,
+} from './modelPricing';
+
+export {
+  SpendLedger,
+  SpendLedgerError,
+  CLAUDE_USAGE_TABLE,
+  OPERATION_JOBS,
+  UNSPECIFIED_OPERATION,
+  resolveUsageJob,
+  type ClaudeUsageInput,
+  type SpendWindow,
+  type SpendSummaryEntry,
+} from './spendLedger';
+
+export {
+  BudgetGuard,
+  BudgetExceededError,
+  DEFAULT_DOWNGRADE_RATIO,
+  getBudgetWindow,
+  type BudgetPeriod,
+  type BudgetGuardConfig,
+  type BudgetCheckRequest,
+  type BudgetDecision,
+} from './budgetGuard';
@@ -0,0 +1,84 @@
+/**
+ * Claudeモデルの料金表
+ *
+ * CLAUDE_MODELSのモデルごとの100万トークンあたりの料金(米ドル)を定義し、
+ * トークン使用量から料金を計算します。
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ *
+ * @see https://docs.anthropic.com/en/docs/about-claude/pricing - Claude API Pricing
+ */
+
+import type { ClaudeModel } from '../claudeClient';
+
+/**
+ * モデルの料金(100万トークンあたりの米ドル)
+ */
+export interface ModelPrice {
+  /** 入力トークンの料金 */
+  inputPerMillionTokens: number;
+  /** 出力トークンの料金 */
+  outputPerMillionTokens: number;
+}
+
+/**
+ * CLAUDE_MODELSのモデルごとの料金表
+ *
+ * 料金改定やモデル追加の際はここを更新する
+ */
+export const CLAUDE_MODEL_PRICES: Readonly<Record<ClaudeModel, ModelPrice>> = {
+  'claude-haiku-4-5': { inputPerMillionTokens: 1, outputPerMillionTokens: 5 },
+  'claude-sonnet-4-5': { inputPerMillionTokens: 3, outputPerMillionTokens: 15 },
+};
+
+/**
+ * Message Batchesで送信したリクエストの料金の割合(通常の料金の50%)
+ *
+ * @see https://docs.anthropic.com/en/docs/build-with-claude/batch-processing#pricing
+ */
+export const MESSAGE_BATCH_PRICE_RATIO = 0.5;
+
+/**
+ * 料金表のモデルを安い順に並べた配列
+ */
+const MODELS_BY_PRICE = (Object.keys(CLAUDE_MODEL_PRICES) as ClaudeModel[]).sort(
+  (a, b) =>
+    CLAUDE_MODEL_PRICES[a].outputPerMillionTokens - CLAUDE_MODEL_PRICES[b].outputPerMillionTokens
+);
+
+/**
+ * 料金表で最も安いモデル(予算超過時の切り替え先)
+ */
+export const CHEAPEST_CLAUDE_MODEL: ClaudeModel = MODELS_BY_PRICE[0];
+
+/**
+ * モデルの料金を取得
+ *
+ * APIのレスポンスにはスナップショット名(例: claude-haiku-4-5-20251001)が含まれるため、
+ * エイリアスとの前方一致で料金表を引く。
+ * 料金表にないモデルは予算を超過しないよう、最も高いモデルの料金とする。
+ *
+ * @param model - モデル名(エイリアスまたはスナップショット名)
+ * @returns モデルの料金
+ */
+export function getModelPrice(model: string): ModelPrice {
+  const alias = MODELS_BY_PRICE.find((candidate) => model.startsWith(candidate));
+  return CLAUDE_MODEL_PRICES[alias ?? MODELS_BY_PRICE[MODELS_BY_PRICE.length - 1]];
+}
+
+/**
+ * トークン使用量から料金を計算
+ *
+ * @param model - モデル名
+ * @param inputTokens - 入力トークン数
+ * @param outputTokens - 出力トークン数
+ * @returns 料金(米ドル)
+ */
+export function calculateCostUsd(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getModelPrice(model);
+  return (
+    (inputTokens * price.inputPerMillionTokens + outputTokens * price.outputPerMillionTokens) /
+    1000000
+  );
+}
@@ -0,0 +1,207 @@
+/**
+ * Claude API利用料の記録と集計
+ *
+ * Claude API呼び出しごとのトークン使用量と料金をclaude_usageテーブルに保存し、
+ * 期間内の利用料を処理・操作・モデルごとに集計します。
+ * プロセスの再起動でリセットされるTokenUsageTrackerと異なり、日次・月次の予算判定に使用できます。
+ *
+ * Requirements:
+ * - Claude API利用料の予算管理
+ * - 10.3 (トークン使用量の監視)
+ */
+
+import { getSupabase } from '../../config/supabase';
+import {
+  ClaudeUsageJob,
+  ClaudeUsageInsertPayload,
+  ClaudeUsageSummaryRow,
+} from '../../models/supabase.types';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { MESSAGE_BATCH_PRICE_RATIO, calculateCostUsd } from './modelPricing';
+
+/**
+ * 利用料を保存するテーブル名
+ */
+export const CLAUDE_USAGE_TABLE = 'claude_usage';
+
+/**
+ * 期間内の利用料を集計するRPC関数名
+ */
+const SUMMARIZE_CLAUDE_USAGE_FUNCTION = 'summarize_claude_usage';
+
+/**
+ * operationを指定せずに呼び出した場合の操作名
+ */
+export const UNSPECIFIED_OPERATION = 'unspecified';
+
+/**
+ * 操作名と呼び出し元の処理の対応
+ *
+ * 新しい操作を追加した場合はここに追加する(未登録の操作は'other'として集計される)
+ */
+export const OPERATION_JOBS: Readonly<Record<string, ClaudeUsageJob>> = {
+  'english-news-summary': 'news',
+  'japanese-news-summary': 'news',
+  'category-news-summary': 'news',
+  'term-generation': 'terms',
+  'term-quiz-generation': 'terms',
+  'term-explanation-generation': 'explain',
+};
+
+/**
+ * 操作名から呼び出し元の処理を判定
+ *
+ * @param operation - 操作名
+ * @returns 呼び出し元の処理
+ */
+export function resolveUsageJob(operation: string): ClaudeUsageJob {
+  return OPERATION_JOBS[operation] ?? 'other';
+}
+
+/**
+ * 利用料の記録・集計エラー
+ */
+export class SpendLedgerError extends AppError {
+  constructor(message: string, originalError?: Error) {
+    super(message, ErrorType.DATABASE, ErrorSeverity.MEDIUM, true, originalError);
+    this.name = 'SpendLedgerError';
+  }
+}
+
+/**
+ * 記録するClaude API呼び出しの利用量
+ */
+export interface ClaudeUsageInput {
+  /** 操作名(省略時は'unspecified') */
+  operation?: string;
+  /** 使用したモデル */
+  model: string;
+  /** 入力トークン数 */
+  inputTokens: number;
+  /** 出力トークン数 */
+  outputTokens: number;
+  /**
+   * Message Batchesで送信したリクエストかどうか
+   *
+   * trueの場合はMESSAGE_BATCH_PRICE_RATIOを掛けた料金で記録する。
+   */
+  batch?: boolean;
+}
+
+/**
+ * 集計期間
+ */
+export interface SpendWindow {
+  /** 開始日時(この日時を含む) */
+  from: Date;
+  /** 終了日時(この日時を含まない) */
+  to: Date;
+}
+
+/**
+ * 処理・操作・モデルごとの利用料
+ */
+export interface SpendSummaryEntry {
+  /** 呼び出し元の処理 */
+  job: ClaudeUsageJob;
+  /** 操作名 */
+  operation: string;
+  /** 使用したモデル */
+  model: string;
+  /** 呼び出し回数 */
+  requestCount: number;
+  /** 入力トークン数の合計 */
+  inputTokens: number;
+  /** 出力トークン数の合計 */
+  outputTokens: number;
+  /** 料金の合計(米ドル) */
+  costUsd: number;
+}
+
+/**
+ * Claude API利用料の記録・集計クラス
+ *
+ * @example
+ * ```typescript
+ * const ledger = new SpendLedger();
+ * await ledger.record({ operation: 'term-generation', model, inputTokens, outputTokens });
+ * const spent = await ledger.getTotalCostUsd({ from: startOfDay, to: new Date() });
+ * ```
+ */
+export class SpendLedger {
+  /**
+   * 呼び出し1回分の利用量と料金を保存
+   *
+   * @param input - 利用量
+   * @returns 保存した行
+   * @throws {SpendLedgerError} 保存に失敗した場合
+   */
+  async record(input: ClaudeUsageInput): Promise<ClaudeUsageInsertPayload> {
+    const operation = input.operation ?? UNSPECIFIED_OPERATION;
+    const row: ClaudeUsageInsertPayload = {
+      job: resolveUsageJob(operation),
+      operation,
+      model: input.model,
+      input_tokens: input.inputTokens,
+      output_tokens: input.outputTokens,
+      cost_usd:
+        calculateCostUsd(input.model, input.inputTokens, input.outputTokens) *
+        (input.batch ? MESSAGE_BATCH_PRICE_RATIO : 1),
+    };
+
+    const { error } = await getSupabase().from(CLAUDE_USAGE_TABLE).insert(row);
+
+    if (error) {
+      throw new SpendLedgerError(
+        `Failed to record Claude usage: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    return row;
+  }
+
+  /**
+   * 期間内の利用料を処理・操作・モデルごとに集計
+   *
+   * @param window - 集計期間
+   * @returns 料金の高い順の利用料
+   * @throws {SpendLedgerError} 集計に失敗した場合
+   */
+  async summarize(window: SpendWindow): Promise<SpendSummaryEntry[]> {
+    const { data, error } = await getSupabase().rpc(SUMMARIZE_CLAUDE_USAGE_FUNCTION, {
+      window_start: window.from.toISOString(),
+      window_end: window.to.toISOString(),
+    });
+
+    if (error) {
+      throw new SpendLedgerError(
+        `Failed to summarize Claude usage: ${error.message}`,
+        new Error(error.message)
+      );
+    }
+
+    // bigint・numericは文字列で返る場合があるため数値に変換する
+    return ((data ?? []) as ClaudeUsageSummaryRow[]).map((row) => ({
+      job: row.job,
+      operation: row.operation,
+      model: row.model,
+      requestCount: Number(row.request_count),
+      inputTokens: Number(row.input_tokens),
+      outputTokens: Number(row.output_tokens),
+      costUsd: Number(row.cost_usd),
+    }));
+  }
+
+  /**
+   * 期間内の利用料の合計を取得
+   *
+   * @param window - 集計期間
+   * @returns 料金の合計(米ドル)
+   * @throws {SpendLedgerError} 集計に失敗した場合
+   */
+  async getTotalCostUsd(window: SpendWindow): Promise<number> {
+    const entries = await this.summarize(window);
+    return entries.reduce((sum, entry) => sum + entry.costUsd, 0);
+  }
+}
@@ -10,6 +10,8 @@ import {
   TermGenerationService,
   TermGenerationError,
 } from '../termGenerationService';
+import { PromptRegistry } from '../../prompts';
+import { TERM_OUTPUT_TOOL } from '../termResponseParser';
 
 // ClaudeClientをモック化
 jest.mock('../../claudeClient');
@@ -98,6 +100,27 @@ describe('TermGenerationService', () => {
       expect(mockClient.sendMessage).toHaveBeenCalledTimes(1);
     });
 
+    it('構造化出力のツールを指定し、ツールの入力の用語を使用すること', async () => {
+      const mockTerm = {
+        name: 'PBR',
+        description: generateDescription(500),
+        difficulty: 'intermediate',
+      };
+      mockClient.sendMessage.mockResolvedValue({
+        ...createMockResponse(mockTerm),
+        content: '',
+        toolInput: mockTerm,
+      });
+
+      const result = await service.generateTerm();
+
+      expect(result.term).toEqual(mockTerm);
+      expect(mockClient.sendMessage).toHaveBeenCalledWith(expect.any(String), {
+        operation: 'term-generation',
+        tool: TERM_OUTPUT_TOOL,
+      });
+    });
+
     it('難易度を指定して用語を生成できること', async () => {
       const mockTerm = {
         name: 'デリバティブ',
@@ -210,6 +233,24 @@ describe('TermGenerationService', () => {
       expect(result.term.name).toBe('PER');
       expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
     });
+
+    it('パースに失敗し続けた場合はスキーマ検証エラーの位置をエラーに含めること', async () => {
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const silentService = new TermGenerationService(mockClient, {
+        maxRetries: 0,
+        logErrors: false,
+      });
+      mockClient.sendMessage.mockResolvedValue({
+        ...createMockResponse({ name: 'PER', description: '', difficulty: 'beginner' }),
+        content: '',
+        toolInput: { name: 'PER', difficulty: 'beginner' },
+      });
+
+      await expect(silentService.generateTerm()).rejects.toThrow(
+        /\$\.description: required property is missing/
+      );
+      warnSpy.mockRestore();
+    });
   });
 
   describe('エラーログ', () => {
@@ -238,6 +279,67 @@ describe('TermGenerationService', () => {
     });
   });
 
+  describe('プロンプトのバージョン', () => {
+    it('選択したバージョンのテンプレートでプロンプトを作成し、結果にバージョンを含める', async () => {
+      mockClient.sendMessage.mockResolvedValue(
+        createMockResponse({
+          name: 'PER',
+          description: generateDescription(500),
+          difficulty: 'beginner',
+        })
+      );
+      const promptRegistry = new PromptRegistry([
+        { name: 'term-generation', version: 'v1', template: 'v1', weight: 0 },
+        { name: 'term-generation', version: 'v2', template: 'v2: {{difficultyInstruction}}' },
+      ]);
+      const abService = new TermGenerationService(mockClient, { promptRegistry });
+
+      const result = await abService.generateTerm({ difficulty: 'beginner' });
+
+      expect(result.promptVersion).toBe('v2');
+      expect(mockClient.sendMessage.mock.calls[0][0]).toMatch(/^v2: 【初級レベル】/);
+    });
+  });
+
+  describe('prepareRequest / toGenerationResult', () => {
+    it('構造化出力のツールを指定したリクエストを作成すること', () => {
+      const request = service.prepareRequest({ difficulty: 'advanced', excludeTerms: ['PER'] });
+
+      expect(request.options).toEqual({ operation: 'term-generation', tool: TERM_OUTPUT_TOOL });
+      expect(request.promptVersion).toBe('v1');
+      expect(request.prompt).toContain('PER');
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('ツールの入力を生成結果に変換すること', () => {
+      const result = service.toGenerationResult(
+        {
+          ...createMockResponse({ name: '', description: '', difficulty: '' }),
+          content: '',
+          toolInput: {
+            name: 'ROE',
+            description: generateDescription(500),
+            difficulty: 'intermediate',
+          },
+        },
+        'v2'
+      );
+
+      expect(result.term.name).toBe('ROE');
+      expect(result.term.difficulty).toBe('intermediate');
+      expect(result.promptVersion).toBe('v2');
+      expect(result.inputTokens).toBe(100);
+    });
+
+    it('パースに失敗した場合はリトライせずTermGenerationErrorをスローすること', () => {
+      const response = { ...createMockResponse({ name: '', description: '', difficulty: '' }) };
+      response.content = 'invalid';
+
+      expect(() => service.toGenerationResult(response, 'v1')).toThrow(TermGenerationError);
+      expect(mockClient.sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('TermGenerationError', () => {
     it('AppErrorを継承していること', async () => {
       mockClient.sendMessage.mockRejectedValue(new Error('API error'));
@@ -0,0 +1,118 @@
+/**
+ * 用語クイズ生成サービステスト
+ *
+ * Requirements:
+ * - 用語ごとに2〜3問の4択クイズ(誤答選択肢・解説付き)を生成
+ * - 1.7 (バッチ失敗時エラーログ+リトライ)
+ */
+
+import { ClaudeClient, ClaudeResponse } from '../../claudeClient';
+import {
+  TermQuizGenerationService,
+  TermQuizGenerationError,
+} from '../termQuizGenerationService';
+import { Term } from '../../../models/terms.model';
+
+// ClaudeClientをモック化
+jest.mock('../../claudeClient');
+
+const mockTerm: Term = {
+  name: 'PER',
+  description: '株価収益率。株価が1株当たり純利益の何倍かを示す指標です。',
+  difficulty: 'beginner',
+};
+
+/**
+ * テスト用のClaudeResponseを生成するヘルパー
+ */
+function createMockResponse(content: string): ClaudeResponse {
+  return {
+    content,
+    usage: {
+      inputTokens: 300,
+      outputTokens: 400,
+    },
+    model: 'claude-haiku-4-5',
+    stopReason: 'end_turn',
+  };
+}
+
+/**
+ * 指定した設問数の有効なクイズJSONを生成するヘルパー
+ */
+function createQuizJson(count: number): string {
+  return JSON.stringify({
+    questions: Array.from({ length: count }, (_, index) => ({
+      question: `問題${index + 1}`,
+      choices: ['選択肢A', '選択肢B', '選択肢C', '選択肢D'],
+      correctIndex: index % 4,
+      explanation: `解説${index + 1}`,
+    })),
+  });
+}
+
+describe('TermQuizGenerationService', () => {
+  let mockClient: jest.Mocked<ClaudeClient>;
+
+  beforeEach(() => {
+    mockClient = {
+      sendMessage: jest.fn(),
+      getDefaultModel: jest.fn().mockReturnValue('claude-haiku-4-5'),
+      isInitialized: jest.fn().mockReturnValue(true),
+      getInternalClient: jest.fn(),
+    } as unknown as jest.Mocked<ClaudeClient>;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('デフォルト設定で初期化されること', () => {
+    const service = new TermQuizGenerationService(mockClient);
+
+    expect(service.getConfig()).toEqual({ maxRetries: 2, logErrors: true });
+  });
+
+  it('用語の解説をもとにクイズを生成すること', async () => {
+    mockClient.sendMessage.mockResolvedValueOnce(createMockResponse(createQuizJson(3)));
+    const service = new TermQuizGenerationService(mockClient);
+
+    const result = await service.generateQuiz(mockTerm);
+
+    expect(result.quiz.termName).toBe('PER');
+    expect(result.quiz.questions).toHaveLength(3);
+    expect(result.inputTokens).toBe(300);
+    expect(mockClient.sendMessage).toHaveBeenCalledWith(
+      expect.stringContaining(mockTerm.description),
+      { operation: 'term-quiz-generation' }
+    );
+  });
+
+  it('検証に失敗した場合は再生成すること', async () => {
+    mockClient.sendMessage
+      .mockResolvedValueOnce(createMockResponse(createQuizJson(1)))
+      .mockResolvedValueOnce(createMockResponse(createQuizJson(2)));
+    const service = new TermQuizGenerationService(mockClient, { logErrors: false });
+
+    const result = await service.generateQuiz(mockTerm);
+
+    expect(result.quiz.questions).toHaveLength(2);
+    expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('最大リトライ回数を超えた場合はTermQuizGenerationErrorをスローすること', async () => {
+    mockClient.sendMessage.mockRejectedValue(new Error('API Error'));
+    const service = new TermQuizGenerationService(mockClient, {
+      maxRetries: 1,
+      logErrors: false,
+    });
+
+    const error = await service.generateQuiz(mockTerm).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TermQuizGenerationError);
+    expect(error.termName).toBe('PER');
+    expect(error.attempts).toBe(2);
+    expect(error.message).toContain('API Error');
+    expect(mockClient.sendMessage).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * 用語クイズ生成プロンプトテスト
+ *
+ * Requirements: 用語ごとに2〜3問の4択クイズ(誤答選択肢・解説付き)を生成
+ */
+
+import { buildTermQuizPrompt, TERM_QUIZ_CONFIG } from '../termQuizPrompt';
+import { Term } from '../../../models/terms.model';
+
+const mockTerm: Term = {
+  name: '信用取引',
+  description: '証券会社からお金や株を借りて取引する方法です。',
+  difficulty: 'intermediate',
+};
+
+describe('termQuizPrompt', () => {
+  it('用語名と解説文を含むこと', () => {
+    const prompt = buildTermQuizPrompt(mockTerm);
+
+    expect(prompt).toContain('用語名: 信用取引');
+    expect(prompt).toContain(mockTerm.description);
+    expect(prompt).toContain('【中級レベル】');
+  });
+
+  it('設問数・選択肢数とJSON出力形式を指示すること', () => {
+    const prompt = buildTermQuizPrompt(mockTerm);
+
+    expect(prompt).toContain(
+      `${TERM_QUIZ_CONFIG.minQuestions}〜${TERM_QUIZ_CONFIG.maxQuestions}問`
+    );
+    expect(prompt).toContain(`${TERM_QUIZ_CONFIG.choiceCount}択`);
+    expect(prompt).toContain('"correctIndex"');
+    expect(prompt).toContain('"explanation"');
+    expect(prompt).toContain('```json');
+  });
+});
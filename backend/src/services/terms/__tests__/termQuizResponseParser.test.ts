@@ -0,0 +1,120 @@
+/**
+ * 用語クイズレスポンスパーサーテスト
+ *
+ * Requirements: 用語ごとに2〜3問の4択クイズ(誤答選択肢・解説付き)を生成
+ */
+
+import { ClaudeResponse } from '../../claudeClient';
+import { parseTermQuizResponse } from '../termQuizResponseParser';
+
+/**
+ * テスト用のClaudeResponseを生成するヘルパー
+ */
+function createMockResponse(content: string): ClaudeResponse {
+  return {
+    content,
+    usage: {
+      inputTokens: 100,
+      outputTokens: 200,
+    },
+    model: 'claude-haiku-4-5',
+    stopReason: 'end_turn',
+  };
+}
+
+/**
+ * 有効な設問を生成するヘルパー
+ */
+function createQuestion(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    question: 'PERが低い銘柄について正しい説明はどれですか?',
+    choices: ['利益に対して株価が割安', '配当利回りが必ず高い', '自己資本が大きい', '株価が上昇中'],
+    correctIndex: 0,
+    explanation: 'PERは株価を1株当たり純利益で割った指標で、低いほど利益に対して割安です。',
+    ...overrides,
+  };
+}
+
+describe('termQuizResponseParser', () => {
+  describe('parseTermQuizResponse', () => {
+    it('正しいJSON形式のレスポンスをパースできること', () => {
+      const response = createMockResponse(
+        JSON.stringify({ questions: [createQuestion(), createQuestion({ correctIndex: 2 })] })
+      );
+
+      const result = parseTermQuizResponse(response);
+
+      expect(result.success).toBe(true);
+      expect(result.questions).toHaveLength(2);
+      expect(result.questions?.[1].correctIndex).toBe(2);
+      expect(result.model).toBe('claude-haiku-4-5');
+      expect(result.inputTokens).toBe(100);
+      expect(result.outputTokens).toBe(200);
+    });
+
+    it('コードブロック付きJSONをパースし、前後の空白を除去すること', () => {
+      const json = JSON.stringify({
+        questions: [
+          createQuestion({ question: '  問題文  ' }),
+          createQuestion(),
+          createQuestion(),
+        ],
+      });
+      const response = createMockResponse(`\`\`\`json\n${json}\n\`\`\``);
+
+      const result = parseTermQuizResponse(response);
+
+      expect(result.success).toBe(true);
+      expect(result.questions).toHaveLength(3);
+      expect(result.questions?.[0].question).toBe('問題文');
+    });
+
+    it('設問数が2〜3問でない場合は失敗すること', () => {
+      const tooFew = parseTermQuizResponse(
+        createMockResponse(JSON.stringify({ questions: [createQuestion()] }))
+      );
+      const tooMany = parseTermQuizResponse(
+        createMockResponse(
+          JSON.stringify({ questions: Array.from({ length: 4 }, () => createQuestion()) })
+        )
+      );
+
+      expect(tooFew.success).toBe(false);
+      expect(tooFew.error).toContain('questions');
+      expect(tooMany.success).toBe(false);
+    });
+
+    it.each([
+      ['選択肢が4つでない', { choices: ['A', 'B', 'C'] }, 'choices'],
+      ['選択肢が重複している', { choices: ['A', 'B', 'A', 'C'] }, '重複'],
+      ['correctIndexが範囲外', { correctIndex: 4 }, 'correctIndex'],
+      ['correctIndexが整数でない', { correctIndex: 1.5 }, 'correctIndex'],
+      ['解説が空', { explanation: '  ' }, 'explanation'],
+      ['問題文がない', { question: undefined }, 'question'],
+    ])('%s設問がある場合は失敗すること', (_label, overrides, expectedError) => {
+      const response = createMockResponse(
+        JSON.stringify({ questions: [createQuestion(), createQuestion(overrides)] })
+      );
+
+      const result = parseTermQuizResponse(response);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('設問2');
+      expect(result.error).toContain(expectedError);
+    });
+
+    it('空のレスポンスの場合は失敗すること', () => {
+      const result = parseTermQuizResponse(createMockResponse(''));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('レスポンスが空です。');
+    });
+
+    it('不正なJSONの場合は失敗すること', () => {
+      const result = parseTermQuizResponse(createMockResponse('{ invalid json'));
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('JSONのパースに失敗しました');
+    });
+  });
+});
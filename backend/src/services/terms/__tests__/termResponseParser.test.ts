@@ -7,9 +7,14 @@
 
 import { ClaudeResponse } from '../../claudeClient';
 import {
+  parseStructuredTermResponse,
   parseTermResponse,
   validateTermDescription,
 } from '../termResponseParser';
+import {
+  getStructuredOutputMetrics,
+  resetStructuredOutputMetrics,
+} from '../../llm/structuredOutputMetrics';
 
 /**
  * テスト用のClaudeResponseを生成するヘルパー
@@ -220,4 +225,58 @@ describe('termResponseParser', () => {
       expect(result.characterCount).toBe(500);
     });
   });
+
+  describe('parseStructuredTermResponse', () => {
+    const term = {
+      name: ' PER ',
+      description: generateDescription(500),
+      difficulty: 'beginner',
+    };
+
+    beforeEach(() => {
+      resetStructuredOutputMetrics();
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('ツールの入力から用語を抽出すること', () => {
+      const response = { ...createMockResponse(''), toolInput: term };
+
+      const result = parseStructuredTermResponse(response);
+
+      expect(result.success).toBe(true);
+      expect(result.term).toEqual({ ...term, name: 'PER' });
+      expect(result.model).toBe('claude-haiku-4-5');
+      expect(getStructuredOutputMetrics().getSummary()['term-generation']).toEqual({
+        tool: 1,
+        text: 0,
+        failed: 0,
+      });
+    });
+
+    it('ツールの入力がない場合はテキストのJSONを解析すること', () => {
+      const result = parseStructuredTermResponse(createMockResponse(JSON.stringify(term)));
+
+      expect(result.success).toBe(true);
+      expect(result.term?.name).toBe('PER');
+      expect(getStructuredOutputMetrics().getSummary()['term-generation'].text).toBe(1);
+    });
+
+    it('どちらでも解析できない場合はスキーマ検証エラーの位置を含むエラーを返すこと', () => {
+      const response = {
+        ...createMockResponse(''),
+        toolInput: { ...term, difficulty: 'expert' },
+      };
+
+      const result = parseStructuredTermResponse(response, 'term-generation');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('$.difficulty: must be one of');
+      expect(result.error).toContain('レスポンスが空です');
+      expect(getStructuredOutputMetrics().getSummary()['term-generation'].failed).toBe(1);
+    });
+  });
 });
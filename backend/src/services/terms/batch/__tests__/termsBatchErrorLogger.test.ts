@@ -38,6 +38,7 @@ describe('TermsBatchErrorLogger', () => {
     databaseSaved: false,
     historyUpdated: false,
     metadataUpdated: false,
+    quizzesSaved: false,
     processingTimeMs: 100,
     date: '2026-01-03',
     errors: [],
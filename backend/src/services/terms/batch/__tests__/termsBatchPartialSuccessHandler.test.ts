@@ -40,6 +40,7 @@ describe('TermsPartialSuccessHandler', () => {
     databaseSaved: false,
     historyUpdated: false,
     metadataUpdated: false,
+    quizzesSaved: false,
     processingTimeMs: 100,
     date: '2026-01-03',
     errors: [],
@@ -149,6 +150,24 @@ describe('TermsPartialSuccessHandler', () => {
       expect(analysis.generatedDifficulties).not.toContain('intermediate');
       expect(analysis.missingDifficulties).toContain('intermediate');
     });
+
+    it('生成後のデータベース保存に失敗した場合、保存失敗と判定する', () => {
+      const terms = [
+        createMockTerm('PER', 'beginner'),
+        createMockTerm('ROE', 'intermediate'),
+        createMockTerm('デリバティブ', 'advanced'),
+      ];
+      const result = createMockResult(terms, {
+        databaseSaved: false,
+        errors: [{ type: 'database-save', message: '保存失敗', timestamp: new Date() }],
+      });
+
+      const analysis = handler.analyze(result);
+
+      expect(analysis.isPartialSuccess).toBe(false);
+      expect(analysis.type).toBe(TermsPartialSuccessType.SAVE_FAILURE);
+      expect(analysis.shouldRetry).toBe(true);
+    });
   });
 
   describe('createNotification', () => {
@@ -178,6 +197,41 @@ describe('TermsPartialSuccessHandler', () => {
       expect(notification.title).toContain('部分成功');
     });
 
+    it('完全成功でもエラーがある場合は警告の通知を作成する', () => {
+      const terms = [
+        createMockTerm('PER', 'beginner'),
+        createMockTerm('ROE', 'intermediate'),
+        createMockTerm('デリバティブ', 'advanced'),
+      ];
+      const result = createMockResult(terms, {
+        databaseSaved: true,
+        errors: [{ type: 'history-update', message: '履歴更新失敗', timestamp: new Date() }],
+      });
+      const analysis = handler.analyze(result);
+
+      const notification = handler.createNotification(analysis, '2026-01-03');
+
+      expect(notification.severity).toBe('warning');
+      expect(notification.details.failureReasons).toContain('履歴更新失敗');
+    });
+
+    it('保存失敗の通知を作成する', () => {
+      const terms = [
+        createMockTerm('PER', 'beginner'),
+        createMockTerm('ROE', 'intermediate'),
+        createMockTerm('デリバティブ', 'advanced'),
+      ];
+      const result = createMockResult(terms, {
+        errors: [{ type: 'database-save', message: '保存失敗', timestamp: new Date() }],
+      });
+      const analysis = handler.analyze(result);
+
+      const notification = handler.createNotification(analysis, '2026-01-03');
+
+      expect(notification.severity).toBe('error');
+      expect(notification.title).toContain('失敗');
+    });
+
     it('完全失敗の通知を作成する', () => {
       const result = createMockResult([]);
       const analysis = handler.analyze(result);
@@ -20,6 +20,7 @@ describe('TermsBatchRetryHandler', () => {
     databaseSaved: false,
     historyUpdated: false,
     metadataUpdated: false,
+    quizzesSaved: false,
     processingTimeMs: 100,
     date: '2026-01-03',
     errors: [],
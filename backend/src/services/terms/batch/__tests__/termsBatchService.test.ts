@@ -15,13 +15,21 @@
  * - 4.4 (初級〜上級難易度混在)
  * - 4.5 (用語データSupabase保存)
  * - 4.6 (全履歴保持)
+ * - 用語ごとの4択クイズ生成・保存
  *
  * TDDのRED→GREEN→REFACTORサイクルで実装
  */
 
 import { TermsBatchService, TermsBatchServiceConfig } from '../termsBatchService';
+import { BatchRunRecorder } from '../../../batchRuns';
+import { Notifier } from '../../../notifications';
+import { BatchLock, BatchLockConflictError } from '../../../batchLock';
 import { TermGenerationService, TermGenerationResult, GenerateTermOptions } from '../../termGenerationService';
-import { TermDifficulty } from '../../../../models/terms.model';
+import {
+  TermQuizGenerationService,
+  TermQuizGenerationResult,
+} from '../../termQuizGenerationService';
+import { Term, TermDifficulty } from '../../../../models/terms.model';
 
 // Supabaseクライアントのモック
 // newsBatchService.test.ts と同じパターンでモックを構成
@@ -32,15 +40,20 @@ const mockSupabaseUpdate = jest.fn();
 const mockSupabaseEq = jest.fn();
 const mockSupabaseSelect = jest.fn();
 const mockSupabaseSingle = jest.fn();
+const mockSupabaseDelete = jest.fn();
+const mockSupabaseDeleteEq = jest.fn();
+const mockSupabaseRpc = jest.fn();
 
 const mockSupabaseClient = {
   from: mockSupabaseFrom,
+  rpc: mockSupabaseRpc,
 };
 
 /**
  * チェーンメソッドの設定
  *
- * terms/terms_history: insert() -> Promise (複数行挿入のためsingle()なし)
+ * terms/term_quizzes: rpc('replace_terms_for_date') -> Promise (同じ日付の行の置き換え)
+ * term_quizzes/terms_history: insert() -> Promise (複数行挿入のためsingle()なし)
  * batch_metadata: update() -> eq() -> select() -> single() -> Promise
  */
 mockSupabaseFrom.mockImplementation(() => ({
@@ -48,8 +61,17 @@ mockSupabaseFrom.mockImplementation(() => ({
   upsert: mockSupabaseUpsert,
   update: mockSupabaseUpdate,
   select: mockSupabaseSelect,
+  delete: mockSupabaseDelete,
 }));
 
+mockSupabaseDelete.mockImplementation(() => ({
+  eq: mockSupabaseDeleteEq,
+}));
+
+mockSupabaseDeleteEq.mockResolvedValue({ error: null });
+
+mockSupabaseRpc.mockResolvedValue({ data: null, error: null });
+
 // insert: 複数行挿入のためsingle()を使用しない(直接Promiseを返す)
 mockSupabaseInsert.mockResolvedValue({ data: [{ id: 1 }], error: null });
 
@@ -76,6 +98,13 @@ jest.mock('../../../../config/supabase', () => ({
   getSupabase: () => mockSupabaseClient,
 }));
 
+/**
+ * replace_terms_for_date関数に渡した用語のペイロードを取得
+ */
+function findTermsPayload(): Array<Record<string, unknown>> {
+  return mockSupabaseRpc.mock.calls[0][1].new_terms;
+}
+
 /**
  * モック用語生成結果を作成
  */
@@ -93,11 +122,32 @@ function createMockTermResult(
     characterCount,
     isValid: characterCount >= 400 && characterCount <= 600,
     model: 'claude-3-haiku-20240307',
+    promptVersion: 'v1',
     inputTokens: 100,
     outputTokens: 200,
   };
 }
 
+/**
+ * モック用語クイズ生成結果を作成
+ */
+function createMockQuizResult(term: Term): TermQuizGenerationResult {
+  return {
+    quiz: {
+      termName: term.name,
+      questions: [0, 1].map((index) => ({
+        question: `${term.name}の問題${index + 1}`,
+        choices: ['A', 'B', 'C', 'D'],
+        correctIndex: index,
+        explanation: `${term.name}の解説${index + 1}`,
+      })),
+    },
+    model: 'claude-3-haiku-20240307',
+    inputTokens: 300,
+    outputTokens: 400,
+  };
+}
+
 describe('TermsBatchService', () => {
   let mockGenerationService: jest.Mocked<TermGenerationService>;
 
@@ -110,7 +160,13 @@ describe('TermsBatchService', () => {
       upsert: mockSupabaseUpsert,
       update: mockSupabaseUpdate,
       select: mockSupabaseSelect,
+      delete: mockSupabaseDelete,
     }));
+    mockSupabaseDelete.mockImplementation(() => ({
+      eq: mockSupabaseDeleteEq,
+    }));
+    mockSupabaseDeleteEq.mockResolvedValue({ error: null });
+    mockSupabaseRpc.mockResolvedValue({ data: null, error: null });
     // insert: 複数行挿入のためsingle()を使用しない(直接Promiseを返す)
     mockSupabaseInsert.mockResolvedValue({ data: [{ id: 1 }], error: null });
     mockSupabaseUpsert.mockImplementation(() => ({
@@ -250,8 +306,10 @@ describe('TermsBatchService', () => {
       const result = await service.execute();
 
       // termsテーブルに保存されること
-      expect(mockSupabaseFrom).toHaveBeenCalledWith('terms');
-      expect(mockSupabaseInsert).toHaveBeenCalled();
+      expect(mockSupabaseRpc).toHaveBeenCalledWith(
+        'replace_terms_for_date',
+        expect.objectContaining({ replace_existing: true })
+      );
       expect(result.databaseSaved).toBe(true);
     });
 
@@ -265,8 +323,8 @@ describe('TermsBatchService', () => {
 
       await service.execute();
 
-      // insertの呼び出しを確認
-      const insertPayload = mockSupabaseInsert.mock.calls[0][0];
+      // 置き換える用語のペイロードを確認
+      const insertPayload = findTermsPayload();
       expect(Array.isArray(insertPayload)).toBe(true);
       expect(insertPayload).toHaveLength(3);
 
@@ -279,6 +337,44 @@ describe('TermsBatchService', () => {
       });
     });
 
+    it('解説の生成に使用したモデルを保存すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce({
+          ...createMockTermResult('PER', 'beginner'),
+          model: 'claude-sonnet-4-5-20250929',
+        })
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      await service.execute();
+
+      const insertPayload = findTermsPayload() as Array<{ model: string }>;
+      expect(insertPayload.map((term) => term.model)).toEqual([
+        'claude-sonnet-4-5-20250929',
+        'claude-3-haiku-20240307',
+        'claude-3-haiku-20240307',
+      ]);
+    });
+
+    it('解説の生成に使用したプロンプトのバージョンを保存すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce({
+          ...createMockTermResult('信用取引', 'intermediate'),
+          promptVersion: 'v2',
+        })
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      await service.execute();
+
+      const insertPayload = findTermsPayload() as Array<{ prompt_version: string }>;
+      expect(insertPayload.map((term) => term.prompt_version)).toEqual(['v1', 'v2', 'v1']);
+    });
+
     it('ドキュメントIDが今日の日付であること', async () => {
       mockGenerationService.generateTerm
         .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
@@ -291,12 +387,87 @@ describe('TermsBatchService', () => {
 
       // 今日の日付でinsertされること
       const today = new Date().toISOString().split('T')[0];
-      const insertPayload = mockSupabaseInsert.mock.calls[0][0] as Array<{ date: string }>;
+      const insertPayload = findTermsPayload() as Array<{ date: string }>;
       insertPayload.forEach((term) => {
         expect(term.date).toBe(today);
       });
     });
 
+    it('同じ日付の用語とクイズを1回のRPCで置き換えること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      const result = await service.execute();
+
+      expect(mockSupabaseRpc).toHaveBeenCalledTimes(1);
+      expect(mockSupabaseRpc.mock.calls[0][1].target_date).toBe(result.date);
+      expect(mockSupabaseDelete).not.toHaveBeenCalled();
+    });
+
+    it('用語が3つ揃っていない場合は既存の用語を置き換えないよう指定すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockRejectedValueOnce(new Error('API Error'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      await service.execute();
+
+      expect(mockSupabaseRpc).toHaveBeenCalledWith(
+        'replace_terms_for_date',
+        expect.objectContaining({ replace_existing: false })
+      );
+      expect(findTermsPayload()).toHaveLength(2);
+    });
+
+    it('置き換えを拒否された場合は保存せず、用語履歴も更新しないこと', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+      mockSupabaseRpc.mockResolvedValueOnce({
+        data: null,
+        error: {
+          message: 'terms for 2026-01-05 have been moderated and cannot be replaced',
+          code: '55000',
+        },
+      });
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      const result = await service.execute({ date: '2026-01-05' });
+
+      expect(result.databaseSaved).toBe(false);
+      expect(result.historyUpdated).toBe(false);
+      expect(mockSupabaseInsert).not.toHaveBeenCalled();
+      expect(
+        result.errors?.some((error) => error.message.includes('have been moderated'))
+      ).toBe(true);
+    });
+
+    it('日付を指定した場合はその日付の用語として保存すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      const result = await service.execute({ date: '2026-01-05' });
+
+      expect(result.date).toBe('2026-01-05');
+      expect(mockSupabaseRpc.mock.calls[0][1].target_date).toBe('2026-01-05');
+      const insertPayload = findTermsPayload() as Array<{ date: string }>;
+      insertPayload.forEach((term) => {
+        expect(term.date).toBe('2026-01-05');
+      });
+    });
+
     it('保存成功・失敗をログに記録すること', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
 
@@ -323,8 +494,8 @@ describe('TermsBatchService', () => {
         .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
         .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
 
-      // insertの失敗をシミュレート(複数行挿入のため直接Promiseを返す)
-      mockSupabaseInsert.mockResolvedValueOnce({
+      // 置き換えの失敗をシミュレート
+      mockSupabaseRpc.mockResolvedValueOnce({
         data: null,
         error: { message: 'Supabase Error', code: '23505' },
       });
@@ -354,6 +525,7 @@ describe('TermsBatchService', () => {
       await noSaveService.execute();
 
       // terms テーブルへの保存が呼ばれていないこと
+      expect(mockSupabaseRpc).not.toHaveBeenCalled();
       expect(mockSupabaseInsert).not.toHaveBeenCalled();
     });
   });
@@ -385,8 +557,6 @@ describe('TermsBatchService', () => {
       await service.execute();
 
       // terms_historyへのinsertを確認
-      // terms と terms_history の両方でinsertが呼ばれる
-      // terms_history のinsertコールを特定
       const historyInsertCall = mockSupabaseInsert.mock.calls.find(
         (call) => {
           const payload = call[0];
@@ -444,6 +614,21 @@ describe('TermsBatchService', () => {
       expect(result.metadataUpdated).toBe(true);
     });
 
+    it('過去の日付を処理した場合はメタデータを更新しないこと', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const service = new TermsBatchService(mockGenerationService);
+
+      const result = await service.execute({ date: '2026-01-05' });
+
+      expect(result.databaseSaved).toBe(true);
+      expect(result.metadataUpdated).toBe(false);
+      expect(mockSupabaseFrom).not.toHaveBeenCalledWith('batch_metadata');
+    });
+
     it('メタデータ更新にISO 8601タイムスタンプが含まれること', async () => {
       mockGenerationService.generateTerm
         .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
@@ -489,11 +674,8 @@ describe('TermsBatchService', () => {
         .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
         .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
 
-      // terms insert, terms_history insert成功(どちらも直接Promiseを返す)
-      // -> insertは2回呼ばれる
-      mockSupabaseInsert
-        .mockResolvedValueOnce({ data: [{ id: 1 }], error: null }) // terms
-        .mockResolvedValueOnce({ data: [{ id: 1 }], error: null }); // terms_history
+      // terms_history insert成功(直接Promiseを返す)
+      mockSupabaseInsert.mockResolvedValueOnce({ data: [{ id: 1 }], error: null });
 
       // metadata update失敗(single()を使用)
       mockSupabaseSingle.mockResolvedValueOnce({
@@ -560,6 +742,103 @@ describe('TermsBatchService', () => {
     });
   });
 
+  describe('実行履歴の記録', () => {
+    it('runRecorderを渡した場合、各ステップと実行結果を記録すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      const mockRecorder = {
+        start: jest.fn(),
+        recordStep: jest.fn((_step: string, _errors: unknown[], fn: () => Promise<unknown>) => fn()),
+        finish: jest.fn().mockResolvedValue(null),
+      };
+      const service = new TermsBatchService(mockGenerationService, {
+        runRecorder: mockRecorder as unknown as BatchRunRecorder,
+      });
+
+      const result = await service.execute();
+
+      expect(mockRecorder.start).toHaveBeenCalledTimes(1);
+      const steps = mockRecorder.recordStep.mock.calls.map(([step]) => step);
+      expect(steps).toEqual(
+        expect.arrayContaining(['duplicate-check', 'term-generation', 'database-save', 'history-update'])
+      );
+      expect(mockRecorder.finish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          date: result.date,
+          success: result.success,
+          partialSuccess: result.partialSuccess,
+        })
+      );
+    });
+  });
+
+  describe('部分成功・失敗の通知', () => {
+    it('notifierを渡した場合、部分成功ハンドラーの通知を送信すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockRejectedValueOnce(new Error('API Error'));
+
+      const mockNotifier = { notify: jest.fn().mockResolvedValue({ status: 'sent' }) };
+      const service = new TermsBatchService(mockGenerationService, {
+        saveToDatabase: false,
+        notifier: mockNotifier as unknown as Notifier,
+      });
+
+      const result = await service.execute();
+
+      expect(mockNotifier.notify).toHaveBeenCalledTimes(1);
+      const [notification, context] = mockNotifier.notify.mock.calls[0];
+      expect(notification.severity).toBe('warning');
+      expect(notification.details.missingDifficulties).toEqual(['advanced']);
+      expect(context).toEqual({ job: 'terms', date: result.date, runId: undefined });
+    });
+  });
+
+  describe('重複実行の防止', () => {
+    it('lockを渡した場合、ロックを取得してから実行し、完了後に解放すること', async () => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+      const mockLock = {
+        acquire: jest.fn().mockResolvedValue(undefined),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      const service = new TermsBatchService(mockGenerationService, {
+        saveToDatabase: false,
+        lock: mockLock as unknown as BatchLock,
+      });
+
+      const result = await service.execute();
+
+      expect(result.success).toBe(true);
+      expect(mockLock.acquire).toHaveBeenCalledTimes(1);
+      expect(mockLock.release).toHaveBeenCalledTimes(1);
+      expect(mockLock.acquire.mock.invocationCallOrder[0]).toBeLessThan(
+        mockGenerationService.generateTerm.mock.invocationCallOrder[0]
+      );
+    });
+
+    it('実行中のバッチがある場合は用語を生成せずにBatchLockConflictErrorをスローすること', async () => {
+      const mockLock = {
+        acquire: jest.fn().mockRejectedValue(new BatchLockConflictError('terms', null)),
+        release: jest.fn().mockResolvedValue(undefined),
+      };
+      const service = new TermsBatchService(mockGenerationService, {
+        lock: mockLock as unknown as BatchLock,
+      });
+
+      await expect(service.execute()).rejects.toThrow(BatchLockConflictError);
+      expect(mockGenerationService.generateTerm).not.toHaveBeenCalled();
+      expect(mockSupabaseFrom).not.toHaveBeenCalled();
+      expect(mockLock.release).not.toHaveBeenCalled();
+    });
+  });
+
   describe('タイムアウト制御', () => {
     it('5分以内にバッチ処理が完了する', async () => {
       mockGenerationService.generateTerm
@@ -619,4 +898,123 @@ describe('TermsBatchService', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('用語クイズ生成', () => {
+    let mockQuizService: jest.Mocked<TermQuizGenerationService>;
+
+    beforeEach(() => {
+      mockGenerationService.generateTerm
+        .mockResolvedValueOnce(createMockTermResult('PER', 'beginner'))
+        .mockResolvedValueOnce(createMockTermResult('信用取引', 'intermediate'))
+        .mockResolvedValueOnce(createMockTermResult('デリバティブ', 'advanced'));
+
+      mockQuizService = {
+        generateQuiz: jest.fn((term: Term) => Promise.resolve(createMockQuizResult(term))),
+      } as unknown as jest.Mocked<TermQuizGenerationService>;
+    });
+
+    /**
+     * term_quizzesテーブルへのinsertペイロードを取得
+     */
+    function findQuizInsertPayload(): Array<Record<string, unknown>> | undefined {
+      const call = mockSupabaseInsert.mock.calls.find(
+        (args) => Array.isArray(args[0]) && args[0][0]?.question_index !== undefined
+      );
+      return call?.[0];
+    }
+
+    it('クイズ生成サービスを指定しない場合はクイズを生成しない', async () => {
+      const service = new TermsBatchService(mockGenerationService);
+
+      const result = await service.execute();
+
+      expect(result.quizzes).toBeUndefined();
+      expect(result.quizzesSaved).toBe(false);
+      // 置き換え前の用語のクイズはRPCで削除されるが、新しいクイズは保存されない
+      expect(findQuizInsertPayload()).toBeUndefined();
+    });
+
+    it('生成した用語ごとにクイズを生成し、設問ごとにterm_quizzesへ保存する', async () => {
+      const service = new TermsBatchService(mockGenerationService, {
+        quizService: mockQuizService,
+      });
+
+      const result = await service.execute();
+
+      expect(mockQuizService.generateQuiz).toHaveBeenCalledTimes(3);
+      expect(result.quizzes).toHaveLength(3);
+      expect(result.quizzesSaved).toBe(true);
+      expect(mockSupabaseFrom).toHaveBeenCalledWith('term_quizzes');
+
+      const payload = findQuizInsertPayload();
+      expect(payload).toHaveLength(6);
+      expect(payload?.[1]).toEqual({
+        date: result.date,
+        term_name: 'PER',
+        question_index: 1,
+        question: 'PERの問題2',
+        choices: ['A', 'B', 'C', 'D'],
+        correct_index: 1,
+        explanation: 'PERの解説2',
+      });
+    });
+
+    it('一部の用語でクイズ生成に失敗しても用語バッチは成功とし、エラーを記録する', async () => {
+      mockQuizService.generateQuiz.mockImplementation((term: Term) =>
+        term.name === '信用取引'
+          ? Promise.reject(new Error('クイズ生成に失敗しました'))
+          : Promise.resolve(createMockQuizResult(term))
+      );
+      const service = new TermsBatchService(mockGenerationService, {
+        quizService: mockQuizService,
+      });
+
+      const result = await service.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.quizzes?.map((quiz) => quiz.termName)).toEqual(['PER', 'デリバティブ']);
+      expect(result.quizzesSaved).toBe(true);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'quiz-generation',
+          message: expect.stringContaining('[信用取引]'),
+        })
+      );
+    });
+
+    it('用語の保存に失敗した場合はクイズを保存しない', async () => {
+      mockSupabaseRpc.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Supabase Error', code: '23505' },
+      });
+      const service = new TermsBatchService(mockGenerationService, {
+        quizService: mockQuizService,
+      });
+
+      const result = await service.execute();
+
+      expect(result.databaseSaved).toBe(false);
+      expect(result.quizzesSaved).toBe(false);
+      expect(findQuizInsertPayload()).toBeUndefined();
+    });
+
+    it('クイズの保存に失敗した場合はエラーを記録する', async () => {
+      mockSupabaseInsert.mockResolvedValueOnce({ data: null, error: { message: 'Quiz Error' } });
+      const service = new TermsBatchService(mockGenerationService, {
+        quizService: mockQuizService,
+      });
+
+      const result = await service.execute();
+
+      expect(result.databaseSaved).toBe(true);
+      expect(result.quizzesSaved).toBe(false);
+      expect(result.historyUpdated).toBe(true);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          type: 'quiz-save',
+          message: expect.stringContaining('Quiz Error'),
+        })
+      );
+    });
+  });
 });
@@ -12,6 +12,7 @@ export {
   TermsBatchService,
   TermsBatchError,
   type TermsBatchServiceConfig,
+  type TermsBatchExecuteOptions,
   type TermsBatchResult,
   type BatchErrorInfo,
 } from './termsBatchService';
@@ -35,6 +36,7 @@ export {
 export {
   TermsPartialSuccessHandler,
   TermsPartialSuccessType,
+  EXPECTED_TERM_COUNT,
   type TermsPartialSuccessResult,
   type TermsPartialSuccessNotification,
 } from './termsBatchPartialSuccessHandler';
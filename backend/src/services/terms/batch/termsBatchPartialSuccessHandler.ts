@@ -3,8 +3,8 @@
  *
  * Task 12.3: 用語部分成功検出・ハンドリング
  *
- * 2つの用語のみ生成成功、または1つの用語のみ生成成功の場合の
- * 検出と適切なハンドリングを行う
+ * 2つの用語のみ生成成功、または1つの用語のみ生成成功の場合や、
+ * 生成後のデータベース保存に失敗した場合の検出と適切なハンドリングを行う
  *
  * Requirements:
  * - 8.2 (98%以上バッチ成功率)
@@ -18,7 +18,7 @@ import { TermDifficulty } from '../../../models/terms.model';
 /**
  * 部分成功のタイプを定義するEnum
  *
- * バッチ処理の結果を4つのカテゴリに分類
+ * バッチ処理の結果を5つのカテゴリに分類
  */
 export enum TermsPartialSuccessType {
   /** 完全成功(3つの用語が生成成功) */
@@ -27,6 +27,8 @@ export enum TermsPartialSuccessType {
   TWO_TERMS = 'two-terms',
   /** 1つの用語が生成成功 */
   ONE_TERM = 'one-term',
+  /** 保存失敗(用語の生成には成功したが、データベースへの保存に失敗) */
+  SAVE_FAILURE = 'save-failure',
   /** 完全失敗(用語が生成されなかった) */
   FULL_FAILURE = 'full-failure',
 }
@@ -34,13 +36,18 @@ export enum TermsPartialSuccessType {
 /**
  * 期待される用語数
  */
-const EXPECTED_TERM_COUNT = 3;
+export const EXPECTED_TERM_COUNT = 3;
 
 /**
  * 期待される難易度の配列
  */
 const EXPECTED_DIFFICULTIES: TermDifficulty[] = ['beginner', 'intermediate', 'advanced'];
 
+/**
+ * データベース保存の失敗を表すエラータイプ
+ */
+const SAVE_ERROR_TYPE = 'database-save';
+
 /**
  * 部分成功の分析結果
  */
@@ -131,26 +138,36 @@ export class TermsPartialSuccessHandler {
     );
 
     // 成功タイプを判定
+    // 生成に成功していても保存に失敗した場合は配信されないため、保存失敗として扱う
+    // (saveToDatabase: falseで保存しなかった場合はエラーがないため、保存失敗としない)
+    const hasSaveError = (batchResult.errors || []).some(
+      (error) => error.type === SAVE_ERROR_TYPE
+    );
     let type: TermsPartialSuccessType;
     let isPartialSuccess: boolean;
 
-    switch (generatedCount) {
-      case 3:
-        type = TermsPartialSuccessType.FULL_SUCCESS;
-        isPartialSuccess = false;
-        break;
-      case 2:
-        type = TermsPartialSuccessType.TWO_TERMS;
-        isPartialSuccess = true;
-        break;
-      case 1:
-        type = TermsPartialSuccessType.ONE_TERM;
-        isPartialSuccess = true;
-        break;
-      default:
-        type = TermsPartialSuccessType.FULL_FAILURE;
-        isPartialSuccess = false;
-        break;
+    if (generatedCount > 0 && !batchResult.databaseSaved && hasSaveError) {
+      type = TermsPartialSuccessType.SAVE_FAILURE;
+      isPartialSuccess = false;
+    } else {
+      switch (generatedCount) {
+        case 3:
+          type = TermsPartialSuccessType.FULL_SUCCESS;
+          isPartialSuccess = false;
+          break;
+        case 2:
+          type = TermsPartialSuccessType.TWO_TERMS;
+          isPartialSuccess = true;
+          break;
+        case 1:
+          type = TermsPartialSuccessType.ONE_TERM;
+          isPartialSuccess = true;
+          break;
+        default:
+          type = TermsPartialSuccessType.FULL_FAILURE;
+          isPartialSuccess = false;
+          break;
+      }
     }
 
     // 失敗の理由を抽出
@@ -161,8 +178,10 @@ export class TermsPartialSuccessHandler {
     // 保存判断: 少なくとも1つの用語があれば保存
     const shouldSave = generatedCount > 0;
 
-    // リトライ判断: 完全失敗の場合のみリトライ
-    const shouldRetry = type === TermsPartialSuccessType.FULL_FAILURE;
+    // リトライ判断: 完全失敗・保存失敗の場合のみリトライ
+    const shouldRetry =
+      type === TermsPartialSuccessType.FULL_FAILURE ||
+      type === TermsPartialSuccessType.SAVE_FAILURE;
 
     return {
       isPartialSuccess,
@@ -203,9 +222,16 @@ export class TermsPartialSuccessHandler {
 
     switch (type) {
       case TermsPartialSuccessType.FULL_SUCCESS:
-        title = `用語バッチ処理成功 (${date})`;
-        message = '3つの投資用語(初級・中級・上級)が正常に生成されました。';
-        severity = 'info';
+        // クイズの保存・配信履歴の更新などでエラーが発生した場合は警告とする
+        if (failureReasons.length > 0) {
+          title = `用語バッチ処理成功（エラーあり） (${date})`;
+          message = '3つの投資用語(初級・中級・上級)が保存されましたが、一部の処理でエラーが発生しました。';
+          severity = 'warning';
+        } else {
+          title = `用語バッチ処理成功 (${date})`;
+          message = '3つの投資用語(初級・中級・上級)が正常に生成されました。';
+          severity = 'info';
+        }
         break;
 
       case TermsPartialSuccessType.TWO_TERMS:
@@ -220,6 +246,12 @@ export class TermsPartialSuccessHandler {
         severity = 'warning';
         break;
 
+      case TermsPartialSuccessType.SAVE_FAILURE:
+        title = `用語バッチ処理失敗 (${date})`;
+        message = '用語の生成には成功しましたが、データベースへの保存に失敗しました。';
+        severity = 'error';
+        break;
+
       case TermsPartialSuccessType.FULL_FAILURE:
         title = `用語バッチ処理失敗 (${date})`;
         message = 'すべての用語の生成に失敗しました。';
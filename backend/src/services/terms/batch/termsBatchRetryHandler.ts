@@ -276,6 +276,7 @@ export class TermsBatchRetryHandler {
       databaseSaved: false,
       historyUpdated: false,
       metadataUpdated: false,
+      quizzesSaved: false,
       processingTimeMs: 0,
       date: formatDateToJST(),
       errors: [
@@ -300,6 +301,7 @@ export class TermsBatchRetryHandler {
       databaseSaved: false,
       historyUpdated: false,
       metadataUpdated: false,
+      quizzesSaved: false,
       processingTimeMs: 0,
       date: formatDateToJST(),
       errors: [
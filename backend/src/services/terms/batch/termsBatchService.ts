@@ -14,22 +14,35 @@
  * - 4.4 (初級〜上級難易度混在)
  * - 4.5 (用語データSupabase保存)
  * - 4.6 (全履歴保持)
+ * - 用語ごとの4択クイズ生成・保存
+ * - バッチ実行履歴(ステップ・処理時間・トークン使用量)の永続化
  *
  * @see https://vercel.com/docs/functions/serverless-functions - Vercel Serverless Functions
  */
 
 import { getSupabase } from '../../../config/supabase';
-import { TermInsertPayload, TermHistoryInsertPayload } from '../../../models/supabase.types';
+import {
+  TermInsertPayload,
+  TermHistoryInsertPayload,
+  TermQuizInsertPayload,
+} from '../../../models/supabase.types';
 import {
   TermGenerationService,
   GenerateTermOptions,
 } from '../termGenerationService';
+import { TermQuizGenerationService } from '../termQuizGenerationService';
 import {
   Term,
   TermDifficulty,
+  TermQuiz,
 } from '../../../models/terms.model';
 import { AppError, ErrorType, ErrorSeverity } from '../../../errors/types';
 import { formatDateToJST } from '../../../utils/dateUtils';
+import { BatchRunRecorder } from '../../batchRuns';
+import { Notifier } from '../../notifications';
+import { BatchLock } from '../../batchLock';
+import { TermsPartialSuccessHandler, EXPECTED_TERM_COUNT } from './termsBatchPartialSuccessHandler';
+import { getStructuredOutputMetrics } from '../../llm/structuredOutputMetrics';
 
 /**
  * デフォルトのタイムアウト時間(5分)
@@ -45,6 +58,11 @@ const DEFAULT_TIMEOUT_MS = 300000;
  */
 const DIFFICULTY_ORDER: TermDifficulty[] = ['beginner', 'intermediate', 'advanced'];
 
+/**
+ * 同じ日付の用語を置き換えるRPC関数名
+ */
+const REPLACE_TERMS_FUNCTION = 'replace_terms_for_date';
+
 /**
  * 用語バッチエラー
  *
@@ -85,12 +103,16 @@ export interface TermsBatchResult {
   partialSuccess: boolean;
   /** 生成された用語の配列 */
   terms?: Term[];
+  /** 生成された用語クイズの配列(クイズ生成が有効な場合のみ) */
+  quizzes?: TermQuiz[];
   /** データベースへの保存が成功したかどうか */
   databaseSaved: boolean;
   /** 用語履歴の更新が成功したかどうか */
   historyUpdated: boolean;
-  /** メタデータの更新が成功したかどうか */
+  /** メタデータの更新が成功したかどうか(過去の日付の処理では更新しないためfalse) */
   metadataUpdated: boolean;
+  /** 用語クイズの保存が成功したかどうか */
+  quizzesSaved: boolean;
   /** 処理時間(ミリ秒) */
   processingTimeMs: number;
   /** 処理日付(YYYY-MM-DD形式) */
@@ -114,6 +136,50 @@ export interface TermsBatchServiceConfig {
    * @default true
    */
   saveToDatabase?: boolean;
+
+  /**
+   * 用語クイズ生成サービス
+   *
+   * 指定した場合、生成した用語ごとに4択クイズを生成してterm_quizzesテーブルに保存する。
+   * クイズの生成・保存に失敗しても用語バッチの成功判定には影響しない。
+   */
+  quizService?: TermQuizGenerationService;
+
+  /**
+   * 実行履歴レコーダー
+   *
+   * 指定した場合、ステップごとの処理時間・エラーとトークン使用量を
+   * batch_runs / batch_run_stepsテーブルに記録する。
+   */
+  runRecorder?: BatchRunRecorder;
+
+  /**
+   * バッチ通知
+   *
+   * 指定した場合、部分成功ハンドラーが生成した通知を重要度に応じて各チャネルに送信する。
+   */
+  notifier?: Notifier;
+
+  /**
+   * バッチのリースロック
+   *
+   * 指定した場合、実行中は同じ種類のバッチを実行できないようにする。
+   * 実行中のバッチがある場合、execute()はBatchLockConflictErrorをスローする。
+   */
+  lock?: BatchLock;
+}
+
+/**
+ * 用語バッチの実行オプション
+ */
+export interface TermsBatchExecuteOptions {
+  /**
+   * 処理対象の日付(YYYY-MM-DD形式、JST)
+   *
+   * 過去の日付を指定すると、その日付の用語を再生成して置き換える
+   * @default 今日の日付
+   */
+  date?: string;
 }
 
 /**
@@ -123,10 +189,14 @@ export interface TermsBatchServiceConfig {
  *
  * @example
  * // TermGenerationServiceを注入してサービスを作成
- * const claudeClient = getClaudeClient();
- * const generationService = new TermGenerationService(claudeClient);
+ * const llmProvider = getLlmProvider();
+ * const generationService = new TermGenerationService(llmProvider);
  * const batchService = new TermsBatchService(generationService);
  *
+ * // 用語クイズも生成する場合
+ * const quizService = new TermQuizGenerationService(llmProvider);
+ * const batchServiceWithQuiz = new TermsBatchService(generationService, { quizService });
+ *
  * // バッチ処理を実行
  * const result = await batchService.execute();
  * if (result.success) {
@@ -137,6 +207,10 @@ export class TermsBatchService {
   private readonly generationService: TermGenerationService;
   private readonly timeoutMs: number;
   private readonly saveToDatabase: boolean;
+  private readonly quizService?: TermQuizGenerationService;
+  private readonly runRecorder?: BatchRunRecorder;
+  private readonly notifier?: Notifier;
+  private readonly lock?: BatchLock;
 
   /**
    * コンストラクタ
@@ -151,6 +225,10 @@ export class TermsBatchService {
     this.generationService = generationService;
     this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
     this.saveToDatabase = config.saveToDatabase ?? true;
+    this.quizService = config.quizService;
+    this.runRecorder = config.runRecorder;
+    this.notifier = config.notifier;
+    this.lock = config.lock;
   }
 
   /**
@@ -158,7 +236,9 @@ export class TermsBatchService {
    *
    * @returns 設定オブジェクト
    */
-  getConfig(): Required<TermsBatchServiceConfig> {
+  getConfig(): Required<
+    Omit<TermsBatchServiceConfig, 'quizService' | 'runRecorder' | 'notifier' | 'lock'>
+  > {
     return {
       timeoutMs: this.timeoutMs,
       saveToDatabase: this.saveToDatabase,
@@ -170,16 +250,45 @@ export class TermsBatchService {
    *
    * 以下の処理を順次実行する:
    * 1. 初級・中級・上級の3つの用語を順次生成
-   * 2. Supabaseへ保存
-   * 3. 用語履歴を更新
-   * 4. メタデータ更新
+   * 2. 用語ごとの4択クイズを並列生成(クイズ生成サービスが指定された場合)
+   * 3. Supabaseへ保存(用語・クイズ)
+   * 4. 用語履歴を更新
+   * 5. メタデータ更新
+   *
+   * 実行履歴レコーダーが指定されている場合は、実行履歴を記録してから結果を返す。
    *
+   * 用語・クイズはその日付の既存の行を置き換えて保存するため、
+   * options.dateで過去の日付を指定するとその日付の用語を再生成できる。
+   * ただし、用語が3つ揃わなかった場合や管理者が編集・非公開にした用語がある場合は、既存の用語を維持する。
+   *
+   * @param options - 実行オプション
    * @returns バッチ処理の結果
+   * @throws {BatchLockConflictError} リースロックが指定され、同じ種類のバッチが実行中の場合
+   * @throws {BatchLockError} リースロックの取得処理に失敗した場合
    */
-  async execute(): Promise<TermsBatchResult> {
+  async execute(options: TermsBatchExecuteOptions = {}): Promise<TermsBatchResult> {
+    const date = options.date ?? this.getTodayString();
+
+    await this.lock?.acquire();
+    try {
+      return await this.executeForDate(date);
+    } finally {
+      await this.lock?.release();
+    }
+  }
+
+  /**
+   * 指定した日付のバッチ処理を実行
+   *
+   * @param date - 処理対象の日付(YYYY-MM-DD)
+   * @returns バッチ処理の結果
+   */
+  private async executeForDate(date: string): Promise<TermsBatchResult> {
     const startTime = Date.now();
-    const today = this.getTodayString();
     const errors: BatchErrorInfo[] = [];
+    // クイズ生成のエラーは成功判定に含めないため分けて収集する
+    const quizErrors: BatchErrorInfo[] = [];
+    this.runRecorder?.start();
 
     // 結果オブジェクトを初期化
     const result: TermsBatchResult = {
@@ -188,65 +297,95 @@ export class TermsBatchService {
       databaseSaved: false,
       historyUpdated: false,
       metadataUpdated: false,
+      quizzesSaved: false,
       processingTimeMs: 0,
-      date: today,
+      date,
       errors: [],
     };
 
     try {
       // タイムアウト制御付きで実行
-      const processResult = await this.executeWithTimeout(errors);
+      const processResult = await this.executeWithTimeout(errors, quizErrors);
 
       // 結果を統合
       result.terms = processResult.terms;
+      result.quizzes = processResult.quizzes;
 
       // 成功判定
       const generatedCount = result.terms?.length ?? 0;
       result.success = generatedCount === 3 && errors.length === 0;
       result.partialSuccess = generatedCount > 0 && generatedCount < 3;
+      errors.push(...quizErrors);
 
       // Supabaseへの保存
       if (this.saveToDatabase && generatedCount > 0) {
-        try {
-          await this.saveTerms(today, result.terms!);
-          result.databaseSaved = true;
-          console.log(`[TermsBatchService] Terms saved to Supabase: ${today}`);
-        } catch (error) {
-          errors.push({
-            type: 'database-save',
-            message:
-              error instanceof Error ? error.message : 'データベース保存に失敗',
-            timestamp: new Date(),
-          });
-        }
+        await this.trackStep('database-save', errors, async () => {
+          try {
+            await this.saveTerms(date, result.terms!);
+            result.databaseSaved = true;
+            console.log(`[TermsBatchService] Terms saved to Supabase: ${date}`);
+          } catch (error) {
+            errors.push({
+              type: 'database-save',
+              message:
+                error instanceof Error ? error.message : 'データベース保存に失敗',
+              timestamp: new Date(),
+            });
+          }
+
+          // 用語クイズの保存(用語の保存成功時のみ)
+          if (result.databaseSaved && result.quizzes && result.quizzes.length > 0) {
+            try {
+              await this.saveQuizzes(date, result.quizzes);
+              result.quizzesSaved = true;
+              console.log(`[TermsBatchService] Quizzes saved to Supabase: ${result.quizzes.length}`);
+            } catch (error) {
+              errors.push({
+                type: 'quiz-save',
+                message:
+                  error instanceof Error ? error.message : '用語クイズの保存に失敗',
+                timestamp: new Date(),
+              });
+            }
+          }
+        });
 
-        // 用語履歴を更新
-        try {
-          await this.updateTermsHistory(result.terms!);
-          result.historyUpdated = true;
-          console.log('[TermsBatchService] Terms history updated');
-        } catch (error) {
-          errors.push({
-            type: 'history-update',
-            message:
-              error instanceof Error ? error.message : '用語履歴の更新に失敗',
-            timestamp: new Date(),
+        // 用語履歴を更新(保存されなかった用語は配信されないため、保存成功時のみ)
+        if (result.databaseSaved) {
+          await this.trackStep('history-update', errors, async () => {
+            try {
+              await this.updateTermsHistory(result.terms!);
+              result.historyUpdated = true;
+              console.log('[TermsBatchService] Terms history updated');
+            } catch (error) {
+              errors.push({
+                type: 'history-update',
+                message:
+                  error instanceof Error ? error.message : '用語履歴の更新に失敗',
+                timestamp: new Date(),
+              });
+            }
           });
         }
 
-        // メタデータ更新
-        try {
-          await this.updateMetadata();
-          result.metadataUpdated = true;
-          console.log('[TermsBatchService] Metadata updated in Supabase');
-        } catch (error) {
-          errors.push({
-            type: 'metadata-update',
-            message:
-              error instanceof Error
-                ? error.message
-                : 'メタデータ更新に失敗',
-            timestamp: new Date(),
+        // メタデータ更新(アプリの鮮度チェックに使われるため、今日(JST)の日付の処理のみ。
+        // バックフィルで過去の日付を処理しても、今日のバッチが成功したことにはしない)
+        if (date === this.getTodayString()) {
+          await this.trackStep('metadata-update', errors, async () => {
+            try {
+              await this.updateMetadata();
+              result.metadataUpdated = true;
+              console.log('[TermsBatchService] Metadata updated in Supabase');
+            } catch (error) {
+              errors.push({
+                type: 'metadata-update',
+                message:
+                  error instanceof Error
+                    ? error.message
+                    : 'メタデータ更新に失敗',
+                timestamp: new Date(),
+              });
+            }
           });
         }
       }
@@ -276,6 +415,27 @@ export class TermsBatchService {
     console.log(
       `[TermsBatchService] Batch completed in ${result.processingTimeMs}ms. Success: ${result.success}, PartialSuccess: ${result.partialSuccess}`
     );
+    // 構造化出力の解析経路(ツールの入力/テキストのパーサー)の件数
+    getStructuredOutputMetrics().logSummary();
+
+    const partialSuccessHandler = new TermsPartialSuccessHandler();
+    const analysis = partialSuccessHandler.analyze(result);
+
+    // 実行履歴を記録(保存に失敗してもバッチ結果には影響しない)
+    await this.runRecorder?.finish({
+      date,
+      success: result.success,
+      partialSuccess: result.partialSuccess,
+      partialSuccessType: analysis.type,
+      errors,
+    });
+
+    // 部分成功・失敗を通知(送信に失敗してもバッチ結果には影響しない)
+    await this.notifier?.notify(partialSuccessHandler.createNotification(analysis, date), {
+      job: 'terms',
+      date,
+      runId: this.runRecorder?.getRunId(),
+    });
 
     return result;
   }
@@ -284,11 +444,13 @@ export class TermsBatchService {
    * タイムアウト制御付きでメイン処理を実行
    *
    * @param errors - エラー情報を格納する配列
+   * @param quizErrors - クイズ生成のエラー情報を格納する配列
    * @returns 処理結果
    */
   private async executeWithTimeout(
-    errors: BatchErrorInfo[]
-  ): Promise<{ terms: Term[] }> {
+    errors: BatchErrorInfo[],
+    quizErrors: BatchErrorInfo[]
+  ): Promise<{ terms: Term[]; quizzes?: TermQuiz[] }> {
     return new Promise((resolve, reject) => {
       // タイムアウトタイマー
       const timeoutId = setTimeout(() => {
@@ -296,7 +458,7 @@ export class TermsBatchService {
       }, this.timeoutMs);
 
       // メイン処理
-      this.executeMainProcess(errors)
+      this.executeMainProcess(errors, quizErrors)
         .then((result) => {
           clearTimeout(timeoutId);
           resolve(result);
@@ -345,17 +507,49 @@ export class TermsBatchService {
    * Requirements 4.4: 初級〜上級難易度混在
    *
    * @param errors - エラー情報を格納する配列
+   * @param quizErrors - クイズ生成のエラー情報を格納する配列
    * @returns 処理結果
    */
   private async executeMainProcess(
-    errors: BatchErrorInfo[]
-  ): Promise<{ terms: Term[] }> {
+    errors: BatchErrorInfo[],
+    quizErrors: BatchErrorInfo[]
+  ): Promise<{ terms: Term[]; quizzes?: TermQuiz[] }> {
     const terms: Term[] = [];
 
     // 過去に配信済みの用語を取得して除外リストを初期化
-    const excludeTerms: string[] = await this.fetchDeliveredTermNames();
+    const excludeTerms: string[] = await this.trackStep('duplicate-check', errors, () =>
+      this.fetchDeliveredTermNames()
+    );
 
     // 各難易度で用語を順次生成
+    await this.trackStep('term-generation', errors, () =>
+      this.generateTerms(terms, excludeTerms, errors)
+    );
+
+    const quizService = this.quizService;
+    const quizzes = quizService
+      ? await this.trackStep('quiz-generation', quizErrors, () =>
+          this.generateQuizzes(quizService, terms, quizErrors)
+        )
+      : undefined;
+
+    return { terms, quizzes };
+  }
+
+  /**
+   * 初級・中級・上級の用語を順次生成
+   *
+   * 生成した用語は次の生成で除外するため、excludeTermsに追加する。
+   *
+   * @param terms - 生成した用語を格納する配列
+   * @param excludeTerms - 除外する用語名の配列
+   * @param errors - エラー情報を格納する配列
+   */
+  private async generateTerms(
+    terms: Term[],
+    excludeTerms: string[],
+    errors: BatchErrorInfo[]
+  ): Promise<void> {
     for (const difficulty of DIFFICULTY_ORDER) {
       try {
         const options: GenerateTermOptions = {
@@ -364,7 +558,7 @@ export class TermsBatchService {
         };
 
         const result = await this.generationService.generateTerm(options);
-        terms.push(result.term);
+        terms.push({ ...result.term, model: result.model, promptVersion: result.promptVersion });
 
         // 次の生成で除外するために追加
         excludeTerms.push(result.term.name);
@@ -383,8 +577,58 @@ export class TermsBatchService {
         });
       }
     }
+  }
+
+  /**
+   * ステップを実行し、実行履歴レコーダーが指定されていれば記録する
+   *
+   * @param step - ステップ名
+   * @param errors - エラー情報を格納する配列
+   * @param fn - ステップの処理
+   * @returns ステップの処理結果
+   */
+  private trackStep<T>(step: string, errors: BatchErrorInfo[], fn: () => Promise<T>): Promise<T> {
+    return this.runRecorder ? this.runRecorder.recordStep(step, errors, fn) : fn();
+  }
+
+  /**
+   * 用語ごとの4択クイズを並列生成
+   *
+   * 一部の用語で生成に失敗しても、成功した用語のクイズは返す。
+   *
+   * @param quizService - 用語クイズ生成サービス
+   * @param terms - 出題対象の用語配列
+   * @param quizErrors - クイズ生成のエラー情報を格納する配列
+   * @returns 生成に成功したクイズの配列
+   */
+  private async generateQuizzes(
+    quizService: TermQuizGenerationService,
+    terms: Term[],
+    quizErrors: BatchErrorInfo[]
+  ): Promise<TermQuiz[]> {
+    const results = await Promise.allSettled(
+      terms.map((term) => quizService.generateQuiz(term))
+    );
+
+    const quizzes: TermQuiz[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        quizzes.push(result.value.quiz);
+        console.log(
+          `[TermsBatchService] Generated quiz: ${terms[index].name} (${result.value.quiz.questions.length} questions)`
+        );
+        return;
+      }
+      quizErrors.push({
+        type: 'quiz-generation',
+        message: `[${terms[index].name}] ${
+          result.reason instanceof Error ? result.reason.message : 'クイズの生成に失敗'
+        }`,
+        timestamp: new Date(),
+      });
+    });
 
-    return { terms };
+    return quizzes;
   }
 
   /**
@@ -393,6 +637,10 @@ export class TermsBatchService {
    * Requirements 4.5: 用語データSupabase保存
    * Task 6.1: Supabase insertに変更
    *
+   * 同じ日付の用語とクイズはreplace_terms_for_date関数で1トランザクションで置き換える
+   * (再実行・再生成で用語が追加されないようにする。途中で失敗した場合は置き換え前の用語が残る)。
+   * 用語が3つ揃っていない場合や、管理者が編集・非公開にした用語がある場合は、既存の用語を置き換えない。
+   *
    * @param date - 日付(YYYY-MM-DD形式)
    * @param terms - 保存する用語配列
    */
@@ -405,14 +653,48 @@ export class TermsBatchService {
       name: term.name,
       description: term.description,
       difficulty: term.difficulty,
+      model: term.model ?? null,
+      prompt_version: term.promptVersion ?? null,
     }));
 
-    // Supabaseにinsert(複数行を一度に挿入)
-    // 複数行挿入のため.single()は使用しない
-    const { error } = await supabase.from('terms').insert(payloads);
+    const { error } = await supabase.rpc(REPLACE_TERMS_FUNCTION, {
+      target_date: date,
+      new_terms: payloads,
+      replace_existing: terms.length >= EXPECTED_TERM_COUNT,
+    });
+
+    if (error) {
+      throw new Error(`Supabase terms replace failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * 用語クイズをSupabaseに保存
+   *
+   * 設問ごとに1行としてterm_quizzesテーブルにinsertする
+   *
+   * @param date - 日付(YYYY-MM-DD形式)
+   * @param quizzes - 保存するクイズ配列
+   */
+  private async saveQuizzes(date: string, quizzes: TermQuiz[]): Promise<void> {
+    const supabase = getSupabase();
+
+    const payloads: TermQuizInsertPayload[] = quizzes.flatMap((quiz) =>
+      quiz.questions.map((question, questionIndex) => ({
+        date,
+        term_name: quiz.termName,
+        question_index: questionIndex,
+        question: question.question,
+        choices: question.choices,
+        correct_index: question.correctIndex,
+        explanation: question.explanation,
+      }))
+    );
+
+    const { error } = await supabase.from('term_quizzes').insert(payloads);
 
     if (error) {
-      throw new Error(`Supabase insert failed: ${error.message}`);
+      throw new Error(`Supabase term_quizzes insert failed: ${error.message}`);
     }
   }
 
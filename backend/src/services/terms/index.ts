@@ -9,6 +9,8 @@
  * - 4.2: 各用語に約500文字の解説生成
  * - 4.4: 初級〜上級の難易度混在
  * - 1.7: バッチ失敗時エラーログ+リトライ
+ * - 用語ごとの4択クイズ生成
+ * - ニュース要約内の用語リンクから開かれた用語の解説のオンデマンド生成
  */
 
 // プロンプト生成(Task 5.1, 5.2)
@@ -16,13 +18,17 @@ export {
   buildTermGenerationPrompt,
   TERM_GENERATION_CONFIG,
   DIFFICULTY_DESCRIPTIONS,
+  TERM_GENERATION_PROMPT_V1,
+  TERM_GENERATION_PROMPT_TEMPLATES,
   type DifficultyLevel,
   type TermGenerationPromptOptions,
 } from './termGenerationPrompt';
 
 // レスポンスパース・検証(Task 5.3, 5.4)
 export {
+  TERM_OUTPUT_TOOL,
   parseTermResponse,
+  parseStructuredTermResponse,
   validateTermDescription,
   type TermParseResult,
   type TermValidationResult,
@@ -37,6 +43,33 @@ export {
   type GenerateTermOptions,
 } from './termGenerationService';
 
+// 用語クイズ生成
+export {
+  buildTermQuizPrompt,
+  TERM_QUIZ_CONFIG,
+} from './termQuizPrompt';
+export {
+  parseTermQuizResponse,
+  type TermQuizParseResult,
+} from './termQuizResponseParser';
+export {
+  TermQuizGenerationService,
+  TermQuizGenerationError,
+  type TermQuizGenerationResult,
+  type TermQuizGenerationServiceConfig,
+} from './termQuizGenerationService';
+
+// 用語解説(オンデマンド生成)
+export { buildTermExplanationPrompt } from './termExplanationPrompt';
+export {
+  TermExplanationService,
+  TermExplanationError,
+  type TermExplanationErrorReason,
+  type TermExplanationSource,
+  type TermExplanationResult,
+  type TermExplanationServiceConfig,
+} from './termExplanationService';
+
 // 用語バッチサービス(Task 11)
 export {
   TermsBatchService,
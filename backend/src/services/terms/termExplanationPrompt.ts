@@ -0,0 +1,58 @@
+/**
+ * 用語解説生成プロンプト
+ *
+ * ニュース要約内の用語リンクから開かれた用語のうち、
+ * termsテーブルに解説がない用語の解説を生成するためのプロンプトを構築します。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 4.2: 各用語に約500文字の解説生成
+ *
+ * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
+ */
+
+import { TERM_GENERATION_CONFIG } from './termGenerationPrompt';
+
+/**
+ * 用語解説生成プロンプトを構築する
+ *
+ * 用語の選択は行わず、指定した用語名の解説のみを生成するよう指示します。
+ * 出力形式は用語生成プロンプトと同じため、parseTermResponseでパースできます。
+ *
+ * @param termName - 解説する用語名
+ * @returns Claude APIに送信するプロンプト文字列
+ *
+ * @example
+ * const prompt = buildTermExplanationPrompt('円安');
+ * const response = await claudeClient.sendMessage(prompt);
+ */
+export function buildTermExplanationPrompt(termName: string): string {
+  return `あなたは投資・金融教育の専門家です。ニュースに登場した以下の投資・金融用語について、投資初学者向けの解説を作成してください。
+
+## 対象の用語
+用語名: ${termName}
+
+## 指示
+1. 上記の用語の解説のみを作成し、別の用語を選ばないでください
+2. 解説は約${TERM_GENERATION_CONFIG.targetCharacters}文字(${TERM_GENERATION_CONFIG.minCharacters}〜${TERM_GENERATION_CONFIG.maxCharacters}文字)で作成してください
+3. 用語の難易度をbeginner, intermediate, advancedのいずれかで判定してください
+
+## 解説の書き方
+- まず用語の基本的な定義を簡潔に説明してください
+- 次に、なぜこの用語が投資において重要なのかを説明してください
+- ニュースでどのような文脈で使われるかの例を含めてください
+- 難しい概念は身近な例えを使って説明してください
+
+## 出力形式
+必ず以下のJSON形式で出力してください。JSONのみを出力し、他のテキストは含めないでください。
+
+\`\`\`json
+{
+  "name": "${termName}",
+  "description": "解説文(${TERM_GENERATION_CONFIG.minCharacters}〜${TERM_GENERATION_CONFIG.maxCharacters}文字)",
+  "difficulty": "beginner|intermediate|advanced"
+}
+\`\`\`
+
+JSONを出力してください。`;
+}
@@ -0,0 +1,387 @@
+/**
+ * 用語解説サービス
+ *
+ * ニュース要約内の用語リンクから開かれた用語の解説を返します。
+ * termsテーブルに解説がある場合はそれを返し、ない場合はClaude APIで生成して
+ * term_explanationsテーブルにキャッシュします。
+ *
+ * 生成は過去に配信した用語(terms_historyに記録された用語)に限定し、
+ * 任意の文字列で生成APIが呼び出されることを防ぎます。
+ * 管理者が非公開にした用語は、生成済みの解説も含めて返しません。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 1.7 (失敗時エラーログ+リトライ)
+ *
+ * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
+ */
+
+import type { LlmProvider } from '../llm/llmProvider';
+import { Term } from '../../models/terms.model';
+import { TermExplanationRow, TermExplanationUpsertPayload } from '../../models/supabase.types';
+import { getSupabase } from '../../config/supabase';
+import { buildTermExplanationPrompt } from './termExplanationPrompt';
+import { parseTermResponse } from './termResponseParser';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+
+/**
+ * 用語解説エラーの理由
+ * - not-delivered: 過去に配信していない用語、または非公開の用語のため解説を生成しない
+ * - database: Supabaseの読み書きに失敗した
+ * - generation: 解説の生成に失敗した
+ */
+export type TermExplanationErrorReason = 'not-delivered' | 'database' | 'generation';
+
+/**
+ * 用語解説エラー
+ *
+ * 対象の用語名と失敗の理由を保持し、APIエンドポイントでステータスコードの判定に使用します。
+ */
+export class TermExplanationError extends AppError {
+  /**
+   * 対象の用語名
+   */
+  public readonly termName: string;
+
+  /**
+   * 失敗の理由
+   */
+  public readonly reason: TermExplanationErrorReason;
+
+  constructor(
+    message: string,
+    termName: string,
+    reason: TermExplanationErrorReason,
+    originalError?: Error
+  ) {
+    super(
+      message,
+      reason === 'not-delivered'
+        ? ErrorType.VALIDATION
+        : reason === 'database'
+          ? ErrorType.DATABASE
+          : ErrorType.API,
+      reason === 'not-delivered' ? ErrorSeverity.LOW : ErrorSeverity.HIGH,
+      reason !== 'not-delivered',
+      originalError
+    );
+    this.name = 'TermExplanationError';
+    this.termName = termName;
+    this.reason = reason;
+  }
+}
+
+/**
+ * 用語解説の取得元
+ * - delivered: 日次で配信した用語(termsテーブル)
+ * - generated: オンデマンドで生成した解説(term_explanationsテーブル)
+ */
+export type TermExplanationSource = 'delivered' | 'generated';
+
+/**
+ * 用語解説の取得結果
+ */
+export interface TermExplanationResult {
+  /** 用語 */
+  term: Term;
+  /** 解説の取得元 */
+  source: TermExplanationSource;
+}
+
+/**
+ * 用語解説サービスの設定
+ */
+export interface TermExplanationServiceConfig {
+  /**
+   * 生成の最大リトライ回数
+   * @default 1
+   */
+  maxRetries?: number;
+
+  /**
+   * エラーをログに記録するかどうか
+   * @default true
+   */
+  logErrors?: boolean;
+}
+
+/**
+ * 用語解説サービス
+ *
+ * @example
+ * const client = getLlmProvider();
+ * const service = new TermExplanationService(client);
+ *
+ * const result = await service.explain('円安');
+ * console.log(result.source, result.term.description);
+ */
+export class TermExplanationService {
+  private readonly client: LlmProvider;
+  private readonly maxRetries: number;
+  private readonly logErrors: boolean;
+
+  /**
+   * コンストラクタ
+   *
+   * @param client - LLMプロバイダー(Claude APIクライアントなど)
+   * @param config - サービス設定
+   */
+  constructor(client: LlmProvider, config: TermExplanationServiceConfig = {}) {
+    this.client = client;
+    this.maxRetries = config.maxRetries ?? 1;
+    this.logErrors = config.logErrors ?? true;
+  }
+
+  /**
+   * 現在の設定を取得
+   *
+   * @returns 設定オブジェクト
+   */
+  getConfig(): Required<TermExplanationServiceConfig> {
+    return {
+      maxRetries: this.maxRetries,
+      logErrors: this.logErrors,
+    };
+  }
+
+  /**
+   * 用語の解説を取得する
+   *
+   * 1. termsテーブルに解説があればそれを返す(最新の配信日のもの)
+   * 2. 管理者が非公開にした用語の場合はエラー
+   * 3. term_explanationsテーブルに生成済みの解説があればそれを返す
+   * 4. 過去に配信していない用語の場合はエラー
+   * 5. 解説を生成し、term_explanationsテーブルに保存して返す
+   *
+   * @param termName - 用語名
+   * @returns 用語解説の取得結果
+   * @throws {TermExplanationError} 未配信・非公開の用語の場合、またはDB・生成エラー時
+   */
+  async explain(termName: string): Promise<TermExplanationResult> {
+    // Step 1: 配信済みの用語の解説
+    const deliveredTerm = await this.findDeliveredTerm(termName);
+    if (deliveredTerm) {
+      return { term: deliveredTerm, source: 'delivered' };
+    }
+
+    // Step 2: 非公開の用語の確認
+    // (公開中の配信がないため、非公開の配信があれば管理者が非公開にした用語)
+    if (await this.isUnpublishedTermName(termName)) {
+      throw new TermExplanationError(
+        `非公開の用語のため解説を返せません: ${termName}`,
+        termName,
+        'not-delivered'
+      );
+    }
+
+    // Step 3: 生成済みの解説
+    const cached = await this.findGeneratedExplanation(termName);
+    if (cached) {
+      return {
+        term: { name: cached.term_name, description: cached.description, difficulty: cached.difficulty },
+        source: 'generated',
+      };
+    }
+
+    // Step 4: 配信履歴の確認
+    if (!(await this.isDeliveredTermName(termName))) {
+      throw new TermExplanationError(
+        `配信履歴にない用語のため解説を生成できません: ${termName}`,
+        termName,
+        'not-delivered'
+      );
+    }
+
+    // Step 5: 解説を生成して保存
+    const { term, model } = await this.generate(termName);
+    await this.saveGeneratedExplanation({
+      term_name: term.name,
+      description: term.description,
+      difficulty: term.difficulty,
+      model,
+    });
+
+    return { term, source: 'generated' };
+  }
+
+  /**
+   * termsテーブルから用語を取得する
+   *
+   * 管理者が非公開にした用語は対象外(service_role keyはRLSをバイパスするため明示的に絞り込む)
+   *
+   * @param termName - 用語名
+   * @returns 最新の配信日の公開中の用語(見つからない場合はnull)
+   */
+  private async findDeliveredTerm(termName: string): Promise<Term | null> {
+    const { data, error } = await getSupabase()
+      .from('terms')
+      .select('name, description, difficulty')
+      .eq('name', termName)
+      .eq('published', true)
+      .order('date', { ascending: false })
+      .limit(1);
+
+    if (error) {
+      throw this.databaseError(termName, 'terms', error.message);
+    }
+
+    const rows = (data ?? []) as Term[];
+    return rows[0] ?? null;
+  }
+
+  /**
+   * term_explanationsテーブルから生成済みの解説を取得する
+   *
+   * @param termName - 用語名
+   * @returns 生成済みの解説(見つからない場合はnull)
+   */
+  private async findGeneratedExplanation(termName: string): Promise<TermExplanationRow | null> {
+    const { data, error } = await getSupabase()
+      .from('term_explanations')
+      .select('*')
+      .eq('term_name', termName)
+      .limit(1);
+
+    if (error) {
+      throw this.databaseError(termName, 'term_explanations', error.message);
+    }
+
+    const rows = (data ?? []) as TermExplanationRow[];
+    return rows[0] ?? null;
+  }
+
+  /**
+   * 管理者が非公開にした用語かどうかをtermsテーブルで確認する
+   *
+   * @param termName - 用語名
+   * @returns 非公開の配信がある場合はtrue
+   */
+  private async isUnpublishedTermName(termName: string): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('terms')
+      .select('name')
+      .eq('name', termName)
+      .eq('published', false)
+      .limit(1);
+
+    if (error) {
+      throw this.databaseError(termName, 'terms', error.message);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * 過去に配信した用語かどうかをterms_historyテーブルで確認する
+   *
+   * @param termName - 用語名
+   * @returns 配信済みの場合はtrue
+   */
+  private async isDeliveredTermName(termName: string): Promise<boolean> {
+    const { data, error } = await getSupabase()
+      .from('terms_history')
+      .select('term_name')
+      .eq('term_name', termName)
+      .limit(1);
+
+    if (error) {
+      throw this.databaseError(termName, 'terms_history', error.message);
+    }
+
+    return (data ?? []).length > 0;
+  }
+
+  /**
+   * 解説を生成する
+   *
+   * レスポンスが検証に通らない場合は最大リトライ回数まで再生成します。
+   * 用語名はモデルの出力ではなく、指定した用語名を使用します。
+   *
+   * @param termName - 用語名
+   * @returns 生成した用語と使用したモデル名
+   * @throws {TermExplanationError} 最大リトライ回数を超えた場合
+   */
+  private async generate(termName: string): Promise<{ term: Term; model: string }> {
+    const prompt = buildTermExplanationPrompt(termName);
+    let lastError: Error | undefined;
+    let attempts = 0;
+
+    for (let i = 0; i <= this.maxRetries; i++) {
+      attempts = i + 1;
+
+      try {
+        const response = await this.client.sendMessage(prompt, {
+          operation: 'term-explanation-generation',
+          // リトライではキャッシュした(パースできなかった)レスポンスを使わない
+          ...(i > 0 && { bypassCache: true }),
+        });
+
+        const parseResult = parseTermResponse(response);
+        if (parseResult.success && parseResult.term) {
+          // 検証に通過したレスポンスのみキャッシュに保存する
+          await this.client.confirmResponse?.(response);
+          return {
+            term: { ...parseResult.term, name: termName },
+            model: parseResult.model,
+          };
+        }
+
+        // 検証失敗の場合はリトライ
+        lastError = new Error(parseResult.error ?? 'レスポンスのパースに失敗しました');
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+      }
+
+      if (this.logErrors) {
+        console.error(
+          `[TermExplanationService] ${termName} failed (attempt ${attempts}/${this.maxRetries + 1}):`,
+          lastError.message
+        );
+      }
+    }
+
+    // 全リトライ失敗
+    throw new TermExplanationError(
+      `用語解説の生成に失敗しました(${termName}、${attempts}回試行): ${lastError?.message}`,
+      termName,
+      'generation',
+      lastError
+    );
+  }
+
+  /**
+   * 生成した解説をterm_explanationsテーブルに保存する
+   *
+   * 保存に失敗しても生成した解説は返すため、エラーはログに記録するのみとします。
+   *
+   * @param payload - 保存する解説
+   */
+  private async saveGeneratedExplanation(payload: TermExplanationUpsertPayload): Promise<void> {
+    const { error } = await getSupabase()
+      .from('term_explanations')
+      .upsert(payload, { onConflict: 'term_name' });
+
+    if (error && this.logErrors) {
+      console.error(
+        `[TermExplanationService] Failed to save explanation for ${payload.term_name}:`,
+        error.message
+      );
+    }
+  }
+
+  /**
+   * DBエラーを生成する
+   *
+   * @param termName - 用語名
+   * @param table - テーブル名
+   * @param message - エラーメッセージ
+   * @returns 用語解説エラー
+   */
+  private databaseError(termName: string, table: string, message: string): TermExplanationError {
+    return new TermExplanationError(
+      `${table}テーブルの読み込みに失敗しました: ${message}`,
+      termName,
+      'database'
+    );
+  }
+}
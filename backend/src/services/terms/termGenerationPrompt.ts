@@ -5,6 +5,7 @@
  * 投資・金融用語を生成するためのプロンプトを構築します。
  * 難易度(初級・中級・上級)に応じたプロンプト調整と、
  * 重複除外用語リストの指定が可能です。
+ * プロンプト本文はバージョン付きのテンプレート(プロンプトレジストリに登録)として定義します。
  *
  * Requirements:
  * - 4.1: 1日3つ投資用語生成
@@ -15,6 +16,7 @@
  */
 
 import { TermDifficulty } from '../../models/terms.model';
+import { PromptTemplate, renderPromptTemplate } from '../prompts/promptRegistry';
 
 /**
  * 難易度レベル(TermDifficultyのエイリアス)
@@ -104,6 +106,53 @@ function getDifficultyInstruction(difficulty?: DifficultyLevel): string {
   return DIFFICULTY_DESCRIPTIONS[difficulty];
 }
 
+/**
+ * 用語生成プロンプト(v1)
+ *
+ * 変数: targetCharacters, minCharacters, maxCharacters,
+ * difficultyInstruction, excludeTermsSection, difficulty
+ */
+export const TERM_GENERATION_PROMPT_V1: PromptTemplate = {
+  name: 'term-generation',
+  version: 'v1',
+  template: `あなたは投資・金融教育の専門家です。投資初学者向けに、1つの投資・金融用語とその解説を作成してください。
+
+## 指示
+1. 投資・金融・経済に関する用語を1つ選んでください
+2. 選んだ用語について、投資初学者にも分かりやすい解説を作成してください
+3. 解説は約{{targetCharacters}}文字({{minCharacters}}〜{{maxCharacters}}文字)で作成してください
+4. {{difficultyInstruction}}
+
+## 解説の書き方
+- まず用語の基本的な定義を簡潔に説明してください
+- 次に、なぜこの用語が投資において重要なのかを説明してください
+- 具体例や実際の使われ方を含めてください
+- 難しい概念は身近な例えを使って説明してください
+- 関連する用語があれば軽く触れてください
+{{excludeTermsSection}}
+## 出力形式
+必ず以下のJSON形式で出力してください。JSONのみを出力し、他のテキストは含めないでください。
+
+\`\`\`json
+{
+  "name": "用語名",
+  "description": "解説文({{minCharacters}}〜{{maxCharacters}}文字)",
+  "difficulty": "{{difficulty}}"
+}
+\`\`\`
+
+JSONを出力してください。`,
+};
+
+/**
+ * 用語生成のプロンプトテンプレート(全バージョン)
+ *
+ * 新しいバージョンを追加する場合は、ここに追加してweightで配分を指定します。
+ */
+export const TERM_GENERATION_PROMPT_TEMPLATES: readonly PromptTemplate[] = [
+  TERM_GENERATION_PROMPT_V1,
+];
+
 /**
  * 用語生成プロンプトを構築する
  *
@@ -111,6 +160,7 @@ function getDifficultyInstruction(difficulty?: DifficultyLevel): string {
  * 1つの投資・金融用語と約500文字の解説を生成するよう指示します。
  *
  * @param options - プロンプトオプション
+ * @param template - プロンプトテンプレート(省略時はv1)
  * @returns Claude APIに送信するプロンプト文字列
  *
  * @example
@@ -129,38 +179,17 @@ function getDifficultyInstruction(difficulty?: DifficultyLevel): string {
  * });
  */
 export function buildTermGenerationPrompt(
-  options: TermGenerationPromptOptions = {}
+  options: TermGenerationPromptOptions = {},
+  template: PromptTemplate = TERM_GENERATION_PROMPT_V1
 ): string {
   const { difficulty, excludeTerms = [] } = options;
 
-  const difficultyInstruction = getDifficultyInstruction(difficulty);
-  const excludeTermsSection = formatExcludeTerms(excludeTerms);
-
-  return `あなたは投資・金融教育の専門家です。投資初学者向けに、1つの投資・金融用語とその解説を作成してください。
-
-## 指示
-1. 投資・金融・経済に関する用語を1つ選んでください
-2. 選んだ用語について、投資初学者にも分かりやすい解説を作成してください
-3. 解説は約${TERM_GENERATION_CONFIG.targetCharacters}文字(${TERM_GENERATION_CONFIG.minCharacters}〜${TERM_GENERATION_CONFIG.maxCharacters}文字)で作成してください
-4. ${difficultyInstruction}
-
-## 解説の書き方
-- まず用語の基本的な定義を簡潔に説明してください
-- 次に、なぜこの用語が投資において重要なのかを説明してください
-- 具体例や実際の使われ方を含めてください
-- 難しい概念は身近な例えを使って説明してください
-- 関連する用語があれば軽く触れてください
-${excludeTermsSection}
-## 出力形式
-必ず以下のJSON形式で出力してください。JSONのみを出力し、他のテキストは含めないでください。
-
-\`\`\`json
-{
-  "name": "用語名",
-  "description": "解説文(${TERM_GENERATION_CONFIG.minCharacters}〜${TERM_GENERATION_CONFIG.maxCharacters}文字)",
-  "difficulty": "${difficulty || 'beginner|intermediate|advanced'}"
-}
-\`\`\`
-
-JSONを出力してください。`;
+  return renderPromptTemplate(template, {
+    targetCharacters: TERM_GENERATION_CONFIG.targetCharacters,
+    minCharacters: TERM_GENERATION_CONFIG.minCharacters,
+    maxCharacters: TERM_GENERATION_CONFIG.maxCharacters,
+    difficultyInstruction: getDifficultyInstruction(difficulty),
+    excludeTermsSection: formatExcludeTerms(excludeTerms),
+    difficulty: difficulty || 'beginner|intermediate|advanced',
+  });
 }
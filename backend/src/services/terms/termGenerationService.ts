@@ -5,22 +5,28 @@
  * 投資・金融用語の生成を行い、失敗時のリトライ処理と
  * エラーログ記録を提供します。
  *
+ * 用語は構造化出力(TERM_OUTPUT_TOOLの入力)として生成し、
+ * 得られない場合はテキストのJSONを解析します。
+ *
  * Requirements: 1.7 (バッチ失敗時エラーログ+リトライ)
  *
  * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
  */
 
-import { ClaudeClient, ClaudeResponse } from '../claudeClient';
+import type { LlmProvider, LlmResponse, PreparedLlmRequest } from '../llm/llmProvider';
 import { Term, TermDifficulty } from '../../models/terms.model';
 import {
   buildTermGenerationPrompt,
   TermGenerationPromptOptions,
 } from './termGenerationPrompt';
 import {
-  parseTermResponse,
+  TERM_OUTPUT_TOOL,
+  TermParseResult,
+  parseStructuredTermResponse,
   validateTermDescription,
 } from './termResponseParser';
 import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+import { PromptRegistry, PromptSelection, getPromptRegistry } from '../prompts';
 
 /**
  * 用語生成エラー
@@ -69,6 +75,8 @@ export interface TermGenerationResult {
   warning?: string;
   /** 使用されたモデル名 */
   model: string;
+  /** 使用したプロンプトのバージョン */
+  promptVersion: string;
   /** 入力トークン数 */
   inputTokens: number;
   /** 出力トークン数 */
@@ -90,6 +98,14 @@ export interface TermGenerationServiceConfig {
    * @default true
    */
   logErrors?: boolean;
+
+  /**
+   * プロンプトレジストリ
+   *
+   * サービスのインスタンスごとに(バッチの1回の実行ごとに)プロンプトのバージョンを1つ選択する。
+   * @default getPromptRegistry()
+   */
+  promptRegistry?: PromptRegistry;
 }
 
 /**
@@ -118,7 +134,7 @@ export interface GenerateTermOptions {
  * 失敗時のリトライ処理とエラーログ記録を提供します。
  *
  * @example
- * const client = getClaudeClient();
+ * const client = getLlmProvider();
  * const service = new TermGenerationService(client);
  *
  * // 基本的な用語生成
@@ -134,20 +150,22 @@ export interface GenerateTermOptions {
  * });
  */
 export class TermGenerationService {
-  private readonly client: ClaudeClient;
+  private readonly client: LlmProvider;
   private readonly maxRetries: number;
   private readonly logErrors: boolean;
+  private readonly prompts: PromptSelection;
 
   /**
    * コンストラクタ
    *
-   * @param client - Claude APIクライアント
+   * @param client - LLMプロバイダー(Claude APIクライアントなど)
    * @param config - サービス設定
    */
-  constructor(client: ClaudeClient, config: TermGenerationServiceConfig = {}) {
+  constructor(client: LlmProvider, config: TermGenerationServiceConfig = {}) {
     this.client = client;
     this.maxRetries = config.maxRetries ?? 3;
     this.logErrors = config.logErrors ?? true;
+    this.prompts = (config.promptRegistry ?? getPromptRegistry()).createSelection();
   }
 
   /**
@@ -155,7 +173,7 @@ export class TermGenerationService {
    *
    * @returns 設定オブジェクト
    */
-  getConfig(): Required<TermGenerationServiceConfig> {
+  getConfig(): Required<Omit<TermGenerationServiceConfig, 'promptRegistry'>> {
     return {
       maxRetries: this.maxRetries,
       logErrors: this.logErrors,
@@ -173,13 +191,60 @@ export class TermGenerationService {
    * @throws {TermGenerationError} 最大リトライ回数を超えた場合
    */
   async generateTerm(options: GenerateTermOptions = {}): Promise<TermGenerationResult> {
+    const request = this.prepareRequest(options);
+    return this.executeWithRetry(request.prompt, request.options.operation, request.promptVersion);
+  }
+
+  /**
+   * 用語生成のリクエストを作成する
+   *
+   * Message Batchesなど、generateTerm()以外の経路で送信する場合に使用します。
+   * レスポンスはtoGenerationResult()で生成結果に変換します。
+   *
+   * @param options - 生成オプション
+   * @returns 送信前のリクエスト
+   */
+  prepareRequest(options: GenerateTermOptions = {}): PreparedLlmRequest {
     const promptOptions: TermGenerationPromptOptions = {
       difficulty: options.difficulty,
       excludeTerms: options.excludeTerms,
     };
 
-    const prompt = buildTermGenerationPrompt(promptOptions);
-    return this.executeWithRetry(prompt, 'term-generation');
+    const template = this.prompts.get('term-generation');
+    return {
+      prompt: buildTermGenerationPrompt(promptOptions, template),
+      options: { operation: 'term-generation', tool: TERM_OUTPUT_TOOL },
+      promptVersion: template.version,
+    };
+  }
+
+  /**
+   * レスポンスを生成結果に変換する
+   *
+   * prepareRequest()で作成したリクエストのレスポンスを、generateTerm()と同じパーサーで変換します。
+   * リトライは行いません。
+   *
+   * @param response - LLMのレスポンス
+   * @param promptVersion - リクエストのプロンプトのバージョン
+   * @param operation - 操作名(構造化出力の集計用)
+   * @returns 生成結果
+   * @throws {TermGenerationError} レスポンスのパースに失敗した場合
+   */
+  toGenerationResult(
+    response: LlmResponse,
+    promptVersion: string,
+    operation: string = 'term-generation'
+  ): TermGenerationResult {
+    const parseResult = parseStructuredTermResponse(response, operation);
+    if (!parseResult.success || !parseResult.term) {
+      throw new TermGenerationError(
+        `レスポンスのパースに失敗しました: ${parseResult.error}`,
+        operation,
+        1
+      );
+    }
+
+    return this.buildResult(parseResult, parseResult.term, promptVersion);
   }
 
   /**
@@ -187,12 +252,14 @@ export class TermGenerationService {
    *
    * @param prompt - 送信するプロンプト
    * @param operation - 操作名
+   * @param promptVersion - プロンプトのバージョン
    * @returns 生成結果
    * @throws {TermGenerationError} 最大リトライ回数を超えた場合
    */
   private async executeWithRetry(
     prompt: string,
-    operation: string
+    operation: string,
+    promptVersion: string
   ): Promise<TermGenerationResult> {
     let lastError: Error | undefined;
     let attempts = 0;
@@ -203,21 +270,26 @@ export class TermGenerationService {
       try {
         const response = await this.client.sendMessage(prompt, {
           operation,
+          tool: TERM_OUTPUT_TOOL,
+          // リトライではキャッシュした(パースできなかった)レスポンスを使わない
+          ...(i > 0 && { bypassCache: true }),
         });
 
-        const result = this.processResponse(response);
+        const parseResult = parseStructuredTermResponse(response, operation);
 
-        // パースに成功した場合のみ結果を返す
-        if (result) {
-          return result;
+        // パースに成功した場合のみ結果を返す(キャッシュにも保存する)
+        if (parseResult.success && parseResult.term) {
+          await this.client.confirmResponse?.(response);
+          return this.buildResult(parseResult, parseResult.term, promptVersion);
         }
 
-        // パース失敗(result === null)の場合はリトライ
-        lastError = new Error('レスポンスのパースに失敗しました');
+        // パース失敗の場合はリトライ
+        lastError = new Error(`レスポンスのパースに失敗しました: ${parseResult.error}`);
 
         if (this.logErrors) {
           console.error(
-            `[TermGenerationService] ${operation} parse failed (attempt ${attempts}/${this.maxRetries + 1})`
+            `[TermGenerationService] ${operation} parse failed (attempt ${attempts}/${this.maxRetries + 1}):`,
+            parseResult.error
           );
         }
       } catch (error) {
@@ -247,27 +319,27 @@ export class TermGenerationService {
   }
 
   /**
-   * レスポンスを処理して結果を生成
+   * パース結果から生成結果を作成
    *
-   * @param response - Claude APIレスポンス
-   * @returns 生成結果(パース失敗時はnull)
+   * @param parseResult - パース結果
+   * @param term - パースした用語
+   * @param promptVersion - プロンプトのバージョン
+   * @returns 生成結果
    */
-  private processResponse(response: ClaudeResponse): TermGenerationResult | null {
-    const parseResult = parseTermResponse(response);
-
-    // パース失敗
-    if (!parseResult.success || !parseResult.term) {
-      return null;
-    }
-
-    const validation = validateTermDescription(parseResult.term.description);
+  private buildResult(
+    parseResult: TermParseResult,
+    term: Term,
+    promptVersion: string
+  ): TermGenerationResult {
+    const validation = validateTermDescription(term.description);
 
     return {
-      term: parseResult.term,
+      term,
       characterCount: validation.characterCount,
       isValid: validation.isValid,
       warning: validation.warning,
       model: parseResult.model,
+      promptVersion,
       inputTokens: parseResult.inputTokens,
       outputTokens: parseResult.outputTokens,
     };
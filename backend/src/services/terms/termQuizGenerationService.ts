@@ -0,0 +1,205 @@
+/**
+ * 用語クイズ生成サービス
+ *
+ * 生成済みの投資・金融用語について4択クイズを生成し、
+ * 失敗時のリトライ処理とエラーログ記録を提供します。
+ *
+ * Requirements:
+ * - 用語ごとに2〜3問の4択クイズ(誤答選択肢・解説付き)を生成
+ * - 1.7 (バッチ失敗時エラーログ+リトライ)
+ *
+ * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
+ */
+
+import { ClaudeResponse } from '../claudeClient';
+import type { LlmProvider } from '../llm/llmProvider';
+import { Term, TermQuiz } from '../../models/terms.model';
+import { buildTermQuizPrompt } from './termQuizPrompt';
+import { parseTermQuizResponse } from './termQuizResponseParser';
+import { AppError, ErrorType, ErrorSeverity } from '../../errors/types';
+
+/**
+ * 用語クイズ生成エラー
+ *
+ * クイズ生成処理中に発生したエラーを表現します。
+ * 対象の用語名と試行回数を保持し、どの用語で何回失敗したかを追跡できます。
+ */
+export class TermQuizGenerationError extends AppError {
+  /**
+   * 対象の用語名
+   */
+  public readonly termName: string;
+
+  /**
+   * 試行回数
+   */
+  public readonly attempts: number;
+
+  constructor(message: string, termName: string, attempts: number, originalError?: Error) {
+    super(message, ErrorType.API, ErrorSeverity.HIGH, true, originalError);
+    this.name = 'TermQuizGenerationError';
+    this.termName = termName;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * 用語クイズ生成結果
+ */
+export interface TermQuizGenerationResult {
+  /** 生成されたクイズ */
+  quiz: TermQuiz;
+  /** 使用されたモデル名 */
+  model: string;
+  /** 入力トークン数 */
+  inputTokens: number;
+  /** 出力トークン数 */
+  outputTokens: number;
+}
+
+/**
+ * 用語クイズ生成サービスの設定
+ */
+export interface TermQuizGenerationServiceConfig {
+  /**
+   * 最大リトライ回数
+   * @default 2
+   */
+  maxRetries?: number;
+
+  /**
+   * エラーをログに記録するかどうか
+   * @default true
+   */
+  logErrors?: boolean;
+}
+
+/**
+ * 用語クイズ生成サービス
+ *
+ * Claude APIを使用して、用語の解説文から4択クイズを生成します。
+ * レスポンスが検証に通らない場合は最大リトライ回数まで再生成します。
+ *
+ * @example
+ * const client = getLlmProvider();
+ * const service = new TermQuizGenerationService(client);
+ *
+ * const result = await service.generateQuiz(term);
+ * console.log(result.quiz.questions.length); // 2〜3
+ */
+export class TermQuizGenerationService {
+  private readonly client: LlmProvider;
+  private readonly maxRetries: number;
+  private readonly logErrors: boolean;
+
+  /**
+   * コンストラクタ
+   *
+   * @param client - LLMプロバイダー(Claude APIクライアントなど)
+   * @param config - サービス設定
+   */
+  constructor(client: LlmProvider, config: TermQuizGenerationServiceConfig = {}) {
+    this.client = client;
+    this.maxRetries = config.maxRetries ?? 2;
+    this.logErrors = config.logErrors ?? true;
+  }
+
+  /**
+   * 現在の設定を取得
+   *
+   * @returns 設定オブジェクト
+   */
+  getConfig(): Required<TermQuizGenerationServiceConfig> {
+    return {
+      maxRetries: this.maxRetries,
+      logErrors: this.logErrors,
+    };
+  }
+
+  /**
+   * 用語のクイズを生成する
+   *
+   * @param term - 出題対象の用語
+   * @returns 生成結果
+   * @throws {TermQuizGenerationError} 最大リトライ回数を超えた場合
+   */
+  async generateQuiz(term: Term): Promise<TermQuizGenerationResult> {
+    const prompt = buildTermQuizPrompt(term);
+    let lastError: Error | undefined;
+    let attempts = 0;
+
+    for (let i = 0; i <= this.maxRetries; i++) {
+      attempts = i + 1;
+
+      try {
+        const response = await this.client.sendMessage(prompt, {
+          operation: 'term-quiz-generation',
+          // リトライではキャッシュした(パースできなかった)レスポンスを使わない
+          ...(i > 0 && { bypassCache: true }),
+        });
+
+        const result = this.processResponse(term, response);
+        if ('quiz' in result) {
+          // 検証に通過したレスポンスのみキャッシュに保存する
+          await this.client.confirmResponse?.(response);
+          return result;
+        }
+
+        // 検証失敗の場合はリトライ
+        lastError = new Error(result.error);
+
+        if (this.logErrors) {
+          console.error(
+            `[TermQuizGenerationService] ${term.name} parse failed (attempt ${attempts}/${this.maxRetries + 1}):`,
+            result.error
+          );
+        }
+      } catch (error) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+
+        if (this.logErrors) {
+          console.error(
+            `[TermQuizGenerationService] ${term.name} failed (attempt ${attempts}/${this.maxRetries + 1}):`,
+            lastError.message
+          );
+        }
+      }
+    }
+
+    // 全リトライ失敗
+    throw new TermQuizGenerationError(
+      `クイズ生成に失敗しました(${term.name}、${attempts}回試行): ${lastError?.message}`,
+      term.name,
+      attempts,
+      lastError
+    );
+  }
+
+  /**
+   * レスポンスを処理して結果を生成
+   *
+   * @param term - 出題対象の用語
+   * @param response - Claude APIレスポンス
+   * @returns 生成結果、またはパース失敗時のエラーメッセージ
+   */
+  private processResponse(
+    term: Term,
+    response: ClaudeResponse
+  ): TermQuizGenerationResult | { error: string } {
+    const parseResult = parseTermQuizResponse(response);
+
+    if (!parseResult.success || !parseResult.questions) {
+      return { error: parseResult.error ?? 'レスポンスのパースに失敗しました' };
+    }
+
+    return {
+      quiz: {
+        termName: term.name,
+        questions: parseResult.questions,
+      },
+      model: parseResult.model,
+      inputTokens: parseResult.inputTokens,
+      outputTokens: parseResult.outputTokens,
+    };
+  }
+}
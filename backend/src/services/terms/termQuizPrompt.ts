@@ -0,0 +1,80 @@
+/**
+ * 用語クイズ生成プロンプト
+ *
+ * 生成済みの投資・金融用語について、理解度を確認する
+ * 4択クイズを生成するためのプロンプトを構築します。
+ *
+ * Requirements:
+ * - 用語ごとに2〜3問の4択クイズ(誤答選択肢・解説付き)を生成
+ *
+ * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
+ */
+
+import { Term } from '../../models/terms.model';
+import { DIFFICULTY_DESCRIPTIONS } from './termGenerationPrompt';
+
+/**
+ * 用語クイズ生成設定
+ *
+ * 設問数と選択肢数に関する設定値を保持します。
+ */
+export const TERM_QUIZ_CONFIG = {
+  /** 1用語あたりの最小設問数 */
+  minQuestions: 2,
+  /** 1用語あたりの最大設問数 */
+  maxQuestions: 3,
+  /** 1問あたりの選択肢数 */
+  choiceCount: 4,
+} as const;
+
+/**
+ * 用語クイズ生成プロンプトを構築する
+ *
+ * 用語名と解説文を渡し、解説文の内容から出題するよう指示します。
+ * 誤答の選択肢はもっともらしいものにし、正解の位置は偏らないよう指示します。
+ *
+ * @param term - 出題対象の用語
+ * @returns Claude APIに送信するプロンプト文字列
+ *
+ * @example
+ * const prompt = buildTermQuizPrompt(result.term);
+ * const response = await claudeClient.sendMessage(prompt);
+ */
+export function buildTermQuizPrompt(term: Term): string {
+  const { minQuestions, maxQuestions, choiceCount } = TERM_QUIZ_CONFIG;
+
+  return `あなたは投資・金融教育の専門家です。以下の投資・金融用語の理解度を確認する${choiceCount}択クイズを作成してください。
+
+## 対象の用語
+用語名: ${term.name}
+${DIFFICULTY_DESCRIPTIONS[term.difficulty]}
+
+## 用語の解説
+${term.description}
+
+## 指示
+1. 上記の解説の内容から${minQuestions}〜${maxQuestions}問を作成してください
+2. 各問題には${choiceCount}つの選択肢を用意し、正解は1つだけにしてください
+3. 誤答の選択肢は、初学者が誤解しやすいもっともらしい内容にしてください
+4. 正解の位置(correctIndex)が毎回同じにならないようにしてください
+5. 各問題に、なぜその選択肢が正解なのかを100文字程度で解説してください
+
+## 出力形式
+必ず以下のJSON形式で出力してください。JSONのみを出力し、他のテキストは含めないでください。
+correctIndexは正解の選択肢の位置(0〜${choiceCount - 1})です。
+
+\`\`\`json
+{
+  "questions": [
+    {
+      "question": "問題文",
+      "choices": ["選択肢1", "選択肢2", "選択肢3", "選択肢4"],
+      "correctIndex": 0,
+      "explanation": "正解の解説"
+    }
+  ]
+}
+\`\`\`
+
+JSONを出力してください。`;
+}
@@ -0,0 +1,191 @@
+/**
+ * 用語クイズレスポンスパーサー
+ *
+ * Claude APIからのレスポンスを解析し、4択クイズの設問を抽出・検証します。
+ *
+ * Requirements:
+ * - 用語ごとに2〜3問の4択クイズ(誤答選択肢・解説付き)を生成
+ *
+ * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
+ */
+
+import { ClaudeResponse } from '../claudeClient';
+import { TermQuizQuestion } from '../../models/terms.model';
+import { TERM_QUIZ_CONFIG } from './termQuizPrompt';
+import { extractJson } from './termResponseParser';
+
+/**
+ * 用語クイズパース結果
+ *
+ * Claude APIレスポンスから抽出した設問を保持します。
+ */
+export interface TermQuizParseResult {
+  /** パース成功かどうか */
+  success: boolean;
+  /** 抽出された設問(成功時のみ) */
+  questions?: TermQuizQuestion[];
+  /** エラーメッセージ(失敗時のみ) */
+  error?: string;
+  /** 使用されたモデル名 */
+  model: string;
+  /** 入力トークン数 */
+  inputTokens: number;
+  /** 出力トークン数 */
+  outputTokens: number;
+}
+
+/**
+ * JSON形式の設問データ(パース前の生データ)
+ */
+interface RawQuizQuestionData {
+  question?: unknown;
+  choices?: unknown;
+  correctIndex?: unknown;
+  explanation?: unknown;
+}
+
+/**
+ * 空でない文字列かどうかを判定する
+ *
+ * @param value - 判定する値
+ * @returns 空白以外の文字を含む文字列の場合true
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * 設問1件を検証して変換する
+ *
+ * @param raw - パース前の設問データ
+ * @param index - 設問番号(エラーメッセージ用、0始まり)
+ * @returns 変換後の設問、またはエラーメッセージ
+ */
+function parseQuestion(
+  raw: RawQuizQuestionData,
+  index: number
+): { question: TermQuizQuestion } | { error: string } {
+  const label = `設問${index + 1}`;
+  const { choiceCount } = TERM_QUIZ_CONFIG;
+
+  if (!isNonEmptyString(raw.question)) {
+    return { error: `${label}のquestionフィールドが無効です。問題文は必須です。` };
+  }
+
+  if (
+    !Array.isArray(raw.choices) ||
+    raw.choices.length !== choiceCount ||
+    !raw.choices.every(isNonEmptyString)
+  ) {
+    return { error: `${label}のchoicesフィールドが無効です。${choiceCount}つの選択肢が必要です。` };
+  }
+
+  const choices = raw.choices.map((choice) => choice.trim());
+  if (new Set(choices).size !== choices.length) {
+    return { error: `${label}の選択肢が重複しています。` };
+  }
+
+  if (
+    typeof raw.correctIndex !== 'number' ||
+    !Number.isInteger(raw.correctIndex) ||
+    raw.correctIndex < 0 ||
+    raw.correctIndex >= choiceCount
+  ) {
+    return {
+      error: `${label}のcorrectIndexフィールドが無効です。0〜${choiceCount - 1}の整数を指定してください。(現在: ${String(raw.correctIndex)})`,
+    };
+  }
+
+  if (!isNonEmptyString(raw.explanation)) {
+    return { error: `${label}のexplanationフィールドが無効です。解説は必須です。` };
+  }
+
+  return {
+    question: {
+      question: raw.question.trim(),
+      choices,
+      correctIndex: raw.correctIndex,
+      explanation: raw.explanation.trim(),
+    },
+  };
+}
+
+/**
+ * Claude APIレスポンスを解析して用語クイズの設問を抽出
+ *
+ * 設問数が2〜3問であること、各設問が4つの重複しない選択肢・範囲内の正解インデックス・
+ * 解説を持つことを検証します。1問でも不正な設問がある場合は失敗として扱います。
+ *
+ * @param response - Claude APIからのレスポンス
+ * @returns パース結果
+ *
+ * @example
+ * const response = await claudeClient.sendMessage(buildTermQuizPrompt(term));
+ * const result = parseTermQuizResponse(response);
+ * if (result.success) {
+ *   console.log(result.questions.length);
+ * }
+ */
+export function parseTermQuizResponse(response: ClaudeResponse): TermQuizParseResult {
+  const baseResult = {
+    model: response.model,
+    inputTokens: response.usage.inputTokens,
+    outputTokens: response.usage.outputTokens,
+  };
+
+  // コンテンツが空の場合
+  if (!response.content || response.content.trim() === '') {
+    return {
+      ...baseResult,
+      success: false,
+      error: 'レスポンスが空です。',
+    };
+  }
+
+  try {
+    // JSONを抽出してパース
+    const jsonString = extractJson(response.content);
+    const data: { questions?: unknown } = JSON.parse(jsonString);
+
+    // 設問数の検証
+    const { minQuestions, maxQuestions } = TERM_QUIZ_CONFIG;
+    if (
+      !Array.isArray(data.questions) ||
+      data.questions.length < minQuestions ||
+      data.questions.length > maxQuestions
+    ) {
+      return {
+        ...baseResult,
+        success: false,
+        error: `questionsフィールドが無効です。${minQuestions}〜${maxQuestions}問の設問が必要です。`,
+      };
+    }
+
+    // 各設問の検証
+    const questions: TermQuizQuestion[] = [];
+    for (const [index, raw] of data.questions.entries()) {
+      const parsed = parseQuestion((raw ?? {}) as RawQuizQuestionData, index);
+      if ('error' in parsed) {
+        return {
+          ...baseResult,
+          success: false,
+          error: parsed.error,
+        };
+      }
+      questions.push(parsed.question);
+    }
+
+    return {
+      ...baseResult,
+      success: true,
+      questions,
+    };
+  } catch (error) {
+    // JSONパースエラー
+    return {
+      ...baseResult,
+      success: false,
+      error: `JSONのパースに失敗しました: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+}
@@ -3,10 +3,12 @@
  * Task 5.3, 5.4: 用語レスポンスパース機能、用語文字数検証機能
  *
  * Claude APIからのレスポンスを解析し、用語データを抽出・検証します。
+ * 構造化出力(ツールTERM_OUTPUT_TOOLの入力)を優先し、得られない場合はテキストのJSONを解析します。
  *
  * Requirements:
  * - 4.1: 投資・金融用語生成
  * - 4.2: 各用語に約500文字の解説生成
+ * - 構造化出力(ツールの入力のスキーマ検証、テキストのパーサーへのフォールバック)
  *
  * @see https://docs.anthropic.com/en/api/messages - Claude Messages API
  */
@@ -14,12 +16,38 @@
 import { ClaudeResponse } from '../claudeClient';
 import { Term, TermDifficulty } from '../../models/terms.model';
 import { TERM_GENERATION_CONFIG } from './termGenerationPrompt';
+import type { LlmToolDefinition } from '../llm/llmProvider';
+import { parseStructuredOutput } from '../llm/structuredOutput';
 
 /**
  * 有効な難易度のリスト
  */
 const VALID_DIFFICULTIES: TermDifficulty[] = ['beginner', 'intermediate', 'advanced'];
 
+/**
+ * 用語の構造化出力に使用するツール
+ *
+ * 用語生成時にこのツールの呼び出しを強制し、用語をスキーマに従うJSONとして出力させます。
+ */
+export const TERM_OUTPUT_TOOL: LlmToolDefinition = {
+  name: 'record_term',
+  description: '生成した投資・金融用語とその解説を記録します。',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', minLength: 1, description: '用語名' },
+      description: { type: 'string', minLength: 1, description: '用語の解説文(約500文字)' },
+      difficulty: {
+        type: 'string',
+        enum: VALID_DIFFICULTIES,
+        description: '難易度',
+      },
+    },
+    required: ['name', 'description', 'difficulty'],
+    additionalProperties: false,
+  },
+};
+
 /**
  * 用語パース結果
  *
@@ -81,11 +109,12 @@ function countCharacters(text: string): number {
  * コンテンツからJSONを抽出する
  *
  * コードブロック(```json ... ```)で囲まれている場合は中身を抽出します。
+ * 用語クイズのレスポンスパーサーでも使用します。
  *
  * @param content - Claude APIのレスポンスコンテンツ
  * @returns 抽出されたJSON文字列
  */
-function extractJson(content: string): string {
+export function extractJson(content: string): string {
   const trimmed = content.trim();
 
   // コードブロックからJSONを抽出
@@ -195,6 +224,48 @@ export function parseTermResponse(response: ClaudeResponse): TermParseResult {
   }
 }
 
+/**
+ * 構造化出力を優先して用語情報を抽出
+ *
+ * ツールの入力がスキーマに従っている場合はそれを使用し、
+ * 得られない・スキーマに従っていない場合はparseTermResponseでテキストを解析します。
+ * どちらの経路で解析したかはStructuredOutputMetricsに記録します。
+ *
+ * @param response - TERM_OUTPUT_TOOLを指定して送信したレスポンス
+ * @param operation - 操作名(集計用)
+ * @returns パース結果(失敗時のerrorにはスキーマ検証エラーの位置を含む)
+ */
+export function parseStructuredTermResponse(
+  response: ClaudeResponse,
+  operation: string = 'term-generation'
+): TermParseResult {
+  const result = parseStructuredOutput<Term>(response, {
+    operation,
+    tool: TERM_OUTPUT_TOOL,
+    fromToolInput: (input) => ({
+      name: (input.name as string).trim(),
+      description: input.description as string,
+      difficulty: input.difficulty as TermDifficulty,
+    }),
+    parseText: (textResponse) => {
+      const textResult = parseTermResponse(textResponse);
+      return textResult.success && textResult.term
+        ? { success: true, value: textResult.term }
+        : { success: false, error: textResult.error ?? 'レスポンスのパースに失敗しました。' };
+    },
+  });
+
+  const baseResult = {
+    model: response.model,
+    inputTokens: response.usage.inputTokens,
+    outputTokens: response.usage.outputTokens,
+  };
+
+  return result.success
+    ? { ...baseResult, success: true, term: result.value }
+    : { ...baseResult, success: false, error: result.error };
+}
+
 /**
  * 解説文の文字数を検証
  *
@@ -10,6 +10,7 @@
  * - API呼び出しごとのトークン使用量を記録
  * - 累積トークン使用量の集計
  * - モデル別のトークン使用量の集計
+ * - レスポンスキャッシュのヒット数と課金対象のAPI呼び出し数の集計
  * - ログ出力機能
  *
  * @see https://docs.anthropic.com/claude/reference/messages - Claude API Messages Reference
@@ -31,6 +32,12 @@ export interface TokenUsageRecord {
   model: string;
   /** 操作名(ニュース要約、用語生成など) */
   operation: string;
+  /**
+   * レスポンスキャッシュから返したかどうか
+   *
+   * trueの場合、トークン数はキャッシュ元の呼び出しのもので、課金されていません。
+   */
+  cacheHit?: boolean;
 }
 
 /**
@@ -48,6 +55,12 @@ export interface TokenUsageInput {
   model: string;
   /** 操作名(ニュース要約、用語生成など) */
   operation: string;
+  /**
+   * レスポンスキャッシュから返したかどうか
+   *
+   * trueの場合、トークン数はキャッシュ元の呼び出しのもので、課金されていません。
+   */
+  cacheHit?: boolean;
 }
 
 /**
@@ -76,9 +89,13 @@ export interface TokenUsageSummary {
   totalOutputTokens: number;
   /** 累積トークン数(入力+出力) */
   totalTokens: number;
-  /** 総リクエスト回数 */
+  /** 総リクエスト回数(キャッシュヒットを含む) */
   requestCount: number;
-  /** モデル別のトークン使用量 */
+  /** 課金対象のAPI呼び出し回数 */
+  billedRequestCount: number;
+  /** レスポンスキャッシュのヒット回数 */
+  cacheHitCount: number;
+  /** モデル別のトークン使用量(課金対象のAPI呼び出しのみ) */
   recordsByModel: Record<string, ModelUsageSummary>;
 }
 
@@ -108,6 +125,7 @@ export class TokenUsageTracker {
       outputTokens: input.outputTokens,
       model: input.model,
       operation: input.operation,
+      ...(input.cacheHit && { cacheHit: true }),
     };
 
     this.records.push(record);
@@ -126,6 +144,7 @@ export class TokenUsageTracker {
    * トークン使用量のサマリーを取得
    *
    * 累積トークン使用量とモデル別の集計を返します。
+   * トークン数はAPIを呼び出したもの(課金対象)のみ集計し、キャッシュヒットは件数のみ集計します。
    *
    * @returns トークン使用量のサマリー
    */
@@ -135,14 +154,24 @@ export class TokenUsageTracker {
       totalOutputTokens: 0,
       totalTokens: 0,
       requestCount: 0,
+      billedRequestCount: 0,
+      cacheHitCount: 0,
       recordsByModel: {},
     };
 
     for (const record of this.records) {
+      summary.requestCount += 1;
+
+      // キャッシュヒットは課金されないため件数のみ集計
+      if (record.cacheHit) {
+        summary.cacheHitCount += 1;
+        continue;
+      }
+
       // 全体の集計
       summary.totalInputTokens += record.inputTokens;
       summary.totalOutputTokens += record.outputTokens;
-      summary.requestCount += 1;
+      summary.billedRequestCount += 1;
 
       // モデル別の集計
       if (!summary.recordsByModel[record.model]) {
@@ -174,6 +203,9 @@ export class TokenUsageTracker {
 
     console.log('=== トークン使用量サマリー ===');
     console.log(`総リクエスト数: ${summary.requestCount}`);
+    console.log(
+      `API呼び出し数(課金対象): ${summary.billedRequestCount}, キャッシュヒット数: ${summary.cacheHitCount}`
+    );
     console.log(`入力トークン合計: ${summary.totalInputTokens}`);
     console.log(`出力トークン合計: ${summary.totalOutputTokens}`);
     console.log(`トークン合計: ${summary.totalTokens}`);
@@ -201,7 +233,7 @@ export class TokenUsageTracker {
    */
   logUsage(record: TokenUsageRecord): void {
     console.log(
-      `[トークン使用量] 操作=${record.operation}, モデル=${record.model}, 入力=${record.inputTokens}, 出力=${record.outputTokens}, 合計=${record.inputTokens + record.outputTokens}`
+      `[トークン使用量] 操作=${record.operation}, モデル=${record.model}, 入力=${record.inputTokens}, 出力=${record.outputTokens}, 合計=${record.inputTokens + record.outputTokens}${record.cacheHit ? ', キャッシュヒット' : ''}`
     );
   }
 
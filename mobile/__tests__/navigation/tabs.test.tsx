@@ -3,7 +3,7 @@
  * タブナビゲーションのテスト
  *
  * - Expo Routerのファイルベースルーティングが正しく設定されていること
- * - 「ニュース」「用語」の2タブが存在すること
+ * - 「ニュース」「用語」「保存済み」「検索」の4タブが存在すること
  * - 各タブが適切なアイコンとラベルを持つこと
  *
  * 注意: Expo Routerはファイルベースルーティングのため、
@@ -17,6 +17,7 @@ import { render } from '@testing-library/react-native';
 import NewsScreen from '../../app/(tabs)/index';
 import TermsScreen from '../../app/(tabs)/terms';
 import { ThemeProvider } from '../../src/theme';
+import { CacheManager, ARCHIVE_CACHE_RETAIN_DAYS } from '../../src/cache';
 
 /**
  * テスト用のラッパーコンポーネント
@@ -97,6 +98,18 @@ describe('RootLayoutコンポーネント', () => {
     // RootLayoutは内部でThemeProviderを持っているのでラッパー不要
     expect(() => render(<RootLayout />)).not.toThrow();
   });
+
+  it('起動時に保持期間を過ぎたアーカイブのキャッシュを削除すること', () => {
+    const clearOldCache = jest
+      .spyOn(CacheManager.prototype, 'clearOldCache')
+      .mockResolvedValue(undefined);
+    const RootLayout = require('../../app/_layout').default;
+
+    render(<RootLayout />);
+
+    expect(clearOldCache).toHaveBeenCalledWith(ARCHIVE_CACHE_RETAIN_DAYS);
+    clearOldCache.mockRestore();
+  });
 });
 
 describe('ファイルベースルーティング構造', () => {
@@ -105,9 +118,11 @@ describe('ファイルベースルーティング構造', () => {
     expect(() => require('../../app/(tabs)/_layout')).not.toThrow();
     expect(() => require('../../app/(tabs)/index')).not.toThrow();
     expect(() => require('../../app/(tabs)/terms')).not.toThrow();
+    expect(() => require('../../app/(tabs)/saved')).not.toThrow();
+    expect(() => require('../../app/(tabs)/search')).not.toThrow();
   });
 
-  it('タブ構成が「ニュース」と「用語」の2タブであること', () => {
+  it('タブ構成が「ニュース」「用語」「保存済み」「検索」の4タブであること', () => {
     const { Tabs } = require('expo-router');
     const TabLayout = require('../../app/(tabs)/_layout').default;
 
@@ -117,14 +132,16 @@ describe('ファイルベースルーティング構造', () => {
     // TabLayoutをレンダリング（ThemeProviderでラップ）
     render(<TabLayout />, { wrapper: TestWrapper });
 
-    // Tabs.Screenが2回呼ばれていること
+    // Tabs.Screenが4回呼ばれていること
     const calls = (Tabs.Screen as jest.Mock).mock.calls;
-    expect(calls.length).toBe(2);
+    expect(calls.length).toBe(4);
 
     // 呼び出しからタブ名を取得
     const tabNames = calls.map((call: [{ name: string }]) => call[0]?.name);
     expect(tabNames).toContain('index'); // ニュースタブ
     expect(tabNames).toContain('terms'); // 用語タブ
+    expect(tabNames).toContain('saved'); // 保存済みタブ
+    expect(tabNames).toContain('search'); // 検索タブ
   });
 });
 
@@ -164,6 +181,38 @@ describe('タブラベル設定', () => {
     expect(termsTabCall).toBeDefined();
     expect(termsTabCall[0]?.options?.title).toBe('用語');
   });
+
+  it('保存済みタブに「保存済み」ラベルが設定されていること', () => {
+    const { Tabs } = require('expo-router');
+    const TabLayout = require('../../app/(tabs)/_layout').default;
+
+    (Tabs.Screen as jest.Mock).mockClear();
+    render(<TabLayout />, { wrapper: TestWrapper });
+
+    const calls = (Tabs.Screen as jest.Mock).mock.calls;
+    const savedTabCall = calls.find(
+      (call: [{ name: string }]) => call[0]?.name === 'saved'
+    );
+
+    expect(savedTabCall).toBeDefined();
+    expect(savedTabCall[0]?.options?.title).toBe('保存済み');
+  });
+
+  it('検索タブに「検索」ラベルが設定されていること', () => {
+    const { Tabs } = require('expo-router');
+    const TabLayout = require('../../app/(tabs)/_layout').default;
+
+    (Tabs.Screen as jest.Mock).mockClear();
+    render(<TabLayout />, { wrapper: TestWrapper });
+
+    const calls = (Tabs.Screen as jest.Mock).mock.calls;
+    const searchTabCall = calls.find(
+      (call: [{ name: string }]) => call[0]?.name === 'search'
+    );
+
+    expect(searchTabCall).toBeDefined();
+    expect(searchTabCall[0]?.options?.title).toBe('検索');
+  });
 });
 
 describe('ダークモード対応', () => {
@@ -2,7 +2,7 @@
  * Expo アプリ設定ファイル
  *
  * 環境変数を読み込み、アプリの設定を動的に生成します。
- * .env.local から Supabase の接続情報を読み込みます。
+ * .env.local から Supabase の接続情報とバックエンドAPIのURLを読み込みます。
  *
  * @see https://docs.expo.dev/versions/latest/config/app/
  */
@@ -46,6 +46,8 @@ module.exports = {
     extra: {
       supabaseUrl: process.env.SUPABASE_URL,
       supabaseAnonKey: process.env.SUPABASE_PUBLISHABLE_KEY,
+      // 用語解説のオンデマンド生成などに使用するバックエンドAPIのURL
+      apiBaseUrl: process.env.API_BASE_URL,
     },
   },
 };
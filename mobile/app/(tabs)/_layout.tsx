@@ -3,7 +3,7 @@
  * Task 25.1: Expo Router初期読み込み最適化
  *
  * Expo Routerのファイルベースルーティングを使用して、
- * 「ニュース」と「用語」の2つのタブを提供するレイアウトコンポーネント。
+ * 「ニュース」「用語」「保存済み」「検索」の4つのタブを提供するレイアウトコンポーネント。
  *
  * ThemeProviderから提供される一元管理された色定義を使用して、
  * ダークモード・ライトモードに対応する。
@@ -20,12 +20,13 @@ import { Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../src/theme';
 import { TAB_LAZY_CONFIG } from '../../src/performance';
+import { useDueReviewCount } from '../../src/review';
 
 /**
  * タブアイコンを取得するヘルパー関数
  * Ioniconの名前を返し、フォーカス状態に応じてアイコンのスタイルを変更する
  *
- * @param routeName - ルート名（'news' または 'terms'）
+ * @param routeName - ルート名（'news'、'terms'、'saved' または 'search'）
  * @param focused - タブがフォーカス状態かどうか
  * @returns Ioniconsのアイコン名
  */
@@ -41,6 +42,12 @@ const getTabIcon = (
     case 'terms':
       // 用語タブ: 本のアイコン
       return focused ? 'book' : 'book-outline';
+    case 'saved':
+      // 保存済みタブ: ブックマークアイコン
+      return focused ? 'bookmark' : 'bookmark-outline';
+    case 'search':
+      // 検索タブ: 虫眼鏡アイコン
+      return focused ? 'search' : 'search-outline';
     default:
       return 'ellipse';
   }
@@ -50,12 +57,17 @@ const getTabIcon = (
  * タブナビゲーションレイアウトコンポーネント
  *
  * - ニュースタブ（index）: 日次ニュース要約を表示
- * - 用語タブ: 日次投資用語を表示
+ * - 用語タブ: 日次投資用語を表示（復習日を迎えた用語の数をバッジで表示）
+ * - 保存済みタブ: 保存した用語・ニュースを表示
+ * - 検索タブ: 過去の用語・ニュースを横断検索
  */
 export default function TabLayout() {
   // ThemeProviderから一元管理されたテーマ情報を取得
   const { colors } = useTheme();
 
+  // 用語タブのバッジに表示する復習日を迎えた用語の数
+  const dueReviewCount = useDueReviewCount();
+
   return (
     <Tabs
       screenOptions={{
@@ -110,6 +122,7 @@ export default function TabLayout() {
         options={{
           title: '用語',
           headerTitle: '今日の用語',
+          tabBarBadge: dueReviewCount > 0 ? dueReviewCount : undefined,
           tabBarIcon: ({ color, size, focused }) => (
             <Ionicons
               name={getTabIcon('terms', focused)}
@@ -119,6 +132,38 @@ export default function TabLayout() {
           ),
         }}
       />
+
+      {/* 保存済みタブ */}
+      <Tabs.Screen
+        name="saved"
+        options={{
+          title: '保存済み',
+          headerTitle: '保存した用語・ニュース',
+          tabBarIcon: ({ color, size, focused }) => (
+            <Ionicons
+              name={getTabIcon('saved', focused)}
+              size={size}
+              color={color}
+            />
+          ),
+        }}
+      />
+
+      {/* 検索タブ */}
+      <Tabs.Screen
+        name="search"
+        options={{
+          title: '検索',
+          headerTitle: '用語・ニュースを検索',
+          tabBarIcon: ({ color, size, focused }) => (
+            <Ionicons
+              name={getTabIcon('search', focused)}
+              size={size}
+              color={color}
+            />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
@@ -15,6 +15,8 @@
  * - 世界のニュース要約を表示
  * - 日本のニュース要約を表示
  * - 更新日時を表示
+ * - 表示中のニュースを日付単位で保存
+ * - 要約内の既知の用語をリンク表示し、タップで用語の解説を表示
  * - ローディング・エラー状態をハンドリング
  *
  * @see Requirements: 2.1, 2.2, 2.3, 6.5, 7.5
@@ -24,13 +26,18 @@
 import { StatusBar } from 'expo-status-bar';
 import { useTheme } from '../../src/theme';
 import { useNewsViewModel, NewsScreen } from '../../src/news';
+import { useBookmarksViewModel } from '../../src/bookmarks';
+import { useGlossaryViewModel, TermDetailSheet } from '../../src/glossary';
 
 /**
  * ニュースタブ画面のルートコンポーネント
  *
  * MVVMパターン:
  * - useNewsViewModel: ViewModelからニュース状態を取得
+ * - useBookmarksViewModel: ニュースの保存状態を取得
+ * - useGlossaryViewModel: 用語リンクと用語詳細の状態を取得
  * - NewsScreen: UIを担当するViewコンポーネント
+ * - TermDetailSheet: 用語リンクから開く用語の解説
  *
  * StatusBarはテーマに応じてスタイルを切り替えます。
  */
@@ -41,13 +48,22 @@ export default function NewsTab() {
   // ViewModelからニュース状態を取得
   const viewModelResult = useNewsViewModel();
 
+  // 保存ボタン用のブックマーク状態を取得
+  const bookmarks = useBookmarksViewModel();
+
+  // 要約の用語リンク用の用語集を取得
+  const glossary = useGlossaryViewModel();
+
   return (
     <>
       {/* ステータスバーのスタイルをテーマに合わせる */}
       <StatusBar style={isDark ? 'light' : 'dark'} />
 
       {/* ニュース画面 - ViewModelの結果を渡して表示 */}
-      <NewsScreen viewModelResult={viewModelResult} />
+      <NewsScreen viewModelResult={viewModelResult} bookmarks={bookmarks} glossary={glossary} />
+
+      {/* 用語の解説 - 要約の用語リンクをタップすると表示 */}
+      <TermDetailSheet viewModelResult={glossary} />
     </>
   );
 }
@@ -0,0 +1,43 @@
+/**
+ * 保存済みタブ画面
+ *
+ * ユーザーが保存した用語・ニュースを一覧表示する画面。
+ * Expo Routerのファイルベースルーティングで設定。
+ *
+ * MVVM パターンに従い、BookmarksViewModelから状態を取得し、
+ * SavedScreenコンポーネントに渡してUIをレンダリングします。
+ *
+ * @description
+ * - 保存した用語・ニュースを種類別に表示
+ * - 保存の解除
+ * - オフライン時の変更はオンライン復帰時に同期
+ */
+
+import { StatusBar } from 'expo-status-bar';
+import { useTheme } from '../../src/theme';
+import { useBookmarksViewModel, SavedScreen } from '../../src/bookmarks';
+
+/**
+ * 保存済みタブ画面のルートコンポーネント
+ *
+ * MVVMパターン:
+ * - useBookmarksViewModel: ViewModelからブックマーク状態を取得
+ * - SavedScreen: UIを担当するViewコンポーネント
+ */
+export default function SavedTab() {
+  // テーマ情報を取得（StatusBar用）
+  const { isDark } = useTheme();
+
+  // ViewModelからブックマーク状態を取得
+  const viewModelResult = useBookmarksViewModel();
+
+  return (
+    <>
+      {/* ステータスバーのスタイルをテーマに合わせる */}
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* 保存済み画面 - ViewModelの結果を渡して表示 */}
+      <SavedScreen viewModelResult={viewModelResult} />
+    </>
+  );
+}
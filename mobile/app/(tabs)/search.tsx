@@ -0,0 +1,43 @@
+/**
+ * 検索タブ画面
+ *
+ * 過去に配信された全ての用語・ニュースを横断検索する画面。
+ * Expo Routerのファイルベースルーティングで設定。
+ *
+ * MVVM パターンに従い、SearchViewModelから状態を取得し、
+ * SearchScreenコンポーネントに渡してUIをレンダリングします。
+ *
+ * @description
+ * - 用語名・説明、ニュースのタイトル・要約を関連度順に検索
+ * - 入力が止まってから検索を実行(デバウンス)
+ * - 検索語をハイライトした抜粋を表示
+ */
+
+import { StatusBar } from 'expo-status-bar';
+import { useTheme } from '../../src/theme';
+import { useSearchViewModel, SearchScreen } from '../../src/search';
+
+/**
+ * 検索タブ画面のルートコンポーネント
+ *
+ * MVVMパターン:
+ * - useSearchViewModel: ViewModelから検索状態を取得
+ * - SearchScreen: UIを担当するViewコンポーネント
+ */
+export default function SearchTab() {
+  // テーマ情報を取得（StatusBar用）
+  const { isDark } = useTheme();
+
+  // ViewModelから検索状態を取得
+  const viewModelResult = useSearchViewModel();
+
+  return (
+    <>
+      {/* ステータスバーのスタイルをテーマに合わせる */}
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* 検索画面 - ViewModelの結果を渡して表示 */}
+      <SearchScreen viewModelResult={viewModelResult} />
+    </>
+  );
+}
@@ -15,20 +15,28 @@
  * - 3つの投資用語を表示
  * - 各用語の解説（約500文字）を表示
  * - ローディング・エラー状態をハンドリング
+ * - 用語の保存(ブックマーク)
+ * - 表示した用語の復習(間隔反復学習)への導線
+ * - 今日の用語の4択クイズへの導線
  *
  * @see Requirements: 5.1, 5.2, 6.5, 7.5 (用語表示、ダークモード対応、エラーリトライ)
  * @see design.md - Architecture - Terms Feature
  */
 
 import { StatusBar } from 'expo-status-bar';
+import { useRouter } from 'expo-router';
 import { useTheme } from '../../src/theme';
 import { useTermsViewModel, TermsScreen } from '../../src/terms';
+import { useBookmarksViewModel } from '../../src/bookmarks';
+import { useDueReviewCount, useRegisterReviewTerms } from '../../src/review';
 
 /**
  * 用語タブ画面のルートコンポーネント
  *
  * MVVMパターン:
  * - useTermsViewModel: ViewModelから用語状態を取得
+ * - useBookmarksViewModel: 用語の保存状態を取得
+ * - useRegisterReviewTerms / useDueReviewCount: 表示した用語を復習対象に登録し、復習件数を取得
  * - TermsScreen: UIを担当するViewコンポーネント
  *
  * StatusBarはテーマに応じてスタイルを切り替えます。
@@ -40,13 +48,26 @@ export default function TermsTab() {
   // ViewModelから用語状態を取得
   const viewModelResult = useTermsViewModel();
 
+  // 保存ボタン用のブックマーク状態を取得
+  const bookmarks = useBookmarksViewModel();
+
+  // 表示した用語を復習対象に登録し、復習日を迎えた用語の数を取得
+  const router = useRouter();
+  useRegisterReviewTerms(viewModelResult.terms);
+  const dueReviewCount = useDueReviewCount();
+
   return (
     <>
       {/* ステータスバーのスタイルをテーマに合わせる */}
       <StatusBar style={isDark ? 'light' : 'dark'} />
 
       {/* 用語画面 - ViewModelの結果を渡して表示 */}
-      <TermsScreen viewModelResult={viewModelResult} />
+      <TermsScreen
+        viewModelResult={viewModelResult}
+        bookmarks={bookmarks}
+        review={{ dueCount: dueReviewCount, onStartReview: () => router.push('/review') }}
+        quiz={{ onStartQuiz: () => router.push('/quiz') }}
+      />
     </>
   );
 }
@@ -13,6 +13,8 @@ import { Stack } from 'expo-router';
 import Constants from 'expo-constants';
 import { ThemeProvider } from '../src/theme';
 import { initializeSupabaseClient } from '../src/supabase';
+import { setTermExplanationApiBaseUrl } from '../src/glossary';
+import { CacheManager, ARCHIVE_CACHE_RETAIN_DAYS } from '../src/cache';
 
 /**
  * ルートレイアウトコンポーネント
@@ -20,6 +22,7 @@ import { initializeSupabaseClient } from '../src/supabase';
  * - ThemeProviderでアプリ全体にテーマを提供
  * - Stackナビゲーションで全体を構成
  * - タブナビゲーション（(tabs)グループ）がメイン画面
+ * - 用語の復習画面（review）・用語クイズ画面（quiz）は用語タブから開く
  *
  * @see Requirements: 6.5 (ダークモード・ライトモード対応)
  */
@@ -46,6 +49,10 @@ export default function RootLayout() {
         });
 
         console.log('[App] Supabase initialized successfully');
+
+        // 用語解説のオンデマンド生成に使うバックエンドAPI(未設定の場合は生成しない)
+        setTermExplanationApiBaseUrl(Constants.expoConfig?.extra?.apiBaseUrl ?? null);
+
         setIsReady(true);
       } catch (error) {
         console.error('[App] Failed to initialize Supabase:', error);
@@ -57,6 +64,9 @@ export default function RootLayout() {
     }
 
     initializeApp();
+
+    // 保持期間を過ぎたアーカイブのキャッシュを削除(Supabaseの初期化を待たない・失敗しても起動は続ける)
+    new CacheManager().clearOldCache(ARCHIVE_CACHE_RETAIN_DAYS);
   }, []);
 
   // 初期化中はローディング表示
@@ -87,6 +97,22 @@ export default function RootLayout() {
             headerShown: false,
           }}
         />
+        {/* 用語の復習画面 - 用語タブから開く */}
+        <Stack.Screen
+          name="review"
+          options={{
+            title: '用語の復習',
+            headerBackTitle: '用語',
+          }}
+        />
+        {/* 用語クイズ画面 - 用語タブから開く */}
+        <Stack.Screen
+          name="quiz"
+          options={{
+            title: '用語クイズ',
+            headerBackTitle: '用語',
+          }}
+        />
       </Stack>
     </ThemeProvider>
   );
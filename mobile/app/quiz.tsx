@@ -0,0 +1,43 @@
+/**
+ * 用語クイズ画面
+ *
+ * 今日の用語の理解度を確認する4択クイズ画面。
+ * 用語タブの「今日の用語クイズに挑戦」ボタンから開きます。
+ *
+ * MVVM パターンに従い、QuizViewModelから状態を取得し、
+ * QuizScreenコンポーネントに渡してUIをレンダリングします。
+ *
+ * @description
+ * - 用語ごとに2〜3問の4択クイズを1問ずつ表示
+ * - 解答後に正誤と解説を表示
+ * - 採点は端末内で行い、全問解答後に得点を表示
+ */
+
+import { StatusBar } from 'expo-status-bar';
+import { useTheme } from '../src/theme';
+import { useQuizViewModel, QuizScreen } from '../src/quiz';
+
+/**
+ * クイズ画面のルートコンポーネント
+ *
+ * MVVMパターン:
+ * - useQuizViewModel: ViewModelからクイズセッションの状態を取得
+ * - QuizScreen: UIを担当するViewコンポーネント
+ */
+export default function QuizRoute() {
+  // テーマ情報を取得（StatusBar用）
+  const { isDark } = useTheme();
+
+  // ViewModelからクイズセッションの状態を取得
+  const viewModelResult = useQuizViewModel();
+
+  return (
+    <>
+      {/* ステータスバーのスタイルをテーマに合わせる */}
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* クイズ画面 - ViewModelの結果を渡して表示 */}
+      <QuizScreen viewModelResult={viewModelResult} />
+    </>
+  );
+}
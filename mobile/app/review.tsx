@@ -0,0 +1,43 @@
+/**
+ * 用語の復習画面
+ *
+ * 閲覧した用語を間隔反復学習(SRS)で復習するフラッシュカード画面。
+ * 用語タブの「復習する」ボタンから開きます。
+ *
+ * MVVM パターンに従い、ReviewViewModelから状態を取得し、
+ * ReviewScreenコンポーネントに渡してUIをレンダリングします。
+ *
+ * @description
+ * - 復習日を迎えた用語をフラッシュカードで表示
+ * - 「もう一度」「難しい」「正解」「簡単」の4段階で評価
+ * - 評価に応じて次回の復習日を更新
+ */
+
+import { StatusBar } from 'expo-status-bar';
+import { useTheme } from '../src/theme';
+import { useReviewViewModel, ReviewScreen } from '../src/review';
+
+/**
+ * 復習画面のルートコンポーネント
+ *
+ * MVVMパターン:
+ * - useReviewViewModel: ViewModelから復習セッションの状態を取得
+ * - ReviewScreen: UIを担当するViewコンポーネント
+ */
+export default function ReviewRoute() {
+  // テーマ情報を取得（StatusBar用）
+  const { isDark } = useTheme();
+
+  // ViewModelから復習セッションの状態を取得
+  const viewModelResult = useReviewViewModel();
+
+  return (
+    <>
+      {/* ステータスバーのスタイルをテーマに合わせる */}
+      <StatusBar style={isDark ? 'light' : 'dark'} />
+
+      {/* 復習画面 - ViewModelの結果を渡して表示 */}
+      <ReviewScreen viewModelResult={viewModelResult} />
+    </>
+  );
+}
@@ -14,6 +14,7 @@ module.exports = {
     'node_modules/(?!(' +
       '@react-native|' +
       'react-native|' +
+      'react-native-markdown-display|' +
       'expo|' +
       '@expo|' +
       'expo-router|' +
@@ -54,6 +54,13 @@ jest.mock('expo-status-bar', () => ({
   StatusBar: () => null,
 }));
 
+// Mock expo-constants
+// (ネイティブモジュールを読み込めないため、app.config.jsのextraが未設定の状態とする)
+jest.mock('expo-constants', () => ({
+  __esModule: true,
+  default: { expoConfig: { extra: {} } },
+}));
+
 // Mock @expo/vector-icons
 jest.mock('@expo/vector-icons', () => ({
   Ionicons: () => null,
@@ -0,0 +1,305 @@
+/**
+ * Bookmark Repository テスト
+ *
+ * Requirements:
+ * - ユーザーごとの用語・ニュースのブックマーク
+ * - 10: オフライン対応強化(オフライン時の書き込みを保留して後で同期)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  BookmarkRepository,
+  BookmarkRepositoryConfig,
+  BOOKMARKS_CACHE_KEY,
+  createNewsBookmark,
+  createTermBookmark,
+} from '../bookmark-repository';
+import { BookmarkWriteQueue } from '../bookmark-write-queue';
+import { Bookmark, TermItem } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { setNetworkState, resetNetworkState } from '../../utils/network';
+
+// モックデータ
+const mockTerm: TermItem = {
+  name: 'PER',
+  description: '株価収益率。株価が1株あたり純利益の何倍かを示す指標です。',
+  difficulty: 'beginner',
+};
+
+const mockNews = {
+  date: '2024-01-15',
+  worldNews: {
+    title: '世界ニュースのタイトル',
+    summary: '世界ニュースの要約',
+    updatedAt: '2024-01-15T08:00:00.000Z',
+  },
+  japanNews: {
+    title: '日本ニュースのタイトル',
+    summary: '日本ニュースの要約',
+    updatedAt: '2024-01-15T08:00:00.000Z',
+  },
+};
+
+const remoteBookmark: Bookmark = {
+  type: 'term',
+  key: 'ROE',
+  title: 'ROE',
+  description: '自己資本利益率',
+  difficulty: 'intermediate',
+  createdAt: '2024-01-10T00:00:00.000Z',
+};
+
+const connectionError = new SupabaseError('CONNECTION_FAILED', '接続エラー', undefined, true);
+const permissionError = new SupabaseError('PERMISSION_DENIED', '権限エラー', undefined, false);
+
+/**
+ * モック関数を注入したリポジトリを作成する
+ */
+const createRepository = (overrides: BookmarkRepositoryConfig = {}) => {
+  const config = {
+    sessionProvider: jest.fn().mockResolvedValue('user-1'),
+    fetcher: jest.fn().mockResolvedValue([remoteBookmark]),
+    inserter: jest.fn().mockResolvedValue(undefined),
+    deleter: jest.fn().mockResolvedValue(undefined),
+    writeQueue: new BookmarkWriteQueue('test_bookmarks_pending_writes'),
+    ...overrides,
+  };
+  return { repository: new BookmarkRepository(config), config };
+};
+
+describe('BookmarkRepository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetNetworkState();
+    jest.restoreAllMocks();
+  });
+
+  describe('createTermBookmark / createNewsBookmark', () => {
+    it('用語名をキーとして用語のブックマークを作成する', () => {
+      const bookmark = createTermBookmark(mockTerm, new Date('2024-01-15T00:00:00.000Z'));
+
+      expect(bookmark).toEqual({
+        type: 'term',
+        key: 'PER',
+        title: 'PER',
+        description: mockTerm.description,
+        difficulty: 'beginner',
+        createdAt: '2024-01-15T00:00:00.000Z',
+      });
+    });
+
+    it('日付をキーとしてニュースのブックマークを作成する', () => {
+      const bookmark = createNewsBookmark(mockNews, new Date('2024-01-15T00:00:00.000Z'));
+
+      expect(bookmark.type).toBe('news');
+      expect(bookmark.key).toBe('2024-01-15');
+      expect(bookmark.title).toBe('世界ニュースのタイトル');
+      expect(bookmark.description).toBe('日本ニュースのタイトル');
+      expect(bookmark.difficulty).toBeNull();
+    });
+  });
+
+  describe('listBookmarks', () => {
+    it('Supabaseから取得した一覧を返し、端末に保存する', async () => {
+      const { repository, config } = createRepository();
+
+      const result = await repository.listBookmarks();
+
+      expect(result).toEqual({ success: true, data: [remoteBookmark], source: 'supabase' });
+      expect(config.fetcher).toHaveBeenCalledWith('user-1');
+      expect(await repository.getCachedBookmarks()).toEqual([remoteBookmark]);
+    });
+
+    it('オフラインの場合は端末に保存した一覧を返す', async () => {
+      const { repository, config } = createRepository();
+      await AsyncStorage.setItem(BOOKMARKS_CACHE_KEY, JSON.stringify([remoteBookmark]));
+      setNetworkState(false);
+
+      const result = await repository.listBookmarks();
+
+      expect(result).toEqual({ success: true, data: [remoteBookmark], source: 'cache' });
+      expect(config.fetcher).not.toHaveBeenCalled();
+    });
+
+    it('通信エラーの場合は端末に保存した一覧を返す', async () => {
+      const { repository } = createRepository({
+        fetcher: jest.fn().mockRejectedValue(connectionError),
+      });
+      await AsyncStorage.setItem(BOOKMARKS_CACHE_KEY, JSON.stringify([remoteBookmark]));
+
+      const result = await repository.listBookmarks();
+
+      expect(result.success).toBe(true);
+      expect(result.source).toBe('cache');
+      expect(result.data).toEqual([remoteBookmark]);
+    });
+
+    it('再試行しても成功しないエラーの場合はエラーを返す', async () => {
+      const { repository } = createRepository({
+        fetcher: jest.fn().mockRejectedValue(permissionError),
+      });
+
+      const result = await repository.listBookmarks();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toEqual({
+        code: 'PERMISSION_DENIED',
+        message: '権限エラー',
+        retryable: false,
+      });
+    });
+
+    it('取得前に保留中の書き込みを再送する', async () => {
+      const { repository, config } = createRepository();
+      setNetworkState(false);
+      await repository.addTermBookmark(mockTerm);
+      setNetworkState(true);
+
+      await repository.listBookmarks();
+
+      expect(config.inserter).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'term', key: 'PER' }),
+        'user-1'
+      );
+      expect(await repository.getPendingWriteCount()).toBe(0);
+    });
+  });
+
+  describe('addBookmark / removeBookmark', () => {
+    it('オンラインの場合はSupabaseに送信し、一覧に反映する', async () => {
+      const { repository, config } = createRepository();
+
+      const result = await repository.addTermBookmark(mockTerm);
+
+      expect(result).toEqual({ success: true, queued: false });
+      expect(config.inserter).toHaveBeenCalledTimes(1);
+      expect((await repository.getCachedBookmarks()).map((b) => b.key)).toEqual(['PER']);
+    });
+
+    it('ニュースを日付単位で追加・削除できる', async () => {
+      const { repository, config } = createRepository();
+
+      await repository.addNewsBookmark(mockNews);
+      expect((await repository.getCachedBookmarks())[0].key).toBe('2024-01-15');
+
+      const result = await repository.removeBookmark('news', '2024-01-15');
+
+      expect(result).toEqual({ success: true, queued: false });
+      expect(config.deleter).toHaveBeenCalledWith('user-1', 'news', '2024-01-15');
+      expect(await repository.getCachedBookmarks()).toEqual([]);
+    });
+
+    it('オフラインの場合は書き込みを保留し、一覧には即時反映する', async () => {
+      const { repository, config } = createRepository();
+      setNetworkState(false);
+
+      const result = await repository.addTermBookmark(mockTerm);
+
+      expect(result).toEqual({ success: true, queued: true });
+      expect(config.inserter).not.toHaveBeenCalled();
+      expect(await repository.getPendingWriteCount()).toBe(1);
+      expect((await repository.getCachedBookmarks()).map((b) => b.key)).toEqual(['PER']);
+    });
+
+    it('オフラインで追加→削除した場合は削除のみを保留する', async () => {
+      const { repository } = createRepository();
+      setNetworkState(false);
+
+      await repository.addTermBookmark(mockTerm);
+      await repository.removeBookmark('term', 'PER');
+
+      expect(await repository.getPendingWriteCount()).toBe(1);
+      expect(await repository.getCachedBookmarks()).toEqual([]);
+    });
+
+    it('通信エラーの場合は書き込みを保留する', async () => {
+      const { repository } = createRepository({
+        inserter: jest.fn().mockRejectedValue(connectionError),
+      });
+
+      const result = await repository.addTermBookmark(mockTerm);
+
+      expect(result).toEqual({ success: true, queued: true });
+      expect(await repository.getPendingWriteCount()).toBe(1);
+    });
+
+    it('再試行しても成功しないエラーの場合は一覧を元に戻してエラーを返す', async () => {
+      const { repository } = createRepository({
+        inserter: jest.fn().mockRejectedValue(permissionError),
+      });
+
+      const result = await repository.addTermBookmark(mockTerm);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PERMISSION_DENIED');
+      expect(await repository.getCachedBookmarks()).toEqual([]);
+      expect(await repository.getPendingWriteCount()).toBe(0);
+    });
+
+    it('変更をリスナーに通知する', async () => {
+      const { repository } = createRepository();
+      const listener = jest.fn();
+      const unsubscribe = repository.subscribe(listener);
+
+      await repository.addTermBookmark(mockTerm);
+      unsubscribe();
+      await repository.removeBookmark('term', 'PER');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener.mock.calls[0][0].map((b: Bookmark) => b.key)).toEqual(['PER']);
+    });
+  });
+
+  describe('flushPendingWrites', () => {
+    it('保留中の書き込みを古い順に再送する', async () => {
+      const { repository, config } = createRepository();
+      setNetworkState(false);
+      await repository.addTermBookmark(mockTerm);
+      await repository.removeBookmark('news', '2024-01-15');
+      setNetworkState(true);
+
+      const remaining = await repository.flushPendingWrites();
+
+      expect(remaining).toBe(0);
+      expect(config.inserter).toHaveBeenCalledTimes(1);
+      expect(config.deleter).toHaveBeenCalledWith('user-1', 'news', '2024-01-15');
+    });
+
+    it('通信エラーが発生した時点で中断し、残りを保留したままにする', async () => {
+      const { repository, config } = createRepository({
+        inserter: jest.fn().mockRejectedValue(connectionError),
+      });
+      setNetworkState(false);
+      await repository.addTermBookmark(mockTerm);
+      await repository.removeBookmark('news', '2024-01-15');
+      setNetworkState(true);
+
+      const remaining = await repository.flushPendingWrites();
+
+      expect(remaining).toBe(2);
+      expect(config.deleter).not.toHaveBeenCalled();
+    });
+
+    it('再送しても成功しない書き込みは破棄する', async () => {
+      const { repository, config } = createRepository({
+        inserter: jest.fn().mockRejectedValue(permissionError),
+      });
+      setNetworkState(false);
+      await repository.addTermBookmark(mockTerm);
+      await repository.removeBookmark('news', '2024-01-15');
+      setNetworkState(true);
+
+      const remaining = await repository.flushPendingWrites();
+
+      expect(remaining).toBe(0);
+      expect(config.deleter).toHaveBeenCalledTimes(1);
+    });
+  });
+});
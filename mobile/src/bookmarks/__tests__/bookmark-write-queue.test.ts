@@ -0,0 +1,83 @@
+/**
+ * Bookmark Write Queue テスト
+ *
+ * Requirements:
+ * - 10: オフライン対応強化(オフライン時の書き込みを保留して後で同期)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BookmarkWriteQueue, BookmarkWriteOperation } from '../bookmark-write-queue';
+import { Bookmark } from '../../supabase/types';
+
+const TEST_KEY = 'test_bookmarks_pending_writes';
+
+const termBookmark: Bookmark = {
+  type: 'term',
+  key: 'PER',
+  title: 'PER',
+  description: '株価収益率',
+  difficulty: 'beginner',
+  createdAt: '2024-01-15T00:00:00.000Z',
+};
+
+const addOperation: BookmarkWriteOperation = {
+  action: 'add',
+  bookmark: termBookmark,
+  queuedAt: 1,
+};
+
+describe('BookmarkWriteQueue', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+  });
+
+  it('追加した操作を古い順に取得できる', async () => {
+    const queue = new BookmarkWriteQueue(TEST_KEY);
+    const removeNews: BookmarkWriteOperation = {
+      action: 'remove',
+      type: 'news',
+      key: '2024-01-15',
+      queuedAt: 2,
+    };
+
+    await queue.enqueue(addOperation);
+    await queue.enqueue(removeNews);
+
+    expect(await queue.getAll()).toEqual([addOperation, removeNews]);
+    expect(await queue.size()).toBe(2);
+  });
+
+  it('同じ対象への操作は最後の操作で置き換える', async () => {
+    const queue = new BookmarkWriteQueue(TEST_KEY);
+    const removeTerm: BookmarkWriteOperation = {
+      action: 'remove',
+      type: 'term',
+      key: 'PER',
+      queuedAt: 2,
+    };
+
+    await queue.enqueue(addOperation);
+    await queue.enqueue(removeTerm);
+
+    expect(await queue.getAll()).toEqual([removeTerm]);
+  });
+
+  it('保存データが壊れている場合は空のキューとして扱う', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await AsyncStorage.setItem(TEST_KEY, '{invalid json');
+    const queue = new BookmarkWriteQueue(TEST_KEY);
+
+    expect(await queue.getAll()).toEqual([]);
+    jest.restoreAllMocks();
+  });
+
+  it('空の配列で置き換えると保存データを削除する', async () => {
+    const queue = new BookmarkWriteQueue(TEST_KEY);
+    await queue.enqueue(addOperation);
+
+    await queue.replaceAll([]);
+
+    expect(await AsyncStorage.getItem(TEST_KEY)).toBeNull();
+    expect(await queue.size()).toBe(0);
+  });
+});
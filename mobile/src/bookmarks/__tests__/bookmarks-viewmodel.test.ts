@@ -0,0 +1,98 @@
+/**
+ * Bookmarks ViewModel テスト
+ *
+ * Requirements:
+ * - ユーザーごとの用語・ニュースのブックマーク
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useBookmarksViewModel } from '../bookmarks-viewmodel';
+import { BookmarkRepository } from '../bookmark-repository';
+import { BookmarkWriteQueue } from '../bookmark-write-queue';
+import { Bookmark, TermItem } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { resetNetworkState } from '../../utils/network';
+
+const mockTerm: TermItem = {
+  name: 'PER',
+  description: '株価収益率',
+  difficulty: 'beginner',
+};
+
+const newsBookmark: Bookmark = {
+  type: 'news',
+  key: '2024-01-15',
+  title: '世界ニュースのタイトル',
+  description: '日本ニュースのタイトル',
+  difficulty: null,
+  createdAt: '2024-01-15T00:00:00.000Z',
+};
+
+/**
+ * モック関数を注入したリポジトリを作成する
+ * (renderHookのコールバック内で作成すると再レンダリングのたびに別インスタンスになるため外で作成する)
+ */
+function createRepository(fetcher = jest.fn().mockResolvedValue([newsBookmark])) {
+  return new BookmarkRepository({
+    sessionProvider: jest.fn().mockResolvedValue('user-1'),
+    fetcher,
+    inserter: jest.fn().mockResolvedValue(undefined),
+    deleter: jest.fn().mockResolvedValue(undefined),
+    writeQueue: new BookmarkWriteQueue('test_bookmarks_pending_writes'),
+  });
+}
+
+describe('useBookmarksViewModel', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+  });
+
+  it('マウント時にブックマーク一覧を取得し、種類ごとに分けて提供する', async () => {
+    const repository = createRepository();
+    const { result } = renderHook(() => useBookmarksViewModel(repository));
+
+    expect(result.current.loading).toBe(true);
+
+    await waitFor(() => expect(result.current.state).toBe('success'));
+
+    expect(result.current.bookmarks).toEqual([newsBookmark]);
+    expect(result.current.newsBookmarks).toEqual([newsBookmark]);
+    expect(result.current.termBookmarks).toEqual([]);
+    expect(result.current.isBookmarked('news', '2024-01-15')).toBe(true);
+  });
+
+  it('用語の保存・保存解除を切り替えられる', async () => {
+    const repository = createRepository(jest.fn().mockResolvedValue([]));
+    const { result } = renderHook(() => useBookmarksViewModel(repository));
+    await waitFor(() => expect(result.current.state).toBe('success'));
+
+    await act(async () => {
+      await result.current.toggleTermBookmark(mockTerm);
+    });
+    expect(result.current.isBookmarked('term', 'PER')).toBe(true);
+    expect(result.current.termBookmarks).toHaveLength(1);
+
+    await act(async () => {
+      await result.current.toggleTermBookmark(mockTerm);
+    });
+    expect(result.current.isBookmarked('term', 'PER')).toBe(false);
+  });
+
+  it('一覧の取得に失敗した場合はエラー状態になる', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const repository = createRepository(
+      jest
+        .fn()
+        .mockRejectedValue(new SupabaseError('PERMISSION_DENIED', '権限エラー', undefined, false))
+    );
+    const { result } = renderHook(() => useBookmarksViewModel(repository));
+
+    await waitFor(() => expect(result.current.state).toBe('error'));
+
+    expect(result.current.error?.code).toBe('PERMISSION_DENIED');
+    jest.restoreAllMocks();
+  });
+});
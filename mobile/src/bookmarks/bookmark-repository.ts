@@ -0,0 +1,514 @@
+/**
+ * Bookmark Repository
+ *
+ * ユーザーごとの用語・ニュースのブックマークを管理するリポジトリ。
+ * MVVM + Repositoryパターンに従い、データアクセスを抽象化します。
+ *
+ * - 一覧はSupabaseから取得し、端末にも保存してオフライン時に表示する
+ * - 追加・削除は端末の一覧に即時反映し、Supabaseへ送信する
+ * - オフライン時・通信エラー時の書き込みはキューに保留し、オンライン復帰後に再送する
+ *
+ * Requirements:
+ * - ユーザーごとの用語・ニュースのブックマーク
+ * - 10: オフライン対応強化
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Bookmark, BookmarkType, NewsData, TermItem } from '../supabase/types';
+import {
+  getBookmarks,
+  insertBookmark,
+  deleteBookmark,
+  bookmarkRowToBookmark,
+  bookmarkToInsertRow,
+} from '../supabase/queries';
+import { ensureSupabaseSession } from '../supabase/client';
+import {
+  SupabaseError,
+  SupabaseErrorCode,
+  toSupabaseError,
+} from '../supabase/errors';
+import { isOffline } from '../utils/network';
+import {
+  BookmarkWriteQueue,
+  BookmarkWriteOperation,
+  getOperationTarget,
+} from './bookmark-write-queue';
+
+/**
+ * 端末に保存するブックマーク一覧のAsyncStorageキー
+ */
+export const BOOKMARKS_CACHE_KEY = 'bookmarks_cache';
+
+/**
+ * データの取得元を示す型
+ * - 'cache': 端末に保存した一覧から取得
+ * - 'supabase': Supabaseから取得
+ */
+export type BookmarkSource = 'cache' | 'supabase';
+
+/**
+ * ブックマーク操作エラー情報
+ * ViewModelでエラー表示に使用
+ */
+export interface BookmarkError {
+  /** エラーコード */
+  code: SupabaseErrorCode;
+  /** ユーザー向けエラーメッセージ(日本語) */
+  message: string;
+  /** リトライ可能かどうか */
+  retryable: boolean;
+}
+
+/**
+ * ブックマーク一覧の取得結果
+ */
+export interface BookmarkListResult {
+  /** 取得成功かどうか */
+  success: boolean;
+  /** ブックマーク一覧(保存日時の新しい順、失敗時は空配列) */
+  data: Bookmark[];
+  /** データの取得元 */
+  source: BookmarkSource;
+  /** エラー情報(失敗時のみ) */
+  error?: BookmarkError;
+}
+
+/**
+ * ブックマークの追加・削除結果
+ */
+export interface BookmarkWriteResult {
+  /** 操作が受け付けられたかどうか(保留された場合もtrue) */
+  success: boolean;
+  /** オフライン等でキューに保留されたかどうか */
+  queued: boolean;
+  /** エラー情報(失敗時のみ) */
+  error?: BookmarkError;
+}
+
+/**
+ * ブックマーク一覧の変更を通知するリスナー
+ */
+export type BookmarkListener = (bookmarks: Bookmark[]) => void;
+
+/**
+ * 認証セッションを確保してユーザーIDを返す関数の型
+ */
+export type SessionProvider = () => Promise<string>;
+
+/**
+ * Supabaseからブックマーク一覧を取得する関数の型
+ */
+export type BookmarkFetcher = (userId: string) => Promise<Bookmark[]>;
+
+/**
+ * Supabaseにブックマークを追加する関数の型
+ */
+export type BookmarkInserter = (bookmark: Bookmark, userId: string) => Promise<void>;
+
+/**
+ * Supabaseからブックマークを削除する関数の型
+ */
+export type BookmarkDeleter = (
+  userId: string,
+  type: BookmarkType,
+  key: string
+) => Promise<void>;
+
+/**
+ * Bookmark Repository設定
+ * 依存性注入(DI)によりテスタビリティを向上
+ */
+export interface BookmarkRepositoryConfig {
+  /** 認証セッションを確保する関数 */
+  sessionProvider?: SessionProvider;
+  /** Supabaseからブックマーク一覧を取得する関数 */
+  fetcher?: BookmarkFetcher;
+  /** Supabaseにブックマークを追加する関数 */
+  inserter?: BookmarkInserter;
+  /** Supabaseからブックマークを削除する関数 */
+  deleter?: BookmarkDeleter;
+  /** オフライン時の書き込みを保留するキュー */
+  writeQueue?: BookmarkWriteQueue;
+}
+
+/**
+ * 用語のブックマークを作成する
+ *
+ * @param term - 用語
+ * @param createdAt - 保存日時(省略時は現在時刻)
+ * @returns ブックマーク
+ */
+export function createTermBookmark(term: TermItem, createdAt: Date = new Date()): Bookmark {
+  return {
+    type: 'term',
+    key: term.name,
+    title: term.name,
+    description: term.description,
+    difficulty: term.difficulty,
+    createdAt: createdAt.toISOString(),
+  };
+}
+
+/**
+ * ニュースのブックマークを作成する
+ *
+ * ニュースは日付単位で保存し、一覧表示用に世界・日本のニュースのタイトルを保持する
+ *
+ * @param news - ニュース(日付と世界・日本のニュース)
+ * @param createdAt - 保存日時(省略時は現在時刻)
+ * @returns ブックマーク
+ */
+export function createNewsBookmark(
+  news: Pick<NewsData, 'date' | 'worldNews' | 'japanNews'>,
+  createdAt: Date = new Date()
+): Bookmark {
+  return {
+    type: 'news',
+    key: news.date,
+    title: news.worldNews.title,
+    description: news.japanNews.title,
+    difficulty: null,
+    createdAt: createdAt.toISOString(),
+  };
+}
+
+/**
+ * 書き込み操作をブックマーク一覧に適用する
+ *
+ * @param bookmarks - 適用前の一覧
+ * @param operation - 書き込み操作
+ * @returns 適用後の一覧(保存日時の新しい順)
+ */
+function applyOperation(
+  bookmarks: Bookmark[],
+  operation: BookmarkWriteOperation
+): Bookmark[] {
+  const target = getOperationTarget(operation);
+  const others = bookmarks.filter(
+    (bookmark) => bookmark.type !== target.type || bookmark.key !== target.key
+  );
+
+  if (operation.action === 'remove') {
+    return others;
+  }
+  return [operation.bookmark, ...others].sort((a, b) =>
+    b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * SupabaseErrorをBookmarkErrorに変換する
+ */
+function toBookmarkError(error: unknown): BookmarkError {
+  const supabaseError = error instanceof SupabaseError ? error : toSupabaseError(error);
+  return {
+    code: supabaseError.code,
+    message: supabaseError.message,
+    retryable: supabaseError.retryable,
+  };
+}
+
+/**
+ * Bookmark Repository クラス
+ *
+ * 端末に保存した一覧を常に最新の状態(保留中の書き込みを反映済み)に保ち、
+ * 変更があるたびにリスナーへ通知します。
+ * 複数の画面(用語・ニュース・保存済みタブ)で同じインスタンスを共有することで、
+ * 各画面のブックマーク状態を同期します。
+ *
+ * @example
+ * ```typescript
+ * const repository = getDefaultBookmarkRepository();
+ * await repository.addTermBookmark(term);
+ * const result = await repository.listBookmarks();
+ * ```
+ */
+export class BookmarkRepository {
+  private sessionProvider: SessionProvider;
+  private fetcher: BookmarkFetcher;
+  private inserter: BookmarkInserter;
+  private deleter: BookmarkDeleter;
+  private writeQueue: BookmarkWriteQueue;
+  private listeners: Set<BookmarkListener> = new Set();
+  /** 再送処理の多重実行を防止するためのPromise */
+  private flushing: Promise<number> | null = null;
+
+  /**
+   * BookmarkRepositoryのコンストラクタ
+   * @param config - 設定(テスト用にモック関数を注入可能)
+   */
+  constructor(config?: BookmarkRepositoryConfig) {
+    this.sessionProvider = config?.sessionProvider || ensureSupabaseSession;
+    this.fetcher =
+      config?.fetcher ||
+      (async (userId) => (await getBookmarks(userId)).map(bookmarkRowToBookmark));
+    this.inserter =
+      config?.inserter ||
+      ((bookmark, userId) => insertBookmark(bookmarkToInsertRow(bookmark, userId)));
+    this.deleter = config?.deleter || deleteBookmark;
+    this.writeQueue = config?.writeQueue || new BookmarkWriteQueue();
+  }
+
+  /**
+   * ブックマーク一覧の変更を購読する
+   *
+   * @param listener - 変更時に呼ばれるコールバック
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: BookmarkListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 端末に保存したブックマーク一覧を取得する
+   *
+   * @returns ブックマーク一覧(保存日時の新しい順)
+   */
+  async getCachedBookmarks(): Promise<Bookmark[]> {
+    try {
+      const value = await AsyncStorage.getItem(BOOKMARKS_CACHE_KEY);
+      return value ? (JSON.parse(value) as Bookmark[]) : [];
+    } catch (error) {
+      console.error('[BookmarkRepository] Failed to read cached bookmarks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * ブックマーク一覧を取得する
+   *
+   * 1. オフラインの場合は端末に保存した一覧を返す
+   * 2. 保留中の書き込みを再送する
+   * 3. Supabaseから一覧を取得し、再送できなかった書き込みを反映して端末に保存する
+   * 4. 取得に失敗した場合は端末に保存した一覧を返す
+   *
+   * @returns ブックマーク一覧の取得結果
+   */
+  async listBookmarks(): Promise<BookmarkListResult> {
+    if (isOffline()) {
+      console.log('[BookmarkRepository] Offline mode detected, returning cached bookmarks');
+      return { success: true, data: await this.getCachedBookmarks(), source: 'cache' };
+    }
+
+    try {
+      await this.flushPendingWrites();
+
+      const userId = await this.sessionProvider();
+      const remote = await this.fetcher(userId);
+      const pending = await this.writeQueue.getAll();
+      const bookmarks = pending.reduce(applyOperation, remote);
+
+      await this.saveCachedBookmarks(bookmarks);
+      return { success: true, data: bookmarks, source: 'supabase' };
+    } catch (error) {
+      const bookmarkError = toBookmarkError(error);
+      console.error('[BookmarkRepository] Failed to fetch bookmarks:', bookmarkError);
+
+      // 通信エラーの場合は端末に保存した一覧で表示を継続する
+      if (bookmarkError.retryable) {
+        return { success: true, data: await this.getCachedBookmarks(), source: 'cache' };
+      }
+      return { success: false, data: [], source: 'supabase', error: bookmarkError };
+    }
+  }
+
+  /**
+   * 用語をブックマークに追加する
+   *
+   * @param term - 用語
+   * @returns 追加結果
+   */
+  async addTermBookmark(term: TermItem): Promise<BookmarkWriteResult> {
+    return this.addBookmark(createTermBookmark(term));
+  }
+
+  /**
+   * ニュース(日付単位)をブックマークに追加する
+   *
+   * @param news - ニュース(日付と世界・日本のニュース)
+   * @returns 追加結果
+   */
+  async addNewsBookmark(
+    news: Pick<NewsData, 'date' | 'worldNews' | 'japanNews'>
+  ): Promise<BookmarkWriteResult> {
+    return this.addBookmark(createNewsBookmark(news));
+  }
+
+  /**
+   * ブックマークを追加する
+   *
+   * @param bookmark - 追加するブックマーク
+   * @returns 追加結果
+   */
+  async addBookmark(bookmark: Bookmark): Promise<BookmarkWriteResult> {
+    return this.write({ action: 'add', bookmark, queuedAt: Date.now() });
+  }
+
+  /**
+   * ブックマークを削除する
+   *
+   * @param type - ブックマークの種類
+   * @param key - 対象を識別するキー(用語名 / YYYY-MM-DD形式の日付)
+   * @returns 削除結果
+   */
+  async removeBookmark(type: BookmarkType, key: string): Promise<BookmarkWriteResult> {
+    return this.write({ action: 'remove', type, key, queuedAt: Date.now() });
+  }
+
+  /**
+   * 保留中の書き込み操作数を取得する
+   *
+   * @returns 保留中の操作数
+   */
+  async getPendingWriteCount(): Promise<number> {
+    return this.writeQueue.size();
+  }
+
+  /**
+   * 保留中の書き込みを古い順に再送する
+   *
+   * 通信エラーが発生した時点で中断し、残りの操作は保留したままにする。
+   * 権限エラーなど再送しても成功しない操作は破棄する。
+   * 実行中に呼ばれた場合は実行中の処理の完了を待つ。
+   *
+   * @returns 再送後も保留中の操作数
+   */
+  async flushPendingWrites(): Promise<number> {
+    if (!this.flushing) {
+      this.flushing = this.doFlushPendingWrites().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  /**
+   * 保留中の書き込みを再送する(flushPendingWritesの実処理)
+   */
+  private async doFlushPendingWrites(): Promise<number> {
+    const operations = await this.writeQueue.getAll();
+    if (operations.length === 0 || isOffline()) {
+      return operations.length;
+    }
+
+    const userId = await this.sessionProvider();
+    let index = 0;
+
+    for (; index < operations.length; index++) {
+      try {
+        await this.send(operations[index], userId);
+      } catch (error) {
+        const bookmarkError = toBookmarkError(error);
+        if (bookmarkError.retryable) {
+          break;
+        }
+        console.error(
+          '[BookmarkRepository] Dropping pending write that cannot succeed:',
+          bookmarkError
+        );
+      }
+    }
+
+    const remaining = operations.slice(index);
+    await this.writeQueue.replaceAll(remaining);
+    if (index > 0) {
+      console.log(`[BookmarkRepository] Flushed ${index} pending write(s)`);
+    }
+    return remaining.length;
+  }
+
+  /**
+   * 書き込み操作を実行する
+   *
+   * 端末の一覧に即時反映してから送信し、送信できない場合はキューに保留する。
+   * 再送しても成功しないエラーの場合は端末の一覧を元に戻す。
+   */
+  private async write(operation: BookmarkWriteOperation): Promise<BookmarkWriteResult> {
+    const previous = await this.getCachedBookmarks();
+    await this.saveCachedBookmarks(applyOperation(previous, operation));
+
+    if (isOffline()) {
+      await this.writeQueue.enqueue(operation);
+      return { success: true, queued: true };
+    }
+
+    try {
+      // 先に保留中の書き込みを再送し、操作の順序を保つ
+      const pendingCount = await this.flushPendingWrites();
+      if (pendingCount > 0) {
+        await this.writeQueue.enqueue(operation);
+        return { success: true, queued: true };
+      }
+
+      const userId = await this.sessionProvider();
+      await this.send(operation, userId);
+      return { success: true, queued: false };
+    } catch (error) {
+      const bookmarkError = toBookmarkError(error);
+
+      if (bookmarkError.retryable) {
+        console.warn('[BookmarkRepository] Write failed, queued for retry:', bookmarkError);
+        await this.writeQueue.enqueue(operation);
+        return { success: true, queued: true };
+      }
+
+      console.error('[BookmarkRepository] Write failed:', bookmarkError);
+      await this.saveCachedBookmarks(previous);
+      return { success: false, queued: false, error: bookmarkError };
+    }
+  }
+
+  /**
+   * 書き込み操作をSupabaseに送信する
+   */
+  private async send(operation: BookmarkWriteOperation, userId: string): Promise<void> {
+    if (operation.action === 'add') {
+      await this.inserter(operation.bookmark, userId);
+    } else {
+      await this.deleter(userId, operation.type, operation.key);
+    }
+  }
+
+  /**
+   * ブックマーク一覧を端末に保存し、リスナーに通知する
+   */
+  private async saveCachedBookmarks(bookmarks: Bookmark[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(BOOKMARKS_CACHE_KEY, JSON.stringify(bookmarks));
+    } catch (error) {
+      // 保存に失敗しても画面の状態は更新する
+      console.error('[BookmarkRepository] Failed to cache bookmarks:', error);
+    }
+    this.listeners.forEach((listener) => listener(bookmarks));
+  }
+}
+
+/**
+ * デフォルトのBookmarkRepository(シングルトン)
+ */
+let defaultRepository: BookmarkRepository | null = null;
+
+/**
+ * デフォルトのBookmarkRepositoryを取得する
+ *
+ * 画面間でブックマーク状態を同期するため、アプリ全体で同じインスタンスを共有します。
+ *
+ * @returns BookmarkRepository
+ */
+export function getDefaultBookmarkRepository(): BookmarkRepository {
+  if (!defaultRepository) {
+    defaultRepository = new BookmarkRepository();
+  }
+  return defaultRepository;
+}
+
+/**
+ * デフォルトのBookmarkRepositoryをリセットする(テスト用)
+ */
+export function resetDefaultBookmarkRepository(): void {
+  defaultRepository = null;
+}
@@ -0,0 +1,141 @@
+/**
+ * Bookmark Write Queue
+ *
+ * オフライン時に送信できなかったブックマークの追加・削除をAsyncStorageに保存し、
+ * オンライン復帰後に順番に再送するためのキュー。
+ *
+ * Requirements:
+ * - ユーザーごとの用語・ニュースのブックマーク
+ * - 10: オフライン対応強化(オフライン時の書き込みを保留して後で同期)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Bookmark, BookmarkType } from '../supabase/types';
+
+/**
+ * 保留中の書き込みを保存するAsyncStorageのキー
+ */
+export const BOOKMARK_WRITE_QUEUE_KEY = 'bookmarks_pending_writes';
+
+/**
+ * 保留中のブックマーク書き込み操作
+ * - add: ブックマークの追加
+ * - remove: ブックマークの削除
+ */
+export type BookmarkWriteOperation =
+  | {
+      action: 'add';
+      /** 追加するブックマーク */
+      bookmark: Bookmark;
+      /** キューに追加した時刻(Unixタイムスタンプ、ミリ秒) */
+      queuedAt: number;
+    }
+  | {
+      action: 'remove';
+      /** 削除するブックマークの種類 */
+      type: BookmarkType;
+      /** 削除するブックマークのキー */
+      key: string;
+      /** キューに追加した時刻(Unixタイムスタンプ、ミリ秒) */
+      queuedAt: number;
+    };
+
+/**
+ * 操作の対象(種類+キー)を取得する
+ *
+ * @param operation - 書き込み操作
+ * @returns 対象の種類とキー
+ */
+export function getOperationTarget(
+  operation: BookmarkWriteOperation
+): { type: BookmarkType; key: string } {
+  return operation.action === 'add'
+    ? { type: operation.bookmark.type, key: operation.bookmark.key }
+    : { type: operation.type, key: operation.key };
+}
+
+/**
+ * Bookmark Write Queue クラス
+ *
+ * 同じ対象への操作は最後の操作だけが意味を持つため、
+ * 追加時に同じ対象の保留中の操作を置き換えます。
+ * (例: オフラインで追加→削除した場合は削除のみを再送する)
+ */
+export class BookmarkWriteQueue {
+  private storageKey: string;
+
+  /**
+   * BookmarkWriteQueueのコンストラクタ
+   * @param storageKey - 保存先のAsyncStorageキー(テスト用に変更可能)
+   */
+  constructor(storageKey: string = BOOKMARK_WRITE_QUEUE_KEY) {
+    this.storageKey = storageKey;
+  }
+
+  /**
+   * 保留中の操作を古い順に取得する
+   *
+   * 保存データが壊れている場合は空のキューとして扱う
+   *
+   * @returns 保留中の操作
+   */
+  async getAll(): Promise<BookmarkWriteOperation[]> {
+    try {
+      const value = await AsyncStorage.getItem(this.storageKey);
+      if (!value) {
+        return [];
+      }
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? (parsed as BookmarkWriteOperation[]) : [];
+    } catch (error) {
+      console.error('[BookmarkWriteQueue] Failed to read queue:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 操作をキューに追加する
+   *
+   * @param operation - 追加する操作
+   */
+  async enqueue(operation: BookmarkWriteOperation): Promise<void> {
+    const target = getOperationTarget(operation);
+    const operations = (await this.getAll()).filter((queued) => {
+      const queuedTarget = getOperationTarget(queued);
+      return queuedTarget.type !== target.type || queuedTarget.key !== target.key;
+    });
+
+    await this.replaceAll([...operations, operation]);
+  }
+
+  /**
+   * キューの内容を置き換える
+   *
+   * 再送できた操作を取り除く際に使用します。
+   *
+   * @param operations - 保留中として残す操作
+   */
+  async replaceAll(operations: BookmarkWriteOperation[]): Promise<void> {
+    if (operations.length === 0) {
+      await AsyncStorage.removeItem(this.storageKey);
+      return;
+    }
+    await AsyncStorage.setItem(this.storageKey, JSON.stringify(operations));
+  }
+
+  /**
+   * 保留中の操作数を取得する
+   *
+   * @returns 保留中の操作数
+   */
+  async size(): Promise<number> {
+    return (await this.getAll()).length;
+  }
+
+  /**
+   * キューを空にする
+   */
+  async clear(): Promise<void> {
+    await AsyncStorage.removeItem(this.storageKey);
+  }
+}
@@ -0,0 +1,217 @@
+/**
+ * Bookmarks ViewModel
+ *
+ * MVVM パターンにおける ViewModel 層。
+ * BookmarkRepository からブックマーク一覧を取得し、View に状態を提供します。
+ * 用語・ニュース画面のブックマークボタンと「保存済み」タブで使用します。
+ *
+ * Requirements:
+ * - ユーザーごとの用語・ニュースのブックマーク
+ * - 7.5: エラー時リトライオプション提供
+ * - 10: オフライン対応強化(オンライン復帰時に保留中の書き込みを同期)
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Bookmark, BookmarkType, NewsData, TermItem } from '../supabase/types';
+import { addNetworkStateListener } from '../utils/network';
+import {
+  BookmarkRepository,
+  BookmarkError,
+  BookmarkWriteResult,
+  getDefaultBookmarkRepository,
+} from './bookmark-repository';
+
+/**
+ * ブックマーク一覧の取得状態を表す型
+ * - loading: データ取得中
+ * - success: データ取得成功
+ * - error: データ取得失敗
+ */
+export type BookmarksState = 'loading' | 'success' | 'error';
+
+/**
+ * useBookmarksViewModel の戻り値型
+ * View がブックマークを表示・操作するために必要な情報を提供
+ */
+export interface BookmarksViewModelResult {
+  /** 現在の状態 */
+  state: BookmarksState;
+  /** ローディング中かどうか(state === 'loading' のショートカット) */
+  loading: boolean;
+  /** 全てのブックマーク(保存日時の新しい順) */
+  bookmarks: Bookmark[];
+  /** 用語のブックマーク(保存日時の新しい順) */
+  termBookmarks: Bookmark[];
+  /** ニュースのブックマーク(保存日時の新しい順) */
+  newsBookmarks: Bookmark[];
+  /** エラー情報(一覧取得・追加・削除に失敗した場合) */
+  error: BookmarkError | null;
+  /** 同期待ちの書き込み操作数(オフライン時に保存・削除した件数) */
+  pendingWriteCount: number;
+  /** 一覧を再取得する関数 */
+  refresh: () => Promise<void>;
+  /** 指定した対象が保存済みかどうかを判定する関数 */
+  isBookmarked: (type: BookmarkType, key: string) => boolean;
+  /** 用語の保存・保存解除を切り替える関数 */
+  toggleTermBookmark: (term: TermItem) => Promise<void>;
+  /** ニュース(日付単位)の保存・保存解除を切り替える関数 */
+  toggleNewsBookmark: (
+    news: Pick<NewsData, 'date' | 'worldNews' | 'japanNews'>
+  ) => Promise<void>;
+  /** ブックマークを削除する関数 */
+  removeBookmark: (type: BookmarkType, key: string) => Promise<void>;
+}
+
+/**
+ * Bookmarks ViewModel カスタムフック
+ *
+ * 依存性注入(DI)により、BookmarkRepositoryをパラメータで受け取ります。
+ * 省略時はアプリ全体で共有するリポジトリを使用し、画面間でブックマーク状態を同期します。
+ *
+ * @param repository - BookmarkRepository(省略時は共有のリポジトリを使用)
+ * @returns BookmarksViewModelResult - ブックマークの表示・操作に必要な状態と関数
+ */
+export function useBookmarksViewModel(
+  repository?: BookmarkRepository
+): BookmarksViewModelResult {
+  const repo = useMemo(
+    () => repository || getDefaultBookmarkRepository(),
+    [repository]
+  );
+
+  // 状態管理
+  const [state, setState] = useState<BookmarksState>('loading');
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [error, setError] = useState<BookmarkError | null>(null);
+  const [pendingWriteCount, setPendingWriteCount] = useState(0);
+
+  /**
+   * 同期待ちの書き込み操作数を更新する
+   */
+  const updatePendingWriteCount = useCallback(async () => {
+    try {
+      setPendingWriteCount(await repo.getPendingWriteCount());
+    } catch (countError) {
+      console.warn('[BookmarksViewModel] Failed to read pending writes:', countError);
+    }
+  }, [repo]);
+
+  /**
+   * ブックマーク一覧を取得する
+   * 初回マウント時、リトライ時、オンライン復帰時に呼ばれる
+   */
+  const refresh = useCallback(async () => {
+    setState('loading');
+    setError(null);
+
+    try {
+      const result = await repo.listBookmarks();
+
+      if (result.success) {
+        setBookmarks(result.data);
+        setState('success');
+      } else {
+        setError(result.error || null);
+        setState('error');
+      }
+    } catch (unexpectedError) {
+      console.error('[BookmarksViewModel] Unexpected error:', unexpectedError);
+      setError({
+        code: 'UNKNOWN',
+        message: '予期しないエラーが発生しました。しばらくしてからもう一度お試しください。',
+        retryable: true,
+      });
+      setState('error');
+    }
+
+    await updatePendingWriteCount();
+  }, [repo, updatePendingWriteCount]);
+
+  /**
+   * 追加・削除の結果を状態に反映する
+   * 一覧自体はリポジトリからの変更通知で更新される
+   */
+  const handleWriteResult = useCallback(
+    async (result: BookmarkWriteResult) => {
+      setError(result.success ? null : result.error || null);
+      await updatePendingWriteCount();
+    },
+    [updatePendingWriteCount]
+  );
+
+  const isBookmarked = useCallback(
+    (type: BookmarkType, key: string) =>
+      bookmarks.some((bookmark) => bookmark.type === type && bookmark.key === key),
+    [bookmarks]
+  );
+
+  const toggleTermBookmark = useCallback(
+    async (term: TermItem) => {
+      const result = isBookmarked('term', term.name)
+        ? await repo.removeBookmark('term', term.name)
+        : await repo.addTermBookmark(term);
+      await handleWriteResult(result);
+    },
+    [repo, isBookmarked, handleWriteResult]
+  );
+
+  const toggleNewsBookmark = useCallback(
+    async (news: Pick<NewsData, 'date' | 'worldNews' | 'japanNews'>) => {
+      const result = isBookmarked('news', news.date)
+        ? await repo.removeBookmark('news', news.date)
+        : await repo.addNewsBookmark(news);
+      await handleWriteResult(result);
+    },
+    [repo, isBookmarked, handleWriteResult]
+  );
+
+  const removeBookmark = useCallback(
+    async (type: BookmarkType, key: string) => {
+      await handleWriteResult(await repo.removeBookmark(type, key));
+    },
+    [repo, handleWriteResult]
+  );
+
+  // リポジトリの変更通知を購読(他の画面での追加・削除を反映)
+  useEffect(() => repo.subscribe(setBookmarks), [repo]);
+
+  // オンライン復帰時に保留中の書き込みを同期して一覧を再取得
+  useEffect(
+    () =>
+      addNetworkStateListener((networkState) => {
+        if (networkState.isConnected) {
+          refresh();
+        }
+      }),
+    [refresh]
+  );
+
+  // マウント時に一覧を取得
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const termBookmarks = useMemo(
+    () => bookmarks.filter((bookmark) => bookmark.type === 'term'),
+    [bookmarks]
+  );
+  const newsBookmarks = useMemo(
+    () => bookmarks.filter((bookmark) => bookmark.type === 'news'),
+    [bookmarks]
+  );
+
+  return {
+    state,
+    loading: state === 'loading',
+    bookmarks,
+    termBookmarks,
+    newsBookmarks,
+    error,
+    pendingWriteCount,
+    refresh,
+    isBookmarked,
+    toggleTermBookmark,
+    toggleNewsBookmark,
+    removeBookmark,
+  };
+}
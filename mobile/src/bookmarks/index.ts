@@ -0,0 +1,38 @@
+/**
+ * Bookmarks Feature エクスポート
+ *
+ * ユーザーごとの用語・ニュースのブックマーク機能の公開APIを提供します。
+ */
+
+export {
+  BookmarkRepository,
+  getDefaultBookmarkRepository,
+  resetDefaultBookmarkRepository,
+  createTermBookmark,
+  createNewsBookmark,
+  BOOKMARKS_CACHE_KEY,
+  type BookmarkSource,
+  type BookmarkError,
+  type BookmarkListResult,
+  type BookmarkWriteResult,
+  type BookmarkListener,
+  type BookmarkRepositoryConfig,
+  type SessionProvider,
+  type BookmarkFetcher,
+  type BookmarkInserter,
+  type BookmarkDeleter,
+} from './bookmark-repository';
+
+export {
+  BookmarkWriteQueue,
+  BOOKMARK_WRITE_QUEUE_KEY,
+  type BookmarkWriteOperation,
+} from './bookmark-write-queue';
+
+export {
+  useBookmarksViewModel,
+  type BookmarksState,
+  type BookmarksViewModelResult,
+} from './bookmarks-viewmodel';
+
+export { SavedScreen } from './saved-screen';
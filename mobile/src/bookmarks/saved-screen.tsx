@@ -0,0 +1,375 @@
+/**
+ * Saved Screen コンポーネント
+ *
+ * MVVM パターンにおける View 層。
+ * BookmarksViewModelResult を受け取り、保存した用語・ニュースを一覧表示します。
+ *
+ * Requirements:
+ * - ユーザーごとの用語・ニュースのブックマーク
+ * - 7.5: エラー時リトライオプション提供
+ * - 6.4: 可読性確保
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useThemeColors } from '../theme';
+import { Bookmark, BookmarkType } from '../supabase/types';
+import { formatArchiveDate } from '../news/news-archive-screen';
+import { BookmarksViewModelResult } from './bookmarks-viewmodel';
+
+/**
+ * SavedScreenのプロパティ
+ * ViewModelの結果を受け取り、純粋なUIコンポーネントとして動作
+ */
+interface SavedScreenProps {
+  /** ViewModelから提供される状態と関数 */
+  viewModelResult: BookmarksViewModelResult;
+}
+
+/**
+ * 保存項目のプロパティ
+ */
+interface SavedItemProps {
+  /** ブックマーク */
+  bookmark: Bookmark;
+  /** 保存解除時のコールバック */
+  onRemove: (type: BookmarkType, key: string) => void;
+}
+
+/**
+ * 保存項目コンポーネント
+ * 用語は用語名と解説、ニュースは日付と世界・日本のニュースのタイトルを表示
+ */
+function SavedItem({ bookmark, onRemove }: SavedItemProps) {
+  const colors = useThemeColors();
+  const heading =
+    bookmark.type === 'news' ? `${formatArchiveDate(bookmark.key)}のニュース` : bookmark.title;
+
+  return (
+    <View
+      testID={`saved-item-${bookmark.type}-${bookmark.key}`}
+      style={[
+        styles.card,
+        {
+          backgroundColor: colors.card,
+          borderColor: colors.cardBorder,
+        },
+      ]}
+    >
+      <View style={styles.cardHeader}>
+        <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={2}>
+          {heading}
+        </Text>
+        <TouchableOpacity
+          testID={`saved-remove-${bookmark.type}-${bookmark.key}`}
+          onPress={() => onRemove(bookmark.type, bookmark.key)}
+          activeOpacity={0.7}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={`${heading}の保存を解除`}
+        >
+          <Text style={[styles.removeButton, { color: colors.primary }]}>解除</Text>
+        </TouchableOpacity>
+      </View>
+
+      {bookmark.type === 'news' ? (
+        <>
+          <Text style={[styles.itemDescription, { color: colors.text }]} numberOfLines={1}>
+            世界: {bookmark.title}
+          </Text>
+          <Text style={[styles.itemDescription, { color: colors.text }]} numberOfLines={1}>
+            日本: {bookmark.description}
+          </Text>
+        </>
+      ) : (
+        <Text style={[styles.itemDescription, { color: colors.text }]} numberOfLines={4}>
+          {bookmark.description}
+        </Text>
+      )}
+    </View>
+  );
+}
+
+/**
+ * 保存項目のセクションコンポーネント
+ */
+interface SavedSectionProps {
+  /** セクション見出し */
+  title: string;
+  /** テスト用ID（term/news） */
+  testId: string;
+  /** 表示するブックマーク */
+  bookmarks: Bookmark[];
+  /** 保存解除時のコールバック */
+  onRemove: (type: BookmarkType, key: string) => void;
+}
+
+function SavedSection({ title, testId, bookmarks, onRemove }: SavedSectionProps) {
+  const colors = useThemeColors();
+
+  if (bookmarks.length === 0) {
+    return null;
+  }
+
+  return (
+    <View testID={`saved-section-${testId}`} style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>
+        {title}（{bookmarks.length}件）
+      </Text>
+      {bookmarks.map((bookmark) => (
+        <SavedItem
+          key={`${bookmark.type}-${bookmark.key}`}
+          bookmark={bookmark}
+          onRemove={onRemove}
+        />
+      ))}
+    </View>
+  );
+}
+
+/**
+ * 保存済み画面コンポーネント
+ *
+ * ViewModelから提供される状態に基づいて、
+ * ローディング、エラー、保存済み一覧の表示を切り替えます。
+ *
+ * @param props - SavedScreenProps
+ * @returns 保存済み画面のReactコンポーネント
+ */
+export function SavedScreen({ viewModelResult }: SavedScreenProps) {
+  const colors = useThemeColors();
+  const {
+    state,
+    loading,
+    bookmarks,
+    termBookmarks,
+    newsBookmarks,
+    error,
+    pendingWriteCount,
+    refresh,
+    removeBookmark,
+  } = viewModelResult;
+
+  // 初回読み込み中(保存済みの一覧がまだない場合のみスピナーを表示)
+  if (loading && bookmarks.length === 0) {
+    return (
+      <View
+        testID="saved-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <ActivityIndicator testID="loading-indicator" size="large" color={colors.primary} />
+        <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
+          保存済みの項目を読み込んでいます...
+        </Text>
+      </View>
+    );
+  }
+
+  return (
+    <View
+      testID="saved-container"
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      <ScrollView
+        testID="saved-scroll-view"
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={true}
+      >
+        {/* エラー表示(一覧取得・保存解除の失敗) */}
+        {state === 'error' && error && (
+          <View
+            style={[
+              styles.errorContainer,
+              { backgroundColor: colors.error, borderColor: colors.errorText },
+            ]}
+            accessible={true}
+            accessibilityLabel={`エラー: ${error.message}`}
+            accessibilityRole="alert"
+          >
+            <Text style={[styles.errorText, { color: colors.errorText }]}>{error.message}</Text>
+            {error.retryable && (
+              <TouchableOpacity
+                style={[styles.retryButton, { backgroundColor: colors.primary }]}
+                onPress={refresh}
+                activeOpacity={0.7}
+                accessible={true}
+                accessibilityLabel="再試行ボタン"
+                accessibilityRole="button"
+              >
+                <Text style={[styles.retryButtonText, { color: colors.primaryText }]}>
+                  再試行
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {/* 同期待ちの案内(オフライン時の保存・解除) */}
+        {pendingWriteCount > 0 && (
+          <Text
+            testID="saved-pending-notice"
+            style={[styles.pendingText, { color: colors.textSecondary }]}
+          >
+            {pendingWriteCount}件の変更はオンラインになったときに同期されます。
+          </Text>
+        )}
+
+        <SavedSection
+          title="用語"
+          testId="term"
+          bookmarks={termBookmarks}
+          onRemove={removeBookmark}
+        />
+        <SavedSection
+          title="ニュース"
+          testId="news"
+          bookmarks={newsBookmarks}
+          onRemove={removeBookmark}
+        />
+
+        {/* 保存済みの項目がない場合のメッセージ */}
+        {bookmarks.length === 0 && state !== 'error' && (
+          <View style={styles.emptyContainer}>
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
+              保存した用語・ニュースはまだありません。{'\n'}
+              用語やニュースの「保存」をタップすると、ここに表示されます。
+            </Text>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * タイポグラフィ定数
+ *
+ * @see Requirements: 6.4
+ */
+const TYPOGRAPHY = {
+  /** 本文フォントサイズ（16pt以上を保証） */
+  BODY_FONT_SIZE: 16,
+  /** 本文行間 */
+  BODY_LINE_HEIGHT: 24,
+  /** 見出しフォントサイズ */
+  TITLE_FONT_SIZE: 17,
+  /** セクション見出し・補足フォントサイズ */
+  META_FONT_SIZE: 14,
+} as const;
+
+/**
+ * スタイル定義
+ *
+ * @see Requirements: 6.3, 6.4, 6.5
+ */
+const styles = StyleSheet.create({
+  // コンテナ
+  container: {
+    flex: 1,
+  },
+  centerContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  // スクロールビュー
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+
+  // セクション
+  section: {
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    fontWeight: '600',
+  },
+
+  // カード
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  itemTitle: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.TITLE_FONT_SIZE,
+    fontWeight: '700',
+    lineHeight: 24,
+    marginRight: 12,
+  },
+  itemDescription: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    lineHeight: TYPOGRAPHY.BODY_LINE_HEIGHT,
+  },
+  removeButton: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    fontWeight: '600',
+  },
+
+  // 同期待ちの案内
+  pendingText: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+  },
+
+  // ローディング
+  loadingText: {
+    marginTop: 12,
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+  },
+
+  // エラー
+  errorContainer: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 20,
+    alignItems: 'center',
+  },
+  errorText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    textAlign: 'center',
+    marginBottom: 16,
+    lineHeight: 24,
+  },
+  retryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+
+  // 空状態
+  emptyContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -310,6 +310,72 @@ describe('CacheManager', () => {
     });
   });
 
+  describe('clearOldCache(アーカイブ保持)', () => {
+    it('retainDaysを指定すると保持期間内の過去キャッシュを残す', async () => {
+      mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
+        'cache_news_2026-01-01', // 今日
+        'cache_news_2025-12-31', // 1日前
+        'cache_news_2025-12-25', // 7日前
+        'cache_news_2025-12-24', // 8日前
+        'cache_terms_2025-12-20', // 12日前
+        'other_key',
+      ]);
+
+      await cacheManager.clearOldCache(7);
+
+      expect(mockAsyncStorage.multiRemove).toHaveBeenCalledWith([
+        'cache_news_2025-12-24',
+        'cache_terms_2025-12-20',
+      ]);
+    });
+
+    it('未来日付のキャッシュは保持期間に関わらず削除する', async () => {
+      mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
+        'cache_news_2026-01-01',
+        'cache_news_2026-01-02',
+      ]);
+
+      await cacheManager.clearOldCache(7);
+
+      expect(mockAsyncStorage.multiRemove).toHaveBeenCalledWith(['cache_news_2026-01-02']);
+    });
+  });
+
+  describe('getArchivedCache(過去日付)', () => {
+    it('過去日付のキャッシュはメタデータに関わらず有効として返す', async () => {
+      const newsData: NewsData = {
+        worldNews: { title: 'World', summary: 'Summary', updatedAt: '2025-12-31T08:00:00Z' },
+        japanNews: { title: 'Japan', summary: 'Summary', updatedAt: '2025-12-31T08:00:00Z' },
+      };
+      const cacheEntry: CacheEntry<NewsData> = {
+        data: newsData,
+        cachedAt: new Date('2025-12-31T09:00:00+09:00').getTime(),
+      };
+
+      mockAsyncStorage.getItem.mockResolvedValueOnce(JSON.stringify(cacheEntry));
+      // 今日のバッチでlastUpdatedがキャッシュより新しくなっている
+      mockMetadataFetcher.mockResolvedValueOnce({
+        newsLastUpdated: mockDate.getTime(),
+        termsLastUpdated: mockDate.getTime(),
+      });
+
+      const result = await cacheManager.getArchivedCache<NewsData>('news', '2025-12-31');
+
+      expect(result).toEqual({ data: newsData, isValid: true });
+      expect(mockAsyncStorage.getItem).toHaveBeenCalledWith('cache_news_2025-12-31');
+      expect(mockMetadataFetcher).not.toHaveBeenCalled();
+      expect(mockAsyncStorage.removeItem).not.toHaveBeenCalled();
+    });
+
+    it('キャッシュが存在しない場合はisValid: falseを返す', async () => {
+      mockAsyncStorage.getItem.mockResolvedValueOnce(null);
+
+      const result = await cacheManager.getArchivedCache<NewsData>('news', '2025-12-31');
+
+      expect(result).toEqual({ data: null, isValid: false });
+    });
+  });
+
   describe('clearAllCache', () => {
     it('全てのキャッシュを削除する', async () => {
       mockAsyncStorage.getAllKeys.mockResolvedValueOnce([
@@ -7,6 +7,7 @@
  * - メタデータによるキャッシュ有効性チェック(案B)
  * - オフライン時のデータ取得(1秒以内)
  * - 古いキャッシュの自動削除
+ * - 過去日付(アーカイブ)のキャッシュ
  *
  * Requirements: 2.5, 2.6, 5.4, 7.2
  */
@@ -29,6 +30,11 @@ function formatDateToJST(date: Date): string {
   return jstDate.toISOString().split('T')[0];
 }
 
+/**
+ * 1日のミリ秒数
+ */
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
 /**
  * キャッシュキーから日付を抽出する
  * @param key - キャッシュキー
@@ -193,6 +199,31 @@ export class CacheManager {
     return { data: entry.data, isValid: true };
   }
 
+  /**
+   * 過去日付(アーカイブ)のキャッシュを取得する(メタデータチェックなし)
+   *
+   * batch_metadataのlastUpdatedは当日バッチの実行で更新されるため、
+   * 過去日付のキャッシュに適用すると毎日無効化されてしまう。
+   * 存在すればそのまま有効として返す(再生成・管理者の編集による変更は、
+   * 呼び出し側がオンライン時にニュースの更新日時と比較して再検証する)。
+   *
+   * @param type - キャッシュの種類
+   * @param dateStr - 日付文字列(YYYY-MM-DD形式)
+   * @returns キャッシュ検証結果
+   */
+  async getArchivedCache<T>(
+    type: CacheType,
+    dateStr: string
+  ): Promise<CacheValidationResult<T>> {
+    const entry = await this.getCacheEntry<T>(type, dateStr);
+
+    if (!entry) {
+      return { data: null, isValid: false };
+    }
+
+    return { data: entry.data, isValid: true };
+  }
+
   /**
    * 今日のキャッシュを検証付きで取得する
    * @param type - キャッシュの種類
@@ -218,19 +249,29 @@ export class CacheManager {
   }
 
   /**
-   * 古いキャッシュを削除する(今日以外のキャッシュを削除)
+   * 古いキャッシュを削除する
+   *
+   * retainDaysを指定しない場合は今日以外のキャッシュを全て削除する。
+   * retainDaysを指定した場合は、今日からretainDays日前までの
+   * アーカイブ用キャッシュを残し、それより古いものを削除する。
+   *
+   * @param retainDays - 今日以外に保持する日数(デフォルト: 0)
    */
-  async clearOldCache(): Promise<void> {
+  async clearOldCache(retainDays: number = 0): Promise<void> {
     try {
       const allKeys = await AsyncStorage.getAllKeys();
       const cacheKeys = allKeys.filter((key) => key.startsWith(CACHE_KEY_PREFIX));
-      const today = formatDateToJST(new Date());
+      const now = new Date();
+      const today = formatDateToJST(now);
+      const oldestRetained = formatDateToJST(new Date(now.getTime() - retainDays * ONE_DAY_MS));
 
       const keysToRemove: string[] = [];
 
       for (const key of cacheKeys) {
         const dateStr = extractDateFromCacheKey(key);
-        if (dateStr && dateStr !== today) {
+        // YYYY-MM-DD形式は文字列比較で大小関係を判定できる
+        // 保持期間より古いもの、および未来日付(端末時刻のずれ等)のものを削除
+        if (dateStr && (dateStr < oldestRetained || dateStr > today)) {
           keysToRemove.push(key);
         }
       }
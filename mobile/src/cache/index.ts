@@ -14,4 +14,5 @@ export {
   TermsData,
   TermItem,
   CACHE_KEY_PREFIX,
+  ARCHIVE_CACHE_RETAIN_DAYS,
 } from './types';
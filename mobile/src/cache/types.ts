@@ -13,6 +13,12 @@ export type CacheType = 'news' | 'terms';
  */
 export const CACHE_KEY_PREFIX = 'cache_';
 
+/**
+ * アーカイブ(過去日付)のキャッシュを保持する日数
+ * アーカイブ画面の1ページ分(14日)を保持し、それより古いものはアプリ起動時に削除する
+ */
+export const ARCHIVE_CACHE_RETAIN_DAYS = 14;
+
 /**
  * キャッシュキーの型
  */
@@ -0,0 +1,87 @@
+/**
+ * Glossary Linker テスト
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ */
+
+import {
+  buildGlossaryEntries,
+  linkGlossaryTerms,
+  parseGlossaryLink,
+  GLOSSARY_LINK_SCHEME,
+} from '../glossary-linker';
+
+/**
+ * 用語リンクのMarkdownを生成するヘルパー
+ */
+const link = (text: string, termName: string = text) =>
+  `[${text}](${GLOSSARY_LINK_SCHEME}${encodeURIComponent(termName)})`;
+
+describe('buildGlossaryEntries', () => {
+  it('括弧で併記した用語名は全体・括弧の前・括弧の中を長い順に検出対象にする', () => {
+    const entries = buildGlossaryEntries(['PER（株価収益率）']);
+
+    expect(entries).toEqual([
+      { termName: 'PER（株価収益率）', alias: 'PER（株価収益率）' },
+      { termName: 'PER（株価収益率）', alias: '株価収益率' },
+      { termName: 'PER（株価収益率）', alias: 'PER' },
+    ]);
+  });
+
+  it('1文字の表記と重複する表記は除外する', () => {
+    const entries = buildGlossaryEntries(['株', '円安', '円安']);
+
+    expect(entries).toEqual([{ termName: '円安', alias: '円安' }]);
+  });
+});
+
+describe('linkGlossaryTerms', () => {
+  it('各用語の最初の出現箇所のみリンクにする', () => {
+    const entries = buildGlossaryEntries(['円安', 'ETF']);
+
+    const result = linkGlossaryTerms('円安が進み、ETFに資金が流入。円安は続く見通し。', entries);
+
+    expect(result).toBe(`${link('円安')}が進み、${link('ETF')}に資金が流入。円安は続く見通し。`);
+  });
+
+  it('長い表記を優先し、同じ用語の別表記はリンクにしない', () => {
+    const entries = buildGlossaryEntries(['PER（株価収益率）', '株価']);
+
+    const result = linkGlossaryTerms('株価収益率（PER）が低下し、株価が反発', entries);
+
+    expect(result).toBe(
+      `${link('株価収益率', 'PER（株価収益率）')}（PER）が低下し、${link('株価')}が反発`
+    );
+  });
+
+  it('英数字の用語は英単語の途中では検出しない', () => {
+    const entries = buildGlossaryEntries(['ETF']);
+
+    expect(linkGlossaryTerms('NETFLIXの株価が上昇', entries)).toBe('NETFLIXの株価が上昇');
+    expect(linkGlossaryTerms('米国ETFの残高', entries)).toBe(`米国${link('ETF')}の残高`);
+  });
+
+  it('コード・既存のリンク・URLの中はリンクにしない', () => {
+    const entries = buildGlossaryEntries(['円安']);
+    const markdown = '`円安` [円安の記事](https://example.com/円安) https://example.com/円安';
+
+    expect(linkGlossaryTerms(markdown, entries)).toBe(markdown);
+  });
+
+  it('用語がない場合はそのまま返す', () => {
+    expect(linkGlossaryTerms('円安が進む', [])).toBe('円安が進む');
+  });
+});
+
+describe('parseGlossaryLink', () => {
+  it('用語リンクのURLから用語名を取り出す', () => {
+    expect(parseGlossaryLink(`${GLOSSARY_LINK_SCHEME}${encodeURIComponent('円安')}`)).toBe('円安');
+  });
+
+  it('用語リンク以外のURLはnullを返す', () => {
+    expect(parseGlossaryLink('https://example.com')).toBeNull();
+    expect(parseGlossaryLink(GLOSSARY_LINK_SCHEME)).toBeNull();
+    expect(parseGlossaryLink(`${GLOSSARY_LINK_SCHEME}%E0%A4%A`)).toBeNull();
+  });
+});
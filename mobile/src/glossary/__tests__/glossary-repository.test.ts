@@ -0,0 +1,172 @@
+/**
+ * Glossary Repository テスト
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 10: オフライン対応強化
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  GlossaryRepository,
+  GlossaryRepositoryConfig,
+  GLOSSARY_TERM_NAMES_KEY,
+} from '../glossary-repository';
+import { GlossaryTerm } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { setNetworkState, resetNetworkState } from '../../utils/network';
+
+const mockTerm: GlossaryTerm = {
+  name: '円安',
+  description: '円の価値が他の通貨に対して下がること。',
+  difficulty: 'beginner',
+  source: 'delivered',
+};
+
+const generatedTerm: GlossaryTerm = {
+  name: 'イールドカーブ',
+  description: '償還までの期間と利回りの関係を表した曲線。',
+  difficulty: 'advanced',
+  source: 'generated',
+};
+
+// 2024-01-15 09:00 JST
+const TODAY = new Date('2024-01-15T00:00:00.000Z');
+
+/**
+ * モック関数を注入したリポジトリを作成する
+ */
+const createRepository = (overrides: GlossaryRepositoryConfig = {}) => {
+  const config = {
+    namesFetcher: jest.fn().mockResolvedValue(['円安', 'ETF']),
+    termFetcher: jest.fn().mockResolvedValue({ data: mockTerm, exists: true }),
+    explanationRequester: jest.fn().mockResolvedValue({ data: generatedTerm, exists: true }),
+    now: () => TODAY,
+    ...overrides,
+  };
+  return { repository: new GlossaryRepository(config), config };
+};
+
+describe('GlossaryRepository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetNetworkState();
+    jest.restoreAllMocks();
+  });
+
+  describe('getTermNames', () => {
+    it('Supabaseから取得した用語名を返し、端末に保存する', async () => {
+      const { repository } = createRepository();
+
+      const termNames = await repository.getTermNames();
+
+      expect(termNames).toEqual(['円安', 'ETF']);
+      const stored = JSON.parse((await AsyncStorage.getItem(GLOSSARY_TERM_NAMES_KEY)) ?? 'null');
+      expect(stored).toEqual({ date: '2024-01-15', termNames: ['円安', 'ETF'] });
+    });
+
+    it('今日取得した用語名は再取得しない', async () => {
+      const { repository, config } = createRepository();
+
+      await repository.getTermNames();
+      await repository.getTermNames();
+
+      expect(config.namesFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('取得に失敗した場合は前日までに保存した用語名を返す', async () => {
+      await AsyncStorage.setItem(
+        GLOSSARY_TERM_NAMES_KEY,
+        JSON.stringify({ date: '2024-01-14', termNames: ['円高'] })
+      );
+      const { repository } = createRepository({
+        namesFetcher: jest.fn().mockRejectedValue(new Error('network')),
+      });
+
+      expect(await repository.getTermNames()).toEqual(['円高']);
+    });
+
+    it('オフラインで保存済みの用語名がない場合は空配列を返す', async () => {
+      setNetworkState(false);
+      const { repository, config } = createRepository();
+
+      expect(await repository.getTermNames()).toEqual([]);
+      expect(config.namesFetcher).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getTermDetail', () => {
+    it('Supabaseに解説がある用語はそのまま返し、生成を要求しない', async () => {
+      const { repository, config } = createRepository();
+
+      const result = await repository.getTermDetail('円安');
+
+      expect(result).toEqual({ success: true, data: mockTerm });
+      expect(config.explanationRequester).not.toHaveBeenCalled();
+    });
+
+    it('Supabaseに解説がない用語は生成した解説を返す', async () => {
+      const { repository, config } = createRepository({
+        termFetcher: jest.fn().mockResolvedValue({ data: null, exists: false }),
+      });
+
+      const result = await repository.getTermDetail('イールドカーブ');
+
+      expect(result).toEqual({ success: true, data: generatedTerm });
+      expect(config.explanationRequester).toHaveBeenCalledWith('イールドカーブ');
+    });
+
+    it('生成もできなかった用語はdataをnullで返す', async () => {
+      const { repository } = createRepository({
+        termFetcher: jest.fn().mockResolvedValue({ data: null, exists: false }),
+        explanationRequester: jest.fn().mockResolvedValue({ data: null, exists: false }),
+      });
+
+      expect(await repository.getTermDetail('未配信')).toEqual({ success: true, data: null });
+    });
+
+    it('一度取得した用語は再取得しない', async () => {
+      const { repository, config } = createRepository();
+
+      await repository.getTermDetail('円安');
+      setNetworkState(false);
+      const result = await repository.getTermDetail('円安');
+
+      expect(result.data).toEqual(mockTerm);
+      expect(config.termFetcher).toHaveBeenCalledTimes(1);
+    });
+
+    it('オフラインの場合はリトライ可能なエラーを返す', async () => {
+      setNetworkState(false);
+      const { repository, config } = createRepository();
+
+      const result = await repository.getTermDetail('円安');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatchObject({ code: 'OFFLINE', retryable: true });
+      expect(config.termFetcher).not.toHaveBeenCalled();
+    });
+
+    it('取得に失敗した場合はエラー情報を返す', async () => {
+      const { repository } = createRepository({
+        termFetcher: jest
+          .fn()
+          .mockRejectedValue(new SupabaseError('TIMEOUT', 'タイムアウト', undefined, true)),
+      });
+
+      const result = await repository.getTermDetail('円安');
+
+      expect(result).toEqual({
+        success: false,
+        data: null,
+        error: { code: 'TIMEOUT', message: 'タイムアウト', retryable: true },
+      });
+    });
+  });
+});
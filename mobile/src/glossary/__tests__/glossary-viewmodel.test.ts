@@ -0,0 +1,132 @@
+/**
+ * Glossary ViewModel テスト
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useGlossaryViewModel } from '../glossary-viewmodel';
+import { GlossaryRepository, GlossaryTermResult } from '../glossary-repository';
+import { GLOSSARY_LINK_SCHEME } from '../glossary-linker';
+import { GlossaryTerm } from '../../supabase/types';
+import { resetNetworkState } from '../../utils/network';
+
+const mockTerm: GlossaryTerm = {
+  name: '円安',
+  description: '円の価値が他の通貨に対して下がること。',
+  difficulty: 'beginner',
+  source: 'delivered',
+};
+
+/**
+ * 用語詳細の取得結果を指定したリポジトリを作成する
+ * (renderHookのコールバック内で作成すると再レンダリングのたびに別インスタンスになるため外で作成する)
+ */
+const createRepository = (detail: GlossaryTermResult = { success: true, data: mockTerm }) => {
+  const repository = new GlossaryRepository({ namesFetcher: async () => ['円安'] });
+  jest.spyOn(repository, 'getTermDetail').mockResolvedValue(detail);
+  return repository;
+};
+
+describe('useGlossaryViewModel', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('取得した用語名で要約の用語をリンクに置き換える', async () => {
+    const repository = createRepository();
+    const { result } = renderHook(() => useGlossaryViewModel(repository));
+
+    await waitFor(() => expect(result.current.termNames).toEqual(['円安']));
+
+    expect(result.current.linkTerms('円安が進む')).toBe(
+      `[円安](${GLOSSARY_LINK_SCHEME}${encodeURIComponent('円安')})が進む`
+    );
+  });
+
+  it('用語を開くと解説を取得して表示し、閉じると状態を戻す', async () => {
+    const repository = createRepository();
+    const { result } = renderHook(() => useGlossaryViewModel(repository));
+    expect(result.current.detailState).toBe('closed');
+
+    act(() => {
+      result.current.openTerm('円安');
+    });
+    expect(result.current.selectedTermName).toBe('円安');
+
+    await waitFor(() => expect(result.current.detailState).toBe('loaded'));
+    expect(result.current.detail).toEqual(mockTerm);
+
+    act(() => {
+      result.current.closeTerm();
+    });
+    expect(result.current.detailState).toBe('closed');
+    expect(result.current.selectedTermName).toBeNull();
+    expect(result.current.detail).toBeNull();
+  });
+
+  it('解説が見つからない場合はnot-foundになる', async () => {
+    const repository = createRepository({ success: true, data: null });
+    const { result } = renderHook(() => useGlossaryViewModel(repository));
+
+    act(() => {
+      result.current.openTerm('未配信');
+    });
+
+    await waitFor(() => expect(result.current.detailState).toBe('not-found'));
+  });
+
+  it('取得に失敗した場合はエラーを表示し、リトライで再取得する', async () => {
+    const repository = createRepository({
+      success: false,
+      data: null,
+      error: { code: 'TIMEOUT', message: 'タイムアウト', retryable: true },
+    });
+    const { result } = renderHook(() => useGlossaryViewModel(repository));
+
+    act(() => {
+      result.current.openTerm('円安');
+    });
+    await waitFor(() => expect(result.current.detailState).toBe('error'));
+    expect(result.current.error?.code).toBe('TIMEOUT');
+
+    jest.spyOn(repository, 'getTermDetail').mockResolvedValue({ success: true, data: mockTerm });
+    await act(async () => {
+      await result.current.retry();
+    });
+
+    expect(result.current.detailState).toBe('loaded');
+    expect(repository.getTermDetail).toHaveBeenCalledTimes(2);
+  });
+
+  it('閉じた後に届いた解説は表示しない', async () => {
+    let resolveDetail: (value: GlossaryTermResult) => void = () => {};
+    const repository = createRepository();
+    jest.spyOn(repository, 'getTermDetail').mockReturnValue(
+      new Promise((resolve) => {
+        resolveDetail = resolve;
+      })
+    );
+    const { result } = renderHook(() => useGlossaryViewModel(repository));
+
+    act(() => {
+      result.current.openTerm('円安');
+    });
+    act(() => {
+      result.current.closeTerm();
+    });
+    await act(async () => {
+      resolveDetail({ success: true, data: mockTerm });
+    });
+
+    expect(result.current.detailState).toBe('closed');
+    expect(result.current.detail).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Term Detail Sheet テスト
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { TermDetailSheet } from '../term-detail-sheet';
+import { GlossaryViewModelResult } from '../glossary-viewmodel';
+import { ThemeProvider } from '../../theme';
+
+// ViewModelのモック結果を生成するヘルパー関数
+const createMockViewModelResult = (
+  overrides: Partial<GlossaryViewModelResult> = {}
+): GlossaryViewModelResult => ({
+  termNames: ['円安'],
+  linkTerms: jest.fn((markdown: string) => markdown),
+  detailState: 'loaded',
+  selectedTermName: '円安',
+  detail: {
+    name: '円安',
+    description: '円の価値が他の通貨に対して下がること。',
+    difficulty: 'beginner',
+    source: 'delivered',
+  },
+  error: null,
+  openTerm: jest.fn(),
+  closeTerm: jest.fn(),
+  retry: jest.fn(),
+  ...overrides,
+});
+
+// ThemeProviderでラップしてレンダリングするヘルパー
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(<ThemeProvider>{component}</ThemeProvider>);
+};
+
+describe('TermDetailSheet', () => {
+  it('用語名・難易度・解説を表示し、閉じるボタンで閉じる', () => {
+    const viewModelResult = createMockViewModelResult();
+    const { getByText, getByTestId, queryByTestId } = renderWithTheme(
+      <TermDetailSheet viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('円安')).toBeTruthy();
+    expect(getByText('初級')).toBeTruthy();
+    expect(getByText('円の価値が他の通貨に対して下がること。')).toBeTruthy();
+    expect(queryByTestId('term-detail-generated-notice')).toBeNull();
+
+    fireEvent.press(getByTestId('term-detail-close'));
+    expect(viewModelResult.closeTerm).toHaveBeenCalled();
+  });
+
+  it('生成した解説には自動生成である旨を表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      detail: {
+        name: 'イールドカーブ',
+        description: '償還までの期間と利回りの関係を表した曲線。',
+        difficulty: 'advanced',
+        source: 'generated',
+      },
+    });
+    const { getByTestId, getByText } = renderWithTheme(
+      <TermDetailSheet viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('上級')).toBeTruthy();
+    expect(getByTestId('term-detail-generated-notice')).toBeTruthy();
+  });
+
+  it('読み込み中はインジケーターを表示する', () => {
+    const { getByTestId } = renderWithTheme(
+      <TermDetailSheet
+        viewModelResult={createMockViewModelResult({ detailState: 'loading', detail: null })}
+      />
+    );
+
+    expect(getByTestId('term-detail-loading')).toBeTruthy();
+  });
+
+  it('解説が見つからない場合はその旨を表示する', () => {
+    const { getByText } = renderWithTheme(
+      <TermDetailSheet
+        viewModelResult={createMockViewModelResult({ detailState: 'not-found', detail: null })}
+      />
+    );
+
+    expect(getByText('「円安」の解説は見つかりませんでした。')).toBeTruthy();
+  });
+
+  it('リトライ可能なエラーは再試行ボタンを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      detailState: 'error',
+      detail: null,
+      error: { code: 'TIMEOUT', message: 'タイムアウトしました', retryable: true },
+    });
+    const { getByText, getByTestId } = renderWithTheme(
+      <TermDetailSheet viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('タイムアウトしました')).toBeTruthy();
+    fireEvent.press(getByTestId('term-detail-retry'));
+    expect(viewModelResult.retry).toHaveBeenCalled();
+  });
+
+  it('閉じている場合は何も表示しない', () => {
+    const { queryByTestId } = renderWithTheme(
+      <TermDetailSheet
+        viewModelResult={createMockViewModelResult({
+          detailState: 'closed',
+          selectedTermName: null,
+          detail: null,
+        })}
+      />
+    );
+
+    expect(queryByTestId('term-detail-sheet')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * 用語解説API クライアント テスト
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 8.5: エラーハンドリング
+ */
+
+import { requestTermExplanation, setTermExplanationApiBaseUrl } from '../term-explanation-api';
+import { SupabaseError } from '../../supabase/errors';
+
+const BASE_URL = 'https://api.example.com';
+
+/**
+ * 指定したステータスとボディを返すfetchのモックを作成する
+ */
+const createFetch = (status: number, body: unknown = {}) =>
+  jest.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve(body),
+  }) as unknown as jest.Mock & typeof fetch;
+
+describe('requestTermExplanation', () => {
+  afterEach(() => {
+    setTermExplanationApiBaseUrl(null);
+  });
+
+  it('baseUrl省略時はアプリ起動時に設定したURLを使用する', async () => {
+    const fetchFn = createFetch(404);
+    setTermExplanationApiBaseUrl(`${BASE_URL}/`);
+
+    await requestTermExplanation('ETF', { fetchFn });
+
+    expect(fetchFn).toHaveBeenCalledWith(`${BASE_URL}/api/terms/explain?name=ETF`);
+  });
+
+  it('生成した解説を用語として返す', async () => {
+    const fetchFn = createFetch(200, {
+      success: true,
+      data: {
+        term: { name: '円安', description: '円の価値が下がること。', difficulty: 'beginner' },
+        source: 'generated',
+      },
+    });
+
+    const result = await requestTermExplanation('円安', { baseUrl: BASE_URL, fetchFn });
+
+    expect(fetchFn).toHaveBeenCalledWith(
+      `${BASE_URL}/api/terms/explain?name=${encodeURIComponent('円安')}`
+    );
+    expect(result).toEqual({
+      data: {
+        name: '円安',
+        description: '円の価値が下がること。',
+        difficulty: 'beginner',
+        source: 'generated',
+      },
+      exists: true,
+    });
+  });
+
+  it('過去に配信していない用語(404)は見つからなかったものとして返す', async () => {
+    const result = await requestTermExplanation('未配信', {
+      baseUrl: BASE_URL,
+      fetchFn: createFetch(404),
+    });
+
+    expect(result).toEqual({ data: null, exists: false });
+  });
+
+  it('サーバーエラーはリトライ可能なエラーとしてスローする', async () => {
+    const promise = requestTermExplanation('円安', {
+      baseUrl: BASE_URL,
+      fetchFn: createFetch(500),
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(SupabaseError);
+    await expect(promise).rejects.toMatchObject({ code: 'UNAVAILABLE', retryable: true });
+  });
+
+  it('APIのURLが未設定の場合はリトライ不可のエラーとしてスローする', async () => {
+    const fetchFn = createFetch(200);
+
+    await expect(requestTermExplanation('円安', { fetchFn })).rejects.toMatchObject({
+      code: 'UNAVAILABLE',
+      retryable: false,
+    });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Glossary Linker
+ *
+ * ニュース要約(Markdown)の中から配信済みの用語名を検出し、
+ * タップで用語詳細を開くMarkdownリンクに置き換えます。
+ *
+ * リンクは `glossary:<用語名>` 形式のURLで表し、
+ * Markdownコンポーネントの onLinkPress で parseGlossaryLink を使って判定します。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ */
+
+/**
+ * 用語リンクのURLスキーム
+ */
+export const GLOSSARY_LINK_SCHEME = 'glossary:';
+
+/**
+ * リンクとして検出する表記の最小文字数
+ *
+ * 1文字の表記(「株」など)は誤検出が多いため対象外とします。
+ */
+export const MIN_GLOSSARY_ALIAS_LENGTH = 2;
+
+/**
+ * 用語集の検出用エントリ
+ */
+export interface GlossaryEntry {
+  /** リンク先の用語名 */
+  termName: string;
+  /** 本文中で検出する表記 */
+  alias: string;
+}
+
+/**
+ * リンクに置き換えない範囲
+ * (コードブロック、インラインコード、既存のリンク、URL)
+ */
+const PROTECTED_PATTERN = /```[\s\S]*?```|`[^`\n]*`|\[[^\]\n]*\]\([^)\n]*\)|https?:\/\/\S+/g;
+
+/**
+ * 「PER（株価収益率）」のように読み・正式名称を括弧で併記した用語名
+ */
+const PARENTHESIZED_NAME_PATTERN = /^(.+?)\s*[（(](.+?)[）)]$/;
+
+/**
+ * 英数字の表記かどうか(単語境界の判定に使用)
+ */
+const ASCII_WORD_CHAR = /[A-Za-z0-9]/;
+
+/**
+ * 用語名から本文中で検出する表記の一覧を生成する
+ *
+ * 括弧で読み・正式名称を併記した用語名は、全体・括弧の前・括弧の中をそれぞれ検出します。
+ * 同じ表記が複数の用語から生成された場合は、先に現れた用語を優先します。
+ *
+ * @param termNames - 配信済みの用語名
+ * @returns 長い表記から順に並べたエントリ(長い表記を優先して検出するため)
+ */
+export function buildGlossaryEntries(termNames: string[]): GlossaryEntry[] {
+  const entries = new Map<string, GlossaryEntry>();
+
+  for (const termName of termNames) {
+    const name = termName.trim();
+    const match = name.match(PARENTHESIZED_NAME_PATTERN);
+    const aliases = match ? [name, match[1].trim(), match[2].trim()] : [name];
+
+    for (const alias of aliases) {
+      if (alias.length >= MIN_GLOSSARY_ALIAS_LENGTH && !entries.has(alias)) {
+        entries.set(alias, { termName, alias });
+      }
+    }
+  }
+
+  return Array.from(entries.values()).sort((a, b) => b.alias.length - a.alias.length);
+}
+
+/**
+ * 検出位置が英単語の途中でないかを判定する
+ *
+ * 英数字の表記(「ETF」など)は前後が英数字の場合に一致とみなしません。
+ * 日本語の表記は単語の区切りがないため判定しません。
+ */
+function isWordBoundary(text: string, start: number, end: number): boolean {
+  const first = text[start];
+  const last = text[end - 1];
+  if (ASCII_WORD_CHAR.test(first) && start > 0 && ASCII_WORD_CHAR.test(text[start - 1])) {
+    return false;
+  }
+  if (ASCII_WORD_CHAR.test(last) && end < text.length && ASCII_WORD_CHAR.test(text[end])) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Markdownのリンクテキストで特別な意味を持つ文字をエスケープする
+ */
+function escapeLinkText(text: string): string {
+  return text.replace(/[\\[\]]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Markdown本文の用語をリンクに置き換える
+ *
+ * 各用語は本文中で最初に現れた箇所のみリンクにします。
+ * 長い表記を優先し、既にリンクにした範囲やコード・既存リンクの中は置き換えません。
+ *
+ * @param markdown - ニュース要約(Markdown)
+ * @param entries - buildGlossaryEntries で生成したエントリ
+ * @returns 用語をリンクに置き換えたMarkdown
+ *
+ * @example
+ * ```typescript
+ * const entries = buildGlossaryEntries(['円安', 'ETF']);
+ * linkGlossaryTerms('円安が進み、ETFに資金が流入', entries);
+ * // => '[円安](glossary:%E5%86%86%E5%AE%89)が進み、[ETF](glossary:ETF)に資金が流入'
+ * ```
+ */
+export function linkGlossaryTerms(markdown: string, entries: GlossaryEntry[]): string {
+  if (entries.length === 0 || !markdown) {
+    return markdown;
+  }
+
+  // 置き換え済み・置き換え対象外の範囲
+  const occupied: { start: number; end: number }[] = [];
+  for (const match of markdown.matchAll(PROTECTED_PATTERN)) {
+    occupied.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length });
+  }
+  const overlaps = (start: number, end: number) =>
+    occupied.some((span) => start < span.end && span.start < end);
+
+  const links: { start: number; end: number; termName: string }[] = [];
+  const linkedTermNames = new Set<string>();
+
+  for (const { termName, alias } of entries) {
+    if (linkedTermNames.has(termName)) {
+      continue;
+    }
+
+    let index = markdown.indexOf(alias);
+    while (index !== -1) {
+      const end = index + alias.length;
+      if (!overlaps(index, end) && isWordBoundary(markdown, index, end)) {
+        links.push({ start: index, end, termName });
+        occupied.push({ start: index, end });
+        linkedTermNames.add(termName);
+        break;
+      }
+      index = markdown.indexOf(alias, index + 1);
+    }
+  }
+
+  // 後ろから置き換えて位置がずれないようにする
+  return links
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (text, link) =>
+        `${text.slice(0, link.start)}[${escapeLinkText(text.slice(link.start, link.end))}](${GLOSSARY_LINK_SCHEME}${encodeURIComponent(link.termName)})${text.slice(link.end)}`,
+      markdown
+    );
+}
+
+/**
+ * 用語リンクのURLから用語名を取り出す
+ *
+ * @param url - Markdownのリンク先URL
+ * @returns 用語名(用語リンクでない場合はnull)
+ */
+export function parseGlossaryLink(url: string): string | null {
+  if (!url.startsWith(GLOSSARY_LINK_SCHEME)) {
+    return null;
+  }
+
+  try {
+    const termName = decodeURIComponent(url.slice(GLOSSARY_LINK_SCHEME.length));
+    return termName || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * Glossary Repository
+ *
+ * ニュース要約内の用語リンクに使う用語集を提供するリポジトリ。
+ *
+ * - 配信済みの用語名: Supabaseから1日1回取得し、端末に保存します
+ *   (リンク表示は補助的な機能のため、取得に失敗しても保存済みの用語名で表示を続けます)
+ * - 用語の詳細: Supabaseの配信済み用語・生成済み解説から取得し、
+ *   どちらにもない場合はバックエンドで解説を生成します
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 10: オフライン対応強化
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { GlossaryTerm, SupabaseQueryResult } from '../supabase/types';
+import {
+  getDeliveredTermNames,
+  fetchGlossaryTermForRepository,
+  formatDateToJST,
+} from '../supabase/queries';
+import { SupabaseError, toSupabaseError, SupabaseErrorCode, ERROR_MESSAGES } from '../supabase/errors';
+import { isOffline } from '../utils/network';
+import { requestTermExplanation } from './term-explanation-api';
+
+/**
+ * 端末に保存する用語名のAsyncStorageキー
+ */
+export const GLOSSARY_TERM_NAMES_KEY = 'glossary_term_names';
+
+/**
+ * 用語詳細の取得エラー情報
+ * ViewModelでエラー表示に使用
+ */
+export interface GlossaryError {
+  /** エラーコード */
+  code: SupabaseErrorCode;
+  /** ユーザー向けエラーメッセージ(日本語) */
+  message: string;
+  /** リトライ可能かどうか */
+  retryable: boolean;
+}
+
+/**
+ * 用語詳細の取得結果
+ */
+export interface GlossaryTermResult {
+  /** 取得成功かどうか */
+  success: boolean;
+  /** 用語(解説が見つからない場合または失敗時はnull) */
+  data: GlossaryTerm | null;
+  /** エラー情報(失敗時のみ) */
+  error?: GlossaryError;
+}
+
+/**
+ * 配信済みの用語名を取得する関数の型
+ */
+export type TermNamesFetcher = () => Promise<string[]>;
+
+/**
+ * 用語の詳細を取得する関数の型
+ */
+export type GlossaryTermFetcher = (name: string) => Promise<SupabaseQueryResult<GlossaryTerm>>;
+
+/**
+ * GlossaryRepositoryの設定
+ * テスト時にモック関数を注入するために使用
+ */
+export interface GlossaryRepositoryConfig {
+  /** 配信済みの用語名を取得する関数 */
+  namesFetcher?: TermNamesFetcher;
+  /** Supabaseから用語の詳細を取得する関数 */
+  termFetcher?: GlossaryTermFetcher;
+  /** 解説がない用語の解説をバックエンドに要求する関数 */
+  explanationRequester?: GlossaryTermFetcher;
+  /** 現在日時を返す関数 */
+  now?: () => Date;
+}
+
+/**
+ * 端末に保存する用語名データ
+ */
+interface StoredTermNames {
+  /** 取得日(YYYY-MM-DD形式、JST) */
+  date: string;
+  /** 配信済みの用語名 */
+  termNames: string[];
+}
+
+/**
+ * Glossary Repository クラス
+ *
+ * @example
+ * ```typescript
+ * const repository = createGlossaryRepository();
+ * const termNames = await repository.getTermNames();
+ * const result = await repository.getTermDetail('円安');
+ * if (result.success && result.data) {
+ *   console.log(result.data.description);
+ * }
+ * ```
+ */
+export class GlossaryRepository {
+  private readonly namesFetcher: TermNamesFetcher;
+  private readonly termFetcher: GlossaryTermFetcher;
+  private readonly explanationRequester: GlossaryTermFetcher;
+  private readonly now: () => Date;
+  /** 取得済みの用語詳細(アプリ起動中のみ保持) */
+  private readonly termCache = new Map<string, GlossaryTerm>();
+
+  /**
+   * GlossaryRepositoryのコンストラクタ
+   * @param config - 設定(テスト用にモック関数を注入可能)
+   */
+  constructor(config: GlossaryRepositoryConfig = {}) {
+    this.namesFetcher = config.namesFetcher ?? getDeliveredTermNames;
+    this.termFetcher = config.termFetcher ?? fetchGlossaryTermForRepository;
+    this.explanationRequester =
+      config.explanationRequester ?? ((name) => requestTermExplanation(name));
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * 配信済みの用語名を取得する
+   *
+   * 1. 今日取得した用語名が端末に保存されていればそれを返す
+   * 2. オンラインの場合はSupabaseから取得し、端末に保存する
+   * 3. オフラインまたは取得に失敗した場合は保存済みの用語名(なければ空配列)を返す
+   *
+   * @returns 配信済みの用語名
+   */
+  async getTermNames(): Promise<string[]> {
+    const today = formatDateToJST(this.now());
+
+    // Step 1: 今日取得した用語名を確認
+    const stored = await this.loadStoredTermNames();
+    if (stored && stored.date === today) {
+      return stored.termNames;
+    }
+
+    // Step 2: Supabaseから取得
+    if (!isOffline()) {
+      try {
+        const termNames = await this.namesFetcher();
+        await this.saveTermNames({ date: today, termNames });
+        return termNames;
+      } catch (error) {
+        console.warn('[GlossaryRepository] Failed to fetch term names:', error);
+      }
+    }
+
+    // Step 3: 保存済みの用語名で代替
+    return stored?.termNames ?? [];
+  }
+
+  /**
+   * 用語の詳細を取得する
+   *
+   * 1. 取得済みの用語詳細があればそれを返す
+   * 2. オフラインの場合はエラーを返す
+   * 3. Supabaseの配信済み用語・生成済み解説から取得する
+   * 4. 見つからない場合はバックエンドで解説を生成する
+   *
+   * @param name - 用語名
+   * @returns 用語詳細の取得結果
+   */
+  async getTermDetail(name: string): Promise<GlossaryTermResult> {
+    // Step 1: 取得済みの用語詳細を確認
+    const cached = this.termCache.get(name);
+    if (cached) {
+      return { success: true, data: cached };
+    }
+
+    // Step 2: オフラインチェック
+    if (isOffline()) {
+      return {
+        success: false,
+        data: null,
+        error: {
+          code: 'OFFLINE',
+          message: ERROR_MESSAGES.OFFLINE,
+          retryable: true,
+        },
+      };
+    }
+
+    try {
+      // Step 3: Supabaseから取得
+      let result = await this.termFetcher(name);
+
+      // Step 4: 解説がない場合は生成を要求
+      if (!result.exists || !result.data) {
+        result = await this.explanationRequester(name);
+      }
+
+      if (!result.exists || !result.data) {
+        return { success: true, data: null };
+      }
+
+      this.termCache.set(name, result.data);
+      return { success: true, data: result.data };
+    } catch (error) {
+      const supabaseError = error instanceof SupabaseError ? error : toSupabaseError(error);
+
+      console.error('[GlossaryRepository] Failed to fetch term detail:', supabaseError);
+
+      return {
+        success: false,
+        data: null,
+        error: {
+          code: supabaseError.code,
+          message: supabaseError.message,
+          retryable: supabaseError.retryable,
+        },
+      };
+    }
+  }
+
+  /**
+   * 端末に保存した用語名を読み込む
+   *
+   * @returns 保存した用語名(未保存または読み込みに失敗した場合はnull)
+   */
+  private async loadStoredTermNames(): Promise<StoredTermNames | null> {
+    try {
+      const json = await AsyncStorage.getItem(GLOSSARY_TERM_NAMES_KEY);
+      return json ? (JSON.parse(json) as StoredTermNames) : null;
+    } catch (error) {
+      console.warn('[GlossaryRepository] Failed to load stored term names:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 用語名を端末に保存する
+   *
+   * @param stored - 保存する用語名
+   */
+  private async saveTermNames(stored: StoredTermNames): Promise<void> {
+    try {
+      await AsyncStorage.setItem(GLOSSARY_TERM_NAMES_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('[GlossaryRepository] Failed to save term names:', error);
+    }
+  }
+}
+
+/**
+ * デフォルトのGlossaryRepositoryを作成する
+ * 本番環境用のファクトリ関数
+ *
+ * @returns GlossaryRepository
+ */
+export function createGlossaryRepository(): GlossaryRepository {
+  return new GlossaryRepository();
+}
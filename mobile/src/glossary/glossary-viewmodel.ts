@@ -0,0 +1,156 @@
+/**
+ * Glossary ViewModel
+ *
+ * MVVM パターンにおける ViewModel 層。
+ * GlossaryRepository から配信済みの用語名を取得し、
+ * ニュース要約の用語をリンクに置き換える関数と、
+ * リンクから開く用語詳細の状態を View に提供します。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { GlossaryTerm } from '../supabase/types';
+import { GlossaryRepository, GlossaryError, createGlossaryRepository } from './glossary-repository';
+import { buildGlossaryEntries, linkGlossaryTerms } from './glossary-linker';
+
+/**
+ * 用語詳細の状態を表す型
+ * - closed: 用語詳細を表示していない
+ * - loading: 用語詳細の読み込み中(解説の生成中を含む)
+ * - loaded: 用語詳細を表示中
+ * - not-found: 解説が見つからなかった
+ * - error: 取得に失敗した
+ */
+export type TermDetailState = 'closed' | 'loading' | 'loaded' | 'not-found' | 'error';
+
+/**
+ * useGlossaryViewModel の戻り値型
+ * View が用語リンクと用語詳細を表示・操作するために必要な情報を提供
+ */
+export interface GlossaryViewModelResult {
+  /** 配信済みの用語名 */
+  termNames: string[];
+  /** Markdown本文の用語をリンクに置き換える関数 */
+  linkTerms: (markdown: string) => string;
+  /** 用語詳細の状態 */
+  detailState: TermDetailState;
+  /** 表示中の用語名(閉じている場合はnull) */
+  selectedTermName: string | null;
+  /** 表示中の用語詳細(読み込み中・未取得の場合はnull) */
+  detail: GlossaryTerm | null;
+  /** エラー情報(エラー時のみ) */
+  error: GlossaryError | null;
+  /** 用語詳細を開く関数 */
+  openTerm: (name: string) => void;
+  /** 用語詳細を閉じる関数 */
+  closeTerm: () => void;
+  /** 表示中の用語詳細を再取得する関数 */
+  retry: () => Promise<void>;
+}
+
+/**
+ * Glossary ViewModel カスタムフック
+ *
+ * 依存性注入(DI)により、GlossaryRepositoryをパラメータで受け取ります。
+ *
+ * @param repository - GlossaryRepository(省略時はデフォルトを使用)
+ * @returns GlossaryViewModelResult - 用語リンクと用語詳細の表示・操作に必要な状態と関数
+ */
+export function useGlossaryViewModel(repository?: GlossaryRepository): GlossaryViewModelResult {
+  const repo = useMemo(() => repository || createGlossaryRepository(), [repository]);
+
+  // 状態管理
+  const [termNames, setTermNames] = useState<string[]>([]);
+  const [detailState, setDetailState] = useState<TermDetailState>('closed');
+  const [selectedTermName, setSelectedTermName] = useState<string | null>(null);
+  const [detail, setDetail] = useState<GlossaryTerm | null>(null);
+  const [error, setError] = useState<GlossaryError | null>(null);
+
+  // 表示中の用語名(閉じた後や別の用語を開いた後に届いた応答を破棄するために使用)
+  const selectedTermRef = useRef<string | null>(null);
+
+  // マウント時に用語名を取得
+  useEffect(() => {
+    let cancelled = false;
+    repo.getTermNames().then((names) => {
+      if (!cancelled) {
+        setTermNames(names);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [repo]);
+
+  // 用語名が変わった時のみ検出用エントリを再生成
+  const entries = useMemo(() => buildGlossaryEntries(termNames), [termNames]);
+
+  const linkTerms = useCallback(
+    (markdown: string) => linkGlossaryTerms(markdown, entries),
+    [entries]
+  );
+
+  /**
+   * 用語詳細を取得する内部関数
+   * 用語を開いた時とリトライ時に呼ばれる
+   */
+  const fetchDetail = useCallback(
+    async (name: string) => {
+      setDetailState('loading');
+      setDetail(null);
+      setError(null);
+
+      const result = await repo.getTermDetail(name);
+      if (selectedTermRef.current !== name) {
+        return;
+      }
+
+      if (!result.success) {
+        setError(result.error ?? null);
+        setDetailState('error');
+        return;
+      }
+
+      setDetail(result.data);
+      setDetailState(result.data ? 'loaded' : 'not-found');
+    },
+    [repo]
+  );
+
+  const openTerm = useCallback(
+    (name: string) => {
+      selectedTermRef.current = name;
+      setSelectedTermName(name);
+      fetchDetail(name);
+    },
+    [fetchDetail]
+  );
+
+  const closeTerm = useCallback(() => {
+    selectedTermRef.current = null;
+    setSelectedTermName(null);
+    setDetail(null);
+    setError(null);
+    setDetailState('closed');
+  }, []);
+
+  const retry = useCallback(async () => {
+    if (selectedTermRef.current) {
+      await fetchDetail(selectedTermRef.current);
+    }
+  }, [fetchDetail]);
+
+  return {
+    termNames,
+    linkTerms,
+    detailState,
+    selectedTermName,
+    detail,
+    error,
+    openTerm,
+    closeTerm,
+    retry,
+  };
+}
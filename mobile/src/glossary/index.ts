@@ -0,0 +1,39 @@
+/**
+ * Glossary Feature エクスポート
+ *
+ * ニュース要約内の用語リンクと用語詳細の公開APIを提供します。
+ */
+
+export {
+  GLOSSARY_LINK_SCHEME,
+  MIN_GLOSSARY_ALIAS_LENGTH,
+  buildGlossaryEntries,
+  linkGlossaryTerms,
+  parseGlossaryLink,
+  type GlossaryEntry,
+} from './glossary-linker';
+
+export {
+  requestTermExplanation,
+  setTermExplanationApiBaseUrl,
+  type TermExplanationApiConfig,
+} from './term-explanation-api';
+
+export {
+  GlossaryRepository,
+  createGlossaryRepository,
+  GLOSSARY_TERM_NAMES_KEY,
+  type GlossaryError,
+  type GlossaryTermResult,
+  type TermNamesFetcher,
+  type GlossaryTermFetcher,
+  type GlossaryRepositoryConfig,
+} from './glossary-repository';
+
+export {
+  useGlossaryViewModel,
+  type TermDetailState,
+  type GlossaryViewModelResult,
+} from './glossary-viewmodel';
+
+export { TermDetailSheet } from './term-detail-sheet';
@@ -0,0 +1,274 @@
+/**
+ * Term Detail Sheet コンポーネント
+ *
+ * MVVM パターンにおける View 層。
+ * GlossaryViewModelResult を受け取り、ニュース要約の用語リンクから開いた
+ * 用語の解説を画面下部のシートに表示します。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 6.4: 可読性確保
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { useThemeColors } from '../theme';
+import { getDifficultyInfo } from '../terms/terms-screen';
+import { GlossaryViewModelResult } from './glossary-viewmodel';
+
+/**
+ * TermDetailSheetのプロパティ
+ * ViewModelの結果を受け取り、純粋なUIコンポーネントとして動作
+ */
+interface TermDetailSheetProps {
+  /** ViewModelから提供される状態と関数 */
+  viewModelResult: GlossaryViewModelResult;
+}
+
+/**
+ * 用語詳細シートコンポーネント
+ *
+ * 用語詳細の状態に応じて、読み込み中・解説・見つからない・エラーを切り替えて表示します。
+ * 解説が未生成の用語は生成に数秒かかるため、読み込み中にその旨を表示します。
+ *
+ * @param props - TermDetailSheetProps
+ * @returns 用語詳細シートのReactコンポーネント
+ */
+export function TermDetailSheet({ viewModelResult }: TermDetailSheetProps) {
+  const colors = useThemeColors();
+  const { detailState, selectedTermName, detail, error, closeTerm, retry } = viewModelResult;
+
+  const renderContent = () => {
+    switch (detailState) {
+      case 'loading':
+        return (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator
+              testID="term-detail-loading"
+              size="large"
+              color={colors.primary}
+            />
+            <Text style={[styles.loadingText, { color: colors.textSecondary }]}>
+              解説を読み込んでいます...
+            </Text>
+          </View>
+        );
+
+      case 'loaded': {
+        if (!detail) {
+          return null;
+        }
+        const difficultyInfo = getDifficultyInfo(detail.difficulty);
+        return (
+          <ScrollView
+            testID="term-detail-content"
+            contentContainerStyle={styles.scrollContent}
+            accessible={true}
+            accessibilityLabel={`${detail.name}、${difficultyInfo.label}レベル。${detail.description}`}
+          >
+            <View style={styles.header}>
+              <Text style={[styles.termName, { color: colors.text }]}>{detail.name}</Text>
+              <View
+                testID="term-detail-difficulty"
+                style={[styles.difficultyBadge, { backgroundColor: difficultyInfo.color }]}
+              >
+                <Text style={styles.difficultyText}>{difficultyInfo.label}</Text>
+              </View>
+            </View>
+            <Text style={[styles.description, { color: colors.text }]}>
+              {detail.description}
+            </Text>
+            {detail.source === 'generated' && (
+              <Text
+                testID="term-detail-generated-notice"
+                style={[styles.notice, { color: colors.textSecondary }]}
+              >
+                この解説はニュースを読むために自動生成したものです。
+              </Text>
+            )}
+          </ScrollView>
+        );
+      }
+
+      case 'not-found':
+        return (
+          <View style={styles.centerContainer}>
+            <Text
+              testID="term-detail-not-found"
+              style={[styles.message, { color: colors.textSecondary }]}
+            >
+              「{selectedTermName}」の解説は見つかりませんでした。
+            </Text>
+          </View>
+        );
+
+      case 'error':
+        return (
+          <View style={styles.centerContainer} accessibilityRole="alert">
+            <Text
+              testID="term-detail-error"
+              style={[styles.message, { color: colors.errorText }]}
+            >
+              {error?.message ?? '解説を取得できませんでした。'}
+            </Text>
+            {error?.retryable && (
+              <TouchableOpacity
+                testID="term-detail-retry"
+                style={[styles.retryButton, { backgroundColor: colors.primary }]}
+                onPress={retry}
+                activeOpacity={0.7}
+                accessibilityRole="button"
+                accessibilityLabel="再試行ボタン"
+                accessibilityHint="タップして解説の取得を再試行します"
+              >
+                <Text style={[styles.retryButtonText, { color: colors.primaryText }]}>
+                  再試行
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Modal
+      visible={detailState !== 'closed'}
+      transparent={true}
+      animationType="slide"
+      onRequestClose={closeTerm}
+    >
+      <View style={styles.overlay}>
+        <View
+          testID="term-detail-sheet"
+          style={[
+            styles.sheet,
+            { backgroundColor: colors.background, borderColor: colors.cardBorder },
+          ]}
+        >
+          {renderContent()}
+          <TouchableOpacity
+            testID="term-detail-close"
+            style={[styles.closeButton, { borderColor: colors.border }]}
+            onPress={closeTerm}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel="用語の解説を閉じる"
+          >
+            <Text style={[styles.closeButtonText, { color: colors.primary }]}>閉じる</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+/**
+ * スタイル定義
+ *
+ * @see Requirements: 6.4
+ */
+const styles = StyleSheet.create({
+  // 背景(画面下部にシートを表示)
+  overlay: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  sheet: {
+    maxHeight: '70%',
+    minHeight: 240,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    borderWidth: 1,
+    padding: 20,
+  },
+  scrollContent: {
+    paddingBottom: 8,
+  },
+
+  // ヘッダー: 用語名と難易度バッジ
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+    gap: 8,
+  },
+  termName: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    lineHeight: 28,
+  },
+  difficultyBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  difficultyText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 16,
+    lineHeight: 26,
+  },
+  notice: {
+    marginTop: 12,
+    fontSize: 12,
+    lineHeight: 18,
+  },
+
+  // 読み込み中・見つからない・エラー
+  centerContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  loadingText: {
+    marginTop: 12,
+    fontSize: 14,
+  },
+  message: {
+    fontSize: 16,
+    lineHeight: 24,
+    textAlign: 'center',
+  },
+  retryButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  // 閉じるボタン
+  closeButton: {
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
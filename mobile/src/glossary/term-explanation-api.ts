@@ -0,0 +1,106 @@
+/**
+ * 用語解説API クライアント
+ *
+ * Supabaseに解説がない用語について、バックエンドの GET /api/terms/explain を呼び出し、
+ * オンデマンドで生成した解説を取得します。
+ *
+ * Requirements:
+ * - ニュース要約内の既知の用語をリンク表示し、解説がない場合はオンデマンド生成
+ * - 8.5: エラーハンドリング
+ */
+
+import { GlossaryTerm, SupabaseQueryResult } from '../supabase/types';
+import { SupabaseError, toSupabaseError, ERROR_MESSAGES } from '../supabase/errors';
+
+/**
+ * 用語解説APIのパス
+ */
+const TERM_EXPLANATION_PATH = '/api/terms/explain';
+
+/**
+ * バックエンドAPIのベースURL(アプリ起動時に設定)
+ */
+let apiBaseUrl: string | null = null;
+
+/**
+ * バックエンドAPIのベースURLを設定する
+ *
+ * アプリ起動時(app/_layout.tsx)に app.config.js の apiBaseUrl を渡して呼び出します。
+ *
+ * @param baseUrl - バックエンドAPIのベースURL(未設定の場合はnull)
+ */
+export function setTermExplanationApiBaseUrl(baseUrl: string | null): void {
+  apiBaseUrl = baseUrl ? baseUrl.replace(/\/+$/, '') : null;
+}
+
+/**
+ * 用語解説APIの設定
+ * テスト時にモック関数を注入するために使用
+ */
+export interface TermExplanationApiConfig {
+  /** バックエンドAPIのベースURL(省略時は setTermExplanationApiBaseUrl で設定したURL) */
+  baseUrl?: string;
+  /** fetch関数 */
+  fetchFn?: typeof fetch;
+}
+
+/**
+ * 用語解説APIのレスポンス
+ */
+interface TermExplanationResponse {
+  success: boolean;
+  data?: {
+    term: Pick<GlossaryTerm, 'name' | 'description' | 'difficulty'>;
+    source: GlossaryTerm['source'];
+  };
+}
+
+/**
+ * 用語の解説をバックエンドに要求する
+ *
+ * 解説の生成には数秒かかることがあります。
+ * 過去に配信していない用語の場合(404)は見つからなかったものとして扱います。
+ *
+ * @param termName - 用語名
+ * @param config - 設定(テスト用にモック関数を注入可能)
+ * @returns SupabaseQueryResult<GlossaryTerm>
+ * @throws {SupabaseError} APIのURLが未設定の場合、または通信・サーバーエラー発生時
+ */
+export async function requestTermExplanation(
+  termName: string,
+  config: TermExplanationApiConfig = {}
+): Promise<SupabaseQueryResult<GlossaryTerm>> {
+  const baseUrl = config.baseUrl ?? apiBaseUrl;
+  const fetchFn = config.fetchFn ?? fetch;
+
+  if (!baseUrl) {
+    throw new SupabaseError('UNAVAILABLE', ERROR_MESSAGES.UNAVAILABLE, undefined, false);
+  }
+
+  let response: Response;
+  try {
+    response = await fetchFn(
+      `${baseUrl}${TERM_EXPLANATION_PATH}?name=${encodeURIComponent(termName)}`
+    );
+  } catch (error) {
+    throw toSupabaseError(error);
+  }
+
+  if (response.status === 404) {
+    return { data: null, exists: false };
+  }
+
+  if (!response.ok) {
+    throw new SupabaseError('UNAVAILABLE', ERROR_MESSAGES.UNAVAILABLE, undefined, true);
+  }
+
+  const body = (await response.json()) as TermExplanationResponse;
+  if (!body.success || !body.data) {
+    return { data: null, exists: false };
+  }
+
+  return {
+    data: { ...body.data.term, source: body.data.source },
+    exists: true,
+  };
+}
@@ -14,9 +14,10 @@
  */
 
 import { NewsRepository, NewsResult, NewsRepositoryConfig } from '../news-repository';
-import { NewsData, SupabaseQueryResult } from '../../supabase/types';
+import { NewsData, NewsArchivePage, SupabaseQueryResult } from '../../supabase/types';
 import { CacheValidationResult } from '../../cache/cache-manager';
 import { SupabaseError } from '../../supabase/errors';
+import { formatDateToJST } from '../../supabase/queries';
 import * as networkUtils from '../../utils/network';
 
 // モックデータ
@@ -379,4 +380,229 @@ describe('NewsRepository', () => {
       expect(mockSupabaseFetcher).toHaveBeenCalled();
     });
   });
+
+  describe('getNewsByDate(アーカイブ)', () => {
+    const PAST_DATE = '2024-01-15';
+
+    afterEach(() => {
+      networkUtils.setNetworkState(true);
+    });
+
+    it('過去日付のキャッシュがあり、更新日時が変わっていない場合、キャッシュから返す', async () => {
+      const mockArchivedCacheGetter = createMockCacheValidator({
+        data: mockNewsData,
+        isValid: true,
+      });
+      const mockVersionFetcher = jest.fn().mockResolvedValue(mockNewsData.updatedAt);
+      const mockDateFetcher = jest.fn();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: mockArchivedCacheGetter,
+        archiveVersionFetcher: mockVersionFetcher,
+        dateFetcher: mockDateFetcher,
+        cacheSetter: createMockCacheSetter(),
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(mockNewsData);
+      expect(result.source).toBe('cache');
+      expect(mockArchivedCacheGetter).toHaveBeenCalledWith('news', PAST_DATE);
+      expect(mockVersionFetcher).toHaveBeenCalledWith(PAST_DATE);
+      expect(mockDateFetcher).not.toHaveBeenCalled();
+    });
+
+    it('再生成・編集で更新日時が変わった場合、Supabaseから取得し直してキャッシュを更新する', async () => {
+      const updatedNewsData: NewsData = {
+        ...mockNewsData,
+        worldNews: { ...mockNewsData.worldNews, title: '編集後のタイトル' },
+        updatedAt: '2024-01-20T09:00:00.000Z',
+      };
+      const mockDateFetcher = jest.fn().mockResolvedValue({ data: updatedNewsData, exists: true });
+      const mockCacheSetter = createMockCacheSetter();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: createMockCacheValidator({ data: mockNewsData, isValid: true }),
+        archiveVersionFetcher: jest.fn().mockResolvedValue(updatedNewsData.updatedAt),
+        dateFetcher: mockDateFetcher,
+        cacheSetter: mockCacheSetter,
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.data).toEqual(updatedNewsData);
+      expect(result.source).toBe('supabase');
+      expect(mockCacheSetter).toHaveBeenCalledWith('news', PAST_DATE, updatedNewsData);
+    });
+
+    it('非公開になった場合、キャッシュを削除してデータなしを返す', async () => {
+      const mockCacheRemover = jest.fn().mockResolvedValue(undefined);
+      const mockDateFetcher = jest.fn();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: createMockCacheValidator({ data: mockNewsData, isValid: true }),
+        archiveVersionFetcher: jest.fn().mockResolvedValue(null),
+        archivedCacheRemover: mockCacheRemover,
+        dateFetcher: mockDateFetcher,
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toBeNull();
+      expect(mockCacheRemover).toHaveBeenCalledWith('news', PAST_DATE);
+      expect(mockDateFetcher).not.toHaveBeenCalled();
+    });
+
+    it('再検証に失敗した場合、キャッシュから返す', async () => {
+      const mockDateFetcher = jest.fn();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: createMockCacheValidator({ data: mockNewsData, isValid: true }),
+        archiveVersionFetcher: jest.fn().mockRejectedValue(new Error('Network error')),
+        dateFetcher: mockDateFetcher,
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.data).toEqual(mockNewsData);
+      expect(result.source).toBe('cache');
+      expect(mockDateFetcher).not.toHaveBeenCalled();
+    });
+
+    it('オフラインでキャッシュがある場合、再検証せずにキャッシュから返す', async () => {
+      networkUtils.setNetworkState(false);
+      const mockVersionFetcher = jest.fn();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: createMockCacheValidator({ data: mockNewsData, isValid: true }),
+        archiveVersionFetcher: mockVersionFetcher,
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.data).toEqual(mockNewsData);
+      expect(result.source).toBe('cache');
+      expect(mockVersionFetcher).not.toHaveBeenCalled();
+    });
+
+    it('キャッシュがない場合、Supabaseから取得して日付ごとにキャッシュする', async () => {
+      const mockDateFetcher = jest.fn().mockResolvedValue({
+        data: mockNewsData,
+        exists: true,
+      });
+      const mockCacheSetter = createMockCacheSetter();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: createMockCacheValidator({ data: null, isValid: false }),
+        dateFetcher: mockDateFetcher,
+        cacheSetter: mockCacheSetter,
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(mockNewsData);
+      expect(result.source).toBe('supabase');
+      expect(mockDateFetcher).toHaveBeenCalledWith(PAST_DATE);
+      expect(mockCacheSetter).toHaveBeenCalledWith('news', PAST_DATE, mockNewsData);
+    });
+
+    it('オフラインでキャッシュがない場合、OFFLINEエラーを返す', async () => {
+      networkUtils.setNetworkState(false);
+      const mockDateFetcher = jest.fn();
+
+      const repository = new NewsRepository({
+        archivedCacheGetter: createMockCacheValidator({ data: null, isValid: false }),
+        dateFetcher: mockDateFetcher,
+      });
+
+      const result = await repository.getNewsByDate(PAST_DATE);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('OFFLINE');
+      expect(mockDateFetcher).not.toHaveBeenCalled();
+    });
+
+    it('今日の日付を指定した場合、getTodayNewsと同じくメタデータ検証付きキャッシュを使用する', async () => {
+      const today = formatDateToJST(new Date());
+      const mockCacheValidator = createMockCacheValidator({
+        data: mockNewsData,
+        isValid: true,
+      });
+      const mockArchivedCacheGetter = jest.fn();
+
+      const repository = new NewsRepository({
+        cacheValidator: mockCacheValidator,
+        archivedCacheGetter: mockArchivedCacheGetter,
+      });
+
+      const result = await repository.getNewsByDate(today);
+
+      expect(result.source).toBe('cache');
+      expect(mockCacheValidator).toHaveBeenCalledWith('news', today);
+      expect(mockArchivedCacheGetter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getNewsArchive', () => {
+    const mockPage: NewsArchivePage = {
+      entries: [
+        { date: '2024-01-15', worldNewsTitle: '世界1', japanNewsTitle: '日本1' },
+        { date: '2024-01-14', worldNewsTitle: '世界2', japanNewsTitle: '日本2' },
+      ],
+      nextCursor: '2024-01-14',
+    };
+
+    afterEach(() => {
+      networkUtils.setNetworkState(true);
+    });
+
+    it('カーソルを渡してアーカイブの1ページを取得する', async () => {
+      const mockArchiveFetcher = jest.fn().mockResolvedValue(mockPage);
+      const repository = new NewsRepository({ archiveFetcher: mockArchiveFetcher });
+
+      const result = await repository.getNewsArchive('2024-01-16');
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual(mockPage);
+      expect(mockArchiveFetcher).toHaveBeenCalledWith('2024-01-16');
+    });
+
+    it('カーソル省略時はnullで最新から取得する', async () => {
+      const mockArchiveFetcher = jest.fn().mockResolvedValue(mockPage);
+      const repository = new NewsRepository({ archiveFetcher: mockArchiveFetcher });
+
+      await repository.getNewsArchive();
+
+      expect(mockArchiveFetcher).toHaveBeenCalledWith(null);
+    });
+
+    it('Supabaseエラー時はエラー情報を返す', async () => {
+      const mockArchiveFetcher = jest
+        .fn()
+        .mockRejectedValue(new SupabaseError('CONNECTION_FAILED', 'Network error', undefined, true));
+      const repository = new NewsRepository({ archiveFetcher: mockArchiveFetcher });
+
+      const result = await repository.getNewsArchive();
+
+      expect(result.success).toBe(false);
+      expect(result.data).toBeNull();
+      expect(result.error?.code).toBe('CONNECTION_FAILED');
+      expect(result.error?.retryable).toBe(true);
+    });
+
+    it('オフライン時はOFFLINEエラーを返す', async () => {
+      networkUtils.setNetworkState(false);
+      const mockArchiveFetcher = jest.fn();
+      const repository = new NewsRepository({ archiveFetcher: mockArchiveFetcher });
+
+      const result = await repository.getNewsArchive();
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('OFFLINE');
+      expect(mockArchiveFetcher).not.toHaveBeenCalled();
+    });
+  });
 });
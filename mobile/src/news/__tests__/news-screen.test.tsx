@@ -7,6 +7,7 @@
 
 import React from 'react';
 import { render, fireEvent } from '@testing-library/react-native';
+import { Linking } from 'react-native';
 import { NewsScreen } from '../news-screen';
 import { NewsViewModelResult } from '../news-viewmodel';
 import { ThemeProvider } from '../../theme';
@@ -32,8 +33,17 @@ const createMockViewModelResult = (
   loading: false,
   worldNews: mockWorldNews,
   japanNews: mockJapanNews,
+  newsDate: '2024-01-07',
+  categories: [],
   error: null,
   retry: jest.fn(),
+  selectedDate: null,
+  selectDate: jest.fn(),
+  archive: [],
+  archiveLoading: false,
+  hasMoreArchive: true,
+  archiveError: null,
+  loadOlder: jest.fn(),
   ...overrides,
 });
 
@@ -249,4 +259,155 @@ describe('NewsScreen', () => {
       expect(hasFlex).toBe(true);
     });
   });
+
+  describe('出典表示', () => {
+    const mockSources = [
+      {
+        title: 'Fed holds rates steady',
+        outlet: 'Reuters',
+        url: 'https://example.com/fed',
+        publishedAt: '2024-01-07T01:00:00.000Z',
+      },
+      {
+        title: 'Markets react to Fed decision',
+        outlet: 'Bloomberg',
+        url: 'https://example.com/markets',
+        publishedAt: null,
+      },
+    ];
+
+    it('出典がある場合は件数付きの見出しを表示し、タップで一覧を展開する', () => {
+      const viewModelResult = createMockViewModelResult({
+        worldNews: { ...mockWorldNews, sources: mockSources },
+      });
+      const { getByText, queryByText, getByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} />
+      );
+
+      expect(getByText(/出典（2件）/)).toBeTruthy();
+      expect(queryByText('Fed holds rates steady')).toBeNull();
+
+      fireEvent.press(getByTestId('news-sources-toggle-world'));
+
+      expect(getByText('Fed holds rates steady')).toBeTruthy();
+      expect(getByText('Markets react to Fed decision')).toBeTruthy();
+    });
+
+    it('出典をタップすると元記事のURLを開く', () => {
+      const openURLSpy = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+      const viewModelResult = createMockViewModelResult({
+        worldNews: { ...mockWorldNews, sources: mockSources },
+      });
+      const { getByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} />
+      );
+
+      fireEvent.press(getByTestId('news-sources-toggle-world'));
+      fireEvent.press(getByTestId('news-source-link-world-1'));
+
+      expect(openURLSpy).toHaveBeenCalledWith('https://example.com/markets');
+      openURLSpy.mockRestore();
+    });
+
+    it('出典がない場合は出典セクションを表示しない', () => {
+      const viewModelResult = createMockViewModelResult();
+      const { queryByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} />
+      );
+
+      expect(queryByTestId('news-sources-world')).toBeNull();
+      expect(queryByTestId('news-sources-japan')).toBeNull();
+    });
+  });
+
+  describe('テーマ別カテゴリ表示', () => {
+    const mockCategories = [
+      {
+        category: 'markets' as const,
+        title: '米株が続伸',
+        summary: '主要株価指数がそろって上昇しました。',
+        articleCount: 3,
+        updatedAt: '2024-01-07T08:00:00.000Z',
+      },
+      {
+        category: 'fx' as const,
+        title: '円安が進行',
+        summary: 'ドル円は148円台で推移しました。',
+        articleCount: 2,
+        updatedAt: '2024-01-07T08:00:00.000Z',
+      },
+    ];
+
+    it('カテゴリ名とタイトルを表示し、タップで要約を展開する', () => {
+      const viewModelResult = createMockViewModelResult({ categories: mockCategories });
+      const { getByText, queryByText, getByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} />
+      );
+
+      expect(getByText('トピック別')).toBeTruthy();
+      expect(getByTestId('news-category-markets')).toBeTruthy();
+      expect(getByTestId('news-category-fx')).toBeTruthy();
+      expect(getByText('米株が続伸')).toBeTruthy();
+      expect(queryByText('主要株価指数がそろって上昇しました。')).toBeNull();
+
+      fireEvent.press(getByTestId('news-category-toggle-markets'));
+
+      expect(getByText('主要株価指数がそろって上昇しました。')).toBeTruthy();
+      expect(queryByText('ドル円は148円台で推移しました。')).toBeNull();
+    });
+
+    it('カテゴリ別要約がない場合はセクションを表示しない', () => {
+      const viewModelResult = createMockViewModelResult();
+      const { queryByTestId, queryByText } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} />
+      );
+
+      expect(queryByTestId('news-categories')).toBeNull();
+      expect(queryByText('トピック別')).toBeNull();
+    });
+  });
+
+  describe('ブックマーク', () => {
+    it('ブックマーク操作を渡さない場合は保存ボタンを表示しない', () => {
+      const viewModelResult = createMockViewModelResult();
+      const { queryByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} />
+      );
+
+      expect(queryByTestId('news-bookmark-button')).toBeNull();
+    });
+
+    it('保存ボタンをタップすると表示中の日付のニュースの保存を切り替える', () => {
+      const viewModelResult = createMockViewModelResult();
+      const bookmarks = {
+        isBookmarked: jest.fn().mockReturnValue(false),
+        toggleNewsBookmark: jest.fn(),
+      };
+      const { getByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} bookmarks={bookmarks} />
+      );
+
+      fireEvent.press(getByTestId('news-bookmark-button'));
+
+      expect(bookmarks.isBookmarked).toHaveBeenCalledWith('news', '2024-01-07');
+      expect(bookmarks.toggleNewsBookmark).toHaveBeenCalledWith({
+        date: '2024-01-07',
+        worldNews: mockWorldNews,
+        japanNews: mockJapanNews,
+      });
+    });
+
+    it('ニュースが揃っていない場合は保存ボタンを表示しない', () => {
+      const viewModelResult = createMockViewModelResult({ japanNews: null });
+      const bookmarks = {
+        isBookmarked: jest.fn().mockReturnValue(false),
+        toggleNewsBookmark: jest.fn(),
+      };
+      const { queryByTestId } = renderWithTheme(
+        <NewsScreen viewModelResult={viewModelResult} bookmarks={bookmarks} />
+      );
+
+      expect(queryByTestId('news-bookmark-button')).toBeNull();
+    });
+  });
 });
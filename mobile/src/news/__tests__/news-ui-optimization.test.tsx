@@ -32,8 +32,17 @@ const createMockViewModelResult = (
   loading: false,
   worldNews: mockWorldNews,
   japanNews: mockJapanNews,
+  newsDate: '2024-01-07',
+  categories: [],
   error: null,
   retry: jest.fn(),
+  selectedDate: null,
+  selectDate: jest.fn(),
+  archive: [],
+  archiveLoading: false,
+  hasMoreArchive: true,
+  archiveError: null,
+  loadOlder: jest.fn(),
   ...overrides,
 });
 
@@ -200,7 +209,8 @@ describe('News UI最適化テスト', () => {
       );
 
       // ボタンとしてのアクセシビリティが設定されていることを確認
-      expect(getByRole('button')).toBeTruthy();
+      // (日付バーの「過去のニュース」ボタンと区別するため、ラベルで特定する)
+      expect(getByRole('button', { name: '再試行ボタン' })).toBeTruthy();
     });
 
     it('ローディング状態がアクセシブルである', () => {
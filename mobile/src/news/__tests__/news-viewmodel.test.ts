@@ -12,7 +12,12 @@
 
 import { renderHook, act, waitFor } from '@testing-library/react-native';
 import { useNewsViewModel, NewsState } from '../news-viewmodel';
-import { NewsRepository, NewsResult, NewsError } from '../news-repository';
+import {
+  NewsRepository,
+  NewsResult,
+  NewsError,
+  NewsArchiveResult,
+} from '../news-repository';
 import { NewsData } from '../../supabase/types';
 
 // モックデータ
@@ -111,6 +116,38 @@ describe('useNewsViewModel', () => {
       expect(result.current.worldNews).toBeNull();
       expect(result.current.japanNews).toBeNull();
     });
+
+    it('テーマ別カテゴリの要約を保持する', async () => {
+      const categories = [
+        {
+          category: 'macro' as const,
+          title: '日銀が政策金利を据え置き',
+          summary: '日銀は金融政策決定会合で現状維持を決めました。',
+          articleCount: 2,
+          updatedAt: '2026-01-07T08:00:00.000Z',
+        },
+      ];
+      const mockRepo = createMockRepository({ data: { ...mockNewsData, categories } });
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+      expect(result.current.categories).toEqual(categories);
+    });
+
+    it('カテゴリ別要約がないニュースデータの場合、categoriesは空配列', async () => {
+      const mockRepo = createMockRepository();
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.loading).toBe(false);
+      });
+
+      expect(result.current.categories).toEqual([]);
+    });
   });
 
   describe('Task 18.2: Newsローディング・エラー状態管理', () => {
@@ -334,4 +371,171 @@ describe('useNewsViewModel', () => {
       expect(result.current.japanNews).not.toBeNull();
     });
   });
+
+  describe('アーカイブ閲覧', () => {
+    const pastNewsData: NewsData = {
+      ...mockNewsData,
+      date: '2026-01-05',
+      worldNews: { ...mockNewsData.worldNews, title: '過去の世界経済ニュース' },
+    };
+
+    function createArchiveRepository(): NewsRepository {
+      return {
+        getTodayNews: jest.fn().mockResolvedValue({
+          success: true,
+          data: mockNewsData,
+          source: 'supabase',
+        } as NewsResult),
+        getNewsByDate: jest.fn().mockResolvedValue({
+          success: true,
+          data: pastNewsData,
+          source: 'supabase',
+        } as NewsResult),
+        getNewsArchive: jest
+          .fn()
+          .mockResolvedValueOnce({
+            success: true,
+            data: {
+              entries: [
+                { date: '2026-01-07', worldNewsTitle: '世界1', japanNewsTitle: '日本1' },
+                { date: '2026-01-06', worldNewsTitle: '世界2', japanNewsTitle: '日本2' },
+              ],
+              nextCursor: '2026-01-06',
+            },
+          } as NewsArchiveResult)
+          .mockResolvedValueOnce({
+            success: true,
+            data: {
+              entries: [
+                { date: '2026-01-05', worldNewsTitle: '世界3', japanNewsTitle: '日本3' },
+              ],
+              nextCursor: null,
+            },
+          } as NewsArchiveResult),
+      } as unknown as NewsRepository;
+    }
+
+    it('初期状態では今日のニュースを表示し、アーカイブは未読み込み', async () => {
+      const mockRepo = createArchiveRepository();
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('success');
+      });
+
+      expect(result.current.selectedDate).toBeNull();
+      expect(result.current.archive).toEqual([]);
+      expect(result.current.hasMoreArchive).toBe(true);
+      expect(mockRepo.getNewsArchive).not.toHaveBeenCalled();
+    });
+
+    it('loadOlderでカーソルを引き継ぎながら古いアーカイブを追加読み込みする', async () => {
+      const mockRepo = createArchiveRepository();
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('success');
+      });
+
+      await act(async () => {
+        await result.current.loadOlder();
+      });
+
+      expect(mockRepo.getNewsArchive).toHaveBeenLastCalledWith(null);
+      expect(result.current.archive.map((entry) => entry.date)).toEqual([
+        '2026-01-07',
+        '2026-01-06',
+      ]);
+      expect(result.current.hasMoreArchive).toBe(true);
+
+      await act(async () => {
+        await result.current.loadOlder();
+      });
+
+      expect(mockRepo.getNewsArchive).toHaveBeenLastCalledWith('2026-01-06');
+      expect(result.current.archive).toHaveLength(3);
+      expect(result.current.hasMoreArchive).toBe(false);
+
+      // 最終ページ到達後は読み込まない
+      await act(async () => {
+        await result.current.loadOlder();
+      });
+
+      expect(mockRepo.getNewsArchive).toHaveBeenCalledTimes(2);
+    });
+
+    it('アーカイブ取得失敗時はarchiveErrorを設定する', async () => {
+      const mockRepo = {
+        ...createArchiveRepository(),
+        getNewsArchive: jest.fn().mockResolvedValue({
+          success: false,
+          data: null,
+          error: mockError,
+        } as NewsArchiveResult),
+      } as unknown as NewsRepository;
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('success');
+      });
+
+      await act(async () => {
+        await result.current.loadOlder();
+      });
+
+      expect(result.current.archiveError).toEqual(mockError);
+      expect(result.current.archive).toEqual([]);
+      expect(result.current.archiveLoading).toBe(false);
+    });
+
+    it('selectDateで指定日のニュースに切り替え、nullで今日に戻る', async () => {
+      const mockRepo = createArchiveRepository();
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('success');
+      });
+
+      await act(async () => {
+        await result.current.selectDate('2026-01-05');
+      });
+
+      expect(mockRepo.getNewsByDate).toHaveBeenCalledWith('2026-01-05');
+      expect(result.current.selectedDate).toBe('2026-01-05');
+      expect(result.current.worldNews).toEqual(pastNewsData.worldNews);
+
+      await act(async () => {
+        await result.current.selectDate(null);
+      });
+
+      expect(result.current.selectedDate).toBeNull();
+      expect(result.current.worldNews).toEqual(mockNewsData.worldNews);
+      expect(mockRepo.getTodayNews).toHaveBeenCalledTimes(2);
+    });
+
+    it('過去日付の表示中にリトライすると同じ日付を再取得する', async () => {
+      const mockRepo = createArchiveRepository();
+
+      const { result } = renderHook(() => useNewsViewModel(mockRepo));
+
+      await waitFor(() => {
+        expect(result.current.state).toBe('success');
+      });
+
+      await act(async () => {
+        await result.current.selectDate('2026-01-05');
+      });
+
+      await act(async () => {
+        await result.current.retry();
+      });
+
+      expect(mockRepo.getNewsByDate).toHaveBeenCalledTimes(2);
+      expect(mockRepo.getNewsByDate).toHaveBeenLastCalledWith('2026-01-05');
+    });
+  });
 });
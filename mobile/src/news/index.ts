@@ -10,11 +10,14 @@ export {
   NewsRepository,
   createNewsRepository,
   type NewsResult,
+  type NewsArchiveResult,
   type NewsError,
   type NewsSource,
   type NewsRepositoryConfig,
   type CacheValidator,
   type CacheSetter,
+  type DateNewsFetcher,
+  type ArchiveFetcher,
 } from './news-repository';
 
 export {
@@ -24,3 +27,4 @@ export {
 } from './news-viewmodel';
 
 export { NewsScreen } from './news-screen';
+export { NewsArchiveScreen } from './news-archive-screen';
@@ -0,0 +1,273 @@
+/**
+ * News Archive Screen コンポーネント
+ *
+ * 過去ニュースのアーカイブ一覧を表示します。
+ * 日付の新しい順に並べ、末尾までスクロールすると古い日付を追加で読み込みます。
+ * 日付をタップするとその日のニュースに切り替わります。
+ *
+ * MVVM パターンにおける View 層。
+ * NewsViewModelResult のアーカイブ関連の状態を受け取り表示します。
+ *
+ * @see design.md - Architecture - News Feature
+ */
+
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useThemeColors } from '../theme';
+import { NewsArchiveEntry } from '../supabase/types';
+import { NewsViewModelResult } from './news-viewmodel';
+
+/**
+ * NewsArchiveScreenのプロパティ
+ */
+interface NewsArchiveScreenProps {
+  /** ViewModelから提供される状態と関数 */
+  viewModelResult: NewsViewModelResult;
+  /** 日付が選択されたときのコールバック */
+  onSelectDate: (date: string) => void;
+  /** 一覧を閉じるときのコールバック */
+  onClose: () => void;
+}
+
+/**
+ * 日付をフォーマットする関数
+ * YYYY-MM-DD形式の日付文字列を「YYYY/MM/DD」形式に変換
+ *
+ * @param dateStr - YYYY-MM-DD形式の日付文字列
+ * @returns フォーマットされた日付文字列
+ */
+export const formatArchiveDate = (dateStr: string): string => dateStr.replace(/-/g, '/');
+
+/**
+ * アーカイブ一覧の項目コンポーネント
+ */
+interface ArchiveItemProps {
+  /** 一覧項目 */
+  entry: NewsArchiveEntry;
+  /** 選択中の日付かどうか */
+  selected: boolean;
+  /** タップ時のコールバック */
+  onPress: (date: string) => void;
+}
+
+function ArchiveItem({ entry, selected, onPress }: ArchiveItemProps) {
+  const colors = useThemeColors();
+
+  return (
+    <TouchableOpacity
+      testID={`news-archive-item-${entry.date}`}
+      style={[
+        styles.item,
+        {
+          backgroundColor: colors.card,
+          borderColor: selected ? colors.primary : colors.cardBorder,
+        },
+      ]}
+      onPress={() => onPress(entry.date)}
+      activeOpacity={0.7}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={`${formatArchiveDate(entry.date)}のニュース`}
+      accessibilityHint="タップしてこの日のニュースを表示します"
+    >
+      <Text style={[styles.itemDate, { color: colors.primary }]}>
+        {formatArchiveDate(entry.date)}
+      </Text>
+      <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+        {entry.worldNewsTitle}
+      </Text>
+      <Text style={[styles.itemTitle, { color: colors.text }]} numberOfLines={1}>
+        {entry.japanNewsTitle}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * ニュースアーカイブ画面コンポーネント
+ *
+ * 初回表示時にアーカイブが未読み込みであれば最新ページを読み込みます。
+ *
+ * @param props - NewsArchiveScreenProps
+ * @returns ニュースアーカイブ画面のReactコンポーネント
+ */
+export function NewsArchiveScreen({
+  viewModelResult,
+  onSelectDate,
+  onClose,
+}: NewsArchiveScreenProps) {
+  const colors = useThemeColors();
+  const {
+    archive,
+    archiveLoading,
+    hasMoreArchive,
+    archiveError,
+    loadOlder,
+    selectedDate,
+  } = viewModelResult;
+
+  // 初回表示時に最新ページを読み込む
+  useEffect(() => {
+    if (archive.length === 0 && hasMoreArchive && !archiveError) {
+      loadOlder();
+    }
+    // 初回表示時のみ実行する
+  }, []);
+
+  return (
+    <View
+      testID="news-archive-container"
+      style={[styles.container, { backgroundColor: colors.background }]}
+    >
+      {/* ヘッダー */}
+      <View style={[styles.header, { borderBottomColor: colors.cardBorder }]}>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>
+          過去のニュース
+        </Text>
+        <TouchableOpacity
+          testID="news-archive-close"
+          onPress={onClose}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="閉じる"
+        >
+          <Text style={[styles.headerButton, { color: colors.primary }]}>閉じる</Text>
+        </TouchableOpacity>
+      </View>
+
+      <FlatList
+        testID="news-archive-list"
+        data={archive}
+        keyExtractor={(entry) => entry.date}
+        contentContainerStyle={styles.listContent}
+        renderItem={({ item }) => (
+          <ArchiveItem
+            entry={item}
+            selected={item.date === selectedDate}
+            onPress={onSelectDate}
+          />
+        )}
+        onEndReached={() => {
+          if (!archiveError) {
+            loadOlder();
+          }
+        }}
+        onEndReachedThreshold={0.5}
+        ListEmptyComponent={
+          !archiveLoading && !archiveError ? (
+            <Text style={[styles.messageText, { color: colors.textSecondary }]}>
+              過去のニュースはまだありません。
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          <View style={styles.footer}>
+            {archiveLoading && (
+              <ActivityIndicator
+                testID="news-archive-loading"
+                color={colors.primary}
+              />
+            )}
+            {archiveError && (
+              <View style={styles.errorContainer}>
+                <Text style={[styles.messageText, { color: colors.errorText }]}>
+                  {archiveError.message}
+                </Text>
+                {archiveError.retryable && (
+                  <TouchableOpacity
+                    testID="news-archive-retry"
+                    style={[styles.retryButton, { backgroundColor: colors.primary }]}
+                    onPress={loadOlder}
+                    accessible={true}
+                    accessibilityRole="button"
+                    accessibilityLabel="再試行ボタン"
+                  >
+                    <Text style={[styles.retryButtonText, { color: colors.primaryText }]}>
+                      再試行
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+          </View>
+        }
+      />
+    </View>
+  );
+}
+
+/**
+ * スタイル定義
+ *
+ * ニュース画面(news-screen.tsx)と同じフォントサイズ基準に合わせる
+ *
+ * @see Requirements: 6.3, 6.4, 6.5
+ */
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  headerButton: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  listContent: {
+    padding: 16,
+    gap: 12,
+  },
+  item: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 16,
+  },
+  itemDate: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  itemTitle: {
+    fontSize: 16,
+    lineHeight: 24,
+  },
+  footer: {
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  errorContainer: {
+    alignItems: 'center',
+  },
+  messageText: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  retryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
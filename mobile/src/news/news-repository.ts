@@ -12,15 +12,19 @@
  * - 2.5: オフライン時キャッシュ済みニュース表示
  * - 7.5: エラー時リトライオプション提供
  * - 10: オフライン対応強化
+ * - 過去ニュースのアーカイブ閲覧
  *
  * @see design.md - Architecture - News Feature
  */
 
-import { NewsData, SupabaseQueryResult } from '../supabase/types';
+import { NewsData, NewsArchivePage, SupabaseQueryResult } from '../supabase/types';
 import { CacheValidationResult, CacheManager } from '../cache/cache-manager';
 import {
   fetchTodayNewsForRepository,
+  fetchNewsByDateForRepository,
+  fetchNewsArchiveForRepository,
   fetchBatchMetadataForCache,
+  getNewsUpdatedAt,
   formatDateToJST,
 } from '../supabase/queries';
 import { SupabaseError, toSupabaseError, SupabaseErrorCode, ERROR_MESSAGES } from '../supabase/errors';
@@ -61,12 +65,36 @@ export interface NewsResult {
   error?: NewsError;
 }
 
+/**
+ * ニュースアーカイブ取得結果
+ */
+export interface NewsArchiveResult {
+  /** 取得成功かどうか */
+  success: boolean;
+  /** アーカイブのページ(失敗時はnull) */
+  data: NewsArchivePage | null;
+  /** エラー情報(失敗時のみ) */
+  error?: NewsError;
+}
+
 /**
  * Supabaseからニュースを取得する関数の型
  * テスト時にモック可能にするため型定義
  */
 export type SupabaseFetcher = () => Promise<SupabaseQueryResult<NewsData>>;
 
+/**
+ * Supabaseから指定日のニュースを取得する関数の型
+ * テスト時にモック可能にするため型定義
+ */
+export type DateNewsFetcher = (date: string) => Promise<SupabaseQueryResult<NewsData>>;
+
+/**
+ * Supabaseからニュースアーカイブの1ページを取得する関数の型
+ * テスト時にモック可能にするため型定義
+ */
+export type ArchiveFetcher = (beforeDate: string | null) => Promise<NewsArchivePage>;
+
 /**
  * キャッシュを検証する関数の型
  * テスト時にモック可能にするため型定義
@@ -86,6 +114,18 @@ export type CacheSetter = (
   data: NewsData
 ) => Promise<void>;
 
+/**
+ * Supabaseから公開中のニュースの更新日時を取得する関数の型
+ * テスト時にモック可能にするため型定義
+ */
+export type NewsVersionFetcher = (date: string) => Promise<string | null>;
+
+/**
+ * キャッシュを削除する関数の型
+ * テスト時にモック可能にするため型定義
+ */
+export type CacheRemover = (type: 'news' | 'terms', dateStr: string) => Promise<void>;
+
 /**
  * News Repository設定
  * 依存性注入(DI)によりテスタビリティを向上
@@ -97,6 +137,16 @@ export interface NewsRepositoryConfig {
   cacheValidator?: CacheValidator;
   /** キャッシュを保存する関数 */
   cacheSetter?: CacheSetter;
+  /** Supabaseから指定日のニュースを取得する関数 */
+  dateFetcher?: DateNewsFetcher;
+  /** Supabaseからニュースアーカイブを取得する関数 */
+  archiveFetcher?: ArchiveFetcher;
+  /** 過去日付のキャッシュを取得する関数 */
+  archivedCacheGetter?: CacheValidator;
+  /** 過去日付のキャッシュの再検証に使う、公開中のニュースの更新日時を取得する関数 */
+  archiveVersionFetcher?: NewsVersionFetcher;
+  /** 過去日付のキャッシュを削除する関数 */
+  archivedCacheRemover?: CacheRemover;
 }
 
 /**
@@ -118,6 +168,11 @@ export class NewsRepository {
   private supabaseFetcher: SupabaseFetcher;
   private cacheValidator: CacheValidator;
   private cacheSetter: CacheSetter;
+  private dateFetcher: DateNewsFetcher;
+  private archiveFetcher: ArchiveFetcher;
+  private archivedCacheGetter: CacheValidator;
+  private archiveVersionFetcher: NewsVersionFetcher;
+  private archivedCacheRemover: CacheRemover;
 
   /**
    * NewsRepositoryのコンストラクタ
@@ -142,6 +197,30 @@ export class NewsRepository {
         const cacheManager = new CacheManager(fetchBatchMetadataForCache);
         return cacheManager.setCache(type, dateStr, data);
       });
+
+    // 過去日付のニュース取得
+    this.dateFetcher = config?.dateFetcher || fetchNewsByDateForRepository;
+
+    // アーカイブ一覧の取得
+    this.archiveFetcher =
+      config?.archiveFetcher || ((beforeDate) => fetchNewsArchiveForRepository(beforeDate));
+
+    // 過去日付のキャッシュ取得: メタデータは当日バッチで更新されるためチェックしない
+    // (オンライン時はニュースの更新日時で再検証する)
+    this.archivedCacheGetter =
+      config?.archivedCacheGetter ||
+      ((type, dateStr) => {
+        const cacheManager = new CacheManager(fetchBatchMetadataForCache);
+        return cacheManager.getArchivedCache<NewsData>(type, dateStr);
+      });
+
+    // 過去日付のキャッシュの再検証
+    this.archiveVersionFetcher = config?.archiveVersionFetcher || getNewsUpdatedAt;
+
+    // 過去日付のキャッシュ削除(非公開になったニュースを端末に残さない)
+    this.archivedCacheRemover =
+      config?.archivedCacheRemover ||
+      ((type, dateStr) => new CacheManager(fetchBatchMetadataForCache).removeCache(type, dateStr));
   }
 
   /**
@@ -197,22 +276,143 @@ export class NewsRepository {
 
       // キャッシュもない場合はエラー
       console.warn('[NewsRepository] No cached data available while offline');
+      return createOfflineResult();
+    }
+
+    // Step 2: Supabaseからデータを取得
+    return this.fetchAndCache(today, () => this.supabaseFetcher());
+  }
+
+  /**
+   * 指定日のニュースを取得する
+   *
+   * 今日の日付が指定された場合はgetTodayNewsと同じ動作をします。
+   * 過去日付の場合は以下の順で取得します。
+   *
+   * 1. 過去日付のキャッシュを確認(メタデータチェックなし)
+   * 2. オフラインの場合はキャッシュを返す(キャッシュがない場合はエラー)
+   * 3. キャッシュがある場合はニュースの更新日時で再検証する
+   *    - 更新日時が同じ場合はキャッシュを返す
+   *    - 非公開・削除された場合はキャッシュを削除し、データなしを返す
+   *    - 再生成・管理者の編集で更新された場合は取得し直す
+   *    - 再検証に失敗した場合はキャッシュを返す
+   * 4. Supabaseから取得してキャッシュに保存
+   *
+   * @param date - 取得する日付(YYYY-MM-DD形式)
+   * @returns ニュース取得結果
+   */
+  async getNewsByDate(date: string): Promise<NewsResult> {
+    const today = formatDateToJST(new Date());
+
+    if (date === today) {
+      return this.getTodayNews();
+    }
+
+    // Step 1: 過去日付のキャッシュを確認
+    let cached: NewsData | null = null;
+    try {
+      const cacheResult = await this.archivedCacheGetter('news', date);
+
+      if (cacheResult.isValid && cacheResult.data) {
+        cached = cacheResult.data;
+      }
+    } catch (error) {
+      console.warn('[NewsRepository] Archive cache read failed, falling back to Supabase:', error);
+    }
+
+    // Step 2: オフラインチェック
+    if (isOffline()) {
+      if (cached) {
+        console.log(`[NewsRepository] Returning cached archive data for ${date} (offline)`);
+        return { success: true, data: cached, source: 'cache' };
+      }
+
+      console.warn(`[NewsRepository] No cached archive data for ${date} while offline`);
+      return createOfflineResult();
+    }
+
+    // Step 3: キャッシュをニュースの更新日時で再検証
+    if (cached) {
+      try {
+        const updatedAt = await this.archiveVersionFetcher(date);
+
+        if (updatedAt === cached.updatedAt) {
+          console.log(`[NewsRepository] Returning cached archive data for ${date}`);
+          return { success: true, data: cached, source: 'cache' };
+        }
+
+        if (updatedAt === null) {
+          console.log(`[NewsRepository] Archive data for ${date} is no longer published`);
+          await this.archivedCacheRemover('news', date);
+          return { success: true, data: null, source: 'supabase' };
+        }
+
+        console.log(`[NewsRepository] Archive data for ${date} was updated, refetching`);
+      } catch (error) {
+        console.warn('[NewsRepository] Archive cache revalidation failed, using cache:', error);
+        return { success: true, data: cached, source: 'cache' };
+      }
+    }
+
+    // Step 4: Supabaseからデータを取得
+    return this.fetchAndCache(date, () => this.dateFetcher(date));
+  }
+
+  /**
+   * ニュースアーカイブの1ページを取得する
+   *
+   * 一覧はページングのたびに変化しうるためキャッシュせず、常にSupabaseから取得します。
+   *
+   * @param beforeDate - カーソル(この日付より古いものを取得。省略時は最新から)
+   * @returns アーカイブ取得結果
+   */
+  async getNewsArchive(beforeDate: string | null = null): Promise<NewsArchiveResult> {
+    if (isOffline()) {
+      return {
+        success: false,
+        data: null,
+        error: createOfflineError(),
+      };
+    }
+
+    try {
+      const page = await this.archiveFetcher(beforeDate);
+      return {
+        success: true,
+        data: page,
+      };
+    } catch (error) {
+      const supabaseError =
+        error instanceof SupabaseError ? error : toSupabaseError(error);
+
+      console.error('[NewsRepository] Failed to fetch news archive:', supabaseError);
+
       return {
         success: false,
         data: null,
-        source: 'cache',
         error: {
-          code: 'OFFLINE',
-          message: ERROR_MESSAGES.OFFLINE,
-          retryable: true,
+          code: supabaseError.code,
+          message: supabaseError.message,
+          retryable: supabaseError.retryable,
         },
       };
     }
+  }
 
-    // Step 2: Supabaseからデータを取得
+  /**
+   * Supabaseからニュースを取得し、キャッシュに保存する
+   *
+   * @param dateStr - キャッシュキーに使用する日付(YYYY-MM-DD形式)
+   * @param fetcher - Supabaseからニュースを取得する関数
+   * @returns ニュース取得結果
+   */
+  private async fetchAndCache(
+    dateStr: string,
+    fetcher: () => Promise<SupabaseQueryResult<NewsData>>
+  ): Promise<NewsResult> {
     try {
       console.log('[NewsRepository] Fetching from Supabase');
-      const supabaseResult = await this.supabaseFetcher();
+      const supabaseResult = await fetcher();
 
       if (!supabaseResult.exists || !supabaseResult.data) {
         // データが存在しない場合(まだバッチが実行されていない等)
@@ -225,7 +425,7 @@ export class NewsRepository {
 
       // Step 3: キャッシュに保存(エラーは無視)
       try {
-        await this.cacheSetter('news', today, supabaseResult.data);
+        await this.cacheSetter('news', dateStr, supabaseResult.data);
         console.log('[NewsRepository] Data cached successfully');
       } catch (cacheError) {
         console.warn('[NewsRepository] Failed to cache data:', cacheError);
@@ -257,6 +457,33 @@ export class NewsRepository {
   }
 }
 
+/**
+ * オフライン時のエラー情報を作成する
+ *
+ * @returns オフラインエラー情報
+ */
+function createOfflineError(): NewsError {
+  return {
+    code: 'OFFLINE',
+    message: ERROR_MESSAGES.OFFLINE,
+    retryable: true,
+  };
+}
+
+/**
+ * オフライン時のエラー結果を作成する
+ *
+ * @returns オフラインエラーのニュース取得結果
+ */
+function createOfflineResult(): NewsResult {
+  return {
+    success: false,
+    data: null,
+    source: 'cache',
+    error: createOfflineError(),
+  };
+}
+
 /**
  * デフォルトのNewsRepositoryを作成する
  * 本番環境用のファクトリ関数
@@ -12,11 +12,16 @@
  * - 7.5: エラー時リトライオプション提供
  * - 6.3: iOS各サイズ対応
  * - 6.4: 可読性確保
+ * - 過去ニュースのアーカイブ閲覧
+ * - 要約の出典記事表示
+ * - テーマ別カテゴリ要約の表示
+ * - 日付単位のニュースのブックマーク(保存)
+ * - ニュース要約内の既知の用語をリンク表示し、タップで用語の解説を表示
  *
  * @see design.md - Architecture - News Feature
  */
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -25,11 +30,26 @@ import {
   ActivityIndicator,
   TouchableOpacity,
   Platform,
+  Linking,
 } from 'react-native';
 import Markdown from 'react-native-markdown-display';
 import { useThemeColors, ThemeColors } from '../theme';
-import { NewsItem } from '../supabase/types';
+import {
+  NewsItem,
+  NewsSourceArticle,
+  NewsCategory,
+  NewsCategorySummary,
+} from '../supabase/types';
 import { NewsViewModelResult } from './news-viewmodel';
+import { NewsArchiveScreen, formatArchiveDate } from './news-archive-screen';
+import { BookmarksViewModelResult } from '../bookmarks/bookmarks-viewmodel';
+import { GlossaryViewModelResult } from '../glossary/glossary-viewmodel';
+import { parseGlossaryLink } from '../glossary/glossary-linker';
+
+/**
+ * ニュース要約の用語リンク操作
+ */
+type NewsGlossaryActions = Pick<GlossaryViewModelResult, 'linkTerms' | 'openTerm'>;
 
 /**
  * NewsScreenのプロパティ
@@ -38,6 +58,10 @@ import { NewsViewModelResult } from './news-viewmodel';
 interface NewsScreenProps {
   /** ViewModelから提供される状態と関数 */
   viewModelResult: NewsViewModelResult;
+  /** ブックマーク操作(省略時は保存ボタンを表示しない) */
+  bookmarks?: Pick<BookmarksViewModelResult, 'isBookmarked' | 'toggleNewsBookmark'>;
+  /** 用語リンク操作(省略時は要約の用語をリンク表示しない) */
+  glossary?: NewsGlossaryActions;
 }
 
 /**
@@ -48,8 +72,21 @@ interface NewsCardProps {
   categoryTitle: string;
   /** ニュースデータ */
   news: NewsItem;
+  /** 用語リンク操作(省略時は要約の用語をリンク表示しない) */
+  glossary?: NewsGlossaryActions;
 }
 
+/**
+ * テーマ別カテゴリの表示名
+ */
+const NEWS_CATEGORY_LABELS: Record<NewsCategory, string> = {
+  markets: '市況',
+  macro: 'マクロ経済・中央銀行',
+  earnings: '企業決算',
+  crypto: '暗号資産',
+  fx: '為替',
+};
+
 /**
  * 日時をフォーマットする関数
  * ISO 8601形式の日時文字列を「YYYY/MM/DD HH:MM」形式に変換
@@ -209,14 +246,95 @@ const createMarkdownStyles = (colors: ThemeColors) => ({
   },
 });
 
+/**
+ * 出典セクションのプロパティ
+ */
+interface SourcesSectionProps {
+  /** 出典記事 */
+  sources: NewsSourceArticle[];
+  /** テスト用ID（world/japan） */
+  testId: string;
+}
+
+/**
+ * 出典セクションコンポーネント
+ * 要約に使用した元記事を一覧表示し、タップで元記事をブラウザで開く
+ *
+ * 初期状態は折りたたみ、見出しのタップで展開する
+ */
+function SourcesSection({ sources, testId }: SourcesSectionProps) {
+  const colors = useThemeColors();
+  const [expanded, setExpanded] = useState(false);
+
+  /**
+   * 元記事をブラウザで開く
+   * URLを開けない場合はログのみ記録し、画面操作は継続できるようにする
+   */
+  const openSource = async (url: string) => {
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      console.warn('[NewsScreen] Failed to open source article:', error);
+    }
+  };
+
+  return (
+    <View
+      testID={`news-sources-${testId}`}
+      style={[styles.sourcesContainer, { borderTopColor: colors.cardBorder }]}
+    >
+      <TouchableOpacity
+        testID={`news-sources-toggle-${testId}`}
+        onPress={() => setExpanded((prev) => !prev)}
+        activeOpacity={0.7}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={`出典 ${sources.length}件`}
+        accessibilityHint={expanded ? 'タップして出典を閉じます' : 'タップして出典を表示します'}
+        accessibilityState={{ expanded }}
+      >
+        <Text style={[styles.sourcesHeader, { color: colors.primary }]}>
+          {expanded ? '▼' : '▶'} 出典（{sources.length}件）
+        </Text>
+      </TouchableOpacity>
+
+      {expanded &&
+        sources.map((source, index) => (
+          <TouchableOpacity
+            key={`${source.url}-${index}`}
+            testID={`news-source-link-${testId}-${index}`}
+            style={styles.sourceItem}
+            onPress={() => openSource(source.url)}
+            activeOpacity={0.7}
+            accessible={true}
+            accessibilityRole="link"
+            accessibilityLabel={`${source.outlet}: ${source.title}`}
+            accessibilityHint="タップして元記事を開きます"
+          >
+            <Text style={[styles.sourceOutlet, { color: colors.textSecondary }]}>
+              {source.outlet}
+              {source.publishedAt ? ` ・ ${formatDateTime(source.publishedAt)}` : ''}
+            </Text>
+            <Text style={[styles.sourceTitle, { color: colors.primary }]}>
+              {source.title}
+            </Text>
+          </TouchableOpacity>
+        ))}
+    </View>
+  );
+}
+
 /**
  * ニュースカードコンポーネント
- * 各ニュースのタイトル、要約、更新日時を表示
+ * 各ニュースのタイトル、要約、更新日時、出典を表示
  *
  * アクセシビリティ対応:
  * - VoiceOver向けにaccessibilityLabelを設定
  * - カテゴリタイトルとニュースタイトルを読み上げ
  *
+ * 用語リンク操作を受け取った場合は、要約内の既知の用語をリンク表示し、
+ * タップで用語の解説を開く(用語リンク以外のリンクは通常どおりブラウザで開く)
+ *
  * @see Requirements: 2.3, 6.4
  */
 interface NewsCardExtendedProps extends NewsCardProps {
@@ -224,12 +342,32 @@ interface NewsCardExtendedProps extends NewsCardProps {
   testId: string;
 }
 
-function NewsCard({ categoryTitle, news, testId }: NewsCardExtendedProps) {
+function NewsCard({ categoryTitle, news, testId, glossary }: NewsCardExtendedProps) {
   const colors = useThemeColors();
 
   // Markdownスタイルをメモ化（テーマ変更時のみ再生成）
   const markdownStyles = useMemo(() => createMarkdownStyles(colors), [colors]);
 
+  // 用語をリンクに置き換えた要約をメモ化（要約・用語集の変更時のみ再生成）
+  const linkTerms = glossary?.linkTerms;
+  const summary = useMemo(
+    () => (linkTerms ? linkTerms(news.summary) : news.summary),
+    [linkTerms, news.summary]
+  );
+
+  /**
+   * 要約内のリンクをタップした時の処理
+   * 用語リンクは用語の解説を開き、falseを返してブラウザで開かないようにする
+   */
+  const handleLinkPress = (url: string): boolean => {
+    const termName = parseGlossaryLink(url);
+    if (termName && glossary) {
+      glossary.openTerm(termName);
+      return false;
+    }
+    return true;
+  };
+
   // アクセシビリティ用のラベル生成
   // VoiceOverがカード全体の内容を読み上げるために使用
   const accessibilityLabel = `${categoryTitle}: ${news.title}。${formatDateTime(news.updatedAt)}更新`;
@@ -244,31 +382,130 @@ function NewsCard({ categoryTitle, news, testId }: NewsCardExtendedProps) {
           borderColor: colors.cardBorder,
         },
       ]}
-      accessible={true}
-      accessibilityLabel={accessibilityLabel}
-      accessibilityRole="text"
     >
-      {/* カテゴリタイトル（世界のニュース / 日本のニュース） */}
-      <Text style={[styles.categoryTitle, { color: colors.primary }]}>
-        {categoryTitle}
-      </Text>
+      {/* 本文部分はVoiceOverでまとめて読み上げる（出典リンクは個別に操作できるよう分離） */}
+      <View
+        accessible={true}
+        accessibilityLabel={accessibilityLabel}
+        accessibilityRole="text"
+      >
+        {/* カテゴリタイトル（世界のニュース / 日本のニュース） */}
+        <Text style={[styles.categoryTitle, { color: colors.primary }]}>
+          {categoryTitle}
+        </Text>
 
-      {/* ニュースタイトル */}
-      <Text style={[styles.newsTitle, { color: colors.text }]}>
-        {news.title}
-      </Text>
+        {/* ニュースタイトル */}
+        <Text style={[styles.newsTitle, { color: colors.text }]}>
+          {news.title}
+        </Text>
 
-      {/* 更新日時 */}
-      <Text style={[styles.updatedAt, { color: colors.textSecondary }]}>
-        更新: {formatDateTime(news.updatedAt)}
-      </Text>
+        {/* 更新日時 */}
+        <Text style={[styles.updatedAt, { color: colors.textSecondary }]}>
+          更新: {formatDateTime(news.updatedAt)}
+        </Text>
 
-      {/* 要約本文（Markdown形式） */}
-      <View style={styles.summaryContainer}>
-        <Markdown style={markdownStyles}>
-          {news.summary}
-        </Markdown>
+        {/* 要約本文（Markdown形式） */}
+        <View style={styles.summaryContainer}>
+          <Markdown style={markdownStyles} onLinkPress={handleLinkPress}>
+            {summary}
+          </Markdown>
+        </View>
       </View>
+
+      {/* 出典（元記事へのリンク） */}
+      {news.sources && news.sources.length > 0 && (
+        <SourcesSection sources={news.sources} testId={testId} />
+      )}
+    </View>
+  );
+}
+
+/**
+ * カテゴリ要約カードのプロパティ
+ */
+interface CategoryCardProps {
+  /** カテゴリ別要約 */
+  category: NewsCategorySummary;
+}
+
+/**
+ * カテゴリ要約カードコンポーネント
+ * カテゴリ名とタイトルを表示し、タップで要約本文を展開する
+ *
+ * 世界・日本のニュースより短い要約のため、初期状態は折りたたみ表示とする
+ */
+function CategoryCard({ category }: CategoryCardProps) {
+  const colors = useThemeColors();
+  const [expanded, setExpanded] = useState(false);
+
+  // Markdownスタイルをメモ化（テーマ変更時のみ再生成）
+  const markdownStyles = useMemo(() => createMarkdownStyles(colors), [colors]);
+
+  const label = NEWS_CATEGORY_LABELS[category.category];
+
+  return (
+    <View
+      testID={`news-category-${category.category}`}
+      style={[
+        styles.categoryCard,
+        {
+          backgroundColor: colors.card,
+          borderColor: colors.cardBorder,
+        },
+      ]}
+    >
+      <TouchableOpacity
+        testID={`news-category-toggle-${category.category}`}
+        onPress={() => setExpanded((prev) => !prev)}
+        activeOpacity={0.7}
+        accessible={true}
+        accessibilityRole="button"
+        accessibilityLabel={`${label}: ${category.title}`}
+        accessibilityHint={expanded ? 'タップして要約を閉じます' : 'タップして要約を表示します'}
+        accessibilityState={{ expanded }}
+      >
+        <Text style={[styles.categoryTitle, { color: colors.primary }]}>
+          {expanded ? '▼' : '▶'} {label}
+        </Text>
+        <Text style={[styles.categoryNewsTitle, { color: colors.text }]}>
+          {category.title}
+        </Text>
+      </TouchableOpacity>
+
+      {expanded && (
+        <View style={styles.summaryContainer}>
+          <Markdown style={markdownStyles}>
+            {category.summary}
+          </Markdown>
+        </View>
+      )}
+    </View>
+  );
+}
+
+/**
+ * テーマ別カテゴリセクションのプロパティ
+ */
+interface CategorySectionProps {
+  /** カテゴリ別要約(表示順) */
+  categories: NewsCategorySummary[];
+}
+
+/**
+ * テーマ別カテゴリセクションコンポーネント
+ * 市況・マクロ経済などテーマごとの短い要約を一覧表示する
+ */
+function CategorySection({ categories }: CategorySectionProps) {
+  const colors = useThemeColors();
+
+  return (
+    <View testID="news-categories" style={styles.categorySection}>
+      <Text style={[styles.categorySectionTitle, { color: colors.textSecondary }]}>
+        トピック別
+      </Text>
+      {categories.map((category) => (
+        <CategoryCard key={category.category} category={category} />
+      ))}
     </View>
   );
 }
@@ -349,18 +586,137 @@ function ErrorView({ message, retryable, onRetry }: ErrorViewProps) {
   );
 }
 
+/**
+ * 日付バーコンポーネント
+ * 表示中の日付と、保存ボタン、アーカイブ一覧・今日のニュースへの切り替えボタンを表示
+ */
+interface DateBarProps {
+  /** 表示中の日付(今日のニュースを表示中はnull) */
+  selectedDate: string | null;
+  /** アーカイブ一覧を開く関数 */
+  onOpenArchive: () => void;
+  /** 今日のニュースに戻る関数 */
+  onBackToToday: () => void;
+  /** 表示中のニュースが保存済みかどうか */
+  bookmarked?: boolean;
+  /** 保存・保存解除を切り替える関数(省略時は保存ボタンを表示しない) */
+  onToggleBookmark?: () => void;
+}
+
+function DateBar({
+  selectedDate,
+  onOpenArchive,
+  onBackToToday,
+  bookmarked = false,
+  onToggleBookmark,
+}: DateBarProps) {
+  const colors = useThemeColors();
+
+  return (
+    <View
+      testID="news-date-bar"
+      style={[styles.dateBar, { borderBottomColor: colors.cardBorder }]}
+    >
+      <Text style={[styles.dateBarLabel, { color: colors.textSecondary }]}>
+        {selectedDate ? `${formatArchiveDate(selectedDate)}のニュース` : '今日のニュース'}
+      </Text>
+      <View style={styles.dateBarActions}>
+        {onToggleBookmark && (
+          <TouchableOpacity
+            testID="news-bookmark-button"
+            onPress={onToggleBookmark}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel={bookmarked ? 'このニュースの保存を解除' : 'このニュースを保存'}
+            accessibilityState={{ selected: bookmarked }}
+          >
+            <Text style={[styles.dateBarButton, { color: colors.primary }]}>
+              {bookmarked ? '★ 保存済み' : '☆ 保存'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {selectedDate && (
+          <TouchableOpacity
+            testID="news-back-to-today"
+            onPress={onBackToToday}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="今日のニュースに戻る"
+          >
+            <Text style={[styles.dateBarButton, { color: colors.primary }]}>今日</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          testID="news-archive-button"
+          onPress={onOpenArchive}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel="過去のニュース一覧を開く"
+        >
+          <Text style={[styles.dateBarButton, { color: colors.primary }]}>過去のニュース</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
 /**
  * ニュース画面コンポーネント
  *
  * ViewModelから提供される状態に基づいて、
  * ローディング、エラー、ニュース表示を切り替えます。
+ * 過去のニュース一覧(アーカイブ)を開き、日付を選んで表示することもできます。
  *
  * @param props - NewsScreenProps
  * @returns ニュース画面のReactコンポーネント
  */
-export function NewsScreen({ viewModelResult }: NewsScreenProps) {
+export function NewsScreen({ viewModelResult, bookmarks, glossary }: NewsScreenProps) {
   const colors = useThemeColors();
-  const { state, loading, worldNews, japanNews, error, retry } = viewModelResult;
+  const {
+    state,
+    loading,
+    worldNews,
+    japanNews,
+    newsDate,
+    categories,
+    error,
+    retry,
+    selectedDate,
+    selectDate,
+  } = viewModelResult;
+  const [showArchive, setShowArchive] = useState(false);
+
+  // アーカイブ一覧表示中
+  if (showArchive) {
+    return (
+      <NewsArchiveScreen
+        viewModelResult={viewModelResult}
+        onSelectDate={(date) => {
+          setShowArchive(false);
+          selectDate(date);
+        }}
+        onClose={() => setShowArchive(false)}
+      />
+    );
+  }
+
+  // 世界・日本のニュースが揃っている場合のみ日付単位で保存できる
+  const bookmarkTarget =
+    bookmarks && newsDate && worldNews && japanNews
+      ? { date: newsDate, worldNews, japanNews }
+      : null;
+
+  const dateBar = (
+    <DateBar
+      selectedDate={selectedDate}
+      onOpenArchive={() => setShowArchive(true)}
+      onBackToToday={() => selectDate(null)}
+      bookmarked={bookmarkTarget ? bookmarks?.isBookmarked('news', bookmarkTarget.date) : false}
+      onToggleBookmark={
+        bookmarkTarget ? () => bookmarks?.toggleNewsBookmark(bookmarkTarget) : undefined
+      }
+    />
+  );
 
   // ローディング中
   if (loading) {
@@ -381,6 +737,7 @@ export function NewsScreen({ viewModelResult }: NewsScreenProps) {
         testID="news-container"
         style={[styles.container, { backgroundColor: colors.background }]}
       >
+        {dateBar}
         <ErrorView
           message={error.message}
           retryable={error.retryable}
@@ -396,6 +753,7 @@ export function NewsScreen({ viewModelResult }: NewsScreenProps) {
       testID="news-container"
       style={[styles.container, { backgroundColor: colors.background }]}
     >
+      {dateBar}
       <ScrollView
         testID="news-scroll-view"
         style={styles.scrollView}
@@ -404,19 +762,34 @@ export function NewsScreen({ viewModelResult }: NewsScreenProps) {
       >
         {/* 世界のニュース */}
         {worldNews && (
-          <NewsCard categoryTitle="世界のニュース" news={worldNews} testId="world" />
+          <NewsCard
+            categoryTitle="世界のニュース"
+            news={worldNews}
+            testId="world"
+            glossary={glossary}
+          />
         )}
 
         {/* 日本のニュース */}
         {japanNews && (
-          <NewsCard categoryTitle="日本のニュース" news={japanNews} testId="japan" />
+          <NewsCard
+            categoryTitle="日本のニュース"
+            news={japanNews}
+            testId="japan"
+            glossary={glossary}
+          />
         )}
 
+        {/* テーマ別カテゴリ */}
+        {categories.length > 0 && <CategorySection categories={categories} />}
+
         {/* データがない場合のメッセージ */}
         {!worldNews && !japanNews && (
           <View style={styles.emptyContainer}>
             <Text style={[styles.emptyText, { color: colors.textSecondary }]}>
-              本日のニュースはまだ配信されていません。
+              {selectedDate
+                ? 'この日のニュースはありません。'
+                : '本日のニュースはまだ配信されていません。'}
             </Text>
           </View>
         )}
@@ -541,6 +914,48 @@ const styles = StyleSheet.create({
     marginTop: 4,
   },
 
+  // 出典セクション
+  sourcesContainer: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+  },
+  sourcesHeader: {
+    fontSize: TYPOGRAPHY.CATEGORY_FONT_SIZE,
+    fontWeight: '600',
+  },
+  sourceItem: {
+    marginTop: 10,
+  },
+  sourceOutlet: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    marginBottom: 2,
+  },
+  sourceTitle: {
+    fontSize: TYPOGRAPHY.CATEGORY_FONT_SIZE,
+    lineHeight: 20,
+    textDecorationLine: 'underline',
+  },
+
+  // テーマ別カテゴリ
+  categorySection: {
+    gap: 12,
+  },
+  categorySectionTitle: {
+    fontSize: TYPOGRAPHY.CATEGORY_FONT_SIZE,
+    fontWeight: '600',
+  },
+  categoryCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: SPACING.CARD_PADDING,
+  },
+  categoryNewsTitle: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '700',
+    lineHeight: 24,
+  },
+
   // ローディング
   loadingText: {
     marginTop: 12,
@@ -571,6 +986,28 @@ const styles = StyleSheet.create({
     fontWeight: '600',
   },
 
+  // 日付バー(表示中の日付・アーカイブ切り替え)
+  dateBar: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.SCROLL_PADDING,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+  },
+  dateBarLabel: {
+    fontSize: TYPOGRAPHY.CATEGORY_FONT_SIZE,
+    fontWeight: '600',
+  },
+  dateBarActions: {
+    flexDirection: 'row',
+    gap: 16,
+  },
+  dateBarButton: {
+    fontSize: TYPOGRAPHY.CATEGORY_FONT_SIZE,
+    fontWeight: '600',
+  },
+
   // 空状態
   emptyContainer: {
     flex: 1,
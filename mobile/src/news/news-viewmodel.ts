@@ -9,12 +9,14 @@
  * - 2.1: アプリ起動時当日ニュース表示
  * - 2.2: 世界・日本2カテゴリ表示
  * - 7.5: エラー時リトライオプション提供
+ * - 過去ニュースのアーカイブ閲覧
+ * - テーマ別カテゴリ要約の表示
  *
  * @see design.md - Architecture - News Feature
  */
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { NewsItem } from '../supabase/types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { NewsItem, NewsArchiveEntry, NewsCategorySummary } from '../supabase/types';
 import { NewsRepository, NewsError, createNewsRepository } from './news-repository';
 
 /**
@@ -38,10 +40,28 @@ export interface NewsViewModelResult {
   worldNews: NewsItem | null;
   /** 日本のニュース(未取得時はnull) */
   japanNews: NewsItem | null;
+  /** 表示中のニュースの日付(YYYY-MM-DD形式、未取得時はnull) */
+  newsDate: string | null;
+  /** テーマ別カテゴリの要約(表示順、未取得・未生成時は空配列) */
+  categories: NewsCategorySummary[];
   /** エラー情報(エラー時のみ) */
   error: NewsError | null;
   /** データを再取得する関数 */
   retry: () => Promise<void>;
+  /** 表示中の日付(YYYY-MM-DD形式、今日のニュースを表示中はnull) */
+  selectedDate: string | null;
+  /** 表示する日付を切り替える関数(nullで今日のニュースに戻る) */
+  selectDate: (date: string | null) => Promise<void>;
+  /** 読み込み済みのアーカイブ一覧(日付の降順) */
+  archive: NewsArchiveEntry[];
+  /** アーカイブ一覧を読み込み中かどうか */
+  archiveLoading: boolean;
+  /** さらに古いアーカイブがあるかどうか */
+  hasMoreArchive: boolean;
+  /** アーカイブ一覧取得時のエラー情報 */
+  archiveError: NewsError | null;
+  /** さらに古いアーカイブを読み込む関数 */
+  loadOlder: () => Promise<void>;
 }
 
 /**
@@ -84,30 +104,50 @@ export function useNewsViewModel(
   const [state, setState] = useState<NewsState>('loading');
   const [worldNews, setWorldNews] = useState<NewsItem | null>(null);
   const [japanNews, setJapanNews] = useState<NewsItem | null>(null);
+  const [newsDate, setNewsDate] = useState<string | null>(null);
+  const [categories, setCategories] = useState<NewsCategorySummary[]>([]);
   const [error, setError] = useState<NewsError | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  // アーカイブ一覧の状態管理
+  const [archive, setArchive] = useState<NewsArchiveEntry[]>([]);
+  const [archiveLoading, setArchiveLoading] = useState(false);
+  const [hasMoreArchive, setHasMoreArchive] = useState(true);
+  const [archiveError, setArchiveError] = useState<NewsError | null>(null);
+  const [archiveCursor, setArchiveCursor] = useState<string | null>(null);
+  // 連続タップ等による二重読み込みを防止するためのフラグ
+  const archiveLoadingRef = useRef(false);
 
   /**
    * ニュースを取得する内部関数
-   * 初回マウント時とリトライ時に呼ばれる
+   * 初回マウント時、リトライ時、日付切り替え時に呼ばれる
+   *
+   * @param date - 取得する日付(nullの場合は今日のニュース)
    */
-  const fetchNews = useCallback(async () => {
+  const fetchNews = useCallback(async (date: string | null) => {
     // ローディング状態に遷移
     setState('loading');
     setError(null);
 
     try {
-      const result = await repo.getTodayNews();
+      const result = date
+        ? await repo.getNewsByDate(date)
+        : await repo.getTodayNews();
 
       if (result.success) {
         // 成功: 世界・日本ニュースを分離して保持(Requirement 2.2)
         setWorldNews(result.data?.worldNews || null);
         setJapanNews(result.data?.japanNews || null);
+        setNewsDate(result.data?.date ?? null);
+        setCategories(result.data?.categories ?? []);
         setError(null);
         setState('success');
       } else {
         // 失敗: エラー状態に遷移
         setWorldNews(null);
         setJapanNews(null);
+        setNewsDate(null);
+        setCategories([]);
         setError(result.error || null);
         setState('error');
       }
@@ -116,6 +156,8 @@ export function useNewsViewModel(
       console.error('[NewsViewModel] Unexpected error:', unexpectedError);
       setWorldNews(null);
       setJapanNews(null);
+      setNewsDate(null);
+      setCategories([]);
       setError({
         code: 'UNKNOWN',
         message: '予期しないエラーが発生しました。しばらくしてからもう一度お試しください。',
@@ -130,12 +172,61 @@ export function useNewsViewModel(
    * ユーザーが手動でデータを再取得する際に使用(Requirement 7.5)
    */
   const retry = useCallback(async () => {
-    await fetchNews();
-  }, [fetchNews]);
+    await fetchNews(selectedDate);
+  }, [fetchNews, selectedDate]);
+
+  /**
+   * 表示する日付を切り替える
+   * アーカイブ一覧から過去の日付が選択された際に使用
+   */
+  const selectDate = useCallback(
+    async (date: string | null) => {
+      setSelectedDate(date);
+      await fetchNews(date);
+    },
+    [fetchNews]
+  );
+
+  /**
+   * さらに古いアーカイブを読み込む
+   * 初回呼び出し時は最新の日付から、以降は前回の続きから読み込む
+   */
+  const loadOlder = useCallback(async () => {
+    if (archiveLoadingRef.current || !hasMoreArchive) {
+      return;
+    }
+
+    archiveLoadingRef.current = true;
+    setArchiveLoading(true);
+    setArchiveError(null);
+
+    try {
+      const result = await repo.getNewsArchive(archiveCursor);
+
+      if (result.success && result.data) {
+        const page = result.data;
+        setArchive((prev) => [...prev, ...page.entries]);
+        setArchiveCursor(page.nextCursor);
+        setHasMoreArchive(page.nextCursor !== null);
+      } else {
+        setArchiveError(result.error || null);
+      }
+    } catch (unexpectedError) {
+      console.error('[NewsViewModel] Unexpected archive error:', unexpectedError);
+      setArchiveError({
+        code: 'UNKNOWN',
+        message: '予期しないエラーが発生しました。しばらくしてからもう一度お試しください。',
+        retryable: true,
+      });
+    } finally {
+      archiveLoadingRef.current = false;
+      setArchiveLoading(false);
+    }
+  }, [repo, archiveCursor, hasMoreArchive]);
 
-  // マウント時にニュースを取得(Requirement 2.1: アプリ起動時)
+  // マウント時に今日のニュースを取得(Requirement 2.1: アプリ起動時)
   useEffect(() => {
-    fetchNews();
+    fetchNews(null);
   }, [fetchNews]);
 
   return {
@@ -143,7 +234,16 @@ export function useNewsViewModel(
     loading: state === 'loading',
     worldNews,
     japanNews,
+    newsDate,
+    categories,
     error,
     retry,
+    selectedDate,
+    selectDate,
+    archive,
+    archiveLoading,
+    hasMoreArchive,
+    archiveError,
+    loadOlder,
   };
 }
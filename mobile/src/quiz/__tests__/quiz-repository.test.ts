@@ -0,0 +1,125 @@
+/**
+ * Quiz Repository テスト
+ *
+ * Requirements:
+ * - 用語ごとの4択クイズ(採点は端末内で行う)
+ * - 10: オフライン対応強化
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QuizRepository, QuizRepositoryConfig, TERM_QUIZZES_KEY } from '../quiz-repository';
+import { TermQuiz } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { setNetworkState, resetNetworkState } from '../../utils/network';
+
+const mockQuizzes: TermQuiz[] = [
+  {
+    termName: 'PER',
+    questions: [
+      {
+        question: 'PERが低い銘柄について正しい説明はどれですか?',
+        choices: ['利益に対して割安', '配当が必ず高い', '自己資本が大きい', '株価が上昇中'],
+        correctIndex: 0,
+        explanation: 'PERは株価を1株当たり純利益で割った指標です。',
+      },
+    ],
+  },
+];
+
+// 2024-01-15 09:00 JST
+const TODAY = new Date('2024-01-15T00:00:00.000Z');
+
+/**
+ * モック関数を注入したリポジトリを作成する
+ */
+const createRepository = (overrides: QuizRepositoryConfig = {}) => {
+  const config = {
+    fetcher: jest.fn().mockResolvedValue({ data: mockQuizzes, exists: true }),
+    now: () => TODAY,
+    ...overrides,
+  };
+  return { repository: new QuizRepository(config), config };
+};
+
+describe('QuizRepository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetNetworkState();
+    jest.restoreAllMocks();
+  });
+
+  it('Supabaseから取得したクイズを返し、端末に保存する', async () => {
+    const { repository } = createRepository();
+
+    const result = await repository.getTodayQuizzes();
+
+    expect(result).toEqual({ success: true, data: mockQuizzes });
+    const stored = JSON.parse((await AsyncStorage.getItem(TERM_QUIZZES_KEY)) ?? 'null');
+    expect(stored).toEqual({ date: '2024-01-15', quizzes: mockQuizzes });
+  });
+
+  it('今日のクイズが保存済みの場合はオフラインでも端末から返す', async () => {
+    const { repository, config } = createRepository();
+    await repository.getTodayQuizzes();
+    setNetworkState(false);
+
+    const result = await repository.getTodayQuizzes();
+
+    expect(result.data).toEqual(mockQuizzes);
+    expect(config.fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('前日のクイズは使わずにSupabaseから取得する', async () => {
+    await AsyncStorage.setItem(
+      TERM_QUIZZES_KEY,
+      JSON.stringify({ date: '2024-01-14', quizzes: [] })
+    );
+    const { repository, config } = createRepository();
+
+    const result = await repository.getTodayQuizzes();
+
+    expect(config.fetcher).toHaveBeenCalledTimes(1);
+    expect(result.data).toEqual(mockQuizzes);
+  });
+
+  it('クイズが未配信の場合はdataをnullで返す', async () => {
+    const { repository } = createRepository({
+      fetcher: jest.fn().mockResolvedValue({ data: null, exists: false }),
+    });
+
+    const result = await repository.getTodayQuizzes();
+
+    expect(result).toEqual({ success: true, data: null });
+    expect(await AsyncStorage.getItem(TERM_QUIZZES_KEY)).toBeNull();
+  });
+
+  it('保存済みのクイズがなくオフラインの場合はエラーを返す', async () => {
+    const { repository, config } = createRepository();
+    setNetworkState(false);
+
+    const result = await repository.getTodayQuizzes();
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe('OFFLINE');
+    expect(config.fetcher).not.toHaveBeenCalled();
+  });
+
+  it('取得に失敗した場合はエラー情報を返す', async () => {
+    const { repository } = createRepository({
+      fetcher: jest
+        .fn()
+        .mockRejectedValue(new SupabaseError('TIMEOUT', 'タイムアウト', undefined, true)),
+    });
+
+    const result = await repository.getTodayQuizzes();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual({ code: 'TIMEOUT', message: 'タイムアウト', retryable: true });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Quiz Screen テスト
+ *
+ * Requirements:
+ * - 用語ごとの4択クイズ(採点は端末内で行う)
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { QuizScreen, getScoreMessage } from '../quiz-screen';
+import { QuizViewModelResult, QuizItem } from '../quiz-viewmodel';
+import { ThemeProvider } from '../../theme';
+
+const mockQuestion: QuizItem = {
+  termName: 'PER（株価収益率）',
+  question: 'PERが低い銘柄について正しい説明はどれですか?',
+  choices: ['利益に対して割安', '配当が必ず高い', '自己資本が大きい', '株価が上昇中'],
+  correctIndex: 0,
+  explanation: 'PERは株価を1株当たり純利益で割った指標です。',
+};
+
+// ViewModelのモック結果を生成するヘルパー関数
+const createMockViewModelResult = (
+  overrides: Partial<QuizViewModelResult> = {}
+): QuizViewModelResult => ({
+  state: 'answering',
+  loading: false,
+  currentQuestion: mockQuestion,
+  questionNumber: 1,
+  totalCount: 3,
+  selectedIndex: null,
+  score: 0,
+  missedTermNames: [],
+  error: null,
+  selectAnswer: jest.fn(),
+  next: jest.fn(),
+  restart: jest.fn(),
+  retry: jest.fn(),
+  ...overrides,
+});
+
+// ThemeProviderでラップしてレンダリングするヘルパー
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(<ThemeProvider>{component}</ThemeProvider>);
+};
+
+describe('QuizScreen', () => {
+  it('問題文・選択肢・進捗を表示し、選択肢をタップすると解答する', () => {
+    const viewModelResult = createMockViewModelResult();
+    const { getByText, getByTestId, queryByTestId } = renderWithTheme(
+      <QuizScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('第1問 / 3問')).toBeTruthy();
+    expect(getByText(mockQuestion.question)).toBeTruthy();
+    expect(getByText('配当が必ず高い')).toBeTruthy();
+    expect(queryByTestId('quiz-feedback')).toBeNull();
+
+    fireEvent.press(getByTestId('quiz-choice-1'));
+    expect(viewModelResult.selectAnswer).toHaveBeenCalledWith(1);
+  });
+
+  it('正解した場合は「正解！」と解説を表示する', () => {
+    const viewModelResult = createMockViewModelResult({ selectedIndex: 0, score: 1 });
+    const { getByText, getByTestId } = renderWithTheme(
+      <QuizScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('正解！')).toBeTruthy();
+    expect(getByText(mockQuestion.explanation)).toBeTruthy();
+    expect(getByTestId('quiz-choice-0').props.accessibilityState).toEqual(
+      expect.objectContaining({ disabled: true, selected: true })
+    );
+
+    fireEvent.press(getByTestId('quiz-next-button'));
+    expect(viewModelResult.next).toHaveBeenCalledTimes(1);
+  });
+
+  it('不正解の場合は「不正解」を表示し、最後の問題では結果ボタンを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      selectedIndex: 2,
+      questionNumber: 3,
+    });
+    const { getByText } = renderWithTheme(<QuizScreen viewModelResult={viewModelResult} />);
+
+    expect(getByText('不正解')).toBeTruthy();
+    expect(getByText('結果を見る')).toBeTruthy();
+  });
+
+  it('全問解答後は得点と間違えた用語を表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      state: 'completed',
+      currentQuestion: null,
+      score: 2,
+      missedTermNames: ['ROE'],
+    });
+    const { getByText, getByTestId } = renderWithTheme(
+      <QuizScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('3問中2問正解')).toBeTruthy();
+    expect(getByText('間違えた用語: ROE')).toBeTruthy();
+
+    fireEvent.press(getByTestId('quiz-restart-button'));
+    expect(viewModelResult.restart).toHaveBeenCalledTimes(1);
+  });
+
+  it('クイズが未配信の場合はメッセージを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      state: 'empty',
+      currentQuestion: null,
+      totalCount: 0,
+    });
+    const { getByText } = renderWithTheme(<QuizScreen viewModelResult={viewModelResult} />);
+
+    expect(getByText('今日のクイズはまだ配信されていません')).toBeTruthy();
+  });
+
+  it('エラー時はメッセージと再試行ボタンを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      state: 'error',
+      currentQuestion: null,
+      error: { code: 'TIMEOUT', message: '通信がタイムアウトしました', retryable: true },
+    });
+    const { getByText, getByTestId } = renderWithTheme(
+      <QuizScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('通信がタイムアウトしました')).toBeTruthy();
+    fireEvent.press(getByTestId('quiz-retry-button'));
+    expect(viewModelResult.retry).toHaveBeenCalledTimes(1);
+  });
+
+  describe('getScoreMessage', () => {
+    it('得点に応じたメッセージを返す', () => {
+      expect(getScoreMessage(3, 3)).toBe('全問正解です！');
+      expect(getScoreMessage(2, 4)).toContain('よくできました');
+      expect(getScoreMessage(1, 4)).toContain('もう一度挑戦');
+    });
+  });
+});
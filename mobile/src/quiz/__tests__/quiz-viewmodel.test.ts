@@ -0,0 +1,164 @@
+/**
+ * Quiz ViewModel テスト
+ *
+ * Requirements:
+ * - 用語ごとの4択クイズ(採点は端末内で行う)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useQuizViewModel, flattenQuizzes } from '../quiz-viewmodel';
+import { QuizRepository } from '../quiz-repository';
+import { TermQuiz } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { resetNetworkState } from '../../utils/network';
+
+/**
+ * 設問を生成するヘルパー
+ */
+const createQuestion = (question: string, correctIndex: number) => ({
+  question,
+  choices: ['A', 'B', 'C', 'D'],
+  correctIndex,
+  explanation: `${question}の解説`,
+});
+
+const mockQuizzes: TermQuiz[] = [
+  { termName: 'PER', questions: [createQuestion('PER問1', 0), createQuestion('PER問2', 1)] },
+  { termName: 'ROE', questions: [createQuestion('ROE問1', 2)] },
+];
+
+/**
+ * クイズを返すリポジトリを作成する
+ * (renderHookのコールバック内で作成すると再レンダリングのたびに別インスタンスになるため外で作成する)
+ */
+const createRepository = (quizzes: TermQuiz[] | null = mockQuizzes) =>
+  new QuizRepository({
+    fetcher: jest.fn().mockResolvedValue({ data: quizzes, exists: quizzes !== null }),
+  });
+
+describe('flattenQuizzes', () => {
+  it('用語順・設問順に問題を展開し、用語名を付与する', () => {
+    const items = flattenQuizzes(mockQuizzes);
+
+    expect(items.map((item) => [item.termName, item.question])).toEqual([
+      ['PER', 'PER問1'],
+      ['PER', 'PER問2'],
+      ['ROE', 'ROE問1'],
+    ]);
+  });
+});
+
+describe('useQuizViewModel', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+  });
+
+  it('問題を順に出題し、端末内で採点する', async () => {
+    const repository = createRepository();
+    const { result } = renderHook(() => useQuizViewModel(repository));
+
+    await waitFor(() => expect(result.current.state).toBe('answering'));
+    expect(result.current.currentQuestion?.question).toBe('PER問1');
+    expect(result.current.questionNumber).toBe(1);
+    expect(result.current.totalCount).toBe(3);
+    expect(result.current.selectedIndex).toBeNull();
+
+    // 正解
+    act(() => {
+      result.current.selectAnswer(0);
+    });
+    expect(result.current.selectedIndex).toBe(0);
+    expect(result.current.score).toBe(1);
+
+    // 不正解
+    act(() => {
+      result.current.next();
+    });
+    act(() => {
+      result.current.selectAnswer(3);
+    });
+    expect(result.current.score).toBe(1);
+
+    // 正解して結果表示
+    act(() => {
+      result.current.next();
+    });
+    act(() => {
+      result.current.selectAnswer(2);
+    });
+    act(() => {
+      result.current.next();
+    });
+
+    expect(result.current.state).toBe('completed');
+    expect(result.current.currentQuestion).toBeNull();
+    expect(result.current.score).toBe(2);
+    expect(result.current.missedTermNames).toEqual(['PER']);
+  });
+
+  it('解答は1問につき1回のみで、未解答の場合は次に進めない', async () => {
+    const repository = createRepository();
+    const { result } = renderHook(() => useQuizViewModel(repository));
+    await waitFor(() => expect(result.current.state).toBe('answering'));
+
+    act(() => {
+      result.current.next();
+    });
+    expect(result.current.questionNumber).toBe(1);
+
+    act(() => {
+      result.current.selectAnswer(1);
+    });
+    act(() => {
+      result.current.selectAnswer(0);
+    });
+    expect(result.current.selectedIndex).toBe(1);
+    expect(result.current.score).toBe(0);
+  });
+
+  it('最初から解き直すと得点をリセットする', async () => {
+    const repository = createRepository();
+    const { result } = renderHook(() => useQuizViewModel(repository));
+    await waitFor(() => expect(result.current.state).toBe('answering'));
+    act(() => {
+      result.current.selectAnswer(0);
+    });
+
+    act(() => {
+      result.current.restart();
+    });
+
+    expect(result.current.questionNumber).toBe(1);
+    expect(result.current.selectedIndex).toBeNull();
+    expect(result.current.score).toBe(0);
+  });
+
+  it('クイズが未配信の場合はempty状態になる', async () => {
+    const repository = createRepository(null);
+    const { result } = renderHook(() => useQuizViewModel(repository));
+
+    await waitFor(() => expect(result.current.state).toBe('empty'));
+    expect(result.current.totalCount).toBe(0);
+  });
+
+  it('取得に失敗した場合はエラー状態になり、再取得できる', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fetcher = jest
+      .fn()
+      .mockRejectedValueOnce(new SupabaseError('TIMEOUT', 'タイムアウト', undefined, true))
+      .mockResolvedValueOnce({ data: mockQuizzes, exists: true });
+    const repository = new QuizRepository({ fetcher });
+    const { result } = renderHook(() => useQuizViewModel(repository));
+
+    await waitFor(() => expect(result.current.state).toBe('error'));
+    expect(result.current.error?.code).toBe('TIMEOUT');
+
+    await act(async () => {
+      await result.current.retry();
+    });
+    expect(result.current.state).toBe('answering');
+    expect(result.current.error).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * Quiz Feature エクスポート
+ *
+ * 今日の用語の4択クイズ機能の公開APIを提供します。
+ */
+
+export {
+  QuizRepository,
+  createQuizRepository,
+  TERM_QUIZZES_KEY,
+  type QuizError,
+  type QuizResult,
+  type QuizFetcher,
+  type QuizRepositoryConfig,
+} from './quiz-repository';
+
+export {
+  useQuizViewModel,
+  flattenQuizzes,
+  type QuizSessionState,
+  type QuizItem,
+  type QuizViewModelResult,
+} from './quiz-viewmodel';
+
+export { QuizScreen, getScoreMessage } from './quiz-screen';
@@ -0,0 +1,195 @@
+/**
+ * Quiz Repository
+ *
+ * Supabaseから今日の用語クイズを取得し、端末に保存するリポジトリ。
+ * 一度取得したクイズはオフラインでも解けるように、その日のうちは端末の保存内容を使います。
+ *
+ * Requirements:
+ * - 用語ごとの4択クイズ(採点は端末内で行う)
+ * - 10: オフライン対応強化
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TermQuiz, SupabaseQueryResult } from '../supabase/types';
+import { fetchTodayTermQuizzesForRepository, formatDateToJST } from '../supabase/queries';
+import { SupabaseError, toSupabaseError, SupabaseErrorCode, ERROR_MESSAGES } from '../supabase/errors';
+import { isOffline } from '../utils/network';
+
+/**
+ * 端末に保存するクイズのAsyncStorageキー
+ */
+export const TERM_QUIZZES_KEY = 'term_quizzes_cache';
+
+/**
+ * クイズ取得エラー情報
+ * ViewModelでエラー表示に使用
+ */
+export interface QuizError {
+  /** エラーコード */
+  code: SupabaseErrorCode;
+  /** ユーザー向けエラーメッセージ(日本語) */
+  message: string;
+  /** リトライ可能かどうか */
+  retryable: boolean;
+}
+
+/**
+ * クイズ取得結果
+ */
+export interface QuizResult {
+  /** 取得成功かどうか */
+  success: boolean;
+  /** 用語ごとのクイズ(未配信または失敗時はnull) */
+  data: TermQuiz[] | null;
+  /** エラー情報(失敗時のみ) */
+  error?: QuizError;
+}
+
+/**
+ * Supabaseから今日のクイズを取得する関数の型
+ */
+export type QuizFetcher = () => Promise<SupabaseQueryResult<TermQuiz[]>>;
+
+/**
+ * QuizRepositoryの設定
+ * テスト時にモック関数を注入するために使用
+ */
+export interface QuizRepositoryConfig {
+  /** Supabaseから今日のクイズを取得する関数 */
+  fetcher?: QuizFetcher;
+  /** 現在日時を返す関数 */
+  now?: () => Date;
+}
+
+/**
+ * 端末に保存するクイズデータ
+ */
+interface StoredQuizzes {
+  /** 配信日(YYYY-MM-DD形式、JST) */
+  date: string;
+  /** 用語ごとのクイズ */
+  quizzes: TermQuiz[];
+}
+
+/**
+ * Quiz Repository クラス
+ *
+ * @example
+ * ```typescript
+ * const repository = createQuizRepository();
+ * const result = await repository.getTodayQuizzes();
+ * if (result.success && result.data) {
+ *   result.data.forEach((quiz) => console.log(quiz.termName));
+ * }
+ * ```
+ */
+export class QuizRepository {
+  private readonly fetcher: QuizFetcher;
+  private readonly now: () => Date;
+
+  /**
+   * QuizRepositoryのコンストラクタ
+   * @param config - 設定(テスト用にモック関数を注入可能)
+   */
+  constructor(config: QuizRepositoryConfig = {}) {
+    this.fetcher = config.fetcher ?? fetchTodayTermQuizzesForRepository;
+    this.now = config.now ?? (() => new Date());
+  }
+
+  /**
+   * 今日のクイズを取得する
+   *
+   * 1. 端末に今日のクイズが保存されていればそれを返す
+   * 2. オフラインの場合はエラーを返す
+   * 3. Supabaseから取得し、端末に保存する
+   *
+   * @returns クイズ取得結果
+   */
+  async getTodayQuizzes(): Promise<QuizResult> {
+    const today = formatDateToJST(this.now());
+
+    // Step 1: 端末に保存済みのクイズを確認
+    const stored = await this.loadStoredQuizzes();
+    if (stored && stored.date === today) {
+      return { success: true, data: stored.quizzes };
+    }
+
+    // Step 2: オフラインチェック
+    if (isOffline()) {
+      return {
+        success: false,
+        data: null,
+        error: {
+          code: 'OFFLINE',
+          message: ERROR_MESSAGES.OFFLINE,
+          retryable: true,
+        },
+      };
+    }
+
+    // Step 3: Supabaseから取得
+    try {
+      const result = await this.fetcher();
+
+      if (!result.exists || !result.data) {
+        // まだクイズが配信されていない
+        return { success: true, data: null };
+      }
+
+      await this.saveQuizzes({ date: today, quizzes: result.data });
+      return { success: true, data: result.data };
+    } catch (error) {
+      const supabaseError = error instanceof SupabaseError ? error : toSupabaseError(error);
+
+      console.error('[QuizRepository] Failed to fetch quizzes:', supabaseError);
+
+      return {
+        success: false,
+        data: null,
+        error: {
+          code: supabaseError.code,
+          message: supabaseError.message,
+          retryable: supabaseError.retryable,
+        },
+      };
+    }
+  }
+
+  /**
+   * 端末に保存したクイズを読み込む
+   *
+   * @returns 保存したクイズ(未保存または読み込みに失敗した場合はnull)
+   */
+  private async loadStoredQuizzes(): Promise<StoredQuizzes | null> {
+    try {
+      const json = await AsyncStorage.getItem(TERM_QUIZZES_KEY);
+      return json ? (JSON.parse(json) as StoredQuizzes) : null;
+    } catch (error) {
+      console.warn('[QuizRepository] Failed to load stored quizzes:', error);
+      return null;
+    }
+  }
+
+  /**
+   * クイズを端末に保存する(前日以前のクイズは上書きする)
+   *
+   * @param stored - 保存するクイズ
+   */
+  private async saveQuizzes(stored: StoredQuizzes): Promise<void> {
+    try {
+      await AsyncStorage.setItem(TERM_QUIZZES_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('[QuizRepository] Failed to save quizzes:', error);
+    }
+  }
+}
+
+/**
+ * デフォルトのQuizRepositoryを作成する
+ * 本番環境用のファクトリ関数
+ *
+ * @returns QuizRepository
+ */
+export function createQuizRepository(): QuizRepository {
+  return new QuizRepository();
+}
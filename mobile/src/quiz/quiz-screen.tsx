@@ -0,0 +1,427 @@
+/**
+ * Quiz Screen コンポーネント
+ *
+ * MVVM パターンにおける View 層。
+ * QuizViewModelResult を受け取り、今日の用語の4択クイズを1問ずつ表示します。
+ * 解答すると正誤と解説を表示し、全問解答後に得点を表示します。
+ *
+ * Requirements:
+ * - 用語ごとの4択クイズ(採点は端末内で行う)
+ * - 6.4: 可読性確保
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useThemeColors } from '../theme';
+import { QuizViewModelResult } from './quiz-viewmodel';
+
+/**
+ * QuizScreenのプロパティ
+ * ViewModelの結果を受け取り、純粋なUIコンポーネントとして動作
+ */
+interface QuizScreenProps {
+  /** ViewModelから提供される状態と関数 */
+  viewModelResult: QuizViewModelResult;
+}
+
+/**
+ * 正解の選択肢の強調色(ライト・ダーク共通)
+ */
+const CORRECT_COLOR = '#16a34a'; // green-600
+
+/**
+ * 選択肢の先頭に表示する記号
+ */
+const CHOICE_LABELS = ['A', 'B', 'C', 'D'] as const;
+
+/**
+ * 得点に応じたメッセージを返す
+ *
+ * @param score - 正解数
+ * @param totalCount - 問題数
+ * @returns 結果画面に表示するメッセージ
+ */
+export function getScoreMessage(score: number, totalCount: number): string {
+  if (totalCount > 0 && score === totalCount) {
+    return '全問正解です！';
+  }
+  if (score * 2 >= totalCount) {
+    return 'よくできました。間違えた用語を読み返してみましょう。';
+  }
+  return '用語タブで解説を読み返してから、もう一度挑戦してみましょう。';
+}
+
+/**
+ * クイズ画面コンポーネント
+ *
+ * ViewModelから提供される状態に基づいて、
+ * ローディング、エラー、未配信、出題、結果の表示を切り替えます。
+ *
+ * @param props - QuizScreenProps
+ * @returns クイズ画面のReactコンポーネント
+ */
+export function QuizScreen({ viewModelResult }: QuizScreenProps) {
+  const colors = useThemeColors();
+  const {
+    state,
+    currentQuestion,
+    questionNumber,
+    totalCount,
+    selectedIndex,
+    score,
+    missedTermNames,
+    error,
+    selectAnswer,
+    next,
+    restart,
+    retry,
+  } = viewModelResult;
+
+  // 読み込み中
+  if (state === 'loading') {
+    return (
+      <View
+        testID="quiz-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <ActivityIndicator testID="loading-indicator" size="large" color={colors.primary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+          クイズを読み込んでいます...
+        </Text>
+      </View>
+    );
+  }
+
+  // 取得エラー
+  if (state === 'error') {
+    return (
+      <View
+        testID="quiz-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <View
+          testID="quiz-error"
+          style={[styles.messageContainer, styles.errorContainer, { backgroundColor: colors.error }]}
+          accessible={true}
+          accessibilityRole="alert"
+          accessibilityLabel={`エラー: ${error?.message ?? ''}`}
+        >
+          <Text style={[styles.bodyText, { color: colors.errorText }]}>{error?.message}</Text>
+          {error?.retryable && (
+            <TouchableOpacity
+              testID="quiz-retry-button"
+              style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+              onPress={retry}
+              activeOpacity={0.7}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="再試行ボタン"
+            >
+              <Text style={[styles.primaryButtonText, { color: colors.primaryText }]}>再試行</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    );
+  }
+
+  // 今日のクイズが未配信
+  if (state === 'empty') {
+    return (
+      <View
+        testID="quiz-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <View testID="quiz-empty" style={styles.messageContainer}>
+          <Text style={[styles.titleText, { color: colors.text }]}>
+            今日のクイズはまだ配信されていません
+          </Text>
+          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+            用語の配信後にクイズが追加されます。
+          </Text>
+        </View>
+      </View>
+    );
+  }
+
+  // 結果表示
+  if (state === 'completed' || !currentQuestion) {
+    return (
+      <View
+        testID="quiz-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <View testID="quiz-completed" style={styles.messageContainer}>
+          <Text testID="quiz-score" style={[styles.scoreText, { color: colors.text }]}>
+            {totalCount}問中{score}問正解
+          </Text>
+          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+            {getScoreMessage(score, totalCount)}
+          </Text>
+          {missedTermNames.length > 0 && (
+            <Text
+              testID="quiz-missed-terms"
+              style={[styles.metaText, { color: colors.textSecondary }]}
+            >
+              間違えた用語: {missedTermNames.join('、')}
+            </Text>
+          )}
+          <TouchableOpacity
+            testID="quiz-restart-button"
+            style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+            onPress={restart}
+            activeOpacity={0.7}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="最初から解き直す"
+          >
+            <Text style={[styles.primaryButtonText, { color: colors.primaryText }]}>
+              もう一度挑戦する
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const answered = selectedIndex !== null;
+  const isCorrect = selectedIndex === currentQuestion.correctIndex;
+  const isLastQuestion = questionNumber >= totalCount;
+
+  return (
+    <View testID="quiz-container" style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView
+        testID="quiz-scroll-view"
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {/* 進捗と対象の用語 */}
+        <Text testID="quiz-progress" style={[styles.metaText, { color: colors.textSecondary }]}>
+          第{questionNumber}問 / {totalCount}問
+        </Text>
+        <Text testID="quiz-term-name" style={[styles.termName, { color: colors.textSecondary }]}>
+          {currentQuestion.termName}
+        </Text>
+
+        {/* 問題文 */}
+        <Text testID="quiz-question" style={[styles.questionText, { color: colors.text }]}>
+          {currentQuestion.question}
+        </Text>
+
+        {/* 選択肢(解答後は正解と選んだ誤答を色分けする) */}
+        <View style={styles.choiceList}>
+          {currentQuestion.choices.map((choice, index) => {
+            const isAnswer = answered && index === currentQuestion.correctIndex;
+            const isWrongSelection = answered && index === selectedIndex && !isCorrect;
+            const borderColor = isAnswer
+              ? CORRECT_COLOR
+              : isWrongSelection
+                ? colors.errorText
+                : colors.cardBorder;
+
+            return (
+              <TouchableOpacity
+                key={index}
+                testID={`quiz-choice-${index}`}
+                style={[
+                  styles.choiceButton,
+                  { backgroundColor: colors.card, borderColor },
+                  (isAnswer || isWrongSelection) && styles.choiceButtonHighlighted,
+                ]}
+                onPress={() => selectAnswer(index)}
+                disabled={answered}
+                activeOpacity={0.7}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`${CHOICE_LABELS[index] ?? index + 1}: ${choice}`}
+                accessibilityState={{ disabled: answered, selected: index === selectedIndex }}
+              >
+                <Text style={[styles.choiceLabel, { color: colors.textSecondary }]}>
+                  {CHOICE_LABELS[index] ?? index + 1}
+                </Text>
+                <Text style={[styles.choiceText, { color: colors.text }]}>{choice}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {/* 正誤と解説(解答後に表示) */}
+        {answered && (
+          <View
+            testID="quiz-feedback"
+            style={[styles.feedback, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+            accessible={true}
+            accessibilityLiveRegion="polite"
+          >
+            <Text
+              style={[styles.feedbackTitle, { color: isCorrect ? CORRECT_COLOR : colors.errorText }]}
+            >
+              {isCorrect ? '正解！' : '不正解'}
+            </Text>
+            <Text testID="quiz-explanation" style={[styles.bodyText, { color: colors.text }]}>
+              {currentQuestion.explanation}
+            </Text>
+            <TouchableOpacity
+              testID="quiz-next-button"
+              style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+              onPress={next}
+              activeOpacity={0.7}
+              accessible={true}
+              accessibilityRole="button"
+            >
+              <Text style={[styles.primaryButtonText, { color: colors.primaryText }]}>
+                {isLastQuestion ? '結果を見る' : '次の問題へ'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * タイポグラフィ定数
+ *
+ * @see Requirements: 6.4
+ */
+const TYPOGRAPHY = {
+  /** 本文フォントサイズ（16pt以上を保証） */
+  BODY_FONT_SIZE: 16,
+  /** 本文行間 */
+  BODY_LINE_HEIGHT: 26,
+  /** 問題文フォントサイズ */
+  QUESTION_FONT_SIZE: 18,
+  /** 得点フォントサイズ */
+  SCORE_FONT_SIZE: 26,
+  /** 見出しフォントサイズ */
+  TITLE_FONT_SIZE: 18,
+  /** 補足フォントサイズ */
+  META_FONT_SIZE: 14,
+} as const;
+
+/**
+ * スタイル定義
+ *
+ * @see Requirements: 6.3, 6.4, 6.5
+ */
+const styles = StyleSheet.create({
+  // コンテナ
+  container: {
+    flex: 1,
+  },
+  centerContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  // スクロールビュー
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+
+  // 問題
+  termName: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    fontWeight: '600',
+  },
+  questionText: {
+    fontSize: TYPOGRAPHY.QUESTION_FONT_SIZE,
+    lineHeight: TYPOGRAPHY.BODY_LINE_HEIGHT,
+    fontWeight: '600',
+  },
+
+  // 選択肢
+  choiceList: {
+    gap: 10,
+  },
+  choiceButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+  },
+  choiceButtonHighlighted: {
+    borderWidth: 2,
+  },
+  choiceLabel: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '700',
+  },
+  choiceText: {
+    flex: 1,
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    lineHeight: 24,
+  },
+
+  // 正誤と解説
+  feedback: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  feedbackTitle: {
+    fontSize: TYPOGRAPHY.TITLE_FONT_SIZE,
+    fontWeight: '700',
+  },
+
+  // テキスト
+  bodyText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    lineHeight: TYPOGRAPHY.BODY_LINE_HEIGHT,
+  },
+  titleText: {
+    fontSize: TYPOGRAPHY.TITLE_FONT_SIZE,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  scoreText: {
+    fontSize: TYPOGRAPHY.SCORE_FONT_SIZE,
+    fontWeight: '700',
+  },
+  metaText: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+
+  // メッセージ・結果
+  messageContainer: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  errorContainer: {
+    padding: 20,
+    borderRadius: 12,
+  },
+
+  // ボタン
+  primaryButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+});
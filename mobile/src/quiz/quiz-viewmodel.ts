@@ -0,0 +1,183 @@
+/**
+ * Quiz ViewModel
+ *
+ * MVVM パターンにおける ViewModel 層。
+ * QuizRepository から今日の用語クイズを取得し、
+ * 1問ずつ解答・採点するクイズセッションの状態を View に提供します。
+ * 採点は端末内で行い、結果はサーバーに送信しません。
+ *
+ * Requirements:
+ * - 用語ごとの4択クイズ(採点は端末内で行う)
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { TermQuiz, TermQuizQuestion } from '../supabase/types';
+import { QuizRepository, QuizError, createQuizRepository } from './quiz-repository';
+
+/**
+ * クイズセッションの状態を表す型
+ * - loading: クイズの読み込み中
+ * - answering: 解答中
+ * - completed: 全ての問題に解答した
+ * - empty: 今日のクイズがまだ配信されていない
+ * - error: クイズの取得に失敗した
+ */
+export type QuizSessionState = 'loading' | 'answering' | 'completed' | 'empty' | 'error';
+
+/**
+ * 出題する問題(設問と対象の用語名)
+ */
+export interface QuizItem extends TermQuizQuestion {
+  /** 対象の用語名 */
+  termName: string;
+}
+
+/**
+ * 用語クイズを出題順の問題リストに展開する
+ *
+ * @param quizzes - 用語ごとのクイズ
+ * @returns 用語順・設問順に並べた問題リスト
+ */
+export function flattenQuizzes(quizzes: TermQuiz[]): QuizItem[] {
+  return quizzes.flatMap((quiz) =>
+    quiz.questions.map((question) => ({ ...question, termName: quiz.termName }))
+  );
+}
+
+/**
+ * useQuizViewModel の戻り値型
+ * View がクイズセッションを表示・操作するために必要な情報を提供
+ */
+export interface QuizViewModelResult {
+  /** 現在の状態 */
+  state: QuizSessionState;
+  /** ローディング中かどうか(state === 'loading' のショートカット) */
+  loading: boolean;
+  /** 表示中の問題(解答中以外はnull) */
+  currentQuestion: QuizItem | null;
+  /** 表示中の問題の番号(1始まり) */
+  questionNumber: number;
+  /** 問題数 */
+  totalCount: number;
+  /** 選択した選択肢のインデックス(未解答の場合はnull) */
+  selectedIndex: number | null;
+  /** 正解数 */
+  score: number;
+  /** 間違えた問題の用語名(重複なし、出題順) */
+  missedTermNames: string[];
+  /** エラー情報(エラー時のみ) */
+  error: QuizError | null;
+  /** 表示中の問題に解答する関数(解答済みの場合は何もしない) */
+  selectAnswer: (index: number) => void;
+  /** 次の問題に進む関数(最後の問題の場合は結果を表示する) */
+  next: () => void;
+  /** 最初から解き直す関数 */
+  restart: () => void;
+  /** クイズを再取得する関数 */
+  retry: () => Promise<void>;
+}
+
+/**
+ * Quiz ViewModel カスタムフック
+ *
+ * 依存性注入(DI)により、QuizRepositoryをパラメータで受け取ります。
+ *
+ * @param repository - QuizRepository(省略時はデフォルトを使用)
+ * @returns QuizViewModelResult - クイズセッションの表示・操作に必要な状態と関数
+ */
+export function useQuizViewModel(repository?: QuizRepository): QuizViewModelResult {
+  const repo = useMemo(() => repository || createQuizRepository(), [repository]);
+
+  // 状態管理
+  const [state, setState] = useState<QuizSessionState>('loading');
+  const [items, setItems] = useState<QuizItem[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [error, setError] = useState<QuizError | null>(null);
+
+  /**
+   * クイズを取得する内部関数
+   * 初回マウント時とリトライ時に呼ばれる
+   */
+  const fetchQuizzes = useCallback(async () => {
+    setState('loading');
+    setError(null);
+
+    const result = await repo.getTodayQuizzes();
+    if (!result.success) {
+      setItems([]);
+      setError(result.error ?? null);
+      setState('error');
+      return;
+    }
+
+    const nextItems = flattenQuizzes(result.data ?? []);
+    setItems(nextItems);
+    setCurrentIndex(0);
+    setAnswers([]);
+    setState(nextItems.length > 0 ? 'answering' : 'empty');
+  }, [repo]);
+
+  const selectAnswer = useCallback(
+    (index: number) => {
+      // 解答は1問につき1回のみ
+      setAnswers((current) =>
+        current.length === currentIndex ? [...current, index] : current
+      );
+    },
+    [currentIndex]
+  );
+
+  const next = useCallback(() => {
+    if (answers.length <= currentIndex) {
+      return;
+    }
+    if (currentIndex + 1 >= items.length) {
+      setState('completed');
+      return;
+    }
+    setCurrentIndex(currentIndex + 1);
+  }, [answers.length, currentIndex, items.length]);
+
+  const restart = useCallback(() => {
+    setCurrentIndex(0);
+    setAnswers([]);
+    setState(items.length > 0 ? 'answering' : 'empty');
+  }, [items.length]);
+
+  // マウント時にクイズを取得
+  useEffect(() => {
+    fetchQuizzes();
+  }, [fetchQuizzes]);
+
+  // 採点(端末内で正解の選択肢と比較する)
+  const { score, missedTermNames } = useMemo(() => {
+    let correct = 0;
+    const missed: string[] = [];
+    answers.forEach((answer, index) => {
+      const item = items[index];
+      if (answer === item.correctIndex) {
+        correct += 1;
+      } else if (!missed.includes(item.termName)) {
+        missed.push(item.termName);
+      }
+    });
+    return { score: correct, missedTermNames: missed };
+  }, [answers, items]);
+
+  return {
+    state,
+    loading: state === 'loading',
+    currentQuestion: state === 'answering' ? items[currentIndex] ?? null : null,
+    questionNumber: currentIndex + 1,
+    totalCount: items.length,
+    selectedIndex: answers[currentIndex] ?? null,
+    score,
+    missedTermNames,
+    error,
+    selectAnswer,
+    next,
+    restart,
+    retry: fetchQuizzes,
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Review Repository テスト
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ * - 10: オフライン対応強化(端末の状態だけで復習できるようにする)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReviewRepository, ReviewRepositoryConfig } from '../review-repository';
+import { createReviewCard } from '../srs-scheduler';
+import { ReviewCard, TermItem } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { setNetworkState, resetNetworkState } from '../../utils/network';
+
+const mockTerms: TermItem[] = [
+  { name: 'PER', description: '株価収益率', difficulty: 'beginner' },
+  { name: 'ROE', description: '自己資本利益率', difficulty: 'intermediate' },
+];
+
+// 用語を登録した日時(2024-01-15 JST)と翌日
+const REGISTERED_AT = new Date('2024-01-15T00:00:00.000Z');
+const NEXT_DAY = new Date('2024-01-16T00:00:00.000Z');
+
+/**
+ * モック関数を注入したリポジトリを作成する
+ */
+const createRepository = (overrides: ReviewRepositoryConfig = {}) => {
+  let now = REGISTERED_AT;
+  const config = {
+    sessionProvider: jest.fn().mockResolvedValue('user-1'),
+    fetcher: jest.fn().mockResolvedValue([] as ReviewCard[]),
+    upserter: jest.fn().mockResolvedValue(undefined),
+    now: () => now,
+    ...overrides,
+  };
+  return {
+    repository: new ReviewRepository(config),
+    config,
+    setNow: (date: Date) => {
+      now = date;
+    },
+  };
+};
+
+describe('ReviewRepository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetNetworkState();
+    jest.restoreAllMocks();
+  });
+
+  describe('registerTerms', () => {
+    it('閲覧した用語を翌日に復習するカードとして登録する', async () => {
+      const { repository, config, setNow } = createRepository();
+
+      const added = await repository.registerTerms(mockTerms);
+
+      expect(added).toBe(2);
+      expect(await repository.getDueCount()).toBe(0);
+      expect(config.upserter).toHaveBeenCalledWith(
+        expect.arrayContaining([expect.objectContaining({ dueDate: '2024-01-16' })]),
+        'user-1'
+      );
+
+      setNow(NEXT_DAY);
+      expect(await repository.getDueCount()).toBe(2);
+    });
+
+    it('登録済みの用語はスケジュールを変更しない', async () => {
+      const { repository, setNow } = createRepository();
+      await repository.registerTerms(mockTerms);
+      setNow(NEXT_DAY);
+      await repository.gradeCard('PER', 'good');
+
+      const added = await repository.registerTerms(mockTerms);
+
+      expect(added).toBe(0);
+      const per = (await repository.getCards()).find((card) => card.term.name === 'PER');
+      expect(per?.repetitions).toBe(1);
+    });
+
+    it('オフラインの場合は端末にのみ保存する', async () => {
+      const { repository, config } = createRepository();
+      setNetworkState(false);
+
+      await repository.registerTerms(mockTerms);
+
+      expect(config.upserter).not.toHaveBeenCalled();
+      expect(await repository.getCards()).toHaveLength(2);
+    });
+  });
+
+  describe('gradeCard', () => {
+    it('評価に応じて次回の復習日を更新し、リスナーに通知する', async () => {
+      const { repository, setNow } = createRepository();
+      await repository.registerTerms(mockTerms);
+      setNow(NEXT_DAY);
+      const listener = jest.fn();
+      repository.subscribe(listener);
+
+      const updated = await repository.gradeCard('PER', 'good');
+
+      expect(updated?.dueDate).toBe('2024-01-17');
+      expect(await repository.getDueCount()).toBe(1);
+      expect(listener).toHaveBeenCalledTimes(1);
+    });
+
+    it('存在しない用語の場合はnullを返す', async () => {
+      const { repository } = createRepository();
+
+      expect(await repository.gradeCard('存在しない用語', 'good')).toBeNull();
+    });
+
+    it('送信に失敗しても端末の状態は更新する', async () => {
+      const { repository, setNow } = createRepository({
+        upserter: jest
+          .fn()
+          .mockRejectedValue(new SupabaseError('CONNECTION_FAILED', '接続エラー', undefined, true)),
+      });
+      await repository.registerTerms(mockTerms);
+      setNow(NEXT_DAY);
+
+      const updated = await repository.gradeCard('PER', 'easy');
+
+      expect(updated?.repetitions).toBe(1);
+      const per = (await repository.getCards()).find((card) => card.term.name === 'PER');
+      expect(per?.dueDate).toBe(updated?.dueDate);
+    });
+  });
+
+  describe('sync', () => {
+    it('用語ごとに更新日時の新しい方を採用し、端末の方が新しいカードを送信する', async () => {
+      // SupabaseのPERは端末より新しく、タイムゾーン表記が異なる
+      const remotePer: ReviewCard = {
+        ...createReviewCard(mockTerms[0], REGISTERED_AT),
+        repetitions: 3,
+        intervalDays: 15,
+        dueDate: '2024-02-01',
+        updatedAt: '2024-01-15T12:00:00+00:00',
+      };
+      const { repository, config } = createRepository({
+        fetcher: jest.fn().mockResolvedValue([remotePer]),
+      });
+      setNetworkState(false);
+      await repository.registerTerms(mockTerms);
+      setNetworkState(true);
+
+      const result = await repository.sync();
+
+      expect(result).toEqual({ synced: true, pushed: 1, pulled: 1 });
+      expect(config.upserter).toHaveBeenCalledWith(
+        [expect.objectContaining({ term: mockTerms[1] })],
+        'user-1'
+      );
+      const per = (await repository.getCards()).find((card) => card.term.name === 'PER');
+      expect(per?.repetitions).toBe(3);
+    });
+
+    it('オフラインの場合は同期しない', async () => {
+      const { repository, config } = createRepository();
+      setNetworkState(false);
+
+      const result = await repository.sync();
+
+      expect(result.synced).toBe(false);
+      expect(config.fetcher).not.toHaveBeenCalled();
+    });
+
+    it('同期が無効の場合は同期しない', async () => {
+      const { repository, config } = createRepository({ syncEnabled: false });
+
+      const result = await repository.sync();
+
+      expect(result.synced).toBe(false);
+      expect(config.sessionProvider).not.toHaveBeenCalled();
+    });
+
+    it('同期に失敗した場合はエラー情報を返し、端末の状態を維持する', async () => {
+      const { repository } = createRepository({
+        fetcher: jest
+          .fn()
+          .mockRejectedValue(new SupabaseError('PERMISSION_DENIED', '権限エラー', undefined, false)),
+      });
+      await repository.registerTerms(mockTerms);
+
+      const result = await repository.sync();
+
+      expect(result.synced).toBe(false);
+      expect(result.error?.code).toBe('PERMISSION_DENIED');
+      expect(await repository.getCards()).toHaveLength(2);
+    });
+  });
+});
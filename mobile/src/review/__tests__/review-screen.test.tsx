@@ -0,0 +1,126 @@
+/**
+ * Review Screen テスト
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { ReviewScreen, formatIntervalLabel } from '../review-screen';
+import { ReviewViewModelResult } from '../review-viewmodel';
+import { ReviewCard } from '../../supabase/types';
+import { ThemeProvider } from '../../theme';
+
+const mockCard: ReviewCard = {
+  term: {
+    name: 'PER（株価収益率）',
+    description: '株価が1株当たり純利益の何倍かを示す指標です。',
+    difficulty: 'beginner',
+  },
+  easeFactor: 2.5,
+  intervalDays: 1,
+  repetitions: 1,
+  lapses: 0,
+  dueDate: '2024-01-16',
+  lastReviewedAt: '2024-01-15T00:00:00.000Z',
+  updatedAt: '2024-01-15T00:00:00.000Z',
+};
+
+// ViewModelのモック結果を生成するヘルパー関数
+const createMockViewModelResult = (
+  overrides: Partial<ReviewViewModelResult> = {}
+): ReviewViewModelResult => ({
+  state: 'reviewing',
+  loading: false,
+  currentCard: mockCard,
+  flipped: false,
+  nextIntervals: { again: 0, hard: 2, good: 6, easy: 8 },
+  reviewedCount: 0,
+  remainingCount: 3,
+  flip: jest.fn(),
+  grade: jest.fn(),
+  refresh: jest.fn(),
+  ...overrides,
+});
+
+// ThemeProviderでラップしてレンダリングするヘルパー
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(<ThemeProvider>{component}</ThemeProvider>);
+};
+
+describe('ReviewScreen', () => {
+  it('カードの表面に用語名と残り枚数を表示し、評価ボタンは表示しない', () => {
+    const viewModelResult = createMockViewModelResult();
+    const { getByTestId, getByText, queryByTestId } = renderWithTheme(
+      <ReviewScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByTestId('review-card-front')).toBeTruthy();
+    expect(getByText('PER（株価収益率）')).toBeTruthy();
+    expect(getByText('残り3枚')).toBeTruthy();
+    expect(queryByTestId('review-card-back')).toBeNull();
+    expect(queryByTestId('review-grades')).toBeNull();
+  });
+
+  it('カードをタップすると裏返す', () => {
+    const viewModelResult = createMockViewModelResult();
+    const { getByTestId } = renderWithTheme(<ReviewScreen viewModelResult={viewModelResult} />);
+
+    fireEvent.press(getByTestId('review-card'));
+
+    expect(viewModelResult.flip).toHaveBeenCalledTimes(1);
+  });
+
+  it('裏返した後は解説と次回の復習間隔付きの評価ボタンを表示する', () => {
+    const viewModelResult = createMockViewModelResult({ flipped: true });
+    const { getByTestId, getByText } = renderWithTheme(
+      <ReviewScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText(mockCard.term.description)).toBeTruthy();
+    expect(getByTestId('review-grade-again')).toBeTruthy();
+    expect(getByText('今日')).toBeTruthy();
+    expect(getByText('6日')).toBeTruthy();
+
+    fireEvent.press(getByTestId('review-grade-good'));
+    expect(viewModelResult.grade).toHaveBeenCalledWith('good');
+  });
+
+  it('ローディング中はスピナーを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      state: 'loading',
+      loading: true,
+      currentCard: null,
+    });
+    const { getByTestId } = renderWithTheme(<ReviewScreen viewModelResult={viewModelResult} />);
+
+    expect(getByTestId('loading-indicator')).toBeTruthy();
+  });
+
+  it('復習が完了した場合は完了メッセージを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      state: 'completed',
+      currentCard: null,
+      reviewedCount: 3,
+      remainingCount: 0,
+    });
+    const { getByTestId, getByText } = renderWithTheme(
+      <ReviewScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByTestId('review-completed')).toBeTruthy();
+    expect(getByText('今日の復習は完了しました')).toBeTruthy();
+
+    fireEvent.press(getByTestId('review-refresh-button'));
+    expect(viewModelResult.refresh).toHaveBeenCalledTimes(1);
+  });
+
+  describe('formatIntervalLabel', () => {
+    it('復習間隔を日数・月数で表示する', () => {
+      expect(formatIntervalLabel(0)).toBe('今日');
+      expect(formatIntervalLabel(6)).toBe('6日');
+      expect(formatIntervalLabel(95)).toBe('3か月');
+    });
+  });
+});
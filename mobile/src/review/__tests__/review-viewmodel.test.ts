@@ -0,0 +1,108 @@
+/**
+ * Review ViewModel テスト
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { renderHook, act, waitFor } from '@testing-library/react-native';
+import { useReviewViewModel, useDueReviewCount } from '../review-viewmodel';
+import { ReviewRepository } from '../review-repository';
+import { TermItem } from '../../supabase/types';
+import { resetNetworkState } from '../../utils/network';
+
+const mockTerms: TermItem[] = [
+  { name: 'PER', description: '株価収益率', difficulty: 'beginner' },
+  { name: 'ROE', description: '自己資本利益率', difficulty: 'intermediate' },
+];
+
+/**
+ * 用語を登録済みで、全てのカードが復習日を迎えたリポジトリを作成する
+ * (renderHookのコールバック内で作成すると再レンダリングのたびに別インスタンスになるため外で作成する)
+ */
+async function createRepositoryWithDueCards(): Promise<ReviewRepository> {
+  let now = new Date('2024-01-15T00:00:00.000Z');
+  const repository = new ReviewRepository({ syncEnabled: false, now: () => now });
+  await repository.registerTerms(mockTerms);
+  now = new Date('2024-01-16T00:00:00.000Z');
+  return repository;
+}
+
+describe('useReviewViewModel', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+  });
+
+  it('復習日を迎えたカードを順に表示し、裏返して評価できる', async () => {
+    const repository = await createRepositoryWithDueCards();
+    const { result } = renderHook(() => useReviewViewModel(repository));
+
+    await waitFor(() => expect(result.current.state).toBe('reviewing'));
+    expect(result.current.currentCard?.term.name).toBe('PER');
+    expect(result.current.remainingCount).toBe(2);
+    expect(result.current.flipped).toBe(false);
+    expect(result.current.nextIntervals).toEqual({ again: 0, hard: 1, good: 1, easy: 4 });
+
+    act(() => {
+      result.current.flip();
+    });
+    expect(result.current.flipped).toBe(true);
+
+    await act(async () => {
+      await result.current.grade('good');
+    });
+    expect(result.current.currentCard?.term.name).toBe('ROE');
+    expect(result.current.flipped).toBe(false);
+    expect(result.current.reviewedCount).toBe(1);
+  });
+
+  it('「もう一度」と評価したカードはセッションの最後に再度出題する', async () => {
+    const repository = await createRepositoryWithDueCards();
+    const { result } = renderHook(() => useReviewViewModel(repository));
+    await waitFor(() => expect(result.current.state).toBe('reviewing'));
+
+    await act(async () => {
+      await result.current.grade('again');
+    });
+    expect(result.current.currentCard?.term.name).toBe('ROE');
+    expect(result.current.remainingCount).toBe(2);
+
+    await act(async () => {
+      await result.current.grade('good');
+    });
+    await act(async () => {
+      await result.current.grade('good');
+    });
+    expect(result.current.state).toBe('completed');
+    expect(result.current.reviewedCount).toBe(3);
+  });
+
+  it('復習日を迎えたカードがない場合は完了状態になる', async () => {
+    const repository = new ReviewRepository({ syncEnabled: false });
+    const { result } = renderHook(() => useReviewViewModel(repository));
+
+    await waitFor(() => expect(result.current.state).toBe('completed'));
+    expect(result.current.currentCard).toBeNull();
+  });
+});
+
+describe('useDueReviewCount', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    resetNetworkState();
+  });
+
+  it('復習日を迎えたカードの数を返し、評価に合わせて更新する', async () => {
+    const repository = await createRepositoryWithDueCards();
+    const { result } = renderHook(() => useDueReviewCount(repository));
+
+    await waitFor(() => expect(result.current).toBe(2));
+
+    await act(async () => {
+      await repository.gradeCard('PER', 'good');
+    });
+    await waitFor(() => expect(result.current).toBe(1));
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * SRS Scheduler テスト
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ */
+
+import {
+  addDays,
+  createReviewCard,
+  scheduleReview,
+  previewIntervals,
+  isDue,
+  DEFAULT_SRS_CONFIG,
+} from '../srs-scheduler';
+import { ReviewCard, TermItem } from '../../supabase/types';
+
+const mockTerm: TermItem = {
+  name: 'PER',
+  description: '株価収益率',
+  difficulty: 'beginner',
+};
+
+// 2024-01-15 09:00 JST
+const NOW = new Date('2024-01-15T00:00:00.000Z');
+
+/**
+ * 指定した回数「正解」と評価したカードを作成する
+ */
+function reviewTimes(card: ReviewCard, times: number): ReviewCard {
+  let current = card;
+  for (let i = 0; i < times; i++) {
+    current = scheduleReview(current, 'good', NOW);
+  }
+  return current;
+}
+
+describe('srs-scheduler', () => {
+  describe('addDays', () => {
+    it('月末・年末をまたいで日数を加算できる', () => {
+      expect(addDays('2024-01-31', 1)).toBe('2024-02-01');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2024-01-15', 0)).toBe('2024-01-15');
+    });
+  });
+
+  describe('createReviewCard', () => {
+    it('初めて見た用語は翌日に復習する', () => {
+      const card = createReviewCard(mockTerm, NOW);
+
+      expect(card).toEqual({
+        term: mockTerm,
+        easeFactor: DEFAULT_SRS_CONFIG.initialEaseFactor,
+        intervalDays: 0,
+        repetitions: 0,
+        lapses: 0,
+        dueDate: '2024-01-16',
+        lastReviewedAt: null,
+        updatedAt: NOW.toISOString(),
+      });
+    });
+  });
+
+  describe('scheduleReview', () => {
+    const newCard = createReviewCard(mockTerm, NOW);
+
+    it('「正解」を続けると間隔が1日→6日→EF倍に伸びる', () => {
+      const first = scheduleReview(newCard, 'good', NOW);
+      expect(first.intervalDays).toBe(1);
+      expect(first.dueDate).toBe('2024-01-16');
+
+      const second = scheduleReview(first, 'good', NOW);
+      expect(second.intervalDays).toBe(6);
+
+      const third = scheduleReview(second, 'good', NOW);
+      expect(third.intervalDays).toBe(15); // 6 × 2.5
+      expect(third.repetitions).toBe(3);
+      expect(third.easeFactor).toBe(2.5);
+    });
+
+    it('「もう一度」は当日中に再度出題し、連続正解回数をリセットする', () => {
+      const reviewed = reviewTimes(newCard, 3);
+
+      const lapsed = scheduleReview(reviewed, 'again', NOW);
+
+      expect(lapsed.intervalDays).toBe(0);
+      expect(lapsed.dueDate).toBe('2024-01-15');
+      expect(lapsed.repetitions).toBe(0);
+      expect(lapsed.lapses).toBe(1);
+      expect(lapsed.easeFactor).toBeLessThan(reviewed.easeFactor);
+    });
+
+    it('「難しい」は「正解」より短く、「簡単」は「正解」より長い間隔になる', () => {
+      const reviewed = reviewTimes(newCard, 2);
+
+      const hard = scheduleReview(reviewed, 'hard', NOW);
+      const good = scheduleReview(reviewed, 'good', NOW);
+      const easy = scheduleReview(reviewed, 'easy', NOW);
+
+      expect(hard.intervalDays).toBeLessThan(good.intervalDays);
+      expect(easy.intervalDays).toBeGreaterThan(good.intervalDays);
+      expect(hard.easeFactor).toBeLessThan(good.easeFactor);
+      expect(easy.easeFactor).toBeGreaterThan(good.easeFactor);
+    });
+
+    it('易しさ係数は下限を下回らない', () => {
+      let card = newCard;
+      for (let i = 0; i < 10; i++) {
+        card = scheduleReview(card, 'again', NOW);
+      }
+
+      expect(card.easeFactor).toBe(DEFAULT_SRS_CONFIG.minimumEaseFactor);
+    });
+
+    it('復習間隔は上限を超えない', () => {
+      const card = reviewTimes(newCard, 20);
+
+      expect(card.intervalDays).toBe(DEFAULT_SRS_CONFIG.maximumIntervalDays);
+    });
+
+    it('評価日時を記録する', () => {
+      const later = new Date('2024-01-20T03:00:00.000Z');
+      const reviewed = scheduleReview(newCard, 'good', later);
+
+      expect(reviewed.lastReviewedAt).toBe(later.toISOString());
+      expect(reviewed.updatedAt).toBe(later.toISOString());
+      expect(reviewed.dueDate).toBe('2024-01-21');
+    });
+  });
+
+  describe('previewIntervals', () => {
+    it('各評価を選んだ場合の次回の復習間隔を返す', () => {
+      const card = reviewTimes(createReviewCard(mockTerm, NOW), 1);
+
+      expect(previewIntervals(card)).toEqual({ again: 0, hard: 2, good: 6, easy: 8 });
+    });
+  });
+
+  describe('isDue', () => {
+    it('復習日が今日以前の場合にtrueを返す', () => {
+      const card = createReviewCard(mockTerm, NOW); // 2024-01-16
+
+      expect(isDue(card, '2024-01-15')).toBe(false);
+      expect(isDue(card, '2024-01-16')).toBe(true);
+      expect(isDue(card, '2024-01-20')).toBe(true);
+    });
+  });
+});
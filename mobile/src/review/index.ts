@@ -0,0 +1,40 @@
+/**
+ * Review Feature エクスポート
+ *
+ * 間隔反復学習(SRS)による用語の復習機能の公開APIを提供します。
+ */
+
+export {
+  ReviewRepository,
+  getDefaultReviewRepository,
+  resetDefaultReviewRepository,
+  REVIEW_CARDS_KEY,
+  type ReviewCardsListener,
+  type ReviewSessionProvider,
+  type ReviewCardFetcher,
+  type ReviewCardUpserter,
+  type ReviewSyncResult,
+  type ReviewRepositoryConfig,
+} from './review-repository';
+
+export {
+  createReviewCard,
+  scheduleReview,
+  previewIntervals,
+  isDue,
+  addDays,
+  REVIEW_GRADES,
+  DEFAULT_SRS_CONFIG,
+  type ReviewGrade,
+  type SrsConfig,
+} from './srs-scheduler';
+
+export {
+  useReviewViewModel,
+  useDueReviewCount,
+  useRegisterReviewTerms,
+  type ReviewSessionState,
+  type ReviewViewModelResult,
+} from './review-viewmodel';
+
+export { ReviewScreen, formatIntervalLabel } from './review-screen';
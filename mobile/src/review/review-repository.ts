@@ -0,0 +1,370 @@
+/**
+ * Review Repository
+ *
+ * 用語の復習カード(間隔反復学習の状態)を端末のAsyncStorageに保存し、
+ * 復習日を迎えたカードの取得と評価の記録を提供します。
+ * オンライン時はSupabaseのreview_statesテーブルと同期し、
+ * 端末を変えても復習状態を引き継げるようにします。
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ * - 10: オフライン対応強化(端末の状態だけで復習できるようにする)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReviewCard, TermItem } from '../supabase/types';
+import {
+  formatDateToJST,
+  getReviewStates,
+  upsertReviewStates,
+  reviewStateRowToReviewCard,
+  reviewCardToReviewStateRow,
+} from '../supabase/queries';
+import { ensureSupabaseSession } from '../supabase/client';
+import { SupabaseError, toSupabaseError } from '../supabase/errors';
+import { isOffline } from '../utils/network';
+import {
+  ReviewGrade,
+  SrsConfig,
+  DEFAULT_SRS_CONFIG,
+  createReviewCard,
+  scheduleReview,
+  isDue,
+} from './srs-scheduler';
+
+/**
+ * 復習カードを保存するAsyncStorageのキー
+ */
+export const REVIEW_CARDS_KEY = 'review_cards';
+
+/**
+ * 復習カード一覧の変更を受け取るリスナー
+ */
+export type ReviewCardsListener = (cards: ReviewCard[]) => void;
+
+/**
+ * 認証セッションを確保してユーザーIDを返す関数
+ */
+export type ReviewSessionProvider = () => Promise<string>;
+
+/**
+ * Supabaseから復習カード一覧を取得する関数
+ */
+export type ReviewCardFetcher = (userId: string) => Promise<ReviewCard[]>;
+
+/**
+ * Supabaseに復習カードを保存する関数
+ */
+export type ReviewCardUpserter = (cards: ReviewCard[], userId: string) => Promise<void>;
+
+/**
+ * 同期結果
+ */
+export interface ReviewSyncResult {
+  /** 同期できたかどうか(無効・オフラインの場合はfalse) */
+  synced: boolean;
+  /** Supabaseに送信したカード数 */
+  pushed: number;
+  /** Supabaseから取り込んだカード数 */
+  pulled: number;
+  /** エラー情報(同期に失敗した場合) */
+  error?: {
+    code: string;
+    message: string;
+    retryable: boolean;
+  };
+}
+
+/**
+ * Review Repository設定
+ * 依存性注入(DI)によりテスタビリティを向上
+ */
+export interface ReviewRepositoryConfig {
+  /** スケジューラ設定 */
+  srsConfig?: SrsConfig;
+  /** Supabaseとの同期を有効にするか(デフォルト: true) */
+  syncEnabled?: boolean;
+  /** 認証セッションを確保する関数 */
+  sessionProvider?: ReviewSessionProvider;
+  /** Supabaseから復習カード一覧を取得する関数 */
+  fetcher?: ReviewCardFetcher;
+  /** Supabaseに復習カードを保存する関数 */
+  upserter?: ReviewCardUpserter;
+  /** 現在日時を返す関数(テスト用) */
+  now?: () => Date;
+}
+
+/**
+ * 復習日の近い順(同じ日は用語名順)に並べる
+ */
+function compareByDueDate(a: ReviewCard, b: ReviewCard): number {
+  return a.dueDate.localeCompare(b.dueDate) || a.term.name.localeCompare(b.term.name);
+}
+
+/**
+ * 更新日時を比較する
+ *
+ * Supabaseから取得した日時はタイムゾーン表記が異なるため、文字列ではなく時刻で比較する
+ */
+function isNewer(updatedAt: string, than: string): boolean {
+  return Date.parse(updatedAt) > Date.parse(than);
+}
+
+/**
+ * Review Repository クラス
+ *
+ * 端末の状態を正とし、同期時は用語ごとに更新日時の新しい方を採用します。
+ * 復習タブの件数バッジと復習画面で同じインスタンスを共有し、
+ * 評価のたびにリスナーへ変更を通知します。
+ *
+ * @example
+ * ```typescript
+ * const repository = getDefaultReviewRepository();
+ * await repository.registerTerms(terms);
+ * const dueCards = await repository.getDueCards();
+ * await repository.gradeCard(dueCards[0].term.name, 'good');
+ * ```
+ */
+export class ReviewRepository {
+  private srsConfig: SrsConfig;
+  private syncEnabled: boolean;
+  private sessionProvider: ReviewSessionProvider;
+  private fetcher: ReviewCardFetcher;
+  private upserter: ReviewCardUpserter;
+  private now: () => Date;
+  private listeners: Set<ReviewCardsListener> = new Set();
+
+  /**
+   * ReviewRepositoryのコンストラクタ
+   * @param config - 設定(テスト用にモック関数を注入可能)
+   */
+  constructor(config?: ReviewRepositoryConfig) {
+    this.srsConfig = config?.srsConfig || DEFAULT_SRS_CONFIG;
+    this.syncEnabled = config?.syncEnabled ?? true;
+    this.sessionProvider = config?.sessionProvider || ensureSupabaseSession;
+    this.fetcher =
+      config?.fetcher ||
+      (async (userId) => (await getReviewStates(userId)).map(reviewStateRowToReviewCard));
+    this.upserter =
+      config?.upserter ||
+      ((cards, userId) =>
+        upsertReviewStates(cards.map((card) => reviewCardToReviewStateRow(card, userId))));
+    this.now = config?.now || (() => new Date());
+  }
+
+  /**
+   * 復習カード一覧の変更を購読する
+   *
+   * @param listener - 変更時に呼ばれるコールバック
+   * @returns 購読を解除する関数
+   */
+  subscribe(listener: ReviewCardsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 端末に保存した全ての復習カードを取得する
+   *
+   * @returns 復習カード一覧(復習日の近い順)
+   */
+  async getCards(): Promise<ReviewCard[]> {
+    try {
+      const value = await AsyncStorage.getItem(REVIEW_CARDS_KEY);
+      const cards = value ? JSON.parse(value) : [];
+      return Array.isArray(cards) ? (cards as ReviewCard[]).sort(compareByDueDate) : [];
+    } catch (error) {
+      console.error('[ReviewRepository] Failed to read review cards:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 復習日を迎えたカードを取得する
+   *
+   * @returns 復習日を迎えたカード(復習日の古い順)
+   */
+  async getDueCards(): Promise<ReviewCard[]> {
+    const today = formatDateToJST(this.now());
+    return (await this.getCards()).filter((card) => isDue(card, today));
+  }
+
+  /**
+   * 復習日を迎えたカードの数を取得する
+   *
+   * @returns 復習日を迎えたカードの数
+   */
+  async getDueCount(): Promise<number> {
+    return (await this.getDueCards()).length;
+  }
+
+  /**
+   * 閲覧した用語を復習対象に登録する
+   *
+   * 登録済みの用語はスケジュールを変更しません。
+   *
+   * @param terms - 閲覧した用語
+   * @returns 新たに登録したカードの数
+   */
+  async registerTerms(terms: TermItem[]): Promise<number> {
+    const cards = await this.getCards();
+    const registered = new Set(cards.map((card) => card.term.name));
+    const now = this.now();
+
+    const added = terms
+      .filter((term) => !registered.has(term.name))
+      .map((term) => createReviewCard(term, now, this.srsConfig));
+
+    if (added.length === 0) {
+      return 0;
+    }
+
+    await this.saveCards([...cards, ...added]);
+    await this.push(added);
+    return added.length;
+  }
+
+  /**
+   * 復習カードを評価し、次回の復習日を更新する
+   *
+   * @param termName - 評価する用語名
+   * @param grade - 評価
+   * @returns 更新後のカード(該当するカードがない場合はnull)
+   */
+  async gradeCard(termName: string, grade: ReviewGrade): Promise<ReviewCard | null> {
+    const cards = await this.getCards();
+    const card = cards.find((c) => c.term.name === termName);
+    if (!card) {
+      console.warn(`[ReviewRepository] Review card not found: ${termName}`);
+      return null;
+    }
+
+    const updated = scheduleReview(card, grade, this.now(), this.srsConfig);
+    await this.saveCards(cards.map((c) => (c.term.name === termName ? updated : c)));
+    await this.push([updated]);
+    return updated;
+  }
+
+  /**
+   * Supabaseと復習カードを同期する
+   *
+   * 1. Supabaseから復習カードを取得する
+   * 2. 用語ごとに更新日時の新しい方を採用して端末に保存する
+   * 3. 端末の方が新しい(またはSupabaseにない)カードを送信する
+   *
+   * 同期に失敗しても端末の状態で復習を続けられるため、エラーはスローしません。
+   *
+   * @returns 同期結果
+   */
+  async sync(): Promise<ReviewSyncResult> {
+    if (!this.syncEnabled || isOffline()) {
+      return { synced: false, pushed: 0, pulled: 0 };
+    }
+
+    try {
+      const userId = await this.sessionProvider();
+      const remoteCards = await this.fetcher(userId);
+      const localCards = await this.getCards();
+
+      const merged = new Map(localCards.map((card) => [card.term.name, card]));
+      let pulled = 0;
+      for (const remote of remoteCards) {
+        const local = merged.get(remote.term.name);
+        if (!local || isNewer(remote.updatedAt, local.updatedAt)) {
+          merged.set(remote.term.name, remote);
+          pulled++;
+        }
+      }
+
+      const remoteUpdatedAt = new Map(
+        remoteCards.map((card) => [card.term.name, card.updatedAt])
+      );
+      const toPush = localCards.filter((card) => {
+        const updatedAt = remoteUpdatedAt.get(card.term.name);
+        return updatedAt === undefined || isNewer(card.updatedAt, updatedAt);
+      });
+
+      if (toPush.length > 0) {
+        await this.upserter(toPush, userId);
+      }
+      if (pulled > 0) {
+        await this.saveCards([...merged.values()]);
+      }
+
+      return { synced: true, pushed: toPush.length, pulled };
+    } catch (error) {
+      const supabaseError = error instanceof SupabaseError ? error : toSupabaseError(error);
+      console.warn('[ReviewRepository] Failed to sync review cards:', supabaseError.message);
+      return {
+        synced: false,
+        pushed: 0,
+        pulled: 0,
+        error: {
+          code: supabaseError.code,
+          message: supabaseError.message,
+          retryable: supabaseError.retryable,
+        },
+      };
+    }
+  }
+
+  /**
+   * 更新したカードをSupabaseに送信する
+   *
+   * 失敗した場合は次回のsync()で更新日時を比較して再送されるため、エラーは無視します。
+   */
+  private async push(cards: ReviewCard[]): Promise<void> {
+    if (!this.syncEnabled || isOffline()) {
+      return;
+    }
+
+    try {
+      const userId = await this.sessionProvider();
+      await this.upserter(cards, userId);
+    } catch (error) {
+      console.warn('[ReviewRepository] Failed to push review cards, will retry on sync:', error);
+    }
+  }
+
+  /**
+   * 復習カード一覧を端末に保存し、リスナーに通知する
+   */
+  private async saveCards(cards: ReviewCard[]): Promise<void> {
+    const sorted = [...cards].sort(compareByDueDate);
+    try {
+      await AsyncStorage.setItem(REVIEW_CARDS_KEY, JSON.stringify(sorted));
+    } catch (error) {
+      // 保存に失敗しても画面の状態は更新する
+      console.error('[ReviewRepository] Failed to save review cards:', error);
+    }
+    this.listeners.forEach((listener) => listener(sorted));
+  }
+}
+
+/**
+ * デフォルトのReviewRepository(シングルトン)
+ */
+let defaultRepository: ReviewRepository | null = null;
+
+/**
+ * デフォルトのReviewRepositoryを取得する
+ *
+ * 用語タブの件数バッジと復習画面で状態を共有するため、アプリ全体で同じインスタンスを使用します。
+ *
+ * @returns ReviewRepository
+ */
+export function getDefaultReviewRepository(): ReviewRepository {
+  if (!defaultRepository) {
+    defaultRepository = new ReviewRepository();
+  }
+  return defaultRepository;
+}
+
+/**
+ * デフォルトのReviewRepositoryをリセットする(テスト用)
+ */
+export function resetDefaultReviewRepository(): void {
+  defaultRepository = null;
+}
@@ -0,0 +1,345 @@
+/**
+ * Review Screen コンポーネント
+ *
+ * MVVM パターンにおける View 層。
+ * ReviewViewModelResult を受け取り、フラッシュカードで用語を復習する画面を表示します。
+ * 表面に用語名、裏面に解説を表示し、裏返した後に4段階で評価します。
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ * - 6.4: 可読性確保
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useThemeColors } from '../theme';
+import { ReviewViewModelResult } from './review-viewmodel';
+import { ReviewGrade, REVIEW_GRADES } from './srs-scheduler';
+
+/**
+ * ReviewScreenのプロパティ
+ * ViewModelの結果を受け取り、純粋なUIコンポーネントとして動作
+ */
+interface ReviewScreenProps {
+  /** ViewModelから提供される状態と関数 */
+  viewModelResult: ReviewViewModelResult;
+}
+
+/**
+ * 評価ボタンの表示名
+ */
+const GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: 'もう一度',
+  hard: '難しい',
+  good: '正解',
+  easy: '簡単',
+};
+
+/**
+ * 難易度の表示名
+ */
+const DIFFICULTY_LABELS = {
+  beginner: '初級',
+  intermediate: '中級',
+  advanced: '上級',
+} as const;
+
+/**
+ * 復習間隔を表示用の文字列に変換する
+ *
+ * @param days - 復習間隔(日数)
+ * @returns 表示用の文字列(0日は「今日」)
+ */
+export function formatIntervalLabel(days: number): string {
+  if (days === 0) {
+    return '今日';
+  }
+  if (days >= 30) {
+    return `${Math.round(days / 30)}か月`;
+  }
+  return `${days}日`;
+}
+
+/**
+ * 復習画面コンポーネント
+ *
+ * ViewModelから提供される状態に基づいて、
+ * ローディング、フラッシュカード、復習完了の表示を切り替えます。
+ *
+ * @param props - ReviewScreenProps
+ * @returns 復習画面のReactコンポーネント
+ */
+export function ReviewScreen({ viewModelResult }: ReviewScreenProps) {
+  const colors = useThemeColors();
+  const {
+    state,
+    currentCard,
+    flipped,
+    nextIntervals,
+    reviewedCount,
+    remainingCount,
+    flip,
+    grade,
+    refresh,
+  } = viewModelResult;
+
+  // 読み込み中
+  if (state === 'loading') {
+    return (
+      <View
+        testID="review-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <ActivityIndicator testID="loading-indicator" size="large" color={colors.primary} />
+        <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+          復習する用語を読み込んでいます...
+        </Text>
+      </View>
+    );
+  }
+
+  // 復習完了(または復習日を迎えたカードがない)
+  if (state === 'completed' || !currentCard) {
+    return (
+      <View
+        testID="review-container"
+        style={[styles.container, styles.centerContainer, { backgroundColor: colors.background }]}
+      >
+        <View testID="review-completed" style={styles.completedContainer}>
+          <Text style={[styles.completedTitle, { color: colors.text }]}>
+            {reviewedCount > 0 ? '今日の復習は完了しました' : '今日復習する用語はありません'}
+          </Text>
+          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+            {reviewedCount > 0
+              ? `${reviewedCount}回評価しました。次の復習日にまた出題されます。`
+              : '用語タブで見た用語は、翌日から復習できるようになります。'}
+          </Text>
+          <TouchableOpacity
+            testID="review-refresh-button"
+            style={[styles.refreshButton, { backgroundColor: colors.primary }]}
+            onPress={refresh}
+            activeOpacity={0.7}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="復習する用語を再読み込み"
+          >
+            <Text style={[styles.refreshButtonText, { color: colors.primaryText }]}>
+              再読み込み
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  }
+
+  const { term } = currentCard;
+
+  return (
+    <View testID="review-container" style={[styles.container, { backgroundColor: colors.background }]}>
+      <ScrollView
+        testID="review-scroll-view"
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+      >
+        {/* 進捗 */}
+        <Text testID="review-progress" style={[styles.metaText, { color: colors.textSecondary }]}>
+          残り{remainingCount}枚
+        </Text>
+
+        {/* フラッシュカード(タップで裏返す) */}
+        <TouchableOpacity
+          testID="review-card"
+          style={[
+            styles.card,
+            { backgroundColor: colors.card, borderColor: colors.cardBorder },
+          ]}
+          onPress={flip}
+          activeOpacity={0.8}
+          accessible={true}
+          accessibilityRole="button"
+          accessibilityLabel={flipped ? `${term.name}の解説` : `${term.name}。タップして解説を表示`}
+          accessibilityHint={flipped ? 'タップで用語名の表示に戻ります' : undefined}
+        >
+          {flipped ? (
+            <>
+              <Text style={[styles.cardBackTitle, { color: colors.textSecondary }]}>
+                {term.name}
+              </Text>
+              <Text testID="review-card-back" style={[styles.cardDescription, { color: colors.text }]}>
+                {term.description}
+              </Text>
+            </>
+          ) : (
+            <>
+              <Text style={[styles.difficultyText, { color: colors.textSecondary }]}>
+                {DIFFICULTY_LABELS[term.difficulty]}
+              </Text>
+              <Text testID="review-card-front" style={[styles.cardTitle, { color: colors.text }]}>
+                {term.name}
+              </Text>
+              <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+                意味を思い出してからタップ
+              </Text>
+            </>
+          )}
+        </TouchableOpacity>
+
+        {/* 評価ボタン(裏返した後に表示) */}
+        {flipped && (
+          <View testID="review-grades" style={styles.gradeRow}>
+            {REVIEW_GRADES.map((reviewGrade) => (
+              <TouchableOpacity
+                key={reviewGrade}
+                testID={`review-grade-${reviewGrade}`}
+                style={[styles.gradeButton, { borderColor: colors.primary }]}
+                onPress={() => grade(reviewGrade)}
+                activeOpacity={0.7}
+                accessible={true}
+                accessibilityRole="button"
+                accessibilityLabel={`${GRADE_LABELS[reviewGrade]}（次回: ${
+                  nextIntervals ? formatIntervalLabel(nextIntervals[reviewGrade]) : ''
+                }）`}
+              >
+                <Text style={[styles.gradeLabel, { color: colors.primary }]}>
+                  {GRADE_LABELS[reviewGrade]}
+                </Text>
+                {nextIntervals && (
+                  <Text style={[styles.gradeInterval, { color: colors.textSecondary }]}>
+                    {formatIntervalLabel(nextIntervals[reviewGrade])}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+/**
+ * タイポグラフィ定数
+ *
+ * @see Requirements: 6.4
+ */
+const TYPOGRAPHY = {
+  /** 本文フォントサイズ（16pt以上を保証） */
+  BODY_FONT_SIZE: 16,
+  /** 本文行間 */
+  BODY_LINE_HEIGHT: 26,
+  /** カード表面の用語名フォントサイズ */
+  CARD_TITLE_FONT_SIZE: 26,
+  /** 見出しフォントサイズ */
+  TITLE_FONT_SIZE: 18,
+  /** 補足フォントサイズ */
+  META_FONT_SIZE: 14,
+} as const;
+
+/**
+ * スタイル定義
+ *
+ * @see Requirements: 6.3, 6.4, 6.5
+ */
+const styles = StyleSheet.create({
+  // コンテナ
+  container: {
+    flex: 1,
+  },
+  centerContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+
+  // スクロールビュー
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+    gap: 16,
+  },
+
+  // カード
+  card: {
+    minHeight: 240,
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 12,
+  },
+  cardTitle: {
+    fontSize: TYPOGRAPHY.CARD_TITLE_FONT_SIZE,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  cardBackTitle: {
+    fontSize: TYPOGRAPHY.TITLE_FONT_SIZE,
+    fontWeight: '600',
+    alignSelf: 'flex-start',
+  },
+  cardDescription: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    lineHeight: TYPOGRAPHY.BODY_LINE_HEIGHT,
+  },
+  difficultyText: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+  },
+
+  // 評価ボタン
+  gradeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  gradeButton: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  gradeLabel: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+  gradeInterval: {
+    marginTop: 4,
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+  },
+
+  // 補足テキスト
+  metaText: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    textAlign: 'center',
+    lineHeight: 22,
+  },
+
+  // 復習完了
+  completedContainer: {
+    alignItems: 'center',
+    gap: 12,
+  },
+  completedTitle: {
+    fontSize: TYPOGRAPHY.TITLE_FONT_SIZE,
+    fontWeight: '700',
+  },
+  refreshButton: {
+    marginTop: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  refreshButtonText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,193 @@
+/**
+ * Review ViewModel
+ *
+ * MVVM パターンにおける ViewModel 層。
+ * ReviewRepository から復習日を迎えたカードを取得し、
+ * フラッシュカードによる復習セッションの状態を View に提供します。
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { ReviewCard, TermItem } from '../supabase/types';
+import { ReviewRepository, getDefaultReviewRepository } from './review-repository';
+import { ReviewGrade, previewIntervals } from './srs-scheduler';
+
+/**
+ * 復習セッションの状態を表す型
+ * - loading: 復習カードの読み込み中
+ * - reviewing: 復習中
+ * - completed: 復習日を迎えたカードを全て復習した(またはカードがない)
+ */
+export type ReviewSessionState = 'loading' | 'reviewing' | 'completed';
+
+/**
+ * useReviewViewModel の戻り値型
+ * View が復習セッションを表示・操作するために必要な情報を提供
+ */
+export interface ReviewViewModelResult {
+  /** 現在の状態 */
+  state: ReviewSessionState;
+  /** ローディング中かどうか(state === 'loading' のショートカット) */
+  loading: boolean;
+  /** 表示中のカード(復習するカードがない場合はnull) */
+  currentCard: ReviewCard | null;
+  /** カードの裏面(解説)を表示しているかどうか */
+  flipped: boolean;
+  /** 表示中のカードで各評価を選んだ場合の次回の復習間隔(日数) */
+  nextIntervals: Record<ReviewGrade, number> | null;
+  /** このセッションで評価した回数 */
+  reviewedCount: number;
+  /** 残りのカード数(表示中のカードを含む) */
+  remainingCount: number;
+  /** カードを裏返す関数 */
+  flip: () => void;
+  /** 表示中のカードを評価して次のカードに進む関数 */
+  grade: (grade: ReviewGrade) => Promise<void>;
+  /** 復習日を迎えたカードを読み込み直す関数 */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Review ViewModel カスタムフック
+ *
+ * 依存性注入(DI)により、ReviewRepositoryをパラメータで受け取ります。
+ * マウント時にSupabaseと同期してから、復習日を迎えたカードを読み込みます。
+ * 「もう一度」と評価したカードはセッションの最後に再度出題します。
+ *
+ * @param repository - ReviewRepository(省略時は共有のリポジトリを使用)
+ * @returns ReviewViewModelResult - 復習セッションの表示・操作に必要な状態と関数
+ */
+export function useReviewViewModel(repository?: ReviewRepository): ReviewViewModelResult {
+  const repo = useMemo(() => repository || getDefaultReviewRepository(), [repository]);
+
+  // 状態管理
+  const [state, setState] = useState<ReviewSessionState>('loading');
+  const [queue, setQueue] = useState<ReviewCard[]>([]);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  /**
+   * 復習日を迎えたカードを読み込む
+   * 同期に失敗しても端末の状態で復習を続ける
+   */
+  const refresh = useCallback(async () => {
+    setState('loading');
+    setFlipped(false);
+
+    await repo.sync();
+    const dueCards = await repo.getDueCards();
+
+    setQueue(dueCards);
+    setState(dueCards.length > 0 ? 'reviewing' : 'completed');
+  }, [repo]);
+
+  const flip = useCallback(() => {
+    setFlipped((current) => !current);
+  }, []);
+
+  const grade = useCallback(
+    async (reviewGrade: ReviewGrade) => {
+      const [card, ...rest] = queue;
+      if (!card) {
+        return;
+      }
+
+      const updated = await repo.gradeCard(card.term.name, reviewGrade);
+      // 当日中に再度出題するカード(復習間隔0日 =「もう一度」)はセッションの最後に回す
+      const nextQueue = updated && updated.intervalDays === 0 ? [...rest, updated] : rest;
+
+      setQueue(nextQueue);
+      setFlipped(false);
+      setReviewedCount((count) => count + 1);
+      if (nextQueue.length === 0) {
+        setState('completed');
+      }
+    },
+    [repo, queue]
+  );
+
+  // マウント時にカードを読み込む
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const currentCard = state === 'reviewing' ? queue[0] ?? null : null;
+  const nextIntervals = useMemo(
+    () => (currentCard ? previewIntervals(currentCard) : null),
+    [currentCard]
+  );
+
+  return {
+    state,
+    loading: state === 'loading',
+    currentCard,
+    flipped,
+    nextIntervals,
+    reviewedCount,
+    remainingCount: state === 'reviewing' ? queue.length : 0,
+    flip,
+    grade,
+    refresh,
+  };
+}
+
+/**
+ * 復習日を迎えたカードの数を取得するカスタムフック
+ *
+ * 用語タブの件数バッジと用語画面の「復習する」ボタンで使用します。
+ * リポジトリの変更通知を購読し、評価や用語の登録に合わせて件数を更新します。
+ *
+ * @param repository - ReviewRepository(省略時は共有のリポジトリを使用)
+ * @returns 復習日を迎えたカードの数
+ */
+export function useDueReviewCount(repository?: ReviewRepository): number {
+  const repo = useMemo(() => repository || getDefaultReviewRepository(), [repository]);
+  const [dueCount, setDueCount] = useState(0);
+
+  useEffect(() => {
+    let active = true;
+    const update = async () => {
+      const count = await repo.getDueCount();
+      if (active) {
+        setDueCount(count);
+      }
+    };
+
+    update();
+    const unsubscribe = repo.subscribe(() => {
+      update();
+    });
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [repo]);
+
+  return dueCount;
+}
+
+/**
+ * 表示した用語を復習対象に登録するカスタムフック
+ *
+ * 用語画面で今日の用語が表示されたときに呼び出します。
+ *
+ * @param terms - 表示した用語(未取得の場合はnull)
+ * @param repository - ReviewRepository(省略時は共有のリポジトリを使用)
+ */
+export function useRegisterReviewTerms(
+  terms: TermItem[] | null,
+  repository?: ReviewRepository
+): void {
+  const repo = useMemo(() => repository || getDefaultReviewRepository(), [repository]);
+
+  useEffect(() => {
+    if (terms && terms.length > 0) {
+      repo.registerTerms(terms).catch((error) => {
+        console.error('[ReviewViewModel] Failed to register terms for review:', error);
+      });
+    }
+  }, [repo, terms]);
+}
@@ -0,0 +1,220 @@
+/**
+ * SRS Scheduler
+ *
+ * SM-2アルゴリズムに基づいて用語の復習スケジュールを計算する純粋関数群。
+ * 4段階の評価(もう一度/難しい/正解/簡単)を SM-2 の回答品質(0〜5)に対応付けて
+ * 易しさ係数(EF)と次回の復習間隔を更新します。
+ *
+ * Requirements:
+ * - 間隔反復学習による用語の復習
+ *
+ * @see https://super-memory.com/english/ol/sm2.htm
+ */
+
+import { ReviewCard, TermItem } from '../supabase/types';
+import { formatDateToJST } from '../supabase/queries';
+
+/**
+ * 復習時の評価
+ * - again: 思い出せなかった(当日中に再度出題)
+ * - hard: 思い出せたが時間がかかった
+ * - good: 思い出せた
+ * - easy: すぐに思い出せた
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * 評価の一覧(ボタンの表示順)
+ */
+export const REVIEW_GRADES: readonly ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+/**
+ * SRSスケジューラの設定
+ */
+export interface SrsConfig {
+  /** 新しいカードの易しさ係数 */
+  initialEaseFactor: number;
+  /** 易しさ係数の下限 */
+  minimumEaseFactor: number;
+  /** 「難しい」の場合に前回の間隔に掛ける係数 */
+  hardIntervalFactor: number;
+  /** 「簡単」の場合に「正解」の間隔に掛ける係数 */
+  easyBonus: number;
+  /** 復習間隔の上限(日数) */
+  maximumIntervalDays: number;
+  /** 初めて見た用語を最初に復習するまでの日数 */
+  firstReviewDelayDays: number;
+}
+
+/**
+ * デフォルトのSRSスケジューラ設定
+ */
+export const DEFAULT_SRS_CONFIG: SrsConfig = {
+  initialEaseFactor: 2.5,
+  minimumEaseFactor: 1.3,
+  hardIntervalFactor: 1.2,
+  easyBonus: 1.3,
+  maximumIntervalDays: 365,
+  firstReviewDelayDays: 1,
+};
+
+/**
+ * 評価に対応する SM-2 の回答品質(0〜5)
+ *
+ * 「もう一度」は答えを見て思い出せた不正解(2)として扱う
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 2,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * YYYY-MM-DD形式の日付に日数を加算する
+ *
+ * @param date - 日付(YYYY-MM-DD形式)
+ * @param days - 加算する日数
+ * @returns 加算後の日付(YYYY-MM-DD形式)
+ */
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00.000Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
+/**
+ * 初めて見た用語の復習カードを作成する
+ *
+ * @param term - 用語
+ * @param now - 現在日時
+ * @param config - スケジューラ設定
+ * @returns 復習カード
+ */
+export function createReviewCard(
+  term: TermItem,
+  now: Date = new Date(),
+  config: SrsConfig = DEFAULT_SRS_CONFIG
+): ReviewCard {
+  return {
+    term,
+    easeFactor: config.initialEaseFactor,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueDate: addDays(formatDateToJST(now), config.firstReviewDelayDays),
+    lastReviewedAt: null,
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * SM-2の式で易しさ係数を更新する
+ */
+function nextEaseFactor(easeFactor: number, grade: ReviewGrade, config: SrsConfig): number {
+  const q = GRADE_QUALITY[grade];
+  const updated = easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+  // 浮動小数点の誤差を避けるため小数第2位で丸める
+  return Math.max(config.minimumEaseFactor, Math.round(updated * 100) / 100);
+}
+
+/**
+ * 評価後の復習間隔(日数)を計算する
+ *
+ * - もう一度: 0日(当日中に再度出題)
+ * - 1回目の正解: 1日(「簡単」は4日)
+ * - 2回目の正解: 6日
+ * - 3回目以降: 前回の間隔 × 易しさ係数
+ * - 「難しい」は前回の間隔 × hardIntervalFactor、「簡単」は「正解」の間隔 × easyBonus
+ */
+function nextIntervalDays(
+  card: ReviewCard,
+  grade: ReviewGrade,
+  easeFactor: number,
+  config: SrsConfig
+): number {
+  if (grade === 'again') {
+    return 0;
+  }
+
+  const repetitions = card.repetitions + 1;
+  let interval: number;
+
+  if (repetitions === 1) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (grade === 'hard') {
+    // 「正解」より短く、前回より少しだけ長い間隔にする
+    interval = Math.max(
+      card.intervalDays + 1,
+      Math.round(card.intervalDays * config.hardIntervalFactor)
+    );
+  } else {
+    const goodInterval = repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+    interval = grade === 'easy' ? Math.round(goodInterval * config.easyBonus) : goodInterval;
+  }
+
+  return Math.min(config.maximumIntervalDays, Math.max(1, interval));
+}
+
+/**
+ * 評価に基づいて復習カードの次回スケジュールを計算する
+ *
+ * @param card - 復習カード
+ * @param grade - 評価
+ * @param now - 評価した日時
+ * @param config - スケジューラ設定
+ * @returns 更新後の復習カード
+ */
+export function scheduleReview(
+  card: ReviewCard,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+  config: SrsConfig = DEFAULT_SRS_CONFIG
+): ReviewCard {
+  const easeFactor = nextEaseFactor(card.easeFactor, grade, config);
+  const intervalDays = nextIntervalDays(card, grade, easeFactor, config);
+
+  return {
+    ...card,
+    easeFactor,
+    intervalDays,
+    repetitions: grade === 'again' ? 0 : card.repetitions + 1,
+    lapses: grade === 'again' ? card.lapses + 1 : card.lapses,
+    dueDate: addDays(formatDateToJST(now), intervalDays),
+    lastReviewedAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+}
+
+/**
+ * 各評価を選んだ場合の次回の復習間隔(日数)を取得する
+ *
+ * 評価ボタンに「1日」「6日」などの目安を表示するために使用します。
+ *
+ * @param card - 復習カード
+ * @param config - スケジューラ設定
+ * @returns 評価ごとの復習間隔
+ */
+export function previewIntervals(
+  card: ReviewCard,
+  config: SrsConfig = DEFAULT_SRS_CONFIG
+): Record<ReviewGrade, number> {
+  return REVIEW_GRADES.reduce(
+    (intervals, grade) => ({
+      ...intervals,
+      [grade]: nextIntervalDays(card, grade, nextEaseFactor(card.easeFactor, grade, config), config),
+    }),
+    {} as Record<ReviewGrade, number>
+  );
+}
+
+/**
+ * 復習カードが復習日を迎えているかどうかを判定する
+ *
+ * @param card - 復習カード
+ * @param today - 今日の日付(YYYY-MM-DD形式、JST)
+ * @returns 復習日を迎えている場合true
+ */
+export function isDue(card: ReviewCard, today: string): boolean {
+  return card.dueDate <= today;
+}
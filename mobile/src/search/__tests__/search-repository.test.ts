@@ -0,0 +1,83 @@
+/**
+ * Search Repository テスト
+ *
+ * Requirements:
+ * - 過去の用語・ニュースの横断検索
+ * - 8.5: エラーハンドリング
+ */
+
+import { SearchRepository } from '../search-repository';
+import { SearchResultRow } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { setNetworkState, resetNetworkState } from '../../utils/network';
+
+const mockRows: SearchResultRow[] = [
+  {
+    item_type: 'term',
+    item_date: '2024-01-15',
+    region: null,
+    title: 'PER（株価収益率）',
+    snippet: 'PERは株価を1株当たり純利益で割った指標です。',
+    rank: 3.2,
+  },
+];
+
+describe('SearchRepository', () => {
+  beforeEach(() => {
+    resetNetworkState();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetNetworkState();
+    jest.restoreAllMocks();
+  });
+
+  it('検索結果をアプリ表示用に変換して返す', async () => {
+    const fetcher = jest.fn().mockResolvedValue(mockRows);
+    const repository = new SearchRepository({ fetcher });
+
+    const result = await repository.search('PER');
+
+    expect(fetcher).toHaveBeenCalledWith('PER');
+    expect(result).toEqual({
+      success: true,
+      data: [
+        {
+          type: 'term',
+          date: '2024-01-15',
+          region: null,
+          title: 'PER（株価収益率）',
+          snippet: 'PERは株価を1株当たり純利益で割った指標です。',
+          rank: 3.2,
+        },
+      ],
+    });
+  });
+
+  it('オフラインの場合は検索せずにエラーを返す', async () => {
+    const fetcher = jest.fn();
+    const repository = new SearchRepository({ fetcher });
+    setNetworkState(false);
+
+    const result = await repository.search('PER');
+
+    expect(result.success).toBe(false);
+    expect(result.data).toEqual([]);
+    expect(result.error?.code).toBe('OFFLINE');
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it('検索に失敗した場合はエラー情報を返す', async () => {
+    const repository = new SearchRepository({
+      fetcher: jest
+        .fn()
+        .mockRejectedValue(new SupabaseError('TIMEOUT', 'タイムアウト', undefined, true)),
+    });
+
+    const result = await repository.search('PER');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toEqual({ code: 'TIMEOUT', message: 'タイムアウト', retryable: true });
+  });
+});
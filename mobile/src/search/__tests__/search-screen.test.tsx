@@ -0,0 +1,144 @@
+/**
+ * Search Screen テスト
+ *
+ * Requirements:
+ * - 過去の用語・ニュースの横断検索
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react-native';
+import { SearchScreen, splitHighlightSegments, getSearchResultLabel } from '../search-screen';
+import { SearchViewModelResult } from '../search-viewmodel';
+import { SearchResult } from '../../supabase/types';
+import { ThemeProvider } from '../../theme';
+
+const mockResults: SearchResult[] = [
+  {
+    type: 'term',
+    date: '2024-01-15',
+    region: null,
+    title: 'PER（株価収益率）',
+    snippet: 'PERは株価を1株当たり純利益で割った指標です。',
+    rank: 3.2,
+  },
+  {
+    type: 'news',
+    date: '2024-01-10',
+    region: 'japan',
+    title: '日経平均が続伸',
+    snippet: '…市場全体のPERは15倍台に上昇…',
+    rank: 1.1,
+  },
+];
+
+// ViewModelのモック結果を生成するヘルパー関数
+const createMockViewModelResult = (
+  overrides: Partial<SearchViewModelResult> = {}
+): SearchViewModelResult => ({
+  state: 'success',
+  query: 'per',
+  resultQuery: 'per',
+  results: mockResults,
+  error: null,
+  setQuery: jest.fn(),
+  clear: jest.fn(),
+  retry: jest.fn(),
+  ...overrides,
+});
+
+// ThemeProviderでラップしてレンダリングするヘルパー
+const renderWithTheme = (component: React.ReactElement) => {
+  return render(<ThemeProvider>{component}</ThemeProvider>);
+};
+
+describe('SearchScreen', () => {
+  it('検索結果を種類・配信日付きで表示し、抜粋の検索語をハイライトする', () => {
+    const { getByText, getAllByText } = renderWithTheme(
+      <SearchScreen viewModelResult={createMockViewModelResult()} />
+    );
+
+    expect(getByText('用語・2024/01/15')).toBeTruthy();
+    expect(getByText('日本のニュース・2024/01/10')).toBeTruthy();
+    expect(getByText('日経平均が続伸')).toBeTruthy();
+
+    // 検索語(大文字・小文字は区別しない)はタイトル・抜粋の中で別のTextとして描画される
+    expect(getAllByText('PER')).toHaveLength(3);
+  });
+
+  it('入力すると検索語を更新し、クリアボタンで消去する', () => {
+    const viewModelResult = createMockViewModelResult();
+    const { getByTestId } = renderWithTheme(<SearchScreen viewModelResult={viewModelResult} />);
+
+    fireEvent.changeText(getByTestId('search-input'), 'ROE');
+    expect(viewModelResult.setQuery).toHaveBeenCalledWith('ROE');
+
+    fireEvent.press(getByTestId('search-clear-button'));
+    expect(viewModelResult.clear).toHaveBeenCalledTimes(1);
+  });
+
+  it('未入力の場合は案内を表示し、クリアボタンを表示しない', () => {
+    const { getByTestId, queryByTestId } = renderWithTheme(
+      <SearchScreen
+        viewModelResult={createMockViewModelResult({
+          state: 'idle',
+          query: '',
+          resultQuery: '',
+          results: [],
+        })}
+      />
+    );
+
+    expect(getByTestId('search-idle')).toBeTruthy();
+    expect(queryByTestId('search-clear-button')).toBeNull();
+  });
+
+  it('一致する結果がない場合はメッセージを表示する', () => {
+    const { getByText } = renderWithTheme(
+      <SearchScreen
+        viewModelResult={createMockViewModelResult({ resultQuery: '該当なし', results: [] })}
+      />
+    );
+
+    expect(getByText('「該当なし」に一致する用語・ニュースは見つかりませんでした')).toBeTruthy();
+  });
+
+  it('エラー時はメッセージと再試行ボタンを表示する', () => {
+    const viewModelResult = createMockViewModelResult({
+      state: 'error',
+      results: [],
+      error: { code: 'OFFLINE', message: 'オフラインです', retryable: true },
+    });
+    const { getByText, getByTestId } = renderWithTheme(
+      <SearchScreen viewModelResult={viewModelResult} />
+    );
+
+    expect(getByText('オフラインです')).toBeTruthy();
+    fireEvent.press(getByTestId('search-retry-button'));
+    expect(viewModelResult.retry).toHaveBeenCalledTimes(1);
+  });
+
+  describe('splitHighlightSegments', () => {
+    it('検索語に一致する部分を大文字・小文字を区別せずに分割する', () => {
+      expect(splitHighlightSegments('PERとper', 'Per')).toEqual([
+        { text: 'PER', highlighted: true },
+        { text: 'と', highlighted: false },
+        { text: 'per', highlighted: true },
+      ]);
+    });
+
+    it('検索語が空の場合はテキスト全体を返す', () => {
+      expect(splitHighlightSegments('株価収益率', ' ')).toEqual([
+        { text: '株価収益率', highlighted: false },
+      ]);
+    });
+  });
+
+  describe('getSearchResultLabel', () => {
+    it('種類と地域に応じたラベルを返す', () => {
+      expect(getSearchResultLabel(mockResults[0])).toBe('用語');
+      expect(getSearchResultLabel(mockResults[1])).toBe('日本のニュース');
+      expect(getSearchResultLabel({ ...mockResults[1], region: 'world' })).toBe('世界のニュース');
+    });
+  });
+});
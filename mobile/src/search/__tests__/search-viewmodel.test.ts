@@ -0,0 +1,154 @@
+/**
+ * Search ViewModel テスト
+ *
+ * Requirements:
+ * - 過去の用語・ニュースの横断検索
+ */
+
+import { renderHook, act } from '@testing-library/react-native';
+import { useSearchViewModel, SEARCH_DEBOUNCE_MS } from '../search-viewmodel';
+import { SearchRepository } from '../search-repository';
+import { SearchResultRow } from '../../supabase/types';
+import { SupabaseError } from '../../supabase/errors';
+import { resetNetworkState } from '../../utils/network';
+
+/**
+ * 検索語をタイトルに含む検索結果の行を生成するヘルパー
+ */
+const createRow = (query: string): SearchResultRow => ({
+  item_type: 'term',
+  item_date: '2024-01-15',
+  region: null,
+  title: `${query}の用語`,
+  snippet: `${query}の説明`,
+  rank: 1,
+});
+
+/**
+ * 入力中の検索語を更新し、デバウンス時間を経過させる
+ */
+const typeAndWait = async (
+  result: { current: { setQuery: (query: string) => void } },
+  query: string
+) => {
+  act(() => {
+    result.current.setQuery(query);
+  });
+  await act(async () => {
+    jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS);
+  });
+};
+
+describe('useSearchViewModel', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    resetNetworkState();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('入力が止まってから検索し、結果を返す', async () => {
+    const fetcher = jest.fn((query: string) => Promise.resolve([createRow(query)]));
+    const repository = new SearchRepository({ fetcher });
+    const { result } = renderHook(() => useSearchViewModel(repository));
+
+    act(() => {
+      result.current.setQuery('PE');
+    });
+    act(() => {
+      jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS - 1);
+    });
+    act(() => {
+      result.current.setQuery('PER');
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(SEARCH_DEBOUNCE_MS);
+    });
+
+    // 入力途中の検索語では検索しない
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher).toHaveBeenCalledWith('PER');
+    expect(result.current.state).toBe('success');
+    expect(result.current.resultQuery).toBe('PER');
+    expect(result.current.results.map((item) => item.title)).toEqual(['PERの用語']);
+  });
+
+  it('検索語が2文字未満の場合は検索せずにidle状態になる', async () => {
+    const fetcher = jest.fn((query: string) => Promise.resolve([createRow(query)]));
+    const repository = new SearchRepository({ fetcher });
+    const { result } = renderHook(() => useSearchViewModel(repository));
+    await typeAndWait(result, 'PER');
+
+    await typeAndWait(result, ' P ');
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(result.current.state).toBe('idle');
+    expect(result.current.results).toEqual([]);
+  });
+
+  it('先に送った検索の応答が後から届いた場合は破棄する', async () => {
+    let resolveFirst: (rows: SearchResultRow[]) => void = () => {};
+    const fetcher = jest
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise<SearchResultRow[]>((resolve) => {
+            resolveFirst = resolve;
+          })
+      )
+      .mockImplementationOnce((query: string) => Promise.resolve([createRow(query)]));
+    const repository = new SearchRepository({ fetcher });
+    const { result } = renderHook(() => useSearchViewModel(repository));
+
+    await typeAndWait(result, 'PER');
+    expect(result.current.state).toBe('loading');
+    await typeAndWait(result, 'ROE');
+
+    await act(async () => {
+      resolveFirst([createRow('PER')]);
+    });
+
+    expect(result.current.resultQuery).toBe('ROE');
+    expect(result.current.results.map((item) => item.title)).toEqual(['ROEの用語']);
+  });
+
+  it('クリアすると検索語と検索結果を消去する', async () => {
+    const repository = new SearchRepository({
+      fetcher: (query: string) => Promise.resolve([createRow(query)]),
+    });
+    const { result } = renderHook(() => useSearchViewModel(repository));
+    await typeAndWait(result, 'PER');
+
+    act(() => {
+      result.current.clear();
+    });
+
+    expect(result.current.query).toBe('');
+    expect(result.current.state).toBe('idle');
+    expect(result.current.results).toEqual([]);
+  });
+
+  it('検索に失敗した場合はエラー状態になり、再検索できる', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const fetcher = jest
+      .fn()
+      .mockRejectedValueOnce(new SupabaseError('TIMEOUT', 'タイムアウト', undefined, true))
+      .mockResolvedValueOnce([createRow('PER')]);
+    const repository = new SearchRepository({ fetcher });
+    const { result } = renderHook(() => useSearchViewModel(repository));
+
+    await typeAndWait(result, 'PER');
+    expect(result.current.state).toBe('error');
+    expect(result.current.error?.code).toBe('TIMEOUT');
+
+    await act(async () => {
+      await result.current.retry();
+    });
+    expect(result.current.state).toBe('success');
+    expect(result.current.error).toBeNull();
+    expect(result.current.results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Search Feature エクスポート
+ *
+ * 過去の用語・ニュースの横断検索機能の公開APIを提供します。
+ */
+
+export {
+  SearchRepository,
+  createSearchRepository,
+  type SearchError,
+  type SearchResponse,
+  type SearchFetcher,
+  type SearchRepositoryConfig,
+} from './search-repository';
+
+export {
+  useSearchViewModel,
+  SEARCH_DEBOUNCE_MS,
+  type SearchState,
+  type SearchViewModelResult,
+} from './search-viewmodel';
+
+export {
+  SearchScreen,
+  splitHighlightSegments,
+  getSearchResultLabel,
+  type HighlightSegment,
+} from './search-screen';
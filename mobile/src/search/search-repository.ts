@@ -0,0 +1,132 @@
+/**
+ * Search Repository
+ *
+ * Supabaseの search_content RPC関数で、過去の全ての用語・ニュースを横断検索するリポジトリ。
+ * 検索結果は毎回サーバーから取得し、端末には保存しません。
+ *
+ * Requirements:
+ * - 過去の用語・ニュースの横断検索
+ * - 8.5: エラーハンドリング
+ */
+
+import { SearchResult, SearchResultRow } from '../supabase/types';
+import { searchContent, searchResultRowToSearchResult } from '../supabase/queries';
+import { SupabaseError, toSupabaseError, SupabaseErrorCode, ERROR_MESSAGES } from '../supabase/errors';
+import { isOffline } from '../utils/network';
+
+/**
+ * 検索エラー情報
+ * ViewModelでエラー表示に使用
+ */
+export interface SearchError {
+  /** エラーコード */
+  code: SupabaseErrorCode;
+  /** ユーザー向けエラーメッセージ(日本語) */
+  message: string;
+  /** リトライ可能かどうか */
+  retryable: boolean;
+}
+
+/**
+ * 検索結果
+ */
+export interface SearchResponse {
+  /** 検索成功かどうか */
+  success: boolean;
+  /** 関連度の高い順の検索結果(失敗時は空配列) */
+  data: SearchResult[];
+  /** エラー情報(失敗時のみ) */
+  error?: SearchError;
+}
+
+/**
+ * Supabaseで横断検索を実行する関数の型
+ */
+export type SearchFetcher = (query: string) => Promise<SearchResultRow[]>;
+
+/**
+ * SearchRepositoryの設定
+ * テスト時にモック関数を注入するために使用
+ */
+export interface SearchRepositoryConfig {
+  /** Supabaseで横断検索を実行する関数 */
+  fetcher?: SearchFetcher;
+}
+
+/**
+ * Search Repository クラス
+ *
+ * @example
+ * ```typescript
+ * const repository = createSearchRepository();
+ * const result = await repository.search('PER');
+ * if (result.success) {
+ *   result.data.forEach((item) => console.log(item.title));
+ * }
+ * ```
+ */
+export class SearchRepository {
+  private readonly fetcher: SearchFetcher;
+
+  /**
+   * SearchRepositoryのコンストラクタ
+   * @param config - 設定(テスト用にモック関数を注入可能)
+   */
+  constructor(config: SearchRepositoryConfig = {}) {
+    this.fetcher = config.fetcher ?? ((query) => searchContent(query));
+  }
+
+  /**
+   * 用語・ニュースを横断検索する
+   *
+   * 1. オフラインの場合はエラーを返す
+   * 2. Supabaseで検索し、アプリ表示用の検索結果に変換する
+   *
+   * @param query - 検索語
+   * @returns 検索結果
+   */
+  async search(query: string): Promise<SearchResponse> {
+    // Step 1: オフラインチェック
+    if (isOffline()) {
+      return {
+        success: false,
+        data: [],
+        error: {
+          code: 'OFFLINE',
+          message: ERROR_MESSAGES.OFFLINE,
+          retryable: true,
+        },
+      };
+    }
+
+    // Step 2: Supabaseで検索
+    try {
+      const rows = await this.fetcher(query);
+      return { success: true, data: rows.map(searchResultRowToSearchResult) };
+    } catch (error) {
+      const supabaseError = error instanceof SupabaseError ? error : toSupabaseError(error);
+
+      console.error('[SearchRepository] Failed to search:', supabaseError);
+
+      return {
+        success: false,
+        data: [],
+        error: {
+          code: supabaseError.code,
+          message: supabaseError.message,
+          retryable: supabaseError.retryable,
+        },
+      };
+    }
+  }
+}
+
+/**
+ * デフォルトのSearchRepositoryを作成する
+ * 本番環境用のファクトリ関数
+ *
+ * @returns SearchRepository
+ */
+export function createSearchRepository(): SearchRepository {
+  return new SearchRepository();
+}
@@ -0,0 +1,415 @@
+/**
+ * Search Screen コンポーネント
+ *
+ * MVVM パターンにおける View 層。
+ * SearchViewModelResult を受け取り、検索語の入力欄と
+ * 過去の用語・ニュースの検索結果(検索語をハイライトした抜粋付き)を表示します。
+ *
+ * Requirements:
+ * - 過去の用語・ニュースの横断検索
+ * - 6.4: 可読性確保
+ * - 7.5: エラー時リトライオプション提供
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  ActivityIndicator,
+  TouchableOpacity,
+} from 'react-native';
+import { useThemeColors } from '../theme';
+import { SearchResult } from '../supabase/types';
+import { formatArchiveDate } from '../news/news-archive-screen';
+import { SearchViewModelResult } from './search-viewmodel';
+
+/**
+ * SearchScreenのプロパティ
+ * ViewModelの結果を受け取り、純粋なUIコンポーネントとして動作
+ */
+interface SearchScreenProps {
+  /** ViewModelから提供される状態と関数 */
+  viewModelResult: SearchViewModelResult;
+}
+
+/**
+ * ハイライト表示用のテキスト断片
+ */
+export interface HighlightSegment {
+  /** 断片のテキスト */
+  text: string;
+  /** 検索語に一致した断片かどうか */
+  highlighted: boolean;
+}
+
+/**
+ * テキストを検索語に一致する断片と一致しない断片に分割する
+ *
+ * 英字の大文字・小文字は区別しません。
+ *
+ * @param text - 分割するテキスト
+ * @param query - 検索語
+ * @returns 元の順序のままの断片(検索語が空の場合はテキスト全体の1断片)
+ */
+export function splitHighlightSegments(text: string, query: string): HighlightSegment[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) {
+    return [{ text, highlighted: false }];
+  }
+
+  const haystack = text.toLowerCase();
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+  let matchIndex = haystack.indexOf(needle);
+  while (matchIndex !== -1) {
+    if (matchIndex > position) {
+      segments.push({ text: text.slice(position, matchIndex), highlighted: false });
+    }
+    segments.push({ text: text.slice(matchIndex, matchIndex + needle.length), highlighted: true });
+    position = matchIndex + needle.length;
+    matchIndex = haystack.indexOf(needle, position);
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), highlighted: false });
+  }
+  return segments;
+}
+
+/**
+ * 検索結果の種類ラベルを返す
+ *
+ * @param result - 検索結果
+ * @returns 「用語」「世界のニュース」「日本のニュース」のいずれか
+ */
+export function getSearchResultLabel(result: SearchResult): string {
+  if (result.type === 'term') {
+    return '用語';
+  }
+  return result.region === 'japan' ? '日本のニュース' : '世界のニュース';
+}
+
+/**
+ * ハイライト付きテキストのプロパティ
+ */
+interface HighlightedTextProps {
+  /** 表示するテキスト */
+  text: string;
+  /** ハイライトする検索語 */
+  query: string;
+  /** テキストのスタイル */
+  style: React.ComponentProps<typeof Text>['style'];
+  /** 最大行数 */
+  numberOfLines?: number;
+  /** テストID */
+  testID?: string;
+}
+
+/**
+ * 検索語をハイライトして表示するテキストコンポーネント
+ */
+function HighlightedText({ text, query, style, numberOfLines, testID }: HighlightedTextProps) {
+  const colors = useThemeColors();
+
+  return (
+    <Text testID={testID} style={style} numberOfLines={numberOfLines}>
+      {splitHighlightSegments(text, query).map((segment, index) =>
+        segment.highlighted ? (
+          <Text key={index} style={[styles.highlight, { color: colors.primary }]}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+}
+
+/**
+ * 検索結果項目のプロパティ
+ */
+interface SearchResultItemProps {
+  /** 検索結果 */
+  result: SearchResult;
+  /** ハイライトする検索語 */
+  query: string;
+  /** 一覧内の位置(テストID用) */
+  index: number;
+}
+
+/**
+ * 検索結果項目コンポーネント
+ * 種類・配信日・タイトル・抜粋を表示
+ */
+function SearchResultItem({ result, query, index }: SearchResultItemProps) {
+  const colors = useThemeColors();
+  const label = getSearchResultLabel(result);
+
+  return (
+    <View
+      testID={`search-result-${index}`}
+      style={[styles.card, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+      accessible={true}
+      accessibilityLabel={`${label}、${formatArchiveDate(result.date)}、${result.title}`}
+    >
+      <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+        {label}・{formatArchiveDate(result.date)}
+      </Text>
+      <HighlightedText
+        text={result.title}
+        query={query}
+        style={[styles.itemTitle, { color: colors.text }]}
+        numberOfLines={2}
+      />
+      <HighlightedText
+        testID={`search-result-snippet-${index}`}
+        text={result.snippet}
+        query={query}
+        style={[styles.bodyText, { color: colors.textSecondary }]}
+        numberOfLines={4}
+      />
+    </View>
+  );
+}
+
+/**
+ * 検索画面コンポーネント
+ *
+ * ViewModelから提供される状態に基づいて、
+ * 未入力、検索中、エラー、0件、検索結果の表示を切り替えます。
+ *
+ * @param props - SearchScreenProps
+ * @returns 検索画面のReactコンポーネント
+ */
+export function SearchScreen({ viewModelResult }: SearchScreenProps) {
+  const colors = useThemeColors();
+  const { state, query, resultQuery, results, error, setQuery, clear, retry } = viewModelResult;
+
+  /**
+   * 入力欄の下に表示する内容
+   */
+  const renderContent = () => {
+    // 未入力
+    if (state === 'idle') {
+      return (
+        <View testID="search-idle" style={styles.messageContainer}>
+          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+            過去に配信された用語・ニュースを2文字以上で検索できます
+          </Text>
+        </View>
+      );
+    }
+
+    // 検索中
+    if (state === 'loading') {
+      return (
+        <View style={styles.messageContainer}>
+          <ActivityIndicator testID="loading-indicator" size="large" color={colors.primary} />
+        </View>
+      );
+    }
+
+    // 検索エラー
+    if (state === 'error') {
+      return (
+        <View
+          testID="search-error"
+          style={[styles.messageContainer, styles.errorContainer, { backgroundColor: colors.error }]}
+          accessible={true}
+          accessibilityRole="alert"
+          accessibilityLabel={`エラー: ${error?.message ?? ''}`}
+        >
+          <Text style={[styles.bodyText, { color: colors.errorText }]}>{error?.message}</Text>
+          {error?.retryable && (
+            <TouchableOpacity
+              testID="search-retry-button"
+              style={[styles.primaryButton, { backgroundColor: colors.primary }]}
+              onPress={retry}
+              activeOpacity={0.7}
+              accessible={true}
+              accessibilityRole="button"
+              accessibilityLabel="再試行ボタン"
+            >
+              <Text style={[styles.primaryButtonText, { color: colors.primaryText }]}>再試行</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      );
+    }
+
+    // 0件
+    if (results.length === 0) {
+      return (
+        <View testID="search-empty" style={styles.messageContainer}>
+          <Text style={[styles.metaText, { color: colors.textSecondary }]}>
+            「{resultQuery}」に一致する用語・ニュースは見つかりませんでした
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView
+        testID="search-results"
+        style={styles.scrollView}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps="handled"
+      >
+        {results.map((result, index) => (
+          <SearchResultItem
+            key={`${result.type}-${result.date}-${result.region ?? ''}-${result.title}`}
+            result={result}
+            query={resultQuery}
+            index={index}
+          />
+        ))}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View testID="search-container" style={[styles.container, { backgroundColor: colors.background }]}>
+      {/* 検索語の入力欄 */}
+      <View style={styles.inputRow}>
+        <TextInput
+          testID="search-input"
+          style={[
+            styles.input,
+            { backgroundColor: colors.card, borderColor: colors.cardBorder, color: colors.text },
+          ]}
+          value={query}
+          onChangeText={setQuery}
+          placeholder="用語・ニュースを検索"
+          placeholderTextColor={colors.textSecondary}
+          returnKeyType="search"
+          autoCorrect={false}
+          autoCapitalize="none"
+          clearButtonMode="never"
+          accessibilityLabel="検索語"
+        />
+        {query.length > 0 && (
+          <TouchableOpacity
+            testID="search-clear-button"
+            onPress={clear}
+            activeOpacity={0.7}
+            accessible={true}
+            accessibilityRole="button"
+            accessibilityLabel="検索語をクリア"
+          >
+            <Text style={[styles.clearButton, { color: colors.primary }]}>クリア</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {renderContent()}
+    </View>
+  );
+}
+
+/**
+ * タイポグラフィ定数
+ *
+ * @see Requirements: 6.4
+ */
+const TYPOGRAPHY = {
+  /** 本文フォントサイズ（16pt以上を保証） */
+  BODY_FONT_SIZE: 16,
+  /** 本文行間 */
+  BODY_LINE_HEIGHT: 24,
+  /** 見出しフォントサイズ */
+  TITLE_FONT_SIZE: 17,
+  /** 補足フォントサイズ */
+  META_FONT_SIZE: 14,
+} as const;
+
+/**
+ * スタイル定義
+ *
+ * @see Requirements: 6.3, 6.4, 6.5
+ */
+const styles = StyleSheet.create({
+  // コンテナ
+  container: {
+    flex: 1,
+  },
+
+  // 入力欄
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+  },
+  clearButton: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+
+  // スクロールビュー
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 16,
+    gap: 12,
+  },
+
+  // 検索結果
+  card: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    gap: 6,
+  },
+  itemTitle: {
+    fontSize: TYPOGRAPHY.TITLE_FONT_SIZE,
+    fontWeight: '600',
+  },
+  highlight: {
+    fontWeight: '700',
+  },
+
+  // メッセージ
+  messageContainer: {
+    alignItems: 'center',
+    padding: 20,
+    gap: 12,
+  },
+  errorContainer: {
+    marginHorizontal: 16,
+    borderRadius: 12,
+  },
+
+  // テキスト
+  bodyText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    lineHeight: TYPOGRAPHY.BODY_LINE_HEIGHT,
+  },
+  metaText: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    textAlign: 'center',
+  },
+
+  // ボタン
+  primaryButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+  },
+  primaryButtonText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,149 @@
+/**
+ * Search ViewModel
+ *
+ * MVVM パターンにおける ViewModel 層。
+ * 入力された検索語をデバウンスして SearchRepository で横断検索し、
+ * 検索結果の状態を View に提供します。
+ *
+ * Requirements:
+ * - 過去の用語・ニュースの横断検索
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { SearchResult } from '../supabase/types';
+import { MIN_SEARCH_QUERY_LENGTH } from '../supabase/queries';
+import { SearchRepository, SearchError, createSearchRepository } from './search-repository';
+
+/**
+ * 入力が止まってから検索を実行するまでの待ち時間(ミリ秒)
+ */
+export const SEARCH_DEBOUNCE_MS = 300;
+
+/**
+ * 検索画面の状態を表す型
+ * - idle: 検索語が未入力(または短すぎる)
+ * - loading: 検索中
+ * - success: 検索結果を取得した(0件を含む)
+ * - error: 検索に失敗した
+ */
+export type SearchState = 'idle' | 'loading' | 'success' | 'error';
+
+/**
+ * useSearchViewModel の戻り値型
+ * View が検索画面を表示・操作するために必要な情報を提供
+ */
+export interface SearchViewModelResult {
+  /** 現在の状態 */
+  state: SearchState;
+  /** 入力中の検索語 */
+  query: string;
+  /** 表示中の検索結果に対応する検索語(ハイライト表示に使用) */
+  resultQuery: string;
+  /** 関連度の高い順の検索結果 */
+  results: SearchResult[];
+  /** エラー情報(エラー時のみ) */
+  error: SearchError | null;
+  /** 検索語を更新する関数(入力が止まってから検索する) */
+  setQuery: (query: string) => void;
+  /** 検索語と検索結果をクリアする関数 */
+  clear: () => void;
+  /** 現在の検索語で再検索する関数 */
+  retry: () => Promise<void>;
+}
+
+/**
+ * Search ViewModel カスタムフック
+ *
+ * 依存性注入(DI)により、SearchRepositoryをパラメータで受け取ります。
+ * 入力が続く間は検索せず、debounceMs だけ入力が止まってから検索します。
+ * 先に送った検索の応答が後から届いた場合は破棄します。
+ *
+ * @param repository - SearchRepository(省略時はデフォルトを使用)
+ * @param debounceMs - デバウンス時間(ミリ秒、デフォルト: SEARCH_DEBOUNCE_MS)
+ * @returns SearchViewModelResult - 検索画面の表示・操作に必要な状態と関数
+ */
+export function useSearchViewModel(
+  repository?: SearchRepository,
+  debounceMs: number = SEARCH_DEBOUNCE_MS
+): SearchViewModelResult {
+  const repo = useMemo(() => repository || createSearchRepository(), [repository]);
+
+  // 状態管理
+  const [query, setQuery] = useState('');
+  const [state, setState] = useState<SearchState>('idle');
+  const [resultQuery, setResultQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [error, setError] = useState<SearchError | null>(null);
+
+  // 最新の検索リクエストの番号(古い応答を破棄するために使用)
+  const requestIdRef = useRef(0);
+
+  /**
+   * 検索を実行する内部関数
+   * デバウンス後とリトライ時に呼ばれる
+   */
+  const runSearch = useCallback(
+    async (searchQuery: string) => {
+      const requestId = ++requestIdRef.current;
+      setState('loading');
+      setError(null);
+
+      const response = await repo.search(searchQuery);
+      if (requestId !== requestIdRef.current) {
+        return;
+      }
+
+      setResultQuery(searchQuery);
+      setResults(response.data);
+      if (!response.success) {
+        setError(response.error ?? null);
+        setState('error');
+        return;
+      }
+      setState('success');
+    },
+    [repo]
+  );
+
+  // 入力が止まってから検索する
+  useEffect(() => {
+    const searchQuery = query.trim();
+    if (searchQuery.length < MIN_SEARCH_QUERY_LENGTH) {
+      // 実行中の検索の応答は破棄する
+      requestIdRef.current += 1;
+      setState('idle');
+      setResultQuery('');
+      setResults([]);
+      setError(null);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      runSearch(searchQuery);
+    }, debounceMs);
+    return () => clearTimeout(timer);
+  }, [query, debounceMs, runSearch]);
+
+  const clear = useCallback(() => {
+    setQuery('');
+  }, []);
+
+  const retry = useCallback(async () => {
+    const searchQuery = query.trim();
+    if (searchQuery.length < MIN_SEARCH_QUERY_LENGTH) {
+      return;
+    }
+    await runSearch(searchQuery);
+  }, [query, runSearch]);
+
+  return {
+    state,
+    query,
+    resultQuery,
+    results,
+    error,
+    setQuery,
+    clear,
+    retry,
+  };
+}
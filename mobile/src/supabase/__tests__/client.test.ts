@@ -21,9 +21,18 @@ const mockFrom = jest.fn();
 const mockSelect = jest.fn();
 const mockLimit = jest.fn();
 const mockSingle = jest.fn();
+const mockAuth = {
+  getSession: jest.fn(),
+  signInAnonymously: jest.fn(),
+  updateUser: jest.fn(),
+  signInWithOtp: jest.fn(),
+  verifyOtp: jest.fn(),
+  signOut: jest.fn(),
+};
 
 const mockSupabaseClient = {
   from: mockFrom,
+  auth: mockAuth,
 };
 
 jest.mock('@supabase/supabase-js', () => ({
@@ -205,3 +214,93 @@ describe('getSupabaseInstance', () => {
     expect(instance).toBeDefined();
   });
 });
+
+describe('認証', () => {
+  let client: SupabaseClient;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    mockFrom.mockReturnValue({ select: mockSelect });
+    mockSelect.mockReturnValue({ limit: mockLimit });
+    mockLimit.mockReturnValue({ single: mockSingle });
+    mockSingle.mockResolvedValue({ data: { id: 1 }, error: null });
+
+    client = new SupabaseClient();
+    await client.initialize({
+      url: 'https://test.supabase.co',
+      anonKey: 'test-anon-key',
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('ensureSession', () => {
+    it('セッションがある場合はそのユーザーIDを返すこと', async () => {
+      mockAuth.getSession.mockResolvedValue({
+        data: { session: { user: { id: 'user-1' } } },
+        error: null,
+      });
+
+      await expect(client.ensureSession()).resolves.toBe('user-1');
+      expect(mockAuth.signInAnonymously).not.toHaveBeenCalled();
+    });
+
+    it('セッションがない場合は匿名ユーザーとしてサインインすること', async () => {
+      mockAuth.getSession.mockResolvedValue({ data: { session: null }, error: null });
+      mockAuth.signInAnonymously.mockResolvedValue({
+        data: { user: { id: 'anon-1' } },
+        error: null,
+      });
+
+      await expect(client.ensureSession()).resolves.toBe('anon-1');
+    });
+
+    it('匿名サインインに失敗した場合はエラーをスローすること', async () => {
+      const signInError = new Error('Anonymous sign-ins are disabled');
+      mockAuth.getSession.mockResolvedValue({ data: { session: null }, error: null });
+      mockAuth.signInAnonymously.mockResolvedValue({ data: { user: null }, error: signInError });
+
+      await expect(client.ensureSession()).rejects.toBe(signInError);
+    });
+  });
+
+  describe('メールアドレスでのサインイン', () => {
+    it('匿名ユーザーの場合は同じユーザーにメールアドレスを紐付けること', async () => {
+      mockAuth.getSession.mockResolvedValue({
+        data: { session: { user: { id: 'anon-1', is_anonymous: true } } },
+        error: null,
+      });
+      mockAuth.updateUser.mockResolvedValue({ data: {}, error: null });
+      mockAuth.verifyOtp.mockResolvedValue({ data: { user: { id: 'anon-1' } }, error: null });
+
+      await client.requestEmailSignIn('user@example.com');
+      const userId = await client.verifyEmailSignIn('user@example.com', '123456');
+
+      expect(mockAuth.updateUser).toHaveBeenCalledWith({ email: 'user@example.com' });
+      expect(mockAuth.signInWithOtp).not.toHaveBeenCalled();
+      expect(mockAuth.verifyOtp).toHaveBeenCalledWith({
+        email: 'user@example.com',
+        token: '123456',
+        type: 'email_change',
+      });
+      expect(userId).toBe('anon-1');
+    });
+
+    it('未サインインの場合はワンタイムコードでサインインすること', async () => {
+      mockAuth.getSession.mockResolvedValue({ data: { session: null }, error: null });
+      mockAuth.signInWithOtp.mockResolvedValue({ data: {}, error: null });
+      mockAuth.verifyOtp.mockResolvedValue({ data: { user: { id: 'user-2' } }, error: null });
+
+      await client.requestEmailSignIn('user@example.com');
+      await client.verifyEmailSignIn('user@example.com', '123456');
+
+      expect(mockAuth.signInWithOtp).toHaveBeenCalledWith({ email: 'user@example.com' });
+      expect(mockAuth.verifyOtp).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'email' })
+      );
+    });
+  });
+});
@@ -14,12 +14,42 @@
 
 import {
   getTodayNews,
+  getNewsUpdatedAt,
   getTodayTerms,
+  getTermQuizzes,
   getBatchMetadata,
+  getNewsByDateRange,
+  getNewsArchive,
+  getNewsSourceArticles,
+  getNewsCategorySummaries,
+  newsRowToNewsData,
+  bookmarkRowToBookmark,
+  bookmarkToInsertRow,
+  reviewStateRowToReviewCard,
+  reviewCardToReviewStateRow,
+  termQuizRowsToTermQuizzes,
+  searchContent,
+  searchResultRowToSearchResult,
+  getDeliveredTermNames,
+  fetchGlossaryTermForRepository,
+  fetchNewsArchiveForRepository,
   SupabaseQueryError,
 } from '../queries';
 import { resetSupabaseClient, initializeSupabaseClient } from '../client';
-import { NewsRow, TermRow, BatchMetadataRow, TABLES } from '../types';
+import {
+  NewsRow,
+  NewsArchiveRow,
+  NewsSourceArticleRow,
+  NewsCategorySummaryRow,
+  TermRow,
+  BatchMetadataRow,
+  BookmarkRow,
+  ReviewStateRow,
+  TermQuizRow,
+  SearchResultRow,
+  TermExplanationRow,
+  TABLES,
+} from '../types';
 
 // Supabase SDKのモック
 jest.mock('@supabase/supabase-js', () => ({
@@ -36,6 +66,7 @@ describe('Supabase Queries', () => {
   let mockLimit: jest.Mock;
   let mockSingle: jest.Mock;
   let mockOrder: jest.Mock;
+  let mockRpc: jest.Mock;
 
   beforeEach(async () => {
     // シングルトンをリセット
@@ -46,14 +77,15 @@ describe('Supabase Queries', () => {
     mockSingle = jest.fn();
     mockLimit = jest.fn(() => ({ single: mockSingle, data: null, error: null }));
     mockOrder = jest.fn(() => ({ limit: mockLimit, data: null, error: null }));
-    mockEq = jest.fn(() => ({ order: mockOrder, limit: mockLimit, single: mockSingle, data: null, error: null }));
+    mockEq = jest.fn(() => ({ eq: mockEq, order: mockOrder, limit: mockLimit, single: mockSingle, maybeSingle: mockSingle, data: null, error: null }));
     mockSelect = jest.fn(() => ({ eq: mockEq, limit: mockLimit, single: mockSingle, data: null, error: null }));
     mockFrom = jest.fn(() => ({ select: mockSelect }));
+    mockRpc = jest.fn(() => ({ data: null, error: null }));
 
     // Supabaseクライアントを初期化(モック)
     // eslint-disable-next-line @typescript-eslint/no-var-requires
     const { createClient } = require('@supabase/supabase-js') as { createClient: jest.Mock };
-    createClient.mockReturnValue({ from: mockFrom });
+    createClient.mockReturnValue({ from: mockFrom, rpc: mockRpc });
 
     await initializeSupabaseClient({
       url: 'https://test.supabase.co',
@@ -89,6 +121,8 @@ describe('Supabase Queries', () => {
       expect(mockSelect).toHaveBeenCalledWith('*');
       // eqが日付で呼ばれたか
       expect(mockEq).toHaveBeenCalledWith('date', TEST_DATE);
+      // 公開中のニュースのみに絞り込まれたか
+      expect(mockEq).toHaveBeenCalledWith('published', true);
       // singleが呼ばれたか
       expect(mockSingle).toHaveBeenCalled();
 
@@ -131,6 +165,35 @@ describe('Supabase Queries', () => {
     });
   });
 
+  describe('getNewsUpdatedAt', () => {
+    it('公開中のニュースの更新日時のみを取得する', async () => {
+      mockSingle.mockResolvedValue({ data: { updated_at: '2026-01-11T08:00:00Z' }, error: null });
+
+      const result = await getNewsUpdatedAt('2026-01-11');
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.NEWS);
+      expect(mockSelect).toHaveBeenCalledWith('updated_at');
+      expect(mockEq).toHaveBeenCalledWith('date', '2026-01-11');
+      expect(mockEq).toHaveBeenCalledWith('published', true);
+      expect(result).toBe('2026-01-11T08:00:00Z');
+    });
+
+    it('公開中のニュースがない場合はnullを返す', async () => {
+      mockSingle.mockResolvedValue({ data: null, error: null });
+
+      expect(await getNewsUpdatedAt('2026-01-11')).toBeNull();
+    });
+
+    it('Supabaseエラー時はSupabaseQueryErrorをスローする', async () => {
+      mockSingle.mockResolvedValue({
+        data: null,
+        error: { code: '08006', message: 'connection failure', details: null, hint: null },
+      });
+
+      await expect(getNewsUpdatedAt('2026-01-11')).rejects.toThrow(SupabaseQueryError);
+    });
+  });
+
   describe('getTodayTerms', () => {
     const TEST_DATE = '2026-01-11';
     const MOCK_TERM_ROWS: TermRow[] = [
@@ -172,6 +235,8 @@ describe('Supabase Queries', () => {
       expect(mockSelect).toHaveBeenCalledWith('*');
       // eqが日付で呼ばれたか
       expect(mockEq).toHaveBeenCalledWith('date', TEST_DATE);
+      // 公開中の用語のみに絞り込まれたか
+      expect(mockEq).toHaveBeenCalledWith('published', true);
       // orderがcreated_at ascで呼ばれたか
       expect(mockOrder).toHaveBeenCalledWith('created_at', { ascending: true });
 
@@ -269,6 +334,317 @@ describe('Supabase Queries', () => {
     });
   });
 
+  describe('getNewsSourceArticles', () => {
+    const TEST_DATE = '2026-01-11';
+    const MOCK_SOURCE_ROWS: NewsSourceArticleRow[] = [
+      {
+        id: 1,
+        news_date: TEST_DATE,
+        region: 'world',
+        title: 'Fed holds rates',
+        outlet: 'Reuters',
+        url: 'https://example.com/fed',
+        published_at: '2026-01-10T12:00:00Z',
+        position: 0,
+        created_at: '2026-01-11T00:00:00Z',
+      },
+    ];
+
+    it('指定日の出典記事を表示順で取得できる', async () => {
+      mockOrder.mockReturnValue({ data: MOCK_SOURCE_ROWS, error: null });
+
+      const result = await getNewsSourceArticles(TEST_DATE);
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.NEWS_SOURCE_ARTICLES);
+      expect(mockEq).toHaveBeenCalledWith('news_date', TEST_DATE);
+      expect(mockOrder).toHaveBeenCalledWith('position', { ascending: true });
+      expect(result).toEqual(MOCK_SOURCE_ROWS);
+    });
+
+    it('dataがnullの場合は空配列を返す', async () => {
+      mockOrder.mockReturnValue({ data: null, error: null });
+
+      const result = await getNewsSourceArticles(TEST_DATE);
+
+      expect(result).toEqual([]);
+    });
+
+    it('Supabaseエラー時はSupabaseQueryErrorをスローする', async () => {
+      mockOrder.mockReturnValue({
+        data: null,
+        error: { code: '42P01', message: 'relation does not exist' },
+      });
+
+      await expect(getNewsSourceArticles(TEST_DATE)).rejects.toThrow(SupabaseQueryError);
+    });
+  });
+
+  describe('getNewsCategorySummaries', () => {
+    const TEST_DATE = '2026-01-11';
+    const MOCK_CATEGORY_ROWS: NewsCategorySummaryRow[] = [
+      {
+        news_date: TEST_DATE,
+        category: 'markets',
+        title: '米株が続伸',
+        summary: '主要株価指数が上昇しました。',
+        article_count: 3,
+        created_at: '2026-01-11T00:00:00Z',
+        updated_at: '2026-01-11T00:00:00Z',
+      },
+    ];
+
+    it('指定日のカテゴリ別要約を取得できる', async () => {
+      mockEq.mockReturnValue({ data: MOCK_CATEGORY_ROWS, error: null });
+
+      const result = await getNewsCategorySummaries(TEST_DATE);
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.NEWS_CATEGORY_SUMMARIES);
+      expect(mockEq).toHaveBeenCalledWith('news_date', TEST_DATE);
+      expect(result).toEqual(MOCK_CATEGORY_ROWS);
+    });
+
+    it('無効な日付形式の場合はエラーをスローする', async () => {
+      await expect(getNewsCategorySummaries('2026/01/11')).rejects.toThrow();
+    });
+
+    it('Supabaseエラー時はSupabaseQueryErrorをスローする', async () => {
+      mockEq.mockReturnValue({
+        data: null,
+        error: { code: '42P01', message: 'relation does not exist' },
+      });
+
+      await expect(getNewsCategorySummaries(TEST_DATE)).rejects.toThrow(SupabaseQueryError);
+    });
+  });
+
+  describe('newsRowToNewsData', () => {
+    const MOCK_NEWS_ROW: NewsRow = {
+      date: '2026-01-11',
+      world_news_title: '世界ニュース',
+      world_news_summary: '世界の要約',
+      japan_news_title: '日本ニュース',
+      japan_news_summary: '日本の要約',
+      created_at: '2026-01-11T00:00:00Z',
+      updated_at: '2026-01-11T00:00:00Z',
+    };
+
+    const createSourceRow = (
+      overrides: Partial<NewsSourceArticleRow>
+    ): NewsSourceArticleRow => ({
+      id: 1,
+      news_date: '2026-01-11',
+      region: 'world',
+      title: 'title',
+      outlet: 'outlet',
+      url: 'https://example.com',
+      published_at: null,
+      position: 0,
+      created_at: '2026-01-11T00:00:00Z',
+      ...overrides,
+    });
+
+    it('出典記事を地域別に振り分け、表示順に並べる', () => {
+      const data = newsRowToNewsData(MOCK_NEWS_ROW, [
+        createSourceRow({ id: 1, region: 'world', title: 'W2', position: 1 }),
+        createSourceRow({ id: 2, region: 'japan', title: 'J1', position: 0 }),
+        createSourceRow({ id: 3, region: 'world', title: 'W1', position: 0 }),
+      ]);
+
+      expect(data.worldNews.sources?.map((source) => source.title)).toEqual(['W1', 'W2']);
+      expect(data.japanNews.sources?.map((source) => source.title)).toEqual(['J1']);
+      expect(data.japanNews.sources?.[0]).toEqual({
+        title: 'J1',
+        outlet: 'outlet',
+        url: 'https://example.com',
+        publishedAt: null,
+      });
+    });
+
+    it('出典を渡さない場合は空の出典一覧になる', () => {
+      const data = newsRowToNewsData(MOCK_NEWS_ROW);
+
+      expect(data.worldNews.sources).toEqual([]);
+      expect(data.japanNews.sources).toEqual([]);
+      expect(data.categories).toEqual([]);
+    });
+
+    it('カテゴリ別要約をカテゴリの表示順に並べる', () => {
+      const createCategoryRow = (
+        overrides: Partial<NewsCategorySummaryRow>
+      ): NewsCategorySummaryRow => ({
+        news_date: '2026-01-11',
+        category: 'markets',
+        title: 'title',
+        summary: 'summary',
+        article_count: 2,
+        created_at: '2026-01-11T00:00:00Z',
+        updated_at: '2026-01-11T01:00:00Z',
+        ...overrides,
+      });
+
+      const data = newsRowToNewsData(
+        MOCK_NEWS_ROW,
+        [],
+        [
+          createCategoryRow({ category: 'fx', title: '為替' }),
+          createCategoryRow({ category: 'markets', title: '市況' }),
+          createCategoryRow({ category: 'macro', title: 'マクロ' }),
+        ]
+      );
+
+      expect(data.categories?.map((category) => category.title)).toEqual([
+        '市況',
+        'マクロ',
+        '為替',
+      ]);
+      expect(data.categories?.[0]).toEqual({
+        category: 'markets',
+        title: '市況',
+        summary: 'summary',
+        articleCount: 2,
+        updatedAt: '2026-01-11T01:00:00Z',
+      });
+    });
+  });
+
+  describe('getNewsByDateRange', () => {
+    const MOCK_NEWS_ROWS: NewsRow[] = [
+      {
+        date: '2026-01-11',
+        world_news_title: '世界ニュース2',
+        world_news_summary: '要約',
+        japan_news_title: '日本ニュース2',
+        japan_news_summary: '要約',
+        created_at: '2026-01-11T00:00:00Z',
+        updated_at: '2026-01-11T00:00:00Z',
+      },
+      {
+        date: '2026-01-10',
+        world_news_title: '世界ニュース1',
+        world_news_summary: '要約',
+        japan_news_title: '日本ニュース1',
+        japan_news_summary: '要約',
+        created_at: '2026-01-10T00:00:00Z',
+        updated_at: '2026-01-10T00:00:00Z',
+      },
+    ];
+
+    it('指定期間のニュースを日付の降順で取得できる', async () => {
+      const mockRangeOrder = jest.fn(() => ({ data: MOCK_NEWS_ROWS, error: null }));
+      const mockLte = jest.fn(() => ({ order: mockRangeOrder }));
+      const mockGte = jest.fn(() => ({ lte: mockLte }));
+      mockSelect.mockReturnValue({ gte: mockGte });
+
+      const result = await getNewsByDateRange('2026-01-10', '2026-01-11');
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.NEWS);
+      expect(mockGte).toHaveBeenCalledWith('date', '2026-01-10');
+      expect(mockLte).toHaveBeenCalledWith('date', '2026-01-11');
+      expect(mockRangeOrder).toHaveBeenCalledWith('date', { ascending: false });
+      expect(result).toEqual(MOCK_NEWS_ROWS);
+    });
+
+    it('開始日が終了日より後の場合はエラーをスローする', async () => {
+      await expect(getNewsByDateRange('2026-01-11', '2026-01-10')).rejects.toThrow(
+        'Invalid date range'
+      );
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('無効な日付形式でエラーをスローする', async () => {
+      await expect(getNewsByDateRange('2026/01/10', '2026-01-11')).rejects.toThrow();
+    });
+  });
+
+  describe('getNewsArchive', () => {
+    const MOCK_ARCHIVE_ROWS: NewsArchiveRow[] = [
+      { date: '2026-01-11', world_news_title: '世界3', japan_news_title: '日本3' },
+      { date: '2026-01-10', world_news_title: '世界2', japan_news_title: '日本2' },
+      { date: '2026-01-09', world_news_title: '世界1', japan_news_title: '日本1' },
+    ];
+
+    /**
+     * アーカイブ用クエリチェーンのモックを設定する
+     * select → (lt) → order → limit の順に呼ばれる
+     */
+    function setupArchiveChain(rows: NewsArchiveRow[] | null, error: unknown = null) {
+      const mockArchiveLimit = jest.fn(() => ({ data: rows, error }));
+      const mockArchiveOrder = jest.fn(() => ({ limit: mockArchiveLimit }));
+      const mockLt = jest.fn(() => ({ order: mockArchiveOrder }));
+      mockSelect.mockReturnValue({ lt: mockLt, order: mockArchiveOrder });
+      return { mockLt, mockArchiveOrder, mockArchiveLimit };
+    }
+
+    it('カーソル省略時は最新から一覧用の列のみを取得する', async () => {
+      const { mockLt, mockArchiveOrder, mockArchiveLimit } = setupArchiveChain(MOCK_ARCHIVE_ROWS);
+
+      const result = await getNewsArchive(null, 3);
+
+      expect(mockSelect).toHaveBeenCalledWith('date, world_news_title, japan_news_title');
+      expect(mockLt).not.toHaveBeenCalled();
+      expect(mockArchiveOrder).toHaveBeenCalledWith('date', { ascending: false });
+      expect(mockArchiveLimit).toHaveBeenCalledWith(3);
+      expect(result).toEqual(MOCK_ARCHIVE_ROWS);
+    });
+
+    it('カーソル指定時はその日付より古いものに絞り込む', async () => {
+      const { mockLt } = setupArchiveChain([]);
+
+      await getNewsArchive('2026-01-09');
+
+      expect(mockLt).toHaveBeenCalledWith('date', '2026-01-09');
+    });
+
+    it('無効な件数でエラーをスローする', async () => {
+      await expect(getNewsArchive(null, 0)).rejects.toThrow('Invalid limit');
+    });
+
+    it('Supabaseエラー時にSupabaseQueryErrorをスローする', async () => {
+      setupArchiveChain(null, { code: '42P01', message: 'relation does not exist' });
+
+      await expect(getNewsArchive()).rejects.toThrow(SupabaseQueryError);
+    });
+  });
+
+  describe('fetchNewsArchiveForRepository', () => {
+    it('limit+1件取得して次ページがある場合はカーソルを返す', async () => {
+      const mockArchiveLimit = jest.fn(() => ({
+        data: [
+          { date: '2026-01-11', world_news_title: '世界3', japan_news_title: '日本3' },
+          { date: '2026-01-10', world_news_title: '世界2', japan_news_title: '日本2' },
+          { date: '2026-01-09', world_news_title: '世界1', japan_news_title: '日本1' },
+        ],
+        error: null,
+      }));
+      mockSelect.mockReturnValue({ order: jest.fn(() => ({ limit: mockArchiveLimit })) });
+
+      const page = await fetchNewsArchiveForRepository(null, 2);
+
+      expect(mockArchiveLimit).toHaveBeenCalledWith(3);
+      expect(page.entries).toEqual([
+        { date: '2026-01-11', worldNewsTitle: '世界3', japanNewsTitle: '日本3' },
+        { date: '2026-01-10', worldNewsTitle: '世界2', japanNewsTitle: '日本2' },
+      ]);
+      expect(page.nextCursor).toBe('2026-01-10');
+    });
+
+    it('最終ページの場合はカーソルにnullを返す', async () => {
+      mockSelect.mockReturnValue({
+        order: jest.fn(() => ({
+          limit: jest.fn(() => ({
+            data: [{ date: '2026-01-09', world_news_title: '世界1', japan_news_title: '日本1' }],
+            error: null,
+          })),
+        })),
+      });
+
+      const page = await fetchNewsArchiveForRepository(null, 2);
+
+      expect(page.entries).toHaveLength(1);
+      expect(page.nextCursor).toBeNull();
+    });
+  });
+
   describe('SupabaseQueryError', () => {
     it('エラー情報を正しく保持する', () => {
       const error = new SupabaseQueryError(
@@ -290,4 +666,308 @@ describe('Supabase Queries', () => {
       expect(error).toBeInstanceOf(Error);
     });
   });
+
+  describe('bookmarkRowToBookmark / bookmarkToInsertRow', () => {
+    const row: BookmarkRow = {
+      id: 1,
+      user_id: 'user-1',
+      item_type: 'term',
+      item_key: 'PER',
+      title: 'PER',
+      description: '株価収益率',
+      difficulty: 'beginner',
+      created_at: '2024-01-15T00:00:00.000Z',
+    };
+
+    it('BookmarkRowをBookmarkに変換する', () => {
+      expect(bookmarkRowToBookmark(row)).toEqual({
+        type: 'term',
+        key: 'PER',
+        title: 'PER',
+        description: '株価収益率',
+        difficulty: 'beginner',
+        createdAt: '2024-01-15T00:00:00.000Z',
+      });
+    });
+
+    it('Bookmarkを所有ユーザー付きの追加用の行に変換する', () => {
+      expect(bookmarkToInsertRow(bookmarkRowToBookmark(row), 'user-1')).toEqual({
+        user_id: 'user-1',
+        item_type: 'term',
+        item_key: 'PER',
+        title: 'PER',
+        description: '株価収益率',
+        difficulty: 'beginner',
+        created_at: '2024-01-15T00:00:00.000Z',
+      });
+    });
+  });
+
+  describe('reviewStateRowToReviewCard / reviewCardToReviewStateRow', () => {
+    const row: ReviewStateRow = {
+      user_id: 'user-1',
+      term_name: 'PER',
+      description: '株価収益率',
+      difficulty: 'beginner',
+      ease_factor: 2.36,
+      interval_days: 6,
+      repetitions: 2,
+      lapses: 1,
+      due_date: '2024-01-21',
+      last_reviewed_at: '2024-01-15T00:00:00+00:00',
+      updated_at: '2024-01-15T00:00:00+00:00',
+    };
+
+    it('ReviewStateRowをReviewCardに変換する', () => {
+      expect(reviewStateRowToReviewCard(row)).toEqual({
+        term: { name: 'PER', description: '株価収益率', difficulty: 'beginner' },
+        easeFactor: 2.36,
+        intervalDays: 6,
+        repetitions: 2,
+        lapses: 1,
+        dueDate: '2024-01-21',
+        lastReviewedAt: '2024-01-15T00:00:00+00:00',
+        updatedAt: '2024-01-15T00:00:00+00:00',
+      });
+    });
+
+    it('ReviewCardを所有ユーザー付きの行に変換する', () => {
+      expect(reviewCardToReviewStateRow(reviewStateRowToReviewCard(row), 'user-1')).toEqual(row);
+    });
+  });
+
+  describe('getTermQuizzes / termQuizRowsToTermQuizzes', () => {
+    const TEST_DATE = '2026-01-11';
+
+    /**
+     * term_quizzesの行を生成するヘルパー
+     */
+    const createRow = (id: number, termName: string, questionIndex: number): TermQuizRow => ({
+      id,
+      date: TEST_DATE,
+      term_name: termName,
+      question_index: questionIndex,
+      question: `${termName}の問題${questionIndex + 1}`,
+      choices: ['A', 'B', 'C', 'D'],
+      correct_index: questionIndex,
+      explanation: `${termName}の解説${questionIndex + 1}`,
+      created_at: '2026-01-11T00:00:00Z',
+    });
+
+    it('指定日のクイズをid昇順で取得する', async () => {
+      const rows = [createRow(1, 'PER', 0), createRow(2, 'PER', 1)];
+      mockOrder.mockReturnValue({ data: rows, error: null });
+
+      const result = await getTermQuizzes(TEST_DATE);
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.TERM_QUIZZES);
+      expect(mockEq).toHaveBeenCalledWith('date', TEST_DATE);
+      expect(mockOrder).toHaveBeenCalledWith('id', { ascending: true });
+      expect(result).toEqual(rows);
+    });
+
+    it('無効な日付形式でエラーをスローする', async () => {
+      await expect(getTermQuizzes('2026/01/11')).rejects.toThrow();
+    });
+
+    it('設問ごとの行を用語単位にまとめ、設問番号順に並べる', () => {
+      const quizzes = termQuizRowsToTermQuizzes([
+        createRow(1, 'PER', 1),
+        createRow(2, 'ROE', 0),
+        createRow(3, 'PER', 0),
+      ]);
+
+      expect(quizzes.map((quiz) => quiz.termName)).toEqual(['PER', 'ROE']);
+      expect(quizzes[0].questions).toEqual([
+        {
+          question: 'PERの問題1',
+          choices: ['A', 'B', 'C', 'D'],
+          correctIndex: 0,
+          explanation: 'PERの解説1',
+        },
+        {
+          question: 'PERの問題2',
+          choices: ['A', 'B', 'C', 'D'],
+          correctIndex: 1,
+          explanation: 'PERの解説2',
+        },
+      ]);
+    });
+  });
+
+  describe('searchContent / searchResultRowToSearchResult', () => {
+    const MOCK_ROWS: SearchResultRow[] = [
+      {
+        item_type: 'term',
+        item_date: '2026-01-11',
+        region: null,
+        title: 'PER（株価収益率）',
+        snippet: 'PERは株価を1株当たり純利益で割った指標です。',
+        rank: 3.2,
+      },
+      {
+        item_type: 'news',
+        item_date: '2026-01-10',
+        region: 'japan',
+        title: '日経平均が続伸',
+        snippet: '…市場全体のPERは15倍台に上昇…',
+        rank: 1.1,
+      },
+    ];
+
+    it('search_content関数を前後の空白を除いた検索語で呼び出す', async () => {
+      mockRpc.mockReturnValue({ data: MOCK_ROWS, error: null });
+
+      const result = await searchContent('  PER ');
+
+      expect(mockRpc).toHaveBeenCalledWith('search_content', {
+        search_query: 'PER',
+        result_limit: 20,
+      });
+      expect(result).toEqual(MOCK_ROWS);
+    });
+
+    it('検索語が2文字未満の場合は問い合わせずに空配列を返す', async () => {
+      const result = await searchContent(' 株 ');
+
+      expect(result).toEqual([]);
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('Supabaseエラー時はSupabaseQueryErrorをスローする', async () => {
+      mockRpc.mockReturnValue({
+        data: null,
+        error: { code: '42883', message: 'function does not exist', details: null, hint: null },
+      });
+
+      await expect(searchContent('PER', 10)).rejects.toThrow(SupabaseQueryError);
+      expect(mockRpc).toHaveBeenCalledWith('search_content', {
+        search_query: 'PER',
+        result_limit: 10,
+      });
+    });
+
+    it('行をアプリ表示用の検索結果に変換する', () => {
+      expect(searchResultRowToSearchResult(MOCK_ROWS[1])).toEqual({
+        type: 'news',
+        date: '2026-01-10',
+        region: 'japan',
+        title: '日経平均が続伸',
+        snippet: '…市場全体のPERは15倍台に上昇…',
+        rank: 1.1,
+      });
+    });
+  });
+
+  describe('getDeliveredTermNames / fetchGlossaryTermForRepository', () => {
+    const MOCK_TERM: TermRow = {
+      id: 1,
+      date: '2026-01-11',
+      name: '円安',
+      description: '円の価値が他の通貨に対して下がること。',
+      difficulty: 'beginner',
+      created_at: '2026-01-11T00:00:00Z',
+    };
+
+    const MOCK_EXPLANATION: TermExplanationRow = {
+      term_name: 'イールドカーブ',
+      description: '償還までの期間と利回りの関係を表した曲線。',
+      difficulty: 'advanced',
+      model: 'claude-haiku',
+      created_at: '2026-01-11T00:00:00Z',
+    };
+
+    it('配信履歴から重複を除いた用語名を取得する', async () => {
+      mockSelect.mockReturnValueOnce({
+        data: [{ term_name: '円安' }, { term_name: 'ETF' }, { term_name: '円安' }],
+        error: null,
+      });
+      mockEq.mockReturnValueOnce({
+        data: [{ name: '円安' }, { name: 'ETF' }],
+        error: null,
+      });
+
+      const result = await getDeliveredTermNames();
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.TERMS_HISTORY);
+      expect(mockSelect).toHaveBeenCalledWith('term_name');
+      expect(result).toEqual(['円安', 'ETF']);
+    });
+
+    it('公開中の用語がない用語名(非公開にした用語)は除外する', async () => {
+      mockSelect.mockReturnValueOnce({
+        data: [{ term_name: '円安' }, { term_name: '非公開の用語' }],
+        error: null,
+      });
+      mockEq.mockReturnValueOnce({ data: [{ name: '円安' }], error: null });
+
+      const result = await getDeliveredTermNames();
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.TERMS);
+      expect(mockSelect).toHaveBeenCalledWith('name');
+      expect(mockEq).toHaveBeenCalledWith('published', true);
+      expect(result).toEqual(['円安']);
+    });
+
+    it('公開中の用語の取得でエラーが発生した場合はSupabaseQueryErrorをスローする', async () => {
+      mockSelect.mockReturnValueOnce({ data: [{ term_name: '円安' }], error: null });
+      mockEq.mockReturnValueOnce({
+        data: null,
+        error: { code: '08006', message: 'connection failure', details: null, hint: null },
+      });
+
+      await expect(getDeliveredTermNames()).rejects.toThrow(SupabaseQueryError);
+    });
+
+    it('配信済みの用語は最新の配信日のものを返す', async () => {
+      mockLimit.mockReturnValueOnce({ data: [MOCK_TERM], error: null });
+
+      const result = await fetchGlossaryTermForRepository('円安');
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.TERMS);
+      expect(mockEq).toHaveBeenCalledWith('name', '円安');
+      expect(mockOrder).toHaveBeenCalledWith('date', { ascending: false });
+      expect(mockFrom).not.toHaveBeenCalledWith(TABLES.TERM_EXPLANATIONS);
+      expect(result).toEqual({
+        data: {
+          name: '円安',
+          description: '円の価値が他の通貨に対して下がること。',
+          difficulty: 'beginner',
+          source: 'delivered',
+        },
+        exists: true,
+      });
+    });
+
+    it('配信済みの用語にない場合は生成済みの解説を返す', async () => {
+      mockLimit
+        .mockReturnValueOnce({ data: [], error: null })
+        .mockReturnValueOnce({ data: [MOCK_EXPLANATION], error: null });
+
+      const result = await fetchGlossaryTermForRepository('イールドカーブ');
+
+      expect(mockFrom).toHaveBeenCalledWith(TABLES.TERM_EXPLANATIONS);
+      expect(mockEq).toHaveBeenCalledWith('term_name', 'イールドカーブ');
+      expect(result).toEqual({
+        data: {
+          name: 'イールドカーブ',
+          description: '償還までの期間と利回りの関係を表した曲線。',
+          difficulty: 'advanced',
+          source: 'generated',
+        },
+        exists: true,
+      });
+    });
+
+    it('どちらにもない場合はexists: falseを返す', async () => {
+      mockLimit
+        .mockReturnValueOnce({ data: [], error: null })
+        .mockReturnValueOnce({ data: [], error: null });
+
+      expect(await fetchGlossaryTermForRepository('未配信')).toEqual({
+        data: null,
+        exists: false,
+      });
+    });
+  });
 });
@@ -4,15 +4,19 @@
  *
  * React Nativeアプリ用のSupabaseクライアントを提供します。
  * anon keyを使用してRLSで保護されたデータにアクセスします。
+ * ブックマークなどユーザー単位のデータは、匿名ユーザーまたは
+ * メールアドレス(ワンタイムコード)でサインインしたセッションで読み書きします。
  *
  * Requirements:
  * - 7: フロントエンドSupabaseクライアント実装
  * - 7.2: anon keyによるクライアントサイド認証設定
  * - 7.4: 接続テスト機能を実装する
+ * - ユーザー認証(匿名・メール)とセッションの永続化
  *
  * @see https://supabase.com/docs/reference/javascript/introduction
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createClient, SupabaseClient as SupabaseSDKClient } from '@supabase/supabase-js';
 import {
   SupabaseClientConfig,
@@ -97,14 +101,16 @@ export class SupabaseClient {
     // Supabaseクライアントを初期化
     // React Native向けの設定:
     // - detectSessionInUrl: false (ディープリンクからのセッション取得を無効化)
-    // - persistSession: false (認証不要のため)
-    // - autoRefreshToken: false (認証不要のため)
+    // - storage: AsyncStorage (アプリ再起動後も同じユーザーとしてブックマークを参照するため)
+    // - persistSession: true (セッションを端末に保存)
+    // - autoRefreshToken: true (アクセストークンの期限切れ前に自動更新)
     // @see https://supabase.com/docs/reference/javascript/initializing
     this.client = createClient(this.config.url, this.config.anonKey, {
       auth: {
+        storage: AsyncStorage,
         detectSessionInUrl: false,
-        persistSession: false,
-        autoRefreshToken: false,
+        persistSession: true,
+        autoRefreshToken: true,
       },
     });
 
@@ -172,6 +178,109 @@ export class SupabaseClient {
     }
   }
 
+  /**
+   * 認証セッションを確保し、ユーザーIDを返す
+   *
+   * 保存済みのセッションがあればそのユーザーを使用し、
+   * ない場合は匿名ユーザーとしてサインインします。
+   *
+   * @returns サインイン中のユーザーID
+   * @throws {Error} 初期化前に呼び出された場合、またはサインインに失敗した場合
+   */
+  async ensureSession(): Promise<string> {
+    const auth = this.getClient().auth;
+
+    const { data, error } = await auth.getSession();
+    if (error) {
+      throw error;
+    }
+    if (data.session) {
+      return data.session.user.id;
+    }
+
+    const { data: signInData, error: signInError } = await auth.signInAnonymously();
+    if (signInError) {
+      throw signInError;
+    }
+    if (!signInData.user) {
+      throw new Error('Anonymous sign-in did not return a user');
+    }
+
+    console.log('[SupabaseClient] Signed in anonymously');
+    return signInData.user.id;
+  }
+
+  /**
+   * サインイン中のユーザーIDを取得する
+   *
+   * @returns ユーザーID(未サインインの場合はnull)
+   */
+  async getCurrentUserId(): Promise<string | null> {
+    const { data } = await this.getClient().auth.getSession();
+    return data.session?.user.id ?? null;
+  }
+
+  /**
+   * メールアドレスにサインイン用のワンタイムコードを送信する
+   *
+   * 匿名ユーザーでサインイン中の場合は、同じユーザーにメールアドレスを紐付けます。
+   * (匿名ユーザーで保存したブックマークをメールアドレスのアカウントに引き継ぐため)
+   *
+   * @param email - メールアドレス
+   * @throws {Error} 送信に失敗した場合
+   */
+  async requestEmailSignIn(email: string): Promise<void> {
+    const auth = this.getClient().auth;
+
+    const { data } = await auth.getSession();
+    const { error } = data.session?.user.is_anonymous
+      ? await auth.updateUser({ email })
+      : await auth.signInWithOtp({ email });
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  /**
+   * メールで受け取ったワンタイムコードを検証してサインインする
+   *
+   * @param email - メールアドレス
+   * @param token - メールで受け取ったワンタイムコード
+   * @returns サインインしたユーザーID
+   * @throws {Error} 検証に失敗した場合
+   */
+  async verifyEmailSignIn(email: string, token: string): Promise<string> {
+    const auth = this.getClient().auth;
+
+    // 匿名ユーザーへの紐付けはメールアドレス変更として検証する
+    const { data: sessionData } = await auth.getSession();
+    const type = sessionData.session?.user.is_anonymous ? 'email_change' : 'email';
+
+    const { data, error } = await auth.verifyOtp({ email, token, type });
+    if (error) {
+      throw error;
+    }
+    if (!data.user) {
+      throw new Error('Email verification did not return a user');
+    }
+
+    return data.user.id;
+  }
+
+  /**
+   * サインアウトする
+   *
+   * 保存済みのセッションも削除されるため、次回のensureSession()では
+   * 新しい匿名ユーザーとしてサインインします。
+   */
+  async signOut(): Promise<void> {
+    const { error } = await this.getClient().auth.signOut();
+    if (error) {
+      throw error;
+    }
+  }
+
   /**
    * クライアントをリセットする(テスト用)
    *
@@ -258,6 +367,19 @@ export function getSupabaseInstance(): SupabaseSDKClient {
   return getDefaultSupabaseClient().getClient();
 }
 
+/**
+ * 認証セッションを確保する(ショートカット関数)
+ *
+ * デフォルトクライアントでセッションを確保し、ユーザーIDを返します。
+ * 未サインインの場合は匿名ユーザーとしてサインインします。
+ *
+ * @returns サインイン中のユーザーID
+ * @throws {Error} 初期化前に呼び出された場合、またはサインインに失敗した場合
+ */
+export async function ensureSupabaseSession(): Promise<string> {
+  return getDefaultSupabaseClient().ensureSession();
+}
+
 /**
  * Supabaseクライアントをリセットする(テスト用)
  *
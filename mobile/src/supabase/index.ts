@@ -18,6 +18,7 @@ export {
   initializeSupabaseClient,
   getSupabaseInstance,
   resetSupabaseClient,
+  ensureSupabaseSession,
 } from './client';
 
 // 型定義
@@ -27,11 +28,35 @@ export {
   NewsItem,
   NewsData,
   NewsRow,
+  NewsRegion,
+  NewsSourceArticle,
+  NewsSourceArticleRow,
+  NewsCategory,
+  NewsCategorySummary,
+  NewsCategorySummaryRow,
+  NewsArchiveRow,
+  NewsArchiveEntry,
+  NewsArchivePage,
   TermItem,
   TermsData,
   TermRow,
+  TermQuizQuestion,
+  TermQuiz,
+  TermQuizRow,
+  TermExplanationRow,
+  GlossaryTermSource,
+  GlossaryTerm,
+  SearchResultType,
+  SearchResult,
+  SearchResultRow,
   BatchMetadata,
   BatchMetadataRow,
+  BookmarkType,
+  Bookmark,
+  BookmarkRow,
+  BookmarkInsertRow,
+  ReviewCard,
+  ReviewStateRow,
   SupabaseQueryResult,
   // 設定型
   SupabaseClientConfig,
@@ -43,16 +68,44 @@ export {
 // クエリ関数
 export {
   getTodayNews,
+  getNewsSourceArticles,
+  getNewsCategorySummaries,
+  NEWS_CATEGORY_ORDER,
+  getNewsByDateRange,
+  getNewsArchive,
+  NEWS_ARCHIVE_PAGE_SIZE,
   getTodayTerms,
+  getTermQuizzes,
+  getDeliveredTermNames,
+  getTermByName,
+  getTermExplanation,
   getBatchMetadata,
+  getBookmarks,
+  insertBookmark,
+  deleteBookmark,
+  getReviewStates,
+  upsertReviewStates,
+  searchContent,
+  SEARCH_RESULT_LIMIT,
+  MIN_SEARCH_QUERY_LENGTH,
   SupabaseQueryError,
   // Repository層用関数
   formatDateToJST,
   newsRowToNewsData,
   termRowsToTermsData,
+  termQuizRowsToTermQuizzes,
   batchMetadataRowToBatchMetadata,
+  bookmarkRowToBookmark,
+  bookmarkToInsertRow,
+  reviewStateRowToReviewCard,
+  reviewCardToReviewStateRow,
+  searchResultRowToSearchResult,
   fetchTodayNewsForRepository,
+  fetchNewsByDateForRepository,
+  fetchNewsArchiveForRepository,
   fetchTodayTermsForRepository,
+  fetchTodayTermQuizzesForRepository,
+  fetchGlossaryTermForRepository,
   fetchBatchMetadataForCache,
 } from './queries';
 
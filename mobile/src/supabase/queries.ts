@@ -11,12 +11,36 @@
  * - 8.2: 今日の用語取得クエリ
  * - 8.3: バッチメタデータ取得クエリ
  * - 8.5: エラーハンドリング
+ * - 過去ニュースのアーカイブ閲覧(日付範囲・カーソルページング)
+ * - ニュース要約の出典記事取得
+ * - テーマ別カテゴリ要約取得
+ * - ユーザーごとのブックマークの取得・追加・削除
+ * - ユーザーごとの用語の復習状態の取得・保存
+ * - 用語クイズの取得
+ * - 過去の用語・ニュースの横断検索
+ * - ニュース要約内の用語リンク用の用語集取得
  *
  * @see https://supabase.com/docs/reference/javascript/select
  */
 
 import { getSupabaseInstance } from './client';
-import { NewsRow, TermRow, BatchMetadataRow, TABLES } from './types';
+import {
+  NewsRow,
+  NewsArchiveRow,
+  NewsSourceArticleRow,
+  NewsCategory,
+  NewsCategorySummaryRow,
+  TermRow,
+  TermQuizRow,
+  TermExplanationRow,
+  BatchMetadataRow,
+  BookmarkRow,
+  BookmarkInsertRow,
+  BookmarkType,
+  ReviewStateRow,
+  SearchResultRow,
+  TABLES,
+} from './types';
 
 /**
  * 日付フォーマットの検証
@@ -25,6 +49,48 @@ import { NewsRow, TermRow, BatchMetadataRow, TABLES } from './types';
  */
 const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
 
+/**
+ * ニュースアーカイブ1ページあたりの件数(デフォルト)
+ *
+ * 2週間分を1ページとして取得します。
+ */
+export const NEWS_ARCHIVE_PAGE_SIZE = 14;
+
+/**
+ * テーマ別カテゴリの表示順
+ */
+export const NEWS_CATEGORY_ORDER: readonly NewsCategory[] = [
+  'markets',
+  'macro',
+  'earnings',
+  'crypto',
+  'fx',
+];
+
+/**
+ * ニュースアーカイブ一覧で取得する列
+ *
+ * 要約本文(約2000文字×2)は一覧では不要なため除外し、転送量を抑えます。
+ */
+const NEWS_ARCHIVE_COLUMNS = 'date, world_news_title, japan_news_title';
+
+/**
+ * 横断検索で取得する件数(デフォルト)
+ */
+export const SEARCH_RESULT_LIMIT = 20;
+
+/**
+ * 横断検索を実行する検索語の最小文字数
+ *
+ * 1文字では日本語のほぼ全ての要約に一致してしまうため、2文字以上で検索します。
+ */
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+/**
+ * 横断検索のRPC関数名
+ */
+const SEARCH_CONTENT_FUNCTION = 'search_content';
+
 /**
  * Supabaseクエリエラー
  *
@@ -120,11 +186,13 @@ export async function getTodayNews(date: string): Promise<NewsRow | null> {
 
   // newsテーブルから日付でフィルタして1件取得
   // date列はPRIMARY KEYなので必ず0または1件
+  // 管理者が非公開にしたニュースはRLSでも除外されるが、明示的に公開中のみに絞り込む
   // @see https://supabase.com/docs/reference/javascript/single
   const { data, error } = await supabase
     .from(TABLES.NEWS)
     .select('*')
     .eq('date', date)
+    .eq('published', true)
     .maybeSingle();
 
   // エラーがある場合はスロー
@@ -136,6 +204,206 @@ export async function getTodayNews(date: string): Promise<NewsRow | null> {
   return data as NewsRow | null;
 }
 
+/**
+ * 公開中のニュースの更新日時を取得する
+ *
+ * 過去日付のキャッシュの再検証に使用します。
+ * 再生成・管理者の編集で更新日時が変わるため、キャッシュの更新日時と比較して変更を検出します。
+ * 要約本文を転送しないよう、更新日時の列のみを取得します。
+ *
+ * @param date - 取得する日付 (YYYY-MM-DD形式)
+ * @returns 更新日時(ISO 8601形式、公開中のニュースがない場合はnull)
+ * @throws {Error} 無効な日付形式の場合
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getNewsUpdatedAt(date: string): Promise<string | null> {
+  // 日付形式を検証
+  validateDateFormat(date);
+
+  const supabase = getSupabaseInstance();
+
+  // 管理者が非公開にしたニュースはRLSでも除外されるが、明示的に公開中のみに絞り込む
+  const { data, error } = await supabase
+    .from(TABLES.NEWS)
+    .select('updated_at')
+    .eq('date', date)
+    .eq('published', true)
+    .maybeSingle();
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as Pick<NewsRow, 'updated_at'> | null)?.updated_at ?? null;
+}
+
+/**
+ * ニュースの出典記事を取得する
+ *
+ * 指定された日付のニュース要約に使用した元記事を取得します。
+ * 表示順の昇順でソートされます。
+ *
+ * @param date - 取得する日付 (YYYY-MM-DD形式)
+ * @returns NewsSourceArticleRow[] (見つからない場合は空配列)
+ * @throws {Error} 無効な日付形式の場合
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getNewsSourceArticles(
+  date: string
+): Promise<NewsSourceArticleRow[]> {
+  // 日付形式を検証
+  validateDateFormat(date);
+
+  const supabase = getSupabaseInstance();
+
+  // 地域別の振り分けはnewsRowToNewsDataで行うため、ここでは表示順のみでソート
+  const { data, error } = await supabase
+    .from(TABLES.NEWS_SOURCE_ARTICLES)
+    .select('*')
+    .eq('news_date', date)
+    .order('position', { ascending: true });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as NewsSourceArticleRow[]) ?? [];
+}
+
+/**
+ * ニュースのテーマ別カテゴリ要約を取得する
+ *
+ * 指定された日付のカテゴリ別要約を取得します。
+ * 表示順はnewsRowToNewsDataでNEWS_CATEGORY_ORDERに従って並べ替えます。
+ *
+ * @param date - 取得する日付 (YYYY-MM-DD形式)
+ * @returns NewsCategorySummaryRow[] (見つからない場合は空配列)
+ * @throws {Error} 無効な日付形式の場合
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getNewsCategorySummaries(
+  date: string
+): Promise<NewsCategorySummaryRow[]> {
+  // 日付形式を検証
+  validateDateFormat(date);
+
+  const supabase = getSupabaseInstance();
+
+  const { data, error } = await supabase
+    .from(TABLES.NEWS_CATEGORY_SUMMARIES)
+    .select('*')
+    .eq('news_date', date);
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as NewsCategorySummaryRow[]) ?? [];
+}
+
+/**
+ * 日付範囲でニュースを取得する
+ *
+ * fromDate以上toDate以下のニュースを日付の降順(新しい順)で取得します。
+ * カレンダー表示など、期間を指定して過去ニュースを参照する場合に使用します。
+ *
+ * @param fromDate - 開始日 (YYYY-MM-DD形式、この日を含む)
+ * @param toDate - 終了日 (YYYY-MM-DD形式、この日を含む)
+ * @returns NewsRow[] (見つからない場合は空配列)
+ * @throws {Error} 無効な日付形式、または開始日が終了日より後の場合
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ *
+ * @example
+ * ```typescript
+ * const rows = await getNewsByDateRange('2026-01-01', '2026-01-07');
+ * rows.forEach(row => console.log(row.date, row.world_news_title));
+ * ```
+ */
+export async function getNewsByDateRange(
+  fromDate: string,
+  toDate: string
+): Promise<NewsRow[]> {
+  // 日付形式を検証
+  validateDateFormat(fromDate);
+  validateDateFormat(toDate);
+
+  // YYYY-MM-DD形式は文字列比較で大小関係を判定できる
+  if (fromDate > toDate) {
+    throw new Error(
+      `Invalid date range: "${fromDate}" is after "${toDate}".`
+    );
+  }
+
+  const supabase = getSupabaseInstance();
+
+  // @see https://supabase.com/docs/reference/javascript/gte
+  const { data, error } = await supabase
+    .from(TABLES.NEWS)
+    .select('*')
+    .gte('date', fromDate)
+    .lte('date', toDate)
+    .order('date', { ascending: false });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as NewsRow[]) ?? [];
+}
+
+/**
+ * ニュースアーカイブ一覧を取得する(カーソルページング)
+ *
+ * beforeDateより古いニュースを日付の降順で最大limit件取得します。
+ * beforeDateを省略した場合は最新の日付から取得します。
+ * 一覧表示用のため、要約本文を除いた列のみを取得します。
+ *
+ * @param beforeDate - カーソル (YYYY-MM-DD形式、この日を含まない。省略時は最新から)
+ * @param limit - 取得件数 (デフォルト: NEWS_ARCHIVE_PAGE_SIZE)
+ * @returns NewsArchiveRow[] (見つからない場合は空配列)
+ * @throws {Error} 無効な日付形式、または無効な件数の場合
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ *
+ * @example
+ * ```typescript
+ * const firstPage = await getNewsArchive();
+ * const lastDate = firstPage[firstPage.length - 1].date;
+ * const secondPage = await getNewsArchive(lastDate);
+ * ```
+ */
+export async function getNewsArchive(
+  beforeDate?: string | null,
+  limit: number = NEWS_ARCHIVE_PAGE_SIZE
+): Promise<NewsArchiveRow[]> {
+  if (beforeDate) {
+    validateDateFormat(beforeDate);
+  }
+
+  if (!Number.isInteger(limit) || limit <= 0) {
+    throw new Error(`Invalid limit: ${limit}. Expected a positive integer.`);
+  }
+
+  const supabase = getSupabaseInstance();
+
+  let query = supabase.from(TABLES.NEWS).select(NEWS_ARCHIVE_COLUMNS);
+
+  // カーソル指定時はその日付より古いものに絞り込む
+  // @see https://supabase.com/docs/reference/javascript/lt
+  if (beforeDate) {
+    query = query.lt('date', beforeDate);
+  }
+
+  const { data, error } = await query
+    .order('date', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as NewsArchiveRow[]) ?? [];
+}
+
 /**
  * 今日の用語を取得する
  *
@@ -164,11 +432,13 @@ export async function getTodayTerms(date: string): Promise<TermRow[]> {
 
   // termsテーブルから日付でフィルタして取得
   // created_at昇順でソート(バッチ処理で登録された順)
+  // 管理者が非公開にした用語はRLSでも除外されるが、明示的に公開中のみに絞り込む
   // @see https://supabase.com/docs/reference/javascript/order
   const { data, error } = await supabase
     .from(TABLES.TERMS)
     .select('*')
     .eq('date', date)
+    .eq('published', true)
     .order('created_at', { ascending: true });
 
   // エラーがある場合はスロー
@@ -180,6 +450,118 @@ export async function getTodayTerms(date: string): Promise<TermRow[]> {
   return (data as TermRow[]) ?? [];
 }
 
+/**
+ * 指定日の用語クイズを取得する
+ *
+ * term_quizzesテーブルから指定日の設問を、用語ごとの設問番号順で取得します。
+ *
+ * @param date - 日付(YYYY-MM-DD形式)
+ * @returns TermQuizRow[] (見つからない場合は空配列)
+ * @throws {SupabaseQueryError} 日付形式が不正な場合、またはSupabaseエラー発生時
+ */
+export async function getTermQuizzes(date: string): Promise<TermQuizRow[]> {
+  validateDateFormat(date);
+
+  const supabase = getSupabaseInstance();
+
+  // 用語の配信順(id昇順)で取得し、設問番号は変換時に整列する
+  const { data, error } = await supabase
+    .from(TABLES.TERM_QUIZZES)
+    .select('*')
+    .eq('date', date)
+    .order('id', { ascending: true });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as TermQuizRow[]) ?? [];
+}
+
+/**
+ * 配信済みの全ての用語名を取得する
+ *
+ * terms_historyテーブルから、過去に配信した用語名を重複なしで取得します。
+ * 配信履歴には管理者が非公開にした用語名も残るため、公開中の用語がある用語名のみに絞り込みます。
+ * ニュース要約内の用語リンクの検出に使用します。
+ *
+ * @returns 用語名の配列(配信履歴がない場合は空配列)
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getDeliveredTermNames(): Promise<string[]> {
+  const supabase = getSupabaseInstance();
+
+  const [historyResult, termsResult] = await Promise.all([
+    supabase.from(TABLES.TERMS_HISTORY).select('term_name'),
+    supabase.from(TABLES.TERMS).select('name').eq('published', true),
+  ]);
+
+  if (historyResult.error) {
+    throwSupabaseError(historyResult.error);
+  }
+  if (termsResult.error) {
+    throwSupabaseError(termsResult.error);
+  }
+
+  const historyRows = (historyResult.data as { term_name: string }[]) ?? [];
+  const publishedNames = new Set(
+    ((termsResult.data as { name: string }[]) ?? []).map((row) => row.name)
+  );
+
+  return Array.from(new Set(historyRows.map((row) => row.term_name))).filter((name) =>
+    publishedNames.has(name)
+  );
+}
+
+/**
+ * 用語名で用語を取得する
+ *
+ * 同じ用語が複数回配信されている場合は、最新の配信日のものを取得します。
+ *
+ * @param name - 用語名
+ * @returns TermRow or null (見つからない場合)
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getTermByName(name: string): Promise<TermRow | null> {
+  const supabase = getSupabaseInstance();
+
+  const { data, error } = await supabase
+    .from(TABLES.TERMS)
+    .select('*')
+    .eq('name', name)
+    .order('date', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as TermRow[] | null)?.[0] ?? null;
+}
+
+/**
+ * 生成済みの用語解説を取得する
+ *
+ * @param termName - 用語名
+ * @returns TermExplanationRow or null (見つからない場合)
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getTermExplanation(termName: string): Promise<TermExplanationRow | null> {
+  const supabase = getSupabaseInstance();
+
+  const { data, error } = await supabase
+    .from(TABLES.TERM_EXPLANATIONS)
+    .select('*')
+    .eq('term_name', termName)
+    .limit(1);
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as TermExplanationRow[] | null)?.[0] ?? null;
+}
+
 /**
  * バッチメタデータを取得する
  *
@@ -219,14 +601,186 @@ export async function getBatchMetadata(): Promise<BatchMetadataRow | null> {
   return data as BatchMetadataRow | null;
 }
 
+/**
+ * ユーザーのブックマーク一覧を取得する
+ *
+ * 保存日時の降順(新しい順)でソートされます。
+ * RLSにより本人のレコードのみ参照できますが、明示的にユーザーIDでも絞り込みます。
+ *
+ * @param userId - ユーザーID
+ * @returns BookmarkRow[] (見つからない場合は空配列)
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getBookmarks(userId: string): Promise<BookmarkRow[]> {
+  const supabase = getSupabaseInstance();
+
+  const { data, error } = await supabase
+    .from(TABLES.BOOKMARKS)
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as BookmarkRow[]) ?? [];
+}
+
+/**
+ * ブックマークを追加する
+ *
+ * 同じ対象が保存済みの場合は何もしません(オフライン時の再送で重複させないため)。
+ *
+ * @param row - 追加するブックマーク
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function insertBookmark(row: BookmarkInsertRow): Promise<void> {
+  const supabase = getSupabaseInstance();
+
+  const { error } = await supabase
+    .from(TABLES.BOOKMARKS)
+    .upsert(row, { onConflict: 'user_id,item_type,item_key', ignoreDuplicates: true });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+}
+
+/**
+ * ブックマークを削除する
+ *
+ * 対象が存在しない場合もエラーにはしません。
+ *
+ * @param userId - ユーザーID
+ * @param type - ブックマークの種類
+ * @param key - 対象を識別するキー
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function deleteBookmark(
+  userId: string,
+  type: BookmarkType,
+  key: string
+): Promise<void> {
+  const supabase = getSupabaseInstance();
+
+  const { error } = await supabase
+    .from(TABLES.BOOKMARKS)
+    .delete()
+    .eq('user_id', userId)
+    .eq('item_type', type)
+    .eq('item_key', key);
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+}
+
+/**
+ * ユーザーの用語の復習状態を取得する
+ *
+ * RLSにより本人のレコードのみ参照できますが、明示的にユーザーIDでも絞り込みます。
+ *
+ * @param userId - ユーザーID
+ * @returns ReviewStateRow[] (見つからない場合は空配列)
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function getReviewStates(userId: string): Promise<ReviewStateRow[]> {
+  const supabase = getSupabaseInstance();
+
+  const { data, error } = await supabase
+    .from(TABLES.REVIEW_STATES)
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as ReviewStateRow[]) ?? [];
+}
+
+/**
+ * 用語の復習状態を保存する
+ *
+ * 同じ用語の状態が保存済みの場合は上書きします。
+ *
+ * @param rows - 保存する復習状態
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function upsertReviewStates(rows: ReviewStateRow[]): Promise<void> {
+  if (rows.length === 0) {
+    return;
+  }
+
+  const supabase = getSupabaseInstance();
+
+  const { error } = await supabase
+    .from(TABLES.REVIEW_STATES)
+    .upsert(rows, { onConflict: 'user_id,term_name' });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+}
+
+/**
+ * 過去の全ての用語・ニュースを横断検索する
+ *
+ * search_content RPC関数で用語(名前・説明)とニュース(タイトル・要約)を検索し、
+ * 関連度の高い順に取得します。検索語は前後の空白を除いて使用します。
+ *
+ * @param query - 検索語
+ * @param limit - 取得件数(デフォルト: SEARCH_RESULT_LIMIT)
+ * @returns SearchResultRow[] (検索語が短い場合・見つからない場合は空配列)
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ *
+ * @example
+ * ```typescript
+ * const rows = await searchContent('PER');
+ * rows.forEach((row) => console.log(row.title, row.snippet));
+ * ```
+ */
+export async function searchContent(
+  query: string,
+  limit: number = SEARCH_RESULT_LIMIT
+): Promise<SearchResultRow[]> {
+  const searchQuery = query.trim();
+  if (searchQuery.length < MIN_SEARCH_QUERY_LENGTH) {
+    return [];
+  }
+
+  const supabase = getSupabaseInstance();
+
+  const { data, error } = await supabase.rpc(SEARCH_CONTENT_FUNCTION, {
+    search_query: searchQuery,
+    result_limit: limit,
+  });
+
+  if (error) {
+    throwSupabaseError(error);
+  }
+
+  return (data as SearchResultRow[]) ?? [];
+}
+
 // =====================================================
 // データ変換関数 (Repository層用)
 // =====================================================
 
 import {
   NewsData,
+  NewsRegion,
+  NewsSourceArticle,
+  NewsCategorySummary,
+  NewsArchivePage,
   TermsData,
+  TermQuiz,
+  GlossaryTerm,
   BatchMetadata,
+  Bookmark,
+  ReviewCard,
+  SearchResult,
   SupabaseQueryResult,
 } from './types';
 
@@ -247,27 +801,82 @@ export function formatDateToJST(date: Date): string {
   return jstDate.toISOString().split('T')[0];
 }
 
+/**
+ * 出典記事の行データから指定地域の出典一覧を抽出する
+ *
+ * @param rows - Supabaseから取得したNewsSourceArticleRow配列
+ * @param region - 地域区分
+ * @returns 表示順にソートされた出典一覧
+ */
+function toNewsSourceArticles(
+  rows: NewsSourceArticleRow[],
+  region: NewsRegion
+): NewsSourceArticle[] {
+  return rows
+    .filter((row) => row.region === region)
+    .sort((a, b) => a.position - b.position)
+    .map((row) => ({
+      title: row.title,
+      outlet: row.outlet,
+      url: row.url,
+      publishedAt: row.published_at,
+    }));
+}
+
+/**
+ * カテゴリ別要約の行データを表示順の要約一覧に変換する
+ *
+ * @param rows - Supabaseから取得したNewsCategorySummaryRow配列
+ * @returns NEWS_CATEGORY_ORDERの順にソートされたカテゴリ別要約
+ */
+function toNewsCategorySummaries(rows: NewsCategorySummaryRow[]): NewsCategorySummary[] {
+  return rows
+    .filter((row) => NEWS_CATEGORY_ORDER.includes(row.category))
+    .sort(
+      (a, b) =>
+        NEWS_CATEGORY_ORDER.indexOf(a.category) - NEWS_CATEGORY_ORDER.indexOf(b.category)
+    )
+    .map((row) => ({
+      category: row.category,
+      title: row.title,
+      summary: row.summary,
+      articleCount: row.article_count,
+      updatedAt: row.updated_at,
+    }));
+}
+
 /**
  * NewsRowをNewsDataに変換する
  *
  * Supabaseのテーブル構造からアプリ表示用のデータ構造に変換
+ * 出典記事の行データを渡した場合は、地域別に各ニュースへ紐付ける
+ * カテゴリ別要約の行データを渡した場合は、表示順に並べて付与する
  *
  * @param row - Supabaseから取得したNewsRow
+ * @param sourceRows - Supabaseから取得したNewsSourceArticleRow配列(省略時は出典なし)
+ * @param categoryRows - Supabaseから取得したNewsCategorySummaryRow配列(省略時はカテゴリなし)
  * @returns アプリ表示用のNewsData
  */
-export function newsRowToNewsData(row: NewsRow): NewsData {
+export function newsRowToNewsData(
+  row: NewsRow,
+  sourceRows: NewsSourceArticleRow[] = [],
+  categoryRows: NewsCategorySummaryRow[] = []
+): NewsData {
   return {
     date: row.date,
     worldNews: {
       title: row.world_news_title,
       summary: row.world_news_summary,
       updatedAt: row.updated_at,
+      sources: toNewsSourceArticles(sourceRows, 'world'),
     },
     japanNews: {
       title: row.japan_news_title,
       summary: row.japan_news_summary,
       updatedAt: row.updated_at,
+      sources: toNewsSourceArticles(sourceRows, 'japan'),
     },
+    categories: toNewsCategorySummaries(categoryRows),
     createdAt: row.created_at,
     updatedAt: row.updated_at,
   };
@@ -298,6 +907,52 @@ export function termRowsToTermsData(rows: TermRow[], date: string): TermsData {
   };
 }
 
+/**
+ * TermQuizRow[]をTermQuiz[]に変換する
+ *
+ * 設問ごとの行を用語単位にまとめます。用語は最初に出現した順、設問は設問番号順に並べます。
+ *
+ * @param rows - Supabaseから取得したTermQuizRow配列
+ * @returns 用語ごとのクイズ配列
+ */
+export function termQuizRowsToTermQuizzes(rows: TermQuizRow[]): TermQuiz[] {
+  const rowsByTerm = new Map<string, TermQuizRow[]>();
+  for (const row of rows) {
+    const termRows = rowsByTerm.get(row.term_name) ?? [];
+    termRows.push(row);
+    rowsByTerm.set(row.term_name, termRows);
+  }
+
+  return Array.from(rowsByTerm, ([termName, termRows]) => ({
+    termName,
+    questions: [...termRows]
+      .sort((a, b) => a.question_index - b.question_index)
+      .map((row) => ({
+        question: row.question,
+        choices: row.choices,
+        correctIndex: row.correct_index,
+        explanation: row.explanation,
+      })),
+  }));
+}
+
+/**
+ * SearchResultRowをSearchResultに変換する
+ *
+ * @param row - search_content RPC関数の戻り値の行
+ * @returns アプリ表示用の検索結果
+ */
+export function searchResultRowToSearchResult(row: SearchResultRow): SearchResult {
+  return {
+    type: row.item_type,
+    date: row.item_date,
+    region: row.region,
+    title: row.title,
+    snippet: row.snippet,
+    rank: row.rank,
+  };
+}
+
 /**
  * BatchMetadataRowをBatchMetadataに変換する
  *
@@ -313,6 +968,88 @@ export function batchMetadataRowToBatchMetadata(row: BatchMetadataRow): BatchMet
   };
 }
 
+/**
+ * BookmarkRowをBookmarkに変換する
+ *
+ * @param row - Supabaseから取得したBookmarkRow
+ * @returns アプリ表示用のBookmark
+ */
+export function bookmarkRowToBookmark(row: BookmarkRow): Bookmark {
+  return {
+    type: row.item_type,
+    key: row.item_key,
+    title: row.title,
+    description: row.description,
+    difficulty: row.difficulty,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * BookmarkをBookmarkInsertRowに変換する
+ *
+ * @param bookmark - アプリ表示用のBookmark
+ * @param userId - 所有ユーザーのID
+ * @returns bookmarksテーブルへの追加用の行
+ */
+export function bookmarkToInsertRow(bookmark: Bookmark, userId: string): BookmarkInsertRow {
+  return {
+    user_id: userId,
+    item_type: bookmark.type,
+    item_key: bookmark.key,
+    title: bookmark.title,
+    description: bookmark.description,
+    difficulty: bookmark.difficulty,
+    created_at: bookmark.createdAt,
+  };
+}
+
+/**
+ * ReviewStateRowをReviewCardに変換する
+ *
+ * @param row - Supabaseから取得したReviewStateRow
+ * @returns アプリ表示用のReviewCard
+ */
+export function reviewStateRowToReviewCard(row: ReviewStateRow): ReviewCard {
+  return {
+    term: {
+      name: row.term_name,
+      description: row.description,
+      difficulty: row.difficulty,
+    },
+    easeFactor: row.ease_factor,
+    intervalDays: row.interval_days,
+    repetitions: row.repetitions,
+    lapses: row.lapses,
+    dueDate: row.due_date,
+    lastReviewedAt: row.last_reviewed_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * ReviewCardをReviewStateRowに変換する
+ *
+ * @param card - アプリ表示用のReviewCard
+ * @param userId - 所有ユーザーのID
+ * @returns review_statesテーブルへの保存用の行
+ */
+export function reviewCardToReviewStateRow(card: ReviewCard, userId: string): ReviewStateRow {
+  return {
+    user_id: userId,
+    term_name: card.term.name,
+    description: card.term.description,
+    difficulty: card.term.difficulty,
+    ease_factor: card.easeFactor,
+    interval_days: card.intervalDays,
+    repetitions: card.repetitions,
+    lapses: card.lapses,
+    due_date: card.dueDate,
+    last_reviewed_at: card.lastReviewedAt,
+    updated_at: card.updatedAt,
+  };
+}
+
 /**
  * 今日のニュースを取得する (Repository層用)
  *
@@ -322,13 +1059,103 @@ export function batchMetadataRowToBatchMetadata(row: BatchMetadataRow): BatchMet
 export async function fetchTodayNewsForRepository(): Promise<SupabaseQueryResult<NewsData>> {
   const today = formatDateToJST(new Date());
 
-  const newsRow = await getTodayNews(today);
+  return fetchNewsByDateForRepository(today);
+}
+
+/**
+ * 指定日のニュースを取得する (Repository層用)
+ *
+ * 過去ニュースのアーカイブ閲覧で使用します。
+ *
+ * @param date - 取得する日付 (YYYY-MM-DD形式)
+ * @returns SupabaseQueryResult<NewsData>
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function fetchNewsByDateForRepository(
+  date: string
+): Promise<SupabaseQueryResult<NewsData>> {
+  const [newsRow, sourceRows, categoryRows] = await Promise.all([
+    getTodayNews(date),
+    fetchNewsSourceArticlesSafely(date),
+    fetchNewsCategorySummariesSafely(date),
+  ]);
 
   if (!newsRow) {
     return { data: null, exists: false };
   }
 
-  return { data: newsRowToNewsData(newsRow), exists: true };
+  return {
+    data: newsRowToNewsData(newsRow, sourceRows, categoryRows),
+    exists: true,
+  };
+}
+
+/**
+ * 出典記事を取得する (失敗時は空配列)
+ *
+ * 出典は補足情報のため、取得に失敗してもニュース本体の表示は妨げない
+ *
+ * @param date - 取得する日付 (YYYY-MM-DD形式)
+ * @returns NewsSourceArticleRow[]
+ */
+async function fetchNewsSourceArticlesSafely(
+  date: string
+): Promise<NewsSourceArticleRow[]> {
+  try {
+    return await getNewsSourceArticles(date);
+  } catch (error) {
+    console.warn('[Supabase] Failed to fetch news source articles:', error);
+    return [];
+  }
+}
+
+/**
+ * カテゴリ別要約を取得する (失敗時は空配列)
+ *
+ * カテゴリ別要約も補足情報のため、取得に失敗してもニュース本体の表示は妨げない
+ *
+ * @param date - 取得する日付 (YYYY-MM-DD形式)
+ * @returns NewsCategorySummaryRow[]
+ */
+async function fetchNewsCategorySummariesSafely(
+  date: string
+): Promise<NewsCategorySummaryRow[]> {
+  try {
+    return await getNewsCategorySummaries(date);
+  } catch (error) {
+    console.warn('[Supabase] Failed to fetch news category summaries:', error);
+    return [];
+  }
+}
+
+/**
+ * ニュースアーカイブの1ページを取得する (Repository層用)
+ *
+ * limit+1件を取得して次ページの有無を判定し、
+ * 次ページがある場合は最後の項目の日付を次のカーソルとして返します。
+ *
+ * @param beforeDate - カーソル (この日付より古いものを取得。省略時は最新から)
+ * @param limit - 1ページの件数 (デフォルト: NEWS_ARCHIVE_PAGE_SIZE)
+ * @returns NewsArchivePage
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function fetchNewsArchiveForRepository(
+  beforeDate?: string | null,
+  limit: number = NEWS_ARCHIVE_PAGE_SIZE
+): Promise<NewsArchivePage> {
+  const rows = await getNewsArchive(beforeDate, limit + 1);
+
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    entries: pageRows.map((row) => ({
+      date: row.date,
+      worldNewsTitle: row.world_news_title,
+      japanNewsTitle: row.japan_news_title,
+    })),
+    nextCursor: hasMore ? pageRows[pageRows.length - 1].date : null,
+  };
 }
 
 /**
@@ -349,6 +1176,67 @@ export async function fetchTodayTermsForRepository(): Promise<SupabaseQueryResul
   return { data: termRowsToTermsData(termRows, today), exists: true };
 }
 
+/**
+ * 今日の用語クイズを取得する (Repository層用)
+ *
+ * @returns SupabaseQueryResult<TermQuiz[]>
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function fetchTodayTermQuizzesForRepository(): Promise<
+  SupabaseQueryResult<TermQuiz[]>
+> {
+  const today = formatDateToJST(new Date());
+
+  const rows = await getTermQuizzes(today);
+
+  if (rows.length === 0) {
+    return { data: null, exists: false };
+  }
+
+  return { data: termQuizRowsToTermQuizzes(rows), exists: true };
+}
+
+/**
+ * 用語集の用語を取得する (Repository層用)
+ *
+ * 配信済みの用語(terms)を優先し、ない場合は生成済みの解説(term_explanations)を返します。
+ *
+ * @param name - 用語名
+ * @returns SupabaseQueryResult<GlossaryTerm>
+ * @throws {SupabaseQueryError} Supabaseエラー発生時
+ */
+export async function fetchGlossaryTermForRepository(
+  name: string
+): Promise<SupabaseQueryResult<GlossaryTerm>> {
+  const term = await getTermByName(name);
+  if (term) {
+    return {
+      data: {
+        name: term.name,
+        description: term.description,
+        difficulty: term.difficulty,
+        source: 'delivered',
+      },
+      exists: true,
+    };
+  }
+
+  const explanation = await getTermExplanation(name);
+  if (explanation) {
+    return {
+      data: {
+        name: explanation.term_name,
+        description: explanation.description,
+        difficulty: explanation.difficulty,
+        source: 'generated',
+      },
+      exists: true,
+    };
+  }
+
+  return { data: null, exists: false };
+}
+
 /**
  * バッチメタデータを取得する (キャッシュ用)
  *
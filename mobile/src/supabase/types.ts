@@ -19,6 +19,31 @@
  */
 export type Difficulty = 'beginner' | 'intermediate' | 'advanced';
 
+/**
+ * ニュースの地域区分
+ */
+export type NewsRegion = 'world' | 'japan';
+
+/**
+ * ニュースのテーマ別カテゴリ
+ * (市況・マクロ経済/中央銀行・企業決算・暗号資産・為替)
+ */
+export type NewsCategory = 'markets' | 'macro' | 'earnings' | 'crypto' | 'fx';
+
+/**
+ * 要約に使用した元記事(出典)
+ */
+export interface NewsSourceArticle {
+  /** 元記事のタイトル */
+  title: string;
+  /** 配信元メディア名 */
+  outlet: string;
+  /** 元記事のURL */
+  url: string;
+  /** 元記事の公開日時(ISO 8601文字列、不明な場合はnull) */
+  publishedAt: string | null;
+}
+
 /**
  * ニュースアイテム(世界・日本共通)
  */
@@ -29,6 +54,24 @@ export interface NewsItem {
   summary: string;
   /** 更新日時(ISO 8601文字列) */
   updatedAt: string;
+  /** 要約に使用した元記事(出典機能追加前のキャッシュには含まれない) */
+  sources?: NewsSourceArticle[];
+}
+
+/**
+ * テーマ別カテゴリのニュース要約
+ */
+export interface NewsCategorySummary {
+  /** カテゴリ */
+  category: NewsCategory;
+  /** 要約タイトル */
+  title: string;
+  /** 要約本文(約400文字) */
+  summary: string;
+  /** 要約に使用した話題の数 */
+  articleCount: number;
+  /** 更新日時(ISO 8601文字列) */
+  updatedAt: string;
 }
 
 /**
@@ -42,6 +85,8 @@ export interface NewsData {
   worldNews: NewsItem;
   /** 日本のニュース */
   japanNews: NewsItem;
+  /** テーマ別カテゴリの要約(カテゴリ機能追加前のキャッシュには含まれない) */
+  categories?: NewsCategorySummary[];
   /** 作成日時(ISO 8601文字列) */
   createdAt: string;
   /** 更新日時(ISO 8601文字列) */
@@ -69,6 +114,59 @@ export interface NewsRow {
   updated_at: string;
 }
 
+/**
+ * news_source_articles テーブルの行型(Supabase PostgreSQL)
+ *
+ * @property id - 自動生成されるID(SERIAL PRIMARY KEY)
+ * @property news_date - 対象のニュース日付(YYYY-MM-DD形式)
+ * @property region - 地域区分(world, japan)
+ * @property title - 元記事のタイトル
+ * @property outlet - 配信元メディア名
+ * @property url - 元記事のURL
+ * @property published_at - 元記事の公開日時(ISO 8601形式、null許容)
+ * @property position - 表示順
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface NewsSourceArticleRow {
+  id: number;
+  news_date: string;
+  region: NewsRegion;
+  title: string;
+  outlet: string;
+  url: string;
+  published_at: string | null;
+  position: number;
+  created_at: string;
+}
+
+/**
+ * news_category_summaries テーブルの行型(Supabase PostgreSQL)
+ *
+ * @property news_date - 対象のニュース日付(YYYY-MM-DD形式)
+ * @property category - カテゴリ(markets, macro, earnings, crypto, fx)
+ * @property title - 要約タイトル
+ * @property summary - 要約本文(約400文字)
+ * @property article_count - 要約に使用した話題の数
+ * @property created_at - 作成日時(ISO 8601形式)
+ * @property updated_at - 更新日時(ISO 8601形式)
+ */
+export interface NewsCategorySummaryRow {
+  news_date: string;
+  category: NewsCategory;
+  title: string;
+  summary: string;
+  article_count: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * ニュースアーカイブ一覧用の行型
+ *
+ * 一覧表示では要約本文が不要なため、日付とタイトル列のみを取得します。
+ */
+export type NewsArchiveRow = Pick<NewsRow, 'date' | 'world_news_title' | 'japan_news_title'>;
+
 /**
  * 用語アイテム
  */
@@ -114,6 +212,251 @@ export interface TermRow {
   created_at: string;
 }
 
+/**
+ * 用語クイズの設問(4択、アプリ表示用)
+ */
+export interface TermQuizQuestion {
+  /** 問題文 */
+  question: string;
+  /** 選択肢(4つ) */
+  choices: string[];
+  /** 正解の選択肢のインデックス(0始まり) */
+  correctIndex: number;
+  /** 正解の解説 */
+  explanation: string;
+}
+
+/**
+ * 用語クイズ(アプリ表示用)
+ */
+export interface TermQuiz {
+  /** 対象の用語名 */
+  termName: string;
+  /** 設問(2〜3問) */
+  questions: TermQuizQuestion[];
+}
+
+/**
+ * term_quizzes テーブルの行型(Supabase PostgreSQL)
+ *
+ * 設問ごとに1行で保存されています。
+ *
+ * @property id - 自動生成されるID(SERIAL PRIMARY KEY)
+ * @property date - 配信日(YYYY-MM-DD形式)
+ * @property term_name - 対象の用語名
+ * @property question_index - 用語内の設問番号(0始まり)
+ * @property question - 問題文
+ * @property choices - 選択肢(JSONB配列)
+ * @property correct_index - 正解の選択肢のインデックス(0始まり)
+ * @property explanation - 正解の解説
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface TermQuizRow {
+  id: number;
+  date: string;
+  term_name: string;
+  question_index: number;
+  question: string;
+  choices: string[];
+  correct_index: number;
+  explanation: string;
+  created_at: string;
+}
+
+/**
+ * term_explanations テーブルの行型(Supabase PostgreSQL)
+ *
+ * termsテーブルに解説がない用語について、オンデマンドで生成した解説です。
+ *
+ * @property term_name - 用語名(PRIMARY KEY)
+ * @property description - 生成した解説文
+ * @property difficulty - 難易度レベル
+ * @property model - 生成に使用したモデル名
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface TermExplanationRow {
+  term_name: string;
+  description: string;
+  difficulty: Difficulty;
+  model: string;
+  created_at: string;
+}
+
+/**
+ * 用語解説の取得元
+ * - delivered: 日次で配信した用語
+ * - generated: オンデマンドで生成した解説
+ */
+export type GlossaryTermSource = 'delivered' | 'generated';
+
+/**
+ * 用語集の用語(アプリ表示用)
+ *
+ * ニュース要約内の用語リンクから開く用語詳細に表示します。
+ */
+export interface GlossaryTerm {
+  /** 用語名 */
+  name: string;
+  /** 解説文 */
+  description: string;
+  /** 難易度 */
+  difficulty: Difficulty;
+  /** 解説の取得元 */
+  source: GlossaryTermSource;
+}
+
+/**
+ * 検索結果の種類
+ * - term: 投資用語
+ * - news: 世界または日本のニュース
+ */
+export type SearchResultType = 'term' | 'news';
+
+/**
+ * search_content RPC関数の戻り値の行型(Supabase PostgreSQL)
+ *
+ * @property item_type - 検索結果の種類
+ * @property item_date - 配信日(YYYY-MM-DD形式)
+ * @property region - ニュースの地域(用語の場合はnull)
+ * @property title - 用語名またはニュースのタイトル
+ * @property snippet - 説明・要約のうち検索語の周辺を切り出した抜粋
+ * @property rank - 関連度スコア(大きいほど関連が高い)
+ */
+export interface SearchResultRow {
+  item_type: SearchResultType;
+  item_date: string;
+  region: NewsRegion | null;
+  title: string;
+  snippet: string;
+  rank: number;
+}
+
+/**
+ * 検索結果(アプリ表示用)
+ */
+export interface SearchResult {
+  /** 検索結果の種類 */
+  type: SearchResultType;
+  /** 配信日(YYYY-MM-DD形式) */
+  date: string;
+  /** ニュースの地域(用語の場合はnull) */
+  region: NewsRegion | null;
+  /** 用語名またはニュースのタイトル */
+  title: string;
+  /** 説明・要約のうち検索語の周辺の抜粋 */
+  snippet: string;
+  /** 関連度スコア */
+  rank: number;
+}
+
+/**
+ * ブックマークの種類
+ * - term: 投資用語
+ * - news: 日付単位のニュース
+ */
+export type BookmarkType = 'term' | 'news';
+
+/**
+ * ブックマーク(アプリ表示用)
+ */
+export interface Bookmark {
+  /** ブックマークの種類 */
+  type: BookmarkType;
+  /** 対象を識別するキー(用語: 用語名、ニュース: YYYY-MM-DD形式の日付) */
+  key: string;
+  /** 一覧表示用のタイトル(用語: 用語名、ニュース: 世界のニュースのタイトル) */
+  title: string;
+  /** 一覧表示用の説明(用語: 解説文、ニュース: 日本のニュースのタイトル) */
+  description: string;
+  /** 用語の難易度(ニュースの場合はnull) */
+  difficulty: Difficulty | null;
+  /** 保存日時(ISO 8601文字列) */
+  createdAt: string;
+}
+
+/**
+ * bookmarks テーブルの行型(Supabase PostgreSQL)
+ *
+ * @property id - 自動生成されるID(SERIAL PRIMARY KEY)
+ * @property user_id - 所有ユーザーのID(Supabase AuthのユーザーID)
+ * @property item_type - ブックマークの種類(term, news)
+ * @property item_key - 対象を識別するキー(用語名 / YYYY-MM-DD形式の日付)
+ * @property title - 一覧表示用のタイトル
+ * @property description - 一覧表示用の説明
+ * @property difficulty - 用語の難易度(ニュースの場合はnull)
+ * @property created_at - 作成日時(ISO 8601形式)
+ */
+export interface BookmarkRow {
+  id: number;
+  user_id: string;
+  item_type: BookmarkType;
+  item_key: string;
+  title: string;
+  description: string;
+  difficulty: Difficulty | null;
+  created_at: string;
+}
+
+/**
+ * bookmarks テーブルへの追加時の行型
+ *
+ * idはSERIALで自動採番されるため含まない
+ */
+export type BookmarkInsertRow = Omit<BookmarkRow, 'id'>;
+
+/**
+ * 用語の復習カード(間隔反復学習の状態、アプリ表示用)
+ *
+ * 用語名(term.name)でカードを識別します。
+ */
+export interface ReviewCard {
+  /** 復習する用語 */
+  term: TermItem;
+  /** 易しさ係数(SM-2のEF。大きいほど復習間隔が伸びやすい) */
+  easeFactor: number;
+  /** 現在の復習間隔(日数) */
+  intervalDays: number;
+  /** 連続正解回数 */
+  repetitions: number;
+  /** 忘れた(「もう一度」と評価した)回数 */
+  lapses: number;
+  /** 次回の復習日(YYYY-MM-DD形式、JST) */
+  dueDate: string;
+  /** 最後に復習した日時(ISO 8601文字列、未復習の場合はnull) */
+  lastReviewedAt: string | null;
+  /** 状態の更新日時(ISO 8601文字列、同期時の新旧判定に使用) */
+  updatedAt: string;
+}
+
+/**
+ * review_states テーブルの行型(Supabase PostgreSQL)
+ *
+ * @property user_id - 所有ユーザーのID(Supabase AuthのユーザーID)
+ * @property term_name - 用語名
+ * @property description - 用語の解説文
+ * @property difficulty - 用語の難易度
+ * @property ease_factor - 易しさ係数
+ * @property interval_days - 現在の復習間隔(日数)
+ * @property repetitions - 連続正解回数
+ * @property lapses - 忘れた回数
+ * @property due_date - 次回の復習日(YYYY-MM-DD形式)
+ * @property last_reviewed_at - 最後に復習した日時(ISO 8601形式)
+ * @property updated_at - 状態の更新日時(ISO 8601形式)
+ */
+export interface ReviewStateRow {
+  user_id: string;
+  term_name: string;
+  description: string;
+  difficulty: Difficulty;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_date: string;
+  last_reviewed_at: string | null;
+  updated_at: string;
+}
+
 /**
  * batch_metadata テーブルの行型
  *
@@ -150,6 +493,32 @@ export interface SupabaseQueryResult<T> {
   exists: boolean;
 }
 
+/**
+ * ニュースアーカイブの一覧項目
+ *
+ * 過去ニュース一覧の表示用。要約本文は含まず、日付とタイトルのみを保持します。
+ */
+export interface NewsArchiveEntry {
+  /** 日付(YYYY-MM-DD形式) */
+  date: string;
+  /** 世界ニュースのタイトル */
+  worldNewsTitle: string;
+  /** 日本ニュースのタイトル */
+  japanNewsTitle: string;
+}
+
+/**
+ * ニュースアーカイブのページ
+ *
+ * 日付の降順(新しい順)に並んだ一覧と、次ページ取得用のカーソルを保持します。
+ */
+export interface NewsArchivePage {
+  /** 一覧項目(日付の降順) */
+  entries: NewsArchiveEntry[];
+  /** 次ページ取得用カーソル(この日付より古いものを取得する。最終ページの場合はnull) */
+  nextCursor: string | null;
+}
+
 /**
  * Supabase接続設定
  */
@@ -175,10 +544,22 @@ export const DEFAULT_SUPABASE_CLIENT_CONFIG: Omit<SupabaseClientConfig, 'url' |
 export const TABLES = {
   /** ニューステーブル */
   NEWS: 'news',
+  /** ニュース出典記事テーブル */
+  NEWS_SOURCE_ARTICLES: 'news_source_articles',
+  /** ニュースカテゴリ別要約テーブル */
+  NEWS_CATEGORY_SUMMARIES: 'news_category_summaries',
   /** 投資用語テーブル */
   TERMS: 'terms',
   /** 用語履歴テーブル */
   TERMS_HISTORY: 'terms_history',
   /** バッチメタデータテーブル */
   BATCH_METADATA: 'batch_metadata',
+  /** ブックマークテーブル */
+  BOOKMARKS: 'bookmarks',
+  /** 用語の復習状態テーブル */
+  REVIEW_STATES: 'review_states',
+  /** 用語クイズテーブル */
+  TERM_QUIZZES: 'term_quizzes',
+  /** 生成した用語解説テーブル */
+  TERM_EXPLANATIONS: 'term_explanations',
 } as const;
@@ -307,4 +307,84 @@ describe('TermsScreen', () => {
       expect(retryButton.props.accessibilityRole).toBe('button');
     });
   });
+
+  describe('ブックマーク', () => {
+    it('ブックマーク操作を渡さない場合は保存ボタンを表示しない', () => {
+      const viewModelResult = createMockViewModelResult();
+      const { queryByTestId } = renderWithTheme(
+        <TermsScreen viewModelResult={viewModelResult} />
+      );
+
+      expect(queryByTestId('term-bookmark-0')).toBeNull();
+    });
+
+    it('保存ボタンをタップすると用語の保存を切り替える', () => {
+      const viewModelResult = createMockViewModelResult();
+      const bookmarks = {
+        isBookmarked: jest.fn((_type: string, key: string) => key === mockTerms[1].name),
+        toggleTermBookmark: jest.fn(),
+      };
+      const { getByTestId } = renderWithTheme(
+        <TermsScreen viewModelResult={viewModelResult} bookmarks={bookmarks} />
+      );
+
+      expect(getByTestId('term-bookmark-0').props.accessibilityState).toEqual({
+        selected: false,
+      });
+      expect(getByTestId('term-bookmark-1').props.accessibilityState).toEqual({
+        selected: true,
+      });
+
+      fireEvent.press(getByTestId('term-bookmark-0'));
+      expect(bookmarks.toggleTermBookmark).toHaveBeenCalledWith(mockTerms[0]);
+    });
+  });
+
+  describe('復習', () => {
+    it('復習日を迎えた用語がある場合は件数付きの復習ボタンを表示する', () => {
+      const viewModelResult = createMockViewModelResult();
+      const onStartReview = jest.fn();
+      const { getByTestId, getByText } = renderWithTheme(
+        <TermsScreen viewModelResult={viewModelResult} review={{ dueCount: 4, onStartReview }} />
+      );
+
+      expect(getByText('復習する（4件）')).toBeTruthy();
+      fireEvent.press(getByTestId('terms-review-button'));
+      expect(onStartReview).toHaveBeenCalledTimes(1);
+    });
+
+    it('復習日を迎えた用語がない場合は復習ボタンを表示しない', () => {
+      const viewModelResult = createMockViewModelResult();
+      const { queryByTestId } = renderWithTheme(
+        <TermsScreen
+          viewModelResult={viewModelResult}
+          review={{ dueCount: 0, onStartReview: jest.fn() }}
+        />
+      );
+
+      expect(queryByTestId('terms-review-button')).toBeNull();
+    });
+  });
+
+  describe('クイズ', () => {
+    it('用語がある場合はクイズボタンを表示する', () => {
+      const viewModelResult = createMockViewModelResult();
+      const onStartQuiz = jest.fn();
+      const { getByTestId } = renderWithTheme(
+        <TermsScreen viewModelResult={viewModelResult} quiz={{ onStartQuiz }} />
+      );
+
+      fireEvent.press(getByTestId('terms-quiz-button'));
+      expect(onStartQuiz).toHaveBeenCalledTimes(1);
+    });
+
+    it('用語が未配信の場合はクイズボタンを表示しない', () => {
+      const viewModelResult = createMockViewModelResult({ terms: [] });
+      const { queryByTestId } = renderWithTheme(
+        <TermsScreen viewModelResult={viewModelResult} quiz={{ onStartQuiz: jest.fn() }} />
+      );
+
+      expect(queryByTestId('terms-quiz-button')).toBeNull();
+    });
+  });
 });
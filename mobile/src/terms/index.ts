@@ -24,4 +24,4 @@ export {
   type TermsViewModelResult,
 } from './terms-viewmodel';
 
-export { TermsScreen } from './terms-screen';
+export { TermsScreen, getDifficultyInfo } from './terms-screen';
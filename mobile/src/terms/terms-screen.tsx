@@ -11,6 +11,9 @@
  * - 7.5: エラー時リトライオプション提供
  * - 6.3: iOS各サイズ対応
  * - 6.4: 可読性確保
+ * - 用語のブックマーク(保存)
+ * - 間隔反復学習による用語の復習への導線
+ * - 今日の用語の4択クイズへの導線
  *
  * @see design.md - Architecture - Terms Feature
  */
@@ -27,6 +30,30 @@ import {
 import { useThemeColors } from '../theme';
 import { TermItem, Difficulty } from '../supabase/types';
 import { TermsViewModelResult } from './terms-viewmodel';
+import { BookmarksViewModelResult } from '../bookmarks/bookmarks-viewmodel';
+
+/**
+ * 用語画面で使用するブックマーク操作
+ */
+type TermBookmarkActions = Pick<BookmarksViewModelResult, 'isBookmarked' | 'toggleTermBookmark'>;
+
+/**
+ * 用語画面で使用する復習の情報と操作
+ */
+interface TermReviewActions {
+  /** 復習日を迎えた用語の数 */
+  dueCount: number;
+  /** 復習画面を開く関数 */
+  onStartReview: () => void;
+}
+
+/**
+ * 用語画面で使用するクイズの操作
+ */
+interface TermQuizActions {
+  /** クイズ画面を開く関数 */
+  onStartQuiz: () => void;
+}
 
 /**
  * TermsScreenのプロパティ
@@ -35,6 +62,12 @@ import { TermsViewModelResult } from './terms-viewmodel';
 interface TermsScreenProps {
   /** ViewModelから提供される状態と関数 */
   viewModelResult: TermsViewModelResult;
+  /** ブックマーク操作(省略時は保存ボタンを表示しない) */
+  bookmarks?: TermBookmarkActions;
+  /** 復習の情報と操作(省略時は復習ボタンを表示しない) */
+  review?: TermReviewActions;
+  /** クイズの操作(省略時はクイズボタンを表示しない) */
+  quiz?: TermQuizActions;
 }
 
 /**
@@ -42,7 +75,7 @@ interface TermsScreenProps {
  * @param difficulty - 難易度
  * @returns 日本語表示と色
  */
-const getDifficultyInfo = (
+export const getDifficultyInfo = (
   difficulty: Difficulty
 ): { label: string; color: string } => {
   switch (difficulty) {
@@ -65,6 +98,8 @@ interface TermCardProps {
   term: TermItem;
   /** カードのインデックス */
   index: number;
+  /** ブックマーク操作(省略時は保存ボタンを表示しない) */
+  bookmarks?: TermBookmarkActions;
 }
 
 /**
@@ -74,12 +109,15 @@ interface TermCardProps {
  * アクセシビリティ対応:
  * - VoiceOver向けにaccessibilityLabelを設定
  * - 用語名と難易度を読み上げ
+ * - 保存・保存解除はカードのアクションとして操作可能
  *
  * @see Requirements: 5.2, 6.4
  */
-function TermCard({ term, index }: TermCardProps) {
+function TermCard({ term, index, bookmarks }: TermCardProps) {
   const colors = useThemeColors();
   const difficultyInfo = getDifficultyInfo(term.difficulty);
+  const bookmarked = bookmarks?.isBookmarked('term', term.name) ?? false;
+  const bookmarkLabel = bookmarked ? '保存を解除' : '保存';
 
   // アクセシビリティ用のラベル生成
   // VoiceOverがカード全体の内容を読み上げるために使用
@@ -98,6 +136,12 @@ function TermCard({ term, index }: TermCardProps) {
       accessible={true}
       accessibilityLabel={accessibilityLabel}
       accessibilityRole="text"
+      accessibilityActions={bookmarks ? [{ name: 'bookmark', label: bookmarkLabel }] : undefined}
+      onAccessibilityAction={(event) => {
+        if (event.nativeEvent.actionName === 'bookmark') {
+          bookmarks?.toggleTermBookmark(term);
+        }
+      }}
     >
       {/* ヘッダー: 用語名と難易度バッジ */}
       <View style={styles.cardHeader}>
@@ -120,6 +164,23 @@ function TermCard({ term, index }: TermCardProps) {
         >
           <Text style={styles.difficultyText}>{difficultyInfo.label}</Text>
         </View>
+
+        {/* 保存ボタン */}
+        {bookmarks && (
+          <TouchableOpacity
+            testID={`term-bookmark-${index}`}
+            style={styles.bookmarkButton}
+            onPress={() => bookmarks.toggleTermBookmark(term)}
+            activeOpacity={0.7}
+            accessibilityRole="button"
+            accessibilityLabel={bookmarkLabel}
+            accessibilityState={{ selected: bookmarked }}
+          >
+            <Text style={[styles.bookmarkText, { color: colors.primary }]}>
+              {bookmarked ? '★ 保存済み' : '☆ 保存'}
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {/* 解説文 */}
@@ -130,6 +191,54 @@ function TermCard({ term, index }: TermCardProps) {
   );
 }
 
+/**
+ * 復習ボタンコンポーネント
+ * 復習日を迎えた用語がある場合に、件数と復習画面を開くボタンを表示
+ */
+function ReviewBanner({ dueCount, onStartReview }: TermReviewActions) {
+  const colors = useThemeColors();
+
+  return (
+    <TouchableOpacity
+      testID="terms-review-button"
+      style={[styles.reviewBanner, { backgroundColor: colors.primary }]}
+      onPress={onStartReview}
+      activeOpacity={0.7}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel={`復習する用語が${dueCount}件あります。復習を始める`}
+    >
+      <Text style={[styles.reviewBannerText, { color: colors.primaryText }]}>
+        復習する（{dueCount}件）
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+/**
+ * クイズボタンコンポーネント
+ * 今日の用語のクイズ画面を開くボタンを表示
+ */
+function QuizButton({ onStartQuiz }: TermQuizActions) {
+  const colors = useThemeColors();
+
+  return (
+    <TouchableOpacity
+      testID="terms-quiz-button"
+      style={[styles.quizButton, { borderColor: colors.primary }]}
+      onPress={onStartQuiz}
+      activeOpacity={0.7}
+      accessible={true}
+      accessibilityRole="button"
+      accessibilityLabel="今日の用語のクイズに挑戦する"
+    >
+      <Text style={[styles.reviewBannerText, { color: colors.primary }]}>
+        今日の用語クイズに挑戦
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
 /**
  * ローディング表示コンポーネント
  * データ取得中にスピナーを表示
@@ -215,7 +324,7 @@ function ErrorView({ message, retryable, onRetry }: ErrorViewProps) {
  * @param props - TermsScreenProps
  * @returns 用語画面のReactコンポーネント
  */
-export function TermsScreen({ viewModelResult }: TermsScreenProps) {
+export function TermsScreen({ viewModelResult, bookmarks, review, quiz }: TermsScreenProps) {
   const colors = useThemeColors();
   const { state, loading, terms, error, retry } = viewModelResult;
 
@@ -259,10 +368,15 @@ export function TermsScreen({ viewModelResult }: TermsScreenProps) {
         contentContainerStyle={styles.scrollContent}
         showsVerticalScrollIndicator={true}
       >
+        {/* 復習ボタン(復習日を迎えた用語がある場合のみ) */}
+        {review && review.dueCount > 0 && (
+          <ReviewBanner dueCount={review.dueCount} onStartReview={review.onStartReview} />
+        )}
+
         {/* 用語カードリスト */}
         {terms && terms.length > 0 ? (
           terms.map((term, index) => (
-            <TermCard key={index} term={term} index={index} />
+            <TermCard key={index} term={term} index={index} bookmarks={bookmarks} />
           ))
         ) : (
           // データがない場合のメッセージ
@@ -272,6 +386,9 @@ export function TermsScreen({ viewModelResult }: TermsScreenProps) {
             </Text>
           </View>
         )}
+
+        {/* クイズボタン(今日の用語がある場合のみ) */}
+        {quiz && terms && terms.length > 0 && <QuizButton onStartQuiz={quiz.onStartQuiz} />}
       </ScrollView>
     </View>
   );
@@ -392,6 +509,33 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
   },
 
+  // 保存ボタン
+  bookmarkButton: {
+    marginLeft: 12,
+    paddingVertical: 4,
+  },
+  bookmarkText: {
+    fontSize: TYPOGRAPHY.META_FONT_SIZE,
+    fontWeight: '600',
+  },
+
+  // 復習ボタン
+  reviewBanner: {
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  quizButton: {
+    borderRadius: 12,
+    borderWidth: 1,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  reviewBannerText: {
+    fontSize: TYPOGRAPHY.BODY_FONT_SIZE,
+    fontWeight: '600',
+  },
+
   // 解説文
   // 16pt以上のフォント、1.5倍以上の行間で可読性を確保
   description: {
@@ -0,0 +1,64 @@
+-- Migration: Create news_source_articles table
+-- Description: ニュース要約の元になった記事(出典)を保存。読者が要約の内容を元記事で確認できるようにする
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- news_source_articlesテーブル: 要約に使用した元記事の一覧を保存
+-- ニュースバッチ処理でnewsテーブルのupsert後に、日付単位で入れ替えられる
+CREATE TABLE IF NOT EXISTS news_source_articles (
+  -- 自動採番のID
+  id SERIAL PRIMARY KEY,
+
+  -- 対象のニュース日付（newsテーブルの主キーを参照）
+  -- ニュースが削除された場合は出典も削除する
+  news_date DATE NOT NULL REFERENCES news (date) ON DELETE CASCADE,
+
+  -- どちらの要約の出典か（世界ニュース / 日本ニュース）
+  region TEXT NOT NULL CHECK (region IN ('world', 'japan')),
+
+  -- 元記事のタイトル
+  title TEXT NOT NULL,
+
+  -- 配信元メディア名（例: Reuters, 日本経済新聞）
+  outlet TEXT NOT NULL,
+
+  -- 元記事のURL
+  url TEXT NOT NULL,
+
+  -- 元記事の公開日時（取得元が提供しない場合はNULL）
+  published_at TIMESTAMPTZ,
+
+  -- 表示順（要約に渡した順序）
+  position INTEGER NOT NULL DEFAULT 0,
+
+  -- レコード作成日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- 日付・地域単位での取得を高速化するためのインデックス
+-- フロントエンドでニュース表示時に出典一覧を取得するクエリで使用
+CREATE INDEX IF NOT EXISTS idx_news_source_articles_news_date ON news_source_articles (news_date, region, position);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE news_source_articles IS 'Source articles used to generate each daily news summary';
+COMMENT ON COLUMN news_source_articles.news_date IS 'Date of the news summary (references news.date)';
+COMMENT ON COLUMN news_source_articles.region IS 'Which summary the article belongs to (world or japan)';
+COMMENT ON COLUMN news_source_articles.title IS 'Title of the source article';
+COMMENT ON COLUMN news_source_articles.outlet IS 'Name of the publishing outlet';
+COMMENT ON COLUMN news_source_articles.url IS 'URL of the source article';
+COMMENT ON COLUMN news_source_articles.published_at IS 'Publication timestamp of the source article';
+COMMENT ON COLUMN news_source_articles.position IS 'Display order within the summary';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 他のテーブルと同様に、読み取りは全員許可、書き込みはservice_role keyのみ
+
+ALTER TABLE news_source_articles ENABLE ROW LEVEL SECURITY;
+
+-- 読み取りポリシー: 全てのユーザー（anon key含む）が全レコードを読み取り可能
+CREATE POLICY "news_source_articles_select_all" ON news_source_articles
+  FOR SELECT
+  USING (true);
+
+-- コメント
+COMMENT ON POLICY "news_source_articles_select_all" ON news_source_articles IS 'Allow all users to read news source articles';
@@ -0,0 +1,56 @@
+-- Migration: Create news_category_summaries table
+-- Description: テーマ別(市況・マクロ/中央銀行・企業決算・暗号資産・為替)のニュース要約を保存
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- news_category_summariesテーブル: 日付・カテゴリごとの短い要約を保存
+-- ニュースバッチ処理でnewsテーブルのupsert後に、日付単位で入れ替えられる
+CREATE TABLE IF NOT EXISTS news_category_summaries (
+  -- 対象のニュース日付（newsテーブルの主キーを参照）
+  -- ニュースが削除された場合はカテゴリ要約も削除する
+  news_date DATE NOT NULL REFERENCES news (date) ON DELETE CASCADE,
+
+  -- カテゴリ
+  -- markets: 市況, macro: マクロ経済・中央銀行, earnings: 企業決算, crypto: 暗号資産, fx: 為替
+  category TEXT NOT NULL CHECK (category IN ('markets', 'macro', 'earnings', 'crypto', 'fx')),
+
+  -- カテゴリ要約のタイトル
+  title TEXT NOT NULL,
+
+  -- カテゴリ要約の本文（約400文字）
+  summary TEXT NOT NULL,
+
+  -- 要約に使用した記事数
+  article_count INTEGER NOT NULL DEFAULT 0,
+
+  -- レコード作成日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- レコード更新日時
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 日付とカテゴリの組み合わせで一意
+  PRIMARY KEY (news_date, category)
+);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE news_category_summaries IS 'Short themed news summaries per day and category';
+COMMENT ON COLUMN news_category_summaries.news_date IS 'Date of the news summary (references news.date)';
+COMMENT ON COLUMN news_category_summaries.category IS 'Topic category (markets, macro, earnings, crypto, fx)';
+COMMENT ON COLUMN news_category_summaries.title IS 'Title of the category summary';
+COMMENT ON COLUMN news_category_summaries.summary IS 'Category summary text (approximately 400 characters)';
+COMMENT ON COLUMN news_category_summaries.article_count IS 'Number of articles used for the summary';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 他のテーブルと同様に、読み取りは全員許可、書き込みはservice_role keyのみ
+
+ALTER TABLE news_category_summaries ENABLE ROW LEVEL SECURITY;
+
+-- 読み取りポリシー: 全てのユーザー（anon key含む）が全レコードを読み取り可能
+CREATE POLICY "news_category_summaries_select_all" ON news_category_summaries
+  FOR SELECT
+  USING (true);
+
+-- コメント
+COMMENT ON POLICY "news_category_summaries_select_all" ON news_category_summaries IS 'Allow all users to read news category summaries';
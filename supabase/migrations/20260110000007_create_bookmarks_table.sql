@@ -0,0 +1,77 @@
+-- Migration: Create bookmarks table
+-- Description: ユーザーごとの用語・ニュースのブックマーク(保存)を管理。本人のレコードのみ読み書き可能にする
+-- Reference: https://supabase.com/docs/guides/auth/row-level-security
+
+-- bookmarksテーブル: ユーザーが保存した用語・ニュースを記録
+-- モバイルアプリから匿名ユーザーまたはメールアドレスでサインインしたユーザーが直接書き込む
+CREATE TABLE IF NOT EXISTS bookmarks (
+  -- 自動採番のID
+  id SERIAL PRIMARY KEY,
+
+  -- 所有ユーザー（Supabase Authのユーザー）
+  -- 省略時はリクエストしたユーザーのIDを設定し、ユーザー削除時はブックマークも削除する
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+
+  -- ブックマークの種類（用語 / ニュース）
+  item_type TEXT NOT NULL CHECK (item_type IN ('term', 'news')),
+
+  -- 対象を識別するキー（用語: 用語名、ニュース: 日付 YYYY-MM-DD形式）
+  item_key TEXT NOT NULL,
+
+  -- 一覧表示用のタイトル（用語: 用語名、ニュース: 世界のニュースのタイトル）
+  title TEXT NOT NULL,
+
+  -- 一覧表示用の説明（用語: 解説文、ニュース: 日本のニュースのタイトル）
+  description TEXT NOT NULL DEFAULT '',
+
+  -- 用語の難易度（ニュースの場合はNULL）
+  difficulty TEXT CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+
+  -- レコード作成日時（保存日時）
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 同じユーザーが同じ対象を重複して保存しないようにする
+  UNIQUE (user_id, item_type, item_key)
+);
+
+-- ユーザー単位で保存日時の新しい順に取得するためのインデックス
+-- 「保存済み」タブの一覧取得クエリで使用
+CREATE INDEX IF NOT EXISTS idx_bookmarks_user_created_at ON bookmarks (user_id, created_at DESC);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE bookmarks IS 'Terms and news saved by each user';
+COMMENT ON COLUMN bookmarks.user_id IS 'Owner of the bookmark (references auth.users.id)';
+COMMENT ON COLUMN bookmarks.item_type IS 'Type of the bookmarked item (term or news)';
+COMMENT ON COLUMN bookmarks.item_key IS 'Identifier of the item (term name or news date)';
+COMMENT ON COLUMN bookmarks.title IS 'Display title of the bookmarked item';
+COMMENT ON COLUMN bookmarks.description IS 'Display description of the bookmarked item';
+COMMENT ON COLUMN bookmarks.difficulty IS 'Difficulty of the bookmarked term (NULL for news)';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 他のテーブルと異なり、ユーザー自身がanon key + 認証セッションで書き込む
+-- - SELECT / INSERT / DELETE: 本人（auth.uid() = user_id）のレコードのみ許可
+-- - UPDATE: ブックマークは追加・削除のみで更新しないため許可しない
+
+ALTER TABLE bookmarks ENABLE ROW LEVEL SECURITY;
+
+-- 読み取りポリシー: 本人のブックマークのみ読み取り可能
+CREATE POLICY "bookmarks_select_own" ON bookmarks
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 追加ポリシー: 本人のブックマークのみ追加可能
+CREATE POLICY "bookmarks_insert_own" ON bookmarks
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- 削除ポリシー: 本人のブックマークのみ削除可能
+CREATE POLICY "bookmarks_delete_own" ON bookmarks
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- コメント
+COMMENT ON POLICY "bookmarks_select_own" ON bookmarks IS 'Allow users to read their own bookmarks';
+COMMENT ON POLICY "bookmarks_insert_own" ON bookmarks IS 'Allow users to add their own bookmarks';
+COMMENT ON POLICY "bookmarks_delete_own" ON bookmarks IS 'Allow users to delete their own bookmarks';
@@ -0,0 +1,86 @@
+-- Migration: Create review_states table
+-- Description: ユーザーごとの用語の復習状態(間隔反復学習)を管理。端末間で同期するため本人のレコードのみ読み書き可能にする
+-- Reference: https://supabase.com/docs/guides/auth/row-level-security
+
+-- review_statesテーブル: ユーザーが閲覧した用語ごとの復習スケジュールを記録
+-- モバイルアプリの端末に保存した状態をバックアップ・同期するために使用する
+CREATE TABLE IF NOT EXISTS review_states (
+  -- 所有ユーザー（Supabase Authのユーザー）
+  -- 省略時はリクエストしたユーザーのIDを設定し、ユーザー削除時は復習状態も削除する
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users (id) ON DELETE CASCADE,
+
+  -- 用語名（ユーザー内で復習カードを識別する）
+  term_name TEXT NOT NULL,
+
+  -- 用語の解説文（カードの裏面に表示）
+  description TEXT NOT NULL,
+
+  -- 用語の難易度
+  difficulty TEXT NOT NULL CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+
+  -- 易しさ係数（SM-2のEF、1.3以上）
+  ease_factor NUMERIC(4, 2) NOT NULL DEFAULT 2.5 CHECK (ease_factor >= 1.3),
+
+  -- 現在の復習間隔（日数）
+  interval_days INTEGER NOT NULL DEFAULT 0 CHECK (interval_days >= 0),
+
+  -- 連続正解回数
+  repetitions INTEGER NOT NULL DEFAULT 0 CHECK (repetitions >= 0),
+
+  -- 忘れた回数
+  lapses INTEGER NOT NULL DEFAULT 0 CHECK (lapses >= 0),
+
+  -- 次回の復習日（JST）
+  due_date DATE NOT NULL,
+
+  -- 最後に復習した日時（未復習の場合はNULL）
+  last_reviewed_at TIMESTAMPTZ,
+
+  -- 状態の更新日時（端末との同期時に新しい方を採用する）
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 同じユーザーの同じ用語は1件のみ
+  PRIMARY KEY (user_id, term_name)
+);
+
+-- ユーザー単位で復習日の近い順に取得するためのインデックス
+CREATE INDEX IF NOT EXISTS idx_review_states_user_due_date ON review_states (user_id, due_date);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE review_states IS 'Spaced-repetition review state of each term seen by each user';
+COMMENT ON COLUMN review_states.user_id IS 'Owner of the review state (references auth.users.id)';
+COMMENT ON COLUMN review_states.term_name IS 'Name of the reviewed term';
+COMMENT ON COLUMN review_states.ease_factor IS 'SM-2 ease factor (>= 1.3)';
+COMMENT ON COLUMN review_states.interval_days IS 'Current review interval in days';
+COMMENT ON COLUMN review_states.due_date IS 'Next review date (JST)';
+COMMENT ON COLUMN review_states.updated_at IS 'Last update time used to resolve sync conflicts';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- ユーザー自身がanon key + 認証セッションで書き込む
+-- - SELECT / INSERT / UPDATE: 本人（auth.uid() = user_id）のレコードのみ許可（upsertにはINSERTとUPDATEが必要）
+-- - DELETE: 復習状態は削除しないため許可しない
+
+ALTER TABLE review_states ENABLE ROW LEVEL SECURITY;
+
+-- 読み取りポリシー: 本人の復習状態のみ読み取り可能
+CREATE POLICY "review_states_select_own" ON review_states
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- 追加ポリシー: 本人の復習状態のみ追加可能
+CREATE POLICY "review_states_insert_own" ON review_states
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- 更新ポリシー: 本人の復習状態のみ更新可能（所有者の変更も禁止）
+CREATE POLICY "review_states_update_own" ON review_states
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- コメント
+COMMENT ON POLICY "review_states_select_own" ON review_states IS 'Allow users to read their own review states';
+COMMENT ON POLICY "review_states_insert_own" ON review_states IS 'Allow users to add their own review states';
+COMMENT ON POLICY "review_states_update_own" ON review_states IS 'Allow users to update their own review states';
@@ -0,0 +1,65 @@
+-- Migration: Create term_quizzes table
+-- Description: 配信した用語ごとの4択クイズ(2〜3問)を保存
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- term_quizzesテーブル: 用語クイズの設問を1問1行で保存
+-- 毎日8:00 JSTの用語バッチ処理で、termsテーブルへのinsert後にinsertされる
+CREATE TABLE IF NOT EXISTS term_quizzes (
+  -- 自動採番のID
+  id SERIAL PRIMARY KEY,
+
+  -- 配信日（YYYY-MM-DD形式、termsテーブルのdateと同じ）
+  date DATE NOT NULL,
+
+  -- 対象の用語名（termsテーブルのname）
+  term_name TEXT NOT NULL,
+
+  -- 用語内の設問番号（0始まり、1用語あたり2〜3問）
+  question_index SMALLINT NOT NULL CHECK (question_index >= 0),
+
+  -- 問題文
+  question TEXT NOT NULL,
+
+  -- 選択肢（文字列のJSON配列、正解1つと誤答3つ）
+  choices JSONB NOT NULL CHECK (jsonb_typeof(choices) = 'array' AND jsonb_array_length(choices) = 4),
+
+  -- 正解の選択肢のインデックス（0始まり）
+  correct_index SMALLINT NOT NULL CHECK (correct_index BETWEEN 0 AND 3),
+
+  -- 正解の解説
+  explanation TEXT NOT NULL,
+
+  -- レコード作成日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 同じ日・同じ用語の設問番号は一意
+  UNIQUE (date, term_name, question_index)
+);
+
+-- 日付での検索を高速化するためのインデックス
+-- 今日のクイズを取得するクエリで使用
+CREATE INDEX IF NOT EXISTS idx_term_quizzes_date ON term_quizzes (date DESC);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE term_quizzes IS 'Multiple-choice quiz questions generated for each daily term';
+COMMENT ON COLUMN term_quizzes.date IS 'Delivery date of the term in YYYY-MM-DD format';
+COMMENT ON COLUMN term_quizzes.term_name IS 'Name of the term the question is about';
+COMMENT ON COLUMN term_quizzes.question_index IS 'Order of the question within the term (0-based)';
+COMMENT ON COLUMN term_quizzes.choices IS 'Answer choices as a JSON array of 4 strings';
+COMMENT ON COLUMN term_quizzes.correct_index IS 'Index of the correct choice (0-based)';
+COMMENT ON COLUMN term_quizzes.explanation IS 'Explanation of the correct answer';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 他のテーブルと同様に、読み取りは全員許可、書き込みはservice_role keyのみ
+
+ALTER TABLE term_quizzes ENABLE ROW LEVEL SECURITY;
+
+-- 読み取りポリシー: 全てのユーザー（anon key含む）が全レコードを読み取り可能
+CREATE POLICY "term_quizzes_select_all" ON term_quizzes
+  FOR SELECT
+  USING (true);
+
+-- コメント
+COMMENT ON POLICY "term_quizzes_select_all" ON term_quizzes IS 'Allow all users to read term quizzes';
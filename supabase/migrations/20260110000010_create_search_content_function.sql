@@ -0,0 +1,124 @@
+-- Migration: Create search_content function
+-- Description: 過去の全ての用語・ニュースを横断検索するための全文検索インデックスとRPC関数
+-- Reference: https://www.postgresql.org/docs/current/pgtrgm.html
+
+-- pg_trgm拡張: 日本語は単語の区切りがなく tsvector の辞書が使えないため、
+-- トライグラム(3文字単位)のインデックスで部分一致・類似度検索を行う
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- 用語名・説明の部分一致検索を高速化するためのGINインデックス
+CREATE INDEX IF NOT EXISTS idx_terms_name_trgm ON terms USING GIN (name gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_terms_description_trgm ON terms USING GIN (description gin_trgm_ops);
+
+-- ニュースのタイトル・要約の部分一致検索を高速化するためのGINインデックス
+CREATE INDEX IF NOT EXISTS idx_news_world_title_trgm ON news USING GIN (world_news_title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_news_world_summary_trgm ON news USING GIN (world_news_summary gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_news_japan_title_trgm ON news USING GIN (japan_news_title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_news_japan_summary_trgm ON news USING GIN (japan_news_summary gin_trgm_ops);
+
+-- search_snippet関数: 本文から検索語の周辺を切り出す
+-- 検索語が見つからない場合(用語名のみの類似一致など)は本文の先頭を返す
+CREATE OR REPLACE FUNCTION search_snippet(body TEXT, search_query TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH located AS (
+    -- 検索語の前に30文字の文脈を残す
+    SELECT GREATEST(strpos(lower(body), lower(search_query)) - 30, 1) AS start
+  )
+  SELECT
+    CASE WHEN located.start > 1 THEN '…' ELSE '' END
+    || substring(body FROM located.start FOR 120)
+    || CASE WHEN located.start + 120 <= char_length(body) THEN '…' ELSE '' END
+  FROM located;
+$$;
+
+-- search_content関数: 用語(名前・説明)とニュース(タイトル・要約)を横断検索する
+-- 部分一致と類似度でスコアを付け、スコアの高い順(同点は新しい順)に返す
+-- 世界・日本のニュースはそれぞれ別の結果として返す
+CREATE OR REPLACE FUNCTION search_content(search_query TEXT, result_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  item_type TEXT,
+  item_date DATE,
+  region TEXT,
+  title TEXT,
+  snippet TEXT,
+  rank REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    -- ILIKEのワイルドカード文字をエスケープする
+    SELECT
+      btrim(search_query) AS text,
+      '%' || replace(replace(replace(btrim(search_query), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+  ),
+  results AS (
+    -- 用語: 用語名の一致を説明の一致より高く評価する
+    SELECT
+      'term'::TEXT AS item_type,
+      t.date AS item_date,
+      NULL::TEXT AS region,
+      t.name AS title,
+      search_snippet(t.description, query.text) AS snippet,
+      (CASE WHEN t.name ILIKE query.pattern THEN 2 ELSE 0 END
+        + CASE WHEN t.description ILIKE query.pattern THEN 1 ELSE 0 END
+        + similarity(t.name, query.text))::REAL AS rank
+    FROM terms t, query
+    WHERE t.name ILIKE query.pattern
+      OR t.description ILIKE query.pattern
+      OR t.name % query.text
+
+    UNION ALL
+
+    -- 世界ニュース
+    SELECT
+      'news'::TEXT,
+      n.date,
+      'world'::TEXT,
+      n.world_news_title,
+      search_snippet(n.world_news_summary, query.text),
+      (CASE WHEN n.world_news_title ILIKE query.pattern THEN 1.5 ELSE 0 END
+        + CASE WHEN n.world_news_summary ILIKE query.pattern THEN 1 ELSE 0 END
+        + word_similarity(query.text, n.world_news_title))::REAL
+    FROM news n, query
+    WHERE n.world_news_title ILIKE query.pattern
+      OR n.world_news_summary ILIKE query.pattern
+
+    UNION ALL
+
+    -- 日本ニュース
+    SELECT
+      'news'::TEXT,
+      n.date,
+      'japan'::TEXT,
+      n.japan_news_title,
+      search_snippet(n.japan_news_summary, query.text),
+      (CASE WHEN n.japan_news_title ILIKE query.pattern THEN 1.5 ELSE 0 END
+        + CASE WHEN n.japan_news_summary ILIKE query.pattern THEN 1 ELSE 0 END
+        + word_similarity(query.text, n.japan_news_title))::REAL
+    FROM news n, query
+    WHERE n.japan_news_title ILIKE query.pattern
+      OR n.japan_news_summary ILIKE query.pattern
+  )
+  SELECT item_type, item_date, region, title, snippet, rank
+  FROM results
+  ORDER BY rank DESC, item_date DESC
+  -- 取得件数は1〜50件に制限する
+  LIMIT LEAST(GREATEST(COALESCE(result_limit, 20), 1), 50);
+$$;
+
+-- コメント
+COMMENT ON FUNCTION search_snippet(TEXT, TEXT) IS 'Extract a snippet of the body around the first match of the search query';
+COMMENT ON FUNCTION search_content(TEXT, INTEGER) IS 'Ranked full-text search across all historical terms and news';
+
+-- ============================================
+-- 権限
+-- ============================================
+-- 関数は呼び出し元の権限(SECURITY INVOKER)で実行されるため、
+-- terms/newsテーブルの読み取りポリシー(全員許可)がそのまま適用される
+
+GRANT EXECUTE ON FUNCTION search_snippet(TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION search_content(TEXT, INTEGER) TO anon, authenticated;
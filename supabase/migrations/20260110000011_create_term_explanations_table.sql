@@ -0,0 +1,45 @@
+-- Migration: Create term_explanations table
+-- Description: ニュース要約内の用語リンクから開かれた用語のうち、termsテーブルに解説がない用語の生成済み解説を保存
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- term_explanationsテーブル: オンデマンドで生成した用語解説のキャッシュ
+-- GET /api/terms/explain が初回の呼び出し時に生成してupsertする
+CREATE TABLE IF NOT EXISTS term_explanations (
+  -- 用語名（terms_historyに記録された配信済みの用語名）
+  -- 1用語につき1件のみ生成する
+  term_name TEXT PRIMARY KEY,
+
+  -- 生成した解説（約500文字）
+  description TEXT NOT NULL,
+
+  -- 難易度レベル（初心者・中級者・上級者）
+  difficulty TEXT NOT NULL CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+
+  -- 生成に使用したモデル名
+  model TEXT NOT NULL,
+
+  -- レコード作成日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE term_explanations IS 'On-demand generated explanations for linked terms missing from the terms table';
+COMMENT ON COLUMN term_explanations.term_name IS 'Name of the previously delivered term (primary key)';
+COMMENT ON COLUMN term_explanations.description IS 'AI-generated explanation of the term (approx. 500 chars)';
+COMMENT ON COLUMN term_explanations.difficulty IS 'Difficulty level: beginner, intermediate, or advanced';
+COMMENT ON COLUMN term_explanations.model IS 'Model used to generate the explanation';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 他のテーブルと同様に、読み取りは全員許可、書き込みはservice_role keyのみ
+
+ALTER TABLE term_explanations ENABLE ROW LEVEL SECURITY;
+
+-- 読み取りポリシー: 全てのユーザー（anon key含む）が全レコードを読み取り可能
+CREATE POLICY "term_explanations_select_all" ON term_explanations
+  FOR SELECT
+  USING (true);
+
+-- コメント
+COMMENT ON POLICY "term_explanations_select_all" ON term_explanations IS 'Allow all users to read generated term explanations';
@@ -0,0 +1,101 @@
+-- Migration: Create batch_runs and batch_run_steps tables
+-- Description: ニュース・用語バッチの実行履歴(ステップごとの処理時間、エラー、トークン使用量)を保存
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- batch_runsテーブル: バッチ実行1回につき1レコード
+-- Vercelの関数実行が終了した後も、過去のバッチで何が起きたかを確認できるようにする
+CREATE TABLE IF NOT EXISTS batch_runs (
+  -- 実行ID（BatchPerformanceMonitorのbatchId）
+  id UUID PRIMARY KEY,
+
+  -- バッチの種類（ニュース・用語）
+  job TEXT NOT NULL CHECK (job IN ('news', 'terms')),
+
+  -- 処理対象の日付（JST、YYYY-MM-DD形式）
+  date DATE NOT NULL,
+
+  -- 実行結果（成功・部分成功・失敗）
+  status TEXT NOT NULL CHECK (status IN ('success', 'partial', 'failure')),
+
+  -- 部分成功の種類（例: world-news-only, two-terms）
+  partial_success_type TEXT,
+
+  -- 実行の開始・終了日時
+  started_at TIMESTAMPTZ NOT NULL,
+  finished_at TIMESTAMPTZ NOT NULL,
+
+  -- 全体の処理時間（ミリ秒）
+  duration_ms INTEGER NOT NULL CHECK (duration_ms >= 0),
+
+  -- 制限時間（5分）内に完了したか
+  within_limit BOOLEAN NOT NULL,
+
+  -- 発生したエラー（[{ type, message, timestamp, source? }]）
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- 操作ごとのトークン使用量（{ operation: { inputTokens, outputTokens, requestCount } }）
+  token_usage JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  -- トークン使用量の合計
+  total_input_tokens INTEGER NOT NULL DEFAULT 0,
+  total_output_tokens INTEGER NOT NULL DEFAULT 0,
+
+  -- レコード作成日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- インデックス: バッチの種類・日付での絞り込みと新しい順の一覧表示用
+CREATE INDEX IF NOT EXISTS idx_batch_runs_job_started_at ON batch_runs (job, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_batch_runs_date ON batch_runs (date DESC);
+
+-- batch_run_stepsテーブル: バッチ実行のステップごとの結果
+CREATE TABLE IF NOT EXISTS batch_run_steps (
+  -- 自動採番ID
+  id BIGSERIAL PRIMARY KEY,
+
+  -- 実行ID（batch_runs.id、実行履歴の削除時に合わせて削除）
+  run_id UUID NOT NULL REFERENCES batch_runs (id) ON DELETE CASCADE,
+
+  -- ステップ名（例: news-fetch, term-generation）
+  step TEXT NOT NULL,
+
+  -- 実行順
+  position INTEGER NOT NULL,
+
+  -- ステップ内でエラーが発生しなかったか
+  success BOOLEAN NOT NULL,
+
+  -- ステップの開始日時
+  started_at TIMESTAMPTZ NOT NULL,
+
+  -- ステップの処理時間（ミリ秒）
+  duration_ms INTEGER NOT NULL CHECK (duration_ms >= 0),
+
+  -- ステップ内で発生したエラー（[{ type, message, timestamp, source? }]）
+  errors JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  -- 同じ実行内でステップの実行順は一意
+  UNIQUE (run_id, position)
+);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE batch_runs IS 'Execution history of news and terms batches';
+COMMENT ON COLUMN batch_runs.id IS 'Run ID (BatchPerformanceMonitor batchId)';
+COMMENT ON COLUMN batch_runs.job IS 'Batch job: news or terms';
+COMMENT ON COLUMN batch_runs.date IS 'Target date of the batch (JST)';
+COMMENT ON COLUMN batch_runs.status IS 'Run result: success, partial, or failure';
+COMMENT ON COLUMN batch_runs.partial_success_type IS 'Partial success classification reported by the batch';
+COMMENT ON COLUMN batch_runs.within_limit IS 'Whether the run completed within the time limit';
+COMMENT ON COLUMN batch_runs.errors IS 'Errors that occurred during the run';
+COMMENT ON COLUMN batch_runs.token_usage IS 'Claude token usage per operation';
+COMMENT ON TABLE batch_run_steps IS 'Per-step timing and errors of batch runs';
+COMMENT ON COLUMN batch_run_steps.position IS 'Execution order of the step within the run';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 実行履歴は運用者向けのデータのため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使うバックエンドのみ可能
+
+ALTER TABLE batch_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE batch_run_steps ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,40 @@
+-- Migration: Create notification_deliveries table
+-- Description: バッチ通知の送信記録(同じ内容の通知の重複送信防止用)
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- notification_deliveriesテーブル: 送信した通知1件につき1レコード
+-- バッチが再実行(リトライ)されても、同じ日付・同じ内容の通知は1回だけ送信する
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  -- 重複判定キー（バッチの種類・日付・重要度・通知内容から生成）
+  dedupe_key TEXT PRIMARY KEY,
+
+  -- バッチの種類（ニュース・用語）
+  job TEXT NOT NULL CHECK (job IN ('news', 'terms')),
+
+  -- 処理対象の日付（JST、YYYY-MM-DD形式）
+  date DATE NOT NULL,
+
+  -- 通知の重要度
+  severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'error')),
+
+  -- 通知タイトル
+  title TEXT NOT NULL,
+
+  -- 送信日時
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- インデックス: 日付での確認・古い記録の削除用
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_date ON notification_deliveries (date DESC);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE notification_deliveries IS 'Sent batch notifications, used to suppress duplicates on retried runs';
+COMMENT ON COLUMN notification_deliveries.dedupe_key IS 'Key derived from job, date, severity and notification content';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 送信記録は運用者向けのデータのため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使うバックエンドのみ可能
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
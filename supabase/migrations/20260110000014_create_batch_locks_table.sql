@@ -0,0 +1,59 @@
+-- Migration: Create batch_locks table
+-- Description: 同じ種類のバッチの重複実行を防ぐためのリース(有効期限付きロック)
+-- Reference: https://www.postgresql.org/docs/current/sql-insert.html#SQL-ON-CONFLICT
+
+-- batch_locksテーブル: 実行中のバッチ1種類につき1レコード
+-- Cronのリトライや手動実行が実行中のバッチと重なった場合に、後から来た実行を拒否する
+-- 関数のクラッシュ等で解放されなかったロックは、有効期限を過ぎると取得し直せる
+CREATE TABLE IF NOT EXISTS batch_locks (
+  -- バッチの種類（ニュース・用語）
+  job TEXT PRIMARY KEY CHECK (job IN ('news', 'terms')),
+
+  -- ロックを保持している実行の識別子
+  holder_id TEXT NOT NULL,
+
+  -- 取得日時
+  acquired_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 有効期限（この日時を過ぎたロックは他の実行が取得できる）
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- acquire_batch_lock関数: ロックを取得できた場合はtrueを返す
+-- レコードがない、または有効期限切れの場合のみ、1つのSQL文でアトミックに取得する
+-- 有効期限の判定にはデータベースの時刻を使用する（関数インスタンス間の時計のずれの影響を受けない）
+CREATE OR REPLACE FUNCTION acquire_batch_lock(
+  lock_job TEXT,
+  lock_holder_id TEXT,
+  lease_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+VOLATILE
+AS $$
+  WITH acquired AS (
+    INSERT INTO batch_locks (job, holder_id, acquired_at, expires_at)
+    VALUES (lock_job, lock_holder_id, NOW(), NOW() + make_interval(secs => lease_seconds))
+    ON CONFLICT (job) DO UPDATE
+      SET holder_id = EXCLUDED.holder_id,
+          acquired_at = EXCLUDED.acquired_at,
+          expires_at = EXCLUDED.expires_at
+      WHERE batch_locks.expires_at <= NOW()
+    RETURNING job
+  )
+  SELECT EXISTS (SELECT 1 FROM acquired);
+$$;
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE batch_locks IS 'Lease rows preventing overlapping runs of the same batch job';
+COMMENT ON COLUMN batch_locks.holder_id IS 'Identifier of the run currently holding the lease';
+COMMENT ON COLUMN batch_locks.expires_at IS 'Lease expiry; an expired lease can be taken over by another run';
+COMMENT ON FUNCTION acquire_batch_lock(TEXT, TEXT, INTEGER) IS 'Atomically acquires the lease for a job if it is free or expired';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- ロックはバックエンドの内部状態のため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使うバックエンドのみ可能
+
+ALTER TABLE batch_locks ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,75 @@
+-- Migration: Create claude_usage table
+-- Description: Claude API呼び出しごとのトークン使用量と料金(予算管理・利用料の集計用)
+-- Reference: https://www.postgresql.org/docs/current/functions-aggregate.html
+
+-- claude_usageテーブル: Claude API呼び出し1回につき1レコード
+-- プロセスの再起動でリセットされるTokenUsageTrackerと異なり、日次・月次の予算判定に使用できる
+CREATE TABLE IF NOT EXISTS claude_usage (
+  -- 自動採番ID
+  id BIGSERIAL PRIMARY KEY,
+
+  -- 呼び出し元の処理（ニュース・用語バッチ、用語の解説生成など）
+  job TEXT NOT NULL CHECK (job IN ('news', 'terms', 'explain', 'other')),
+
+  -- 操作名（例: english-news-summary, term-generation）
+  operation TEXT NOT NULL,
+
+  -- 使用したモデル（APIのレスポンスに含まれるモデル名）
+  model TEXT NOT NULL,
+
+  -- トークン使用量
+  input_tokens INTEGER NOT NULL CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL CHECK (output_tokens >= 0),
+
+  -- 料金（米ドル、記録時点の料金表で計算）
+  cost_usd NUMERIC(12, 6) NOT NULL CHECK (cost_usd >= 0),
+
+  -- 呼び出し日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- インデックス: 期間での集計用
+CREATE INDEX IF NOT EXISTS idx_claude_usage_created_at ON claude_usage (created_at DESC);
+
+-- summarize_claude_usage関数: 期間内の利用量を処理・操作・モデルごとに集計する
+-- 予算判定（今日・今月の利用料）と利用料の集計APIで使用する
+CREATE OR REPLACE FUNCTION summarize_claude_usage(window_start TIMESTAMPTZ, window_end TIMESTAMPTZ)
+RETURNS TABLE (
+  job TEXT,
+  operation TEXT,
+  model TEXT,
+  request_count BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    claude_usage.job,
+    claude_usage.operation,
+    claude_usage.model,
+    COUNT(*) AS request_count,
+    SUM(claude_usage.input_tokens) AS input_tokens,
+    SUM(claude_usage.output_tokens) AS output_tokens,
+    SUM(claude_usage.cost_usd) AS cost_usd
+  FROM claude_usage
+  WHERE claude_usage.created_at >= window_start
+    AND claude_usage.created_at < window_end
+  GROUP BY claude_usage.job, claude_usage.operation, claude_usage.model
+  ORDER BY cost_usd DESC;
+$$;
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE claude_usage IS 'Per-call Claude API token usage and cost, used for spend budgets and reporting';
+COMMENT ON COLUMN claude_usage.cost_usd IS 'Cost in USD computed from the model price table at the time of the call';
+COMMENT ON FUNCTION summarize_claude_usage(TIMESTAMPTZ, TIMESTAMPTZ) IS 'Aggregates usage and cost per job, operation and model within [window_start, window_end)';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 利用料は運用者向けのデータのため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使うバックエンドのみ可能
+
+ALTER TABLE claude_usage ENABLE ROW LEVEL SECURITY;
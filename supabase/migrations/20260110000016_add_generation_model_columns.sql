@@ -0,0 +1,21 @@
+-- Migration: Add generation model columns
+-- Description: 操作ごとのモデルルーティング・フォールバックで実際に使用されたモデルを、生成したコンテンツと一緒に保存
+-- Reference: https://supabase.com/docs/guides/database/tables
+
+-- newsテーブル: 世界・日本ニュースの要約に使用したモデル
+-- 既存のレコードはモデルが不明なためNULLを許可する
+ALTER TABLE news ADD COLUMN IF NOT EXISTS world_news_model TEXT;
+ALTER TABLE news ADD COLUMN IF NOT EXISTS japan_news_model TEXT;
+
+COMMENT ON COLUMN news.world_news_model IS 'Model used to generate the world news summary (NULL for legacy rows)';
+COMMENT ON COLUMN news.japan_news_model IS 'Model used to generate the Japan news summary (NULL for legacy rows)';
+
+-- news_category_summariesテーブル: カテゴリ別要約に使用したモデル
+ALTER TABLE news_category_summaries ADD COLUMN IF NOT EXISTS model TEXT;
+
+COMMENT ON COLUMN news_category_summaries.model IS 'Model used to generate the category summary (NULL for legacy rows)';
+
+-- termsテーブル: 用語の解説の生成に使用したモデル
+ALTER TABLE terms ADD COLUMN IF NOT EXISTS model TEXT;
+
+COMMENT ON COLUMN terms.model IS 'Model used to generate the term description (NULL for legacy rows)';
@@ -0,0 +1,41 @@
+-- Migration: Create claude_response_cache table
+-- Description: Claude APIのレスポンスのキャッシュ(リトライ・再実行で同じプロンプトを二重に課金しないため)
+-- Reference: https://www.postgresql.org/docs/current/datatype-json.html
+
+-- claude_response_cacheテーブル: リクエスト内容のハッシュ1つにつき1レコード
+-- キーはモデル・システムプロンプト・プロンプト・temperatureなどから計算したSHA-256
+-- 有効期限を過ぎたレコードは参照せず、次回の保存時に削除する
+CREATE TABLE IF NOT EXISTS claude_response_cache (
+  -- キャッシュキー（リクエスト内容のSHA-256、16進数）
+  cache_key TEXT PRIMARY KEY,
+
+  -- リクエストしたモデル
+  model TEXT NOT NULL,
+
+  -- 操作名（例: english-news-summary, term-generation、集計・調査用）
+  operation TEXT NOT NULL,
+
+  -- レスポンス（本文・トークン使用量・モデル・終了理由・ツールの入力）
+  response JSONB NOT NULL,
+
+  -- 保存日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 有効期限（この日時を過ぎたレコードは参照しない）
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- インデックス: 期限切れレコードの削除用
+CREATE INDEX IF NOT EXISTS idx_claude_response_cache_expires_at ON claude_response_cache (expires_at);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE claude_response_cache IS 'Content-addressed cache of Claude API responses to avoid paying twice for identical requests';
+COMMENT ON COLUMN claude_response_cache.cache_key IS 'SHA-256 of the request (model, system, prompt, temperature, max tokens, tool)';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- キャッシュはバックエンド内部のデータのため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使うバックエンドのみ可能
+
+ALTER TABLE claude_response_cache ENABLE ROW LEVEL SECURITY;
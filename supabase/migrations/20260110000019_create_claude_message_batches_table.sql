@@ -0,0 +1,59 @@
+-- Migration: Create claude_message_batches table
+-- Description: Claude APIのMessage Batchesで送信したバッチ(バックフィル・用語の事前生成などの非同期の生成処理)
+-- Reference: https://docs.anthropic.com/en/docs/build-with-claude/batch-processing
+
+-- claude_message_batchesテーブル: 送信したバッチ1つにつき1レコード
+-- Cronエンドポイント(/api/batch/messages)がin_progressのバッチの完了を確認し、
+-- 完了したバッチの結果を既存のパーサーで用語生成・要約の結果に変換してresultsに保存する
+CREATE TABLE IF NOT EXISTS claude_message_batches (
+  -- バッチID（Anthropic APIが発行するID、例: msgbatch_01...）
+  id TEXT PRIMARY KEY,
+
+  -- バッチの種類（terms: 用語生成, news: ニュース要約）
+  job TEXT NOT NULL CHECK (job IN ('terms', 'news')),
+
+  -- 状態（in_progress: 処理中, completed: 結果を変換済み）
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+
+  -- リクエスト（custom_id・操作名・プロンプトのバージョンの配列、結果の対応付けに使用）
+  requests JSONB NOT NULL,
+
+  -- リクエスト数
+  request_count INTEGER NOT NULL CHECK (request_count > 0),
+
+  -- 結果（custom_idごとの変換結果またはエラー、完了時に保存）
+  results JSONB,
+
+  -- 変換に成功した結果の数（完了時に保存）
+  succeeded_count INTEGER,
+
+  -- 失敗した結果の数（APIでのエラー・キャンセル・期限切れ・変換の失敗、完了時に保存）
+  failed_count INTEGER,
+
+  -- 送信日時
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  -- 最後に完了を確認した日時
+  checked_at TIMESTAMPTZ,
+
+  -- 結果を変換した日時
+  completed_at TIMESTAMPTZ
+);
+
+-- インデックス: 処理中のバッチの取得用（完了したバッチは対象外）
+CREATE INDEX IF NOT EXISTS idx_claude_message_batches_in_progress
+  ON claude_message_batches (submitted_at)
+  WHERE status = 'in_progress';
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE claude_message_batches IS 'Claude Message Batches submitted for non-urgent generation work and their mapped results';
+COMMENT ON COLUMN claude_message_batches.requests IS 'Array of { custom_id, operation, prompt_version } used to map results back';
+COMMENT ON COLUMN claude_message_batches.results IS 'Array of { custom_id, status, result?, error? } saved when the batch has ended';
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- バッチはバックエンド内部のデータのため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使うバックエンドのみ可能
+
+ALTER TABLE claude_message_batches ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,114 @@
+-- Migration: Add content moderation
+-- Description: 生成したニュース・用語の公開フラグと、管理者による編集・非公開・再公開の監査ログ
+-- Reference: https://supabase.com/docs/guides/database/postgres/row-level-security
+
+-- ============================================
+-- 公開フラグ
+-- ============================================
+-- 誤りのあるニュース・用語を管理者が非公開にするためのフラグ
+-- 既存のレコードとバッチで追加されるレコードは公開（TRUE）とする
+
+ALTER TABLE news ADD COLUMN IF NOT EXISTS published BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE terms ADD COLUMN IF NOT EXISTS published BOOLEAN NOT NULL DEFAULT TRUE;
+
+COMMENT ON COLUMN news.published IS 'Whether the news is visible to app users (FALSE when hidden by an admin)';
+COMMENT ON COLUMN terms.published IS 'Whether the term is visible to app users (FALSE when hidden by an admin)';
+
+-- ============================================
+-- 読み取りポリシーの変更
+-- ============================================
+-- anon key・authenticatedでは公開中のレコードのみ読み取り可能にする
+-- search_content関数は呼び出し元の権限（SECURITY INVOKER）で実行されるため、非公開のレコードは検索結果にも含まれない
+-- 管理APIはservice_role key（RLSバイパス）を使うため、非公開のレコードも読み書きできる
+
+DROP POLICY IF EXISTS "news_select_all" ON news;
+CREATE POLICY "news_select_published" ON news
+  FOR SELECT
+  USING (published);
+
+COMMENT ON POLICY "news_select_published" ON news IS 'Allow all users to read published news data';
+
+DROP POLICY IF EXISTS "terms_select_all" ON terms;
+CREATE POLICY "terms_select_published" ON terms
+  FOR SELECT
+  USING (published);
+
+COMMENT ON POLICY "terms_select_published" ON terms IS 'Allow all users to read published terms data';
+
+-- ============================================
+-- 監査ログ
+-- ============================================
+
+-- content_audit_logテーブル: 管理者による変更1回につき1レコード（追記のみ）
+CREATE TABLE IF NOT EXISTS content_audit_log (
+  -- 自動採番のID
+  id BIGSERIAL PRIMARY KEY,
+
+  -- 対象のテーブル（news / terms）
+  table_name TEXT NOT NULL CHECK (table_name IN ('news', 'terms')),
+
+  -- 対象のレコードのキー（newsは日付、termsはID）
+  record_id TEXT NOT NULL,
+
+  -- 操作（edit: 内容の編集, unpublish: 非公開, republish: 再公開）
+  action TEXT NOT NULL CHECK (action IN ('edit', 'unpublish', 'republish')),
+
+  -- 変更した管理者（ADMIN_API_KEYSに設定した名前）
+  actor TEXT NOT NULL,
+
+  -- 変更前の値（変更した列のみ）
+  previous_value JSONB NOT NULL,
+
+  -- 変更後の値（変更した列のみ）
+  new_value JSONB NOT NULL,
+
+  -- 変更の理由（任意）
+  reason TEXT,
+
+  -- 変更日時
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- インデックス: レコードごとの変更履歴の取得用
+CREATE INDEX IF NOT EXISTS idx_content_audit_log_record
+  ON content_audit_log (table_name, record_id, created_at DESC);
+
+-- インデックス: 新しい順の一覧の取得用
+CREATE INDEX IF NOT EXISTS idx_content_audit_log_created_at
+  ON content_audit_log (created_at DESC);
+
+-- コメント: テーブルの用途を記載
+COMMENT ON TABLE content_audit_log IS 'Append-only log of admin edits, unpublishes and republishes of news and terms';
+COMMENT ON COLUMN content_audit_log.record_id IS 'news.date (YYYY-MM-DD) or terms.id of the changed row';
+COMMENT ON COLUMN content_audit_log.previous_value IS 'Values of the changed columns before the change';
+COMMENT ON COLUMN content_audit_log.new_value IS 'Values of the changed columns after the change';
+
+-- 追記のみ: service_role key（RLSバイパス）でも更新・削除できないようにトリガーで拒否する
+CREATE OR REPLACE FUNCTION reject_content_audit_log_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'content_audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS content_audit_log_append_only ON content_audit_log;
+CREATE TRIGGER content_audit_log_append_only
+  BEFORE UPDATE OR DELETE ON content_audit_log
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_content_audit_log_modification();
+
+DROP TRIGGER IF EXISTS content_audit_log_no_truncate ON content_audit_log;
+CREATE TRIGGER content_audit_log_no_truncate
+  BEFORE TRUNCATE ON content_audit_log
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION reject_content_audit_log_modification();
+
+-- ============================================
+-- Row Level Security (RLS)
+-- ============================================
+-- 監査ログは管理用のデータのため、読み取りポリシーは作成しない
+-- 読み書きはservice_role key（RLSバイパス）を使う管理APIのみ可能
+
+ALTER TABLE content_audit_log ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,74 @@
+-- Migration: Create replace_terms_for_date function
+-- Description: 同じ日付の用語・クイズの置き換えを1トランザクションで行う関数
+-- Reference: https://www.postgresql.org/docs/current/plpgsql.html
+
+-- replace_terms_for_date関数: 対象日付の用語を新しい用語に置き換える
+-- 再実行・バックフィルで用語を再生成した場合に使用する
+-- 途中で失敗した場合は全体がロールバックされ、置き換え前の用語・クイズが残る
+--
+-- 以下の場合は置き換えずにエラー（SQLSTATE 55000）とする
+-- - replace_existingがFALSE（用語が3つ揃っていない）で、対象日付の用語がすでにある場合
+-- - 対象日付の用語を管理者が編集・非公開にしている場合（非公開、または監査ログに記録がある）
+--
+-- 置き換えた用語の履歴は、他の日付で配信されていない場合のみterms_historyから削除する
+-- （配信されなくなった用語が重複チェックで除外され続けないようにする）
+CREATE OR REPLACE FUNCTION replace_terms_for_date(
+  target_date DATE,
+  new_terms JSONB,
+  replace_existing BOOLEAN
+)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  replaced_names TEXT[];
+BEGIN
+  -- 同じ日付の置き換え・管理者の変更と競合しないよう、対象日付の用語をロックする
+  PERFORM 1 FROM terms WHERE date = target_date FOR UPDATE;
+
+  SELECT COALESCE(array_agg(name), '{}') INTO replaced_names
+  FROM terms
+  WHERE date = target_date;
+
+  IF cardinality(replaced_names) > 0 AND NOT replace_existing THEN
+    RAISE EXCEPTION 'terms for % already exist and the generated set is incomplete', target_date
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM terms t
+    WHERE t.date = target_date
+      AND (
+        NOT t.published
+        OR EXISTS (
+          SELECT 1
+          FROM content_audit_log a
+          WHERE a.table_name = 'terms' AND a.record_id = t.id::TEXT
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'terms for % have been moderated and cannot be replaced', target_date
+      USING ERRCODE = '55000';
+  END IF;
+
+  -- クイズは用語名で紐づくため、置き換え前の用語のクイズも合わせて削除する
+  DELETE FROM term_quizzes WHERE date = target_date;
+  DELETE FROM terms WHERE date = target_date;
+
+  INSERT INTO terms (date, name, description, difficulty, model, prompt_version)
+  SELECT target_date, t.name, t.description, t.difficulty, t.model, t.prompt_version
+  FROM jsonb_to_recordset(new_terms)
+    AS t(name TEXT, description TEXT, difficulty TEXT, model TEXT, prompt_version TEXT);
+
+  DELETE FROM terms_history h
+  WHERE h.term_name = ANY (replaced_names)
+    AND NOT EXISTS (SELECT 1 FROM terms t WHERE t.name = h.term_name);
+END;
+$$;
+
+COMMENT ON FUNCTION replace_terms_for_date(DATE, JSONB, BOOLEAN) IS 'Atomically replaces the terms and quizzes of a date, refusing incomplete sets and moderated terms';
+
+-- 用語を削除できる関数のため、バックエンド（service_role key）以外からは呼び出せないようにする
+REVOKE EXECUTE ON FUNCTION replace_terms_for_date(DATE, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
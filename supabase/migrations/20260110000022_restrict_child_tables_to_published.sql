@@ -0,0 +1,54 @@
+-- Migration: Restrict child tables to published content
+-- Description: 非公開にしたニュース・用語のカテゴリ要約・元記事・クイズを読み取れないようにする
+-- Reference: https://supabase.com/docs/guides/database/postgres/row-level-security
+
+-- ============================================
+-- 読み取りポリシーの変更
+-- ============================================
+-- newsテーブル・termsテーブルの読み取りは公開中のレコードのみに制限しているが（20260110000020）、
+-- 日付で紐づく子テーブルは全レコードを読み取れるため、非公開にした内容がanon keyで取得できてしまう
+-- 親のレコードが公開中の場合のみ読み取り可能にする
+-- 管理APIとバッチはservice_role key（RLSバイパス）を使うため、非公開のレコードも読み書きできる
+
+-- news_category_summaries: 同じ日付のニュースが公開中の場合のみ読み取り可能
+DROP POLICY IF EXISTS "news_category_summaries_select_all" ON news_category_summaries;
+CREATE POLICY "news_category_summaries_select_published" ON news_category_summaries
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM news n
+      WHERE n.date = news_category_summaries.news_date AND n.published
+    )
+  );
+
+COMMENT ON POLICY "news_category_summaries_select_published" ON news_category_summaries IS 'Allow all users to read category summaries of published news';
+
+-- news_source_articles: 同じ日付のニュースが公開中の場合のみ読み取り可能
+DROP POLICY IF EXISTS "news_source_articles_select_all" ON news_source_articles;
+CREATE POLICY "news_source_articles_select_published" ON news_source_articles
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM news n
+      WHERE n.date = news_source_articles.news_date AND n.published
+    )
+  );
+
+COMMENT ON POLICY "news_source_articles_select_published" ON news_source_articles IS 'Allow all users to read source articles of published news';
+
+-- term_quizzes: 同じ日付・同じ名前の用語が公開中の場合のみ読み取り可能
+-- （クイズは用語IDではなく日付と用語名で紐づく）
+DROP POLICY IF EXISTS "term_quizzes_select_all" ON term_quizzes;
+CREATE POLICY "term_quizzes_select_published" ON term_quizzes
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM terms t
+      WHERE t.date = term_quizzes.date AND t.name = term_quizzes.term_name AND t.published
+    )
+  );
+
+COMMENT ON POLICY "term_quizzes_select_published" ON term_quizzes IS 'Allow all users to read quizzes of published terms';
@@ -0,0 +1,12 @@
+-- Migration: Add messages job to batch_locks
+-- Description: Message Batchesの確認(/api/batch/messages)の重複実行もリースロックで防ぐ
+-- Reference: https://www.postgresql.org/docs/current/sql-altertable.html
+
+-- 確認が重なると、同じバッチの結果の保存・利用料の記録が二重に行われるため、
+-- ニュース・用語と同様に1つの実行のみ許可する
+-- （CHECK制約はテーブル作成時に列に付けたため、デフォルトの名前batch_locks_job_checkで作成されている）
+ALTER TABLE batch_locks DROP CONSTRAINT IF EXISTS batch_locks_job_check;
+ALTER TABLE batch_locks
+  ADD CONSTRAINT batch_locks_job_check CHECK (job IN ('news', 'terms', 'messages'));
+
+COMMENT ON COLUMN batch_locks.job IS 'Batch job: news, terms or messages (Message Batches polling)';
@@ -0,0 +1,95 @@
+-- Migration: Create save_news_for_date function
+-- Description: 管理者が編集・非公開にしたニュースをバッチの再生成・バックフィルで上書きしないようにする
+-- Reference: https://www.postgresql.org/docs/current/plpgsql.html
+
+-- is_news_moderated関数: 対象日付のニュースを管理者が編集・非公開にしているかどうか
+-- （非公開、または監査ログに記録がある。監査ログのnewsのrecord_idはYYYY-MM-DD形式の日付）
+CREATE OR REPLACE FUNCTION is_news_moderated(target_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM news n WHERE n.date = target_date AND NOT n.published
+  ) OR EXISTS (
+    SELECT 1
+    FROM content_audit_log a
+    WHERE a.table_name = 'news' AND a.record_id = to_char(target_date, 'YYYY-MM-DD')
+  );
+$$;
+
+COMMENT ON FUNCTION is_news_moderated(DATE) IS 'Whether the news of a date has been unpublished or edited by an admin';
+
+-- save_news_for_date関数: 対象日付のニュースを保存する（日付をPKとしてupsert）
+-- 再実行・バックフィルでニュースを再生成した場合も使用する
+--
+-- 対象日付のニュースを管理者が編集・非公開にしている場合は、上書きせずにエラー（SQLSTATE 55000）とする
+-- （用語のreplace_terms_for_date関数と同じ条件）
+CREATE OR REPLACE FUNCTION save_news_for_date(
+  target_date DATE,
+  new_news JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+BEGIN
+  -- 管理者の変更と競合しないよう、対象日付のニュースをロックする
+  PERFORM 1 FROM news WHERE date = target_date FOR UPDATE;
+
+  IF is_news_moderated(target_date) THEN
+    RAISE EXCEPTION 'news for % has been moderated and cannot be overwritten', target_date
+      USING ERRCODE = '55000';
+  END IF;
+
+  INSERT INTO news (
+    date,
+    world_news_title,
+    world_news_summary,
+    japan_news_title,
+    japan_news_summary,
+    world_news_model,
+    japan_news_model,
+    world_news_prompt_version,
+    japan_news_prompt_version,
+    updated_at
+  )
+  SELECT
+    target_date,
+    n.world_news_title,
+    n.world_news_summary,
+    n.japan_news_title,
+    n.japan_news_summary,
+    n.world_news_model,
+    n.japan_news_model,
+    n.world_news_prompt_version,
+    n.japan_news_prompt_version,
+    n.updated_at
+  FROM jsonb_to_record(new_news) AS n(
+    world_news_title TEXT,
+    world_news_summary TEXT,
+    japan_news_title TEXT,
+    japan_news_summary TEXT,
+    world_news_model TEXT,
+    japan_news_model TEXT,
+    world_news_prompt_version TEXT,
+    japan_news_prompt_version TEXT,
+    updated_at TIMESTAMPTZ
+  )
+  ON CONFLICT (date) DO UPDATE SET
+    world_news_title = EXCLUDED.world_news_title,
+    world_news_summary = EXCLUDED.world_news_summary,
+    japan_news_title = EXCLUDED.japan_news_title,
+    japan_news_summary = EXCLUDED.japan_news_summary,
+    world_news_model = EXCLUDED.world_news_model,
+    japan_news_model = EXCLUDED.japan_news_model,
+    world_news_prompt_version = EXCLUDED.world_news_prompt_version,
+    japan_news_prompt_version = EXCLUDED.japan_news_prompt_version,
+    updated_at = EXCLUDED.updated_at;
+END;
+$$;
+
+COMMENT ON FUNCTION save_news_for_date(DATE, JSONB) IS 'Upserts the news of a date, refusing news moderated by an admin';
+
+-- ニュースを上書きできる関数のため、バックエンド（service_role key）以外からは呼び出せないようにする
+REVOKE EXECUTE ON FUNCTION save_news_for_date(DATE, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,52 @@
+-- Migration: Protect children of moderated news
+-- Description: 管理者が編集・非公開にした日付の出典記事・カテゴリ別要約を、書き込み元によらず変更できないようにする
+-- Reference: https://www.postgresql.org/docs/current/plpgsql-trigger.html
+
+-- ============================================
+-- 管理者が変更したニュースの子テーブルの保護
+-- ============================================
+-- ニュース本体はsave_news_for_date関数（20260110000024）で上書きを拒否しているが、
+-- 出典記事・カテゴリ別要約はテーブルに直接書き込めるため、再生成で管理者が確認した内容と食い違ってしまう
+-- 管理者はこれらのテーブルを変更しないため、対象日付のニュースが変更済みの場合は全ての書き込みをトリガーで拒否する
+--
+-- newsのレコードを削除した場合のカスケード削除（親のレコードが存在しない）は許可する
+
+CREATE OR REPLACE FUNCTION reject_moderated_news_child_modification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target_date DATE;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_date := OLD.news_date;
+    IF NOT EXISTS (SELECT 1 FROM news WHERE date = target_date) THEN
+      RETURN OLD;
+    END IF;
+  ELSE
+    target_date := NEW.news_date;
+  END IF;
+
+  IF is_news_moderated(target_date) THEN
+    RAISE EXCEPTION '% for % cannot be modified because the news has been moderated', TG_TABLE_NAME, target_date
+      USING ERRCODE = '55000';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS news_source_articles_protect_moderated ON news_source_articles;
+CREATE TRIGGER news_source_articles_protect_moderated
+  BEFORE INSERT OR UPDATE OR DELETE ON news_source_articles
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_moderated_news_child_modification();
+
+DROP TRIGGER IF EXISTS news_category_summaries_protect_moderated ON news_category_summaries;
+CREATE TRIGGER news_category_summaries_protect_moderated
+  BEFORE INSERT OR UPDATE OR DELETE ON news_category_summaries
+  FOR EACH ROW
+  EXECUTE FUNCTION reject_moderated_news_child_modification();
@@ -0,0 +1,61 @@
+-- Migration: Create replace_news_category_summaries function
+-- Description: 同じ日付のカテゴリ別要約の置き換えを、要約に成功したカテゴリのみ1トランザクションで行う関数
+-- Reference: https://www.postgresql.org/docs/current/plpgsql.html
+
+-- replace_news_category_summaries関数: 対象日付のカテゴリ別要約のうち、渡したカテゴリのみ置き換える
+-- 再実行・バックフィルで要約に失敗したカテゴリは既存の要約を維持する
+-- （全カテゴリの要約に失敗した場合に、既存のカテゴリ別要約が空になることを防ぐ）
+-- 途中で失敗した場合は全体がロールバックされ、置き換え前のカテゴリ別要約が残る
+--
+-- 管理者が編集・非公開にした日付は、トリガー（20260110000025）によりエラー（SQLSTATE 55000）となる
+CREATE OR REPLACE FUNCTION replace_news_category_summaries(
+  target_date DATE,
+  new_summaries JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+BEGIN
+  DELETE FROM news_category_summaries c
+  WHERE c.news_date = target_date
+    AND c.category IN (
+      SELECT s.category
+      FROM jsonb_to_recordset(new_summaries) AS s(category TEXT)
+    );
+
+  INSERT INTO news_category_summaries (
+    news_date,
+    category,
+    title,
+    summary,
+    article_count,
+    model,
+    prompt_version,
+    updated_at
+  )
+  SELECT
+    target_date,
+    s.category,
+    s.title,
+    s.summary,
+    s.article_count,
+    s.model,
+    s.prompt_version,
+    s.updated_at
+  FROM jsonb_to_recordset(new_summaries) AS s(
+    category TEXT,
+    title TEXT,
+    summary TEXT,
+    article_count INTEGER,
+    model TEXT,
+    prompt_version TEXT,
+    updated_at TIMESTAMPTZ
+  );
+END;
+$$;
+
+COMMENT ON FUNCTION replace_news_category_summaries(DATE, JSONB) IS 'Atomically replaces the category summaries of a date, keeping categories not included in the new set';
+
+-- カテゴリ別要約を削除できる関数のため、バックエンド（service_role key）以外からは呼び出せないようにする
+REVOKE EXECUTE ON FUNCTION replace_news_category_summaries(DATE, JSONB) FROM PUBLIC, anon, authenticated;
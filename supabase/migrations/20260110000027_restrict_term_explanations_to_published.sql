@@ -0,0 +1,39 @@
+-- Migration: Restrict term explanations to published terms
+-- Description: 非公開にした用語の生成済み解説を読み取れないようにする
+-- Reference: https://supabase.com/docs/guides/database/postgres/row-level-security
+
+-- ============================================
+-- 読み取りポリシーの変更
+-- ============================================
+-- 生成済みの解説（20260110000011）は全レコードを読み取れるため、
+-- 管理者が非公開にした用語も、用語集から解説として取得できてしまう
+-- 子テーブルの読み取りポリシー（20260110000022）と同様に、用語の公開状態に紐づける
+--
+-- 解説は配信していない用語名にも生成するため、termsテーブルにレコードがない場合は読み取り可能とし、
+-- 非公開の配信があり、公開中の配信がない用語名のみ読み取れないようにする（バックエンドの解説生成と同じ条件）
+
+-- is_term_name_unpublished関数: 用語名の配信が全て非公開かどうか
+-- anon keyではtermsテーブルの非公開のレコードを参照できないため（20260110000020）、定義者の権限で実行する
+CREATE OR REPLACE FUNCTION is_term_name_unpublished(target_name TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM terms t WHERE t.name = target_name AND NOT t.published
+  ) AND NOT EXISTS (
+    SELECT 1 FROM terms t WHERE t.name = target_name AND t.published
+  );
+$$;
+
+COMMENT ON FUNCTION is_term_name_unpublished(TEXT) IS 'Whether all deliveries of a term name have been unpublished by an admin';
+
+-- term_explanations: 用語名の配信が全て非公開の場合は読み取り不可
+DROP POLICY IF EXISTS "term_explanations_select_all" ON term_explanations;
+CREATE POLICY "term_explanations_select_published" ON term_explanations
+  FOR SELECT
+  USING (NOT is_term_name_unpublished(term_name));
+
+COMMENT ON POLICY "term_explanations_select_published" ON term_explanations IS 'Allow all users to read generated explanations of terms that are not unpublished';
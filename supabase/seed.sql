@@ -27,6 +27,39 @@ VALUES
    '【日本市場】銀行株が上昇、日銀の政策修正期待で',
    'テスト用の日本ニュース要約です。日銀の金融政策正常化への期待から、銀行株が軒並み上昇しました。');
 
+-- ============================================
+-- News Source Articles Test Data
+-- ============================================
+
+INSERT INTO news_source_articles (news_date, region, title, outlet, url, published_at, position)
+VALUES
+  -- 今日のニュースの出典
+  (CURRENT_DATE, 'world', 'Stocks hit record high as tech rally extends', 'Reuters',
+   'https://example.com/world/stocks-record-high', NOW() - INTERVAL '10 hours', 0),
+  (CURRENT_DATE, 'world', 'S&P 500 climbs on strong economic data', 'Bloomberg',
+   'https://example.com/world/sp500-climbs', NOW() - INTERVAL '12 hours', 1),
+  (CURRENT_DATE, 'japan', '日経平均、3万9000円台を回復', '日本経済新聞',
+   'https://example.com/japan/nikkei-39000', NOW() - INTERVAL '9 hours', 0),
+  (CURRENT_DATE, 'japan', '円安進行で輸出関連株に買い', 'ロイター',
+   'https://example.com/japan/yen-weak-exporters', NOW() - INTERVAL '11 hours', 1);
+
+-- ============================================
+-- News Category Summaries Test Data
+-- ============================================
+
+INSERT INTO news_category_summaries (news_date, category, title, summary, article_count)
+VALUES
+  -- 今日のテーマ別要約
+  (CURRENT_DATE, 'markets', '市況',
+   '米国株はハイテク株主導で上昇し、S&P500は最高値を更新しました。日経平均も3万9000円台を回復し、半導体関連株が相場をけん引しています。',
+   3),
+  (CURRENT_DATE, 'macro', 'マクロ経済・中央銀行',
+   '米連邦準備制度理事会（FRB）は政策金利を据え置きました。市場では年内の利下げ時期に注目が集まっています。',
+   2),
+  (CURRENT_DATE, 'fx', '為替',
+   '円安が進行し、輸出関連株に買いが入りました。日米の金利差が意識されています。',
+   1);
+
 -- ============================================
 -- Terms Test Data
 -- ============================================